@@ -0,0 +1,129 @@
+// Loss circuit breaker endpoint
+import express from 'express';
+import { requireAuth } from '../lib/auth.js';
+import { query, getClient } from '../lib/db.js';
+
+const router = express.Router();
+
+function resolveMode(req) {
+  const mode = String(req.query.mode || 'PAPER').toUpperCase();
+  return mode === 'LIVE' ? 'LIVE' : 'PAPER';
+}
+
+// GET /circuit-breaker?mode=PAPER
+router.get('/', requireAuth, async (req, res) => {
+  try {
+    const mode = resolveMode(req);
+
+    const [state, limits, events] = await Promise.all([
+      query(`SELECT * FROM circuit_breaker_state WHERE mode = $1`, [mode]),
+      query(
+        `SELECT max_daily_loss, max_weekly_loss FROM risk_limits
+         WHERE mode = $1 AND is_active = true
+         ORDER BY updated_at DESC
+         LIMIT 1`,
+        [mode]
+      ),
+      query(
+        `SELECT * FROM circuit_breaker_events
+         WHERE mode = $1
+         ORDER BY created_at DESC
+         LIMIT 20`,
+        [mode]
+      ),
+    ]);
+
+    const row = state.rows[0] || { mode, status: 'ACTIVE' };
+    const limitRow = limits.rows[0] || {};
+
+    res.json({
+      circuit_breaker: {
+        mode,
+        status: row.status,
+        trigger: row.trigger_type || null,
+        reason: row.reason || null,
+        halted_at: row.halted_at || null,
+        resumed_at: row.resumed_at || null,
+        resumed_by: row.resumed_by || null,
+        daily_pnl: row.daily_pnl !== null && row.daily_pnl !== undefined ? Number(row.daily_pnl) : null,
+        weekly_pnl: row.weekly_pnl !== null && row.weekly_pnl !== undefined ? Number(row.weekly_pnl) : null,
+        max_daily_loss: limitRow.max_daily_loss !== undefined ? Number(limitRow.max_daily_loss) : null,
+        max_weekly_loss: limitRow.max_weekly_loss !== undefined ? Number(limitRow.max_weekly_loss) : null,
+      },
+      events: events.rows,
+    });
+  } catch (error) {
+    console.error('[circuit-breaker] Error:', error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// POST /circuit-breaker?mode=PAPER { action: 'resume', note }
+router.post('/', requireAuth, async (req, res) => {
+  const mode = resolveMode(req);
+  const { action, note } = req.body || {};
+
+  if (action !== 'resume') {
+    return res.status(400).json({ error: "Unsupported action. Use action: 'resume'" });
+  }
+
+  const actor = req.user?.email || req.user?.id || 'unknown';
+  const client = await getClient();
+
+  try {
+    await client.query('BEGIN');
+
+    const current = await client.query(
+      `SELECT * FROM circuit_breaker_state WHERE mode = $1 FOR UPDATE`,
+      [mode]
+    );
+    const row = current.rows[0];
+
+    if (!row || row.status !== 'HALTED') {
+      await client.query('ROLLBACK');
+      return res.status(409).json({ error: 'Trading is not halted', status: row?.status || 'ACTIVE' });
+    }
+
+    const updated = await client.query(
+      `UPDATE circuit_breaker_state
+       SET status = 'ACTIVE', resumed_at = NOW(), resumed_by = $2, updated_at = NOW()
+       WHERE mode = $1
+       RETURNING *`,
+      [mode, actor]
+    );
+
+    await client.query(
+      `INSERT INTO circuit_breaker_events (mode, event_type, trigger_type, reason, actor, daily_pnl, weekly_pnl)
+       VALUES ($1, 'RESUMED', $2, $3, $4, $5, $6)`,
+      [
+        mode,
+        row.trigger_type,
+        typeof note === 'string' && note ? note : `Resumed after ${row.trigger_type || 'halt'}`,
+        actor,
+        row.daily_pnl,
+        row.weekly_pnl,
+      ]
+    );
+
+    await client.query('COMMIT');
+
+    const resumed = updated.rows[0];
+    res.json({
+      success: true,
+      circuit_breaker: {
+        mode,
+        status: resumed.status,
+        resumed_at: resumed.resumed_at,
+        resumed_by: resumed.resumed_by,
+      },
+    });
+  } catch (error) {
+    await client.query('ROLLBACK').catch(() => {});
+    console.error('[circuit-breaker] Error:', error);
+    res.status(500).json({ error: error.message });
+  } finally {
+    client.release();
+  }
+});
+
+export default router;
@@ -8,19 +8,42 @@ router.get('/', async (req, res) => {
   try {
     const limit = parseInt(req.query.limit || '50', 10);
     const status = req.query.status;
+    const orderId = req.query.order_id;
+    const includeEvents = req.query.include_events === 'true';
     const params = [];
+    const conditions = [];
     let sql = 'SELECT * FROM orders';
 
     if (status) {
       params.push(status);
-      sql += ` WHERE status = $${params.length}`;
+      conditions.push(`status = $${params.length}`);
+    }
+    if (orderId) {
+      params.push(orderId);
+      conditions.push(`id = $${params.length}`);
+    }
+    if (conditions.length > 0) {
+      sql += ` WHERE ${conditions.join(' AND ')}`;
     }
 
     params.push(Number.isFinite(limit) ? limit : 50);
     sql += ` ORDER BY created_at DESC LIMIT $${params.length}`;
 
     const result = await query(sql, params);
-    res.json({ orders: result.rows || [] });
+    const orders = result.rows || [];
+
+    // Attach each order's lifecycle events, oldest first
+    if (includeEvents && orders.length > 0) {
+      const events = await query(
+        'SELECT * FROM order_events WHERE order_id = ANY($1) ORDER BY created_at ASC',
+        [orders.map(order => order.id)]
+      );
+      for (const order of orders) {
+        order.events = events.rows.filter(event => event.order_id === order.id);
+      }
+    }
+
+    res.json({ orders });
   } catch (error) {
     console.error('[Orders] Error:', error);
     res.status(500).json({ error: error.message });
@@ -0,0 +1,180 @@
+// Dead-letter queue for failed pipeline signals
+import express from 'express';
+import { requireAuth } from '../lib/auth.js';
+import { query } from '../lib/db.js';
+import { processSignal } from '../workers/signal-processor.js';
+
+const router = express.Router();
+
+const STAGES = ['RECEPTION', 'NORMALIZATION', 'VALIDATION', 'DEDUPLICATION', 'DECISION', 'EXECUTION'];
+const STATUSES = ['PENDING', 'REPLAYED', 'REPLAY_FAILED'];
+const MAX_REPLAY_BATCH = 50;
+
+function emptyStageCounts() {
+  return Object.fromEntries(STAGES.map(stage => [stage, 0]));
+}
+
+function toResponse(row, includePayload) {
+  const { raw_payload, signal_data, created_at, ...rest } = row;
+  return {
+    ...rest,
+    replay_count: Number(row.replay_count || 0),
+    ...(includePayload ? { raw_payload, signal_data } : {}),
+  };
+}
+
+// GET /pipeline-failures?status=&stage=&since_hours=24&limit=50
+// GET /pipeline-failures?id=<failure id>
+router.get('/', requireAuth, async (req, res) => {
+  try {
+    if (req.query.id) {
+      const result = await query(`SELECT * FROM refactored_pipeline_failures WHERE id = $1`, [req.query.id]);
+      if (result.rows.length === 0) {
+        return res.status(404).json({ error: 'Failure not found' });
+      }
+      return res.json({ failure: toResponse(result.rows[0], true) });
+    }
+
+    const status = req.query.status ? String(req.query.status).toUpperCase() : null;
+    const stage = req.query.stage ? String(req.query.stage).toUpperCase() : null;
+    const sinceHours = Number(req.query.since_hours || 24);
+    const limit = Math.min(Number(req.query.limit) > 0 ? Number(req.query.limit) : 50, 200);
+
+    if (status && !STATUSES.includes(status)) {
+      return res.status(400).json({ error: `status must be one of ${STATUSES.join(', ')}` });
+    }
+    if (stage && !STAGES.includes(stage)) {
+      return res.status(400).json({ error: `stage must be one of ${STAGES.join(', ')}` });
+    }
+
+    const since = Number.isFinite(sinceHours) && sinceHours > 0
+      ? new Date(Date.now() - sinceHours * 60 * 60 * 1000).toISOString()
+      : null;
+
+    const [failures, counts] = await Promise.all([
+      query(
+        `SELECT * FROM refactored_pipeline_failures
+         WHERE ($1::text IS NULL OR status = $1)
+           AND ($2::text IS NULL OR stage = $2)
+           AND ($3::timestamptz IS NULL OR timestamp >= $3)
+         ORDER BY timestamp DESC
+         LIMIT $4`,
+        [status, stage, since, limit]
+      ),
+      query(
+        `SELECT stage,
+                COUNT(*)::int AS total,
+                COUNT(*) FILTER (WHERE status = 'PENDING')::int AS pending
+         FROM refactored_pipeline_failures
+         WHERE ($1::timestamptz IS NULL OR timestamp >= $1)
+         GROUP BY stage`,
+        [since]
+      ),
+    ]);
+
+    const byStage = emptyStageCounts();
+    const pendingByStage = emptyStageCounts();
+    for (const row of counts.rows) {
+      if (row.stage in byStage) {
+        byStage[row.stage] = row.total;
+        pendingByStage[row.stage] = row.pending;
+      }
+    }
+
+    res.json({
+      failures: failures.rows.map(row => toResponse(row, false)),
+      summary: {
+        since,
+        total: Object.values(byStage).reduce((sum, count) => sum + count, 0),
+        pending: Object.values(pendingByStage).reduce((sum, count) => sum + count, 0),
+        by_stage: byStage,
+        pending_by_stage: pendingByStage,
+      },
+    });
+  } catch (error) {
+    console.error('[pipeline-failures] Error:', error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+/**
+ * Re-queue the stored signal and run it through the signal processor now.
+ * The processor here has no signal age check, so bypass_age_check has no
+ * effect on this stack.
+ */
+async function replayFailure(id) {
+  const failure = await query(`SELECT * FROM refactored_pipeline_failures WHERE id = $1`, [id]);
+  const entry = failure.rows[0];
+
+  if (!entry) {
+    return { failure_id: id, success: false, error: 'Failure not found' };
+  }
+  if (entry.status === 'REPLAYED') {
+    return { failure_id: id, success: false, error: 'Failure was already replayed successfully' };
+  }
+
+  const signalId = entry.signal_id || entry.original_signal_id;
+  const signal = signalId
+    ? await query(
+        `UPDATE refactored_signals SET validation_result = NULL WHERE id = $1 RETURNING *`,
+        [signalId]
+      )
+    : { rows: [] };
+
+  if (signal.rows.length === 0) {
+    return { failure_id: id, success: false, error: 'Failure has no stored signal to replay' };
+  }
+
+  await query(`UPDATE signals SET status = 'PENDING' WHERE id = $1`, [signal.rows[0].id]);
+
+  const result = await processSignal(signal.rows[0], { replayOf: id });
+
+  return {
+    failure_id: id,
+    success: result.success && result.approved === true,
+    tracking_id: result.signal_id,
+    reason: result.reason,
+    error: result.error,
+  };
+}
+
+// POST /pipeline-failures { ids: [...], bypass_age_check }
+router.post('/', requireAuth, async (req, res) => {
+  const body = req.body || {};
+  const ids = Array.isArray(body.ids)
+    ? body.ids.filter(id => typeof id === 'string')
+    : typeof body.id === 'string' ? [body.id] : [];
+
+  if (ids.length === 0) {
+    return res.status(400).json({ error: 'Provide id or ids to replay' });
+  }
+  if (ids.length > MAX_REPLAY_BATCH) {
+    return res.status(400).json({ error: `At most ${MAX_REPLAY_BATCH} failures can be replayed at once` });
+  }
+
+  try {
+    console.log(`[pipeline-failures] Replay of ${ids.length} failure(s) requested by ${req.user?.email || req.user?.id || 'unknown'}`);
+
+    // Sequential so replays of the same symbol are processed in order
+    const results = [];
+    for (const id of ids) {
+      try {
+        results.push(await replayFailure(id));
+      } catch (error) {
+        results.push({ failure_id: id, success: false, error: error.message });
+      }
+    }
+
+    res.json({
+      success: results.every(result => result.success),
+      replayed: results.filter(result => result.success).length,
+      failed: results.filter(result => !result.success).length,
+      results,
+    });
+  } catch (error) {
+    console.error('[pipeline-failures] Replay error:', error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+export default router;
@@ -18,6 +18,8 @@ import exitSignalsRouter from './routes/exit-signals.js';
 import exitRulesRouter from './routes/exit-rules.js';
 import riskLimitsRouter from './routes/risk-limits.js';
 import riskViolationsRouter from './routes/risk-violations.js';
+import circuitBreakerRouter from './routes/circuit-breaker.js';
+import pipelineFailuresRouter from './routes/pipeline-failures.js';
 import marketContextRouter from './routes/market-context.js';
 import marketPositioningRouter from './routes/market-positioning.js';
 import metricsRouter from './routes/metrics.js';
@@ -78,6 +80,8 @@ app.use('/exit-signals', exitSignalsRouter);
 app.use('/exit-rules', exitRulesRouter);
 app.use('/risk-limits', riskLimitsRouter);
 app.use('/risk-violations', riskViolationsRouter);
+app.use('/circuit-breaker', circuitBreakerRouter);
+app.use('/pipeline-failures', pipelineFailuresRouter);
 app.use('/market-context', marketContextRouter);
 app.use('/market-positioning', marketPositioningRouter);
 app.use('/metrics', metricsRouter);
@@ -104,8 +108,8 @@ app.use((req, res) => {
     message: `Endpoint '${req.path}' not found`,
     available: [
       'health', 'auth', 'signals', 'orders', 'positions', 'stats', 'webhook',
-      'analytics', 'exit-signals', 'exit-rules', 'risk-limits', 'risk-violations',
-      'market-positioning', 'market-data-status', 'metrics', 'monitor-positions', 
+      'analytics', 'exit-signals', 'exit-rules', 'risk-limits', 'risk-violations', 'circuit-breaker',
+      'pipeline-failures', 'market-positioning', 'market-data-status', 'metrics', 'monitor-positions', 
       'mtf-analysis', 'mtf-comparison', 'paper-trading', 'poll-orders', 
       'refresh-gex-signals', 'refresh-positions', 'refactored-exit-worker', 'trades'
     ],
@@ -124,7 +128,7 @@ app.use((err, req, res, next) => {
 // Start server
 app.listen(PORT, '0.0.0.0', () => {
   console.log(`🚀 Optionstrat Backend Server (Node.js) starting on port ${PORT}`);
-  console.log(`📦 Available endpoints: health, auth, signals, orders, positions, stats, webhook, analytics, exit-signals, exit-rules, risk-limits, risk-violations, market-positioning, metrics, monitor-positions, mtf-analysis, mtf-comparison, paper-trading, poll-orders, refresh-gex-signals, refresh-positions, refactored-exit-worker, trades`);
+  console.log(`📦 Available endpoints: health, auth, signals, orders, positions, stats, webhook, analytics, exit-signals, exit-rules, risk-limits, risk-violations, circuit-breaker, pipeline-failures, market-positioning, metrics, monitor-positions, mtf-analysis, mtf-comparison, paper-trading, poll-orders, refresh-gex-signals, refresh-positions, refactored-exit-worker, trades`);
   console.log(`✅ Server ready at http://0.0.0.0:${PORT}`);
   
   // Start background workers
@@ -1,6 +1,10 @@
 // Exit Monitor
 // Monitors open positions and generates exit signals based on rules
 import { query, getClient } from '../lib/db.js';
+import marketDataService from '../lib/market-data-service.js';
+
+// Underlying within this % of the strike on expiration day
+const PIN_RISK_PERCENT = parseFloat(process.env.PIN_RISK_PERCENT || '0.5');
 
 /**
  * Get exit rules
@@ -303,6 +307,59 @@ export async function monitorPositionsForExits() {
   }
 }
 
+/**
+ * Today's date on the exchange (ET), as YYYY-MM-DD
+ */
+function exchangeDate(now = new Date()) {
+  return new Intl.DateTimeFormat('en-CA', {
+    timeZone: 'America/New_York',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+  }).format(now);
+}
+
+/**
+ * Pin risk warnings for open positions expiring today with the underlying
+ * near the strike
+ */
+async function getPinRiskWarnings() {
+  const today = exchangeDate();
+  const result = await query(`
+    SELECT * FROM refactored_positions
+    WHERE status = 'OPEN'
+    AND expiration = $1
+    AND strike IS NOT NULL
+  `, [today]);
+
+  const warnings = [];
+  for (const position of result.rows) {
+    const underlying = position.underlying || position.symbol;
+    const strike = parseFloat(position.strike);
+    try {
+      const { price } = await marketDataService.getStockPrice(underlying);
+      const distancePercent = (Math.abs(price - strike) / strike) * 100;
+      if (distancePercent <= PIN_RISK_PERCENT) {
+        warnings.push({
+          position_id: position.id,
+          symbol: position.symbol,
+          underlying,
+          strike,
+          option_type: position.option_type || position.direction,
+          expiration: today,
+          quantity: position.quantity,
+          underlying_price: price,
+          distance_percent: distancePercent,
+          message: `${underlying} at ${price.toFixed(2)} is ${distancePercent.toFixed(2)}% from the ${strike} strike at expiration`,
+        });
+      }
+    } catch (error) {
+      console.error(`[Exit Monitor] Pin risk check failed for ${underlying}:`, error.message);
+    }
+  }
+  return warnings;
+}
+
 /**
  * Get current exit alerts (for API endpoint)
  */
@@ -324,15 +381,22 @@ export async function getCurrentExitAlerts() {
       const alerts = await evaluateExitConditions(position, exitRules);
       allAlerts.push(...alerts);
     }
+
+    const pinRisk = await getPinRiskWarnings().catch((error) => {
+      console.error('[Exit Monitor] Error checking pin risk:', error);
+      return [];
+    });
     
     return {
       alerts: allAlerts,
+      pin_risk: pinRisk,
       summary: {
         total_positions: openPositions.length,
         positions_with_alerts: new Set(allAlerts.map(a => a.position_id)).size,
         critical_alerts: allAlerts.filter(a => a.priority === 'CRITICAL').length,
         high_alerts: allAlerts.filter(a => a.priority === 'HIGH').length,
         medium_alerts: allAlerts.filter(a => a.priority === 'MEDIUM').length,
+        pin_risk_alerts: pinRisk.length,
       },
       timestamp: new Date().toISOString(),
     };
@@ -340,12 +404,14 @@ export async function getCurrentExitAlerts() {
     console.error('[Exit Monitor] Error getting current alerts:', error);
     return {
       alerts: [],
+      pin_risk: [],
       summary: {
         total_positions: 0,
         positions_with_alerts: 0,
         critical_alerts: 0,
         high_alerts: 0,
         medium_alerts: 0,
+        pin_risk_alerts: 0,
       },
       timestamp: new Date().toISOString(),
     };
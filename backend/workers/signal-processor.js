@@ -160,10 +160,57 @@ async function applyDecisionRules(signal, marketContext, mtfAnalysis) {
   return validationResult;
 }
 
+// Decision rule stages that fall outside the pipeline stage vocabulary
+const DEAD_LETTER_STAGES = {
+  VALIDATION: 'VALIDATION',
+  RISK_LIMITS: 'DECISION',
+};
+
+/**
+ * Dead-letter a failed signal in refactored_pipeline_failures, or record the
+ * outcome on the original entry when this run was a replay
+ */
+async function recordFailureOutcome(signal, { stage, reason, replayOf }) {
+  try {
+    if (replayOf) {
+      await query(
+        `UPDATE refactored_pipeline_failures
+         SET status = $2,
+             replay_count = replay_count + 1,
+             last_replayed_at = NOW(),
+             last_replay_tracking_id = $3,
+             last_replay_stage = $4,
+             last_replay_reason = $5
+         WHERE id = $1`,
+        [replayOf, reason ? 'REPLAY_FAILED' : 'REPLAYED', signal.id, stage, reason]
+      );
+      return;
+    }
+
+    await query(
+      `INSERT INTO refactored_pipeline_failures (
+        id, tracking_id, signal_id, stage, reason, signal_data, raw_payload,
+        original_signal_id, status, timestamp
+      ) VALUES (gen_random_uuid()::text, $1, $1, $2, $3, $4, $5, $1, 'PENDING', NOW())`,
+      [
+        signal.id,
+        stage,
+        reason,
+        JSON.stringify(signal),
+        JSON.stringify(signal.metadata?.raw_payload ?? null),
+      ]
+    );
+  } catch (error) {
+    console.error(`[Signal Processor] Failed to dead-letter signal ${signal.id}:`, error.message);
+  }
+}
+
 /**
- * Process a single signal
+ * Process a single signal.
+ * Pass replayOf (a refactored_pipeline_failures id) when re-running a
+ * dead-lettered signal so its entry is updated instead of duplicated.
  */
-async function processSignal(signal) {
+export async function processSignal(signal, { replayOf } = {}) {
   const client = await getClient();
   
   try {
@@ -197,15 +244,24 @@ async function processSignal(signal) {
     
     if (validationResult.valid) {
       console.log(`[Signal Processor] ✅ Signal ${signal.id} APPROVED`);
+      if (replayOf) {
+        await recordFailureOutcome(signal, { stage: 'DECISION', reason: null, replayOf });
+      }
       return { success: true, approved: true, signal_id: signal.id };
     } else {
       console.log(`[Signal Processor] ❌ Signal ${signal.id} REJECTED: ${validationResult.rejection_reason}`);
+      await recordFailureOutcome(signal, {
+        stage: DEAD_LETTER_STAGES[validationResult.stage] || 'VALIDATION',
+        reason: validationResult.rejection_reason,
+        replayOf,
+      });
       return { success: true, approved: false, signal_id: signal.id, reason: validationResult.rejection_reason };
     }
     
   } catch (error) {
     await client.query('ROLLBACK');
     console.error(`[Signal Processor] Error processing signal ${signal.id}:`, error);
+    await recordFailureOutcome(signal, { stage: 'DECISION', reason: `Error: ${error.message}`, replayOf });
     return { success: false, signal_id: signal.id, error: error.message };
   } finally {
     client.release();
@@ -0,0 +1,123 @@
+import { useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { OctagonX, ShieldCheck, Loader2, PlayCircle } from "lucide-react";
+import { useCircuitBreaker } from "@/hooks/useCircuitBreaker";
+import { useHealth } from "@/hooks/useSystemData";
+import { KillSwitchButton } from "@/components/dashboard/KillSwitchButton";
+import { formatDistanceToNow } from "date-fns";
+
+function formatPnl(value: number | null) {
+  if (value === null || value === undefined) return "—";
+  const sign = value < 0 ? "-" : "";
+  return `${sign}$${Math.abs(value).toFixed(2)}`;
+}
+
+function formatLimit(value: number | null) {
+  return value ? `-$${value.toFixed(0)}` : "no limit";
+}
+
+export function CircuitBreakerCard() {
+  const { data: health } = useHealth();
+  const mode = health?.mode || "PAPER";
+  const { status, events, isLoading, resume, isResuming } = useCircuitBreaker(mode);
+  const [note, setNote] = useState("");
+
+  if (isLoading || !status) {
+    return (
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <ShieldCheck className="h-5 w-5" />
+            Loss Circuit Breaker
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          <div className="animate-pulse h-16 bg-muted rounded" />
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const halted = status.status === "HALTED";
+
+  return (
+    <Card className={halted ? "border-destructive/50" : undefined}>
+      <CardHeader>
+        <CardTitle className="flex items-center justify-between gap-2">
+          <span className="flex items-center gap-2">
+            {halted ? (
+              <OctagonX className="h-5 w-5 text-destructive" />
+            ) : (
+              <ShieldCheck className="h-5 w-5 text-success" />
+            )}
+            Loss Circuit Breaker
+          </span>
+          <Badge variant={halted ? "destructive" : "secondary"} className="text-xs">
+            {halted ? "TRADING HALTED" : "ACTIVE"}
+          </Badge>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-2 gap-3 text-sm">
+          <div className="p-3 rounded-lg border">
+            <p className="text-xs text-muted-foreground">Daily P&L</p>
+            <p className="font-medium">{formatPnl(status.daily_pnl)}</p>
+            <p className="text-xs text-muted-foreground">Limit {formatLimit(status.max_daily_loss)}</p>
+          </div>
+          <div className="p-3 rounded-lg border">
+            <p className="text-xs text-muted-foreground">Weekly P&L</p>
+            <p className="font-medium">{formatPnl(status.weekly_pnl)}</p>
+            <p className="text-xs text-muted-foreground">Limit {formatLimit(status.max_weekly_loss)}</p>
+          </div>
+        </div>
+
+        {halted && (
+          <div className="space-y-3 p-3 rounded-lg border border-destructive/50 bg-destructive/5">
+            <p className="text-sm">{status.reason}</p>
+            {status.halted_at && (
+              <p className="text-xs text-muted-foreground">
+                Halted {formatDistanceToNow(new Date(status.halted_at), { addSuffix: true })}. New entries are
+                rejected; exits keep running.
+              </p>
+            )}
+            <Textarea
+              value={note}
+              onChange={(event) => setNote(event.target.value)}
+              placeholder="Reason for resuming (recorded in the audit trail)"
+              className="text-sm"
+              rows={2}
+            />
+            <Button
+              variant="destructive"
+              size="sm"
+              disabled={isResuming || note.trim().length === 0}
+              onClick={() => resume(note.trim(), { onSuccess: () => setNote("") })}
+            >
+              {isResuming ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <PlayCircle className="h-4 w-4 mr-2" />}
+              Resume Trading
+            </Button>
+          </div>
+        )}
+
+        <KillSwitchButton />
+
+        {events.length > 0 && (
+          <div className="space-y-1">
+            {events.slice(0, 3).map((event) => (
+              <div key={event.id} className="flex items-center justify-between text-xs text-muted-foreground">
+                <span>
+                  {event.event_type === "HALTED" ? "Halted" : `Resumed by ${event.actor}`}
+                  {event.trigger_type ? ` (${event.trigger_type.replace(/_/g, " ").toLowerCase()})` : ""}
+                </span>
+                <span>{formatDistanceToNow(new Date(event.created_at), { addSuffix: true })}</span>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
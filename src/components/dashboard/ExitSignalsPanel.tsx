@@ -11,7 +11,8 @@ import {
   X,
   Zap,
   Target,
-  ShieldAlert
+  ShieldAlert,
+  Crosshair
 } from "lucide-react";
 import { useExitSignals, type ExitAlert } from "@/hooks/useExitSignals";
 import { toast } from "sonner";
@@ -50,6 +51,7 @@ function getReasonIcon(reason: string | null) {
     case 'TRAILING_STOP':
       return <TrendingDown className="h-3 w-3" />;
     case 'EXPIRATION_APPROACHING':
+    case 'EXPIRATION':
     case 'TIME_DECAY':
       return <Clock className="h-3 w-3" />;
     default:
@@ -86,6 +88,7 @@ export function ExitSignalsPanel() {
   };
   
   const alerts = data?.alerts?.filter(a => !dismissedAlerts.has(a.position_id)) || [];
+  const pinRisk = data?.pin_risk || [];
   const summary = data?.summary;
   
   if (isLoading) {
@@ -154,6 +157,26 @@ export function ExitSignalsPanel() {
           </div>
         )}
         
+        {/* Pin Risk */}
+        {pinRisk.length > 0 && (
+          <div className="p-3 rounded-lg border bg-purple-500/10 text-purple-600 border-purple-500/20 space-y-1">
+            <div className="flex items-center gap-2 text-sm font-medium">
+              <Crosshair className="h-4 w-4" />
+              Pin risk at expiration
+            </div>
+            {pinRisk.map((warning) => (
+              <div key={warning.position_id} className="flex items-center justify-between text-xs">
+                <span>
+                  {warning.underlying} ${warning.strike} {warning.option_type} × {warning.quantity}
+                </span>
+                <span>
+                  {warning.underlying_price.toFixed(2)} ({warning.distance_percent.toFixed(2)}% from strike)
+                </span>
+              </div>
+            ))}
+          </div>
+        )}
+
         {/* Alert Cards */}
         {alerts.length === 0 ? (
           <div className="text-center py-8 text-muted-foreground">
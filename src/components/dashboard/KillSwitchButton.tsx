@@ -0,0 +1,97 @@
+import { useState } from "react";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { Loader2, Power } from "lucide-react";
+import { useKillSwitch, type KillSwitchAction } from "@/hooks/useKillSwitch";
+
+const ACTION_VARIANTS: Record<KillSwitchAction, "default" | "secondary" | "destructive" | "outline"> = {
+  CANCELLED: "secondary",
+  CLOSED: "secondary",
+  SUBMITTED: "outline",
+  SKIPPED: "outline",
+  FAILED: "destructive",
+};
+
+export function KillSwitchButton() {
+  const { trigger, isTriggering, report } = useKillSwitch();
+  const [reason, setReason] = useState("");
+
+  return (
+    <div className="space-y-3">
+      <AlertDialog>
+        <AlertDialogTrigger asChild>
+          <Button variant="destructive" size="sm" className="w-full" disabled={isTriggering}>
+            {isTriggering ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Power className="h-4 w-4 mr-2" />}
+            Kill Switch
+          </Button>
+        </AlertDialogTrigger>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Halt trading and flatten everything?</AlertDialogTitle>
+            <AlertDialogDescription>
+              This halts new entries, cancels every working order and submits market orders to close every open
+              position. Trading stays halted until someone resumes it.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <Textarea
+            value={reason}
+            onChange={(event) => setReason(event.target.value)}
+            placeholder="Reason (recorded in the audit trail)"
+            className="text-sm"
+            rows={2}
+          />
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+              onClick={() => trigger(reason.trim() || undefined, { onSuccess: () => setReason("") })}
+            >
+              Halt and Flatten
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      {report && (report.orders.length > 0 || report.positions.length > 0) && (
+        <div className="space-y-1">
+          {[
+            ...report.orders.map((order) => ({
+              key: `order-${order.order_id}`,
+              label: `Order ${order.symbol}`,
+              action: order.action,
+              error: order.error,
+            })),
+            ...report.positions.map((position) => ({
+              key: `${position.book}-${position.position_id}`,
+              label: `${position.symbol} x${Math.abs(position.quantity)}`,
+              action: position.action,
+              error: position.error,
+            })),
+          ].map((item) => (
+            <div key={item.key} className="flex items-center justify-between gap-2 text-xs">
+              <span className="truncate text-muted-foreground" title={item.error}>
+                {item.label}
+                {item.error ? ` - ${item.error}` : ""}
+              </span>
+              <Badge variant={ACTION_VARIANTS[item.action]} className="text-xs">
+                {item.action}
+              </Badge>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,123 @@
+import { useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Switch } from "@/components/ui/switch";
+import { Label } from "@/components/ui/label";
+import { Inbox, Loader2, RotateCcw } from "lucide-react";
+import { usePipelineFailures, type PipelineStage } from "@/hooks/usePipelineFailures";
+import { formatDistanceToNow } from "date-fns";
+
+const STAGES: PipelineStage[] = ["NORMALIZATION", "VALIDATION", "DEDUPLICATION", "DECISION", "EXECUTION"];
+
+export function PipelineFailuresCard() {
+  const { failures, summary, isLoading, replay, isReplaying } = usePipelineFailures();
+  const [bypassAgeCheck, setBypassAgeCheck] = useState(false);
+
+  if (isLoading || !summary) {
+    return (
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Inbox className="h-5 w-5" />
+            Failed Signals
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          <div className="animate-pulse h-16 bg-muted rounded" />
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const replayable = failures.filter((failure) => failure.status !== "REPLAYED");
+
+  return (
+    <Card className={summary.pending > 0 ? "border-warning/30" : undefined}>
+      <CardHeader>
+        <CardTitle className="flex items-center justify-between gap-2">
+          <span className="flex items-center gap-2">
+            <Inbox className={`h-5 w-5 ${summary.pending > 0 ? "text-warning" : ""}`} />
+            Failed Signals
+          </span>
+          <Badge variant={summary.pending > 0 ? "destructive" : "secondary"} className="text-xs">
+            {summary.pending} PENDING / {summary.total} (24h)
+          </Badge>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-5 gap-2 text-center">
+          {STAGES.map((stage) => (
+            <div key={stage} className="p-2 rounded-lg border">
+              <p className="text-[10px] text-muted-foreground truncate">{stage}</p>
+              <p className="font-medium">{summary.by_stage[stage] ?? 0}</p>
+              {(summary.pending_by_stage[stage] ?? 0) > 0 && (
+                <p className="text-[10px] text-warning">{summary.pending_by_stage[stage]} pending</p>
+              )}
+            </div>
+          ))}
+        </div>
+
+        {replayable.length > 0 ? (
+          <>
+            <div className="flex items-center justify-between gap-2">
+              <div className="flex items-center gap-2">
+                <Switch id="bypass-age-check" checked={bypassAgeCheck} onCheckedChange={setBypassAgeCheck} />
+                <Label htmlFor="bypass-age-check" className="text-xs">
+                  Bypass signal age check
+                </Label>
+              </div>
+              <Button
+                size="sm"
+                variant="outline"
+                disabled={isReplaying}
+                onClick={() => replay({ ids: replayable.map((failure) => failure.id), bypassAgeCheck })}
+              >
+                {isReplaying ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <RotateCcw className="h-4 w-4 mr-2" />}
+                Replay all ({replayable.length})
+              </Button>
+            </div>
+
+            <div className="space-y-2">
+              {replayable.slice(0, 5).map((failure) => (
+                <div key={failure.id} className="p-3 rounded-lg border text-sm">
+                  <div className="flex items-start justify-between gap-2">
+                    <div className="flex items-center gap-2">
+                      <Badge variant="outline" className="text-xs">
+                        {failure.stage}
+                      </Badge>
+                      {failure.status === "REPLAY_FAILED" && (
+                        <Badge variant="destructive" className="text-xs">
+                          REPLAY FAILED x{failure.replay_count}
+                        </Badge>
+                      )}
+                    </div>
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      className="h-6 px-2"
+                      disabled={isReplaying}
+                      onClick={() => replay({ ids: [failure.id], bypassAgeCheck })}
+                    >
+                      <RotateCcw className="h-3 w-3" />
+                    </Button>
+                  </div>
+                  <p className="text-xs text-muted-foreground mt-2">
+                    {failure.last_replay_reason || failure.reason}
+                  </p>
+                  <span className="text-xs text-muted-foreground">
+                    {formatDistanceToNow(new Date(failure.timestamp), { addSuffix: true })}
+                  </span>
+                </div>
+              ))}
+            </div>
+          </>
+        ) : (
+          <p className="text-sm text-muted-foreground text-center py-2">
+            No failed signals waiting for replay.
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,111 @@
+import { useQuery } from "@tanstack/react-query";
+import { Badge } from "@/components/ui/badge";
+import { ArrowRight, CheckCircle, CirclePlus, Ban, RefreshCw, StepForward } from "lucide-react";
+import apiClient from "@/lib/api-client";
+import { format } from "date-fns";
+
+interface OrderEvent {
+  id: string;
+  order_id: string;
+  event_type: 'CREATED' | 'STATUS_CHANGE' | 'FILL' | 'REJECTED_TRANSITION' | 'CHASE_STEP';
+  from_status: string | null;
+  to_status: string | null;
+  filled_quantity: number | null;
+  fill_quantity: number | null;
+  fill_price: number | string | null;
+  broker_trade_id: string | null;
+  source: string;
+  reason: string | null;
+  details?: {
+    limit_price?: number | null;
+    mid_price?: number | null;
+    far_price?: number | null;
+  } | null;
+  created_at: string;
+}
+
+const eventConfig: Record<OrderEvent['event_type'], { icon: React.ElementType; color: string; label: string }> = {
+  CREATED: { icon: CirclePlus, color: 'text-info', label: 'Created' },
+  STATUS_CHANGE: { icon: RefreshCw, color: 'text-muted-foreground', label: 'Status' },
+  FILL: { icon: CheckCircle, color: 'text-success', label: 'Fill' },
+  REJECTED_TRANSITION: { icon: Ban, color: 'text-destructive', label: 'Refused' },
+  CHASE_STEP: { icon: StepForward, color: 'text-warning', label: 'Chase' },
+};
+
+const formatPrice = (price: number | null | undefined) =>
+  price !== null && price !== undefined ? `$${Number(price).toFixed(2)}` : '-';
+
+function describeEvent(event: OrderEvent) {
+  if (event.event_type === 'FILL') {
+    const price = event.fill_price !== null ? Number(event.fill_price).toFixed(2) : '-';
+    return `${event.fill_quantity ?? 0} @ $${price} (${event.filled_quantity ?? 0} filled)`;
+  }
+  if (event.event_type === 'CHASE_STEP' && event.details) {
+    const { limit_price, mid_price, far_price } = event.details;
+    const limit = limit_price !== null && limit_price !== undefined ? formatPrice(limit_price) : 'Market';
+    return `${limit} (mid ${formatPrice(mid_price)}, far ${formatPrice(far_price)})`;
+  }
+  if (event.event_type === 'CREATED') {
+    return `${event.to_status}${event.filled_quantity ? `, ${event.filled_quantity} filled` : ''}`;
+  }
+  return null;
+}
+
+/**
+ * Every status change and fill recorded for one order, oldest first
+ */
+export function OrderEventTimeline({ orderId }: { orderId: string }) {
+  const { data: events, isLoading, error } = useQuery({
+    queryKey: ['order-events', orderId],
+    queryFn: async (): Promise<OrderEvent[]> => {
+      const { data, error } = await apiClient.getOrders({ orderId, includeEvents: true, limit: 1 });
+      if (error || !data) throw error || new Error('Failed to fetch order events');
+      const orders = (data as { orders?: Array<{ events?: OrderEvent[] }> }).orders ?? [];
+      return orders[0]?.events ?? [];
+    },
+  });
+
+  if (isLoading) {
+    return <p className="text-sm text-muted-foreground">Loading events...</p>;
+  }
+  if (error) {
+    return <p className="text-sm text-destructive">Failed to load events</p>;
+  }
+  if (!events || events.length === 0) {
+    return <p className="text-sm text-muted-foreground">No events recorded</p>;
+  }
+
+  return (
+    <ol className="space-y-2">
+      {events.map((event) => {
+        const config = eventConfig[event.event_type] ?? eventConfig.STATUS_CHANGE;
+        const Icon = config.icon;
+        const detail = describeEvent(event);
+
+        return (
+          <li key={event.id} className="flex items-start gap-3 text-sm">
+            <Icon className={`h-4 w-4 mt-0.5 shrink-0 ${config.color}`} />
+            <div className="flex-1 min-w-0">
+              <div className="flex flex-wrap items-center gap-2">
+                <span className="font-medium">{config.label}</span>
+                {event.event_type !== 'CREATED' && event.from_status && event.to_status && (
+                  <span className="flex items-center gap-1 text-xs text-muted-foreground">
+                    {event.from_status}
+                    <ArrowRight className="h-3 w-3" />
+                    {event.to_status}
+                  </span>
+                )}
+                <Badge variant="outline" className="text-xs">{event.source}</Badge>
+              </div>
+              {detail && <p className="text-xs text-muted-foreground">{detail}</p>}
+              {event.reason && <p className="text-xs text-muted-foreground">{event.reason}</p>}
+            </div>
+            <span className="text-xs text-muted-foreground whitespace-nowrap">
+              {format(new Date(event.created_at), 'MMM d, HH:mm:ss')}
+            </span>
+          </li>
+        );
+      })}
+    </ol>
+  );
+}
@@ -41,6 +41,8 @@ interface Trade {
   option_type: string;
   executed_at: string;
   created_at: string;
+  outcome?: 'EXPIRED' | null;
+  settlement_type?: string | null;
   side?: string;
   mode?: string;
   order_type?: string;
@@ -286,6 +288,11 @@ export function TradesTab() {
                             )}
                             {trade.side || "N/A"}
                           </Badge>
+                          {trade.outcome === "EXPIRED" && (
+                            <Badge variant="outline" className="ml-1 text-xs">
+                              EXPIRED{trade.settlement_type ? ` · ${trade.settlement_type.replace(/_/g, " ")}` : ""}
+                            </Badge>
+                          )}
                         </TableCell>
                         <TableCell>{trade.quantity}</TableCell>
                         <TableCell>${trade.execution_price.toFixed(2)}</TableCell>
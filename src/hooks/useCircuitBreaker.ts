@@ -0,0 +1,76 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { toast } from "sonner";
+import apiClient from "@/lib/api-client";
+import { POLLING_INTERVALS } from "@/lib/polling";
+
+export interface CircuitBreakerStatus {
+  mode: string;
+  status: "ACTIVE" | "HALTED";
+  trigger: "DAILY_LOSS" | "WEEKLY_LOSS" | "KILL_SWITCH" | null;
+  reason: string | null;
+  halted_at: string | null;
+  resumed_at: string | null;
+  resumed_by: string | null;
+  daily_pnl: number | null;
+  weekly_pnl: number | null;
+  max_daily_loss: number | null;
+  max_weekly_loss: number | null;
+}
+
+export interface CircuitBreakerEvent {
+  id: string;
+  event_type: "HALTED" | "RESUMED";
+  trigger_type: string | null;
+  reason: string | null;
+  actor: string | null;
+  created_at: string;
+}
+
+async function fetchCircuitBreaker(mode: string) {
+  const { data, error } = await apiClient.request<{
+    circuit_breaker: CircuitBreakerStatus;
+    events?: CircuitBreakerEvent[];
+  }>(`/circuit-breaker?mode=${mode}`, { method: "GET" });
+  if (error || !data) throw error || new Error("Failed to fetch circuit breaker status");
+  return {
+    status: data.circuit_breaker,
+    events: data.events || [],
+  };
+}
+
+async function resumeTrading(mode: string, note?: string): Promise<void> {
+  const { error } = await apiClient.request<{ success: boolean }>(`/circuit-breaker?mode=${mode}`, {
+    method: "POST",
+    body: JSON.stringify({ action: "resume", note }),
+  });
+  if (error) throw error;
+}
+
+export function useCircuitBreaker(mode: string = "PAPER") {
+  const queryClient = useQueryClient();
+
+  const query = useQuery({
+    queryKey: ["circuit-breaker", mode],
+    queryFn: () => fetchCircuitBreaker(mode),
+    refetchInterval: POLLING_INTERVALS.circuitBreaker,
+  });
+
+  const mutation = useMutation({
+    mutationFn: (note?: string) => resumeTrading(mode, note),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["circuit-breaker", mode] });
+      toast.success("Trading resumed - new entries are allowed again");
+    },
+    onError: (error) => {
+      toast.error(`Failed to resume trading: ${error.message}`);
+    },
+  });
+
+  return {
+    status: query.data?.status ?? null,
+    events: query.data?.events ?? [],
+    isLoading: query.isLoading,
+    resume: mutation.mutate,
+    isResuming: mutation.isPending,
+  };
+}
@@ -30,14 +30,29 @@ export interface ExitAlert {
   recommended_action: string;
 }
 
+export interface PinRiskWarning {
+  position_id: string;
+  symbol: string;
+  underlying: string;
+  strike: number;
+  option_type: string;
+  expiration: string;
+  quantity: number;
+  underlying_price: number;
+  distance_percent: number;
+  message: string;
+}
+
 interface ExitSignalsResponse {
   alerts: ExitAlert[];
+  pin_risk?: PinRiskWarning[];
   summary: {
     total_positions: number;
     positions_with_alerts: number;
     critical_alerts: number;
     high_alerts: number;
     medium_alerts: number;
+    pin_risk_alerts?: number;
   };
   duration_ms: number;
   timestamp: string;
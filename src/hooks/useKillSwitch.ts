@@ -0,0 +1,87 @@
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { toast } from "sonner";
+import apiClient from "@/lib/api-client";
+
+export type KillSwitchAction = "CANCELLED" | "CLOSED" | "SUBMITTED" | "FAILED" | "SKIPPED";
+
+export interface KillSwitchReport {
+  mode: string;
+  triggered_by: string;
+  reason: string;
+  halted: boolean;
+  halt_error?: string;
+  started_at: string;
+  completed_at: string;
+  orders: Array<{
+    order_id: string;
+    symbol: string;
+    status: string;
+    action: KillSwitchAction;
+    error?: string;
+  }>;
+  positions: Array<{
+    position_id: string;
+    book: "refactored" | "legacy";
+    symbol: string;
+    quantity: number;
+    action: KillSwitchAction;
+    order_id?: string;
+    fill_price?: number;
+    realized_pnl?: number;
+    error?: string;
+  }>;
+  summary: {
+    orders_cancelled: number;
+    orders_failed: number;
+    positions_closed: number;
+    positions_submitted: number;
+    positions_failed: number;
+    positions_skipped: number;
+  };
+}
+
+// Runs in the kill-switch edge function, which cancels and flattens through the broker adapter
+async function triggerKillSwitch(reason?: string): Promise<KillSwitchReport> {
+  const { data, error } = await apiClient.invokeFunction<{ success: boolean; report: KillSwitchReport }>("kill-switch", {
+    method: "POST",
+    body: JSON.stringify({ confirm: true, reason }),
+  });
+  if (error || !data) throw error || new Error("Kill switch request failed");
+  return data.report;
+}
+
+export function useKillSwitch() {
+  const queryClient = useQueryClient();
+
+  const mutation = useMutation({
+    mutationFn: (reason?: string) => triggerKillSwitch(reason),
+    onSuccess: (report) => {
+      queryClient.invalidateQueries({ queryKey: ["circuit-breaker"] });
+      queryClient.invalidateQueries({ queryKey: ["positions"] });
+      queryClient.invalidateQueries({ queryKey: ["orders"] });
+
+      const { summary } = report;
+      const message =
+        `${summary.orders_cancelled} orders cancelled, ${summary.positions_closed} positions closed` +
+        (summary.positions_submitted ? `, ${summary.positions_submitted} closes pending` : "");
+
+      if (summary.orders_failed + summary.positions_failed > 0 || !report.halted) {
+        toast.warning(
+          `Kill switch finished with failures: ${message}, ` +
+            `${summary.orders_failed + summary.positions_failed} failed`
+        );
+      } else {
+        toast.success(`Kill switch executed - trading halted. ${message}`);
+      }
+    },
+    onError: (error) => {
+      toast.error(`Kill switch failed: ${error.message}`);
+    },
+  });
+
+  return {
+    trigger: mutation.mutate,
+    isTriggering: mutation.isPending,
+    report: mutation.data ?? null,
+  };
+}
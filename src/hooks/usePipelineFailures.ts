@@ -0,0 +1,110 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { toast } from "sonner";
+import apiClient from "@/lib/api-client";
+import { POLLING_INTERVALS } from "@/lib/polling";
+
+export type PipelineStage =
+  | "RECEPTION"
+  | "NORMALIZATION"
+  | "VALIDATION"
+  | "DEDUPLICATION"
+  | "DECISION"
+  | "EXECUTION";
+
+export type PipelineFailureStatus = "PENDING" | "REPLAYED" | "REPLAY_FAILED";
+
+export interface PipelineFailure {
+  id: string;
+  tracking_id: string;
+  signal_id: string | null;
+  original_signal_id: string | null;
+  correlation_id: string | null;
+  stage: PipelineStage;
+  reason: string;
+  status: PipelineFailureStatus;
+  replay_count: number;
+  last_replayed_at: string | null;
+  last_replay_tracking_id: string | null;
+  last_replay_stage: PipelineStage | null;
+  last_replay_reason: string | null;
+  timestamp: string;
+}
+
+export interface PipelineFailureSummary {
+  since: string | null;
+  total: number;
+  pending: number;
+  by_stage: Record<PipelineStage, number>;
+  pending_by_stage: Record<PipelineStage, number>;
+}
+
+export interface ReplayResult {
+  failure_id: string;
+  success: boolean;
+  tracking_id?: string;
+  stage?: string;
+  reason?: string;
+  error?: string;
+}
+
+interface ReplayResponse {
+  success: boolean;
+  replayed: number;
+  failed: number;
+  results: ReplayResult[];
+}
+
+async function fetchPipelineFailures(sinceHours: number) {
+  const { data, error } = await apiClient.request<{
+    failures: PipelineFailure[];
+    summary: PipelineFailureSummary;
+  }>(`/pipeline-failures?since_hours=${sinceHours}`, { method: "GET" });
+  if (error || !data) throw error || new Error("Failed to fetch pipeline failures");
+  return data;
+}
+
+async function replayFailures(ids: string[], bypassAgeCheck: boolean): Promise<ReplayResponse> {
+  const { data, error } = await apiClient.request<ReplayResponse>("/pipeline-failures", {
+    method: "POST",
+    body: JSON.stringify({ ids, bypass_age_check: bypassAgeCheck }),
+  });
+  if (error || !data) throw error || new Error("Replay request failed");
+  return data;
+}
+
+export function usePipelineFailures(sinceHours: number = 24) {
+  const queryClient = useQueryClient();
+
+  const query = useQuery({
+    queryKey: ["pipeline-failures", sinceHours],
+    queryFn: () => fetchPipelineFailures(sinceHours),
+    refetchInterval: POLLING_INTERVALS.pipelineFailures,
+  });
+
+  const mutation = useMutation({
+    mutationFn: ({ ids, bypassAgeCheck = false }: { ids: string[]; bypassAgeCheck?: boolean }) =>
+      replayFailures(ids, bypassAgeCheck),
+    onSuccess: (response) => {
+      queryClient.invalidateQueries({ queryKey: ["pipeline-failures"] });
+      queryClient.invalidateQueries({ queryKey: ["signals"] });
+      queryClient.invalidateQueries({ queryKey: ["positions"] });
+
+      if (response.failed > 0) {
+        toast.warning(`Replayed ${response.replayed} signal(s), ${response.failed} failed again`);
+      } else {
+        toast.success(`Replayed ${response.replayed} signal(s)`);
+      }
+    },
+    onError: (error) => {
+      toast.error(`Replay failed: ${error.message}`);
+    },
+  });
+
+  return {
+    failures: query.data?.failures ?? [],
+    summary: query.data?.summary ?? null,
+    isLoading: query.isLoading,
+    replay: mutation.mutate,
+    isReplaying: mutation.isPending,
+  };
+}
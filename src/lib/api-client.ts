@@ -4,6 +4,8 @@
  */
 
 const API_URL = import.meta.env.VITE_API_URL || 'https://optionstratv2.fly.dev';
+// Edge functions that act on the broker (kill switch) are not proxied by the backend
+const FUNCTIONS_URL = import.meta.env.VITE_FUNCTIONS_URL || '';
 
 interface ApiResponse<T> {
   data: T | null;
@@ -12,10 +14,12 @@ interface ApiResponse<T> {
 
 class ApiClient {
   private baseUrl: string;
+  private functionsUrl: string;
   private authToken: string | null = null;
 
-  constructor(baseUrl: string) {
+  constructor(baseUrl: string, functionsUrl: string) {
     this.baseUrl = baseUrl;
+    this.functionsUrl = functionsUrl;
   }
 
   setAuthToken(token: string | null) {
@@ -25,6 +29,24 @@ class ApiClient {
   async request<T>(
     endpoint: string,
     options: RequestInit = {}
+  ): Promise<ApiResponse<T>> {
+    return this.fetchJson<T>(`${this.baseUrl}${endpoint}`, options);
+  }
+
+  // Calls an edge function with the same bearer token
+  async invokeFunction<T>(
+    name: string,
+    options: RequestInit = {}
+  ): Promise<ApiResponse<T>> {
+    if (!this.functionsUrl) {
+      return { data: null, error: new Error('VITE_FUNCTIONS_URL is not set') };
+    }
+    return this.fetchJson<T>(`${this.functionsUrl}/${name}`, options);
+  }
+
+  private async fetchJson<T>(
+    url: string,
+    options: RequestInit
   ): Promise<ApiResponse<T>> {
     const headers: HeadersInit = {
       'Content-Type': 'application/json',
@@ -36,14 +58,14 @@ class ApiClient {
     }
 
     try {
-      const response = await fetch(`${this.baseUrl}${endpoint}`, {
+      const response = await fetch(url, {
         ...options,
         headers,
       });
 
       if (!response.ok) {
         const errorData = await response.json().catch(() => ({}));
-        throw new Error(errorData.message || `HTTP ${response.status}: ${response.statusText}`);
+        throw new Error(errorData.message || errorData.error || `HTTP ${response.status}: ${response.statusText}`);
       }
 
       const data = await response.json();
@@ -112,10 +134,12 @@ class ApiClient {
     return this.request<any[]>(endpoint);
   }
 
-  async getOrders(params?: { limit?: number; status?: string }) {
+  async getOrders(params?: { limit?: number; status?: string; orderId?: string; includeEvents?: boolean }) {
     const query = new URLSearchParams();
     if (params?.limit) query.set('limit', params.limit.toString());
     if (params?.status) query.set('status', params.status);
+    if (params?.orderId) query.set('order_id', params.orderId);
+    if (params?.includeEvents) query.set('include_events', 'true');
     const queryString = query.toString();
     return this.request<any[]>(`/orders${queryString ? `?${queryString}` : ''}`);
   }
@@ -210,7 +234,7 @@ class ApiClient {
 }
 
 // Create singleton instance
-export const apiClient = new ApiClient(API_URL);
+export const apiClient = new ApiClient(API_URL, FUNCTIONS_URL);
 
 // Export for use in components
 export default apiClient;
@@ -10,6 +10,8 @@ export const POLLING_INTERVALS = {
   signals: parseInterval(import.meta.env.VITE_POLL_SIGNALS, 5000),
   orders: parseInterval(import.meta.env.VITE_POLL_ORDERS, 5000),
   riskViolations: parseInterval(import.meta.env.VITE_POLL_RISK_VIOLATIONS, 10000),
+  circuitBreaker: parseInterval(import.meta.env.VITE_POLL_CIRCUIT_BREAKER, 10000),
+  pipelineFailures: parseInterval(import.meta.env.VITE_POLL_PIPELINE_FAILURES, 30000),
   trades: parseInterval(import.meta.env.VITE_POLL_TRADES, 30000),
   exitSignals: parseInterval(import.meta.env.VITE_POLL_EXIT_SIGNALS, 60000),
   marketContext: parseInterval(import.meta.env.VITE_POLL_MARKET_CONTEXT, 30000),
@@ -3,6 +3,8 @@ import { CompactStatsGrid } from "@/components/dashboard/CompactStatsGrid";
 import { PositionsTable } from "@/components/dashboard/PositionsTable";
 import { SignalsTable } from "@/components/dashboard/SignalsTable";
 import { RiskViolationsCard } from "@/components/dashboard/RiskViolationsCard";
+import { CircuitBreakerCard } from "@/components/dashboard/CircuitBreakerCard";
+import { PipelineFailuresCard } from "@/components/dashboard/PipelineFailuresCard";
 import { ExitSignalsPanel } from "@/components/dashboard/ExitSignalsPanel";
 import { PerformanceCharts } from "@/components/dashboard/PerformanceCharts";
 import { MtfAlignmentPanel } from "@/components/dashboard/MtfAlignmentPanel";
@@ -44,8 +46,12 @@ const Index = () => {
         {/* MTF Alignment Panel */}
         <MtfAlignmentPanel />
 
-        {/* Risk Violations */}
-        <RiskViolationsCard />
+        {/* Loss Circuit Breaker + Risk Violations + Failed Signals */}
+        <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
+          <CircuitBreakerCard />
+          <RiskViolationsCard />
+          <PipelineFailuresCard />
+        </div>
 
         {/* Positions */}
         <PositionsTable />
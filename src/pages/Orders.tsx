@@ -42,6 +42,7 @@ import { toast } from "sonner";
 import { useHealth } from "@/hooks/useSystemData";
 import { ClosedPnLTab } from "@/components/orders/ClosedPnLTab";
 import { TradesTab } from "@/components/orders/TradesTab";
+import { OrderEventTimeline } from "@/components/orders/OrderEventTimeline";
 import { DashboardLayout } from "@/components/layout/DashboardLayout";
 
 
@@ -70,12 +71,13 @@ interface Order {
   broker_response: Record<string, unknown> | null;
 }
 
-type OrderStatus = 'all' | 'PENDING' | 'FILLED' | 'PARTIAL' | 'CANCELLED' | 'REJECTED' | 'EXPIRED';
+type OrderStatus = 'all' | 'PENDING' | 'FILLED' | 'PARTIAL_FILL' | 'CANCELLED' | 'REJECTED' | 'EXPIRED';
 
 const statusConfig: Record<string, { icon: React.ElementType; color: string; bg: string }> = {
   PENDING: { icon: Clock, color: 'text-warning', bg: 'bg-warning/10' },
   SUBMITTED: { icon: Clock, color: 'text-info', bg: 'bg-info/10' },
-  PARTIAL: { icon: AlertCircle, color: 'text-warning', bg: 'bg-warning/10' },
+  ACCEPTED: { icon: Clock, color: 'text-info', bg: 'bg-info/10' },
+  PARTIAL_FILL: { icon: AlertCircle, color: 'text-warning', bg: 'bg-warning/10' },
   FILLED: { icon: CheckCircle, color: 'text-success', bg: 'bg-success/10' },
   CANCELLED: { icon: XCircle, color: 'text-muted-foreground', bg: 'bg-muted/50' },
   REJECTED: { icon: XCircle, color: 'text-destructive', bg: 'bg-destructive/10' },
@@ -216,7 +218,7 @@ export default function OrdersPage() {
                       <SelectItem value="all">All Statuses</SelectItem>
                       <SelectItem value="PENDING">Pending</SelectItem>
                       <SelectItem value="FILLED">Filled</SelectItem>
-                      <SelectItem value="PARTIAL">Partial</SelectItem>
+                      <SelectItem value="PARTIAL_FILL">Partial</SelectItem>
                       <SelectItem value="CANCELLED">Cancelled</SelectItem>
                       <SelectItem value="REJECTED">Rejected</SelectItem>
                       <SelectItem value="EXPIRED">Expired</SelectItem>
@@ -353,6 +355,12 @@ export default function OrdersPage() {
                                         </div>
                                       </div>
 
+                                      {/* Lifecycle events */}
+                                      <div className="border-t pt-4">
+                                        <p className="text-sm font-medium mb-2">Events</p>
+                                        <OrderEventTimeline orderId={order.id} />
+                                      </div>
+
                                       {/* Errors */}
                                       {(order.error_message || order.rejection_reason) && (
                                         <div className="border-t pt-4">
@@ -366,7 +374,7 @@ export default function OrdersPage() {
                                   </DialogContent>
                                 </Dialog>
                                 
-                                {['PENDING', 'SUBMITTED', 'PARTIAL'].includes(order.status || '') && (
+                                {['PENDING', 'SUBMITTED', 'ACCEPTED', 'PARTIAL_FILL'].includes(order.status || '') && (
                                   <Button 
                                     variant="ghost" 
                                     size="icon"
@@ -8,10 +8,16 @@
 import type { 
   BrokerAdapter,
   AdapterFactoryConfig,
-  SafetyGateResult
+  SafetyGateResult,
+  BrokerPosition,
+  BrokerOpenOrder,
+  OrderStatusResponse
 } from "./broker-adapter.ts";
+import type { OptionsQuote } from "./market-data/types.ts";
+import type { Order } from "./types.ts";
 
 import { validateSafetyGates, isBrokerConfigured } from "./broker-adapter.ts";
+import { createDbClient } from "./db-client.ts";
 import { PaperAdapter, type PaperAdapterConfig } from "./paper-adapter.ts";
 import { TradierAdapter, createTradierAdapter } from "./tradier-adapter.ts";
 import { AlpacaAdapter, createAlpacaAdapter } from "./alpaca-adapter.ts";
@@ -38,14 +44,19 @@ class PaperAdapterWrapper implements BrokerAdapter {
       supports_options: true,
       supports_multi_leg: true,
       supports_order_modification: true,
+      supports_oco_orders: false,
       supports_extended_hours: true,
       max_order_size: 100000,
       min_order_size: 1,
     };
   }
 
-  async submitOrder(request: Parameters<BrokerAdapter['submitOrder']>[0], marketPrice?: number) {
-    const result = await this.adapter.submitOrder(request, marketPrice);
+  async submitOrder(
+    request: Parameters<BrokerAdapter['submitOrder']>[0],
+    marketPrice?: number,
+    quote?: OptionsQuote
+  ) {
+    const result = await this.adapter.submitOrder(request, marketPrice, quote);
     return {
       result: {
         ...result.result,
@@ -55,25 +66,92 @@ class PaperAdapterWrapper implements BrokerAdapter {
     };
   }
 
-  async cancelOrder(orderId: string, _brokerOrderId?: string) {
-    return this.adapter.cancelOrder(orderId);
+  async submitMultiLegOrder(
+    request: Parameters<BrokerAdapter['submitMultiLegOrder']>[0],
+    legPrices?: number[]
+  ) {
+    return this.adapter.submitMultiLegOrder(request, legPrices);
+  }
+
+  async replaceOrder(
+    _orderId: string,
+    brokerOrderId: string,
+    request: Parameters<BrokerAdapter['submitOrder']>[0],
+    quote?: OptionsQuote
+  ) {
+    const result = await this.adapter.replaceOrder(brokerOrderId, request, quote);
+    return {
+      result: {
+        ...result.result,
+        requires_polling: false,
+      },
+      trade: result.trade,
+    };
+  }
+
+  async cancelOrder(orderId: string, brokerOrderId?: string) {
+    return this.adapter.cancelOrder(orderId, brokerOrderId);
   }
 
   async getOrderStatus(orderId: string, brokerOrderId: string) {
-    // Paper adapter fills immediately, so status is always FILLED
+    // Progress of orders submitted through this adapter, from the simulated book
+    return this.adapter.getOrderStatus(orderId, brokerOrderId);
+  }
+
+  async getOrderFills(_orderId: string, brokerOrderId: string) {
+    return this.adapter.getOrderFills(brokerOrderId);
+  }
+
+  async findOrderByClientId(clientOrderId: string): Promise<OrderStatusResponse | null> {
+    const booked = this.adapter.findOrderByClientId(clientOrderId);
+    if (booked) {
+      return booked;
+    }
+
+    // The simulated book does not survive a cold start; the paper broker's
+    // durable record is the orders row it was linked to
+    const { data, error } = await createDbClient()
+      .from('orders')
+      .select('*')
+      .eq('client_order_id', clientOrderId)
+      .eq('mode', 'PAPER')
+      .maybeSingle();
+    if (error) {
+      throw new Error(`Paper order lookup failed: ${error.message}`);
+    }
+
+    const row = data as Order | null;
+    if (!row?.broker_order_id) {
+      return null;
+    }
+    const filled = Number(row.filled_quantity) || 0;
     return {
-      order_id: orderId,
-      broker_order_id: brokerOrderId,
-      status: 'FILLED' as const,
-      filled_quantity: 0,
-      remaining_quantity: 0,
+      order_id: row.id,
+      broker_order_id: row.broker_order_id,
+      status: row.status,
+      filled_quantity: filled,
+      remaining_quantity: Math.max(0, Number(row.quantity) - filled),
+      avg_fill_price: row.avg_fill_price !== null ? Number(row.avg_fill_price) : undefined,
+      rejection_reason: row.error_message ?? undefined,
     };
   }
 
-  async getOrderFills(_orderId: string, _brokerOrderId: string) {
-    // Paper adapter includes trade in submitOrder response
+  async getPositions(): Promise<BrokerPosition[]> {
+    // Paper positions live only in the database; there is no broker book
     return [];
   }
+
+  async getOpenOrders(): Promise<BrokerOpenOrder[]> {
+    return this.adapter.getWorkingOrders().map(order => ({
+      broker_order_id: order.broker_order_id,
+      symbol: order.request.symbol.replace(/\s/g, ''),
+      side: order.request.side,
+      quantity: order.request.quantity,
+      filled_quantity: order.filled_quantity,
+      status: order.status,
+      created_at: order.submitted_at,
+    }));
+  }
 }
 
 export interface AdapterSelectionResult {
@@ -165,6 +243,18 @@ export function createAdapter(
   };
 }
 
+/**
+ * Paper adapter regardless of the trading mode, for flows that only ever
+ * simulate (paper strategy entries)
+ */
+export function createPaperAdapter(config: Partial<PaperAdapterConfig> = {}): BrokerAdapter {
+  return new PaperAdapterWrapper({
+    slippage_percent: config.slippage_percent || 0.1,
+    commission_per_contract: config.commission_per_contract || 0.65,
+    fee_per_contract: config.fee_per_contract || 0.02,
+  });
+}
+
 /**
  * Get adapter info without creating one
  */
@@ -8,6 +8,9 @@
 
 import type { 
   OrderRequest, 
+  MultiLegOrderRequest,
+  MultiLegOrderResult,
+  OcoOrderRequest,
   Trade,
   TradingMode,
   OrderStatus,
@@ -17,10 +20,15 @@ import type {
 import type {
   BrokerAdapter,
   AdapterOrderResult,
+  OcoOrderResult,
   AdapterCapabilities,
   OrderStatusResponse,
-  AdapterTradeFill
+  AdapterTradeFill,
+  AdapterLegTrade,
+  BrokerPosition,
+  BrokerOpenOrder
 } from "./broker-adapter.ts";
+import { aggregateLegStatus, calculateNetPrice, isBuySide } from "./multi-leg-orders.ts";
 
 const ALPACA_LIVE_URL = "https://api.alpaca.markets";
 const ALPACA_PAPER_URL = "https://paper-api.alpaca.markets";
@@ -57,6 +65,15 @@ interface AlpacaOrderResponse {
   extended_hours: boolean;
   legs?: AlpacaOrderLeg[];
   order_class?: string;
+  position_intent?: string;
+}
+
+interface AlpacaPosition {
+  symbol: string;
+  qty: string;
+  side: string;
+  avg_entry_price: string;
+  asset_class: string;
 }
 
 interface AlpacaOrderLeg {
@@ -66,6 +83,10 @@ interface AlpacaOrderLeg {
   side: string;
   position_effect: string;
   ratio_qty: string;
+  status?: string;
+  filled_qty?: string;
+  filled_avg_price?: string | null;
+  filled_at?: string | null;
 }
 
 interface AlpacaFill {
@@ -121,6 +142,22 @@ function mapOrderSide(side: OrderSide): { side: string; position_effect: string
   }
 }
 
+// Map Alpaca side/intent back to our OrderSide
+function fromAlpacaSide(side: string, positionIntent?: string): OrderSide {
+  switch (positionIntent?.toLowerCase()) {
+    case 'buy_to_open':
+      return 'BUY_TO_OPEN';
+    case 'buy_to_close':
+      return 'BUY_TO_CLOSE';
+    case 'sell_to_open':
+      return 'SELL_TO_OPEN';
+    case 'sell_to_close':
+      return 'SELL_TO_CLOSE';
+    default:
+      return side.toLowerCase() === 'sell' ? 'SELL_TO_CLOSE' : 'BUY_TO_OPEN';
+  }
+}
+
 // Convert OCC symbol format to Alpaca format
 // OCC: AAPL  251219C00150000 -> Alpaca: AAPL251219C00150000
 function toAlpacaSymbol(occSymbol: string): string {
@@ -155,6 +192,7 @@ export class AlpacaAdapter implements BrokerAdapter {
       supports_options: true,
       supports_multi_leg: true,
       supports_order_modification: true,
+      supports_oco_orders: true,
       supports_extended_hours: true,
       max_order_size: 100000,
       min_order_size: 1,
@@ -163,7 +201,7 @@ export class AlpacaAdapter implements BrokerAdapter {
   
   private async fetch<T>(
     endpoint: string, 
-    method: 'GET' | 'POST' | 'PUT' | 'DELETE' = 'GET',
+    method: 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE' = 'GET',
     body?: Record<string, unknown>
   ): Promise<T> {
     const url = `${this.baseUrl}${endpoint}`;
@@ -182,7 +220,7 @@ export class AlpacaAdapter implements BrokerAdapter {
         signal: controller.signal,
       };
       
-      if (body && (method === 'POST' || method === 'PUT')) {
+      if (body && (method === 'POST' || method === 'PUT' || method === 'PATCH')) {
         options.headers = {
           ...options.headers,
           'Content-Type': 'application/json',
@@ -220,7 +258,8 @@ export class AlpacaAdapter implements BrokerAdapter {
         type: request.order_type.toLowerCase(),
         time_in_force: request.time_in_force.toLowerCase(),
         position_intent: sideMapping.position_effect === 'open' ? 'buy_to_open' : 'buy_to_close',
-        client_order_id: `lov-${(request.signal_id || crypto.randomUUID()).substring(0, 8)}-${Date.now()}`,
+        client_order_id: request.client_order_id
+          ?? `lov-${(request.signal_id || crypto.randomUUID()).substring(0, 8)}-${Date.now()}`,
       };
       
       // Handle order type specifics
@@ -239,60 +278,284 @@ export class AlpacaAdapter implements BrokerAdapter {
         orderBody
       );
       
-      const status = mapAlpacaStatus(response.status);
-      const filledQty = parseInt(response.filled_qty) || 0;
-      const avgPrice = response.filled_avg_price ? parseFloat(response.filled_avg_price) : undefined;
+      return this.toSubmission(request, response);
+    } catch (error) {
+      console.error(`[AlpacaAdapter] Order submission failed:`, error);
+      return {
+        result: {
+          success: false,
+          order_id: request.signal_id || crypto.randomUUID(),
+          status: 'REJECTED',
+          filled_quantity: 0,
+          error: error instanceof Error ? error.message : 'Unknown error',
+        },
+        trade: null,
+      };
+    }
+  }
+  
+  // Result and immediate trade for an order Alpaca accepted
+  private toSubmission(
+    request: OrderRequest,
+    response: AlpacaOrderResponse
+  ): { result: AdapterOrderResult; trade: Omit<Trade, 'id' | 'created_at'> | null } {
+    const status = mapAlpacaStatus(response.status);
+    const filledQty = parseInt(response.filled_qty) || 0;
+    const avgPrice = response.filled_avg_price ? parseFloat(response.filled_avg_price) : undefined;
+    
+    // If already filled, create trade record
+    let trade: Omit<Trade, 'id' | 'created_at'> | null = null;
+    if (status === 'FILLED' && avgPrice) {
+      const commission = 0.65 * filledQty;
+      const fees = 0.02 * filledQty;
+      const isBuy = request.side.includes('BUY');
+      const premium = avgPrice * filledQty * 100;
+      const totalCost = isBuy ? premium + commission + fees : commission + fees - premium;
+      
+      trade = {
+        order_id: response.id,
+        broker_trade_id: `${response.id}-fill`,
+        execution_price: avgPrice,
+        quantity: filledQty,
+        commission,
+        fees,
+        total_cost: totalCost,
+        underlying: request.underlying,
+        symbol: request.symbol,
+        strike: request.strike,
+        expiration: request.expiration,
+        option_type: request.option_type,
+        executed_at: response.filled_at || new Date().toISOString(),
+      };
+    }
+    
+    return {
+      result: {
+        success: true,
+        order_id: request.signal_id || crypto.randomUUID(),
+        broker_order_id: response.id,
+        status,
+        filled_quantity: filledQty,
+        avg_fill_price: avgPrice,
+        requires_polling: status !== 'FILLED' && status !== 'REJECTED',
+        estimated_fill_time_ms: 3000,
+      },
+      trade,
+    };
+  }
+  
+  // Alpaca replaces the order in place; the replacement has a new order id
+  async replaceOrder(
+    orderId: string,
+    brokerOrderId: string,
+    request: OrderRequest
+  ): Promise<{ result: AdapterOrderResult; trade: Omit<Trade, 'id' | 'created_at'> | null }> {
+    try {
+      const replaceBody: Record<string, unknown> = { qty: String(request.quantity) };
+      if (request.limit_price) {
+        replaceBody.limit_price = String(request.limit_price);
+      }
+      if (request.client_order_id) {
+        replaceBody.client_order_id = request.client_order_id;
+      }
+      
+      const response = await this.fetch<AlpacaOrderResponse>(
+        `/v2/orders/${brokerOrderId}`,
+        'PATCH',
+        replaceBody
+      );
+      
+      return this.toSubmission(request, response);
+    } catch (error) {
+      console.error(`[AlpacaAdapter] Order replace failed:`, error);
+      return {
+        result: {
+          success: false,
+          order_id: orderId,
+          broker_order_id: brokerOrderId,
+          status: 'REJECTED',
+          filled_quantity: 0,
+          error: error instanceof Error ? error.message : 'Unknown error',
+        },
+        trade: null,
+      };
+    }
+  }
+  
+  // OCO: the parent is the take-profit limit and its single leg the stop
+  async submitOcoOrder(request: OcoOrderRequest): Promise<OcoOrderResult> {
+    const rejected = (error: string): AdapterOrderResult => ({
+      success: false,
+      order_id: request.signal_id || crypto.randomUUID(),
+      status: 'REJECTED',
+      filled_quantity: 0,
+      error,
+    });
+    
+    try {
+      const sideMapping = mapOrderSide(request.side);
+      const orderBody: Record<string, unknown> = {
+        symbol: toAlpacaSymbol(request.symbol),
+        qty: String(request.quantity),
+        side: sideMapping.side,
+        type: 'limit',
+        time_in_force: request.time_in_force.toLowerCase(),
+        order_class: 'oco',
+        take_profit: { limit_price: String(request.take_profit_price) },
+        stop_loss: { stop_price: String(request.stop_price) },
+        client_order_id: `lov-oco-${(request.signal_id || crypto.randomUUID()).substring(0, 8)}-${Date.now()}`,
+      };
+      
+      console.log(`[AlpacaAdapter] Submitting OCO order:`, orderBody);
       
-      // If already filled, create trade record
-      let trade: Omit<Trade, 'id' | 'created_at'> | null = null;
-      if (status === 'FILLED' && avgPrice) {
-        const commission = 0.65 * filledQty;
-        const fees = 0.02 * filledQty;
-        const isBuy = request.side.includes('BUY');
-        const premium = avgPrice * filledQty * 100;
-        const totalCost = isBuy ? premium + commission + fees : commission + fees - premium;
+      const response = await this.fetch<AlpacaOrderResponse>('/v2/orders', 'POST', orderBody);
+      const stopLeg = response.legs?.[0];
+      if (!stopLeg) {
+        const error = 'OCO response had no stop leg';
+        return { success: false, target: rejected(error), stop: rejected(error), error };
+      }
+      
+      const legResult = (id: string, status: string | undefined, filledQty: string | undefined): AdapterOrderResult => ({
+        success: true,
+        order_id: request.signal_id || crypto.randomUUID(),
+        broker_order_id: id,
+        status: mapAlpacaStatus(status ?? 'new'),
+        filled_quantity: parseInt(filledQty ?? '0') || 0,
+        requires_polling: true,
+      });
+      
+      return {
+        success: true,
+        target: legResult(response.id, response.status, response.filled_qty),
+        stop: legResult(stopLeg.id, stopLeg.status, stopLeg.filled_qty),
+      };
+    } catch (error) {
+      console.error(`[AlpacaAdapter] OCO submission failed:`, error);
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      return { success: false, target: rejected(message), stop: rejected(message), error: message };
+    }
+  }
+  
+  async submitMultiLegOrder(
+    request: MultiLegOrderRequest,
+    _legPrices?: number[]
+  ): Promise<{ result: MultiLegOrderResult; trades: AdapterLegTrade[] }> {
+    const orderId = request.signal_id || crypto.randomUUID();
+    
+    try {
+      // Alpaca mleg orders take a signed net limit: positive = debit, negative = credit
+      const orderBody: Record<string, unknown> = {
+        order_class: 'mleg',
+        qty: String(request.quantity),
+        type: request.order_type.toLowerCase(),
+        time_in_force: request.time_in_force.toLowerCase(),
+        client_order_id: request.client_order_id ?? `lov-${orderId.substring(0, 8)}-${Date.now()}`,
+        legs: request.legs.map(leg => {
+          const sideMapping = mapOrderSide(leg.side);
+          return {
+            symbol: toAlpacaSymbol(leg.symbol),
+            ratio_qty: String(leg.ratio),
+            side: sideMapping.side,
+            position_intent: `${sideMapping.side}_to_${sideMapping.position_effect}`,
+          };
+        }),
+      };
+      
+      if (request.order_type === 'LIMIT' && request.net_price !== undefined) {
+        const signed = request.price_effect === 'CREDIT' ? -request.net_price : request.net_price;
+        orderBody.limit_price = String(signed);
+      }
+      
+      console.log(`[AlpacaAdapter] Submitting mleg order:`, orderBody);
+      
+      const response = await this.fetch<AlpacaOrderResponse>(
+        '/v2/orders',
+        'POST',
+        orderBody
+      );
+      
+      const responseLegs = response.legs || [];
+      const trades: AdapterLegTrade[] = [];
+      const fillPrices: number[] = [];
+      
+      const legResults = request.legs.map((leg, index) => {
+        const legNumber = index + 1;
+        const responseLeg = responseLegs.find(l => l.symbol === toAlpacaSymbol(leg.symbol));
+        const legStatus = mapAlpacaStatus(responseLeg?.status || response.status);
+        const filledQty = parseInt(responseLeg?.filled_qty || '0') || 0;
+        const avgPrice = responseLeg?.filled_avg_price ? parseFloat(responseLeg.filled_avg_price) : undefined;
+        fillPrices.push(avgPrice ?? 0);
+        
+        if (legStatus === 'FILLED' && avgPrice) {
+          const commission = 0.65 * filledQty;
+          const fees = 0.02 * filledQty;
+          const premium = avgPrice * filledQty * 100;
+          
+          trades.push({
+            leg_number: legNumber,
+            order_id: response.id,
+            broker_trade_id: `${responseLeg?.id || response.id}-fill`,
+            execution_price: avgPrice,
+            quantity: filledQty,
+            commission,
+            fees,
+            total_cost: isBuySide(leg.side) ? premium + commission + fees : commission + fees - premium,
+            underlying: request.underlying,
+            symbol: leg.symbol,
+            strike: leg.strike,
+            expiration: leg.expiration,
+            option_type: leg.option_type,
+            executed_at: responseLeg?.filled_at || response.filled_at || new Date().toISOString(),
+          });
+        }
         
-        trade = {
-          order_id: response.id,
-          broker_trade_id: `${response.id}-fill`,
-          execution_price: avgPrice,
-          quantity: filledQty,
-          commission,
-          fees,
-          total_cost: totalCost,
-          underlying: request.underlying,
-          symbol: request.symbol,
-          strike: request.strike,
-          expiration: request.expiration,
-          option_type: request.option_type,
-          executed_at: response.filled_at || new Date().toISOString(),
+        return {
+          leg_number: legNumber,
+          broker_order_id: responseLeg?.id,
+          symbol: leg.symbol,
+          side: leg.side,
+          status: legStatus,
+          filled_quantity: filledQty,
+          avg_fill_price: avgPrice,
         };
-      }
+      });
+      
+      const status = responseLegs.length > 0
+        ? aggregateLegStatus(legResults.map(r => r.status))
+        : mapAlpacaStatus(response.status);
+      const net = status === 'FILLED' ? calculateNetPrice(request.legs, fillPrices) : undefined;
       
       return {
         result: {
           success: true,
-          order_id: request.signal_id || crypto.randomUUID(),
+          order_id: orderId,
           broker_order_id: response.id,
           status,
-          filled_quantity: filledQty,
-          avg_fill_price: avgPrice,
-          requires_polling: status !== 'FILLED' && status !== 'REJECTED',
-          estimated_fill_time_ms: 3000,
+          filled_quantity: parseInt(response.filled_qty) || 0,
+          net_fill_price: net?.net_price,
+          price_effect: net?.price_effect || request.price_effect,
+          leg_results: legResults,
         },
-        trade,
+        trades,
       };
     } catch (error) {
-      console.error(`[AlpacaAdapter] Order submission failed:`, error);
+      console.error(`[AlpacaAdapter] Mleg order submission failed:`, error);
       return {
         result: {
           success: false,
-          order_id: request.signal_id || crypto.randomUUID(),
+          order_id: orderId,
           status: 'REJECTED',
           filled_quantity: 0,
+          leg_results: request.legs.map((leg, index) => ({
+            leg_number: index + 1,
+            symbol: leg.symbol,
+            side: leg.side,
+            status: 'REJECTED',
+            filled_quantity: 0,
+          })),
           error: error instanceof Error ? error.message : 'Unknown error',
         },
-        trade: null,
+        trades: [],
       };
     }
   }
@@ -353,6 +616,32 @@ export class AlpacaAdapter implements BrokerAdapter {
     }
   }
   
+  async findOrderByClientId(clientOrderId: string): Promise<OrderStatusResponse | null> {
+    let response: AlpacaOrderResponse;
+    try {
+      response = await this.fetch<AlpacaOrderResponse>(
+        `/v2/orders:by_client_order_id?client_order_id=${encodeURIComponent(clientOrderId)}`
+      );
+    } catch (error) {
+      // 404 is Alpaca's answer for an id it never received
+      if (error instanceof Error && error.message.startsWith('Alpaca API error: 404')) {
+        return null;
+      }
+      throw error;
+    }
+    
+    const filledQty = parseInt(response.filled_qty) || 0;
+    return {
+      order_id: clientOrderId,
+      broker_order_id: response.id,
+      status: mapAlpacaStatus(response.status),
+      filled_quantity: filledQty,
+      remaining_quantity: (parseInt(response.qty) || 0) - filledQty,
+      avg_fill_price: response.filled_avg_price ? parseFloat(response.filled_avg_price) : undefined,
+      last_fill_time: response.filled_at || undefined,
+    };
+  }
+  
   async getOrderFills(
     orderId: string, 
     brokerOrderId: string
@@ -384,6 +673,52 @@ export class AlpacaAdapter implements BrokerAdapter {
       return [];
     }
   }
+  
+  async getPositions(): Promise<BrokerPosition[]> {
+    const positions = await this.fetch<AlpacaPosition[]>('/v2/positions');
+    
+    return positions
+      .filter(position => position.asset_class === 'us_option')
+      .map(position => {
+        const qty = Math.abs(parseFloat(position.qty) || 0);
+        return {
+          symbol: position.symbol,
+          quantity: position.side === 'short' ? -qty : qty,
+          avg_price: position.avg_entry_price ? parseFloat(position.avg_entry_price) : undefined,
+        };
+      });
+  }
+  
+  async getOpenOrders(): Promise<BrokerOpenOrder[]> {
+    const orders = await this.fetch<AlpacaOrderResponse[]>('/v2/orders?status=open&limit=500&nested=true');
+    
+    // Multi-leg orders are listed by leg, matching the leg rows stored locally
+    return orders.flatMap((order): BrokerOpenOrder[] => {
+      if (order.order_class === 'mleg' && order.legs?.length) {
+        return order.legs.map(leg => ({
+          broker_order_id: leg.id,
+          symbol: leg.symbol,
+          side: fromAlpacaSide(leg.side, `${leg.side}_to_${leg.position_effect}`),
+          quantity: parseInt(leg.qty) || 0,
+          filled_quantity: parseInt(leg.filled_qty || '0') || 0,
+          status: mapAlpacaStatus(leg.status || order.status),
+          created_at: order.created_at,
+        }));
+      }
+      if (order.asset_class !== 'us_option') {
+        return [];
+      }
+      return [{
+        broker_order_id: order.id,
+        symbol: order.symbol,
+        side: fromAlpacaSide(order.side, order.position_intent),
+        quantity: parseInt(order.qty) || 0,
+        filled_quantity: parseInt(order.filled_qty) || 0,
+        status: mapAlpacaStatus(order.status),
+        created_at: order.created_at,
+      }];
+    });
+  }
 }
 
 /**
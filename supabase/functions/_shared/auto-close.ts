@@ -3,11 +3,13 @@
  * Automatically submits close orders for positions that trigger exit rules
  */
 
-import type { Position, OrderRequest, OrderSide, OrderType, Trade } from "./types.ts";
+import type { OrderRequest, OrderType, Trade } from "./types.ts";
 import type { ExitEvaluation, PositionWithMarketData } from "./exit-rules.ts";
 import { createAdapter } from "./adapter-factory.ts";
 import { createDbClient } from "./db-client.ts";
-import { generateOccSymbol } from "./types.ts";
+import { recordOrderSubmission } from "./order-lifecycle.ts";
+import { generateOccSymbol, getCloseSide } from "./types.ts";
+import { marketCalendar } from "./market-calendar.ts";
 
 export interface AutoCloseResult {
   position_id: string;
@@ -23,16 +25,9 @@ export interface AutoCloseConfig {
   enabled: boolean;
   only_immediate?: boolean; // Only close IMMEDIATE urgency
   dry_run?: boolean; // Log but don't execute
+  outside_market_hours?: boolean; // Submit even when the contract is not trading
 }
 
-/**
- * Determine the correct order side for closing a position
- */
-function getCloseSide(position: Position): OrderSide {
-  // Long positions (positive quantity) are closed by selling
-  // Short positions (negative quantity) are closed by buying
-  return position.quantity > 0 ? 'SELL_TO_CLOSE' : 'BUY_TO_CLOSE';
-}
 
 /**
  * Submit a single close order for a position
@@ -101,10 +96,11 @@ async function submitCloseOrder(
       throw new Error(result.error || 'Order submission failed');
     }
     
-    // Insert order record
-    const { data: orderData, error: orderError } = await supabase
-      .from('orders')
-      .insert({
+    // Insert order record, with the trade if it filled
+    const filled = result.status === 'FILLED' && trade ? trade : null;
+    const { error: orderError } = await recordOrderSubmission(
+      supabase,
+      {
         id: result.order_id,
         signal_id: null, // Auto-close, no signal
         mode: safety_result.mode,
@@ -124,36 +120,20 @@ async function submitCloseOrder(
         avg_fill_price: result.avg_fill_price,
         submitted_at: new Date().toISOString(),
         filled_at: result.status === 'FILLED' ? new Date().toISOString() : null,
-      })
-      .select()
-      .single();
+      },
+      filled,
+      'auto-close'
+    );
     
     if (orderError) {
       console.error(`[${correlationId}] Failed to insert order:`, orderError);
     }
     
-    // If filled, create trade record
-    if (result.status === 'FILLED' && trade) {
-      await supabase.from('trades').insert({
-        order_id: result.order_id,
-        broker_trade_id: trade.broker_trade_id,
-        underlying: trade.underlying,
-        symbol: trade.symbol,
-        strike: trade.strike,
-        expiration: trade.expiration,
-        option_type: trade.option_type,
-        execution_price: trade.execution_price,
-        quantity: trade.quantity,
-        commission: trade.commission,
-        fees: trade.fees,
-        total_cost: trade.total_cost,
-        executed_at: trade.executed_at,
-      });
-      
+    if (filled) {
       // Calculate realized P&L from actual execution price
       // Formula: (exit_price - entry_price) × quantity × 100 (for long positions)
       // For short positions: (entry_price - exit_price) × quantity × 100
-      const closePrice = trade.execution_price;
+      const closePrice = filled.execution_price;
       const entryPrice = position.avg_open_price;
       const qty = Math.abs(position.quantity);
       const contractMultiplier = 100;
@@ -256,6 +236,16 @@ export async function autoClosePositions(
     console.log(`[AutoClose] Filtered to ${signalsToProcess.length} IMMEDIATE signals`);
   }
   
+  // Close orders for contracts that are not trading wait for the next refresh
+  if (!config.outside_market_hours) {
+    const now = new Date();
+    const tradable = signalsToProcess.filter(s => marketCalendar.isOptionTrading(s.position.underlying, s.position.expiration, now));
+    if (tradable.length < signalsToProcess.length) {
+      console.log(`[AutoClose] Deferring ${signalsToProcess.length - tradable.length} positions until their contracts trade (next open ${marketCalendar.nextOpen(now).toISOString()})`);
+    }
+    signalsToProcess = tradable;
+  }
+  
   console.log(`[AutoClose] Processing ${signalsToProcess.length} positions for auto-close`);
   
   // Process each position sequentially to avoid race conditions
@@ -0,0 +1,238 @@
+/**
+ * Tests for entry brackets: level selection, local triggers, native OCO
+ * arming and the bracket lifecycle
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  activateBracket,
+  bracketLevels,
+  bracketTrigger,
+  cancelBracket,
+  createBracket,
+  refreshBracket,
+  resolveBracketLevels,
+} from './bracket-orders.ts';
+import type { OcoOrderRequest, OrderBracket } from './types.ts';
+import { defaultConfig } from './refactored/core/config.ts';
+import { SimulatedClock } from './refactored/core/clock.ts';
+import { fakeAdapter, fakeClient, NOW } from './test-utils/fake-db.ts';
+
+const clock = new SimulatedClock(NOW);
+
+/**
+ * Broker that accepts OCO pairs when `oco` is set, leaving both legs working
+ */
+function fakeBroker(options: { oco: boolean; refuse?: boolean }) {
+  const calls = { oco: [] as OcoOrderRequest[], cancel: [] as string[] };
+  const adapter = fakeAdapter({
+    submitOcoOrder: (request: OcoOrderRequest) => {
+      calls.oco.push(request);
+      if (options.refuse) {
+        return Promise.resolve({
+          success: false,
+          target: { success: false, status: 'REJECTED' },
+          stop: { success: false, status: 'REJECTED' },
+          error: 'options OCO not permitted',
+        });
+      }
+      const n = calls.oco.length;
+      return Promise.resolve({
+        success: true,
+        target: { success: true, broker_order_id: `OCO-${n}-T`, status: 'SUBMITTED', filled_quantity: 0 },
+        stop: { success: true, broker_order_id: `OCO-${n}-S`, status: 'SUBMITTED', filled_quantity: 0 },
+      });
+    },
+    cancelOrder: (_orderId: string, brokerOrderId: string) => {
+      calls.cancel.push(brokerOrderId);
+      return Promise.resolve({ success: true });
+    },
+  }, { capabilities: { supports_oco_orders: options.oco } });
+  return { adapter, calls };
+}
+
+const position = {
+  id: 'pos-1',
+  underlying: 'SPY',
+  symbol: 'SPY   260320C00500000',
+  strike: 500,
+  expiration: '2026-03-20',
+  option_type: 'CALL' as const,
+  side: 'LONG' as const,
+};
+
+const levels = { stop_price: 1.4, target_price: 3, level_source: 'CONFIG' as const };
+
+async function pendingBracket(client: ReturnType<typeof fakeClient>, entryOrderId: string | null = null) {
+  return (await createBracket(client as never, position, entryOrderId, 'LIVE', clock))!;
+}
+
+describe('bracketLevels', () => {
+  it('uses the Config.exit percents without volatility data', () => {
+    expect(bracketLevels(2, 'LONG', defaultConfig.exit!)).toEqual({
+      stop_price: 1.4,
+      target_price: 3,
+      level_source: 'CONFIG',
+    });
+  });
+
+  it('uses the volatility-adjusted stop and final target when ATR is known', () => {
+    const result = bracketLevels(2, 'LONG', defaultConfig.exit!, { atr: 4, atrPercentile: 80 });
+
+    expect(result.level_source).toBe('VOLATILITY');
+    expect(result.stop_price).toBeLessThan(2);
+    expect(result.target_price).toBeGreaterThan(2);
+  });
+
+  it('measures shorts against the credit', () => {
+    expect(bracketLevels(2, 'SHORT', defaultConfig.exit!, { atr: 4, atrPercentile: 80 })).toEqual({
+      stop_price: 4,
+      target_price: 1,
+      level_source: 'CONFIG',
+    });
+  });
+});
+
+describe('resolveBracketLevels', () => {
+  it('reads the DECIMAL ATR that market_context returns as a string', async () => {
+    const client = fakeClient({ market_context: [{ ticker: 'SPY', atr: '4.000000', atr_percentile: 80 }] });
+
+    const result = await resolveBracketLevels(client as never, 'spy', 2, 'LONG', defaultConfig.exit!);
+
+    expect(result).toEqual(bracketLevels(2, 'LONG', defaultConfig.exit!, { atr: 4, atrPercentile: 80 }));
+    expect(result.level_source).toBe('VOLATILITY');
+  });
+});
+
+describe('bracketTrigger', () => {
+  it('checks longs at the bid and shorts at the ask', () => {
+    const long = { side: 'LONG' as const, stop_price: 1.4, target_price: 3 };
+    expect(bracketTrigger(long, { bid: 1.4, ask: 1.5 })).toBe('STOP');
+    expect(bracketTrigger(long, { bid: 3.05, ask: 3.2 })).toBe('TARGET');
+    expect(bracketTrigger(long, { bid: 2.9, ask: 3.1 })).toBeNull();
+    expect(bracketTrigger(long, { bid: 0, ask: 1.2 })).toBeNull();
+
+    const short = { side: 'SHORT' as const, stop_price: 4, target_price: 1 };
+    expect(bracketTrigger(short, { bid: 3.9, ask: 4.1 })).toBe('STOP');
+    expect(bracketTrigger(short, { bid: 0.9, ask: 1 })).toBe('TARGET');
+    expect(bracketTrigger(short, { bid: 0.9, ask: 1.1 })).toBeNull();
+  });
+});
+
+describe('activateBracket', () => {
+  it('watches locally when the broker does not hold OCO orders', async () => {
+    const client = fakeClient({ order_brackets: [], orders: [] });
+    const { adapter, calls } = fakeBroker({ oco: false });
+    const bracket = await pendingBracket(client);
+
+    const armed = await activateBracket(client as never, adapter as never, bracket, { price: 2, quantity: 3 }, levels, clock);
+
+    expect(armed).toMatchObject({ status: 'ACTIVE', management: 'LOCAL', quantity: 3, stop_price: 1.4, target_price: 3 });
+    expect(client.tables.order_brackets[0]).toMatchObject({ status: 'ACTIVE', management: 'LOCAL' });
+    expect(calls.oco).toHaveLength(0);
+    expect(client.tables.orders).toHaveLength(0);
+  });
+
+  it('arms an OCO pair and records both legs as exit orders', async () => {
+    const client = fakeClient({ order_brackets: [], orders: [] });
+    const { adapter, calls } = fakeBroker({ oco: true });
+    const bracket = await pendingBracket(client);
+
+    const armed = await activateBracket(client as never, adapter as never, bracket, { price: 2, quantity: 3 }, levels, clock);
+
+    expect(calls.oco[0]).toMatchObject({ side: 'SELL_TO_CLOSE', quantity: 3, take_profit_price: 3, stop_price: 1.4 });
+    expect(armed.management).toBe('BROKER');
+    expect(client.tables.orders.map(o => [o.order_type, o.broker_order_id, o.bracket_id, o.refactored_position_id]))
+      .toEqual([
+        ['LIMIT', 'OCO-1-T', bracket.id, 'pos-1'],
+        ['STOP', 'OCO-1-S', bracket.id, 'pos-1'],
+      ]);
+    expect(armed.target_order_id).toBe(client.tables.orders[0].id);
+    expect(armed.stop_order_id).toBe(client.tables.orders[1].id);
+  });
+
+  it('falls back to LOCAL when the broker refuses the pair', async () => {
+    const client = fakeClient({ order_brackets: [], orders: [] });
+    const { adapter } = fakeBroker({ oco: true, refuse: true });
+    const bracket = await pendingBracket(client);
+
+    const armed = await activateBracket(client as never, adapter as never, bracket, { price: 2, quantity: 3 }, levels, clock);
+
+    expect(armed).toMatchObject({ status: 'ACTIVE', management: 'LOCAL' });
+    expect(armed.reason).toContain('options OCO not permitted');
+  });
+});
+
+describe('refreshBracket', () => {
+  it('activates a pending bracket once its entry fills', async () => {
+    const client = fakeClient({
+      order_brackets: [],
+      orders: [{ id: 'entry-1', status: 'FILLED', filled_quantity: 3, avg_fill_price: 2 }],
+      market_context: [],
+    });
+    const { adapter } = fakeBroker({ oco: false });
+    const bracket = await pendingBracket(client, 'entry-1');
+
+    const refreshed = await refreshBracket(client as never, adapter as never, bracket, 3, defaultConfig.exit!, clock);
+
+    expect(refreshed).toMatchObject({ status: 'ACTIVE', entry_price: 2, stop_price: 1.4, target_price: 3 });
+  });
+
+  it('drops a pending bracket whose entry ended unfilled', async () => {
+    const client = fakeClient({
+      order_brackets: [],
+      orders: [{ id: 'entry-1', status: 'CANCELLED', filled_quantity: 0, avg_fill_price: null }],
+    });
+    const { adapter } = fakeBroker({ oco: false });
+    const bracket = await pendingBracket(client, 'entry-1');
+
+    const refreshed = await refreshBracket(client as never, adapter as never, bracket, 0, defaultConfig.exit!, clock);
+
+    expect(refreshed.status).toBe('CANCELLED');
+  });
+
+  it('marks a broker bracket triggered when a leg fills', async () => {
+    const client = fakeClient({ order_brackets: [], orders: [] });
+    const { adapter } = fakeBroker({ oco: true });
+    const armed = await activateBracket(
+      client as never, adapter as never, await pendingBracket(client), { price: 2, quantity: 3 }, levels, clock
+    );
+    Object.assign(client.tables.orders[1], { status: 'FILLED', filled_quantity: 3, avg_fill_price: 1.38 });
+
+    const refreshed = await refreshBracket(client as never, adapter as never, armed, 3, defaultConfig.exit!, clock);
+
+    expect(refreshed).toMatchObject({ status: 'TRIGGERED', triggered_leg: 'STOP', triggered_price: 1.38 });
+  });
+
+  it('re-arms broker legs that expired unfilled', async () => {
+    const client = fakeClient({ order_brackets: [], orders: [] });
+    const { adapter, calls } = fakeBroker({ oco: true });
+    const armed = await activateBracket(
+      client as never, adapter as never, await pendingBracket(client), { price: 2, quantity: 3 }, levels, clock
+    );
+    client.tables.orders.forEach(order => { order.status = 'EXPIRED'; });
+
+    const refreshed = await refreshBracket(client as never, adapter as never, armed, 2, defaultConfig.exit!, clock);
+
+    expect(calls.oco).toHaveLength(2);
+    expect(calls.oco[1].quantity).toBe(2);
+    expect(refreshed).toMatchObject({ status: 'ACTIVE', management: 'BROKER', quantity: 2 });
+    expect(refreshed.stop_order_id).not.toBe(armed.stop_order_id);
+  });
+});
+
+describe('cancelBracket', () => {
+  it('cancels legs still working at the broker', async () => {
+    const client = fakeClient({ order_brackets: [], orders: [] });
+    const { adapter, calls } = fakeBroker({ oco: true });
+    const armed: OrderBracket = await activateBracket(
+      client as never, adapter as never, await pendingBracket(client), { price: 2, quantity: 3 }, levels, clock
+    );
+
+    const cancelled = await cancelBracket(client as never, adapter as never, armed, 'Position closed', clock);
+
+    expect(cancelled).toMatchObject({ status: 'CANCELLED', reason: 'Position closed' });
+    expect(calls.cancel).toEqual(['OCO-1-T', 'OCO-1-S']);
+    expect(client.tables.orders.map(o => o.status)).toEqual(['CANCELLED', 'CANCELLED']);
+  });
+});
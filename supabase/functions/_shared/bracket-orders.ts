@@ -0,0 +1,495 @@
+/**
+ * Bracket Orders
+ * Attaches a protective stop and profit target to a position once its entry
+ * fills, as a one-cancels-other pair. Brokers that hold OCO orders get the
+ * pair natively, so the position stays protected even if the exit worker
+ * stalls; otherwise the bracket is LOCAL and the exit worker watches quotes
+ * against it.
+ *
+ * Levels come from VolatilityAdjustedLevels when the underlying's ATR is
+ * known, and from Config.exit otherwise.
+ */
+
+import type { createDbClient } from "./db-client.ts";
+import type { BrokerAdapter } from "./broker-adapter.ts";
+import type { OptionsQuote } from "./market-data/types.ts";
+import type {
+  BracketLeg,
+  OcoOrderRequest,
+  Order,
+  OrderBracket,
+  OrderSide,
+  TradingMode,
+} from "./types.ts";
+import type { Config, PositionSide } from "./refactored/core/types.ts";
+import { defaultConfig } from "./refactored/core/config.ts";
+import { getVolatilityAdjustedLevels } from "./exit-rules.ts";
+import { isTerminalStatus, recordOrderSubmission, transitionOrder } from "./order-lifecycle.ts";
+import { systemClock, type Clock } from "./refactored/core/clock.ts";
+
+type DbClient = ReturnType<typeof createDbClient>;
+type ExitConfig = NonNullable<Config['exit']>;
+
+const SOURCE = 'bracket';
+
+export interface BracketLevels {
+  stop_price: number;
+  target_price: number;
+  level_source: 'VOLATILITY' | 'CONFIG';
+}
+
+// The position a bracket protects
+export interface BracketPosition {
+  id: string;
+  underlying: string;
+  symbol: string;
+  strike: number;
+  expiration: string;
+  option_type: 'CALL' | 'PUT';
+  side: PositionSide;
+}
+
+export interface UnderlyingVolatility {
+  atr?: number;
+  atrPercentile?: number;
+}
+
+/**
+ * Stop and target premiums for a position entered at `entryPrice`. Longs
+ * use the volatility-adjusted stop and final target when ATR data is
+ * available; shorts, and longs without it, use the Config.exit percents
+ * (Config.exit.short for shorts, measured against the credit).
+ */
+export function bracketLevels(
+  entryPrice: number,
+  side: PositionSide,
+  exitConfig: ExitConfig,
+  volatility: UnderlyingVolatility = {}
+): BracketLevels {
+  if (side === 'SHORT') {
+    const short = exitConfig.short ?? defaultConfig.exit!.short!;
+    return {
+      // stopLossPercent is negative, so the stop sits above the credit
+      stop_price: roundPrice(entryPrice * (1 - short.stopLossPercent / 100)),
+      target_price: roundPrice(entryPrice * (1 - short.profitTargetPercent / 100)),
+      level_source: 'CONFIG',
+    };
+  }
+
+  if (volatility.atr && volatility.atr > 0 && volatility.atrPercentile !== undefined) {
+    const levels = getVolatilityAdjustedLevels(entryPrice, volatility.atr, volatility.atrPercentile);
+    return {
+      stop_price: roundPrice(levels.stopLoss),
+      // The bracket closes the whole position, so it takes the final target
+      target_price: roundPrice(levels.target2),
+      level_source: 'VOLATILITY',
+    };
+  }
+
+  return {
+    stop_price: roundPrice(entryPrice * (1 + exitConfig.stopLossPercent / 100)),
+    target_price: roundPrice(entryPrice * (1 + exitConfig.profitTargetPercent / 100)),
+    level_source: 'CONFIG',
+  };
+}
+
+/**
+ * Which leg the quote has reached, if any. Longs are measured at the bid
+ * they would sell into, shorts at the ask they would buy back at.
+ */
+export function bracketTrigger(
+  bracket: Pick<OrderBracket, 'side' | 'stop_price' | 'target_price'>,
+  quote: Pick<OptionsQuote, 'bid' | 'ask'>
+): BracketLeg | null {
+  if (bracket.stop_price === null || bracket.target_price === null) {
+    return null;
+  }
+
+  if (bracket.side === 'LONG') {
+    if (!(quote.bid > 0)) return null;
+    if (quote.bid <= Number(bracket.stop_price)) return 'STOP';
+    if (quote.bid >= Number(bracket.target_price)) return 'TARGET';
+    return null;
+  }
+
+  if (!(quote.ask > 0)) return null;
+  if (quote.ask >= Number(bracket.stop_price)) return 'STOP';
+  if (quote.ask <= Number(bracket.target_price)) return 'TARGET';
+  return null;
+}
+
+/**
+ * Levels for a fresh entry, looking up the underlying's latest ATR
+ */
+export async function resolveBracketLevels(
+  supabase: DbClient,
+  underlying: string,
+  entryPrice: number,
+  side: PositionSide,
+  exitConfig: ExitConfig = defaultConfig.exit!
+): Promise<BracketLevels> {
+  return bracketLevels(entryPrice, side, exitConfig, await fetchUnderlyingVolatility(supabase, underlying));
+}
+
+/**
+ * The underlying's latest ATR from market_context, shared with the exit
+ * worker's volatility-adjusted stop
+ */
+export async function fetchUnderlyingVolatility(
+  supabase: DbClient,
+  underlying: string
+): Promise<UnderlyingVolatility> {
+  const { data } = await supabase
+    .from('market_context')
+    .select('atr, atr_percentile')
+    .eq('ticker', underlying.toUpperCase())
+    .order('updated_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  // DECIMAL columns arrive as strings
+  const atr = data?.atr != null ? Number(data.atr) : NaN;
+  const atrPercentile = data?.atr_percentile != null ? Number(data.atr_percentile) : NaN;
+
+  return {
+    atr: Number.isFinite(atr) ? atr : undefined,
+    atrPercentile: Number.isFinite(atrPercentile) ? atrPercentile : undefined,
+  };
+}
+
+/**
+ * Records a PENDING bracket for a position whose entry was just submitted.
+ * It is activated once the entry fills.
+ */
+export async function createBracket(
+  supabase: DbClient,
+  position: BracketPosition,
+  entryOrderId: string | null,
+  mode: TradingMode,
+  clock: Clock = systemClock
+): Promise<OrderBracket | null> {
+  const now = clock.now().toISOString();
+  const { data, error } = await supabase.from('order_brackets').insert({
+    refactored_position_id: position.id,
+    entry_order_id: entryOrderId,
+    underlying: position.underlying,
+    symbol: position.symbol,
+    strike: position.strike,
+    expiration: position.expiration,
+    option_type: position.option_type,
+    side: position.side,
+    status: 'PENDING',
+    mode,
+    created_at: now,
+    updated_at: now,
+  });
+
+  if (error || !data) {
+    console.error(`[Bracket] Failed to create bracket for ${position.id}: ${error?.message ?? 'no row returned'}`);
+    return null;
+  }
+  return data as OrderBracket;
+}
+
+/**
+ * Arms a bracket for the filled entry: as an OCO pair at the broker when
+ * the adapter holds them, LOCAL otherwise or when the broker refuses it.
+ */
+export async function activateBracket(
+  supabase: DbClient,
+  adapter: BrokerAdapter,
+  bracket: OrderBracket,
+  entry: { price: number; quantity: number },
+  levels: BracketLevels,
+  clock: Clock = systemClock
+): Promise<OrderBracket> {
+  const armed: OrderBracket = {
+    ...bracket,
+    quantity: entry.quantity,
+    entry_price: entry.price,
+    stop_price: levels.stop_price,
+    target_price: levels.target_price,
+    level_source: levels.level_source,
+    management: 'LOCAL',
+    status: 'ACTIVE',
+    reason: null,
+  };
+
+  const legs = await armAtBroker(supabase, adapter, armed, clock);
+  if ('error' in legs) {
+    armed.reason = legs.error;
+  } else if (legs.stop_order_id) {
+    armed.management = 'BROKER';
+    armed.stop_order_id = legs.stop_order_id;
+    armed.target_order_id = legs.target_order_id ?? null;
+  }
+
+  const now = clock.now().toISOString();
+  return updateBracket(supabase, armed, {
+    quantity: armed.quantity,
+    entry_price: armed.entry_price,
+    stop_price: armed.stop_price,
+    target_price: armed.target_price,
+    level_source: armed.level_source,
+    management: armed.management,
+    stop_order_id: armed.stop_order_id,
+    target_order_id: armed.target_order_id,
+    status: 'ACTIVE',
+    reason: armed.reason,
+    activated_at: now,
+    updated_at: now,
+  });
+}
+
+/**
+ * Moves a bracket forward from what the database knows: a PENDING bracket
+ * arms once its entry order has filled (or is dropped if the entry never
+ * fills), and a BROKER bracket is TRIGGERED when a leg has filled or
+ * re-armed when both legs ended unfilled, e.g. DAY legs expiring at the close.
+ */
+export async function refreshBracket(
+  supabase: DbClient,
+  adapter: BrokerAdapter,
+  bracket: OrderBracket,
+  positionQuantity: number,
+  exitConfig: ExitConfig = defaultConfig.exit!,
+  clock: Clock = systemClock
+): Promise<OrderBracket> {
+  if (bracket.status === 'PENDING') {
+    const entry = bracket.entry_order_id ? await loadOrders(supabase, [bracket.entry_order_id]) : [];
+    const order = entry[0];
+    const filled = Number(order?.filled_quantity) || 0;
+
+    if (order && filled > 0 && order.avg_fill_price !== null) {
+      const price = Number(order.avg_fill_price);
+      const levels = await resolveBracketLevels(supabase, bracket.underlying, price, bracket.side, exitConfig);
+      return activateBracket(supabase, adapter, bracket, { price, quantity: positionQuantity || filled }, levels, clock);
+    }
+    if (!order || isTerminalStatus(order.status)) {
+      return closeBracket(supabase, bracket, 'CANCELLED', 'Entry order ended without a fill', clock);
+    }
+    return bracket;
+  }
+
+  if (bracket.status !== 'ACTIVE' || bracket.management !== 'BROKER') {
+    return bracket;
+  }
+
+  const legIds = [bracket.stop_order_id, bracket.target_order_id].filter((id): id is string => !!id);
+  const legs = await loadOrders(supabase, legIds);
+
+  const filledLeg = legs.find(leg => (Number(leg.filled_quantity) || 0) > 0);
+  if (filledLeg) {
+    return closeBracket(supabase, bracket, 'TRIGGERED', null, clock, {
+      triggered_leg: filledLeg.id === bracket.stop_order_id ? 'STOP' : 'TARGET',
+      triggered_price: filledLeg.avg_fill_price,
+      triggered_at: clock.now().toISOString(),
+    });
+  }
+
+  if (legs.length > 0 && legs.every(leg => isTerminalStatus(leg.status))) {
+    const rearmed: OrderBracket = { ...bracket, quantity: positionQuantity };
+    const armed = await armAtBroker(supabase, adapter, rearmed, clock);
+    const now = clock.now().toISOString();
+    if ('error' in armed || !armed.stop_order_id) {
+      // Keep the position protected from our side
+      return updateBracket(supabase, rearmed, {
+        quantity: positionQuantity,
+        management: 'LOCAL',
+        reason: 'error' in armed ? armed.error : 'Broker does not hold OCO orders',
+        updated_at: now,
+      });
+    }
+    return updateBracket(supabase, rearmed, {
+      quantity: positionQuantity,
+      stop_order_id: armed.stop_order_id,
+      target_order_id: armed.target_order_id ?? null,
+      updated_at: now,
+    });
+  }
+
+  return bracket;
+}
+
+/**
+ * Takes a bracket down, cancelling any of its legs still working at the
+ * broker first
+ */
+export async function cancelBracket(
+  supabase: DbClient,
+  adapter: BrokerAdapter,
+  bracket: OrderBracket,
+  reason: string,
+  clock: Clock = systemClock
+): Promise<OrderBracket> {
+  if (bracket.management === 'BROKER') {
+    const legIds = [bracket.target_order_id, bracket.stop_order_id].filter((id): id is string => !!id);
+    for (const leg of await loadOrders(supabase, legIds)) {
+      if (isTerminalStatus(leg.status)) {
+        continue;
+      }
+      const cancelled = await adapter.cancelOrder(leg.id, leg.broker_order_id ?? undefined);
+      if (!cancelled.success) {
+        // Cancelling one OCO leg usually takes the other with it
+        console.warn(`[Bracket] Cancel of ${leg.broker_order_id} failed: ${cancelled.error}`);
+      }
+      await transitionOrder(supabase, leg.id, { status: 'CANCELLED', source: SOURCE, reason }, clock);
+    }
+  }
+
+  return closeBracket(supabase, bracket, 'CANCELLED', reason, clock);
+}
+
+/**
+ * Records that a LOCAL bracket's leg was hit and its exit went out
+ */
+export async function markBracketTriggered(
+  supabase: DbClient,
+  bracket: OrderBracket,
+  leg: BracketLeg,
+  price: number,
+  clock: Clock = systemClock
+): Promise<OrderBracket> {
+  return closeBracket(supabase, bracket, 'TRIGGERED', null, clock, {
+    triggered_leg: leg,
+    triggered_price: price,
+    triggered_at: clock.now().toISOString(),
+  });
+}
+
+/**
+ * PENDING and ACTIVE brackets
+ */
+export async function loadOpenBrackets(supabase: DbClient): Promise<OrderBracket[]> {
+  const { data, error } = await supabase
+    .from('order_brackets')
+    .select('*')
+    .in('status', ['PENDING', 'ACTIVE']);
+
+  if (error) {
+    throw new Error(`Failed to load brackets: ${error.message}`);
+  }
+  return (data || []) as OrderBracket[];
+}
+
+// Submits the OCO pair and records each leg as an exit order for the position.
+// An empty result means the adapter has no native OCO support.
+async function armAtBroker(
+  supabase: DbClient,
+  adapter: BrokerAdapter,
+  bracket: OrderBracket,
+  clock: Clock
+): Promise<{ stop_order_id?: string; target_order_id?: string } | { error: string }> {
+  if (!adapter.getCapabilities().supports_oco_orders || !adapter.submitOcoOrder) {
+    return {};
+  }
+
+  const quantity = Number(bracket.quantity) || 0;
+  const side: OrderSide = bracket.side === 'SHORT' ? 'BUY_TO_CLOSE' : 'SELL_TO_CLOSE';
+  const request: OcoOrderRequest = {
+    underlying: bracket.underlying,
+    symbol: bracket.symbol,
+    strike: Number(bracket.strike),
+    expiration: bracket.expiration,
+    option_type: bracket.option_type,
+    side,
+    quantity,
+    take_profit_price: Number(bracket.target_price),
+    stop_price: Number(bracket.stop_price),
+    // Option orders are day-only at the broker; expired legs are re-armed
+    time_in_force: 'DAY',
+  };
+
+  const oco = await adapter.submitOcoOrder(request);
+  if (!oco.success) {
+    console.warn(`[Bracket] OCO for ${bracket.refactored_position_id} refused, watching locally: ${oco.error}`);
+    return { error: `OCO refused: ${oco.error}` };
+  }
+
+  const now = clock.now().toISOString();
+  const recordLeg = async (leg: BracketLeg) => {
+    const result = leg === 'STOP' ? oco.stop : oco.target;
+    const { order } = await recordOrderSubmission(
+      supabase,
+      {
+        refactored_position_id: bracket.refactored_position_id,
+        bracket_id: bracket.id,
+        exit_action: 'FULL',
+        exit_quantity: quantity,
+        broker_order_id: result.broker_order_id ?? null,
+        client_order_id: `CLT-BRK-${leg}-${bracket.id.substring(0, 8)}-${Date.now()}`,
+        underlying: request.underlying,
+        symbol: request.symbol,
+        strike: request.strike,
+        expiration: request.expiration,
+        option_type: request.option_type,
+        side,
+        quantity,
+        order_type: leg === 'STOP' ? 'STOP' : 'LIMIT',
+        limit_price: leg === 'TARGET' ? request.take_profit_price : null,
+        stop_price: leg === 'STOP' ? request.stop_price : null,
+        time_in_force: request.time_in_force,
+        mode: adapter.mode,
+        status: result.status,
+        filled_quantity: result.filled_quantity,
+        submitted_at: now,
+      },
+      null,
+      SOURCE,
+      clock
+    );
+    return (order as Order | null)?.id;
+  };
+
+  return {
+    target_order_id: await recordLeg('TARGET'),
+    stop_order_id: await recordLeg('STOP'),
+  };
+}
+
+async function loadOrders(supabase: DbClient, ids: string[]): Promise<Order[]> {
+  if (ids.length === 0) {
+    return [];
+  }
+  const { data } = await supabase
+    .from('orders')
+    .select('*')
+    .in('id', ids);
+  return (data || []) as Order[];
+}
+
+async function closeBracket(
+  supabase: DbClient,
+  bracket: OrderBracket,
+  status: 'TRIGGERED' | 'CANCELLED',
+  reason: string | null,
+  clock: Clock,
+  fields: Partial<OrderBracket> = {}
+): Promise<OrderBracket> {
+  return updateBracket(supabase, bracket, {
+    ...fields,
+    status,
+    reason: reason ?? bracket.reason,
+    updated_at: clock.now().toISOString(),
+  });
+}
+
+async function updateBracket(
+  supabase: DbClient,
+  bracket: OrderBracket,
+  fields: Partial<OrderBracket>
+): Promise<OrderBracket> {
+  const { error } = await supabase
+    .from('order_brackets')
+    .update(fields)
+    .eq('id', bracket.id);
+
+  if (error) {
+    console.error(`[Bracket] Failed to update bracket ${bracket.id}: ${error.message}`);
+  }
+  return { ...bracket, ...fields };
+}
+
+function roundPrice(price: number): number {
+  return Math.max(0.01, Math.round(price * 100) / 100);
+}
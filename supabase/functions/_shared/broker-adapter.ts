@@ -8,10 +8,15 @@
 import type { 
   OrderRequest, 
   OrderResult, 
+  MultiLegOrderRequest,
+  MultiLegOrderResult,
+  OcoOrderRequest,
   Trade,
   TradingMode,
-  OrderStatus
+  OrderStatus,
+  OrderSide
 } from "./types.ts";
+import type { OptionsQuote } from "./market-data/types.ts";
 
 // Extended result type for live adapters that may not fill immediately
 export interface AdapterOrderResult extends OrderResult {
@@ -34,6 +39,14 @@ export interface OrderStatusResponse {
   error?: string;
 }
 
+// Both legs of an OCO pair as the broker accepted them
+export interface OcoOrderResult {
+  success: boolean;
+  target: AdapterOrderResult;
+  stop: AdapterOrderResult;
+  error?: string;
+}
+
 // Trade fill from a live adapter
 export interface AdapterTradeFill {
   broker_trade_id: string;
@@ -46,6 +59,27 @@ export interface AdapterTradeFill {
   executed_at: string;
 }
 
+// Position held at the broker; quantity is negative for shorts
+export interface BrokerPosition {
+  symbol: string; // OCC symbol without spaces
+  quantity: number;
+  avg_price?: number; // Per-share cost basis
+}
+
+// Order still working at the broker
+export interface BrokerOpenOrder {
+  broker_order_id: string;
+  symbol: string; // OCC symbol without spaces
+  side: OrderSide;
+  quantity: number;
+  filled_quantity: number;
+  status: OrderStatus;
+  created_at?: string;
+}
+
+// Trade for one leg of a multi-leg fill
+export type AdapterLegTrade = Omit<Trade, 'id' | 'created_at'> & { leg_number: number };
+
 // Adapter capabilities
 export interface AdapterCapabilities {
   supports_market_orders: boolean;
@@ -54,6 +88,7 @@ export interface AdapterCapabilities {
   supports_options: boolean;
   supports_multi_leg: boolean;
   supports_order_modification: boolean;
+  supports_oco_orders: boolean;
   supports_extended_hours: boolean;
   max_order_size: number;
   min_order_size: number;
@@ -70,15 +105,44 @@ export interface BrokerAdapter {
   // Get adapter capabilities
   getCapabilities(): AdapterCapabilities;
   
-  // Submit a new order
+  // Submit a new order. Simulated adapters fill against quote when given;
+  // live brokers ignore it.
   submitOrder(
     request: OrderRequest,
-    marketPrice?: number
+    marketPrice?: number,
+    quote?: OptionsQuote
   ): Promise<{ 
     result: AdapterOrderResult; 
     trade: Omit<Trade, 'id' | 'created_at'> | null;
   }>;
   
+  // Submit a multi-leg order atomically at a net debit/credit.
+  // legPrices are current per-contract prices in leg order (used for simulation).
+  submitMultiLegOrder(
+    request: MultiLegOrderRequest,
+    legPrices?: number[]
+  ): Promise<{
+    result: MultiLegOrderResult;
+    trades: AdapterLegTrade[];
+  }>;
+  
+  // Hold a take-profit / stop pair at the broker. Only adapters whose
+  // capabilities report supports_oco_orders implement it.
+  submitOcoOrder?(request: OcoOrderRequest): Promise<OcoOrderResult>;
+  
+  // Replace a working order with a new price/quantity. Only adapters whose
+  // capabilities report supports_order_modification implement it; the
+  // replacement may carry a new broker_order_id.
+  replaceOrder?(
+    orderId: string,
+    brokerOrderId: string,
+    request: OrderRequest,
+    quote?: OptionsQuote
+  ): Promise<{
+    result: AdapterOrderResult;
+    trade: Omit<Trade, 'id' | 'created_at'> | null;
+  }>;
+  
   // Cancel an existing order
   cancelOrder(orderId: string, brokerOrderId?: string): Promise<{ 
     success: boolean; 
@@ -90,6 +154,17 @@ export interface BrokerAdapter {
   
   // Get fills/trades for an order
   getOrderFills(orderId: string, brokerOrderId: string): Promise<AdapterTradeFill[]>;
+  
+  // Order submitted with this client_order_id, or null when the broker has
+  // none. Throws when the broker cannot be asked, so an outage is never
+  // mistaken for an order that was not placed.
+  findOrderByClientId(clientOrderId: string): Promise<OrderStatusResponse | null>;
+  
+  // Option positions held in the account (for reconciliation)
+  getPositions(): Promise<BrokerPosition[]>;
+  
+  // Orders still working in the account (for reconciliation)
+  getOpenOrders(): Promise<BrokerOpenOrder[]>;
 }
 
 // Adapter configuration for factory
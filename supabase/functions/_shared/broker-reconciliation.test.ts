@@ -0,0 +1,187 @@
+/**
+ * Tests for broker position and order reconciliation
+ */
+
+import { describe, it, expect } from 'vitest';
+import { reconcileBroker } from './broker-reconciliation.ts';
+import { SimulatedClock } from './refactored/core/clock.ts';
+import type { BrokerAdapter, BrokerOpenOrder, BrokerPosition, OrderStatusResponse } from './broker-adapter.ts';
+import { fakeAdapter, fakeClient, NOW, type Row } from './test-utils/fake-db.ts';
+
+function fakeBroker(
+  positions: BrokerPosition[],
+  openOrders: BrokerOpenOrder[],
+  statuses: Record<string, Partial<OrderStatusResponse>> = {},
+  mode = 'LIVE'
+): BrokerAdapter {
+  return fakeAdapter({
+    getPositions: async () => positions,
+    getOpenOrders: async () => openOrders,
+    getOrderStatus: async (orderId: string, brokerOrderId: string) => ({
+      order_id: orderId,
+      broker_order_id: brokerOrderId,
+      status: 'PENDING',
+      filled_quantity: 0,
+      remaining_quantity: 0,
+      ...(statuses[brokerOrderId] ?? { error: 'Order not found' }),
+    }),
+  }, { mode });
+}
+
+function refactoredPosition(overrides: Row = {}): Row {
+  return {
+    id: 'pos_1',
+    symbol: 'SPY',
+    status: 'OPEN',
+    side: 'LONG',
+    quantity: 2,
+    entry_price: 2,
+    underlying: 'SPY',
+    strike: 500,
+    expiration: '2026-03-20',
+    option_type: 'CALL',
+    ...overrides,
+  };
+}
+
+function order(overrides: Row = {}): Row {
+  return {
+    id: 'o-1',
+    symbol: 'SPY   260320C00500000',
+    status: 'SUBMITTED',
+    mode: 'LIVE',
+    broker_order_id: 'b-1',
+    filled_quantity: 0,
+    ...overrides,
+  };
+}
+
+function tables(overrides: Record<string, Row[]> = {}): Record<string, Row[]> {
+  return { refactored_positions: [], positions: [], orders: [], risk_violations: [], adapter_logs: [], ...overrides };
+}
+
+describe('reconcileBroker', () => {
+  it('reports nothing when the broker agrees with the database', async () => {
+    const client = fakeClient(tables({
+      refactored_positions: [refactoredPosition(), refactoredPosition({ id: 'pos_2', strike: 480, option_type: 'PUT', side: 'SHORT', quantity: 1 })],
+      // Same contract as pos_1: the kill switch treats it as one position too
+      positions: [{ id: 'legacy-dup', symbol: 'SPY   260320C00500000', quantity: 2, is_closed: false }],
+    }));
+    const adapter = fakeBroker(
+      [{ symbol: 'SPY260320C00500000', quantity: 2 }, { symbol: 'SPY260320P00480000', quantity: -1 }],
+      []
+    );
+
+    const report = await reconcileBroker({ supabase: client as never, adapter, clock: new SimulatedClock(NOW) });
+
+    expect(report.discrepancies).toEqual([]);
+    expect(report.positions_checked).toBe(2);
+    expect(client.tables.risk_violations).toHaveLength(0);
+  });
+
+  it('classifies position differences and flags them as critical', async () => {
+    const client = fakeClient(tables({
+      refactored_positions: [
+        refactoredPosition(),
+        refactoredPosition({ id: 'pos_2', underlying: 'QQQ', strike: 400 }),
+      ],
+    }));
+    const adapter = fakeBroker(
+      [{ symbol: 'SPY260320C00500000', quantity: 1 }, { symbol: 'IWM260320P00200000', quantity: -2 }],
+      []
+    );
+
+    const report = await reconcileBroker({ supabase: client as never, adapter, clock: new SimulatedClock(NOW) });
+
+    expect(report.discrepancies.map(d => [d.kind, d.symbol, d.local_quantity, d.broker_quantity, d.resolution])).toEqual([
+      ['QUANTITY_DRIFT', 'SPY260320C00500000', 2, 1, 'FLAGGED'],
+      ['MISSING_AT_BROKER', 'QQQ260320C00400000', 2, 0, 'FLAGGED'],
+      ['MISSING_LOCALLY', 'IWM260320P00200000', 0, -2, 'FLAGGED'],
+    ]);
+    expect(client.tables.risk_violations).toHaveLength(3);
+    expect(client.tables.risk_violations[0]).toMatchObject({
+      violation_type: 'RECONCILIATION_QUANTITY_DRIFT',
+      severity: 'CRITICAL',
+      action_taken: 'FLAGGED',
+    });
+    // Positions are never changed automatically
+    expect(client.tables.refactored_positions[0].quantity).toBe(2);
+    expect(client.tables.adapter_logs[0]).toMatchObject({ operation: 'reconciliation', status: 'success' });
+  });
+
+  it('repairs stale order statuses without new fills and flags unbooked fills', async () => {
+    const client = fakeClient(tables({
+      orders: [
+        order(),
+        order({ id: 'o-2', broker_order_id: 'b-2' }),
+        order({ id: 'o-3', broker_order_id: 'b-3', status: 'PENDING', filled_quantity: 1 }),
+        order({ id: 'o-4', broker_order_id: 'b-4', status: 'CANCELLED' }),
+        order({ id: 'o-5', broker_order_id: null, status: 'PENDING' }),
+      ],
+    }));
+    const adapter = fakeBroker(
+      [],
+      [
+        { broker_order_id: 'b-3', symbol: 'SPY260320C00500000', side: 'BUY_TO_OPEN', quantity: 3, filled_quantity: 1, status: 'SUBMITTED' },
+        { broker_order_id: 'b-4', symbol: 'SPY260320C00500000', side: 'BUY_TO_OPEN', quantity: 1, filled_quantity: 0, status: 'SUBMITTED' },
+        { broker_order_id: 'b-9', symbol: 'QQQ260320P00400000', side: 'SELL_TO_OPEN', quantity: 5, filled_quantity: 0, status: 'SUBMITTED' },
+      ],
+      {
+        'b-1': { status: 'CANCELLED', filled_quantity: 0 },
+        'b-2': { status: 'FILLED', filled_quantity: 2 },
+      }
+    );
+
+    const report = await reconcileBroker({ supabase: client as never, adapter, clock: new SimulatedClock(NOW) });
+    const byOrder = Object.fromEntries(report.discrepancies.map(d => [d.broker_order_id ?? d.local_ids[0], d]));
+
+    expect(byOrder['b-1']).toMatchObject({ kind: 'STALE_STATUS', safe: true, resolution: 'REPAIRED' });
+    expect(client.tables.orders[0]).toMatchObject({ status: 'CANCELLED', cancelled_at: NOW.toISOString() });
+
+    expect(byOrder['b-2']).toMatchObject({ kind: 'STALE_STATUS', safe: false, resolution: 'FLAGGED' });
+    expect(client.tables.orders[1].status).toBe('SUBMITTED');
+
+    expect(byOrder['b-3']).toMatchObject({ kind: 'STALE_STATUS', safe: true, broker_status: 'SUBMITTED' });
+    expect(byOrder['b-4']).toMatchObject({ kind: 'STALE_STATUS', safe: false, local_status: 'CANCELLED' });
+    expect(byOrder['b-9']).toMatchObject({ kind: 'MISSING_LOCALLY', local_ids: [] });
+    expect(byOrder['o-5']).toMatchObject({ kind: 'MISSING_AT_BROKER', safe: false });
+
+    expect(report.summary).toMatchObject({ total: 6, repaired: 2, flagged: 4, failed: 0 });
+    expect(client.tables.risk_violations.every(v => v.severity === 'WARNING')).toBe(true);
+  });
+
+  it('does not compare positions with orders in flight', async () => {
+    const client = fakeClient(tables({ orders: [order({ broker_order_id: 'b-1' })] }));
+    const adapter = fakeBroker(
+      [{ symbol: 'SPY260320C00500000', quantity: 1 }],
+      [{ broker_order_id: 'b-1', symbol: 'SPY260320C00500000', side: 'BUY_TO_OPEN', quantity: 2, filled_quantity: 0, status: 'SUBMITTED' }]
+    );
+
+    const report = await reconcileBroker({ supabase: client as never, adapter, clock: new SimulatedClock(NOW) });
+
+    expect(report.discrepancies).toEqual([]);
+    expect(report.in_flight_symbols).toEqual(['SPY260320C00500000']);
+  });
+
+  it('only reports in report-only runs and skips paper mode', async () => {
+    const client = fakeClient(tables({ refactored_positions: [refactoredPosition()] }));
+
+    const report = await reconcileBroker({
+      supabase: client as never,
+      adapter: fakeBroker([], []),
+      repair: false,
+      clock: new SimulatedClock(NOW),
+    });
+    expect(report.discrepancies[0]).toMatchObject({ kind: 'MISSING_AT_BROKER', resolution: 'REPORTED' });
+    expect(client.tables.risk_violations).toHaveLength(0);
+    expect(client.tables.adapter_logs).toHaveLength(0);
+
+    const paper = await reconcileBroker({
+      supabase: client as never,
+      adapter: fakeBroker([], [], {}, 'PAPER'),
+      clock: new SimulatedClock(NOW),
+    });
+    expect(paper.skipped).toBeDefined();
+    expect(paper.discrepancies).toEqual([]);
+  });
+});
@@ -0,0 +1,489 @@
+/**
+ * Broker Reconciliation
+ * Diffs the positions and working orders held at the live broker against
+ * refactored_positions, positions and orders.
+ *
+ * Each difference is classified as missing locally, missing at broker,
+ * quantity drift or stale status. Order status changes that carry no new
+ * fills are copied from the broker; anything that would move a position or
+ * P&L is raised as a risk violation for someone to resolve by hand.
+ */
+
+import type { BrokerAdapter, BrokerOpenOrder, BrokerPosition } from "./broker-adapter.ts";
+import type { createDbClient } from "./db-client.ts";
+import type { OrderStatus, TradingMode } from "./types.ts";
+import { generateOccSymbol } from "./types.ts";
+import { WORKING_ORDER_STATUSES } from "./kill-switch.ts";
+import { TERMINAL_ORDER_STATUSES, canTransition, transitionOrder } from "./order-lifecycle.ts";
+import { systemClock, type Clock } from "./refactored/core/clock.ts";
+
+export type DiscrepancyKind = 'MISSING_LOCALLY' | 'MISSING_AT_BROKER' | 'QUANTITY_DRIFT' | 'STALE_STATUS';
+
+// REPORTED: found in a report-only run, nothing written
+export type DiscrepancyResolution = 'REPAIRED' | 'FLAGGED' | 'REPORTED' | 'FAILED';
+
+export interface ReconciliationDiscrepancy {
+  kind: DiscrepancyKind;
+  entity: 'position' | 'order';
+  symbol: string;
+  local_ids: string[]; // Position or order ids on our side
+  broker_order_id?: string;
+  local_quantity: number; // Signed for positions, filled quantity for orders
+  broker_quantity: number;
+  local_status?: string;
+  broker_status?: string;
+  safe: boolean;
+  resolution: DiscrepancyResolution;
+  detail: string;
+  error?: string;
+}
+
+export interface ReconciliationReport {
+  mode: TradingMode;
+  adapter: string;
+  repair: boolean;
+  started_at: string;
+  completed_at: string;
+  skipped?: string;
+  positions_checked: number;
+  orders_checked: number;
+  in_flight_symbols: string[]; // Positions not compared while an order for them is working
+  discrepancies: ReconciliationDiscrepancy[];
+  summary: {
+    total: number;
+    repaired: number;
+    flagged: number;
+    failed: number;
+    by_kind: Record<DiscrepancyKind, number>;
+  };
+}
+
+export interface ReconciliationOptions {
+  supabase: ReturnType<typeof createDbClient>;
+  adapter: BrokerAdapter;
+  repair?: boolean; // Apply safe repairs and record violations; false only reports
+  clock?: Clock;
+}
+
+interface LocalPosition {
+  symbol: string;
+  quantity: number;
+  ids: string[];
+}
+
+interface LocalOrder {
+  id: string;
+  broker_order_id: string | null;
+  symbol: string;
+  status: OrderStatus;
+  filled_quantity: number;
+}
+
+export function normalizeOptionSymbol(symbol: string): string {
+  return symbol.replace(/\s/g, '').toUpperCase();
+}
+
+function toNumber(value: unknown): number {
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : 0;
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+/**
+ * Compare broker and database state, repair what is safe and flag the rest
+ */
+export async function reconcileBroker(options: ReconciliationOptions): Promise<ReconciliationReport> {
+  const { supabase, adapter } = options;
+  const clock = options.clock ?? systemClock;
+  const repair = options.repair ?? true;
+  const startedAt = clock.now().toISOString();
+
+  const report: ReconciliationReport = {
+    mode: adapter.mode,
+    adapter: adapter.name,
+    repair,
+    started_at: startedAt,
+    completed_at: startedAt,
+    positions_checked: 0,
+    orders_checked: 0,
+    in_flight_symbols: [],
+    discrepancies: [],
+    summary: emptySummary(),
+  };
+
+  if (adapter.mode !== 'LIVE') {
+    report.skipped = 'Reconciliation compares against a live broker; PAPER positions exist only in the database';
+    return report;
+  }
+
+  const [brokerPositions, brokerOrders, localPositions, localOrders] = await Promise.all([
+    adapter.getPositions(),
+    adapter.getOpenOrders(),
+    loadLocalPositions(supabase),
+    loadWorkingOrders(supabase, adapter.mode),
+  ]);
+
+  const orderDiscrepancies = await diffOrders(supabase, adapter, localOrders, brokerOrders);
+
+  // A position with an order still working is expected to disagree
+  const inFlight = new Set([
+    ...localOrders.map(order => order.symbol),
+    ...brokerOrders.map(order => normalizeOptionSymbol(order.symbol)),
+  ]);
+  const positionDiscrepancies = diffPositions(localPositions, brokerPositions, inFlight);
+
+  report.positions_checked = new Set([
+    ...localPositions.map(position => position.symbol),
+    ...brokerPositions.map(position => normalizeOptionSymbol(position.symbol)),
+  ]).size;
+  report.orders_checked = localOrders.length + brokerOrders.length;
+  report.in_flight_symbols = [...inFlight].sort();
+  report.discrepancies = [...positionDiscrepancies, ...orderDiscrepancies];
+
+  if (repair) {
+    await repairOrders(supabase, report.discrepancies, clock);
+    await flagDiscrepancies(supabase, report.discrepancies, clock);
+  }
+
+  report.completed_at = clock.now().toISOString();
+  report.summary = summarize(report.discrepancies);
+
+  if (repair) {
+    await supabase.from('adapter_logs').insert({
+      adapter_name: 'reconciliation',
+      operation: 'reconciliation',
+      correlation_id: `reconciliation-${clock.nowMs()}`,
+      status: report.summary.failed === 0 ? 'success' : 'failed',
+      request_payload: { mode: adapter.mode, adapter: adapter.name },
+      response_payload: report,
+    });
+  }
+
+  return report;
+}
+
+/**
+ * Open positions from both books, netted per contract. Like the kill switch,
+ * a legacy row for a contract the refactored book holds is the same position.
+ */
+async function loadLocalPositions(supabase: ReturnType<typeof createDbClient>): Promise<LocalPosition[]> {
+  const [{ data: refactoredRows, error: refactoredError }, { data: legacyRows, error: legacyError }] =
+    await Promise.all([
+      supabase.from('refactored_positions').select('*').eq('status', 'OPEN'),
+      supabase.from('positions').select('*').eq('is_closed', false),
+    ]);
+
+  if (refactoredError || legacyError) {
+    throw new Error(`Failed to load open positions: ${(refactoredError || legacyError).message}`);
+  }
+
+  const bySymbol = new Map<string, LocalPosition>();
+  const add = (symbol: string, quantity: number, id: string) => {
+    const position = bySymbol.get(symbol) ?? { symbol, quantity: 0, ids: [] };
+    position.quantity += quantity;
+    position.ids.push(id);
+    bySymbol.set(symbol, position);
+  };
+
+  for (const row of refactoredRows || []) {
+    if (!row.underlying || !row.strike || !row.expiration || !row.option_type) {
+      console.warn(`[Reconciliation] Refactored position ${row.id} has no contract details - not compared`);
+      continue;
+    }
+    const symbol = normalizeOptionSymbol(
+      generateOccSymbol(row.underlying, String(row.expiration).slice(0, 10), row.option_type, toNumber(row.strike))
+    );
+    add(symbol, (row.side === 'SHORT' ? -1 : 1) * toNumber(row.quantity), row.id);
+  }
+
+  const refactoredSymbols = new Set(bySymbol.keys());
+  for (const row of legacyRows || []) {
+    const symbol = normalizeOptionSymbol(row.symbol);
+    if (!refactoredSymbols.has(symbol)) {
+      add(symbol, toNumber(row.quantity), row.id);
+    }
+  }
+
+  return [...bySymbol.values()];
+}
+
+async function loadWorkingOrders(
+  supabase: ReturnType<typeof createDbClient>,
+  mode: TradingMode
+): Promise<LocalOrder[]> {
+  const { data, error } = await supabase
+    .from('orders')
+    .select('*')
+    .eq('mode', mode)
+    .in('status', WORKING_ORDER_STATUSES);
+
+  if (error) {
+    throw new Error(`Failed to load working orders: ${error.message}`);
+  }
+
+  return (data || []).map((row: Record<string, unknown>) => ({
+    id: row.id as string,
+    broker_order_id: (row.broker_order_id as string | null) ?? null,
+    symbol: normalizeOptionSymbol(String(row.symbol)),
+    status: row.status as OrderStatus,
+    filled_quantity: toNumber(row.filled_quantity),
+  }));
+}
+
+function diffPositions(
+  local: LocalPosition[],
+  broker: BrokerPosition[],
+  inFlight: Set<string>
+): ReconciliationDiscrepancy[] {
+  const brokerBySymbol = new Map<string, number>();
+  for (const position of broker) {
+    const symbol = normalizeOptionSymbol(position.symbol);
+    brokerBySymbol.set(symbol, (brokerBySymbol.get(symbol) ?? 0) + position.quantity);
+  }
+  const localBySymbol = new Map(local.map(position => [position.symbol, position]));
+
+  const discrepancies: ReconciliationDiscrepancy[] = [];
+  for (const symbol of new Set([...localBySymbol.keys(), ...brokerBySymbol.keys()])) {
+    if (inFlight.has(symbol)) continue;
+
+    const localQuantity = localBySymbol.get(symbol)?.quantity ?? 0;
+    const brokerQuantity = brokerBySymbol.get(symbol) ?? 0;
+    if (localQuantity === brokerQuantity) continue;
+
+    const kind: DiscrepancyKind = brokerQuantity === 0
+      ? 'MISSING_AT_BROKER'
+      : localQuantity === 0 ? 'MISSING_LOCALLY' : 'QUANTITY_DRIFT';
+
+    discrepancies.push({
+      kind,
+      entity: 'position',
+      symbol,
+      local_ids: localBySymbol.get(symbol)?.ids ?? [],
+      local_quantity: localQuantity,
+      broker_quantity: brokerQuantity,
+      // Closing or booking a position needs a price we do not have
+      safe: false,
+      resolution: 'REPORTED',
+      detail: `Database holds ${localQuantity}, broker holds ${brokerQuantity}`,
+    });
+  }
+
+  return discrepancies;
+}
+
+async function diffOrders(
+  supabase: ReturnType<typeof createDbClient>,
+  adapter: BrokerAdapter,
+  local: LocalOrder[],
+  broker: BrokerOpenOrder[]
+): Promise<ReconciliationDiscrepancy[]> {
+  const discrepancies: ReconciliationDiscrepancy[] = [];
+  const brokerById = new Map(broker.map(order => [order.broker_order_id, order]));
+  const matched = new Set<string>();
+
+  for (const order of local) {
+    const base = {
+      entity: 'order' as const,
+      symbol: order.symbol,
+      local_ids: [order.id],
+      local_quantity: order.filled_quantity,
+      local_status: order.status,
+      resolution: 'REPORTED' as const,
+    };
+
+    if (!order.broker_order_id) {
+      discrepancies.push({
+        ...base,
+        kind: 'MISSING_AT_BROKER',
+        broker_quantity: 0,
+        safe: false,
+        detail: 'Working order was never acknowledged by the broker',
+      });
+      continue;
+    }
+
+    const open = brokerById.get(order.broker_order_id);
+    if (open) {
+      matched.add(open.broker_order_id);
+      if (open.filled_quantity !== order.filled_quantity) {
+        discrepancies.push({
+          ...base,
+          kind: 'QUANTITY_DRIFT',
+          broker_order_id: open.broker_order_id,
+          broker_quantity: open.filled_quantity,
+          broker_status: open.status,
+          safe: false,
+          detail: `Filled ${order.filled_quantity} locally, ${open.filled_quantity} at broker`,
+        });
+      } else if (open.status !== order.status) {
+        discrepancies.push({
+          ...base,
+          kind: 'STALE_STATUS',
+          broker_order_id: open.broker_order_id,
+          broker_quantity: open.filled_quantity,
+          broker_status: open.status,
+          // Copying the broker's status back would be a regression otherwise
+          safe: canTransition(order.status, open.status),
+          detail: `Status ${order.status} locally, ${open.status} at broker`,
+        });
+      }
+      continue;
+    }
+
+    // No longer working at the broker: find out how it ended
+    const status = await adapter.getOrderStatus(order.id, order.broker_order_id);
+    if (status.error) {
+      discrepancies.push({
+        ...base,
+        kind: 'MISSING_AT_BROKER',
+        broker_order_id: order.broker_order_id,
+        broker_quantity: 0,
+        safe: false,
+        detail: `Order not found at broker: ${status.error}`,
+      });
+      continue;
+    }
+    if (!TERMINAL_ORDER_STATUSES.includes(status.status)) {
+      continue; // Placed or changed since the open-order snapshot
+    }
+
+    const unbookedFills = status.filled_quantity > order.filled_quantity;
+    discrepancies.push({
+      ...base,
+      kind: 'STALE_STATUS',
+      broker_order_id: order.broker_order_id,
+      broker_quantity: status.filled_quantity,
+      broker_status: status.status,
+      safe: !unbookedFills && canTransition(order.status, status.status),
+      detail: unbookedFills
+        ? `${status.status} at broker with ${status.filled_quantity - order.filled_quantity} fill(s) not booked`
+        : `Still ${order.status} locally, ${status.status} at broker`,
+    });
+  }
+
+  // Orders working at the broker that no local working order accounts for
+  const unmatched = broker.filter(order => !matched.has(order.broker_order_id));
+  if (unmatched.length > 0) {
+    const { data: known, error } = await supabase
+      .from('orders')
+      .select('*')
+      .in('broker_order_id', unmatched.map(order => order.broker_order_id));
+
+    if (error) {
+      throw new Error(`Failed to load orders: ${error.message}`);
+    }
+
+    const knownById = new Map((known || []).map((row: Record<string, unknown>) => [row.broker_order_id, row]));
+    for (const order of unmatched) {
+      const row = knownById.get(order.broker_order_id) as Record<string, unknown> | undefined;
+      discrepancies.push({
+        kind: row ? 'STALE_STATUS' : 'MISSING_LOCALLY',
+        entity: 'order',
+        symbol: normalizeOptionSymbol(order.symbol),
+        local_ids: row ? [row.id as string] : [],
+        broker_order_id: order.broker_order_id,
+        local_quantity: row ? toNumber(row.filled_quantity) : 0,
+        broker_quantity: order.filled_quantity,
+        local_status: row ? String(row.status) : undefined,
+        broker_status: order.status,
+        safe: false,
+        resolution: 'REPORTED',
+        detail: row
+          ? `${row.status} locally but still ${order.status} at broker`
+          : `${order.side} ${order.quantity} working at broker with no local order`,
+      });
+    }
+  }
+
+  return discrepancies;
+}
+
+/**
+ * Copy terminal or working status from the broker when no fills changed
+ */
+async function repairOrders(
+  supabase: ReturnType<typeof createDbClient>,
+  discrepancies: ReconciliationDiscrepancy[],
+  clock: Clock
+): Promise<void> {
+  for (const discrepancy of discrepancies) {
+    if (!discrepancy.safe || discrepancy.entity !== 'order' || !discrepancy.broker_status) continue;
+
+    const { error } = await transitionOrder(supabase, discrepancy.local_ids[0], {
+      status: discrepancy.broker_status as OrderStatus,
+      source: 'reconciliation',
+      reason: `Status reconciled from broker (was ${discrepancy.local_status})`,
+      fields: { error_message: `Status reconciled from broker (was ${discrepancy.local_status})` },
+    }, clock);
+
+    if (error) {
+      discrepancy.resolution = 'FAILED';
+      discrepancy.error = error;
+    } else {
+      discrepancy.resolution = 'REPAIRED';
+    }
+  }
+}
+
+/**
+ * One risk_violations row per unsafe difference; positions are critical
+ */
+async function flagDiscrepancies(
+  supabase: ReturnType<typeof createDbClient>,
+  discrepancies: ReconciliationDiscrepancy[],
+  clock: Clock
+): Promise<void> {
+  const unsafe = discrepancies.filter(discrepancy => !discrepancy.safe);
+  if (unsafe.length === 0) return;
+
+  const createdAt = clock.now().toISOString();
+  try {
+    const { error } = await supabase
+      .from('risk_violations')
+      .insert(unsafe.map(discrepancy => ({
+        order_id: discrepancy.entity === 'order' ? discrepancy.local_ids[0] ?? null : null,
+        violation_type: `RECONCILIATION_${discrepancy.kind}`,
+        rule_violated: `broker_reconciliation: ${discrepancy.symbol} ${discrepancy.detail}`,
+        current_value: discrepancy.local_quantity,
+        limit_value: discrepancy.broker_quantity,
+        severity: discrepancy.entity === 'position' ? 'CRITICAL' : 'WARNING',
+        action_taken: 'FLAGGED',
+        created_at: createdAt,
+      })));
+
+    if (error) {
+      throw new Error(error.message);
+    }
+    unsafe.forEach(discrepancy => { discrepancy.resolution = 'FLAGGED'; });
+  } catch (error) {
+    unsafe.forEach(discrepancy => {
+      discrepancy.resolution = 'FAILED';
+      discrepancy.error = `Failed to record risk violation: ${errorMessage(error)}`;
+    });
+  }
+}
+
+function emptySummary(): ReconciliationReport['summary'] {
+  return {
+    total: 0,
+    repaired: 0,
+    flagged: 0,
+    failed: 0,
+    by_kind: { MISSING_LOCALLY: 0, MISSING_AT_BROKER: 0, QUANTITY_DRIFT: 0, STALE_STATUS: 0 },
+  };
+}
+
+function summarize(discrepancies: ReconciliationDiscrepancy[]): ReconciliationReport['summary'] {
+  const summary = emptySummary();
+  for (const discrepancy of discrepancies) {
+    summary.total++;
+    summary.by_kind[discrepancy.kind]++;
+    if (discrepancy.resolution === 'REPAIRED') summary.repaired++;
+    if (discrepancy.resolution === 'FLAGGED') summary.flagged++;
+    if (discrepancy.resolution === 'FAILED') summary.failed++;
+  }
+  return summary;
+}
@@ -170,6 +170,38 @@ class QueryBuilder {
  */
 export function createDbClient() {
   return {
+    /**
+     * Call a Postgres function with named arguments.
+     * Scalar results are unwrapped like Supabase's rpc().
+     */
+    rpc: async (functionName: string, params: Record<string, unknown> = {}) => {
+      const client = await getClient();
+      const names = Object.keys(params);
+      const args = names.map((name, index) => `${name} => $${index + 1}`).join(", ");
+
+      try {
+        const result = await client.queryObject(
+          `SELECT * FROM ${functionName}(${args})`,
+          names.map(name => params[name])
+        );
+        const rows = result.rows as Record<string, unknown>[];
+        const isScalar = rows.length === 1 && Object.keys(rows[0]).length === 1;
+
+        return {
+          data: isScalar ? Object.values(rows[0])[0] : rows,
+          error: null,
+        };
+      } catch (error) {
+        console.error("RPC error:", error);
+        return {
+          data: null,
+          error: {
+            message: error.message,
+            details: error,
+          },
+        };
+      }
+    },
     from: (tableName: string) => {
       return {
         select: (fields?: string) => {
@@ -23,6 +23,7 @@ import {
   calculateVolatilityAdjustedStop,
   evaluateEnhancedExit,
 } from "./enhanced-exit/index.ts";
+import { marketCalendar } from "./market-calendar.ts";
 
 export type ExitReason = 
   | 'PROFIT_TARGET'
@@ -121,10 +122,7 @@ const DEFAULT_EXIT_RULES: ExitRuleConfig = {
  * Calculate days to expiration
  */
 function calculateDTE(expiration: string): number {
-  const expDate = new Date(expiration);
-  const now = new Date();
-  const diffTime = expDate.getTime() - now.getTime();
-  return Math.ceil(diffTime / (1000 * 60 * 60 * 24));
+  return marketCalendar.daysToExpiration(expiration, new Date());
 }
 
 /**
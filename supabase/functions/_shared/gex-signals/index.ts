@@ -23,11 +23,22 @@ export { evaluateEntry } from './entry-decision-service.ts';
 export { evaluateHold } from './hold-decision-service.ts';
 export { evaluateExit } from './exit-decision-service.ts';
 
+// Strategy Builder
+export {
+  buildStrategy,
+  calculatePayoffProfile,
+  toMultiLegOrderRequest,
+  DEFAULT_STRATEGY_BUILDER_CONFIG,
+} from './strategy-builder.ts';
+
 // Paper Trading
 export {
   executePaperEntry,
+  executePaperStrategyEntry,
+  openFilledPaperStrategy,
   executePaperExit,
   updatePaperPosition,
   getOpenPaperPositions,
   getPaperTradingStats,
 } from './paper-trading-service.ts';
+export type { PaperStrategyEntryInput } from './paper-trading-service.ts';
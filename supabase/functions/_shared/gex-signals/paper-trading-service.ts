@@ -5,6 +5,7 @@
  */
 
 import { createDbClient } from '../db-client.ts';
+import type { MultiLegOrderResult } from '../types.ts';
 
 const createServiceClient = createDbClient;
 import type { 
@@ -13,6 +14,7 @@ import type {
   ExitDecision,
   PaperTradingStats,
   MarketRegime,
+  BuiltStrategy,
 } from './types.ts';
 
 interface PaperEntryInput {
@@ -135,6 +137,120 @@ export async function executePaperEntry(input: PaperEntryInput): Promise<{ succe
   return { success: true, tradeId: data.id };
 }
 
+export interface PaperStrategyEntryInput {
+  strategy: BuiltStrategy;
+  quantity: number;
+  gexSignals: GEXSignalBundle;
+  signalId?: string;
+  vix?: number;
+}
+
+/**
+ * Execute a multi-leg (or single-leg) strategy from the strategy builder.
+ * Each leg is stored as a paper trade linked by strategy_group_id.
+ */
+export async function executePaperStrategyEntry(
+  input: PaperStrategyEntryInput
+): Promise<{ success: boolean; strategyGroupId?: string; tradeIds?: string[]; error?: string }> {
+  const supabase = createServiceClient();
+  
+  const { strategy, quantity, gexSignals, signalId, vix } = input;
+  const strategyGroupId = crypto.randomUUID();
+  
+  const rows = strategy.legs.map((leg, index) => ({
+    ticker: strategy.underlying,
+    symbol: leg.quote.symbol,
+    strike: leg.quote.strike,
+    expiration: leg.quote.expiration,
+    option_type: leg.quote.option_type,
+    side: leg.side,
+    quantity: leg.ratio * quantity,
+    entry_price: leg.price,
+    entry_underlying_price: strategy.underlyingPrice,
+    signal_id: signalId,
+    
+    strategy_group_id: strategyGroupId,
+    strategy_type: strategy.strategyType,
+    leg_number: index + 1,
+    
+    // Entry context snapshot
+    entry_market_regime: gexSignals.marketRegime.regime,
+    entry_dealer_position: gexSignals.dealerPosition,
+    entry_zero_gamma: gexSignals.zeroGammaBreakout.zeroGammaLevel,
+    entry_max_pain: gexSignals.maxPainMagnet.maxPainStrike,
+    entry_pc_ratio: gexSignals.pcRatio.combinedRatio,
+    entry_vix: vix,
+    entry_context: {
+      gexBias: gexSignals.summary.overallBias,
+      regimeConfidence: gexSignals.marketRegime.confidence,
+      action: strategy.action,
+      netPrice: strategy.netPrice,
+      priceEffect: strategy.priceEffect,
+      maxProfit: strategy.maxProfit,
+      maxLoss: strategy.maxLoss,
+      breakevens: strategy.breakevens,
+    },
+    
+    // Initial state
+    status: 'OPEN',
+    current_price: leg.price,
+    current_underlying_price: strategy.underlyingPrice,
+    highest_price_since_entry: leg.price,
+    lowest_price_since_entry: leg.price,
+    
+    // Greeks at entry
+    entry_delta: leg.quote.delta,
+    entry_gamma: leg.quote.gamma,
+    entry_theta: leg.quote.theta,
+    entry_iv: leg.quote.implied_volatility,
+    current_delta: leg.quote.delta,
+    current_gamma: leg.quote.gamma,
+    current_theta: leg.quote.theta,
+    current_iv: leg.quote.implied_volatility,
+    
+    unrealized_pnl: 0,
+    unrealized_pnl_pct: 0,
+  }));
+  
+  const { data, error } = await supabase
+    .from('paper_trades')
+    .insert(rows);
+  
+  if (error) {
+    console.error('[PaperTrading] Strategy entry failed:', error);
+    return { success: false, error: error.message };
+  }
+  
+  await updateAccountStats(supabase, 'entry');
+  
+  const tradeIds = ((data as { id: string }[] | null) || []).map(row => row.id);
+  console.log(`[PaperTrading] Strategy entry executed: ${strategy.strategyType} ${strategyGroupId} (${tradeIds.length} legs)`);
+  return { success: true, strategyGroupId, tradeIds };
+}
+
+/**
+ * Open the paper position of a filled multi-leg strategy order, at the
+ * leg fill prices. Called when the order fills on submission and by
+ * poll-orders when a resting order fills later.
+ */
+export async function openFilledPaperStrategy(
+  input: PaperStrategyEntryInput,
+  filled: MultiLegOrderResult
+): Promise<{ success: boolean; strategyGroupId?: string; tradeIds?: string[]; error?: string }> {
+  const { strategy } = input;
+  return executePaperStrategyEntry({
+    ...input,
+    strategy: {
+      ...strategy,
+      legs: strategy.legs.map((leg, index) => ({
+        ...leg,
+        price: filled.leg_results[index]?.avg_fill_price ?? leg.price,
+      })),
+      netPrice: filled.net_fill_price ?? strategy.netPrice,
+    },
+  });
+}
+
 /**
  * Execute paper trade exit
  */
@@ -163,10 +279,11 @@ export async function executePaperExit(
   const exitQuantity = Math.ceil(trade.quantity * (exitQuantityPct / 100));
   const remainingQuantity = trade.quantity - exitQuantity;
   
-  // Calculate P&L
-  const pnlPerContract = (currentPrice - trade.entry_price) * 100; // Options multiplier
+  // Calculate P&L (short legs from strategy entries profit when price falls)
+  const direction = trade.side === 'SELL_TO_OPEN' ? -1 : 1;
+  const pnlPerContract = direction * (currentPrice - trade.entry_price) * 100; // Options multiplier
   const exitPnl = pnlPerContract * exitQuantity;
-  const exitPnlPct = ((currentPrice - trade.entry_price) / trade.entry_price) * 100;
+  const exitPnlPct = direction * ((currentPrice - trade.entry_price) / trade.entry_price) * 100;
   
   // Calculate time in trade
   const entryTime = new Date(trade.entry_timestamp).getTime();
@@ -174,8 +291,12 @@ export async function executePaperExit(
   const hoursInTrade = (exitTime - entryTime) / (1000 * 60 * 60);
   
   // Calculate excursions
-  const maxFavorableExcursion = trade.highest_price_since_entry - trade.entry_price;
-  const maxAdverseExcursion = trade.entry_price - trade.lowest_price_since_entry;
+  const maxFavorableExcursion = direction === 1
+    ? trade.highest_price_since_entry - trade.entry_price
+    : trade.entry_price - trade.lowest_price_since_entry;
+  const maxAdverseExcursion = direction === 1
+    ? trade.entry_price - trade.lowest_price_since_entry
+    : trade.highest_price_since_entry - trade.entry_price;
   
   if (isPartialExit && remainingQuantity > 0) {
     // Partial exit - update trade
@@ -262,14 +383,15 @@ export async function updatePaperPosition(
   
   const { data: trade } = await supabase
     .from('paper_trades')
-    .select('entry_price, highest_price_since_entry, lowest_price_since_entry, quantity')
+    .select('entry_price, highest_price_since_entry, lowest_price_since_entry, quantity, side')
     .eq('id', tradeId)
     .single();
   
   if (!trade) return;
   
-  const unrealizedPnl = (currentPrice - trade.entry_price) * trade.quantity * 100;
-  const unrealizedPnlPct = ((currentPrice - trade.entry_price) / trade.entry_price) * 100;
+  const direction = trade.side === 'SELL_TO_OPEN' ? -1 : 1;
+  const unrealizedPnl = direction * (currentPrice - trade.entry_price) * trade.quantity * 100;
+  const unrealizedPnlPct = direction * ((currentPrice - trade.entry_price) / trade.entry_price) * 100;
   
   await supabase
     .from('paper_trades')
@@ -0,0 +1,131 @@
+/**
+ * Tests for building executable strategies from GEX TradeActions
+ */
+
+import { describe, it, expect } from 'vitest';
+import * as fc from 'fast-check';
+import { buildStrategy, calculatePayoffProfile, toMultiLegOrderRequest } from './strategy-builder.ts';
+import { validateMultiLegOrder } from '../multi-leg-orders.ts';
+import type { OptionsChain, OptionsQuote } from '../market-data/types.ts';
+import type { TradeAction } from './types.ts';
+
+const EXP = '2026-03-20';
+const SPOT = 500;
+
+// Toy chain: strikes 470..530 by 5, delta falls off linearly from 0.5 at the money
+function quote(optionType: 'CALL' | 'PUT', strike: number): OptionsQuote {
+  const moneyness = optionType === 'CALL' ? SPOT - strike : strike - SPOT;
+  const absDelta = Math.min(0.95, Math.max(0.05, 0.5 + moneyness / 60));
+  const mid = Math.max(0.1, Math.round((Math.max(moneyness, 0) + 6 * absDelta) * 100) / 100);
+  return {
+    symbol: `SPY${EXP}${optionType[0]}${strike}`,
+    underlying: 'SPY',
+    strike,
+    expiration: EXP,
+    option_type: optionType,
+    bid: mid - 0.05,
+    ask: mid + 0.05,
+    mid,
+    last: mid,
+    mark: mid,
+    volume: 100,
+    open_interest: 1000,
+    delta: optionType === 'CALL' ? absDelta : -absDelta,
+    gamma: 0.01,
+    theta: -0.05,
+    vega: 0.1,
+    implied_volatility: 0.2,
+    underlying_price: SPOT,
+  } as OptionsQuote;
+}
+
+const strikes = Array.from({ length: 13 }, (_, i) => 470 + i * 5);
+const chain: OptionsChain = {
+  underlying: 'SPY',
+  underlying_price: SPOT,
+  expirations: [EXP],
+  strikes,
+  calls: strikes.map(s => quote('CALL', s)),
+  puts: strikes.map(s => quote('PUT', s)),
+  quote_time: '2026-03-02T15:00:00.000Z',
+  provider: 'tradier',
+};
+
+describe('buildStrategy', () => {
+  it('builds an iron condor with delta-selected shorts and defined risk', () => {
+    const { success, strategy } = buildStrategy('IRON_CONDOR', chain);
+
+    expect(success).toBe(true);
+    expect(strategy!.strategyType).toBe('IRON_CONDOR');
+    expect(strategy!.legs.map(l => [l.quote.option_type, l.quote.strike, l.side])).toEqual([
+      ['PUT', 475, 'BUY_TO_OPEN'],
+      ['PUT', 480, 'SELL_TO_OPEN'],
+      ['CALL', 520, 'SELL_TO_OPEN'],
+      ['CALL', 525, 'BUY_TO_OPEN'],
+    ]);
+    expect(strategy!.priceEffect).toBe('CREDIT');
+    // Max loss = (wing width - credit) * 100; max profit = credit * 100
+    expect(strategy!.maxLoss).toBeCloseTo((5 - strategy!.netPrice) * 100, 6);
+    expect(strategy!.maxProfit).toBeCloseTo(strategy!.netPrice * 100, 6);
+    expect(strategy!.breakevens).toEqual([480 - strategy!.netPrice, 520 + strategy!.netPrice]);
+  });
+
+  it('marks short straddles as unlimited loss and long straddles as unlimited profit', () => {
+    const short = buildStrategy('SELL_STRADDLE', chain).strategy!;
+    const long = buildStrategy('LONG_STRADDLE', chain).strategy!;
+
+    expect(short.legs.every(l => l.quote.strike === SPOT && l.side === 'SELL_TO_OPEN')).toBe(true);
+    expect(short.maxLoss).toBeNull();
+    expect(long.maxProfit).toBeNull();
+    expect(long.maxLoss).toBeCloseTo(long.netPrice * 100, 6);
+    expect(long.breakevens).toEqual([SPOT - long.netPrice, SPOT + long.netPrice]);
+  });
+
+  it('turns SELL_CALLS into a bear call credit spread', () => {
+    const strategy = buildStrategy('SELL_CALLS', chain).strategy!;
+
+    expect(strategy.strategyType).toBe('VERTICAL');
+    expect(strategy.legs[0].side).toBe('SELL_TO_OPEN');
+    expect(strategy.legs[1].quote.strike).toBe(strategy.legs[0].quote.strike + 5);
+    expect(strategy.priceEffect).toBe('CREDIT');
+  });
+
+  it('declines HOLD and NO_TRADE', () => {
+    expect(buildStrategy('HOLD', chain).success).toBe(false);
+    expect(buildStrategy('NO_TRADE', chain).success).toBe(false);
+  });
+
+  it('Property: every multi-leg build produces a valid order request', () => {
+    const actions: TradeAction[] = [
+      'SELL_CALLS', 'SELL_PUTS', 'SELL_STRADDLE', 'SELL_STRANGLE', 'IRON_CONDOR', 'LONG_STRADDLE',
+    ];
+    fc.assert(
+      fc.property(
+        fc.constantFrom(...actions),
+        fc.integer({ min: 1, max: 20 }),
+        fc.double({ min: 0.1, max: 0.45, noNaN: true }),
+        (action, quantity, shortDelta) => {
+          const result = buildStrategy(action, chain, { config: { shortDelta } });
+          if (!result.success) return;
+
+          const request = toMultiLegOrderRequest(result.strategy!, quantity);
+          expect(request).not.toBeNull();
+          expect(validateMultiLegOrder(request!)).toEqual([]);
+        }
+      )
+    );
+  });
+});
+
+describe('calculatePayoffProfile', () => {
+  it('prices a long call with unlimited upside and premium-limited loss', () => {
+    const profile = calculatePayoffProfile([
+      { quote: quote('CALL', 500), side: 'BUY_TO_OPEN', ratio: 1, price: 3 },
+    ]);
+
+    expect(profile.netSigned).toBe(3);
+    expect(profile.maxProfit).toBeNull();
+    expect(profile.maxLoss).toBe(300);
+    expect(profile.breakevens).toEqual([503]);
+  });
+});
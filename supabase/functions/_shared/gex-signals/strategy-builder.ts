@@ -0,0 +1,297 @@
+/**
+ * Strategy Builder
+ *
+ * Turns a GEX TradeAction recommendation plus the current options chain into
+ * concrete legs (chosen by delta / wing-width rules) with max-loss,
+ * max-profit and breakeven math.
+ */
+
+import type { OptionsChain, OptionsQuote } from '../market-data/types.ts';
+import type { MultiLegOrderRequest, TimeInForce } from '../types.ts';
+import type {
+  TradeAction,
+  BuiltStrategy,
+  BuiltStrategyType,
+  StrategyBuilderConfig,
+  StrategyBuildResult,
+  StrategyLeg,
+} from './types.ts';
+
+const CONTRACT_MULTIPLIER = 100;
+
+export const DEFAULT_STRATEGY_BUILDER_CONFIG: StrategyBuilderConfig = {
+  longDelta: 0.50,
+  shortDelta: 0.16,
+  creditSpreadShortDelta: 0.30,
+  wingWidth: 5,
+  minOptionPrice: 0.05,
+};
+
+/**
+ * Per-share price used for a quote: mid, falling back to bid/ask midpoint, mark, last
+ */
+export function quotePrice(quote: OptionsQuote): number {
+  if (quote.mid > 0) return quote.mid;
+  if (quote.bid > 0 && quote.ask > 0) return (quote.bid + quote.ask) / 2;
+  return quote.mark || quote.last || 0;
+}
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function selectByDelta(quotes: OptionsQuote[], targetDelta: number): OptionsQuote | null {
+  const withDelta = quotes.filter(q => q.delta !== 0 && Number.isFinite(q.delta));
+  if (withDelta.length === 0) return null;
+
+  return withDelta.reduce((best, q) =>
+    Math.abs(Math.abs(q.delta) - targetDelta) < Math.abs(Math.abs(best.delta) - targetDelta) ? q : best
+  );
+}
+
+function selectAtm(quotes: OptionsQuote[], underlyingPrice: number): OptionsQuote | null {
+  if (quotes.length === 0) return null;
+
+  return quotes.reduce((best, q) =>
+    Math.abs(q.strike - underlyingPrice) < Math.abs(best.strike - underlyingPrice) ? q : best
+  );
+}
+
+/**
+ * Protective wing further out-of-the-money than the short strike
+ * (direction 1 = higher strikes, -1 = lower strikes), closest to the target width
+ */
+function selectWing(
+  quotes: OptionsQuote[],
+  shortStrike: number,
+  width: number,
+  direction: 1 | -1
+): OptionsQuote | null {
+  const candidates = quotes.filter(q => (q.strike - shortStrike) * direction > 0);
+  if (candidates.length === 0) return null;
+
+  return candidates.reduce((best, q) =>
+    Math.abs(Math.abs(q.strike - shortStrike) - width) < Math.abs(Math.abs(best.strike - shortStrike) - width) ? q : best
+  );
+}
+
+function leg(quote: OptionsQuote, side: StrategyLeg['side']): StrategyLeg {
+  return { quote, side, ratio: 1, price: round2(quotePrice(quote)) };
+}
+
+/**
+ * Per-share payoff at expiration for the given legs, net of the premium paid/received
+ */
+function payoffAt(legs: StrategyLeg[], netSigned: number, price: number): number {
+  const intrinsic = legs.reduce((sum, l) => {
+    const value = l.quote.option_type === 'CALL'
+      ? Math.max(price - l.quote.strike, 0)
+      : Math.max(l.quote.strike - price, 0);
+    return sum + (l.side === 'BUY_TO_OPEN' ? 1 : -1) * l.ratio * value;
+  }, 0);
+  return intrinsic - netSigned;
+}
+
+/**
+ * Max profit, max loss and breakevens from the piecewise-linear expiration payoff.
+ * Calendars span two expirations, so their payoff is not evaluated here.
+ */
+export function calculatePayoffProfile(
+  legs: StrategyLeg[]
+): { netSigned: number; maxProfit: number | null; maxLoss: number | null; breakevens: number[] } {
+  const netSigned = round2(legs.reduce(
+    (sum, l) => sum + (l.side === 'BUY_TO_OPEN' ? 1 : -1) * l.ratio * l.price,
+    0
+  ));
+
+  const strikes = [...new Set(legs.map(l => l.quote.strike))].sort((a, b) => a - b);
+  const points = [0, ...strikes].map(x => ({ x, y: payoffAt(legs, netSigned, x) }));
+
+  // Slope above the highest strike comes from calls only
+  const upperSlope = legs.reduce(
+    (sum, l) => sum + (l.quote.option_type === 'CALL' ? (l.side === 'BUY_TO_OPEN' ? 1 : -1) * l.ratio : 0),
+    0
+  );
+
+  const values = points.map(p => p.y);
+  const maxValue = Math.max(...values);
+  const minValue = Math.min(...values);
+
+  const breakevens: number[] = [];
+  for (let i = 0; i < points.length - 1; i++) {
+    const a = points[i];
+    const b = points[i + 1];
+    if (a.y === 0 && a.x > 0) breakevens.push(a.x);
+    if ((a.y < 0 && b.y > 0) || (a.y > 0 && b.y < 0)) {
+      breakevens.push(a.x + (0 - a.y) * (b.x - a.x) / (b.y - a.y));
+    }
+  }
+  const last = points[points.length - 1];
+  if (last.y === 0) {
+    breakevens.push(last.x);
+  } else if (upperSlope !== 0 && -last.y / upperSlope > 0) {
+    breakevens.push(last.x - last.y / upperSlope);
+  }
+
+  return {
+    netSigned,
+    maxProfit: upperSlope > 0 ? null : round2(Math.max(maxValue, 0) * CONTRACT_MULTIPLIER),
+    maxLoss: upperSlope < 0 ? null : round2(Math.max(-minValue, 0) * CONTRACT_MULTIPLIER),
+    breakevens: [...new Set(breakevens.map(round2))],
+  };
+}
+
+/**
+ * Build concrete legs for a TradeAction from the options chain
+ */
+export function buildStrategy(
+  action: TradeAction,
+  chain: OptionsChain,
+  options: { expiration?: string; config?: Partial<StrategyBuilderConfig> } = {}
+): StrategyBuildResult {
+  const config = { ...DEFAULT_STRATEGY_BUILDER_CONFIG, ...options.config };
+
+  if (action === 'HOLD' || action === 'NO_TRADE') {
+    return { success: false, error: `No strategy for ${action}` };
+  }
+
+  const expiration = options.expiration ??
+    [...new Set([...chain.calls, ...chain.puts].map(q => q.expiration))].sort()[0];
+  if (!expiration) {
+    return { success: false, error: 'Options chain is empty' };
+  }
+
+  const tradable = (q: OptionsQuote) => q.expiration === expiration && quotePrice(q) >= config.minOptionPrice;
+  const calls = chain.calls.filter(tradable);
+  const puts = chain.puts.filter(tradable);
+  const spot = chain.underlying_price;
+
+  let strategyType: BuiltStrategyType;
+  let legs: (StrategyLeg | null)[];
+
+  switch (action) {
+    case 'BUY_CALLS': {
+      strategyType = 'SINGLE';
+      const quote = selectByDelta(calls, config.longDelta) ?? selectAtm(calls, spot);
+      legs = [quote && leg(quote, 'BUY_TO_OPEN')];
+      break;
+    }
+    case 'BUY_PUTS': {
+      strategyType = 'SINGLE';
+      const quote = selectByDelta(puts, config.longDelta) ?? selectAtm(puts, spot);
+      legs = [quote && leg(quote, 'BUY_TO_OPEN')];
+      break;
+    }
+    case 'SELL_CALLS': {
+      // Bear call credit spread: short call, long call wing above
+      strategyType = 'VERTICAL';
+      const short = selectByDelta(calls, config.creditSpreadShortDelta);
+      const wing = short && selectWing(calls, short.strike, config.wingWidth, 1);
+      legs = [short && leg(short, 'SELL_TO_OPEN'), wing && leg(wing, 'BUY_TO_OPEN')];
+      break;
+    }
+    case 'SELL_PUTS': {
+      // Bull put credit spread: short put, long put wing below
+      strategyType = 'VERTICAL';
+      const short = selectByDelta(puts, config.creditSpreadShortDelta);
+      const wing = short && selectWing(puts, short.strike, config.wingWidth, -1);
+      legs = [short && leg(short, 'SELL_TO_OPEN'), wing && leg(wing, 'BUY_TO_OPEN')];
+      break;
+    }
+    case 'SELL_STRADDLE':
+    case 'LONG_STRADDLE': {
+      strategyType = 'STRADDLE';
+      const side = action === 'SELL_STRADDLE' ? 'SELL_TO_OPEN' : 'BUY_TO_OPEN';
+      const putStrikes = new Set(puts.map(q => q.strike));
+      const call = selectAtm(calls.filter(q => putStrikes.has(q.strike)), spot);
+      const put = call && puts.find(q => q.strike === call.strike);
+      legs = [call && leg(call, side), put ? leg(put, side) : null];
+      break;
+    }
+    case 'SELL_STRANGLE': {
+      strategyType = 'STRANGLE';
+      const call = selectByDelta(calls, config.shortDelta);
+      const put = selectByDelta(puts, config.shortDelta);
+      legs = [call && leg(call, 'SELL_TO_OPEN'), put && leg(put, 'SELL_TO_OPEN')];
+      break;
+    }
+    case 'IRON_CONDOR': {
+      strategyType = 'IRON_CONDOR';
+      const shortCall = selectByDelta(calls, config.shortDelta);
+      const shortPut = selectByDelta(puts, config.shortDelta);
+      const longCall = shortCall && selectWing(calls, shortCall.strike, config.wingWidth, 1);
+      const longPut = shortPut && selectWing(puts, shortPut.strike, config.wingWidth, -1);
+      legs = [
+        longPut && leg(longPut, 'BUY_TO_OPEN'),
+        shortPut && leg(shortPut, 'SELL_TO_OPEN'),
+        shortCall && leg(shortCall, 'SELL_TO_OPEN'),
+        longCall && leg(longCall, 'BUY_TO_OPEN'),
+      ];
+      break;
+    }
+    default:
+      return { success: false, error: `Unsupported action: ${action}` };
+  }
+
+  if (legs.some(l => l === null)) {
+    return {
+      success: false,
+      error: `Options chain for ${chain.underlying} ${expiration} cannot satisfy ${action} (missing priced strikes or delta data)`,
+    };
+  }
+
+  const builtLegs = legs as StrategyLeg[];
+
+  if (strategyType === 'IRON_CONDOR' && builtLegs[1].quote.strike >= builtLegs[2].quote.strike) {
+    return { success: false, error: 'Iron condor short strikes overlap' };
+  }
+
+  const profile = calculatePayoffProfile(builtLegs);
+
+  const strategy: BuiltStrategy = {
+    action,
+    strategyType,
+    underlying: chain.underlying,
+    underlyingPrice: spot,
+    expiration,
+    legs: builtLegs,
+    netPrice: Math.abs(profile.netSigned),
+    priceEffect: profile.netSigned > 0 ? 'DEBIT' : profile.netSigned < 0 ? 'CREDIT' : 'EVEN',
+    maxProfit: profile.maxProfit,
+    maxLoss: profile.maxLoss,
+    breakevens: profile.breakevens,
+  };
+
+  return { success: true, strategy };
+}
+
+/**
+ * Multi-leg order for a built strategy, limited at its net price.
+ * Returns null for single-leg strategies (submit those as a plain OrderRequest).
+ */
+export function toMultiLegOrderRequest(
+  strategy: BuiltStrategy,
+  quantity: number,
+  options: { signalId?: string; timeInForce?: TimeInForce } = {}
+): MultiLegOrderRequest | null {
+  if (strategy.strategyType === 'SINGLE') return null;
+
+  return {
+    signal_id: options.signalId,
+    strategy_type: strategy.strategyType,
+    underlying: strategy.underlying,
+    legs: strategy.legs.map(l => ({
+      symbol: l.quote.symbol,
+      strike: l.quote.strike,
+      expiration: l.quote.expiration,
+      option_type: l.quote.option_type,
+      side: l.side,
+      ratio: l.ratio,
+    })),
+    quantity,
+    order_type: 'LIMIT',
+    net_price: strategy.netPrice,
+    price_effect: strategy.priceEffect,
+    time_in_force: options.timeInForce ?? 'DAY',
+  };
+}
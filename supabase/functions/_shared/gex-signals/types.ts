@@ -4,6 +4,9 @@
  * Types for the comprehensive GEX-based trading signal system
  */
 
+import type { MultiLegStrategyType, NetPriceEffect } from '../types.ts';
+import type { OptionsQuote } from '../market-data/types.ts';
+
 // Market Regimes
 export type MarketRegime = 
   | 'TRENDING_UP' 
@@ -290,3 +293,45 @@ export interface PaperTradingStats {
   openPositions: number;
   openPositionValue: number;
 }
+
+// Strategy Builder Types
+export type BuiltStrategyType = MultiLegStrategyType | 'SINGLE';
+
+export interface StrategyBuilderConfig {
+  longDelta: number;              // Target |delta| for directional long options
+  shortDelta: number;             // Target |delta| for strangle / condor short strikes
+  creditSpreadShortDelta: number; // Target |delta| for SELL_CALLS / SELL_PUTS short strikes
+  wingWidth: number;              // Strike distance from short strike to protective wing
+  minOptionPrice: number;         // Quotes priced below this are skipped
+}
+
+export interface StrategyLeg {
+  quote: OptionsQuote;
+  side: 'BUY_TO_OPEN' | 'SELL_TO_OPEN';
+  ratio: number;
+  price: number;  // Per-share price used for net pricing (mid)
+}
+
+export interface BuiltStrategy {
+  action: TradeAction;
+  strategyType: BuiltStrategyType;
+  underlying: string;
+  underlyingPrice: number;
+  expiration: string;
+  legs: StrategyLeg[];
+  
+  // Per-share net price of one unit
+  netPrice: number;
+  priceEffect: NetPriceEffect;
+  
+  // Dollars per unit (x100 multiplier); null = unlimited
+  maxProfit: number | null;
+  maxLoss: number | null;
+  breakevens: number[];
+}
+
+export interface StrategyBuildResult {
+  success: boolean;
+  strategy?: BuiltStrategy;
+  error?: string;
+}
@@ -3,9 +3,14 @@
  * 
  * Central module for parsing webhooks from different trading indicators.
  * Each indicator has its own parser module with format-specific logic.
+ *
+ * Any indicator payload may carry top-level "strike" / "expiration" contract
+ * specs ("ATM+1", "25 delta", "0DTE", "next weekly", ...). These override the
+ * parser's derived contract once resolved against the live chain.
  */
 
-import type { IncomingSignal } from "../types.ts";
+import type { ContractSpec, IncomingSignal } from "../types.ts";
+import { isExpirationToken, isStrikeToken } from "../market-data/contract-resolver.ts";
 import { parseUltimateOptionPayload, type ScoreConfig } from "./ultimate-option.ts";
 import { parseSatyPhasePayload } from "./saty-phase.ts";
 import { parseMtfTrendDotsPayload } from "./mtf-trend-dots.ts";
@@ -98,6 +103,36 @@ export function parseIndicatorPayload(
     forceSource?: IndicatorSource;
     scoreConfig?: ScoreConfig;
   }
+): IndicatorParseResult {
+  const result = parseBySource(raw, options);
+  return result.signal
+    ? { ...result, signal: withContractSpec(result.signal, raw as Record<string, unknown>) }
+    : result;
+}
+
+/**
+ * Attaches contract specs from the payload. A derived strike is only an ATM
+ * estimate, so an expiration spec on its own resolves the strike as ATM too.
+ */
+function withContractSpec(signal: IncomingSignal, payload: Record<string, unknown>): IncomingSignal {
+  const spec: ContractSpec = {};
+  if (isStrikeToken(payload.strike)) {
+    spec.strike = payload.strike;
+  }
+  if (isExpirationToken(payload.expiration)) {
+    spec.expiration = payload.expiration;
+    spec.strike ??= 'ATM';
+  }
+
+  return spec.strike ? { ...signal, contract_spec: spec } : signal;
+}
+
+function parseBySource(
+  raw: unknown,
+  options?: {
+    forceSource?: IndicatorSource;
+    scoreConfig?: ScoreConfig;
+  }
 ): IndicatorParseResult {
   if (!raw || typeof raw !== 'object') {
     return {
@@ -0,0 +1,220 @@
+/**
+ * Tests for the global kill switch
+ */
+
+import { describe, it, expect } from 'vitest';
+import { executeKillSwitch } from './kill-switch.ts';
+import { SimulatedClock } from './refactored/core/clock.ts';
+import type { OrderRequest } from './types.ts';
+import { fakeAdapter, fakeClient, NOW, type Row } from './test-utils/fake-db.ts';
+
+interface FakeBrokerOptions {
+  failCancel?: string[];
+  fill?: boolean;
+  throwOn?: string;
+}
+
+function fakeBroker(options: FakeBrokerOptions = {}) {
+  const submitted: OrderRequest[] = [];
+  const cancelled: string[] = [];
+  let sequence = 0;
+
+  const adapter = fakeAdapter({
+    cancelOrder: async (orderId: string) => {
+      if (options.failCancel?.includes(orderId)) {
+        return { success: false, error: 'Order already routed' };
+      }
+      cancelled.push(orderId);
+      return { success: true };
+    },
+    submitOrder: async (request: OrderRequest, marketPrice?: number) => {
+      if (options.throwOn && request.symbol.startsWith(options.throwOn)) {
+        throw new Error('Broker unavailable');
+      }
+      submitted.push(request);
+      const orderId = `ord-${++sequence}`;
+      const fill = options.fill ?? true;
+      return {
+        result: {
+          success: true,
+          order_id: orderId,
+          status: fill ? 'FILLED' : 'SUBMITTED',
+          filled_quantity: fill ? request.quantity : 0,
+          avg_fill_price: fill ? marketPrice : undefined,
+        },
+        trade: fill
+          ? {
+              order_id: orderId,
+              broker_trade_id: null,
+              underlying: request.underlying,
+              symbol: request.symbol,
+              strike: request.strike,
+              expiration: request.expiration,
+              option_type: request.option_type,
+              execution_price: marketPrice ?? 0,
+              quantity: request.quantity,
+              commission: 0,
+              fees: 0,
+              total_cost: 0,
+              executed_at: NOW.toISOString(),
+            }
+          : null,
+      };
+    },
+  }, { mode: 'PAPER' });
+
+  return { adapter, submitted, cancelled };
+}
+
+function fakeBreaker() {
+  const halts: Array<{ actor: string; reason: string }> = [];
+  return {
+    halts,
+    haltManually: async (actor: string, reason: string) => {
+      halts.push({ actor, reason });
+      return { status: 'HALTED' } as never;
+    },
+  };
+}
+
+function refactoredPosition(overrides: Row = {}): Row {
+  return {
+    id: 'pos_1',
+    symbol: 'SPY',
+    status: 'OPEN',
+    quantity: 2,
+    entry_price: 2,
+    current_price: 3,
+    underlying: 'SPY',
+    strike: 500,
+    expiration: '2026-03-20',
+    option_type: 'CALL',
+    ...overrides,
+  };
+}
+
+describe('executeKillSwitch', () => {
+  it('halts, cancels working orders and flattens both books', async () => {
+    const client = fakeClient({
+      orders: [
+        { id: 'o-1', symbol: 'SPY', status: 'SUBMITTED', mode: 'PAPER', broker_order_id: 'b-1' },
+        { id: 'o-2', symbol: 'QQQ', status: 'PENDING', mode: 'PAPER' },
+        { id: 'o-3', symbol: 'IWM', status: 'FILLED', mode: 'PAPER' },
+        { id: 'o-4', symbol: 'SPY', status: 'PENDING', mode: 'LIVE' },
+      ],
+      refactored_positions: [refactoredPosition()],
+      positions: [
+        {
+          id: 'legacy-short',
+          symbol: 'QQQ   260320P00400000',
+          underlying: 'QQQ',
+          strike: 400,
+          expiration: '2026-03-20',
+          option_type: 'PUT',
+          quantity: -3,
+          avg_open_price: 4,
+          current_price: 3.5,
+          is_closed: false,
+        },
+        {
+          id: 'legacy-dup',
+          symbol: 'SPY   260320C00500000',
+          underlying: 'SPY',
+          strike: 500,
+          expiration: '2026-03-20',
+          option_type: 'CALL',
+          quantity: 2,
+          avg_open_price: 2,
+          current_price: 3,
+          is_closed: false,
+        },
+      ],
+      trades: [],
+      adapter_logs: [],
+    });
+    const { adapter, submitted, cancelled } = fakeBroker({ failCancel: ['o-2'] });
+    const breaker = fakeBreaker();
+
+    const report = await executeKillSwitch({
+      supabase: client as never,
+      adapter,
+      circuitBreaker: breaker,
+      actor: 'ops@example.com',
+      reason: 'Runaway fills',
+      clock: new SimulatedClock(NOW),
+    });
+
+    expect(breaker.halts).toEqual([{ actor: 'ops@example.com', reason: 'Runaway fills' }]);
+    expect(report.halted).toBe(true);
+
+    // Only working orders in the adapter's mode are cancelled
+    expect(cancelled).toEqual(['o-1']);
+    expect(report.orders.map(o => [o.order_id, o.action])).toEqual([['o-1', 'CANCELLED'], ['o-2', 'FAILED']]);
+    expect(client.tables.orders.find(o => o.id === 'o-1')?.status).toBe('CANCELLED');
+    expect(client.tables.orders.find(o => o.id === 'o-2')?.status).toBe('PENDING');
+
+    // Long closes by selling, short by buying; the duplicate legacy row is not sold twice
+    expect(submitted.map(r => [r.symbol, r.side, r.quantity, r.order_type])).toEqual([
+      ['SPY   260320C00500000', 'SELL_TO_CLOSE', 2, 'MARKET'],
+      ['QQQ   260320P00400000', 'BUY_TO_CLOSE', 3, 'MARKET'],
+    ]);
+    expect(report.positions.map(p => [p.position_id, p.action, p.realized_pnl])).toEqual([
+      ['legacy-dup', 'SKIPPED', undefined],
+      ['pos_1', 'CLOSED', 200],
+      ['legacy-short', 'CLOSED', 150],
+    ]);
+    expect(client.tables.refactored_positions[0]).toMatchObject({ status: 'CLOSED', exit_price: 3 });
+    expect(client.tables.positions[0]).toMatchObject({ is_closed: true, realized_pnl: 150 });
+    expect(client.tables.positions[1].is_closed).toBe(false);
+
+    expect(report.summary).toEqual({
+      orders_cancelled: 1,
+      orders_failed: 1,
+      positions_closed: 2,
+      positions_submitted: 0,
+      positions_failed: 0,
+      positions_skipped: 1,
+    });
+  });
+
+  it('keeps going past failures and reports unfilled closes as submitted', async () => {
+    const client = fakeClient({
+      orders: [],
+      refactored_positions: [
+        refactoredPosition({ id: 'pos_missing', underlying: null }),
+        refactoredPosition({ id: 'pos_qqq', symbol: 'QQQ', underlying: 'QQQ', strike: 400 }),
+        refactoredPosition({ id: 'pos_iwm', symbol: 'IWM', underlying: 'IWM', strike: 200 }),
+      ],
+      positions: [],
+      trades: [],
+      adapter_logs: [],
+    });
+    const { adapter } = fakeBroker({ fill: false, throwOn: 'QQQ' });
+    const breaker = {
+      haltManually: async () => {
+        throw new Error('database unavailable');
+      },
+    };
+
+    const report = await executeKillSwitch({
+      supabase: client as never,
+      adapter,
+      circuitBreaker: breaker,
+      actor: 'ops@example.com',
+      clock: new SimulatedClock(NOW),
+    });
+
+    expect(report.halted).toBe(false);
+    expect(report.halt_error).toBe('database unavailable');
+    expect(report.reason).toBe('Kill switch activated by ops@example.com');
+    expect(report.positions.map(p => [p.position_id, p.action, p.error])).toEqual([
+      ['pos_missing', 'FAILED', 'Missing contract details'],
+      ['pos_qqq', 'FAILED', 'Broker unavailable'],
+      ['pos_iwm', 'SUBMITTED', undefined],
+    ]);
+    expect(client.tables.orders).toEqual([
+      expect.objectContaining({ refactored_position_id: 'pos_iwm', status: 'SUBMITTED', exit_action: 'FULL' }),
+    ]);
+    expect(client.tables.refactored_positions.every(p => p.status === 'OPEN')).toBe(true);
+  });
+});
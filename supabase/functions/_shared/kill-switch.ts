@@ -0,0 +1,434 @@
+/**
+ * Global Kill Switch
+ * Halts new entries, cancels every working order through the active broker
+ * adapter and flattens every open position with market orders.
+ *
+ * Each step is attempted for every order and position even when earlier ones
+ * fail, so the caller always gets a complete per-item report.
+ */
+
+import type { BrokerAdapter } from "./broker-adapter.ts";
+import type { createDbClient } from "./db-client.ts";
+import type { OrderRequest, OrderStatus, OptionType, TradingMode } from "./types.ts";
+import { generateOccSymbol, getCloseSide } from "./types.ts";
+import type { LossCircuitBreaker } from "./refactored/services/circuit-breaker.ts";
+import { systemClock, type Clock } from "./refactored/core/clock.ts";
+import { recordOrderSubmission, transitionOrder } from "./order-lifecycle.ts";
+import { recordPositionExit } from "./refactored/services/position-manager.ts";
+
+// Orders that can still fill and therefore must be cancelled
+export const WORKING_ORDER_STATUSES: OrderStatus[] = ['PENDING', 'SUBMITTED', 'ACCEPTED', 'PARTIAL_FILL'];
+
+export type KillSwitchAction = 'CANCELLED' | 'CLOSED' | 'SUBMITTED' | 'FAILED' | 'SKIPPED';
+
+export interface KillSwitchOrderResult {
+  order_id: string;
+  symbol: string;
+  status: string;
+  action: KillSwitchAction;
+  error?: string;
+}
+
+export interface KillSwitchPositionResult {
+  position_id: string;
+  book: 'refactored' | 'legacy';
+  symbol: string;
+  quantity: number;
+  action: KillSwitchAction;
+  order_id?: string;
+  fill_price?: number;
+  realized_pnl?: number;
+  error?: string;
+}
+
+export interface KillSwitchReport {
+  mode: TradingMode;
+  triggered_by: string;
+  reason: string;
+  halted: boolean;
+  halt_error?: string;
+  started_at: string;
+  completed_at: string;
+  orders: KillSwitchOrderResult[];
+  positions: KillSwitchPositionResult[];
+  summary: {
+    orders_cancelled: number;
+    orders_failed: number;
+    positions_closed: number;
+    positions_submitted: number;
+    positions_failed: number;
+    positions_skipped: number;
+  };
+}
+
+export interface KillSwitchOptions {
+  supabase: ReturnType<typeof createDbClient>;
+  adapter: BrokerAdapter;
+  circuitBreaker: Pick<LossCircuitBreaker, 'haltManually'>;
+  actor: string;
+  reason?: string;
+  clock?: Clock;
+}
+
+interface CloseTarget {
+  position_id: string;
+  book: 'refactored' | 'legacy';
+  symbol: string;
+  underlying: string | null;
+  strike: number | null;
+  expiration: string | null;
+  option_type: OptionType | null;
+  quantity: number;
+  entry_price: number;
+  mark_price: number;
+}
+
+function toNumber(value: unknown): number | null {
+  if (value === null || value === undefined || value === '') return null;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : null;
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+/**
+ * Halt trading, cancel working orders and flatten all open positions
+ */
+export async function executeKillSwitch(options: KillSwitchOptions): Promise<KillSwitchReport> {
+  const { supabase, adapter, circuitBreaker, actor } = options;
+  const clock = options.clock ?? systemClock;
+  const reason = options.reason?.trim() || `Kill switch activated by ${actor}`;
+  const startedAt = clock.now().toISOString();
+  const correlationId = `kill-switch-${clock.nowMs()}`;
+
+  console.warn(`[${correlationId}] Kill switch activated by ${actor} (${adapter.mode}): ${reason}`);
+
+  // 1. Halt first so no new entry slips in while we flatten
+  let halted = false;
+  let haltError: string | undefined;
+  try {
+    const state = await circuitBreaker.haltManually(actor, reason);
+    halted = state.status === 'HALTED';
+  } catch (error) {
+    haltError = errorMessage(error);
+    console.error(`[${correlationId}] Failed to halt trading:`, error);
+  }
+
+  // 2. Cancel working orders before closing so resting exits cannot double-fill
+  const orders = await cancelWorkingOrders(supabase, adapter, clock);
+
+  // 3. Flatten both position books
+  const positions: KillSwitchPositionResult[] = [];
+  const targets = await loadCloseTargets(supabase);
+
+  for (const target of targets.skipped) {
+    positions.push({
+      position_id: target.position_id,
+      book: target.book,
+      symbol: target.symbol,
+      quantity: target.quantity,
+      action: 'SKIPPED',
+      error: 'Already closed through the refactored position',
+    });
+  }
+
+  for (const target of targets.toClose) {
+    positions.push(await closePosition(supabase, adapter, target, correlationId, clock));
+  }
+
+  const count = <T extends { action: KillSwitchAction }>(items: T[], action: KillSwitchAction) =>
+    items.filter(item => item.action === action).length;
+
+  const report: KillSwitchReport = {
+    mode: adapter.mode,
+    triggered_by: actor,
+    reason,
+    halted,
+    ...(haltError ? { halt_error: haltError } : {}),
+    started_at: startedAt,
+    completed_at: clock.now().toISOString(),
+    orders,
+    positions,
+    summary: {
+      orders_cancelled: count(orders, 'CANCELLED'),
+      orders_failed: count(orders, 'FAILED'),
+      positions_closed: count(positions, 'CLOSED'),
+      positions_submitted: count(positions, 'SUBMITTED'),
+      positions_failed: count(positions, 'FAILED'),
+      positions_skipped: count(positions, 'SKIPPED'),
+    },
+  };
+
+  await supabase.from('adapter_logs').insert({
+    adapter_name: 'kill-switch',
+    operation: 'kill_switch',
+    correlation_id: correlationId,
+    status: report.summary.orders_failed + report.summary.positions_failed === 0 ? 'success' : 'failed',
+    request_payload: { actor, reason, mode: adapter.mode },
+    response_payload: report,
+  });
+
+  return report;
+}
+
+async function cancelWorkingOrders(
+  supabase: ReturnType<typeof createDbClient>,
+  adapter: BrokerAdapter,
+  clock: Clock
+): Promise<KillSwitchOrderResult[]> {
+  const { data: workingOrders, error } = await supabase
+    .from('orders')
+    .select('*')
+    .eq('mode', adapter.mode)
+    .in('status', WORKING_ORDER_STATUSES);
+
+  if (error) {
+    throw new Error(`Failed to load working orders: ${error.message}`);
+  }
+
+  const results: KillSwitchOrderResult[] = [];
+
+  for (const order of workingOrders || []) {
+    const result: KillSwitchOrderResult = {
+      order_id: order.id,
+      symbol: order.symbol,
+      status: order.status,
+      action: 'FAILED',
+    };
+
+    try {
+      const cancel = await adapter.cancelOrder(order.id, order.broker_order_id ?? undefined);
+
+      if (cancel.success) {
+        const transition = await transitionOrder(supabase, order.id, {
+          status: 'CANCELLED',
+          source: 'kill-switch',
+          reason: 'Cancelled by kill switch',
+          fields: { error_message: 'Cancelled by kill switch' },
+        }, clock);
+        if (transition.error) {
+          result.error = transition.error;
+        } else {
+          result.action = 'CANCELLED';
+        }
+      } else {
+        result.error = cancel.error || 'Cancel rejected by broker';
+      }
+    } catch (cancelError) {
+      result.error = errorMessage(cancelError);
+    }
+
+    results.push(result);
+  }
+
+  return results;
+}
+
+/**
+ * Collect open positions from the refactored and legacy books.
+ * A legacy row for the same contract as an open refactored position is
+ * skipped so the contract is only sold once.
+ */
+async function loadCloseTargets(
+  supabase: ReturnType<typeof createDbClient>
+): Promise<{ toClose: CloseTarget[]; skipped: CloseTarget[] }> {
+  const [{ data: refactoredRows, error: refactoredError }, { data: legacyRows, error: legacyError }] =
+    await Promise.all([
+      supabase.from('refactored_positions').select('*').eq('status', 'OPEN'),
+      supabase.from('positions').select('*').eq('is_closed', false),
+    ]);
+
+  if (refactoredError) {
+    throw new Error(`Failed to load open positions: ${refactoredError.message}`);
+  }
+  if (legacyError) {
+    throw new Error(`Failed to load open positions: ${legacyError.message}`);
+  }
+
+  const toClose: CloseTarget[] = [];
+  const skipped: CloseTarget[] = [];
+  const refactoredSymbols = new Set<string>();
+
+  for (const row of refactoredRows || []) {
+    const target: CloseTarget = {
+      position_id: row.id,
+      book: 'refactored',
+      symbol: row.symbol,
+      underlying: row.underlying ?? null,
+      strike: toNumber(row.strike),
+      expiration: row.expiration ? String(row.expiration).slice(0, 10) : null,
+      option_type: row.option_type ?? null,
+      // Signed like the legacy book: short positions are bought back
+      quantity: (row.side === 'SHORT' ? -1 : 1) * (toNumber(row.quantity) ?? 0),
+      entry_price: toNumber(row.entry_price) ?? 0,
+      mark_price: toNumber(row.current_price) ?? toNumber(row.entry_price) ?? 0,
+    };
+    if (target.underlying && target.strike && target.expiration && target.option_type) {
+      refactoredSymbols.add(generateOccSymbol(target.underlying, target.expiration, target.option_type, target.strike));
+    }
+    toClose.push(target);
+  }
+
+  for (const row of legacyRows || []) {
+    const target: CloseTarget = {
+      position_id: row.id,
+      book: 'legacy',
+      symbol: row.symbol,
+      underlying: row.underlying ?? null,
+      strike: toNumber(row.strike),
+      expiration: row.expiration ? String(row.expiration).slice(0, 10) : null,
+      option_type: row.option_type ?? null,
+      quantity: toNumber(row.quantity) ?? 0,
+      entry_price: toNumber(row.avg_open_price) ?? 0,
+      mark_price: toNumber(row.current_price) ?? toNumber(row.avg_open_price) ?? 0,
+    };
+    (refactoredSymbols.has(target.symbol) ? skipped : toClose).push(target);
+  }
+
+  return { toClose, skipped };
+}
+
+async function closePosition(
+  supabase: ReturnType<typeof createDbClient>,
+  adapter: BrokerAdapter,
+  target: CloseTarget,
+  correlationId: string,
+  clock: Clock
+): Promise<KillSwitchPositionResult> {
+  const result: KillSwitchPositionResult = {
+    position_id: target.position_id,
+    book: target.book,
+    symbol: target.symbol,
+    quantity: target.quantity,
+    action: 'FAILED',
+  };
+
+  if (!target.underlying || !target.strike || !target.expiration || !target.option_type) {
+    result.error = 'Missing contract details';
+    return result;
+  }
+  if (target.quantity === 0) {
+    result.error = 'Position has no quantity';
+    return result;
+  }
+
+  const side = getCloseSide(target);
+  const quantity = Math.abs(target.quantity);
+  const orderRequest: OrderRequest = {
+    underlying: target.underlying,
+    symbol: generateOccSymbol(target.underlying, target.expiration, target.option_type, target.strike),
+    strike: target.strike,
+    expiration: target.expiration,
+    option_type: target.option_type,
+    side,
+    quantity,
+    order_type: 'MARKET',
+    time_in_force: 'DAY',
+  };
+
+  try {
+    const { result: orderResult, trade } = await adapter.submitOrder(orderRequest, target.mark_price || undefined);
+
+    await supabase.from('adapter_logs').insert({
+      adapter_name: 'kill-switch',
+      operation: 'kill_switch_close',
+      correlation_id: correlationId,
+      order_id: orderResult.order_id,
+      status: orderResult.success ? 'success' : 'failed',
+      request_payload: { position_id: target.position_id, book: target.book, order_request: orderRequest },
+      response_payload: orderResult,
+    });
+
+    if (!orderResult.success) {
+      result.error = orderResult.error || 'Order submission failed';
+      return result;
+    }
+
+    const now = clock.now().toISOString();
+    const filled = orderResult.status === 'FILLED' && trade ? trade : null;
+    const { order: orderRow } = await recordOrderSubmission(
+      supabase,
+      {
+        id: orderResult.order_id,
+        signal_id: null,
+        refactored_position_id: target.book === 'refactored' ? target.position_id : null,
+        exit_action: 'FULL',
+        exit_quantity: quantity,
+        mode: adapter.mode,
+        underlying: orderRequest.underlying,
+        symbol: orderRequest.symbol,
+        strike: orderRequest.strike,
+        expiration: orderRequest.expiration,
+        option_type: orderRequest.option_type,
+        side,
+        quantity,
+        order_type: orderRequest.order_type,
+        time_in_force: orderRequest.time_in_force,
+        status: orderResult.status,
+        broker_order_id: orderResult.broker_order_id,
+        filled_quantity: orderResult.filled_quantity,
+        avg_fill_price: orderResult.avg_fill_price ?? null,
+        submitted_at: now,
+        filled_at: orderResult.status === 'FILLED' ? now : null,
+      },
+      filled ? { ...filled, broker_trade_id: filled.broker_trade_id ?? null } : null,
+      'kill-switch',
+      clock
+    );
+
+    result.order_id = orderRow?.id ?? orderResult.order_id;
+
+    if (!filled) {
+      // Live brokers may fill asynchronously; the order stays on the books for polling
+      result.action = 'SUBMITTED';
+      return result;
+    }
+
+    const closePrice = filled.execution_price;
+    const priceDiff = target.quantity > 0 ? closePrice - target.entry_price : target.entry_price - closePrice;
+    const realizedPnl = priceDiff * quantity * 100;
+
+    if (target.book === 'refactored') {
+      await supabase
+        .from('refactored_positions')
+        .update({
+          status: 'CLOSED',
+          current_price: closePrice,
+          exit_price: closePrice,
+          exit_time: now,
+          realized_pnl: realizedPnl,
+          unrealized_pnl: 0,
+          updated_at: now,
+        })
+        .eq('id', target.position_id);
+      await recordPositionExit(supabase, {
+        positionId: target.position_id,
+        quantity,
+        exitPrice: closePrice,
+        realizedPnL: realizedPnl,
+        exitedAt: now,
+      });
+    } else {
+      await supabase
+        .from('positions')
+        .update({
+          is_closed: true,
+          closed_at: now,
+          current_price: closePrice,
+          realized_pnl: realizedPnl,
+        })
+        .eq('id', target.position_id);
+    }
+
+    result.action = 'CLOSED';
+    result.fill_price = closePrice;
+    result.realized_pnl = realizedPnl;
+    return result;
+  } catch (error) {
+    console.error(`[${correlationId}] Failed to close ${target.book} position ${target.position_id}:`, error);
+    result.error = errorMessage(error);
+    return result;
+  }
+}
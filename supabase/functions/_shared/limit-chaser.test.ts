@@ -0,0 +1,333 @@
+/**
+ * Tests for the limit chaser: price ladder, cancel/replace and modify paths,
+ * the slippage cap and the market fallback
+ */
+
+import { describe, it, expect } from 'vitest';
+import { chaseLimitOrder, chasePrices, type ChaseConfig } from './limit-chaser.ts';
+import type { BrokerAdapter, OrderStatusResponse } from './broker-adapter.ts';
+import type { OptionsQuote } from './market-data/types.ts';
+import type { OrderRequest } from './types.ts';
+import { SimulatedClock } from './refactored/core/clock.ts';
+import { fakeAdapter, fakeClient, NOW, type Row } from './test-utils/fake-db.ts';
+
+const clock = new SimulatedClock(NOW);
+
+interface BrokerOrder {
+  request: OrderRequest;
+  status: OrderStatusResponse['status'];
+  filled_quantity: number;
+  avg_fill_price?: number;
+}
+
+/**
+ * Broker that fills a limit immediately once it reaches `fillPrice` and
+ * otherwise leaves it working. `restingFills` reports fills on working
+ * orders by submission number.
+ */
+function fakeBroker(options: {
+  fillPrice: number;
+  modifiable?: boolean;
+  restingFills?: Record<number, { quantity: number; price: number }>;
+}) {
+  const orders = new Map<string, BrokerOrder>();
+  const calls = { submit: [] as OrderRequest[], cancel: [] as string[], replace: [] as string[] };
+
+  const marketable = (request: OrderRequest) => request.order_type === 'MARKET' || (
+    request.side.includes('BUY')
+      ? (request.limit_price ?? 0) >= options.fillPrice
+      : (request.limit_price ?? Infinity) <= options.fillPrice
+  );
+
+  const submit = (request: OrderRequest) => {
+    calls.submit.push(request);
+    const brokerOrderId = `B-${calls.submit.length}`;
+    const price = request.order_type === 'MARKET' ? options.fillPrice : request.limit_price!;
+    const filled = marketable(request);
+    const resting = options.restingFills?.[calls.submit.length];
+    orders.set(brokerOrderId, {
+      request,
+      status: filled ? 'FILLED' : resting ? 'PARTIAL_FILL' : 'SUBMITTED',
+      filled_quantity: filled ? request.quantity : resting?.quantity ?? 0,
+      avg_fill_price: filled ? price : resting?.price,
+    });
+    return Promise.resolve({
+      result: {
+        success: true,
+        order_id: `local-${calls.submit.length}`,
+        broker_order_id: brokerOrderId,
+        status: filled ? 'FILLED' as const : 'SUBMITTED' as const,
+        filled_quantity: filled ? request.quantity : 0,
+        avg_fill_price: filled ? price : undefined,
+      },
+      trade: filled
+        ? {
+          order_id: `local-${calls.submit.length}`,
+          broker_trade_id: `${brokerOrderId}-fill`,
+          execution_price: price,
+          quantity: request.quantity,
+          commission: 0.65 * request.quantity,
+          fees: 0.02 * request.quantity,
+          total_cost: price * request.quantity * 100,
+          underlying: request.underlying,
+          symbol: request.symbol,
+          strike: request.strike,
+          expiration: request.expiration,
+          option_type: request.option_type,
+          executed_at: NOW.toISOString(),
+        }
+        : null,
+    });
+  };
+
+  const adapter = fakeAdapter({
+    submitOrder: submit,
+    cancelOrder: (_orderId: string, brokerOrderId: string) => {
+      calls.cancel.push(brokerOrderId);
+      orders.get(brokerOrderId)!.status = 'CANCELLED';
+      return Promise.resolve({ success: true });
+    },
+    getOrderStatus: (orderId: string, brokerOrderId: string) => {
+      const order = orders.get(brokerOrderId)!;
+      return Promise.resolve({
+        order_id: orderId,
+        broker_order_id: brokerOrderId,
+        status: order.status,
+        filled_quantity: order.filled_quantity,
+        remaining_quantity: order.request.quantity - order.filled_quantity,
+        avg_fill_price: order.avg_fill_price,
+      });
+    },
+    replaceOrder: options.modifiable
+      ? (_orderId: string, brokerOrderId: string, request: OrderRequest) => {
+        calls.replace.push(brokerOrderId);
+        orders.get(brokerOrderId)!.status = 'CANCELLED';
+        return submit(request);
+      }
+      : undefined,
+  }, { capabilities: { supports_order_modification: options.modifiable ?? false } });
+
+  return { adapter, calls };
+}
+
+const QUOTE = { bid: 1.0, ask: 1.2 } as OptionsQuote;
+const CONFIG: ChaseConfig = { steps: 4, intervalMs: 1000, maxSlippagePercent: 50 };
+
+function exitRequest(quantity = 2): OrderRequest {
+  return {
+    underlying: 'SPY',
+    symbol: 'SPY   260320C00500000',
+    strike: 500,
+    expiration: '2026-03-20',
+    option_type: 'CALL',
+    side: 'SELL_TO_CLOSE',
+    quantity,
+    order_type: 'LIMIT',
+    time_in_force: 'DAY',
+  };
+}
+
+async function chase(
+  adapter: BrokerAdapter,
+  client: ReturnType<typeof fakeClient>,
+  overrides: { config?: ChaseConfig; urgency?: string; quantity?: number } = {}
+) {
+  const sleeps: number[] = [];
+  const result = await chaseLimitOrder({
+    supabase: client as never,
+    adapter,
+    request: exitRequest(overrides.quantity),
+    quote: QUOTE,
+    config: overrides.config ?? CONFIG,
+    source: 'exit-worker',
+    urgency: overrides.urgency,
+    orderFields: { refactored_position_id: 'pos-1', client_order_id: 'CLT-EXIT-1' },
+    clock,
+    sleep: (ms) => {
+      sleeps.push(ms);
+      return Promise.resolve();
+    },
+  });
+  return { result, sleeps };
+}
+
+describe('chasePrices', () => {
+  it('walks from mid to the far side, rounding toward the mid', () => {
+    expect(chasePrices('SELL_TO_CLOSE', QUOTE, CONFIG)).toEqual([1.1, 1.08, 1.05, 1.03, 1.0]);
+    expect(chasePrices('BUY_TO_OPEN', QUOTE, CONFIG)).toEqual([1.1, 1.12, 1.15, 1.17, 1.2]);
+  });
+
+  it('stops at the max-slippage cap', () => {
+    const prices = chasePrices('BUY_TO_OPEN', QUOTE, { ...CONFIG, maxSlippagePercent: 5 })!;
+
+    expect(prices[0]).toBe(1.1);
+    expect(prices[prices.length - 1]).toBe(1.15);
+    expect(Math.max(...prices)).toBeLessThanOrEqual(1.1 * 1.05);
+  });
+
+  it('needs a two-sided quote', () => {
+    expect(chasePrices('SELL_TO_CLOSE', { bid: 0, ask: 1.2 }, CONFIG)).toBeNull();
+    expect(chasePrices('SELL_TO_CLOSE', { bid: 1.3, ask: 1.2 }, CONFIG)).toBeNull();
+  });
+
+  it('never prices past the worst price', () => {
+    expect(chasePrices('BUY_TO_OPEN', QUOTE, CONFIG, 1.15)).toEqual([1.1, 1.12, 1.15]);
+    expect(chasePrices('SELL_TO_CLOSE', QUOTE, CONFIG, 1.06)).toEqual([1.1, 1.08]);
+    expect(chasePrices('BUY_TO_OPEN', QUOTE, CONFIG, 1.05)).toBeNull();
+  });
+});
+
+describe('chaseLimitOrder', () => {
+  it('cancels and resubmits each step when the broker cannot modify orders', async () => {
+    const client = fakeClient({ orders: [], trades: [] });
+    const { adapter, calls } = fakeBroker({ fillPrice: 1.05 });
+
+    const { result, sleeps } = await chase(adapter, client);
+
+    expect(result).toMatchObject({
+      status: 'FILLED',
+      filled_quantity: 2,
+      avg_fill_price: 1.05,
+      mid_price: 1.1,
+      far_price: 1.0,
+      price_improvement: 0.05,
+      market_fallback: false,
+    });
+    expect(calls.submit.map(r => r.limit_price)).toEqual([1.1, 1.08, 1.05]);
+    expect(calls.cancel).toEqual(['B-1', 'B-2']);
+    expect(sleeps).toEqual([1000, 1000]);
+
+    const orders = client.tables.orders;
+    expect(orders.map(o => [o.status, o.limit_price, o.client_order_id])).toEqual([
+      ['CANCELLED', 1.1, 'CLT-EXIT-1-0'],
+      ['CANCELLED', 1.08, 'CLT-EXIT-1-1'],
+      ['FILLED', 1.05, 'CLT-EXIT-1-2'],
+    ]);
+    expect(new Set(orders.map(o => o.chase_id)).size).toBe(1);
+    expect(orders.every(o => o.refactored_position_id === 'pos-1')).toBe(true);
+
+    const steps = client.tables.order_events.filter(e => e.event_type === 'CHASE_STEP');
+    expect(steps.map(e => (e.details as Row).limit_price)).toEqual([1.1, 1.08, 1.05]);
+    expect(steps[0].details).toMatchObject({ chase_id: result.chase_id, step: 0, mid_price: 1.1, far_price: 1.0 });
+  });
+
+  it('reprices in place when the broker supports modification', async () => {
+    const client = fakeClient({ orders: [], trades: [] });
+    const { adapter, calls } = fakeBroker({ fillPrice: 1.05, modifiable: true });
+
+    const { result } = await chase(adapter, client);
+
+    expect(result.status).toBe('FILLED');
+    expect(calls.replace).toEqual(['B-1', 'B-2']);
+    expect(calls.cancel).toEqual([]);
+    expect(client.tables.orders.map(o => o.status)).toEqual(['CANCELLED', 'CANCELLED', 'FILLED']);
+  });
+
+  it('books a partial fill before repricing only the remainder', async () => {
+    const client = fakeClient({ orders: [], trades: [] });
+    const { adapter, calls } = fakeBroker({ fillPrice: 1.05, restingFills: { 1: { quantity: 1, price: 1.1 } } });
+
+    const { result } = await chase(adapter, client);
+
+    expect(calls.submit.map(r => r.quantity)).toEqual([2, 1, 1]);
+    expect(result).toMatchObject({ status: 'FILLED', filled_quantity: 2, avg_fill_price: 1.075 });
+    expect(client.tables.trades.map(t => [t.broker_trade_id, t.quantity])).toEqual([
+      ['B-1-1', 1],
+      ['B-3-fill', 1],
+    ]);
+    expect(client.tables.orders[0]).toMatchObject({ status: 'CANCELLED', filled_quantity: 1 });
+  });
+
+  it('stops at the cap and cancels the last step for non-urgent exits', async () => {
+    const client = fakeClient({ orders: [], trades: [] });
+    const { adapter, calls } = fakeBroker({ fillPrice: 1.0 });
+
+    const { result } = await chase(adapter, client, { config: { ...CONFIG, maxSlippagePercent: 5 } });
+
+    expect(result).toMatchObject({ status: 'UNFILLED', filled_quantity: 0, market_fallback: false });
+    expect(Math.min(...calls.submit.map(r => r.limit_price!))).toBeGreaterThanOrEqual(1.045);
+    expect(calls.submit.every(r => r.order_type === 'LIMIT')).toBe(true);
+    expect(client.tables.orders.every(o => o.status === 'CANCELLED')).toBe(true);
+  });
+
+  it('falls back to market for IMMEDIATE exits once the cap is reached', async () => {
+    const client = fakeClient({ orders: [], trades: [] });
+    const { adapter, calls } = fakeBroker({ fillPrice: 1.0 });
+
+    const { result } = await chase(adapter, client, {
+      config: { ...CONFIG, maxSlippagePercent: 5 },
+      urgency: 'IMMEDIATE',
+    });
+
+    expect(result).toMatchObject({ status: 'FILLED', filled_quantity: 2, market_fallback: true, price_improvement: 0 });
+    expect(calls.submit[calls.submit.length - 1].order_type).toBe('MARKET');
+
+    const orders = client.tables.orders;
+    expect(orders[orders.length - 1]).toMatchObject({ order_type: 'MARKET', status: 'FILLED', limit_price: null });
+    expect(orders.slice(0, -1).every(o => o.status === 'CANCELLED')).toBe(true);
+  });
+
+  it('cuts the ladder short at the deadline and never waits past it', async () => {
+    const client = fakeClient({ orders: [], trades: [] });
+    const { adapter, calls } = fakeBroker({ fillPrice: 1.0 });
+    const runClock = new SimulatedClock(NOW);
+    const sleeps: number[] = [];
+
+    const result = await chaseLimitOrder({
+      supabase: client as never,
+      adapter,
+      request: exitRequest(),
+      quote: QUOTE,
+      config: CONFIG,
+      source: 'exit-worker',
+      urgency: 'IMMEDIATE',
+      orderFields: { client_order_id: 'CLT-EXIT-1' },
+      deadlineMs: NOW.getTime() + 1500,
+      clock: runClock,
+      sleep: (ms) => {
+        sleeps.push(ms);
+        runClock.advanceBy(ms);
+        return Promise.resolve();
+      },
+    });
+
+    expect(sleeps).toEqual([1000, 500]);
+    expect(calls.submit.map(r => r.limit_price ?? r.order_type)).toEqual([1.1, 1.08, 'MARKET']);
+    expect(result).toMatchObject({ status: 'FILLED', deadline_reached: true, market_fallback: true });
+    expect(client.tables.orders.slice(0, 2).every(o => o.status === 'CANCELLED')).toBe(true);
+  });
+
+  it('reports a replay and books nothing new when the chase was already sent', async () => {
+    const client = fakeClient({ orders: [], trades: [] });
+    const { adapter, calls } = fakeBroker({ fillPrice: 1.1 });
+
+    const first = await chase(adapter, client);
+    const second = await chase(adapter, client);
+
+    expect(first.result).toMatchObject({ status: 'FILLED', replayed: false });
+    expect(second.result.replayed).toBe(true);
+    expect(calls.submit).toHaveLength(1);
+    expect(client.tables.orders).toHaveLength(1);
+    expect(client.tables.trades).toHaveLength(1);
+  });
+
+  it('does not chase a one-sided quote unless the exit is IMMEDIATE', async () => {
+    const client = fakeClient({ orders: [], trades: [] });
+    const { adapter, calls } = fakeBroker({ fillPrice: 1.0 });
+
+    const result = await chaseLimitOrder({
+      supabase: client as never,
+      adapter,
+      request: exitRequest(),
+      quote: { bid: 0, ask: 1.2 } as OptionsQuote,
+      config: CONFIG,
+      source: 'exit-worker',
+      clock,
+      sleep: () => Promise.resolve(),
+    });
+
+    expect(result.status).toBe('UNFILLED');
+    expect(result.error).toContain('not two-sided');
+    expect(calls.submit).toHaveLength(0);
+  });
+});
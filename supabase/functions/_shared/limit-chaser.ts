@@ -0,0 +1,462 @@
+/**
+ * Limit Chaser
+ * Works an order from the mid toward the far side of the market: a LIMIT at
+ * mid, repriced one step at a time while it stays unfilled, never past the
+ * max-slippage cap. Brokers that support modification reprice in place;
+ * the rest get cancel/replace. IMMEDIATE exits that are still open at the
+ * cap go out as MARKET. A deadline cuts the ladder short: the price working
+ * when it passes is treated as the last one.
+ *
+ * Each price is its own order row sharing a chase_id and logs a CHASE_STEP
+ * event with the mid and far side at the start of the chase, so fills can
+ * be compared against both. New orders go out through the order outbox
+ * under `<client_order_id>-<step>`, so a crash mid-chase cannot leave an
+ * order working at the broker that no row knows about.
+ */
+
+import type { createDbClient } from "./db-client.ts";
+import type { BrokerAdapter, AdapterOrderResult } from "./broker-adapter.ts";
+import type { OptionsQuote } from "./market-data/types.ts";
+import type { Order, OrderRequest, OrderSide, OrderStatus, Trade } from "./types.ts";
+import {
+  appendOrderEvent,
+  applyOrderFill,
+  incrementalFill,
+  isTerminalStatus,
+  recordOrderSubmission,
+  transitionOrder,
+  type OrderFill,
+} from "./order-lifecycle.ts";
+import { submitOrderOnce } from "./order-outbox.ts";
+import { systemClock, type Clock } from "./refactored/core/clock.ts";
+
+type DbClient = ReturnType<typeof createDbClient>;
+
+export interface ChaseConfig {
+  steps: number; // Price steps from mid to the far side (or the cap)
+  intervalMs: number; // Time each price is given to fill
+  maxSlippagePercent: number; // Furthest the limit may move from mid, percent of mid
+}
+
+export interface ChaseOptions {
+  supabase: DbClient;
+  adapter: BrokerAdapter;
+  request: OrderRequest; // order_type and limit_price are set per step
+  quote: OptionsQuote;
+  config: ChaseConfig;
+  source: string; // Writer recorded on the order events, e.g. 'exit-worker'
+  orderFields?: Record<string, unknown>; // Extra order columns for every step, e.g. refactored_position_id
+                                         // and client_order_id (the chase_id when absent)
+  urgency?: string; // IMMEDIATE falls back to MARKET once the cap is reached
+  refreshQuote?: () => Promise<OptionsQuote | null>; // Fresh quote for each step (simulated fills)
+  deadlineMs?: number; // Epoch ms the chase must be done by; no step waits past it
+  worstPrice?: number; // Never price past this, e.g. an entry signal's limit
+  clock?: Clock;
+  sleep?: (ms: number) => Promise<void>;
+}
+
+export interface ChaseStep {
+  step: number; // 0 is the mid
+  order_id: string;
+  broker_order_id: string | null;
+  limit_price: number | null; // Null for the market fallback
+  status: OrderStatus;
+  filled_quantity: number;
+}
+
+export interface ChaseResult {
+  chase_id: string;
+  status: 'FILLED' | 'PARTIAL_FILL' | 'UNFILLED';
+  filled_quantity: number;
+  avg_fill_price: number | null;
+  mid_price: number | null;
+  far_price: number | null; // Ask for buys, bid for sells, when the chase started
+  price_improvement: number | null; // Per contract versus the far side; positive is better
+  market_fallback: boolean;
+  working_order_id: string | null; // Market fallback still working at the broker
+  deadline_reached: boolean; // Steps were skipped to finish by deadlineMs
+  replayed: boolean; // A step's client_order_id was already used; that earlier run owns the chase and its fills
+  steps: ChaseStep[];
+  error?: string;
+}
+
+// The order currently working at the broker and what is booked against it
+interface WorkingOrder {
+  order_id: string;
+  broker_order_id: string;
+  quantity: number;
+  limit_price: number | null;
+  filled_quantity: number;
+  avg_fill_price: number | null;
+}
+
+const defaultSleep = (ms: number) => new Promise<void>(resolve => setTimeout(resolve, ms));
+
+/**
+ * Limit prices for each step: the mid first, then evenly spaced toward the
+ * ask (buys) or bid (sells), stopping at the max-slippage cap and at
+ * `worstPrice` when given. Prices are rounded to the cent toward the mid and
+ * repeats are dropped. Null when the quote is not two-sided or no price is
+ * left.
+ */
+export function chasePrices(
+  side: OrderSide,
+  quote: Pick<OptionsQuote, 'bid' | 'ask'>,
+  config: ChaseConfig,
+  worstPrice?: number
+): number[] | null {
+  if (!(quote.bid > 0) || !(quote.ask > 0) || quote.bid > quote.ask) {
+    return null;
+  }
+
+  const isBuy = side.includes('BUY');
+  const mid = (quote.bid + quote.ask) / 2;
+  const cap = mid * config.maxSlippagePercent / 100;
+  const farthest = isBuy ? Math.min(quote.ask, mid + cap) : Math.max(quote.bid, mid - cap);
+  const steps = Math.max(0, Math.floor(config.steps));
+
+  const prices: number[] = [];
+  for (let step = 0; step <= steps; step++) {
+    const raw = steps === 0 ? mid : mid + (farthest - mid) * step / steps;
+    const price = isBuy
+      ? Math.floor(raw * 100 + 1e-6) / 100
+      : Math.ceil(raw * 100 - 1e-6) / 100;
+    const allowed = worstPrice === undefined || (isBuy ? price <= worstPrice : price >= worstPrice);
+    if (price > 0 && allowed && prices[prices.length - 1] !== price) {
+      prices.push(price);
+    }
+  }
+  return prices.length > 0 ? prices : null;
+}
+
+/**
+ * Works `request` through the chase ladder and returns what filled. Fills
+ * are booked on each step's order as they are seen; a step is only left
+ * once its order is cancelled or replaced and its fills are booked, so the
+ * chase never has two prices working at once.
+ */
+export async function chaseLimitOrder(options: ChaseOptions): Promise<ChaseResult> {
+  const { supabase, adapter, request, config, source } = options;
+  const clock = options.clock ?? systemClock;
+  const sleep = options.sleep ?? defaultSleep;
+  const isBuy = request.side.includes('BUY');
+  const prices = chasePrices(request.side, options.quote, config, options.worstPrice);
+  const canModify = adapter.getCapabilities().supports_order_modification && !!adapter.replaceOrder;
+
+  const chase: ChaseResult = {
+    chase_id: crypto.randomUUID(),
+    status: 'UNFILLED',
+    filled_quantity: 0,
+    avg_fill_price: null,
+    mid_price: prices ? roundPrice((options.quote.bid + options.quote.ask) / 2) : null,
+    far_price: prices ? (isBuy ? options.quote.ask : options.quote.bid) : null,
+    price_improvement: null,
+    market_fallback: false,
+    working_order_id: null,
+    deadline_reached: false,
+    replayed: false,
+    steps: [],
+  };
+
+  if (!prices && options.urgency !== 'IMMEDIATE') {
+    return { ...chase, error: 'Quote is not two-sided or is past the worst price; nothing to chase' };
+  }
+
+  let quote = options.quote;
+  let working: WorkingOrder | null = null;
+
+  const remaining = () => request.quantity - chase.filled_quantity;
+  const stepClientOrderId = (step: number) => `${options.orderFields?.client_order_id ?? chase.chase_id}-${step}`;
+
+  // Submits a new order for the step through the outbox; its row is written before the broker sees it
+  const submitStep = async (step: number, stepRequest: OrderRequest) => {
+    const outbox = await submitOrderOnce(
+      supabase,
+      adapter,
+      { ...stepRequest, client_order_id: stepClientOrderId(step) },
+      { source, orderFields: { ...options.orderFields, chase_id: chase.chase_id }, quote },
+      clock
+    );
+    chase.replayed ||= outbox.replayed;
+    return {
+      submission: { result: outbox.result, trade: outbox.replayed ? null : outbox.trade },
+      stored: outbox.order ?? undefined,
+    };
+  };
+
+  const addFill = (quantity: number, price: number) => {
+    const notional = chase.filled_quantity * (chase.avg_fill_price ?? 0) + quantity * price;
+    chase.filled_quantity += quantity;
+    chase.avg_fill_price = Math.round(notional / chase.filled_quantity * 10000) / 10000;
+  };
+
+  // Books whatever the broker reports beyond what is booked for `order`
+  const syncFills = async (order: WorkingOrder): Promise<OrderStatus | null> => {
+    const reported = await adapter.getOrderStatus(order.order_id, order.broker_order_id);
+    if (reported.error) {
+      console.warn(`[LimitChaser] Status check failed for ${order.broker_order_id}: ${reported.error}`);
+      return null;
+    }
+
+    const fill = incrementalFill(
+      order,
+      {
+        broker_order_id: order.broker_order_id,
+        filled_quantity: reported.filled_quantity,
+        avg_fill_price: reported.avg_fill_price ?? order.limit_price ?? 0,
+      },
+      reported.last_fill_time ?? clock.now().toISOString()
+    );
+    if (fill) {
+      const booked = await applyOrderFill(supabase, order.order_id, fill, source, clock);
+      if (booked.applied) {
+        order.filled_quantity = booked.filled_quantity ?? order.filled_quantity + fill.quantity;
+        order.avg_fill_price = booked.avg_fill_price ?? order.avg_fill_price;
+        addFill(fill.quantity, fill.execution_price);
+      }
+    }
+    return reported.status;
+  };
+
+  // Takes the working order off the market, booking anything that filled first
+  const retire = async (order: WorkingOrder, reason: string): Promise<boolean> => {
+    const cancelled = await adapter.cancelOrder(order.order_id, order.broker_order_id);
+    const status = await syncFills(order);
+    if (!cancelled.success && status !== 'CANCELLED') {
+      if (status === 'FILLED') {
+        return true;
+      }
+      console.error(`[LimitChaser] Could not cancel ${order.broker_order_id}: ${cancelled.error}`);
+      return false;
+    }
+    if (order.filled_quantity < order.quantity) {
+      await transitionOrder(supabase, order.order_id, { status: 'CANCELLED', source, reason }, clock);
+    }
+    return true;
+  };
+
+  // Stores a step's replacement order and its immediate fill; steps submitted
+  // through the outbox are already stored
+  const storeStep = async (
+    step: number,
+    stepRequest: OrderRequest,
+    submission: { result: AdapterOrderResult; trade: Omit<Trade, 'id' | 'created_at'> | null }
+  ): Promise<{ order: Order | null; error?: string }> => {
+    const { result, trade } = submission;
+    const now = clock.now().toISOString();
+    return recordOrderSubmission(
+      supabase,
+      {
+        ...options.orderFields,
+        client_order_id: stepClientOrderId(step),
+        chase_id: chase.chase_id,
+        broker_order_id: result.broker_order_id ?? null,
+        underlying: stepRequest.underlying,
+        symbol: stepRequest.symbol,
+        strike: stepRequest.strike,
+        expiration: stepRequest.expiration,
+        option_type: stepRequest.option_type,
+        side: stepRequest.side,
+        quantity: stepRequest.quantity,
+        order_type: stepRequest.order_type,
+        limit_price: stepRequest.limit_price ?? null,
+        time_in_force: stepRequest.time_in_force,
+        mode: adapter.mode,
+        status: result.status,
+        filled_quantity: result.filled_quantity,
+        avg_fill_price: result.avg_fill_price ?? null,
+        error_message: result.error ?? null,
+        submitted_at: now,
+        filled_at: result.status === 'FILLED' ? now : null,
+      },
+      trade ? { ...trade, broker_trade_id: trade.broker_trade_id || null } : null,
+      source,
+      clock
+    );
+  };
+
+  // Logs the step and tracks its fill; returns the order if it is still working
+  const recordStep = async (
+    step: number,
+    stepRequest: OrderRequest,
+    submission: { result: AdapterOrderResult; trade: Omit<Trade, 'id' | 'created_at'> | null },
+    stored?: Order
+  ): Promise<WorkingOrder | null> => {
+    const { result, trade } = submission;
+    const now = clock.now().toISOString();
+
+    const { order, error } = stored ? { order: stored, error: undefined } : await storeStep(step, stepRequest, submission);
+    if (!order) {
+      chase.error = `Failed to record chase step ${step}: ${error ?? result.error}`;
+      return null;
+    }
+
+    await appendOrderEvent(supabase, {
+      order_id: order.id,
+      event_type: 'CHASE_STEP',
+      to_status: order.status,
+      filled_quantity: result.filled_quantity,
+      source,
+      reason: stepRequest.order_type === 'MARKET'
+        ? `Market fallback for ${stepRequest.quantity} after the limit chase`
+        : `Step ${step + 1}/${prices?.length ?? 1} at ${stepRequest.limit_price}`,
+      details: {
+        chase_id: chase.chase_id,
+        step,
+        steps: prices?.length ?? 0,
+        order_type: stepRequest.order_type,
+        limit_price: stepRequest.limit_price ?? null,
+        mid_price: chase.mid_price,
+        far_price: chase.far_price,
+        max_slippage_percent: config.maxSlippagePercent,
+      },
+      created_at: now,
+    });
+
+    if (trade && trade.quantity > 0) {
+      addFill(trade.quantity, trade.execution_price);
+    }
+    chase.steps.push({
+      step,
+      order_id: order.id,
+      broker_order_id: result.broker_order_id ?? null,
+      limit_price: stepRequest.limit_price ?? null,
+      status: result.status,
+      filled_quantity: result.filled_quantity,
+    });
+
+    if (chase.replayed) {
+      return null;
+    }
+    if (!result.success) {
+      chase.error = result.error ?? `Chase step ${step} was rejected`;
+      return null;
+    }
+    if (!result.broker_order_id || isTerminalStatus(result.status)) {
+      return null;
+    }
+    return {
+      order_id: order.id,
+      broker_order_id: result.broker_order_id,
+      quantity: stepRequest.quantity,
+      limit_price: stepRequest.limit_price ?? null,
+      filled_quantity: result.filled_quantity,
+      avg_fill_price: result.avg_fill_price ?? null,
+    };
+  };
+
+  for (
+    let step = 0;
+    prices && step < prices.length && remaining() > 0 && !chase.error && !chase.deadline_reached && !chase.replayed;
+    step++
+  ) {
+    if (step > 0 && options.refreshQuote) {
+      quote = (await options.refreshQuote()) ?? quote;
+    }
+
+    const stepRequest: OrderRequest = {
+      ...request,
+      quantity: remaining(),
+      order_type: 'LIMIT',
+      limit_price: prices[step],
+      time_in_force: 'DAY',
+    };
+
+    let submission;
+    let stored: Order | undefined;
+    if (working && canModify) {
+      const replaced = working;
+      submission = await adapter.replaceOrder!(
+        replaced.order_id,
+        replaced.broker_order_id,
+        { ...stepRequest, client_order_id: stepClientOrderId(step) },
+        quote
+      );
+      if (!submission.result.success) {
+        // Most often the order filled or was cancelled under us; pick that up and stop
+        await syncFills(replaced);
+        chase.error = `Replace failed at step ${step}: ${submission.result.error}`;
+        break;
+      }
+      await transitionOrder(supabase, replaced.order_id, {
+        status: 'CANCELLED',
+        source,
+        reason: `Replaced at ${prices[step]}`,
+      }, clock);
+    } else {
+      ({ submission, stored } = await submitStep(step, stepRequest));
+    }
+
+    working = await recordStep(step, stepRequest, submission, stored);
+    if (!working) {
+      continue;
+    }
+
+    const waitMs = options.deadlineMs === undefined
+      ? config.intervalMs
+      : Math.min(config.intervalMs, Math.max(0, options.deadlineMs - clock.nowMs()));
+    chase.deadline_reached = waitMs < config.intervalMs;
+    await sleep(waitMs);
+    const status = await syncFills(working);
+    if (status && isTerminalStatus(status)) {
+      working = null;
+      continue;
+    }
+
+    // Leave the last price working until the cap decision below; otherwise
+    // cancel/replace brokers need the order gone before the next price goes in
+    const last = step === prices.length - 1 || chase.deadline_reached;
+    if (!last && !canModify && remaining() > 0) {
+      if (!(await retire(working, `Repriced by limit chase step ${step + 2}`))) {
+        chase.error = `Could not cancel chase step ${step}`;
+        break;
+      }
+      working = null;
+    }
+  }
+
+  if (working && remaining() > 0) {
+    const retired = await retire(
+      working,
+      chase.deadline_reached ? 'Limit chase ran out of time' : 'Limit chase reached its price cap'
+    );
+    if (retired) {
+      working = null;
+    } else {
+      chase.error ??= 'Could not cancel the last chase step';
+    }
+  }
+
+  // Only with nothing left working, so the market order cannot overfill
+  if (remaining() > 0 && !working && !chase.replayed && options.urgency === 'IMMEDIATE') {
+    if (options.refreshQuote) {
+      quote = (await options.refreshQuote()) ?? quote;
+    }
+    const marketRequest: OrderRequest = {
+      ...request,
+      quantity: remaining(),
+      order_type: 'MARKET',
+      limit_price: undefined,
+      time_in_force: 'DAY',
+    };
+    const fallbackStep = prices?.length ?? 0;
+    const { submission, stored } = await submitStep(fallbackStep, marketRequest);
+    chase.market_fallback = true;
+    const stillWorking = await recordStep(fallbackStep, marketRequest, submission, stored);
+    chase.working_order_id = stillWorking?.order_id ?? null;
+  }
+
+  chase.status = chase.filled_quantity >= request.quantity
+    ? 'FILLED'
+    : chase.filled_quantity > 0 ? 'PARTIAL_FILL' : 'UNFILLED';
+  if (chase.avg_fill_price !== null && chase.far_price !== null) {
+    chase.price_improvement = roundPrice(isBuy
+      ? chase.far_price - chase.avg_fill_price
+      : chase.avg_fill_price - chase.far_price);
+  }
+  return chase;
+}
+
+function roundPrice(price: number): number {
+  return Math.round(price * 10000) / 10000;
+}
@@ -0,0 +1,97 @@
+/**
+ * Tests for the exchange calendar
+ */
+
+import { describe, it, expect } from 'vitest';
+import { MarketCalendar, marketCalendar } from './market-calendar.ts';
+import { getCurrentMarketSession } from './market-filters.ts';
+
+describe('MarketCalendar sessions', () => {
+  it('moves the UTC open and close with daylight saving time', () => {
+    // DST starts 2026-03-08
+    expect(marketCalendar.getSession('2026-03-06')?.open.toISOString()).toBe('2026-03-06T14:30:00.000Z');
+    expect(marketCalendar.getSession('2026-03-09')?.open.toISOString()).toBe('2026-03-09T13:30:00.000Z');
+    // DST ends 2026-11-01
+    expect(marketCalendar.getSession('2026-10-30')?.close.toISOString()).toBe('2026-10-30T20:00:00.000Z');
+    expect(marketCalendar.getSession('2026-11-02')?.close.toISOString()).toBe('2026-11-02T21:00:00.000Z');
+
+    expect(marketCalendar.exchangeTime(new Date('2026-03-09T03:30:00.000Z'))).toMatchObject({
+      date: '2026-03-08',
+      weekday: 0,
+      hours: 23,
+      minutes: 30,
+    });
+  });
+
+  it('closes on holidays and at 13:00 on early-close days', () => {
+    expect(marketCalendar.getSession('2026-04-03')).toBeNull();
+    expect(marketCalendar.holidayName('2026-07-03')).toBe('Independence Day (observed)');
+    expect(marketCalendar.isTradingDay('2026-07-04')).toBe(false);
+
+    const blackFriday = marketCalendar.getSession('2026-11-27');
+    expect(blackFriday).toMatchObject({ earlyClose: true, note: 'Day after Thanksgiving' });
+    expect(blackFriday?.close.toISOString()).toBe('2026-11-27T18:00:00.000Z');
+    expect(marketCalendar.beforeClose('2026-11-27', '15:30')?.toISOString()).toBe('2026-11-27T17:30:00.000Z');
+    expect(marketCalendar.beforeClose('2026-11-30', '15:30')?.toISOString()).toBe('2026-11-30T20:30:00.000Z');
+  });
+
+  it('reports the phase and next open across weekends and holidays', () => {
+    const holiday = marketCalendar.getStatus(new Date('2026-04-03T15:00:00.000Z'));
+    expect(holiday).toMatchObject({ phase: 'CLOSED', isOpen: false, holiday: 'Good Friday', minutesSinceOpen: null });
+    expect(holiday.nextOpen.toISOString()).toBe('2026-04-06T13:30:00.000Z');
+
+    expect(marketCalendar.getStatus(new Date('2026-04-02T12:00:00.000Z')).phase).toBe('PRE_MARKET');
+    expect(marketCalendar.getStatus(new Date('2026-04-02T21:00:00.000Z')).phase).toBe('AFTER_HOURS');
+    expect(marketCalendar.getStatus(new Date('2026-04-03T01:00:00.000Z')).phase).toBe('CLOSED');
+
+    const open = marketCalendar.getStatus(new Date('2026-04-02T14:00:00.000Z'));
+    expect(open).toMatchObject({ phase: 'REGULAR', isOpen: true, minutesSinceOpen: 30, minutesToClose: 360 });
+
+    expect(marketCalendar.nextTradingDay('2026-04-02')).toBe('2026-04-06');
+    expect(marketCalendar.previousTradingDay('2026-04-06')).toBe('2026-04-02');
+    expect(marketCalendar.weekStartDate('2026-03-08')).toBe('2026-03-02');
+    expect(marketCalendar.weekStartDate('2026-03-09')).toBe('2026-03-09');
+  });
+
+  it('accepts custom holiday tables', () => {
+    const calendar = new MarketCalendar({ holidays: { '2026-03-04': 'Test closure' }, earlyCloses: {} });
+    expect(calendar.isTradingDay('2026-03-04')).toBe(false);
+    expect(calendar.isTradingDay('2026-04-03')).toBe(true);
+  });
+});
+
+describe('MarketCalendar expirations', () => {
+  it('rolls monthly and weekly expirations back from exchange holidays', () => {
+    expect(marketCalendar.monthlyExpiration(2026, 3)).toBe('2026-03-20');
+    // The third Friday of April 2025 was Good Friday
+    expect(marketCalendar.monthlyExpiration(2025, 4)).toBe('2025-04-17');
+    expect(marketCalendar.isMonthlyExpiration('2025-04-17')).toBe(true);
+
+    expect(marketCalendar.weeklyExpiration('2026-03-30')).toBe('2026-04-02');
+    expect(marketCalendar.weeklyExpiration('2026-04-05')).toBe('2026-04-02');
+    expect(marketCalendar.isWeeklyExpiration('2026-03-13')).toBe(true);
+    expect(marketCalendar.isWeeklyExpiration('2026-03-12')).toBe(false);
+  });
+
+  it('keeps index options trading past the equity close unless they expire that day', () => {
+    expect(marketCalendar.optionsCloseTime('SPY', '2026-03-04')?.toISOString()).toBe('2026-03-04T21:00:00.000Z');
+    expect(marketCalendar.optionsCloseTime('SPX', '2026-03-04', '2026-03-20')?.toISOString()).toBe('2026-03-04T21:15:00.000Z');
+    expect(marketCalendar.optionsCloseTime('SPXW', '2026-03-04', '2026-03-04')?.toISOString()).toBe('2026-03-04T21:00:00.000Z');
+    expect(marketCalendar.optionsCloseTime('XSP', '2026-12-24', '2027-01-15')?.toISOString()).toBe('2026-12-24T18:15:00.000Z');
+    expect(marketCalendar.optionsCloseTime('SPX', '2026-12-25')).toBeNull();
+
+    const afterEquityClose = new Date('2026-03-04T21:05:00.000Z');
+    expect(marketCalendar.isOptionTrading('SPX', '2026-03-20', afterEquityClose)).toBe(true);
+    expect(marketCalendar.isOptionTrading('SPX', '2026-03-04', afterEquityClose)).toBe(false);
+    expect(marketCalendar.isOptionTrading('SPY', '2026-03-20', afterEquityClose)).toBe(false);
+  });
+});
+
+describe('market session checks', () => {
+  it('buckets sessions against the early close', () => {
+    // 12:15 ET, 45 minutes before the 13:00 close
+    expect(getCurrentMarketSession(new Date('2026-11-27T17:15:00.000Z'))).toBe('POWER_HOUR');
+    expect(getCurrentMarketSession(new Date('2026-11-30T17:15:00.000Z'))).toBe('MIDDAY');
+    expect(getCurrentMarketSession(new Date('2026-11-26T15:00:00.000Z'))).toBe('AFTER_HOURS');
+  });
+});
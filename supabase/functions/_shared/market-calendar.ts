@@ -0,0 +1,486 @@
+/**
+ * Market Calendar - NYSE sessions, holidays and early closes
+ *
+ * Single source of truth for every session, market-hours, auto-close and
+ * signal-queue check. Sessions are computed in exchange time (America/New_York)
+ * so DST transitions move the UTC open and close automatically.
+ *
+ * The bundled holiday and early-close tables cover 2024-2030. Weekdays outside
+ * that range are treated as full sessions.
+ */
+
+export const EXCHANGE_TIMEZONE = 'America/New_York';
+
+export const REGULAR_OPEN = '09:30';
+export const REGULAR_CLOSE = '16:00';
+export const EARLY_CLOSE = '13:00';
+export const PRE_MARKET_OPEN = '04:00';
+export const AFTER_HOURS_CLOSE = '20:00';
+
+// Minutes index options keep trading after the equity close
+const INDEX_OPTIONS_EXTENSION_MINUTES = 15;
+
+const MS_PER_MINUTE = 60 * 1000;
+const MS_PER_DAY = 24 * 60 * MS_PER_MINUTE;
+
+/**
+ * NYSE full-day closures, keyed by exchange date
+ */
+export const NYSE_HOLIDAYS: Record<string, string> = {
+  // 2024
+  '2024-01-01': "New Year's Day",
+  '2024-01-15': 'Martin Luther King Jr. Day',
+  '2024-02-19': "Washington's Birthday",
+  '2024-03-29': 'Good Friday',
+  '2024-05-27': 'Memorial Day',
+  '2024-06-19': 'Juneteenth National Independence Day',
+  '2024-07-04': 'Independence Day',
+  '2024-09-02': 'Labor Day',
+  '2024-11-28': 'Thanksgiving Day',
+  '2024-12-25': 'Christmas Day',
+  // 2025
+  '2025-01-01': "New Year's Day",
+  '2025-01-09': 'National Day of Mourning for President Carter',
+  '2025-01-20': 'Martin Luther King Jr. Day',
+  '2025-02-17': "Washington's Birthday",
+  '2025-04-18': 'Good Friday',
+  '2025-05-26': 'Memorial Day',
+  '2025-06-19': 'Juneteenth National Independence Day',
+  '2025-07-04': 'Independence Day',
+  '2025-09-01': 'Labor Day',
+  '2025-11-27': 'Thanksgiving Day',
+  '2025-12-25': 'Christmas Day',
+  // 2026
+  '2026-01-01': "New Year's Day",
+  '2026-01-19': 'Martin Luther King Jr. Day',
+  '2026-02-16': "Washington's Birthday",
+  '2026-04-03': 'Good Friday',
+  '2026-05-25': 'Memorial Day',
+  '2026-06-19': 'Juneteenth National Independence Day',
+  '2026-07-03': 'Independence Day (observed)',
+  '2026-09-07': 'Labor Day',
+  '2026-11-26': 'Thanksgiving Day',
+  '2026-12-25': 'Christmas Day',
+  // 2027
+  '2027-01-01': "New Year's Day",
+  '2027-01-18': 'Martin Luther King Jr. Day',
+  '2027-02-15': "Washington's Birthday",
+  '2027-03-26': 'Good Friday',
+  '2027-05-31': 'Memorial Day',
+  '2027-06-18': 'Juneteenth National Independence Day (observed)',
+  '2027-07-05': 'Independence Day (observed)',
+  '2027-09-06': 'Labor Day',
+  '2027-11-25': 'Thanksgiving Day',
+  '2027-12-24': 'Christmas Day (observed)',
+  // 2028 - New Year's Day falls on a Saturday and is not observed
+  '2028-01-17': 'Martin Luther King Jr. Day',
+  '2028-02-21': "Washington's Birthday",
+  '2028-04-14': 'Good Friday',
+  '2028-05-29': 'Memorial Day',
+  '2028-06-19': 'Juneteenth National Independence Day',
+  '2028-07-04': 'Independence Day',
+  '2028-09-04': 'Labor Day',
+  '2028-11-23': 'Thanksgiving Day',
+  '2028-12-25': 'Christmas Day',
+  // 2029
+  '2029-01-01': "New Year's Day",
+  '2029-01-15': 'Martin Luther King Jr. Day',
+  '2029-02-19': "Washington's Birthday",
+  '2029-03-30': 'Good Friday',
+  '2029-05-28': 'Memorial Day',
+  '2029-06-19': 'Juneteenth National Independence Day',
+  '2029-07-04': 'Independence Day',
+  '2029-09-03': 'Labor Day',
+  '2029-11-22': 'Thanksgiving Day',
+  '2029-12-25': 'Christmas Day',
+  // 2030
+  '2030-01-01': "New Year's Day",
+  '2030-01-21': 'Martin Luther King Jr. Day',
+  '2030-02-18': "Washington's Birthday",
+  '2030-04-19': 'Good Friday',
+  '2030-05-27': 'Memorial Day',
+  '2030-06-19': 'Juneteenth National Independence Day',
+  '2030-07-04': 'Independence Day',
+  '2030-09-02': 'Labor Day',
+  '2030-11-28': 'Thanksgiving Day',
+  '2030-12-25': 'Christmas Day',
+};
+
+/**
+ * NYSE 13:00 ET early closes, keyed by exchange date
+ */
+export const NYSE_EARLY_CLOSES: Record<string, string> = {
+  '2024-07-03': 'Independence Day eve',
+  '2024-11-29': 'Day after Thanksgiving',
+  '2024-12-24': 'Christmas Eve',
+  '2025-07-03': 'Independence Day eve',
+  '2025-11-28': 'Day after Thanksgiving',
+  '2025-12-24': 'Christmas Eve',
+  '2026-11-27': 'Day after Thanksgiving',
+  '2026-12-24': 'Christmas Eve',
+  '2027-11-26': 'Day after Thanksgiving',
+  '2028-07-03': 'Independence Day eve',
+  '2028-11-24': 'Day after Thanksgiving',
+  '2029-07-03': 'Independence Day eve',
+  '2029-11-23': 'Day after Thanksgiving',
+  '2029-12-24': 'Christmas Eve',
+  '2030-07-03': 'Independence Day eve',
+  '2030-11-29': 'Day after Thanksgiving',
+  '2030-12-24': 'Christmas Eve',
+};
+
+/**
+ * Cash-settled index option roots. They trade until 16:15 ET, except expiring
+ * PM-settled series, which stop at the 16:00 close on expiration day.
+ */
+export const CASH_SETTLED_INDEXES = [
+  'SPX', 'SPXW', 'XSP', 'NDX', 'NDXP', 'RUT', 'RUTW', 'OEX', 'XEO', 'DJX', 'VIX', 'VIXW',
+];
+
+export type MarketPhase = 'PRE_MARKET' | 'REGULAR' | 'AFTER_HOURS' | 'CLOSED';
+
+export interface ExchangeTime {
+  date: string;          // YYYY-MM-DD in exchange time
+  weekday: number;       // 0=Sunday
+  hours: number;
+  minutes: number;
+  minutesOfDay: number;
+}
+
+export interface TradingSession {
+  date: string;
+  preMarketOpen: Date;
+  open: Date;
+  close: Date;
+  afterHoursClose: Date;
+  earlyClose: boolean;
+  note: string | null;   // Early-close reason
+}
+
+export interface MarketStatus {
+  phase: MarketPhase;
+  isOpen: boolean;
+  date: string;
+  session: TradingSession | null;   // Null on weekends and holidays
+  holiday: string | null;
+  minutesSinceOpen: number | null;  // Negative before the open
+  minutesToClose: number | null;    // Negative after the close
+  nextOpen: Date;
+}
+
+export interface MarketCalendarTables {
+  holidays: Record<string, string>;
+  earlyCloses: Record<string, string>;
+}
+
+function parseTime(time: string): number {
+  const [hours, minutes] = time.split(':').map(Number);
+  return (Number.isNaN(hours) ? 0 : hours) * 60 + (Number.isNaN(minutes) ? 0 : minutes);
+}
+
+function dayNumber(isoDate: string): number {
+  const [year, month, day] = isoDate.slice(0, 10).split('-').map(Number);
+  return Date.UTC(year, month - 1, day) / MS_PER_DAY;
+}
+
+function isoDate(day: number): string {
+  return new Date(day * MS_PER_DAY).toISOString().slice(0, 10);
+}
+
+function addDays(date: string, days: number): string {
+  return isoDate(dayNumber(date) + days);
+}
+
+function weekdayOf(date: string): number {
+  return new Date(dayNumber(date) * MS_PER_DAY).getUTCDay();
+}
+
+export class MarketCalendar {
+  private readonly formatter: Intl.DateTimeFormat;
+
+  constructor(
+    private tables: MarketCalendarTables = { holidays: NYSE_HOLIDAYS, earlyCloses: NYSE_EARLY_CLOSES },
+    readonly timeZone: string = EXCHANGE_TIMEZONE
+  ) {
+    this.formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+      hourCycle: 'h23',
+    });
+  }
+
+  /**
+   * Wall-clock date and time at the exchange
+   */
+  exchangeTime(date: Date): ExchangeTime {
+    const parts = this.wallClock(date);
+    const isoDay = `${parts.year}-${parts.month}-${parts.day}`;
+    const hours = Number(parts.hour);
+    const minutes = Number(parts.minute);
+
+    return {
+      date: isoDay,
+      weekday: weekdayOf(isoDay),
+      hours,
+      minutes,
+      minutesOfDay: hours * 60 + minutes,
+    };
+  }
+
+  /**
+   * Exchange calendar date (YYYY-MM-DD) containing `date`
+   */
+  sessionDate(date: Date): string {
+    return this.exchangeTime(date).date;
+  }
+
+  /**
+   * The instant an exchange wall-clock time occurs on `date` (DST-aware)
+   */
+  atExchangeTime(date: string, time: string): Date {
+    const minutes = parseTime(time);
+    const wallClockMs = dayNumber(date) * MS_PER_DAY + minutes * MS_PER_MINUTE;
+
+    // Resolve the offset at the first guess, then once more in case the guess
+    // landed on the other side of a DST transition
+    let instant = wallClockMs - this.offsetMs(new Date(wallClockMs));
+    instant = wallClockMs - this.offsetMs(new Date(instant));
+    return new Date(instant);
+  }
+
+  holidayName(date: string): string | null {
+    return this.tables.holidays[date] ?? null;
+  }
+
+  isEarlyClose(date: string): boolean {
+    return date in this.tables.earlyCloses;
+  }
+
+  isTradingDay(date: string): boolean {
+    const weekday = weekdayOf(date);
+    return weekday !== 0 && weekday !== 6 && this.holidayName(date) === null;
+  }
+
+  /**
+   * Session times for an exchange date; null when the market is closed all day
+   */
+  getSession(date: string): TradingSession | null {
+    if (!this.isTradingDay(date)) {
+      return null;
+    }
+
+    const earlyClose = this.isEarlyClose(date);
+    return {
+      date,
+      preMarketOpen: this.atExchangeTime(date, PRE_MARKET_OPEN),
+      open: this.atExchangeTime(date, REGULAR_OPEN),
+      close: this.atExchangeTime(date, earlyClose ? EARLY_CLOSE : REGULAR_CLOSE),
+      afterHoursClose: this.atExchangeTime(date, AFTER_HOURS_CLOSE),
+      earlyClose,
+      note: this.tables.earlyCloses[date] ?? null,
+    };
+  }
+
+  nextTradingDay(date: string): string {
+    let next = addDays(date, 1);
+    while (!this.isTradingDay(next)) {
+      next = addDays(next, 1);
+    }
+    return next;
+  }
+
+  previousTradingDay(date: string): string {
+    let previous = addDays(date, -1);
+    while (!this.isTradingDay(previous)) {
+      previous = addDays(previous, -1);
+    }
+    return previous;
+  }
+
+  /**
+   * The first regular-session open after `now`
+   */
+  nextOpen(now: Date): Date {
+    const today = this.getSession(this.sessionDate(now));
+    if (today && now < today.open) {
+      return today.open;
+    }
+    return this.getSession(this.nextTradingDay(this.sessionDate(now)))!.open;
+  }
+
+  /**
+   * Session phase and open/close distances at `now`
+   */
+  getStatus(now: Date): MarketStatus {
+    const date = this.sessionDate(now);
+    const session = this.getSession(date);
+    const nextOpen = this.nextOpen(now);
+
+    if (!session) {
+      return {
+        phase: 'CLOSED',
+        isOpen: false,
+        date,
+        session: null,
+        holiday: this.holidayName(date),
+        minutesSinceOpen: null,
+        minutesToClose: null,
+        nextOpen,
+      };
+    }
+
+    const nowMs = now.getTime();
+    const minutesSinceOpen = Math.floor((nowMs - session.open.getTime()) / MS_PER_MINUTE);
+    const minutesToClose = Math.ceil((session.close.getTime() - nowMs) / MS_PER_MINUTE);
+
+    let phase: MarketPhase;
+    if (nowMs >= session.open.getTime() && nowMs < session.close.getTime()) {
+      phase = 'REGULAR';
+    } else if (nowMs >= session.preMarketOpen.getTime() && nowMs < session.open.getTime()) {
+      phase = 'PRE_MARKET';
+    } else if (nowMs >= session.close.getTime() && nowMs < session.afterHoursClose.getTime()) {
+      phase = 'AFTER_HOURS';
+    } else {
+      phase = 'CLOSED';
+    }
+
+    return {
+      phase,
+      isOpen: phase === 'REGULAR',
+      date,
+      session,
+      holiday: null,
+      minutesSinceOpen,
+      minutesToClose,
+      nextOpen,
+    };
+  }
+
+  isOpen(now: Date): boolean {
+    return this.getStatus(now).isOpen;
+  }
+
+  /**
+   * The time as far before this date's close as `time` is before a regular
+   * 16:00 close, so cutoffs like "15:30" become 12:30 on early-close days.
+   * Null on non-trading days.
+   */
+  beforeClose(date: string, time: string): Date | null {
+    const session = this.getSession(date);
+    if (!session) {
+      return null;
+    }
+    const leadMinutes = parseTime(REGULAR_CLOSE) - parseTime(time);
+    return new Date(session.close.getTime() - leadMinutes * MS_PER_MINUTE);
+  }
+
+  /**
+   * When options on `underlying` stop trading on `date`. Cash-settled index
+   * options run to 16:15 ET (13:15 on early closes) unless the series expires
+   * that day, in which case they stop at the equity close. Null on non-trading days.
+   */
+  optionsCloseTime(underlying: string, date: string, expiration?: string): Date | null {
+    const session = this.getSession(date);
+    if (!session) {
+      return null;
+    }
+
+    const root = underlying.trim().toUpperCase();
+    const expiring = expiration !== undefined && expiration.slice(0, 10) === date;
+    if (!CASH_SETTLED_INDEXES.includes(root) || expiring) {
+      return session.close;
+    }
+    return new Date(session.close.getTime() + INDEX_OPTIONS_EXTENSION_MINUTES * MS_PER_MINUTE);
+  }
+
+  /**
+   * Whether options on `underlying` expiring `expiration` are trading at `now`
+   */
+  isOptionTrading(underlying: string, expiration: string, now: Date): boolean {
+    const status = this.getStatus(now);
+    if (!status.session || now < status.session.open) {
+      return false;
+    }
+    const close = this.optionsCloseTime(underlying, status.date, expiration);
+    return close !== null && now < close;
+  }
+
+  /**
+   * Standard monthly expiration: the third Friday, or the trading day before
+   * it when that Friday is a holiday
+   */
+  monthlyExpiration(year: number, month: number): string {
+    const first = `${year}-${String(month).padStart(2, '0')}-01`;
+    const thirdFriday = addDays(first, ((5 - weekdayOf(first) + 7) % 7) + 14);
+    return this.isTradingDay(thirdFriday) ? thirdFriday : this.previousTradingDay(thirdFriday);
+  }
+
+  /**
+   * Weekly expiration for the week containing `date`: Friday, or the last
+   * trading day before it in holiday weeks. Null when the whole week is closed.
+   */
+  weeklyExpiration(date: string): string | null {
+    const weekday = weekdayOf(date);
+    const friday = addDays(date, weekday === 0 ? -2 : 5 - weekday);
+    const monday = addDays(friday, -4);
+    let candidate = friday;
+    while (candidate >= monday) {
+      if (this.isTradingDay(candidate)) {
+        return candidate;
+      }
+      candidate = addDays(candidate, -1);
+    }
+    return null;
+  }
+
+  /**
+   * Monday of the week containing `date`; Sunday belongs to the week before
+   */
+  weekStartDate(date: string): string {
+    return addDays(date, -((weekdayOf(date) + 6) % 7));
+  }
+
+  isWeeklyExpiration(date: string): boolean {
+    return this.weeklyExpiration(date) === date;
+  }
+
+  isMonthlyExpiration(date: string): boolean {
+    const [year, month] = date.split('-').map(Number);
+    return this.monthlyExpiration(year, month) === date;
+  }
+
+  /**
+   * Calendar days from the exchange date of `now` to the expiration date
+   */
+  daysToExpiration(expiration: string, now: Date): number {
+    return dayNumber(expiration) - dayNumber(this.sessionDate(now));
+  }
+
+  private wallClock(date: Date): Record<string, string> {
+    return Object.fromEntries(this.formatter.formatToParts(date).map(part => [part.type, part.value]));
+  }
+
+  // Exchange UTC offset at `date`, in milliseconds (negative west of UTC)
+  private offsetMs(date: Date): number {
+    const parts = this.wallClock(date);
+    const wallClockUtc = Date.UTC(
+      Number(parts.year),
+      Number(parts.month) - 1,
+      Number(parts.day),
+      Number(parts.hour),
+      Number(parts.minute),
+      Number(parts.second)
+    );
+    return wallClockUtc - Math.floor(date.getTime() / 1000) * 1000;
+  }
+}
+
+/**
+ * Shared NYSE calendar
+ */
+export const marketCalendar = new MarketCalendar();
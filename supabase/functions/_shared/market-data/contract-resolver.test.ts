@@ -0,0 +1,236 @@
+/**
+ * Tests for symbolic strike / expiration resolution against the options chain
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  applyContractResolution,
+  parseExpirationSelector,
+  parseStrikeSelector,
+  resolveContract,
+  resolveSignalContract,
+  selectExpiration,
+  selectStrike,
+  type OptionChainSource,
+} from './contract-resolver.ts';
+import { priceOption, yearsToExpiration } from './option-pricing.ts';
+import { parseTradingViewPayload } from '../tradingview-parser.ts';
+import { parseIndicatorPayload } from '../indicator-parsers/index.ts';
+import type { OptionsChain, OptionsQuote } from './types.ts';
+import type { IncomingSignal } from '../types.ts';
+
+// Wednesday 10:00 ET
+const NOW = new Date('2026-03-04T15:00:00.000Z');
+
+const EXPIRATIONS = [
+  '2026-03-04', '2026-03-05', '2026-03-06', '2026-03-09', '2026-03-13',
+  '2026-03-20', '2026-03-27', '2026-04-02', '2026-04-17', '2026-05-15',
+];
+
+function contract(strike: number, overrides: Partial<OptionsQuote> = {}): OptionsQuote {
+  return {
+    symbol: `SPY   260306C00${strike}000`,
+    underlying: 'SPY',
+    strike,
+    expiration: '2026-03-06',
+    option_type: 'CALL',
+    bid: 2.00,
+    ask: 2.10,
+    mid: 2.05,
+    last: 2.05,
+    mark: 2.05,
+    volume: 500,
+    open_interest: 1000,
+    delta: 0.5,
+    gamma: 0.02,
+    theta: -0.1,
+    vega: 0.2,
+    implied_volatility: 0.2,
+    underlying_price: 501,
+    quote_time: NOW.toISOString(),
+    provider: 'tradier',
+    ...overrides,
+  };
+}
+
+// 515 is too thin to trade and 530 quotes too wide
+const CALLS = [
+  contract(490, { delta: 0.75 }),
+  contract(495, { delta: 0.66 }),
+  contract(500, { delta: 0.55 }),
+  contract(505, { delta: 0.45 }),
+  contract(510, { delta: 0.36 }),
+  contract(515, { delta: 0.27, open_interest: 10 }),
+  contract(520, { delta: 0.22 }),
+  contract(530, { delta: 0.12, bid: 0.20, ask: 0.40 }),
+];
+
+function source(calls: OptionsQuote[] = CALLS): OptionChainSource {
+  return {
+    getOptionExpirations: () => Promise.resolve({ success: true, data: EXPIRATIONS, provider: 'tradier', latency_ms: 0 }),
+    getOptionsChain: (underlying: string, expiration: string) => {
+      const chain: OptionsChain = {
+        underlying,
+        underlying_price: 501,
+        expirations: [expiration],
+        strikes: calls.map(quote => quote.strike),
+        calls: calls.map(quote => ({ ...quote, expiration })),
+        puts: [],
+        quote_time: NOW.toISOString(),
+        provider: 'tradier',
+      };
+      return Promise.resolve({ success: true, data: chain, provider: 'tradier', latency_ms: 0 });
+    },
+  };
+}
+
+describe('contract spec tokens', () => {
+  it('parses strike and expiration specs', () => {
+    expect(parseStrikeSelector('ATM')).toEqual({ kind: 'ATM', offset: 0 });
+    expect(parseStrikeSelector('atm + 2')).toEqual({ kind: 'ATM', offset: 2 });
+    expect(parseStrikeSelector('ATM-1')).toEqual({ kind: 'ATM', offset: -1 });
+    expect(parseStrikeSelector('25 delta')).toEqual({ kind: 'DELTA', delta: 0.25 });
+    expect(parseStrikeSelector('0.3 delta')).toEqual({ kind: 'DELTA', delta: 0.3 });
+    expect(parseStrikeSelector('25d')).toEqual({ kind: 'DELTA', delta: 0.25 });
+    expect(parseStrikeSelector('150 delta')).toBeNull();
+    expect(parseStrikeSelector('500')).toBeNull();
+
+    expect(parseExpirationSelector('0DTE')).toEqual({ kind: 'ZERO_DTE' });
+    expect(parseExpirationSelector('7 dte')).toEqual({ kind: 'MIN_DTE', days: 7 });
+    expect(parseExpirationSelector('next weekly')).toEqual({ kind: 'NEXT_WEEKLY' });
+    expect(parseExpirationSelector('nearest monthly >= 14 DTE')).toEqual({ kind: 'MONTHLY', minDte: 14 });
+    expect(parseExpirationSelector('monthly')).toEqual({ kind: 'MONTHLY', minDte: 0 });
+    expect(parseExpirationSelector('2026-03-20')).toBeNull();
+  });
+});
+
+describe('selectExpiration', () => {
+  it('picks 0DTE, weekly, minimum-DTE and monthly expirations', () => {
+    expect(selectExpiration(EXPIRATIONS, { kind: 'ZERO_DTE' }, NOW)).toBe('2026-03-04');
+    expect(selectExpiration(EXPIRATIONS, { kind: 'NEXT_WEEKLY' }, NOW)).toBe('2026-03-06');
+    expect(selectExpiration(EXPIRATIONS, { kind: 'MIN_DTE', days: 7 }, NOW)).toBe('2026-03-13');
+    expect(selectExpiration(EXPIRATIONS, { kind: 'MONTHLY', minDte: 14 }, NOW)).toBe('2026-03-20');
+    expect(selectExpiration(EXPIRATIONS, { kind: 'MONTHLY', minDte: 20 }, NOW)).toBe('2026-04-17');
+  });
+
+  it('counts days in exchange time and rolls holiday weeks to Thursday', () => {
+    // 22:00 ET on March 4 is already March 5 in UTC
+    expect(selectExpiration(EXPIRATIONS, { kind: 'ZERO_DTE' }, new Date('2026-03-05T03:00:00.000Z'))).toBe('2026-03-04');
+    expect(selectExpiration(EXPIRATIONS, { kind: 'ZERO_DTE' }, new Date('2026-03-07T15:00:00.000Z'))).toBeNull();
+    // Good Friday 2026-04-03
+    expect(selectExpiration(EXPIRATIONS, { kind: 'NEXT_WEEKLY' }, new Date('2026-03-30T15:00:00.000Z'))).toBe('2026-04-02');
+  });
+});
+
+describe('selectStrike', () => {
+  it('offsets from the at-the-money strike and skips illiquid contracts', () => {
+    expect(selectStrike(CALLS, { kind: 'ATM', offset: 0 }, 501).quote?.strike).toBe(500);
+    expect(selectStrike(CALLS, { kind: 'ATM', offset: 2 }, 501).quote?.strike).toBe(510);
+    expect(selectStrike(CALLS, { kind: 'ATM', offset: -2 }, 501).quote?.strike).toBe(490);
+    // ATM+5 is the wide 530; the nearest liquid strike stands in
+    expect(selectStrike(CALLS, { kind: 'ATM', offset: 5 }, 501).quote?.strike).toBe(520);
+    expect(selectStrike(CALLS, { kind: 'ATM', offset: 6 }, 501).success).toBe(false);
+  });
+
+  it('matches delta among liquid contracts only', () => {
+    expect(selectStrike(CALLS, { kind: 'DELTA', delta: 0.25 }, 501).quote?.strike).toBe(520);
+    expect(selectStrike(CALLS, { kind: 'DELTA', delta: 0.56 }, 501).quote?.strike).toBe(500);
+  });
+
+  it('prices delta from the mid when the provider sends no greeks', () => {
+    const T = yearsToExpiration('2026-03-20', NOW);
+    const puts = [480, 485, 490, 495, 500].map(strike => {
+      const { price } = priceOption({ optionType: 'PUT', spot: 501, strike, timeToExpiry: T, volatility: 0.25, rate: 0.04 });
+      return contract(strike, {
+        option_type: 'PUT',
+        expiration: '2026-03-20',
+        bid: price - 0.02,
+        ask: price + 0.02,
+        delta: 0,
+        gamma: 0,
+        theta: 0,
+        vega: 0,
+        implied_volatility: 0,
+      });
+    });
+    const modelDelta = (strike: number) => Math.abs(priceOption({
+      optionType: 'PUT', spot: 501, strike, timeToExpiry: T, volatility: 0.25, rate: 0.04,
+    }).delta);
+    const expected = [480, 485, 490, 495, 500]
+      .reduce((best, strike) => Math.abs(modelDelta(strike) - 0.25) < Math.abs(modelDelta(best) - 0.25) ? strike : best);
+
+    const selection = selectStrike(puts, { kind: 'DELTA', delta: 0.25 }, 501, { now: NOW });
+    expect(selection.quote?.strike).toBe(expected);
+    expect(selection.quote?.delta).toBeLessThan(0);
+  });
+
+  it('enforces configurable liquidity constraints', () => {
+    expect(selectStrike(CALLS, 515, 501)).toMatchObject({ success: false });
+    expect(selectStrike(CALLS, 515, 501, { constraints: { minOpenInterest: 5 } }).quote?.strike).toBe(515);
+    expect(selectStrike(CALLS, { kind: 'ATM', offset: 0 }, 501, { constraints: { maxSpreadPercent: 0.01 } }))
+      .toMatchObject({ success: false });
+  });
+});
+
+describe('resolveContract', () => {
+  it('resolves symbolic specs against the chain', async () => {
+    const resolution = await resolveContract(source(), {
+      underlying: 'SPY',
+      option_type: 'CALL',
+      strike: { kind: 'ATM', offset: 1 },
+      expiration: { kind: 'MONTHLY', minDte: 14 },
+    }, { now: NOW });
+
+    expect(resolution).toMatchObject({ success: true, dte: 16 });
+    expect(resolution.quote).toMatchObject({ strike: 505, expiration: '2026-03-20' });
+  });
+
+  it('rewrites the signal with the resolved contract', async () => {
+    const signal: IncomingSignal = {
+      source: 'tradingview',
+      action: 'BUY',
+      underlying: 'SPY',
+      strike: 0,
+      expiration: '',
+      option_type: 'CALL',
+      quantity: 1,
+      contract_spec: { strike: '25 delta', expiration: 'next weekly' },
+    };
+
+    const resolution = await resolveSignalContract(signal, source(), { now: NOW });
+    const resolved = applyContractResolution(signal, resolution);
+
+    expect(resolved).toMatchObject({ strike: 520, expiration: '2026-03-06' });
+    expect(resolved.contract_spec).toBeUndefined();
+    expect(resolved.metadata?.contract_spec).toEqual(signal.contract_spec);
+
+    const missing = await resolveSignalContract({ ...signal, contract_spec: { expiration: '0DTE' }, strike: 502 }, source(), { now: NOW });
+    expect(missing).toMatchObject({ success: false });
+    expect(missing.error).toContain('not listed');
+  });
+});
+
+describe('parser contract specs', () => {
+  it('accepts tokens in TradingView payloads', () => {
+    const { signal, errors } = parseTradingViewPayload({
+      action: 'BUY', ticker: 'SPY', strike: 'ATM+1', expiration: '0DTE', type: 'CALL',
+    });
+
+    expect(errors).toEqual([]);
+    expect(signal?.contract_spec).toEqual({ strike: 'ATM+1', expiration: '0DTE' });
+
+    expect(parseTradingViewPayload({ action: 'BUY', ticker: 'SPY', strike: 'ATM*2', expiration: '0DTE', type: 'CALL' }).errors)
+      .toHaveLength(1);
+    expect(parseTradingViewPayload({ action: 'BUY', ticker: 'SPY', strike: 500, expiration: '2026-03-20', type: 'CALL' })
+      .signal?.contract_spec).toBeUndefined();
+  });
+
+  it('resolves a derived indicator strike as ATM when only the expiration is symbolic', () => {
+    const { signal, errors } = parseIndicatorPayload({
+      ticker: 'SPY', trend: 'BULLISH', score: 80, current_price: 501, expiration: 'next weekly',
+    });
+
+    expect(errors).toEqual([]);
+    expect(signal?.contract_spec).toEqual({ strike: 'ATM', expiration: 'next weekly' });
+  });
+});
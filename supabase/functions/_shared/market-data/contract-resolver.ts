@@ -0,0 +1,362 @@
+/**
+ * Contract Resolver
+ *
+ * Turns symbolic contract specs into a listed contract from the live chain.
+ *
+ * Strikes:     "ATM", "ATM+2" / "ATM-1" (listed strikes above / below the
+ *              at-the-money strike), "25 delta" (or "25d", "0.25 delta")
+ * Expirations: "0DTE", "7 DTE" (nearest at least 7 days out), "next weekly",
+ *              "nearest monthly >= 14 DTE"
+ *
+ * Only contracts passing the liquidity constraints are eligible. When the
+ * exact target strike is illiquid, the nearest eligible strike is used.
+ * Days to expiration count calendar days in the exchange timezone.
+ */
+
+import type { MarketDataResult, OptionsChain, OptionsQuote } from "./types.ts";
+import type { ContractSpec, IncomingSignal, OptionType } from "../types.ts";
+import { backfillQuoteGreeks, type PricingConfig } from "./option-pricing.ts";
+import { marketCalendar } from "../market-calendar.ts";
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+export type StrikeSelector =
+  | { kind: 'ATM'; offset: number } // Listed strikes above (+) or below (-) ATM
+  | { kind: 'DELTA'; delta: number }; // Absolute delta, 0-1
+
+export type ExpirationSelector =
+  | { kind: 'ZERO_DTE' }
+  | { kind: 'MIN_DTE'; days: number }
+  | { kind: 'NEXT_WEEKLY' }
+  | { kind: 'MONTHLY'; minDte: number };
+
+export interface ContractConstraints {
+  minOpenInterest: number;
+  maxSpreadPercent: number; // (ask - bid) / mid, decimal
+}
+
+export const DEFAULT_CONTRACT_CONSTRAINTS: ContractConstraints = {
+  minOpenInterest: 100,
+  maxSpreadPercent: 0.10,
+};
+
+export interface ContractRequest {
+  underlying: string;
+  option_type: OptionType;
+  strike: StrikeSelector | number;
+  expiration: ExpirationSelector | string;
+}
+
+export interface ContractResolution {
+  success: boolean;
+  quote?: OptionsQuote;
+  dte?: number;
+  error?: string;
+}
+
+// The subset of UnifiedMarketDataService the resolver needs
+export interface OptionChainSource {
+  getOptionExpirations(underlying: string): Promise<MarketDataResult<string[]>>;
+  getOptionsChain(underlying: string, expiration: string): Promise<MarketDataResult<OptionsChain>>;
+}
+
+export interface ResolveContractOptions {
+  now?: Date;
+  constraints?: Partial<ContractConstraints>;
+  pricing?: Partial<PricingConfig>;
+}
+
+function compactToken(token: string): string {
+  return token.toUpperCase().replace(/\s+/g, '');
+}
+
+export function parseStrikeSelector(token: string): StrikeSelector | null {
+  const compact = compactToken(token);
+
+  const atm = compact.match(/^ATM(?:([+-])(\d+))?$/);
+  if (atm) {
+    return { kind: 'ATM', offset: atm[1] ? Number(`${atm[1]}${atm[2]}`) : 0 };
+  }
+
+  const delta = compact.match(/^(\d+(?:\.\d+)?)(?:DELTA|D|Δ)$/);
+  if (delta) {
+    const value = Number(delta[1]);
+    const normalized = value >= 1 ? value / 100 : value;
+    return normalized > 0 && normalized < 1 ? { kind: 'DELTA', delta: normalized } : null;
+  }
+
+  return null;
+}
+
+export function parseExpirationSelector(token: string): ExpirationSelector | null {
+  const compact = compactToken(token);
+
+  const dte = compact.match(/^(\d+)DTE$/);
+  if (dte) {
+    const days = Number(dte[1]);
+    return days === 0 ? { kind: 'ZERO_DTE' } : { kind: 'MIN_DTE', days };
+  }
+
+  if (compact === 'WEEKLY' || compact === 'NEXTWEEKLY') {
+    return { kind: 'NEXT_WEEKLY' };
+  }
+
+  const monthly = compact.match(/^(?:NEAREST|NEXT)?MONTHLY(?:>=?(\d+)DTE)?$/);
+  if (monthly) {
+    return { kind: 'MONTHLY', minDte: monthly[1] ? Number(monthly[1]) : 0 };
+  }
+
+  return null;
+}
+
+export function isStrikeToken(value: unknown): value is string {
+  return typeof value === 'string' && parseStrikeSelector(value) !== null;
+}
+
+export function isExpirationToken(value: unknown): value is string {
+  return typeof value === 'string' && parseExpirationSelector(value) !== null;
+}
+
+function dayNumber(isoDate: string): number {
+  const [year, month, day] = isoDate.slice(0, 10).split('-').map(Number);
+  return Date.UTC(year, month - 1, day) / MS_PER_DAY;
+}
+
+export function daysToExpiration(expiration: string, now: Date = new Date()): number {
+  return marketCalendar.daysToExpiration(expiration, now);
+}
+
+// Monday-based week index; day 0 (1970-01-01) was a Thursday
+function weekIndex(day: number): number {
+  return Math.floor((day + 3) / 7);
+}
+
+function thirdFriday(year: number, monthIndex: number): number {
+  const firstDay = Date.UTC(year, monthIndex, 1) / MS_PER_DAY;
+  const firstWeekday = new Date(firstDay * MS_PER_DAY).getUTCDay();
+  return firstDay + ((5 - firstWeekday + 7) % 7) + 14;
+}
+
+/**
+ * The last listed expiration of each Monday-Sunday week. Holiday weeks roll
+ * the Friday expiration to Thursday, so weekday alone is not enough.
+ */
+function weeklyExpirations(expirations: string[]): string[] {
+  const lastByWeek = new Map<number, string>();
+  for (const expiration of [...expirations].sort()) {
+    lastByWeek.set(weekIndex(dayNumber(expiration)), expiration);
+  }
+  return [...lastByWeek.values()];
+}
+
+function isMonthlyExpiration(weeklyExpiration: string): boolean {
+  const [year, month] = weeklyExpiration.slice(0, 10).split('-').map(Number);
+  return weekIndex(thirdFriday(year, month - 1)) === weekIndex(dayNumber(weeklyExpiration));
+}
+
+/**
+ * Picks the expiration a selector refers to, or null when none is listed
+ */
+export function selectExpiration(
+  expirations: string[],
+  selector: ExpirationSelector,
+  now: Date = new Date()
+): string | null {
+  const listed = [...expirations].sort().filter(expiration => daysToExpiration(expiration, now) >= 0);
+  const dte = (expiration: string) => daysToExpiration(expiration, now);
+
+  switch (selector.kind) {
+    case 'ZERO_DTE':
+      return listed.find(expiration => dte(expiration) === 0) ?? null;
+    case 'MIN_DTE':
+      return listed.find(expiration => dte(expiration) >= selector.days) ?? null;
+    case 'NEXT_WEEKLY':
+      return weeklyExpirations(listed).find(expiration => dte(expiration) >= 1) ?? null;
+    case 'MONTHLY':
+      return weeklyExpirations(listed)
+        .find(expiration => isMonthlyExpiration(expiration) && dte(expiration) >= selector.minDte) ?? null;
+  }
+}
+
+export function spreadPercent(quote: OptionsQuote): number | null {
+  if (!(quote.bid > 0) || !(quote.ask >= quote.bid)) {
+    return null;
+  }
+  return (quote.ask - quote.bid) / ((quote.ask + quote.bid) / 2);
+}
+
+export function isLiquidContract(quote: OptionsQuote, constraints: ContractConstraints): boolean {
+  const spread = spreadPercent(quote);
+  return quote.open_interest >= constraints.minOpenInterest
+    && spread !== null
+    && spread <= constraints.maxSpreadPercent;
+}
+
+function nearest<T>(items: T[], distance: (item: T) => number): T | undefined {
+  let best: T | undefined;
+  let bestDistance = Infinity;
+  for (const item of items) {
+    const d = distance(item);
+    if (d < bestDistance) {
+      best = item;
+      bestDistance = d;
+    }
+  }
+  return best;
+}
+
+/**
+ * Picks the contract a strike selector refers to from one side of a single
+ * expiration's chain
+ */
+export function selectStrike(
+  contracts: OptionsQuote[],
+  selector: StrikeSelector | number,
+  underlyingPrice: number,
+  options: ResolveContractOptions = {}
+): ContractResolution {
+  const constraints = { ...DEFAULT_CONTRACT_CONSTRAINTS, ...options.constraints };
+  const liquid = contracts.filter(quote => isLiquidContract(quote, constraints));
+  const describe = `open interest >= ${constraints.minOpenInterest}, spread <= ${(constraints.maxSpreadPercent * 100).toFixed(1)}%`;
+
+  if (liquid.length === 0) {
+    return { success: false, error: `No contracts pass the liquidity constraints (${describe})` };
+  }
+
+  if (typeof selector === 'number') {
+    const quote = liquid.find(contract => contract.strike === selector);
+    if (quote) {
+      return { success: true, quote };
+    }
+    return {
+      success: false,
+      error: contracts.some(contract => contract.strike === selector)
+        ? `Strike ${selector} fails the liquidity constraints (${describe})`
+        : `Strike ${selector} is not listed`,
+    };
+  }
+
+  if (selector.kind === 'ATM') {
+    if (!(underlyingPrice > 0)) {
+      return { success: false, error: 'Underlying price unavailable for ATM selection' };
+    }
+
+    const strikes = [...new Set(contracts.map(contract => contract.strike))].sort((a, b) => a - b);
+    const atm = nearest(strikes, strike => Math.abs(strike - underlyingPrice))!;
+    const target = strikes[strikes.indexOf(atm) + selector.offset];
+    if (target === undefined) {
+      return { success: false, error: `ATM${selector.offset >= 0 ? '+' : ''}${selector.offset} is beyond the listed strikes` };
+    }
+
+    return { success: true, quote: nearest(liquid, contract => Math.abs(contract.strike - target)) };
+  }
+
+  // Providers without greeks report zero delta; price those from the mid
+  const withDelta = liquid
+    .map(contract => contract.delta !== 0
+      ? contract
+      : backfillQuoteGreeks(
+        { ...contract, underlying_price: contract.underlying_price || underlyingPrice },
+        { now: options.now, ...options.pricing }
+      ))
+    .filter(contract => contract.delta !== 0);
+
+  const quote = nearest(withDelta, contract => Math.abs(Math.abs(contract.delta) - selector.delta));
+  return quote
+    ? { success: true, quote }
+    : { success: false, error: 'No liquid contracts have a usable delta' };
+}
+
+/**
+ * Resolves a contract request against the live chain
+ */
+export async function resolveContract(
+  source: OptionChainSource,
+  request: ContractRequest,
+  options: ResolveContractOptions = {}
+): Promise<ContractResolution> {
+  const now = options.now ?? new Date();
+  let expiration: string;
+
+  if (typeof request.expiration === 'string') {
+    expiration = request.expiration;
+  } else {
+    const expirations = await source.getOptionExpirations(request.underlying);
+    if (!expirations.success || !expirations.data) {
+      return { success: false, error: `Expirations unavailable: ${expirations.error}` };
+    }
+
+    const selected = selectExpiration(expirations.data, request.expiration, now);
+    if (!selected) {
+      return { success: false, error: `No listed ${request.underlying} expiration matches ${request.expiration.kind}` };
+    }
+    expiration = selected;
+  }
+
+  const chain = await source.getOptionsChain(request.underlying, expiration);
+  if (!chain.success || !chain.data) {
+    return { success: false, error: `Options chain unavailable: ${chain.error}` };
+  }
+
+  const contracts = (request.option_type === 'CALL' ? chain.data.calls : chain.data.puts)
+    .filter(contract => contract.expiration.slice(0, 10) === expiration);
+
+  const selection = selectStrike(contracts, request.strike, chain.data.underlying_price, { ...options, now });
+  if (!selection.success) {
+    return { ...selection, error: `${request.underlying} ${expiration} ${request.option_type}: ${selection.error}` };
+  }
+
+  return { ...selection, dte: daysToExpiration(expiration, now) };
+}
+
+/**
+ * Resolves a signal's contract_spec. Parts of the contract without a token
+ * use the signal's own strike or expiration.
+ */
+export function resolveSignalContract(
+  signal: IncomingSignal,
+  source: OptionChainSource,
+  options: ResolveContractOptions = {}
+): Promise<ContractResolution> {
+  const spec: ContractSpec = signal.contract_spec ?? {};
+  const strike = spec.strike ? parseStrikeSelector(spec.strike) : signal.strike;
+  const expiration = spec.expiration ? parseExpirationSelector(spec.expiration) : signal.expiration;
+
+  if (strike === null || expiration === null) {
+    return Promise.resolve({ success: false, error: `Unrecognized contract spec: ${JSON.stringify(spec)}` });
+  }
+
+  return resolveContract(source, {
+    underlying: signal.underlying,
+    option_type: signal.option_type,
+    strike,
+    expiration,
+  }, options);
+}
+
+/**
+ * The signal with its resolved contract, keeping the spec in metadata
+ */
+export function applyContractResolution(signal: IncomingSignal, resolution: ContractResolution): IncomingSignal {
+  const quote = resolution.quote!;
+  const { contract_spec, ...rest } = signal;
+
+  return {
+    ...rest,
+    strike: quote.strike,
+    expiration: quote.expiration.slice(0, 10),
+    metadata: {
+      ...signal.metadata,
+      contract_spec,
+      resolved_contract: {
+        symbol: quote.symbol,
+        strike: quote.strike,
+        expiration: quote.expiration.slice(0, 10),
+        dte: resolution.dte,
+        delta: quote.delta,
+        open_interest: quote.open_interest,
+        spread_percent: spreadPercent(quote),
+      },
+    },
+  };
+}
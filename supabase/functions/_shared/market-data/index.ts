@@ -6,6 +6,7 @@
  */
 
 import type { 
+  OptionsChain,
   OptionsQuote, 
   StockQuote, 
   MarketDataResult, 
@@ -15,6 +16,7 @@ import type {
 import { createTradierClient, TradierClient } from "./tradier-client.ts";
 import { createMarketdataClient, MarketdataClient } from "./marketdata-client.ts";
 import { createTwelveDataClient, TwelveDataClient } from "./twelvedata-client.ts";
+import { backfillQuoteGreeks } from "./option-pricing.ts";
 
 export interface MarketDataService {
   getOptionQuote(
@@ -24,6 +26,10 @@ export interface MarketDataService {
     optionType: 'CALL' | 'PUT'
   ): Promise<MarketDataResult<OptionsQuote>>;
   
+  getOptionExpirations(underlying: string): Promise<MarketDataResult<string[]>>;
+
+  getOptionsChain(underlying: string, expiration: string): Promise<MarketDataResult<OptionsChain>>;
+
   getStockQuote(symbol: string): Promise<MarketDataResult<StockQuote>>;
   
   getUnderlyingPrice(symbol: string): Promise<number | null>;
@@ -96,6 +102,78 @@ export class UnifiedMarketDataService implements MarketDataService {
 
         if (result.success && result.data) {
           console.log(`[MarketData] Option quote fetched from ${provider} in ${result.latency_ms}ms`);
+          return { ...result, data: await this.withModelGreeks(result.data) };
+        } else {
+          errors.push(`${provider}: ${result.error}`);
+        }
+      } catch (error) {
+        errors.push(`${provider}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      }
+    }
+
+    return {
+      success: false,
+      error: `All providers failed: ${errors.join('; ')}`,
+      provider: this.config.preferredProvider,
+      latency_ms: Date.now() - startTime,
+    };
+  }
+
+  /**
+   * Backfills IV and greeks the provider did not send (see option-pricing.ts)
+   */
+  private async withModelGreeks(quote: OptionsQuote): Promise<OptionsQuote> {
+    try {
+      const underlyingPrice = quote.underlying_price > 0
+        ? quote.underlying_price
+        : await this.getUnderlyingPrice(quote.underlying);
+
+      if (!underlyingPrice) {
+        return quote;
+      }
+
+      return backfillQuoteGreeks({ ...quote, underlying_price: underlyingPrice }, this.config.pricing);
+    } catch (error) {
+      console.warn(`[MarketData] Model greeks unavailable for ${quote.symbol}:`, error);
+      return quote;
+    }
+  }
+
+  async getOptionExpirations(underlying: string): Promise<MarketDataResult<string[]>> {
+    const startTime = Date.now();
+    const errors: string[] = [];
+
+    for (const provider of this.getProviderOrder()) {
+      try {
+        let result: MarketDataResult<string[]>;
+
+        switch (provider) {
+          case 'marketdata':
+            if (!this.marketdata) {
+              errors.push('Marketdata client not configured');
+              continue;
+            }
+            result = await this.marketdata.getOptionExpirations(underlying);
+            break;
+
+          case 'tradier':
+            if (!this.tradier) {
+              errors.push('Tradier client not configured');
+              continue;
+            }
+            result = await this.tradier.getOptionExpirations(underlying);
+            break;
+
+          case 'twelvedata':
+            errors.push('TwelveData does not support options expirations');
+            continue;
+
+          default:
+            continue;
+        }
+
+        if (result.success && result.data) {
+          console.log(`[MarketData] Option expirations fetched from ${provider} in ${result.latency_ms}ms`);
           return result;
         } else {
           errors.push(`${provider}: ${result.error}`);
@@ -113,6 +191,85 @@ export class UnifiedMarketDataService implements MarketDataService {
     };
   }
 
+  async getOptionsChain(underlying: string, expiration: string): Promise<MarketDataResult<OptionsChain>> {
+    const startTime = Date.now();
+    const errors: string[] = [];
+
+    for (const provider of this.getProviderOrder()) {
+      try {
+        let result: MarketDataResult<OptionsChain>;
+
+        switch (provider) {
+          case 'marketdata':
+            if (!this.marketdata) {
+              errors.push('Marketdata client not configured');
+              continue;
+            }
+            result = await this.marketdata.getOptionsChain(underlying, expiration);
+            break;
+
+          case 'tradier':
+            if (!this.tradier) {
+              errors.push('Tradier client not configured');
+              continue;
+            }
+            result = await this.tradier.getOptionsChain(underlying, expiration);
+            break;
+
+          case 'twelvedata':
+            errors.push('TwelveData does not support options chains');
+            continue;
+
+          default:
+            continue;
+        }
+
+        if (result.success && result.data) {
+          console.log(`[MarketData] Options chain fetched from ${provider} in ${result.latency_ms}ms`);
+          return { ...result, data: await this.withChainModelGreeks(result.data) };
+        } else {
+          errors.push(`${provider}: ${result.error}`);
+        }
+      } catch (error) {
+        errors.push(`${provider}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      }
+    }
+
+    return {
+      success: false,
+      error: `All providers failed: ${errors.join('; ')}`,
+      provider: this.config.preferredProvider,
+      latency_ms: Date.now() - startTime,
+    };
+  }
+
+  private async withChainModelGreeks(chain: OptionsChain): Promise<OptionsChain> {
+    try {
+      const underlyingPrice = chain.underlying_price > 0
+        ? chain.underlying_price
+        : await this.getUnderlyingPrice(chain.underlying);
+
+      if (!underlyingPrice) {
+        return chain;
+      }
+
+      const backfill = (quote: OptionsQuote) => backfillQuoteGreeks(
+        { ...quote, underlying_price: quote.underlying_price > 0 ? quote.underlying_price : underlyingPrice },
+        this.config.pricing
+      );
+
+      return {
+        ...chain,
+        underlying_price: underlyingPrice,
+        calls: chain.calls.map(backfill),
+        puts: chain.puts.map(backfill),
+      };
+    } catch (error) {
+      console.warn(`[MarketData] Model greeks unavailable for ${chain.underlying} chain:`, error);
+      return chain;
+    }
+  }
+
   async getStockQuote(symbol: string): Promise<MarketDataResult<StockQuote>> {
     const startTime = Date.now();
     const errors: string[] = [];
@@ -198,6 +355,8 @@ export function getMarketDataService(config?: Partial<MarketDataConfig>): Unifie
 
 // Re-export types and clients
 export * from "./types.ts";
+export * from "./option-pricing.ts";
+export * from "./contract-resolver.ts";
 export { createTradierClient } from "./tradier-client.ts";
 export { createMarketdataClient } from "./marketdata-client.ts";
 export { createTwelveDataClient, type MACDData, type ADXData, type SupertrendData, type MarketStateData, type TechnicalSnapshot } from "./twelvedata-client.ts";
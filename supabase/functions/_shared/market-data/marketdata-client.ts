@@ -32,6 +32,12 @@ interface MarketdataStockQuoteResponse {
   updated: number[];
 }
 
+interface MarketdataExpirationsResponse {
+  s: string;
+  expirations?: string[];
+  updated?: number;
+}
+
 interface MarketdataOptionsChainResponse {
   s: string;
   optionSymbol: string[];
@@ -204,6 +210,39 @@ export class MarketdataClient {
     }
   }
 
+  async getOptionExpirations(symbol: string): Promise<MarketDataResult<string[]>> {
+    const startTime = Date.now();
+
+    try {
+      const response = await this.fetch<MarketdataExpirationsResponse>(
+        `/options/expirations/${symbol.toUpperCase()}/`
+      );
+
+      if (response.s !== 'ok' || !response.expirations || response.expirations.length === 0) {
+        return {
+          success: false,
+          error: `No option expirations found for ${symbol} (status: ${response.s})`,
+          provider: 'marketdata',
+          latency_ms: Date.now() - startTime,
+        };
+      }
+
+      return {
+        success: true,
+        data: response.expirations.map(expiration => expiration.slice(0, 10)).sort(),
+        provider: 'marketdata',
+        latency_ms: Date.now() - startTime,
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+        provider: 'marketdata',
+        latency_ms: Date.now() - startTime,
+      };
+    }
+  }
+
   async getOptionsChain(
     symbol: string,
     expiration: string
@@ -264,6 +303,8 @@ export class MarketdataClient {
           option_type: optionType,
           bid: response.bid?.[i] || 0,
           ask: response.ask?.[i] || 0,
+          bid_size: response.bidSize?.[i] || 0,
+          ask_size: response.askSize?.[i] || 0,
           mid: response.mid?.[i] || 0,
           last: response.last?.[i] || 0,
           mark: response.mid?.[i] || 0,
@@ -390,6 +431,8 @@ export class MarketdataClient {
           option_type: response.side?.[i]?.toUpperCase() === 'CALL' ? 'CALL' : optionType,
           bid: response.bid?.[i] ?? 0,
           ask: response.ask?.[i] ?? 0,
+          bid_size: response.bidSize?.[i] ?? 0,
+          ask_size: response.askSize?.[i] ?? 0,
           mid: response.mid?.[i] ?? 0,
           last: response.last?.[i] ?? 0,
           mark: response.mid?.[i] ?? 0,
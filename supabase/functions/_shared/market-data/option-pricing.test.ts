@@ -0,0 +1,181 @@
+/**
+ * Tests for Black-Scholes pricing, greeks and implied volatility
+ */
+
+import { describe, it, expect } from 'vitest';
+import * as fc from 'fast-check';
+import {
+  backfillQuoteGreeks,
+  impliedVolatility,
+  normCdf,
+  priceOption,
+  yearsToExpiration,
+  type PricingInputs,
+} from './option-pricing.ts';
+import type { OptionsQuote } from './types.ts';
+
+const ATM: PricingInputs = {
+  optionType: 'CALL',
+  spot: 100,
+  strike: 100,
+  timeToExpiry: 1,
+  volatility: 0.2,
+  rate: 0.05,
+  dividendYield: 0,
+};
+
+const inputsArb = fc.record({
+  optionType: fc.constantFrom<'CALL' | 'PUT'>('CALL', 'PUT'),
+  spot: fc.double({ min: 20, max: 500, noNaN: true }),
+  moneyness: fc.double({ min: 0.8, max: 1.2, noNaN: true }),
+  timeToExpiry: fc.double({ min: 0.02, max: 2, noNaN: true }),
+  volatility: fc.double({ min: 0.05, max: 1.5, noNaN: true }),
+  rate: fc.double({ min: 0, max: 0.08, noNaN: true }),
+  dividendYield: fc.double({ min: 0, max: 0.04, noNaN: true }),
+}).map(({ moneyness, ...rest }) => ({ ...rest, strike: rest.spot * moneyness }));
+
+describe('priceOption', () => {
+  it('matches textbook Black-Scholes values', () => {
+    const call = priceOption(ATM);
+    const put = priceOption({ ...ATM, optionType: 'PUT' });
+
+    expect(normCdf(0)).toBeCloseTo(0.5, 7);
+    expect(call.price).toBeCloseTo(10.4506, 3);
+    expect(put.price).toBeCloseTo(5.5735, 3);
+    expect(call.delta).toBeCloseTo(0.6368, 4);
+    expect(put.delta).toBeCloseTo(-0.3632, 4);
+    expect(call.gamma).toBeCloseTo(0.018762, 5);
+    expect(call.vega).toBeCloseTo(0.37524, 4);
+    expect(call.theta).toBeCloseTo(-6.4140 / 365, 5);
+    expect(call.rho).toBeCloseTo(0.53232, 4);
+  });
+
+  it('satisfies put-call parity with dividends', () => {
+    fc.assert(
+      fc.property(inputsArb, (inputs) => {
+        const call = priceOption({ ...inputs, optionType: 'CALL' });
+        const put = priceOption({ ...inputs, optionType: 'PUT' });
+        const forward = inputs.spot * Math.exp(-inputs.dividendYield * inputs.timeToExpiry)
+          - inputs.strike * Math.exp(-inputs.rate * inputs.timeToExpiry);
+
+        expect(call.price - put.price).toBeCloseTo(forward, 4);
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  it('reports greeks that agree with finite differences', () => {
+    const h = 1e-4;
+    const base = priceOption(ATM);
+    const bump = (overrides: Partial<PricingInputs>) => priceOption({ ...ATM, ...overrides });
+
+    const vegaFd = (bump({ volatility: 0.2 + h }).price - bump({ volatility: 0.2 - h }).price) / (2 * h) / 100;
+    const vannaFd = (bump({ volatility: 0.2 + h }).delta - bump({ volatility: 0.2 - h }).delta) / (2 * h) / 100;
+    const charmFd = (bump({ timeToExpiry: 1 - h }).delta - bump({ timeToExpiry: 1 + h }).delta) / (2 * h) / 365;
+    const thetaFd = (bump({ timeToExpiry: 1 - h }).price - bump({ timeToExpiry: 1 + h }).price) / (2 * h) / 365;
+
+    expect(base.vega).toBeCloseTo(vegaFd, 5);
+    expect(base.vanna).toBeCloseTo(vannaFd, 5);
+    expect(base.charm).toBeCloseTo(charmFd, 6);
+    expect(base.theta).toBeCloseTo(thetaFd, 5);
+  });
+
+  it('falls back to intrinsic value at expiry', () => {
+    expect(priceOption({ ...ATM, spot: 105, timeToExpiry: 0 })).toMatchObject({ price: 5, delta: 1, gamma: 0 });
+    expect(priceOption({ ...ATM, optionType: 'PUT', spot: 105, timeToExpiry: 0 })).toMatchObject({ price: 0, delta: 0 });
+  });
+});
+
+describe('impliedVolatility', () => {
+  it('recovers the volatility that produced a price', () => {
+    fc.assert(
+      fc.property(inputsArb, (inputs) => {
+        const { price, vega } = priceOption(inputs);
+        // Skip prices too insensitive to volatility to pin it down
+        fc.pre(vega > 1e-3);
+
+        const iv = impliedVolatility(price, inputs, { tolerance: 1e-8 });
+        expect(iv).not.toBeNull();
+        expect(iv!).toBeCloseTo(inputs.volatility, 3);
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  it('rejects prices outside the no-arbitrage bounds', () => {
+    const { volatility: _volatility, ...inputs } = ATM;
+
+    expect(impliedVolatility(0, inputs)).toBeNull();
+    // Below the discounted forward intrinsic value of a deep ITM call
+    expect(impliedVolatility(40, { ...inputs, spot: 150 })).toBeNull();
+    // Above the spot price
+    expect(impliedVolatility(120, inputs)).toBeNull();
+  });
+});
+
+describe('backfillQuoteGreeks', () => {
+  const now = new Date('2026-03-04T15:00:00.000Z');
+
+  function quote(overrides: Partial<OptionsQuote> = {}): OptionsQuote {
+    return {
+      symbol: 'SPY   260417C00500000',
+      underlying: 'SPY',
+      strike: 500,
+      expiration: '2026-04-17',
+      option_type: 'CALL',
+      bid: 0,
+      ask: 0,
+      mid: 0,
+      last: 0,
+      mark: 0,
+      volume: 0,
+      open_interest: 0,
+      delta: 0,
+      gamma: 0,
+      theta: 0,
+      vega: 0,
+      implied_volatility: 0,
+      underlying_price: 500,
+      quote_time: now.toISOString(),
+      provider: 'marketdata',
+      ...overrides,
+    };
+  }
+
+  it('solves IV from the mid and fills every greek when the provider sent none', () => {
+    const T = yearsToExpiration('2026-04-17', now);
+    const theoretical = priceOption({
+      optionType: 'CALL', spot: 500, strike: 500, timeToExpiry: T, volatility: 0.18, rate: 0.04, dividendYield: 0,
+    });
+
+    const filled = backfillQuoteGreeks(
+      quote({ bid: theoretical.price - 0.05, ask: theoretical.price + 0.05 }),
+      { now }
+    );
+
+    expect(filled.greeks_source).toBe('model');
+    expect(filled.implied_volatility).toBeCloseTo(0.18, 4);
+    expect(filled.delta).toBeCloseTo(theoretical.delta, 4);
+    expect(filled.theta).toBeLessThan(0);
+    expect(filled.vanna).toBeDefined();
+    expect(filled.charm).toBeDefined();
+  });
+
+  it('keeps provider greeks and only adds vanna and charm', () => {
+    const provided = quote({ bid: 9.9, ask: 10.1, delta: 0.52, gamma: 0.01, theta: -0.2, vega: 0.6, implied_volatility: 0.2 });
+    const filled = backfillQuoteGreeks(provided, { now });
+
+    expect(filled).toMatchObject({ delta: 0.52, gamma: 0.01, implied_volatility: 0.2, greeks_source: 'provider' });
+    expect(filled.vanna).toBeDefined();
+  });
+
+  it('applies per-underlying dividend yields and leaves unpriceable quotes alone', () => {
+    const mid = quote({ bid: 9.9, ask: 10.1 });
+    const noDividend = backfillQuoteGreeks(mid, { now });
+    const withDividend = backfillQuoteGreeks(mid, { now, dividendYields: { SPY: 0.03 } });
+
+    expect(withDividend.implied_volatility).toBeGreaterThan(noDividend.implied_volatility);
+    expect(backfillQuoteGreeks(quote(), { now })).toEqual(quote());
+    expect(backfillQuoteGreeks(quote({ bid: 9.9, ask: 10.1, underlying_price: 0 }), { now }).delta).toBe(0);
+  });
+});
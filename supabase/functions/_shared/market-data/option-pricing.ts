@@ -0,0 +1,295 @@
+/**
+ * Black-Scholes-Merton Option Pricing
+ *
+ * Theoretical price, greeks and implied volatility for European options on a
+ * dividend-paying underlying. Units follow the provider quotes in OptionsQuote:
+ * volatility is a decimal (0.25 = 25%), theta and charm are per calendar day,
+ * vega, vanna and rho are per 1 point of volatility or rate.
+ *
+ * Pure functions only, so exit rules and backtests can price positions
+ * without a provider.
+ */
+
+import type { OptionsQuote } from "./types.ts";
+
+const DAYS_PER_YEAR = 365;
+const MS_PER_YEAR = DAYS_PER_YEAR * 24 * 60 * 60 * 1000;
+// One minute; keeps d1/d2 finite for contracts in their final moments
+const MIN_TIME_TO_EXPIRY = 1 / (DAYS_PER_YEAR * 24 * 60);
+
+export interface PricingConfig {
+  riskFreeRate: number; // Continuously compounded, decimal
+  dividendYield: number; // Default continuous dividend yield, decimal
+  dividendYields: Record<string, number>; // Per-underlying overrides
+}
+
+export const DEFAULT_PRICING_CONFIG: PricingConfig = {
+  riskFreeRate: 0.04,
+  dividendYield: 0,
+  dividendYields: {},
+};
+
+export interface PricingInputs {
+  optionType: 'CALL' | 'PUT';
+  spot: number;
+  strike: number;
+  timeToExpiry: number; // Years
+  volatility: number;
+  rate?: number;
+  dividendYield?: number;
+}
+
+export interface OptionTheoreticals {
+  price: number;
+  delta: number;
+  gamma: number;
+  theta: number; // Per calendar day
+  vega: number; // Per volatility point
+  rho: number; // Per rate point
+  vanna: number; // Change in delta per volatility point
+  charm: number; // Change in delta per calendar day
+}
+
+export interface ImpliedVolatilityOptions {
+  tolerance?: number; // Price tolerance
+  maxIterations?: number;
+  minVolatility?: number;
+  maxVolatility?: number;
+}
+
+/**
+ * Standard normal density
+ */
+export function normPdf(x: number): number {
+  return Math.exp(-0.5 * x * x) / Math.sqrt(2 * Math.PI);
+}
+
+/**
+ * Standard normal CDF via the complementary error function
+ * (Numerical Recipes erfcc, fractional error below 1.2e-7)
+ */
+export function normCdf(x: number): number {
+  const z = Math.abs(x) / Math.SQRT2;
+  const t = 1 / (1 + 0.5 * z);
+  const erfc = t * Math.exp(
+    -z * z - 1.26551223 + t * (1.00002368 + t * (0.37409196 + t * (0.09678418 +
+    t * (-0.18628806 + t * (0.27886807 + t * (-1.13520398 + t * (1.48851587 +
+    t * (-0.82215223 + t * 0.17087277))))))))
+  );
+  return x >= 0 ? 1 - erfc / 2 : erfc / 2;
+}
+
+/**
+ * Years from now until the 16:00 ET close on the expiration date
+ */
+export function yearsToExpiration(expiration: string, now: Date = new Date()): number {
+  const [year, month, day] = expiration.slice(0, 10).split('-').map(Number);
+  // 16:00 ET is 20:00 or 21:00 UTC; 21:00 keeps same-day contracts alive until the EST close
+  const expiry = Date.UTC(year, month - 1, day, 21, 0, 0);
+  return Math.max(0, (expiry - now.getTime()) / MS_PER_YEAR);
+}
+
+function intrinsicValue(optionType: 'CALL' | 'PUT', spot: number, strike: number): number {
+  return optionType === 'CALL' ? Math.max(0, spot - strike) : Math.max(0, strike - spot);
+}
+
+/**
+ * Theoretical price and greeks. Expired contracts and zero volatility return
+ * intrinsic value with a step delta and zero for every other greek.
+ */
+export function priceOption(inputs: PricingInputs): OptionTheoreticals {
+  const { optionType, spot, strike, timeToExpiry: T, volatility: sigma } = inputs;
+  const r = inputs.rate ?? DEFAULT_PRICING_CONFIG.riskFreeRate;
+  const q = inputs.dividendYield ?? DEFAULT_PRICING_CONFIG.dividendYield;
+  const isCall = optionType === 'CALL';
+
+  if (T <= 0 || sigma <= 0) {
+    const itm = isCall ? spot > strike : spot < strike;
+    return {
+      price: intrinsicValue(optionType, spot, strike),
+      delta: itm ? (isCall ? 1 : -1) : 0,
+      gamma: 0,
+      theta: 0,
+      vega: 0,
+      rho: 0,
+      vanna: 0,
+      charm: 0,
+    };
+  }
+
+  const sqrtT = Math.sqrt(T);
+  const d1 = (Math.log(spot / strike) + (r - q + (sigma * sigma) / 2) * T) / (sigma * sqrtT);
+  const d2 = d1 - sigma * sqrtT;
+  const dividendDiscount = Math.exp(-q * T);
+  const rateDiscount = Math.exp(-r * T);
+  const pdf = normPdf(d1);
+
+  const Nd1 = normCdf(isCall ? d1 : -d1);
+  const Nd2 = normCdf(isCall ? d2 : -d2);
+  const sign = isCall ? 1 : -1;
+
+  const price = sign * (spot * dividendDiscount * Nd1 - strike * rateDiscount * Nd2);
+  const delta = sign * dividendDiscount * Nd1;
+  const gamma = (dividendDiscount * pdf) / (spot * sigma * sqrtT);
+  const vega = spot * dividendDiscount * pdf * sqrtT;
+  const thetaYear = -(spot * dividendDiscount * pdf * sigma) / (2 * sqrtT)
+    - sign * r * strike * rateDiscount * Nd2
+    + sign * q * spot * dividendDiscount * Nd1;
+  const rho = sign * strike * T * rateDiscount * Nd2;
+  const vanna = (-dividendDiscount * pdf * d2) / sigma;
+  const charmYear = sign * q * dividendDiscount * Nd1
+    - dividendDiscount * pdf * (2 * (r - q) * T - d2 * sigma * sqrtT) / (2 * T * sigma * sqrtT);
+
+  return {
+    // Rounding can leave deep OTM prices a hair below zero
+    price: Math.max(0, price),
+    delta,
+    gamma,
+    theta: thetaYear / DAYS_PER_YEAR,
+    vega: vega / 100,
+    rho: rho / 100,
+    vanna: vanna / 100,
+    charm: charmYear / DAYS_PER_YEAR,
+  };
+}
+
+/**
+ * Implied volatility from an option price, or null when the price sits
+ * outside the no-arbitrage bounds or no volatility in range reproduces it.
+ *
+ * Newton-Raphson on vega, safeguarded by a bisection bracket so a flat vega
+ * (deep ITM/OTM, very short dated) can never send the iterate out of range.
+ */
+export function impliedVolatility(
+  targetPrice: number,
+  inputs: Omit<PricingInputs, 'volatility'>,
+  options: ImpliedVolatilityOptions = {}
+): number | null {
+  const {
+    tolerance = 1e-6,
+    maxIterations = 100,
+    minVolatility = 1e-4,
+    maxVolatility = 5,
+  } = options;
+  const T = inputs.timeToExpiry;
+
+  if (!(targetPrice > 0) || !(inputs.spot > 0) || !(inputs.strike > 0) || T <= 0) {
+    return null;
+  }
+
+  const priceAt = (volatility: number) => priceOption({ ...inputs, volatility });
+
+  let low = minVolatility;
+  let high = maxVolatility;
+  const lowPrice = priceAt(low).price;
+  const highPrice = priceAt(high).price;
+
+  if (targetPrice < lowPrice - tolerance || targetPrice > highPrice + tolerance) {
+    return null;
+  }
+  if (Math.abs(targetPrice - lowPrice) <= tolerance) return low;
+  if (Math.abs(targetPrice - highPrice) <= tolerance) return high;
+
+  // Brenner-Subrahmanyam ATM approximation as the starting point
+  let sigma = Math.sqrt((2 * Math.PI) / T) * (targetPrice / inputs.spot);
+  if (!(sigma > low && sigma < high)) {
+    sigma = (low + high) / 2;
+  }
+
+  for (let i = 0; i < maxIterations; i++) {
+    const { price, vega } = priceAt(sigma);
+    const diff = price - targetPrice;
+
+    if (Math.abs(diff) <= tolerance) {
+      return sigma;
+    }
+
+    // Price is increasing in volatility, so the sign of diff moves the bracket
+    if (diff > 0) {
+      high = sigma;
+    } else {
+      low = sigma;
+    }
+
+    const vegaPerUnit = vega * 100;
+    const newton = vegaPerUnit > 1e-12 ? sigma - diff / vegaPerUnit : NaN;
+    sigma = newton > low && newton < high ? newton : (low + high) / 2;
+
+    if (high - low < 1e-10) {
+      return sigma;
+    }
+  }
+
+  return sigma;
+}
+
+export interface QuoteGreeksOptions extends Partial<PricingConfig> {
+  now?: Date;
+}
+
+// Providers without greeks report them as zeros
+function hasProviderGreeks(quote: OptionsQuote): boolean {
+  return quote.delta !== 0 || quote.gamma !== 0 || quote.vega !== 0 || quote.theta !== 0;
+}
+
+/**
+ * Fills in what the provider left out: IV from the mid price when missing,
+ * all greeks when the provider sent none, and vanna/charm whenever IV is
+ * known. Returns the quote unchanged when it cannot be priced (no underlying
+ * price, no usable option price).
+ */
+export function backfillQuoteGreeks(quote: OptionsQuote, options: QuoteGreeksOptions = {}): OptionsQuote {
+  const config = { ...DEFAULT_PRICING_CONFIG, ...options };
+  const T = yearsToExpiration(quote.expiration, options.now);
+  const spot = quote.underlying_price;
+
+  if (!(spot > 0) || !(quote.strike > 0) || !Number.isFinite(T)) {
+    return quote;
+  }
+
+  const inputs = {
+    optionType: quote.option_type,
+    spot,
+    strike: quote.strike,
+    timeToExpiry: Math.max(T, MIN_TIME_TO_EXPIRY),
+    rate: config.riskFreeRate,
+    dividendYield: config.dividendYields[quote.underlying] ?? config.dividendYield,
+  };
+
+  const marketPrice = quote.bid > 0 && quote.ask > 0
+    ? (quote.bid + quote.ask) / 2
+    : quote.mid > 0 ? quote.mid : quote.last;
+
+  const volatility = quote.implied_volatility > 0
+    ? quote.implied_volatility
+    : impliedVolatility(marketPrice, inputs);
+
+  if (volatility === null) {
+    return quote;
+  }
+
+  const model = priceOption({ ...inputs, volatility });
+
+  if (hasProviderGreeks(quote)) {
+    return {
+      ...quote,
+      implied_volatility: volatility,
+      vanna: quote.vanna ?? model.vanna,
+      charm: quote.charm ?? model.charm,
+      greeks_source: quote.greeks_source ?? 'provider',
+    };
+  }
+
+  return {
+    ...quote,
+    implied_volatility: volatility,
+    delta: model.delta,
+    gamma: model.gamma,
+    theta: model.theta,
+    vega: model.vega,
+    rho: model.rho,
+    vanna: model.vanna,
+    charm: model.charm,
+    greeks_source: 'model',
+  };
+}
@@ -6,6 +6,7 @@
  */
 
 import { createTwelveDataClient, TwelveDataClient, type MACDData, type ADXData, type SupertrendData, type TechnicalSnapshot, type MarketStateData } from "./twelvedata-client.ts";
+import { marketCalendar, EXCHANGE_TIMEZONE } from "../market-calendar.ts";
 
 export interface TechnicalConfluenceResult {
   symbol: string;
@@ -305,39 +306,15 @@ export class TechnicalAnalysisService {
    */
   private getFallbackSchedule(): MarketScheduleInfo {
     const now = new Date();
-    const estOffset = -5;
-    const utcHour = now.getUTCHours();
-    const estHour = (utcHour + estOffset + 24) % 24;
-    const estMinutes = now.getUTCMinutes();
-    const currentMinutes = estHour * 60 + estMinutes;
-    
-    const marketOpenMinutes = 9 * 60 + 30; // 9:30 AM
-    const marketCloseMinutes = 16 * 60;    // 4:00 PM
-    
-    const isOpen = currentMinutes >= marketOpenMinutes && currentMinutes < marketCloseMinutes;
-    const dayOfWeek = now.getDay();
-    const isWeekend = dayOfWeek === 0 || dayOfWeek === 6;
-    
-    let session: 'PRE_MARKET' | 'REGULAR' | 'AFTER_HOURS' | 'CLOSED';
-    if (isWeekend) {
-      session = 'CLOSED';
-    } else if (isOpen) {
-      session = 'REGULAR';
-    } else if (currentMinutes >= 4 * 60 && currentMinutes < marketOpenMinutes) {
-      session = 'PRE_MARKET';
-    } else if (currentMinutes >= marketCloseMinutes && currentMinutes < 20 * 60) {
-      session = 'AFTER_HOURS';
-    } else {
-      session = 'CLOSED';
-    }
+    const status = marketCalendar.getStatus(now);
     
     return {
-      isOpen: isOpen && !isWeekend,
-      session,
-      minutesToOpen: isOpen ? null : Math.max(0, marketOpenMinutes - currentMinutes),
-      minutesToClose: isOpen ? marketCloseMinutes - currentMinutes : null,
-      nextOpen: null,
-      timezone: 'America/New_York',
+      isOpen: status.isOpen,
+      session: status.phase,
+      minutesToOpen: status.isOpen ? null : Math.max(0, Math.ceil((status.nextOpen.getTime() - now.getTime()) / 60000)),
+      minutesToClose: status.isOpen ? status.minutesToClose : null,
+      nextOpen: status.nextOpen.toISOString(),
+      timezone: EXCHANGE_TIMEZONE,
     };
   }
   
@@ -44,6 +44,12 @@ interface TradierOptionsChainResponse {
   } | null;
 }
 
+interface TradierExpirationsResponse {
+  expirations: {
+    date: string[] | string;
+  } | null;
+}
+
 interface TradierOption {
   symbol: string;
   description: string;
@@ -211,6 +217,43 @@ export class TradierClient {
     }
   }
 
+  async getOptionExpirations(symbol: string): Promise<MarketDataResult<string[]>> {
+    const startTime = Date.now();
+
+    try {
+      const response = await this.fetch<TradierExpirationsResponse>('/markets/options/expirations', {
+        symbol: symbol.toUpperCase(),
+      });
+
+      const dates = response.expirations?.date;
+      // Tradier collapses single-element arrays to a bare value
+      const expirations = Array.isArray(dates) ? dates : dates ? [dates] : [];
+
+      if (expirations.length === 0) {
+        return {
+          success: false,
+          error: `No option expirations found for ${symbol}`,
+          provider: 'tradier',
+          latency_ms: Date.now() - startTime,
+        };
+      }
+
+      return {
+        success: true,
+        data: [...expirations].sort(),
+        provider: 'tradier',
+        latency_ms: Date.now() - startTime,
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+        provider: 'tradier',
+        latency_ms: Date.now() - startTime,
+      };
+    }
+  }
+
   async getOptionsChain(
     symbol: string, 
     expiration: string,
@@ -254,6 +297,8 @@ export class TradierClient {
           option_type: opt.option_type.toUpperCase() === 'CALL' ? 'CALL' : 'PUT',
           bid: opt.bid || 0,
           ask: opt.ask || 0,
+          bid_size: opt.bidsize || 0,
+          ask_size: opt.asksize || 0,
           mid: ((opt.bid || 0) + (opt.ask || 0)) / 2,
           last: opt.last || 0,
           mark: ((opt.bid || 0) + (opt.ask || 0)) / 2,
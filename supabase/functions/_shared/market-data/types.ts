@@ -2,6 +2,8 @@
  * Shared types for market data providers
  */
 
+import type { PricingConfig } from "./option-pricing.ts";
+
 export interface OptionsQuote {
   symbol: string;           // OCC symbol
   underlying: string;
@@ -15,6 +17,8 @@ export interface OptionsQuote {
   mid: number;
   last: number;
   mark: number;
+  bid_size?: number;        // Displayed contracts at the bid
+  ask_size?: number;        // Displayed contracts at the ask
   
   // Volume & Interest
   volume: number;
@@ -26,6 +30,9 @@ export interface OptionsQuote {
   theta: number;
   vega: number;
   rho?: number;
+  vanna?: number;           // Change in delta per volatility point
+  charm?: number;           // Change in delta per calendar day
+  greeks_source?: 'provider' | 'model'; // 'model' when computed by option-pricing.ts
   
   // Volatility
   implied_volatility: number;
@@ -88,6 +95,7 @@ export interface MarketDataConfig {
   fallbackProviders: ('tradier' | 'marketdata' | 'twelvedata')[];
   cacheSeconds: number;
   timeout_ms: number;
+  pricing?: Partial<PricingConfig>; // Rate/dividend inputs for model greeks
 }
 
 export const DEFAULT_MARKET_DATA_CONFIG: MarketDataConfig = {
@@ -6,10 +6,11 @@
  * - Volume confirmation
  * - VIX thresholds
  * - Liquidity checks
- * - Real-time market schedule from TechnicalAnalysisService
+ * - Market schedule from the exchange calendar
  */
 
-import { getMarketDataService, getTechnicalAnalysisService, type OptionsQuote, type StockQuote, type MarketScheduleInfo } from "./market-data/index.ts";
+import { getMarketDataService, type StockQuote } from "./market-data/index.ts";
+import { marketCalendar, type MarketPhase } from "./market-calendar.ts";
 
 export interface MarketFilterConfig {
   // VIX thresholds
@@ -89,119 +90,22 @@ async function getVixLevel(): Promise<number | null> {
   }
 }
 
-// Cached market schedule to avoid repeated API calls
-let cachedSchedule: { data: MarketScheduleInfo; expiry: number } | null = null;
-const SCHEDULE_CACHE_TTL = 60 * 1000; // 1 minute
-
 /**
- * Get current market schedule from TechnicalAnalysisService
- * Uses caching to minimize API calls
+ * Current market schedule from the exchange calendar (holidays, early closes, DST)
  */
-async function getMarketScheduleAsync(): Promise<{
+export function getMarketSchedule(now: Date = new Date()): {
   minutesSinceOpen: number;
   minutesToClose: number;
   isOpen: boolean;
-  session: 'PRE_MARKET' | 'REGULAR' | 'AFTER_HOURS' | 'CLOSED';
-}> {
-  // Check cache
-  if (cachedSchedule && cachedSchedule.expiry > Date.now()) {
-    const schedule = cachedSchedule.data;
-    return {
-      minutesSinceOpen: schedule.minutesToClose ? 390 - schedule.minutesToClose : 0,
-      minutesToClose: schedule.minutesToClose ?? 0,
-      isOpen: schedule.isOpen,
-      session: schedule.session,
-    };
-  }
-  
-  try {
-    const techService = getTechnicalAnalysisService();
-    const schedule = await techService.getMarketSchedule();
-    
-    // Cache the result
-    cachedSchedule = { data: schedule, expiry: Date.now() + SCHEDULE_CACHE_TTL };
-    
-    return {
-      minutesSinceOpen: schedule.minutesToClose ? 390 - schedule.minutesToClose : 0,
-      minutesToClose: schedule.minutesToClose ?? 0,
-      isOpen: schedule.isOpen,
-      session: schedule.session,
-    };
-  } catch (error) {
-    console.warn('Failed to get market schedule, using fallback:', error);
-    return getFallbackSchedule();
-  }
-}
-
-/**
- * Synchronous fallback for when async schedule fetch isn't available
- */
-function getFallbackSchedule(): {
-  minutesSinceOpen: number;
-  minutesToClose: number;
-  isOpen: boolean;
-  session: 'PRE_MARKET' | 'REGULAR' | 'AFTER_HOURS' | 'CLOSED';
+  session: MarketPhase;
 } {
-  const now = new Date();
-  const estOffset = -5;
-  const utcHour = now.getUTCHours();
-  const estHour = (utcHour + estOffset + 24) % 24;
-  const estMinutes = now.getUTCMinutes();
-  const currentMinutes = estHour * 60 + estMinutes;
-  
-  const marketOpenMinutes = 9 * 60 + 30;
-  const marketCloseMinutes = 16 * 60;
-  
-  const minutesSinceOpen = currentMinutes - marketOpenMinutes;
-  const minutesToClose = marketCloseMinutes - currentMinutes;
-  const isOpen = minutesSinceOpen >= 0 && minutesToClose > 0;
-  const dayOfWeek = now.getDay();
-  const isWeekend = dayOfWeek === 0 || dayOfWeek === 6;
-  
-  let session: 'PRE_MARKET' | 'REGULAR' | 'AFTER_HOURS' | 'CLOSED';
-  if (isWeekend) {
-    session = 'CLOSED';
-  } else if (isOpen) {
-    session = 'REGULAR';
-  } else if (currentMinutes >= 4 * 60 && currentMinutes < marketOpenMinutes) {
-    session = 'PRE_MARKET';
-  } else if (currentMinutes >= marketCloseMinutes && currentMinutes < 20 * 60) {
-    session = 'AFTER_HOURS';
-  } else {
-    session = 'CLOSED';
-  }
-  
-  return { minutesSinceOpen, minutesToClose, isOpen: isOpen && !isWeekend, session };
-}
-
-/**
- * Legacy sync function - uses cached schedule or fallback
- */
-function getMinutesSinceMarketOpen(): number {
-  if (cachedSchedule && cachedSchedule.expiry > Date.now()) {
-    return cachedSchedule.data.minutesToClose ? 390 - cachedSchedule.data.minutesToClose : 0;
-  }
-  return getFallbackSchedule().minutesSinceOpen;
-}
-
-/**
- * Legacy sync function - uses cached schedule or fallback
- */
-function getMinutesUntilMarketClose(): number {
-  if (cachedSchedule && cachedSchedule.expiry > Date.now()) {
-    return cachedSchedule.data.minutesToClose ?? 0;
-  }
-  return getFallbackSchedule().minutesToClose;
-}
-
-/**
- * Check if market is currently open
- */
-function isMarketOpen(): boolean {
-  if (cachedSchedule && cachedSchedule.expiry > Date.now()) {
-    return cachedSchedule.data.isOpen;
-  }
-  return getFallbackSchedule().isOpen;
+  const status = marketCalendar.getStatus(now);
+  return {
+    minutesSinceOpen: status.minutesSinceOpen ?? 0,
+    minutesToClose: status.minutesToClose ?? 0,
+    isOpen: status.isOpen,
+    session: status.phase,
+  };
 }
 
 /**
@@ -238,8 +142,7 @@ export async function applyMarketFilters(
   const recommendations: string[] = [];
   const marketData = getMarketDataService();
   
-  // Get real-time market schedule (updates cache)
-  const schedule = await getMarketScheduleAsync();
+  const schedule = getMarketSchedule();
   
   // Initialize filter results
   const filters: MarketFilterResult['filters'] = {
@@ -259,7 +162,7 @@ export async function applyMarketFilters(
   let openInterest: number | null = null;
   
   try {
-    // 1. Timing filter - uses real-time schedule from TechnicalAnalysisService
+    // 1. Timing filter - exchange calendar session
     filters.timing.minutesSinceOpen = schedule.minutesSinceOpen;
     
     if (!schedule.isOpen) {
@@ -428,32 +331,25 @@ export async function isVixTooHigh(maxVix: number = 35): Promise<boolean> {
   return vix !== null && vix > maxVix;
 }
 
-/**
- * Get cached market schedule for use by other modules
- * Returns null if no cached schedule is available
- */
-export function getCachedMarketSchedule(): MarketScheduleInfo | null {
-  if (cachedSchedule && cachedSchedule.expiry > Date.now()) {
-    return cachedSchedule.data;
-  }
-  return null;
-}
-
 /**
  * Get current market session
  */
 export type MarketSession = 'PRE_MARKET' | 'OPENING' | 'MORNING' | 'MIDDAY' | 'AFTERNOON' | 'POWER_HOUR' | 'CLOSING' | 'AFTER_HOURS';
 
-export function getCurrentMarketSession(): MarketSession {
-  const minutesSinceOpen = getMinutesSinceMarketOpen();
-  const minutesUntilClose = getMinutesUntilMarketClose();
+export function getCurrentMarketSession(now: Date = new Date()): MarketSession {
+  const status = marketCalendar.getStatus(now);
+  
+  // Weekends and holidays wait for the next open like after-hours
+  if (status.phase === 'PRE_MARKET') return 'PRE_MARKET';
+  if (!status.isOpen) return 'AFTER_HOURS';
   
-  if (minutesSinceOpen < 0) return 'PRE_MARKET';
-  if (minutesUntilClose <= 0) return 'AFTER_HOURS';
+  const minutesSinceOpen = status.minutesSinceOpen!;
+  const minutesUntilClose = status.minutesToClose!;
   if (minutesSinceOpen < 15) return 'OPENING';
+  // Close-relative sessions first so early closes keep their last hour
+  if (minutesUntilClose <= 10) return 'CLOSING';
+  if (minutesUntilClose <= 60) return 'POWER_HOUR';
   if (minutesSinceOpen < 90) return 'MORNING';
   if (minutesSinceOpen < 210) return 'MIDDAY';
-  if (minutesUntilClose > 60) return 'AFTERNOON';
-  if (minutesUntilClose > 10) return 'POWER_HOUR';
-  return 'CLOSING';
+  return 'AFTERNOON';
 }
@@ -0,0 +1,241 @@
+/**
+ * Tests for multi-leg order validation, net pricing and paper simulation
+ */
+
+import { describe, it, expect } from 'vitest';
+import * as fc from 'fast-check';
+import {
+  calculateNetPrice,
+  executeMultiLegOrder,
+  isNetLimitMarketable,
+  multiLegClientOrderId,
+  validateMultiLegOrder,
+} from './multi-leg-orders.ts';
+import { PaperAdapter } from './paper-adapter.ts';
+import { fakeAdapter, fakeClient } from './test-utils/fake-db.ts';
+import type { MultiLegOrderRequest, OrderLegRequest } from './types.ts';
+
+const EXP = '2026-03-20';
+
+function leg(
+  option_type: 'CALL' | 'PUT',
+  strike: number,
+  side: OrderLegRequest['side'],
+  expiration = EXP
+): OrderLegRequest {
+  return {
+    symbol: `SPY${expiration}${option_type[0]}${strike}`,
+    strike,
+    expiration,
+    option_type,
+    side,
+    ratio: 1,
+  };
+}
+
+function callVertical(overrides: Partial<MultiLegOrderRequest> = {}): MultiLegOrderRequest {
+  return {
+    strategy_type: 'VERTICAL',
+    underlying: 'SPY',
+    legs: [leg('CALL', 500, 'BUY_TO_OPEN'), leg('CALL', 505, 'SELL_TO_OPEN')],
+    quantity: 2,
+    order_type: 'LIMIT',
+    net_price: 2.0,
+    price_effect: 'DEBIT',
+    time_in_force: 'DAY',
+    ...overrides,
+  };
+}
+
+describe('validateMultiLegOrder', () => {
+  it('accepts well-formed strategies', () => {
+    expect(validateMultiLegOrder(callVertical())).toEqual([]);
+    expect(validateMultiLegOrder({
+      ...callVertical(),
+      strategy_type: 'IRON_CONDOR',
+      legs: [
+        leg('PUT', 480, 'BUY_TO_OPEN'),
+        leg('PUT', 485, 'SELL_TO_OPEN'),
+        leg('CALL', 515, 'SELL_TO_OPEN'),
+        leg('CALL', 520, 'BUY_TO_OPEN'),
+      ],
+      price_effect: 'CREDIT',
+    })).toEqual([]);
+    expect(validateMultiLegOrder({
+      ...callVertical(),
+      strategy_type: 'CALENDAR',
+      legs: [leg('CALL', 500, 'SELL_TO_OPEN'), leg('CALL', 500, 'BUY_TO_OPEN', '2026-04-17')],
+    })).toEqual([]);
+    expect(validateMultiLegOrder({
+      ...callVertical(),
+      strategy_type: 'STRADDLE',
+      legs: [leg('CALL', 500, 'BUY_TO_OPEN'), leg('PUT', 500, 'BUY_TO_OPEN')],
+    })).toEqual([]);
+  });
+
+  it('rejects legs that do not match the strategy shape', () => {
+    expect(validateMultiLegOrder(callVertical({
+      legs: [leg('CALL', 500, 'BUY_TO_OPEN'), leg('CALL', 505, 'BUY_TO_OPEN')],
+    }))).toContain('VERTICAL requires one long and one short leg');
+
+    expect(validateMultiLegOrder({
+      ...callVertical(),
+      strategy_type: 'STRANGLE',
+      legs: [leg('CALL', 500, 'BUY_TO_OPEN'), leg('PUT', 500, 'BUY_TO_OPEN')],
+    })).toContain('STRANGLE legs must have different strikes');
+
+    expect(validateMultiLegOrder(callVertical({ net_price: undefined })))
+      .toContain('LIMIT orders require a non-negative net_price');
+  });
+});
+
+describe('calculateNetPrice', () => {
+  it('nets buys against sells into a debit or credit', () => {
+    const legs = callVertical().legs;
+    expect(calculateNetPrice(legs, [3.5, 1.2])).toEqual({ net_price: 2.3, price_effect: 'DEBIT' });
+    expect(calculateNetPrice(legs, [1.0, 1.4])).toEqual({ net_price: 0.4, price_effect: 'CREDIT' });
+    expect(calculateNetPrice(legs, [1.0, 1.0])).toEqual({ net_price: 0, price_effect: 'EVEN' });
+  });
+
+  it('Property: reversing every leg side flips the price effect', () => {
+    fc.assert(
+      fc.property(
+        fc.float({ min: Math.fround(0.05), max: 20, noNaN: true }),
+        fc.float({ min: Math.fround(0.05), max: 20, noNaN: true }),
+        (longPrice, shortPrice) => {
+          const legs = callVertical().legs;
+          const reversed = legs.map(l => ({
+            ...l,
+            side: l.side === 'BUY_TO_OPEN' ? 'SELL_TO_OPEN' as const : 'BUY_TO_OPEN' as const,
+          }));
+          const forward = calculateNetPrice(legs, [longPrice, shortPrice]);
+          const backward = calculateNetPrice(reversed, [longPrice, shortPrice]);
+
+          expect(backward.net_price).toBe(forward.net_price);
+          if (forward.price_effect === 'DEBIT') expect(backward.price_effect).toBe('CREDIT');
+          if (forward.price_effect === 'CREDIT') expect(backward.price_effect).toBe('DEBIT');
+        }
+      )
+    );
+  });
+
+  it('treats a credit limit as marketable only when the market credit is at least the limit', () => {
+    const request = callVertical({ price_effect: 'CREDIT', net_price: 0.5 });
+    expect(isNetLimitMarketable(request, { net_price: 0.6, price_effect: 'CREDIT' })).toBe(true);
+    expect(isNetLimitMarketable(request, { net_price: 0.4, price_effect: 'CREDIT' })).toBe(false);
+    expect(isNetLimitMarketable(request, { net_price: 0.1, price_effect: 'DEBIT' })).toBe(false);
+  });
+});
+
+describe('PaperAdapter.submitMultiLegOrder', () => {
+  it('fills every leg when the net limit is marketable', async () => {
+    const adapter = new PaperAdapter({ slippage_percent: 0, deterministic: true, seed: 1 });
+    const { result, trades } = await adapter.submitMultiLegOrder(callVertical(), [3.0, 1.2]);
+
+    expect(result.status).toBe('FILLED');
+    expect(result.net_fill_price).toBe(1.8);
+    expect(result.price_effect).toBe('DEBIT');
+    expect(result.leg_results.map(r => r.leg_number)).toEqual([1, 2]);
+    expect(trades).toHaveLength(2);
+    expect(trades.every(t => t.quantity === 2)).toBe(true);
+    // Long leg pays premium, short leg receives it
+    expect(trades[0].total_cost).toBeGreaterThan(0);
+    expect(trades[1].total_cost).toBeLessThan(0);
+  });
+
+  it('leaves all legs resting when the net limit is not reachable', async () => {
+    const adapter = new PaperAdapter({ slippage_percent: 0 });
+    const { result, trades } = await adapter.submitMultiLegOrder(callVertical({ net_price: 1.0 }), [3.0, 1.2]);
+
+    expect(result.status).toBe('SUBMITTED');
+    expect(result.leg_results.every(r => r.status === 'SUBMITTED')).toBe(true);
+    expect(trades).toEqual([]);
+  });
+
+  it('fills a resting order later under the leg ids it was given', async () => {
+    const adapter = new PaperAdapter({ slippage_percent: 0 });
+    const request = callVertical({ net_price: 1.0 });
+    const { result: resting } = await adapter.submitMultiLegOrder(request, [3.0, 1.2]);
+    const legIds = resting.leg_results.map(r => r.broker_order_id);
+
+    expect(new Set(legIds).size).toBe(2);
+    expect(legIds.every(id => id?.startsWith(`${resting.broker_order_id}-`))).toBe(true);
+
+    const still = adapter.evaluateMultiLegOrder(request, [2.9, 1.2], 'str-1', resting.broker_order_id!);
+    expect(still.result.status).toBe('SUBMITTED');
+
+    const { result, trades } = adapter.evaluateMultiLegOrder(request, [2.1, 1.2], 'str-1', resting.broker_order_id!);
+    expect(result.status).toBe('FILLED');
+    expect(result.leg_results.map(r => r.broker_order_id)).toEqual(legIds);
+    expect(trades.map(t => t.leg_number)).toEqual([1, 2]);
+  });
+});
+
+describe('multiLegClientOrderId', () => {
+  it('gives the same signal, strategy and legs the same Tradier-safe id', async () => {
+    const id = await multiLegClientOrderId(callVertical({ signal_id: 'sig-1' }));
+
+    expect(await multiLegClientOrderId(callVertical({ signal_id: 'sig-1' }))).toBe(id);
+    expect(id).toMatch(/^CLT-ML-[0-9a-f]{32}$/);
+    expect(await multiLegClientOrderId(callVertical({ signal_id: 'sig-2' }))).not.toBe(id);
+    expect(await multiLegClientOrderId(callVertical({
+      signal_id: 'sig-1',
+      legs: [leg('CALL', 500, 'BUY_TO_OPEN'), leg('CALL', 510, 'SELL_TO_OPEN')],
+    }))).not.toBe(id);
+  });
+});
+
+describe('executeMultiLegOrder', () => {
+  it('never submits an invalid strategy', async () => {
+    let submitted = false;
+    const adapter = {
+      mode: 'PAPER',
+      submitMultiLegOrder: () => {
+        submitted = true;
+        throw new Error('should not be called');
+      },
+    };
+
+    const execution = await executeMultiLegOrder(
+      {} as never,
+      adapter as never,
+      callVertical({ legs: [leg('CALL', 500, 'BUY_TO_OPEN'), leg('CALL', 505, 'BUY_TO_OPEN')] })
+    );
+
+    expect(submitted).toBe(false);
+    expect(execution.result).toBeNull();
+    expect(execution.errors).toContain('VERTICAL requires one long and one short leg');
+  });
+
+  it('stores one strategy and links each leg order by strategy_id and leg_number', async () => {
+    const client = fakeClient({ strategies: [], orders: [], trades: [] });
+    const paper = new PaperAdapter({ slippage_percent: 0 });
+    const adapter = fakeAdapter({
+      submitMultiLegOrder: (request: MultiLegOrderRequest, legPrices?: number[]) => paper.submitMultiLegOrder(request, legPrices),
+    }, { mode: 'PAPER' });
+    const request = callVertical({ signal_id: 'sig-1' });
+
+    const execution = await executeMultiLegOrder(client as never, adapter, request, [3.0, 1.2]);
+    const retry = await executeMultiLegOrder(client as never, adapter, request, [3.0, 1.2]);
+
+    const strategyId = execution.persisted?.strategy_id;
+    expect(client.tables.strategies).toEqual([expect.objectContaining({
+      id: strategyId,
+      client_order_id: await multiLegClientOrderId(request),
+      status: 'FILLED',
+      price_effect: 'DEBIT',
+      mode: 'PAPER',
+      broker_order_id: execution.result?.broker_order_id,
+    })]);
+    expect(client.tables.orders.map(o => [o.strategy_id, o.leg_number, o.status])).toEqual([
+      [strategyId, 1, 'FILLED'],
+      [strategyId, 2, 'FILLED'],
+    ]);
+    expect(client.tables.trades.map(t => t.order_id)).toEqual(execution.persisted?.order_ids);
+    expect(client.tables.trades.every(t => !('leg_number' in t))).toBe(true);
+
+    // The retry finds the strategy by its client_order_id and sends nothing
+    expect(retry).toMatchObject({ replayed: true, persisted: { strategy_id: strategyId } });
+    expect(client.tables.orders).toHaveLength(2);
+  });
+});
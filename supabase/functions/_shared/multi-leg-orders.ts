@@ -0,0 +1,265 @@
+/**
+ * Multi-Leg Orders
+ *
+ * Validation, net pricing, submission and persistence for multi-leg option
+ * orders (verticals, straddles, strangles, iron condors, calendars).
+ * Each leg is stored as an `orders` row linked by strategy_id / leg_number,
+ * written through the order outbox before the order is sent.
+ */
+
+import type {
+  MultiLegOrderRequest,
+  MultiLegOrderResult,
+  NetPriceEffect,
+  OrderLegRequest,
+  OrderSide,
+  OrderStatus,
+} from "./types.ts";
+import type { BrokerAdapter } from "./broker-adapter.ts";
+import type { createDbClient } from "./db-client.ts";
+import { generateSignalHash } from "./hmac.ts";
+import { submitMultiLegOrderOnce } from "./order-outbox.ts";
+
+export function isBuySide(side: OrderSide): boolean {
+  return side.includes('BUY');
+}
+
+/**
+ * Net price per spread from per-leg prices.
+ * Buys add, sells subtract: a positive total is a debit, negative a credit.
+ */
+export function calculateNetPrice(
+  legs: OrderLegRequest[],
+  legPrices: number[]
+): { net_price: number; price_effect: NetPriceEffect } {
+  const signed = legs.reduce((sum, leg, index) => {
+    const price = (legPrices[index] ?? 0) * leg.ratio;
+    return isBuySide(leg.side) ? sum + price : sum - price;
+  }, 0);
+
+  const rounded = Math.round(signed * 100) / 100;
+
+  return {
+    net_price: Math.abs(rounded),
+    price_effect: rounded > 0 ? 'DEBIT' : rounded < 0 ? 'CREDIT' : 'EVEN',
+  };
+}
+
+/**
+ * Whether a net limit would execute against the current net market price
+ */
+export function isNetLimitMarketable(
+  request: MultiLegOrderRequest,
+  market: { net_price: number; price_effect: NetPriceEffect }
+): boolean {
+  if (request.order_type === 'MARKET' || request.net_price === undefined) {
+    return true;
+  }
+
+  const signedMarket = market.price_effect === 'CREDIT' ? -market.net_price : market.net_price;
+  const signedLimit = request.price_effect === 'CREDIT' ? -request.net_price : request.net_price;
+
+  // Pay at most the limit debit / receive at least the limit credit
+  return signedMarket <= signedLimit + 1e-9;
+}
+
+/**
+ * Aggregate status across leg statuses (all legs share one atomic order)
+ */
+export function aggregateLegStatus(statuses: OrderStatus[]): OrderStatus {
+  if (statuses.length === 0) return 'PENDING';
+  if (statuses.every(s => s === 'FILLED')) return 'FILLED';
+  if (statuses.some(s => s === 'REJECTED')) return 'REJECTED';
+  if (statuses.some(s => s === 'FILLED' || s === 'PARTIAL_FILL')) return 'PARTIAL_FILL';
+  return statuses[0];
+}
+
+function sameLegShape(a: OrderLegRequest, b: OrderLegRequest): boolean {
+  return isBuySide(a.side) === isBuySide(b.side);
+}
+
+/**
+ * Validates a multi-leg order request against its strategy shape
+ * Returns a list of errors (empty when valid)
+ */
+export function validateMultiLegOrder(request: MultiLegOrderRequest): string[] {
+  const errors: string[] = [];
+  const { legs } = request;
+
+  if (!request.underlying) {
+    errors.push('underlying is required');
+  }
+  if (!Number.isInteger(request.quantity) || request.quantity < 1) {
+    errors.push('quantity must be a positive integer');
+  }
+  if (request.order_type === 'LIMIT') {
+    if (request.net_price === undefined || request.net_price < 0) {
+      errors.push('LIMIT orders require a non-negative net_price');
+    }
+    if (!request.price_effect) {
+      errors.push('LIMIT orders require price_effect (DEBIT, CREDIT or EVEN)');
+    }
+  }
+
+  for (const [index, leg] of legs.entries()) {
+    if (!leg.symbol) errors.push(`leg ${index + 1}: symbol is required`);
+    if (!Number.isInteger(leg.ratio) || leg.ratio < 1) {
+      errors.push(`leg ${index + 1}: ratio must be a positive integer`);
+    }
+  }
+
+  const symbols = new Set(legs.map(leg => leg.symbol));
+  if (symbols.size !== legs.length) {
+    errors.push('legs must reference distinct contracts');
+  }
+
+  switch (request.strategy_type) {
+    case 'VERTICAL': {
+      if (legs.length !== 2) {
+        errors.push('VERTICAL requires exactly 2 legs');
+        break;
+      }
+      const [a, b] = legs;
+      if (a.option_type !== b.option_type) errors.push('VERTICAL legs must share option_type');
+      if (a.expiration !== b.expiration) errors.push('VERTICAL legs must share expiration');
+      if (a.strike === b.strike) errors.push('VERTICAL legs must have different strikes');
+      if (sameLegShape(a, b)) errors.push('VERTICAL requires one long and one short leg');
+      break;
+    }
+    case 'STRADDLE':
+    case 'STRANGLE': {
+      if (legs.length !== 2) {
+        errors.push(`${request.strategy_type} requires exactly 2 legs`);
+        break;
+      }
+      const [a, b] = legs;
+      if (a.option_type === b.option_type) {
+        errors.push(`${request.strategy_type} requires one CALL and one PUT`);
+      }
+      if (a.expiration !== b.expiration) {
+        errors.push(`${request.strategy_type} legs must share expiration`);
+      }
+      if (!sameLegShape(a, b)) {
+        errors.push(`${request.strategy_type} legs must both be long or both be short`);
+      }
+      if (request.strategy_type === 'STRADDLE' && a.strike !== b.strike) {
+        errors.push('STRADDLE legs must share strike');
+      }
+      if (request.strategy_type === 'STRANGLE' && a.strike === b.strike) {
+        errors.push('STRANGLE legs must have different strikes');
+      }
+      break;
+    }
+    case 'IRON_CONDOR': {
+      if (legs.length !== 4) {
+        errors.push('IRON_CONDOR requires exactly 4 legs');
+        break;
+      }
+      if (new Set(legs.map(leg => leg.expiration)).size !== 1) {
+        errors.push('IRON_CONDOR legs must share expiration');
+      }
+      const calls = legs.filter(leg => leg.option_type === 'CALL');
+      const puts = legs.filter(leg => leg.option_type === 'PUT');
+      if (calls.length !== 2 || puts.length !== 2) {
+        errors.push('IRON_CONDOR requires a CALL vertical and a PUT vertical');
+        break;
+      }
+      for (const [name, pair] of [['CALL', calls], ['PUT', puts]] as const) {
+        if (pair[0].strike === pair[1].strike || sameLegShape(pair[0], pair[1])) {
+          errors.push(`IRON_CONDOR ${name} side must be one long and one short leg at different strikes`);
+        }
+      }
+      const maxPut = Math.max(...puts.map(leg => leg.strike));
+      const minCall = Math.min(...calls.map(leg => leg.strike));
+      if (maxPut >= minCall) {
+        errors.push('IRON_CONDOR PUT strikes must be below CALL strikes');
+      }
+      break;
+    }
+    case 'CALENDAR': {
+      if (legs.length !== 2) {
+        errors.push('CALENDAR requires exactly 2 legs');
+        break;
+      }
+      const [a, b] = legs;
+      if (a.option_type !== b.option_type) errors.push('CALENDAR legs must share option_type');
+      if (a.strike !== b.strike) errors.push('CALENDAR legs must share strike');
+      if (a.expiration === b.expiration) errors.push('CALENDAR legs must have different expirations');
+      if (sameLegShape(a, b)) errors.push('CALENDAR requires one long and one short leg');
+      break;
+    }
+    default:
+      errors.push(`Unsupported strategy_type: ${request.strategy_type}`);
+  }
+
+  return errors;
+}
+
+export interface PersistedMultiLegOrder {
+  strategy_id: string | null;
+  order_ids: string[];
+  error?: string;
+}
+
+/**
+ * Idempotency key for a multi-leg order: the same signal, strategy and legs
+ * always map to the same id, so a retried request is recognised at the
+ * broker. Dashes and hex digits only, which Tradier tags accept.
+ */
+export async function multiLegClientOrderId(request: MultiLegOrderRequest): Promise<string> {
+  const hash = await generateSignalHash({
+    signal_id: request.signal_id ?? null,
+    strategy_type: request.strategy_type,
+    quantity: request.quantity,
+    legs: request.legs.map(leg => [leg.symbol, leg.side, leg.ratio]),
+  });
+  return `CLT-ML-${hash.substring(0, 32)}`;
+}
+
+export interface MultiLegExecution {
+  result: MultiLegOrderResult | null;
+  persisted: PersistedMultiLegOrder | null;
+  replayed: boolean; // An earlier call already sent this order; nothing new went to the broker
+  errors: string[];
+}
+
+/**
+ * Validates, records and submits a multi-leg order through the order
+ * outbox. Invalid requests never reach the adapter; legPrices are passed
+ * through for simulated fills and strategyFields stored on the strategy row.
+ */
+export async function executeMultiLegOrder(
+  supabase: ReturnType<typeof createDbClient>,
+  adapter: BrokerAdapter,
+  request: MultiLegOrderRequest,
+  legPrices?: number[],
+  strategyFields?: Record<string, unknown>
+): Promise<MultiLegExecution> {
+  const errors = validateMultiLegOrder(request);
+  if (errors.length > 0) {
+    return { result: null, persisted: null, replayed: false, errors };
+  }
+
+  const clientOrderId = request.client_order_id ?? await multiLegClientOrderId(request);
+  const submission = await submitMultiLegOrderOnce(
+    supabase,
+    adapter,
+    { ...request, client_order_id: clientOrderId },
+    legPrices,
+    { source: 'multi-leg', strategyFields }
+  );
+  if (!submission.strategy_id) {
+    console.error(`[MultiLeg] Failed to persist ${request.strategy_type} on ${request.underlying}: ${submission.error}`);
+  }
+
+  return {
+    result: submission.result,
+    persisted: {
+      strategy_id: submission.strategy_id,
+      order_ids: submission.order_ids,
+      error: submission.strategy_id ? undefined : submission.error,
+    },
+    replayed: submission.replayed,
+    errors: submission.result.error ? [submission.result.error] : [],
+  };
+}
@@ -0,0 +1,205 @@
+/**
+ * Tests for the order state machine, idempotent fills and the event trail
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  applyOrderFill,
+  canTransition,
+  incrementalFill,
+  recordOrderSubmission,
+  transitionOrder,
+} from './order-lifecycle.ts';
+import { SimulatedClock } from './refactored/core/clock.ts';
+import { fakeClient, NOW, type Row } from './test-utils/fake-db.ts';
+
+const clock = new SimulatedClock(NOW);
+
+function order(overrides: Row = {}): Row {
+  return {
+    id: 'o-1',
+    underlying: 'SPY',
+    symbol: 'SPY   260320C00500000',
+    strike: 500,
+    expiration: '2026-03-20',
+    option_type: 'CALL',
+    quantity: 3,
+    status: 'SUBMITTED',
+    filled_quantity: 0,
+    avg_fill_price: null,
+    ...overrides,
+  };
+}
+
+function fill(brokerTradeId: string | null, quantity: number, price: number) {
+  return {
+    broker_trade_id: brokerTradeId,
+    execution_price: price,
+    quantity,
+    commission: 0.65 * quantity,
+    fees: 0.02 * quantity,
+    total_cost: price * quantity * 100,
+    executed_at: NOW.toISOString(),
+  };
+}
+
+describe('canTransition', () => {
+  it('only moves orders forward', () => {
+    expect(canTransition('PENDING', 'SUBMITTED')).toBe(true);
+    expect(canTransition('SUBMITTED', 'PARTIAL_FILL')).toBe(true);
+    expect(canTransition('PARTIAL_FILL', 'PARTIAL_FILL')).toBe(true);
+    expect(canTransition('PARTIAL_FILL', 'CANCELLED')).toBe(true);
+
+    expect(canTransition('ACCEPTED', 'SUBMITTED')).toBe(false);
+    expect(canTransition('PARTIAL_FILL', 'REJECTED')).toBe(false);
+    expect(canTransition('FILLED', 'SUBMITTED')).toBe(false);
+    expect(canTransition('CANCELLED', 'FILLED')).toBe(false);
+  });
+});
+
+describe('transitionOrder', () => {
+  it('updates the order and appends a status change', async () => {
+    const client = fakeClient({ orders: [order()] });
+
+    const result = await transitionOrder(client as never, 'o-1', {
+      status: 'CANCELLED',
+      source: 'kill-switch',
+      reason: 'Cancelled by kill switch',
+    }, clock);
+
+    expect(result).toEqual({ applied: true, from: 'SUBMITTED', status: 'CANCELLED' });
+    expect(client.tables.orders[0]).toMatchObject({ status: 'CANCELLED', cancelled_at: NOW.toISOString() });
+    expect(client.tables.order_events).toEqual([
+      expect.objectContaining({
+        order_id: 'o-1',
+        event_type: 'STATUS_CHANGE',
+        from_status: 'SUBMITTED',
+        to_status: 'CANCELLED',
+        source: 'kill-switch',
+      }),
+    ]);
+  });
+
+  it('refuses regressions and records the attempt', async () => {
+    const client = fakeClient({ orders: [order({ status: 'FILLED', filled_quantity: 3 })] });
+
+    const result = await transitionOrder(client as never, 'o-1', { status: 'SUBMITTED', source: 'poll-orders' }, clock);
+
+    expect(result.applied).toBe(false);
+    expect(result.error).toContain('FILLED -> SUBMITTED');
+    expect(client.tables.orders[0].status).toBe('FILLED');
+    expect(client.tables.order_events[0]).toMatchObject({
+      event_type: 'REJECTED_TRANSITION',
+      from_status: 'FILLED',
+      to_status: 'SUBMITTED',
+    });
+  });
+
+  it('treats the current status as a no-op', async () => {
+    const client = fakeClient({ orders: [order()] });
+
+    const result = await transitionOrder(client as never, 'o-1', { status: 'SUBMITTED', source: 'poll-orders' }, clock);
+
+    expect(result).toEqual({ applied: false, from: 'SUBMITTED', status: 'SUBMITTED' });
+    expect(client.tables.order_events ?? []).toHaveLength(0);
+  });
+});
+
+describe('applyOrderFill', () => {
+  it('books partial fills, then fills the order with a weighted average price', async () => {
+    const client = fakeClient({ orders: [order()], trades: [] });
+
+    const first = await applyOrderFill(client as never, 'o-1', fill('b-1-1', 1, 2), 'poll-orders', clock);
+    expect(first).toMatchObject({ applied: true, status: 'PARTIAL_FILL', filled_quantity: 1 });
+
+    const second = await applyOrderFill(client as never, 'o-1', fill('b-1-3', 2, 2.3), 'poll-orders', clock);
+    expect(second).toMatchObject({ applied: true, from: 'PARTIAL_FILL', status: 'FILLED', filled_quantity: 3 });
+
+    expect(client.tables.orders[0]).toMatchObject({
+      status: 'FILLED',
+      filled_quantity: 3,
+      avg_fill_price: 2.2,
+      filled_at: NOW.toISOString(),
+    });
+    expect(client.tables.trades.map(t => [t.broker_trade_id, t.quantity, t.symbol])).toEqual([
+      ['b-1-1', 1, 'SPY   260320C00500000'],
+      ['b-1-3', 2, 'SPY   260320C00500000'],
+    ]);
+    expect(client.tables.order_events.map(e => [e.event_type, e.to_status, e.filled_quantity])).toEqual([
+      ['FILL', 'PARTIAL_FILL', 1],
+      ['FILL', 'FILLED', 3],
+    ]);
+  });
+
+  it('ignores a fill whose broker_trade_id is already booked', async () => {
+    const client = fakeClient({ orders: [order()], trades: [] });
+
+    await applyOrderFill(client as never, 'o-1', fill('b-1-1', 1, 2), 'poll-orders', clock);
+    const repeat = await applyOrderFill(client as never, 'o-1', fill('b-1-1', 1, 2), 'poll-orders', clock);
+
+    expect(repeat).toMatchObject({ applied: false, duplicate: true, status: 'PARTIAL_FILL' });
+    expect(client.tables.trades).toHaveLength(1);
+    expect(client.tables.orders[0].filled_quantity).toBe(1);
+  });
+
+  it('keys a fill reported without an id on the cumulative quantity', async () => {
+    const client = fakeClient({ orders: [order({ broker_order_id: 'b-1' })], trades: [] });
+
+    await applyOrderFill(client as never, 'o-1', fill(null, 1, 2), 'poll-orders', clock);
+    const repeat = await applyOrderFill(client as never, 'o-1', fill('b-1-1', 1, 2), 'poll-orders', clock);
+    await applyOrderFill(client as never, 'o-1', fill(null, 2, 2.3), 'poll-orders', clock);
+
+    expect(repeat).toMatchObject({ applied: false, duplicate: true });
+    expect(client.tables.trades.map(t => t.broker_trade_id)).toEqual(['b-1-1', 'b-1-3']);
+  });
+
+  it('refuses fills past the order quantity or on terminal orders', async () => {
+    const client = fakeClient({
+      orders: [order({ status: 'PARTIAL_FILL', filled_quantity: 2 }), order({ id: 'o-2', status: 'CANCELLED' })],
+      trades: [],
+    });
+
+    const over = await applyOrderFill(client as never, 'o-1', fill('b-1-5', 3, 2), 'poll-orders', clock);
+    const cancelled = await applyOrderFill(client as never, 'o-2', fill('b-2-1', 1, 2), 'poll-orders', clock);
+
+    expect(over.applied).toBe(false);
+    expect(cancelled.applied).toBe(false);
+    expect(client.tables.trades).toHaveLength(0);
+    expect(client.tables.orders[0].filled_quantity).toBe(2);
+    expect(client.tables.order_events.map(e => e.event_type)).toEqual(['REJECTED_TRANSITION', 'REJECTED_TRANSITION']);
+  });
+});
+
+describe('incrementalFill', () => {
+  it('turns cumulative broker reports into the unbooked increment', () => {
+    const reported = { broker_order_id: 'b-1', filled_quantity: 3, avg_fill_price: 2.2 };
+
+    const increment = incrementalFill({ filled_quantity: 1, avg_fill_price: '2' }, reported, NOW.toISOString());
+    expect(increment).toMatchObject({ broker_trade_id: 'b-1-3', quantity: 2, execution_price: 2.3 });
+
+    // Same report again once booked: nothing new
+    expect(incrementalFill({ filled_quantity: 3, avg_fill_price: 2.2 }, reported, NOW.toISOString())).toBeNull();
+  });
+});
+
+describe('recordOrderSubmission', () => {
+  it('stores the order with its immediate fill and both events', async () => {
+    const client = fakeClient({ orders: [], trades: [] });
+
+    const result = await recordOrderSubmission(
+      client as never,
+      { ...order({ status: 'FILLED', filled_quantity: 3, avg_fill_price: 2 }), id: undefined },
+      fill('PAPER-1', 3, 2),
+      'webhook',
+      clock
+    );
+
+    expect(result.trade_booked).toBe(true);
+    expect(result.order?.id).toBe('orders-1');
+    expect(client.tables.trades[0]).toMatchObject({ order_id: 'orders-1', broker_trade_id: 'PAPER-1', quantity: 3 });
+    expect(client.tables.order_events.map(e => [e.event_type, e.to_status, e.source])).toEqual([
+      ['CREATED', 'FILLED', 'webhook'],
+      ['FILL', 'FILLED', 'webhook'],
+    ]);
+  });
+});
@@ -0,0 +1,423 @@
+/**
+ * Order Lifecycle
+ * Central state machine for `orders.status`. Every writer goes through it so
+ * an order can only move forward (a FILLED order never goes back to
+ * SUBMITTED), fills are booked once per broker_trade_id and every change is
+ * appended to `order_events`.
+ */
+
+import type { createDbClient } from "./db-client.ts";
+import type { Order, OrderEvent, OrderEventType, OrderStatus } from "./types.ts";
+import { systemClock, type Clock } from "./refactored/core/clock.ts";
+
+// Order statuses the broker can no longer fill
+export const TERMINAL_ORDER_STATUSES: OrderStatus[] = ['FILLED', 'CANCELLED', 'REJECTED', 'EXPIRED'];
+
+// Allowed next statuses; PARTIAL_FILL may repeat as further fills arrive
+const ORDER_TRANSITIONS: Record<OrderStatus, OrderStatus[]> = {
+  PENDING: ['SUBMITTED', 'ACCEPTED', 'PARTIAL_FILL', 'FILLED', 'CANCELLED', 'REJECTED', 'EXPIRED'],
+  SUBMITTED: ['ACCEPTED', 'PARTIAL_FILL', 'FILLED', 'CANCELLED', 'REJECTED', 'EXPIRED'],
+  ACCEPTED: ['PARTIAL_FILL', 'FILLED', 'CANCELLED', 'REJECTED', 'EXPIRED'],
+  PARTIAL_FILL: ['PARTIAL_FILL', 'FILLED', 'CANCELLED', 'EXPIRED'],
+  FILLED: [],
+  CANCELLED: [],
+  REJECTED: [],
+  EXPIRED: [],
+};
+
+type DbClient = ReturnType<typeof createDbClient>;
+
+export interface OrderTransition {
+  status: OrderStatus;
+  source: string; // Writer, e.g. 'poll-orders' or 'kill-switch'
+  reason?: string;
+  fields?: Record<string, unknown>; // Extra order columns, e.g. error_message
+}
+
+export interface OrderTransitionResult {
+  applied: boolean;
+  from?: OrderStatus;
+  status?: OrderStatus; // Status after the call
+  error?: string;
+}
+
+// One execution; quantity is the contracts in this fill, not the running total
+export interface OrderFill {
+  broker_trade_id: string | null;
+  execution_price: number;
+  quantity: number;
+  commission: number;
+  fees: number;
+  total_cost: number;
+  executed_at: string;
+  trade_fields?: Record<string, unknown>; // Extra trades columns, e.g. expiration settlement
+}
+
+export interface OrderFillResult extends OrderTransitionResult {
+  duplicate?: boolean; // broker_trade_id was already booked
+  filled_quantity?: number;
+  avg_fill_price?: number;
+}
+
+export interface OrderSubmissionResult {
+  order: Order | null;
+  trade_booked: boolean;
+  error?: string;
+}
+
+export function isTerminalStatus(status: OrderStatus): boolean {
+  return TERMINAL_ORDER_STATUSES.includes(status);
+}
+
+export function canTransition(from: OrderStatus, to: OrderStatus): boolean {
+  return ORDER_TRANSITIONS[from]?.includes(to) ?? false;
+}
+
+/**
+ * Converts a broker's cumulative fill report into the fill it adds beyond
+ * what is already booked. Returns null when nothing new has filled.
+ *
+ * The increment's price is backed out of the two volume-weighted averages
+ * and its trade id is keyed on the cumulative quantity, so re-polling the
+ * same report yields the same id.
+ */
+export function incrementalFill(
+  booked: { filled_quantity: number | null; avg_fill_price: number | string | null },
+  reported: { broker_order_id: string; filled_quantity: number; avg_fill_price: number },
+  executedAt: string
+): OrderFill | null {
+  const bookedQuantity = Number(booked.filled_quantity) || 0;
+  const quantity = reported.filled_quantity - bookedQuantity;
+  if (quantity <= 0) {
+    return null;
+  }
+
+  const bookedNotional = bookedQuantity * (Number(booked.avg_fill_price) || 0);
+  const price = (reported.avg_fill_price * reported.filled_quantity - bookedNotional) / quantity;
+  const executionPrice = Math.round(Math.max(0, price) * 10000) / 10000;
+
+  return {
+    broker_trade_id: `${reported.broker_order_id}-${reported.filled_quantity}`,
+    execution_price: executionPrice,
+    quantity,
+    commission: 0.65 * quantity, // Estimate
+    fees: 0.02 * quantity,
+    total_cost: Math.round(executionPrice * quantity * 100 * 100) / 100,
+    executed_at: executedAt,
+  };
+}
+
+/**
+ * Moves an order to a new status if the state machine allows it. Refused
+ * transitions are recorded as REJECTED_TRANSITION events and leave the
+ * order untouched; asking for the current status is a no-op.
+ */
+export async function transitionOrder(
+  supabase: DbClient,
+  orderId: string,
+  transition: OrderTransition,
+  clock: Clock = systemClock
+): Promise<OrderTransitionResult> {
+  const order = await loadOrder(supabase, orderId);
+  if (!order) {
+    return { applied: false, error: `Order ${orderId} not found` };
+  }
+
+  const from = order.status;
+  if (from === transition.status) {
+    return { applied: false, from, status: from };
+  }
+
+  if (!canTransition(from, transition.status)) {
+    return refuse(supabase, order, transition.status, transition.source, transition.reason, clock);
+  }
+
+  const now = clock.now().toISOString();
+  const { error } = await supabase
+    .from('orders')
+    .update({
+      ...statusTimestamps(transition.status, now, transition.reason),
+      ...transition.fields,
+      status: transition.status,
+      updated_at: now,
+    })
+    .eq('id', orderId);
+
+  if (error) {
+    return { applied: false, from, status: from, error: error.message };
+  }
+
+  await appendOrderEvent(supabase, {
+    order_id: orderId,
+    event_type: 'STATUS_CHANGE',
+    from_status: from,
+    to_status: transition.status,
+    filled_quantity: Number(order.filled_quantity) || 0,
+    source: transition.source,
+    reason: transition.reason ?? null,
+    created_at: now,
+  });
+
+  return { applied: true, from, status: transition.status };
+}
+
+/**
+ * Books one fill: inserts its trade, adds it to filled_quantity, updates the
+ * average price and moves the order to PARTIAL_FILL or FILLED. A fill whose
+ * broker_trade_id is already in `trades` is ignored, so polling the same
+ * execution twice never double-counts it. A fill reported without an id is
+ * keyed on the order's cumulative quantity, as incrementalFill keys them.
+ */
+export async function applyOrderFill(
+  supabase: DbClient,
+  orderId: string,
+  reportedFill: OrderFill,
+  source: string,
+  clock: Clock = systemClock
+): Promise<OrderFillResult> {
+  const order = await loadOrder(supabase, orderId);
+  if (!order) {
+    return { applied: false, error: `Order ${orderId} not found` };
+  }
+
+  const from = order.status;
+  const previousQuantity = Number(order.filled_quantity) || 0;
+  const filledQuantity = previousQuantity + reportedFill.quantity;
+  const fill = {
+    ...reportedFill,
+    broker_trade_id: reportedFill.broker_trade_id || `${order.broker_order_id ?? order.id}-${filledQuantity}`,
+  };
+
+  if (await isTradeBooked(supabase, fill.broker_trade_id)) {
+    return { applied: false, duplicate: true, from, status: from };
+  }
+
+  const nextStatus: OrderStatus = filledQuantity >= order.quantity ? 'FILLED' : 'PARTIAL_FILL';
+
+  if (filledQuantity > order.quantity) {
+    return refuse(
+      supabase,
+      order,
+      nextStatus,
+      source,
+      `Fill of ${fill.quantity} would take ${previousQuantity}/${order.quantity} past the order quantity`,
+      clock,
+      fill
+    );
+  }
+  if (!canTransition(from, nextStatus)) {
+    return refuse(supabase, order, nextStatus, source, `Fill received on ${from} order`, clock, fill);
+  }
+
+  const { error: tradeError } = await supabase.from('trades').insert(tradeRow(order, fill));
+  if (tradeError) {
+    return { applied: false, from, status: from, error: tradeError.message };
+  }
+
+  const previousNotional = previousQuantity * (Number(order.avg_fill_price) || 0);
+  const avgFillPrice = Math.round(((previousNotional + fill.execution_price * fill.quantity) / filledQuantity) * 10000) / 10000;
+  const now = clock.now().toISOString();
+
+  const { error } = await supabase
+    .from('orders')
+    .update({
+      ...statusTimestamps(nextStatus, now),
+      status: nextStatus,
+      filled_quantity: filledQuantity,
+      avg_fill_price: avgFillPrice,
+      updated_at: now,
+    })
+    .eq('id', orderId);
+
+  if (error) {
+    return { applied: false, from, status: from, error: error.message };
+  }
+
+  await appendOrderEvent(supabase, {
+    order_id: orderId,
+    event_type: 'FILL',
+    from_status: from,
+    to_status: nextStatus,
+    filled_quantity: filledQuantity,
+    fill_quantity: fill.quantity,
+    fill_price: fill.execution_price,
+    broker_trade_id: fill.broker_trade_id,
+    source,
+    created_at: now,
+  });
+
+  return {
+    applied: true,
+    from,
+    status: nextStatus,
+    filled_quantity: filledQuantity,
+    avg_fill_price: avgFillPrice,
+  };
+}
+
+/**
+ * Stores a newly submitted order as the broker reported it, with the trade
+ * for any immediate fill. The order's status and filled_quantity already
+ * include that fill, so only the trade and the CREATED / FILL events are
+ * added here; the unique index on trades.broker_trade_id rejects a repeat.
+ */
+export async function recordOrderSubmission(
+  supabase: DbClient,
+  order: Record<string, unknown>,
+  fill: OrderFill | null,
+  source: string,
+  clock: Clock = systemClock
+): Promise<OrderSubmissionResult> {
+  const { data: orderRow, error } = await supabase.from('orders').insert(order);
+  if (error || !orderRow) {
+    return { order: null, trade_booked: false, error: error?.message ?? 'Order insert returned no row' };
+  }
+
+  const created = orderRow as Order;
+  const now = clock.now().toISOString();
+  await appendOrderEvent(supabase, {
+    order_id: created.id,
+    event_type: 'CREATED',
+    to_status: created.status,
+    filled_quantity: Number(created.filled_quantity) || 0,
+    source,
+    created_at: now,
+  });
+
+  if (!fill || fill.quantity <= 0) {
+    return { order: created, trade_booked: false };
+  }
+
+  const { error: tradeError } = await supabase.from('trades').insert(tradeRow(created, fill));
+  if (tradeError) {
+    return { order: created, trade_booked: false, error: tradeError.message };
+  }
+
+  await appendOrderEvent(supabase, {
+    order_id: created.id,
+    event_type: 'FILL',
+    from_status: created.status,
+    to_status: created.status,
+    filled_quantity: Number(created.filled_quantity) || 0,
+    fill_quantity: fill.quantity,
+    fill_price: fill.execution_price,
+    broker_trade_id: fill.broker_trade_id,
+    source,
+    created_at: now,
+  });
+
+  return { order: created, trade_booked: true };
+}
+
+/**
+ * Events for the given orders, oldest first
+ */
+export async function loadOrderEvents(supabase: DbClient, orderIds: string[]): Promise<OrderEvent[]> {
+  if (orderIds.length === 0) {
+    return [];
+  }
+
+  const { data, error } = await supabase
+    .from('order_events')
+    .select('*')
+    .in('order_id', orderIds)
+    .order('created_at', { ascending: true });
+
+  if (error) {
+    throw new Error(`Failed to load order events: ${error.message}`);
+  }
+  return (data || []) as OrderEvent[];
+}
+
+async function loadOrder(supabase: DbClient, orderId: string): Promise<Order | null> {
+  const { data } = await supabase
+    .from('orders')
+    .select('*')
+    .eq('id', orderId)
+    .single();
+  return (data as Order | null) ?? null;
+}
+
+async function isTradeBooked(supabase: DbClient, brokerTradeId: string): Promise<boolean> {
+  const { data } = await supabase
+    .from('trades')
+    .select('id')
+    .eq('broker_trade_id', brokerTradeId);
+  return Array.isArray(data) && data.length > 0;
+}
+
+async function refuse(
+  supabase: DbClient,
+  order: Order,
+  to: OrderStatus,
+  source: string,
+  reason: string | undefined,
+  clock: Clock,
+  fill?: OrderFill
+): Promise<OrderTransitionResult> {
+  const error = reason ?? `${order.status} -> ${to} is not a valid order transition`;
+  console.warn(`[OrderLifecycle] ${order.id}: ${error} (${source})`);
+
+  await appendOrderEvent(supabase, {
+    order_id: order.id,
+    event_type: 'REJECTED_TRANSITION',
+    from_status: order.status,
+    to_status: to,
+    filled_quantity: Number(order.filled_quantity) || 0,
+    fill_quantity: fill?.quantity ?? null,
+    fill_price: fill?.execution_price ?? null,
+    broker_trade_id: fill?.broker_trade_id ?? null,
+    source,
+    reason: error,
+    created_at: clock.now().toISOString(),
+  });
+
+  return { applied: false, from: order.status, status: order.status, error };
+}
+
+function statusTimestamps(status: OrderStatus, now: string, reason?: string): Record<string, unknown> {
+  switch (status) {
+    case 'FILLED':
+      return { filled_at: now };
+    case 'CANCELLED':
+      return { cancelled_at: now };
+    case 'REJECTED':
+      return { rejection_reason: reason ?? 'Rejected by broker' };
+    default:
+      return {};
+  }
+}
+
+function tradeRow(order: Pick<Order, 'id' | 'underlying' | 'symbol' | 'strike' | 'expiration' | 'option_type'>, fill: OrderFill) {
+  return {
+    order_id: order.id,
+    broker_trade_id: fill.broker_trade_id,
+    execution_price: fill.execution_price,
+    quantity: fill.quantity,
+    commission: fill.commission,
+    fees: fill.fees,
+    total_cost: fill.total_cost,
+    underlying: order.underlying,
+    symbol: order.symbol,
+    strike: order.strike,
+    expiration: order.expiration,
+    option_type: order.option_type,
+    executed_at: fill.executed_at,
+    ...fill.trade_fields,
+  };
+}
+
+// Event history is best effort: a failed append never undoes the order change
+export async function appendOrderEvent(
+  supabase: DbClient,
+  event: Partial<Omit<OrderEvent, 'id'>> & { order_id: string; event_type: OrderEventType; source: string }
+): Promise<void> {
+  try {
+    const { error } = await supabase.from('order_events').insert(event);
+    if (error) {
+      console.error(`[OrderLifecycle] Failed to record ${event.event_type} for ${event.order_id}: ${error.message}`);
+    }
+  } catch (error) {
+    console.error(`[OrderLifecycle] Failed to record ${event.event_type} for ${event.order_id}:`, error);
+  }
+}
@@ -0,0 +1,525 @@
+/**
+ * Tests for the order outbox: intent before submission, replay by
+ * client_order_id, recovery of unanswered intents and the stale-intent sweep,
+ * for single orders and multi-leg strategies
+ */
+
+import { describe, it, expect } from 'vitest';
+import { resolveStaleIntents, submitMultiLegOrderOnce, submitOrderOnce } from './order-outbox.ts';
+import type { OrderStatusResponse } from './broker-adapter.ts';
+import { PaperAdapter } from './paper-adapter.ts';
+import type { MultiLegOrderRequest, OrderRequest } from './types.ts';
+import { SimulatedClock } from './refactored/core/clock.ts';
+import { fakeAdapter, fakeClient, NOW, type FakeClient, type Row } from './test-utils/fake-db.ts';
+
+const clock = new SimulatedClock(NOW);
+
+/**
+ * Broker that fills every order at 2.00 unless told to fail. `held` are
+ * orders it already has by client_order_id; `lookupFails` makes the lookup throw.
+ */
+function fakeBroker(
+  client: FakeClient,
+  options: {
+    submitError?: string;
+    acceptDespiteError?: boolean; // The submit call fails, but the broker has the order
+    held?: Record<string, Partial<OrderStatusResponse>>;
+    lookupFails?: boolean;
+  } = {}
+) {
+  const held = new Map(Object.entries(options.held ?? {}));
+  const calls = { submit: [] as OrderRequest[], lookup: [] as string[], cancel: [] as string[], seenAtSubmit: [] as Row[][] };
+
+  const adapter = fakeAdapter({
+    submitOrder: (request: OrderRequest) => {
+      calls.submit.push(request);
+      calls.seenAtSubmit.push((client.tables.orders ?? []).map(order => ({ ...order })));
+      const brokerOrderId = `B-${calls.submit.length}`;
+
+      if (options.submitError) {
+        if (options.acceptDespiteError) {
+          held.set(request.client_order_id!, { broker_order_id: brokerOrderId, status: 'ACCEPTED', filled_quantity: 0 });
+        }
+        return Promise.resolve({
+          result: { success: false, order_id: 'x', status: 'REJECTED', filled_quantity: 0, error: options.submitError },
+          trade: null,
+        });
+      }
+
+      held.set(request.client_order_id!, { broker_order_id: brokerOrderId, status: 'FILLED', filled_quantity: request.quantity, avg_fill_price: 2 });
+      return Promise.resolve({
+        result: {
+          success: true,
+          order_id: 'x',
+          broker_order_id: brokerOrderId,
+          status: 'FILLED',
+          filled_quantity: request.quantity,
+          avg_fill_price: 2,
+        },
+        trade: {
+          order_id: 'x',
+          broker_trade_id: `${brokerOrderId}-fill`,
+          execution_price: 2,
+          quantity: request.quantity,
+          commission: 0.65 * request.quantity,
+          fees: 0.02 * request.quantity,
+          total_cost: 200 * request.quantity,
+          underlying: request.underlying,
+          symbol: request.symbol,
+          strike: request.strike,
+          expiration: request.expiration,
+          option_type: request.option_type,
+          executed_at: NOW.toISOString(),
+        },
+      });
+    },
+    findOrderByClientId: (clientOrderId: string) => {
+      calls.lookup.push(clientOrderId);
+      if (options.lookupFails) {
+        return Promise.reject(new Error('Broker API error: 503'));
+      }
+      const order = held.get(clientOrderId);
+      return Promise.resolve(order
+        ? { order_id: clientOrderId, remaining_quantity: 0, ...order } as OrderStatusResponse
+        : null);
+    },
+    cancelOrder: (_orderId: string, brokerOrderId: string) => {
+      calls.cancel.push(brokerOrderId);
+      return Promise.resolve({ success: true });
+    },
+  });
+  return { adapter, calls };
+}
+
+function entryRequest(clientOrderId = 'CLT-sig-1'): OrderRequest & { client_order_id: string } {
+  return {
+    signal_id: 'sig-1',
+    client_order_id: clientOrderId,
+    underlying: 'SPY',
+    symbol: 'SPY   260320C00500000',
+    strike: 500,
+    expiration: '2026-03-20',
+    option_type: 'CALL',
+    side: 'BUY_TO_OPEN',
+    quantity: 2,
+    order_type: 'MARKET',
+    time_in_force: 'DAY',
+  };
+}
+
+function intent(overrides: Row = {}): Row {
+  return {
+    id: 'o-1',
+    client_order_id: 'CLT-sig-1',
+    broker_order_id: null,
+    underlying: 'SPY',
+    symbol: 'SPY   260320C00500000',
+    strike: 500,
+    expiration: '2026-03-20',
+    option_type: 'CALL',
+    quantity: 2,
+    mode: 'LIVE',
+    status: 'PENDING',
+    filled_quantity: 0,
+    avg_fill_price: null,
+    created_at: '2026-03-04T14:50:00.000Z',
+    ...overrides,
+  };
+}
+
+const OPTIONS = { source: 'webhook', orderFields: { signal_id: 'sig-1' } };
+
+/**
+ * Broker that fills multi-leg orders through the paper simulator. `held`
+ * are orders it already has by client_order_id.
+ */
+function fakeMultiLegBroker(
+  client: FakeClient,
+  options: { submitError?: string; held?: Record<string, Partial<OrderStatusResponse>> } = {}
+) {
+  const paper = new PaperAdapter({ slippage_percent: 0 });
+  const held = new Map(Object.entries(options.held ?? {}));
+  const calls = { submit: [] as MultiLegOrderRequest[], seenAtSubmit: [] as Row[][] };
+
+  const adapter = fakeAdapter({
+    submitMultiLegOrder: async (request: MultiLegOrderRequest, legPrices?: number[]) => {
+      calls.submit.push(request);
+      calls.seenAtSubmit.push([
+        ...(client.tables.strategies ?? []),
+        ...(client.tables.orders ?? []),
+      ].map(row => ({ ...row })));
+
+      if (options.submitError) {
+        return {
+          result: { success: false, order_id: 'x', status: 'REJECTED', filled_quantity: 0, leg_results: [], error: options.submitError },
+          trades: [],
+        };
+      }
+      const submission = await paper.submitMultiLegOrder(request, legPrices);
+      held.set(request.client_order_id!, {
+        broker_order_id: submission.result.broker_order_id,
+        status: submission.result.status,
+        filled_quantity: submission.result.filled_quantity,
+      });
+      return submission;
+    },
+    findOrderByClientId: (clientOrderId: string) => {
+      const order = held.get(clientOrderId);
+      return Promise.resolve(order
+        ? { order_id: clientOrderId, remaining_quantity: 0, ...order } as OrderStatusResponse
+        : null);
+    },
+  });
+  return { adapter, calls };
+}
+
+function verticalRequest(): MultiLegOrderRequest & { client_order_id: string } {
+  return {
+    signal_id: 'sig-1',
+    client_order_id: 'CLT-ML-abc',
+    strategy_type: 'VERTICAL',
+    underlying: 'SPY',
+    legs: [
+      { symbol: 'SPY   260320C00500000', strike: 500, expiration: '2026-03-20', option_type: 'CALL', side: 'BUY_TO_OPEN', ratio: 1 },
+      { symbol: 'SPY   260320C00505000', strike: 505, expiration: '2026-03-20', option_type: 'CALL', side: 'SELL_TO_OPEN', ratio: 1 },
+    ],
+    quantity: 2,
+    order_type: 'LIMIT',
+    net_price: 2,
+    price_effect: 'DEBIT',
+    time_in_force: 'DAY',
+  };
+}
+
+function strategyIntent(overrides: Row = {}): Row {
+  return {
+    id: 'str-1',
+    client_order_id: 'CLT-ML-abc',
+    status: 'PENDING',
+    quantity: 2,
+    broker_order_id: null,
+    net_fill_price: null,
+    price_effect: 'DEBIT',
+    mode: 'LIVE',
+    created_at: '2026-03-04T14:50:00.000Z',
+    ...overrides,
+  };
+}
+
+function legIntent(legNumber: number, overrides: Row = {}): Row {
+  return intent({
+    id: `leg-${legNumber}`,
+    client_order_id: `CLT-ML-abc-L${legNumber}`,
+    symbol: legNumber === 1 ? 'SPY   260320C00500000' : 'SPY   260320C00505000',
+    side: legNumber === 1 ? 'BUY_TO_OPEN' : 'SELL_TO_OPEN',
+    strategy_id: 'str-1',
+    leg_number: legNumber,
+    ...overrides,
+  });
+}
+
+describe('submitOrderOnce', () => {
+  it('writes the intent first and sends its client_order_id to the broker', async () => {
+    const client = fakeClient({ orders: [], trades: [] });
+    const { adapter, calls } = fakeBroker(client);
+
+    const submitted = await submitOrderOnce(client as never, adapter as never, entryRequest(), OPTIONS, clock);
+
+    expect(calls.submit[0].client_order_id).toBe('CLT-sig-1');
+    expect(calls.seenAtSubmit[0]).toEqual([
+      expect.objectContaining({ client_order_id: 'CLT-sig-1', status: 'PENDING', broker_order_id: null, signal_id: 'sig-1' }),
+    ]);
+
+    expect(submitted).toMatchObject({ replayed: false, trade_booked: true });
+    expect(submitted.order).toMatchObject({ status: 'FILLED', broker_order_id: 'B-1', filled_quantity: 2, avg_fill_price: 2 });
+    expect(client.tables.trades.map(t => t.broker_trade_id)).toEqual(['B-1-fill']);
+    expect(client.tables.order_events.map(e => [e.event_type, e.to_status])).toEqual([
+      ['CREATED', 'PENDING'],
+      ['STATUS_CHANGE', 'SUBMITTED'],
+      ['FILL', 'FILLED'],
+    ]);
+  });
+
+  it('returns the stored order on retry instead of submitting again', async () => {
+    const client = fakeClient({ orders: [], trades: [] });
+    const { adapter, calls } = fakeBroker(client);
+
+    await submitOrderOnce(client as never, adapter as never, entryRequest(), OPTIONS, clock);
+    const retry = await submitOrderOnce(client as never, adapter as never, entryRequest(), OPTIONS, clock);
+
+    expect(calls.submit).toHaveLength(1);
+    expect(retry).toMatchObject({ replayed: true, trade: null });
+    expect(retry.result).toMatchObject({ success: true, status: 'FILLED', broker_order_id: 'B-1', filled_quantity: 2 });
+    expect(client.tables.orders).toHaveLength(1);
+    expect(client.tables.trades).toHaveLength(1);
+  });
+
+  it('adopts the broker order behind an unanswered intent rather than resubmitting', async () => {
+    const client = fakeClient({ orders: [intent()], trades: [] });
+    const { adapter, calls } = fakeBroker(client, {
+      held: { 'CLT-sig-1': { broker_order_id: 'B-9', status: 'PARTIAL_FILL', filled_quantity: 1, avg_fill_price: 2.1 } },
+    });
+
+    const retry = await submitOrderOnce(client as never, adapter as never, entryRequest(), OPTIONS, clock);
+
+    expect(calls.submit).toHaveLength(0);
+    expect(retry.replayed).toBe(true);
+    expect(client.tables.orders[0]).toMatchObject({ broker_order_id: 'B-9', status: 'PARTIAL_FILL', filled_quantity: 1 });
+    expect(client.tables.trades.map(t => [t.broker_trade_id, t.quantity, t.execution_price])).toEqual([['B-9-1', 1, 2.1]]);
+  });
+
+  it('submits an unanswered intent the broker never received', async () => {
+    const client = fakeClient({ orders: [intent()], trades: [] });
+    const { adapter, calls } = fakeBroker(client);
+
+    const retry = await submitOrderOnce(client as never, adapter as never, entryRequest(), OPTIONS, clock);
+
+    expect(calls.lookup).toEqual(['CLT-sig-1']);
+    expect(calls.submit).toHaveLength(1);
+    expect(retry.replayed).toBe(false);
+    expect(client.tables.orders).toHaveLength(1);
+    expect(client.tables.orders[0]).toMatchObject({ id: 'o-1', status: 'FILLED', broker_order_id: 'B-1' });
+  });
+
+  it('does not resubmit when the broker cannot be asked', async () => {
+    const client = fakeClient({ orders: [intent()], trades: [] });
+    const { adapter, calls } = fakeBroker(client, { lookupFails: true });
+
+    const retry = await submitOrderOnce(client as never, adapter as never, entryRequest(), OPTIONS, clock);
+
+    expect(calls.submit).toHaveLength(0);
+    expect(retry.result.success).toBe(false);
+    expect(retry.error).toContain('Not resubmitting CLT-sig-1');
+    expect(client.tables.orders[0].status).toBe('PENDING');
+  });
+
+  it('links an order the broker accepted even though the submit call failed', async () => {
+    const client = fakeClient({ orders: [], trades: [] });
+    const { adapter } = fakeBroker(client, { submitError: 'Request timed out', acceptDespiteError: true });
+
+    const submitted = await submitOrderOnce(client as never, adapter as never, entryRequest(), OPTIONS, clock);
+
+    expect(submitted.result).toMatchObject({ success: true, status: 'ACCEPTED', broker_order_id: 'B-1' });
+    expect(client.tables.orders[0]).toMatchObject({ status: 'ACCEPTED', broker_order_id: 'B-1' });
+  });
+
+  it('rejects the intent when the broker refused it', async () => {
+    const client = fakeClient({ orders: [], trades: [] });
+    const { adapter } = fakeBroker(client, { submitError: 'Insufficient buying power' });
+
+    const submitted = await submitOrderOnce(client as never, adapter as never, entryRequest(), OPTIONS, clock);
+
+    expect(submitted.result.success).toBe(false);
+    expect(client.tables.orders[0]).toMatchObject({
+      status: 'REJECTED',
+      error_message: 'Insufficient buying power',
+    });
+  });
+
+  it('cancels the broker order when its intent was cancelled mid-flight', async () => {
+    const client = fakeClient({ orders: [], trades: [] });
+    const { adapter, calls } = fakeBroker(client);
+    const submitOrder = adapter.submitOrder;
+    adapter.submitOrder = (request: OrderRequest) => {
+      // The kill switch sweeps working orders while the submission is out
+      client.tables.orders[0].status = 'CANCELLED';
+      return submitOrder(request);
+    };
+
+    await submitOrderOnce(client as never, adapter as never, entryRequest(), OPTIONS, clock);
+
+    expect(calls.cancel).toEqual(['B-1']);
+    expect(client.tables.orders[0]).toMatchObject({ status: 'CANCELLED', broker_order_id: 'B-1' });
+  });
+});
+
+describe('submitMultiLegOrderOnce', () => {
+  it('writes the strategy and leg intents first and sends the strategy client_order_id', async () => {
+    const client = fakeClient({ strategies: [], orders: [], trades: [] });
+    const { adapter, calls } = fakeMultiLegBroker(client);
+
+    const submitted = await submitMultiLegOrderOnce(client as never, adapter, verticalRequest(), [3.0, 1.2], { source: 'multi-leg' }, clock);
+
+    expect(calls.submit[0].client_order_id).toBe('CLT-ML-abc');
+    expect(calls.seenAtSubmit[0]).toEqual([
+      expect.objectContaining({ client_order_id: 'CLT-ML-abc', status: 'PENDING', broker_order_id: null }),
+      expect.objectContaining({ client_order_id: 'CLT-ML-abc-L1', status: 'PENDING', leg_number: 1 }),
+      expect.objectContaining({ client_order_id: 'CLT-ML-abc-L2', status: 'PENDING', leg_number: 2 }),
+    ]);
+
+    const brokerOrderId = submitted.result.broker_order_id;
+    const legIds = client.tables.orders.map(o => o.id);
+    expect(submitted).toMatchObject({ replayed: false, order_ids: legIds });
+    expect(client.tables.strategies[0]).toMatchObject({ status: 'FILLED', broker_order_id: brokerOrderId, net_fill_price: 1.8 });
+    expect(client.tables.orders.map(o => [o.status, o.broker_order_id, o.filled_quantity])).toEqual([
+      ['FILLED', `${brokerOrderId}-L1`, 2],
+      ['FILLED', `${brokerOrderId}-L2`, 2],
+    ]);
+    expect(client.tables.trades.map(t => [t.order_id, t.broker_trade_id])).toEqual([
+      [legIds[0], `${brokerOrderId}-L1-fill`],
+      [legIds[1], `${brokerOrderId}-L2-fill`],
+    ]);
+  });
+
+  it('stores the caller strategy fields on the strategy intent', async () => {
+    const client = fakeClient({ strategies: [], orders: [], trades: [] });
+    const { adapter, calls } = fakeMultiLegBroker(client);
+    const paperEntry = { quantity: 2, signalId: 'sig-1' };
+
+    await submitMultiLegOrderOnce(
+      client as never,
+      adapter,
+      verticalRequest(),
+      [3.0, 1.2],
+      { source: 'multi-leg', strategyFields: { paper_entry: paperEntry } },
+      clock
+    );
+
+    expect(calls.seenAtSubmit[0][0]).toMatchObject({ client_order_id: 'CLT-ML-abc', paper_entry: paperEntry });
+  });
+
+  it('returns the stored strategy on retry instead of submitting again', async () => {
+    const client = fakeClient({ strategies: [], orders: [], trades: [] });
+    const { adapter, calls } = fakeMultiLegBroker(client);
+
+    await submitMultiLegOrderOnce(client as never, adapter, verticalRequest(), [3.0, 1.2], { source: 'multi-leg' }, clock);
+    const retry = await submitMultiLegOrderOnce(client as never, adapter, verticalRequest(), [3.0, 1.2], { source: 'multi-leg' }, clock);
+
+    expect(calls.submit).toHaveLength(1);
+    expect(retry).toMatchObject({ replayed: true, strategy_id: 'strategies-1' });
+    expect(retry.result).toMatchObject({ success: true, status: 'FILLED', filled_quantity: 2, net_fill_price: 1.8 });
+    expect(client.tables.strategies).toHaveLength(1);
+    expect(client.tables.orders).toHaveLength(2);
+    expect(client.tables.trades).toHaveLength(2);
+  });
+
+  it('adopts the broker order behind an unanswered strategy intent rather than resubmitting', async () => {
+    const client = fakeClient({ strategies: [strategyIntent()], orders: [legIntent(1), legIntent(2)], trades: [] });
+    const { adapter, calls } = fakeMultiLegBroker(client, {
+      held: { 'CLT-ML-abc': { broker_order_id: 'B-9', status: 'ACCEPTED', filled_quantity: 0 } },
+    });
+
+    const retry = await submitMultiLegOrderOnce(client as never, adapter, verticalRequest(), [3.0, 1.2], { source: 'multi-leg' }, clock);
+
+    expect(calls.submit).toHaveLength(0);
+    expect(retry.replayed).toBe(true);
+    expect(client.tables.strategies[0]).toMatchObject({ status: 'PENDING', broker_order_id: 'B-9' });
+    // Leg fills come from poll-orders through the strategy's broker order
+    expect(client.tables.orders.map(o => [o.status, o.broker_order_id])).toEqual([
+      ['ACCEPTED', null],
+      ['ACCEPTED', null],
+    ]);
+  });
+
+  it('fails the strategy without sending it when a leg intent cannot be written', async () => {
+    const client = fakeClient({ strategies: [], orders: [], trades: [] });
+    const legTwoFails = {
+      ...client,
+      from: (table: string) => {
+        const builder = client.from(table);
+        return {
+          ...builder,
+          insert: (row: Row) => row.leg_number === 2
+            ? Promise.resolve({ data: null, error: { message: 'connection reset' } })
+            : builder.insert(row),
+        };
+      },
+    };
+    const { adapter, calls } = fakeMultiLegBroker(client);
+
+    const submitted = await submitMultiLegOrderOnce(legTwoFails as never, adapter, verticalRequest(), [3.0, 1.2], { source: 'multi-leg' }, clock);
+
+    expect(calls.submit).toHaveLength(0);
+    expect(submitted.error).toBe('Failed to record leg 2 intent: connection reset');
+    expect(client.tables.strategies[0].status).toBe('FAILED');
+    expect(client.tables.orders.map(o => [o.leg_number, o.status])).toEqual([[1, 'REJECTED']]);
+  });
+
+  it('fails the strategy and its legs when the broker refused the order', async () => {
+    const client = fakeClient({ strategies: [], orders: [], trades: [] });
+    const { adapter } = fakeMultiLegBroker(client, { submitError: 'Insufficient buying power' });
+
+    const submitted = await submitMultiLegOrderOnce(client as never, adapter, verticalRequest(), [3.0, 1.2], { source: 'multi-leg' }, clock);
+
+    expect(submitted.error).toBe('Insufficient buying power');
+    expect(client.tables.strategies[0].status).toBe('FAILED');
+    expect(client.tables.orders.map(o => [o.status, o.error_message])).toEqual([
+      ['REJECTED', 'Insufficient buying power'],
+      ['REJECTED', 'Insufficient buying power'],
+    ]);
+  });
+});
+
+describe('resolveStaleIntents', () => {
+  it('adopts intents the broker has, rejects the rest and leaves fresh ones alone', async () => {
+    const client = fakeClient({
+      orders: [
+        intent(),
+        intent({ id: 'o-2', client_order_id: 'CLT-sig-2' }),
+        intent({ id: 'o-3', client_order_id: 'CLT-sig-3', created_at: '2026-03-04T14:59:30.000Z' }),
+        intent({ id: 'o-4', client_order_id: 'CLT-sig-4', mode: 'PAPER' }),
+        // A multi-leg leg waiting on its leg id, not an unsent intent
+        intent({ id: 'o-5', client_order_id: 'CLT-str-1-L1', strategy_id: 'str-1' }),
+      ],
+      trades: [],
+    });
+    const { adapter } = fakeBroker(client, {
+      held: { 'CLT-sig-1': { broker_order_id: 'B-7', status: 'ACCEPTED', filled_quantity: 0 } },
+    });
+
+    const swept = await resolveStaleIntents(client as never, adapter as never, 'poll-orders', clock);
+
+    expect(swept.map(r => [r.order_id, r.resolution])).toEqual([
+      ['o-1', 'ADOPTED'],
+      ['o-2', 'REJECTED'],
+    ]);
+    expect(client.tables.orders.map(o => [o.id, o.status, o.broker_order_id])).toEqual([
+      ['o-1', 'ACCEPTED', 'B-7'],
+      ['o-2', 'REJECTED', null],
+      ['o-3', 'PENDING', null],
+      ['o-4', 'PENDING', null],
+      ['o-5', 'PENDING', null],
+    ]);
+  });
+
+  it('settles stale strategy intents together with their legs', async () => {
+    const client = fakeClient({
+      strategies: [
+        strategyIntent(),
+        strategyIntent({ id: 'str-2', client_order_id: 'CLT-ML-def' }),
+      ],
+      orders: [
+        legIntent(1),
+        legIntent(2),
+        legIntent(1, { id: 'leg-3', client_order_id: 'CLT-ML-def-L1', strategy_id: 'str-2' }),
+      ],
+      trades: [],
+    });
+    const { adapter } = fakeMultiLegBroker(client, {
+      held: { 'CLT-ML-abc': { broker_order_id: 'B-7', status: 'ACCEPTED', filled_quantity: 0 } },
+    });
+
+    const swept = await resolveStaleIntents(client as never, adapter, 'poll-orders', clock);
+
+    expect(swept.map(r => [r.order_id, r.strategy_id, r.resolution])).toEqual([
+      ['leg-1', 'str-1', 'ADOPTED'],
+      ['leg-2', 'str-1', 'ADOPTED'],
+      ['leg-3', 'str-2', 'REJECTED'],
+    ]);
+    expect(client.tables.strategies.map(s => [s.id, s.status, s.broker_order_id])).toEqual([
+      ['str-1', 'PENDING', 'B-7'],
+      ['str-2', 'FAILED', null],
+    ]);
+    expect(client.tables.orders.map(o => o.status)).toEqual(['ACCEPTED', 'ACCEPTED', 'REJECTED']);
+  });
+
+  it('leaves intents unresolved while the broker cannot be asked', async () => {
+    const client = fakeClient({ orders: [intent()], trades: [] });
+    const { adapter } = fakeBroker(client, { lookupFails: true });
+
+    const swept = await resolveStaleIntents(client as never, adapter as never, 'poll-orders', clock);
+
+    expect(swept).toEqual([expect.objectContaining({ order_id: 'o-1', resolution: 'UNRESOLVED' })]);
+    expect(client.tables.orders[0].status).toBe('PENDING');
+  });
+});
@@ -0,0 +1,860 @@
+/**
+ * Order Outbox
+ * Idempotent order submission keyed on client_order_id. The intent is
+ * written to `orders` as PENDING before anything reaches the broker, the
+ * same id goes to the broker as its idempotency key (Alpaca
+ * client_order_id, Tradier tag), and a retry that finds the id already
+ * used looks the order up instead of submitting it again.
+ *
+ * An intent left PENDING by a crash between submit and persist is settled
+ * by resolveStaleIntents: adopted when the broker has the order, rejected
+ * when it never arrived. Either way no broker order is left without its row.
+ *
+ * Multi-leg orders follow the same path under the strategy's
+ * client_order_id: the strategy and every leg are intents first, and a
+ * strategy's legs are adopted or rejected together.
+ */
+
+import type { createDbClient } from "./db-client.ts";
+import type { AdapterLegTrade, AdapterOrderResult, BrokerAdapter, OrderStatusResponse } from "./broker-adapter.ts";
+import type { OptionsQuote } from "./market-data/types.ts";
+import type {
+  MultiLegOrderRequest,
+  MultiLegOrderResult,
+  NetPriceEffect,
+  Order,
+  OrderRequest,
+  OrderStatus,
+  Trade,
+} from "./types.ts";
+import {
+  applyOrderFill,
+  incrementalFill,
+  isTerminalStatus,
+  recordOrderSubmission,
+  transitionOrder,
+} from "./order-lifecycle.ts";
+import { systemClock, type Clock } from "./refactored/core/clock.ts";
+
+type DbClient = ReturnType<typeof createDbClient>;
+type AdapterTrade = Omit<Trade, 'id' | 'created_at'>;
+
+// Longer than any submission can still be in flight
+export const STALE_INTENT_MS = 2 * 60 * 1000;
+
+export interface OutboxOptions {
+  source: string; // Writer, e.g. 'webhook' or 'exit-worker'
+  orderFields?: Record<string, unknown>; // Extra orders columns, e.g. signal_id or chase_id
+  marketPrice?: number;
+  quote?: OptionsQuote;
+}
+
+export interface OutboxSubmission {
+  order: Order | null; // As persisted after the broker answered
+  result: AdapterOrderResult;
+  trade: AdapterTrade | null; // Immediate fill of an order this call submitted
+  trade_booked: boolean;
+  replayed: boolean; // The client_order_id was already used; nothing new went to the broker
+  error?: string;
+}
+
+export interface MultiLegOutboxOptions {
+  source: string; // Writer, e.g. 'multi-leg'
+  strategyFields?: Record<string, unknown>; // Extra strategies columns, e.g. paper_entry
+}
+
+export interface MultiLegOutboxSubmission {
+  strategy_id: string | null;
+  order_ids: string[]; // Leg orders by leg_number
+  result: MultiLegOrderResult;
+  replayed: boolean; // The client_order_id was already used; nothing new went to the broker
+  error?: string;
+}
+
+export type IntentResolution = 'ADOPTED' | 'REJECTED' | 'UNRESOLVED';
+
+export interface IntentSweepResult {
+  order_id: string;
+  client_order_id: string;
+  strategy_id?: string; // Legs settle with their strategy
+  resolution: IntentResolution;
+  broker_order_id?: string;
+  error?: string;
+}
+
+// What the broker said about an order: a fresh submission or a lookup
+interface BrokerReport {
+  broker_order_id: string;
+  status: OrderStatus;
+  filled_quantity: number;
+  avg_fill_price?: number;
+  error?: string;
+}
+
+interface StrategyRow {
+  id: string;
+  client_order_id: string | null;
+  status: 'PENDING' | 'PARTIAL' | 'FILLED' | 'CLOSED' | 'FAILED';
+  quantity: number;
+  broker_order_id: string | null;
+  net_fill_price: number | string | null;
+  price_effect: NetPriceEffect | null;
+}
+
+/**
+ * Submits `request` at most once per client_order_id. A repeat call with an
+ * id that already reached the broker returns the stored order; one whose
+ * intent was written but never answered asks the broker first and only
+ * submits if the broker has no such order.
+ */
+export async function submitOrderOnce(
+  supabase: DbClient,
+  adapter: BrokerAdapter,
+  request: OrderRequest & { client_order_id: string },
+  options: OutboxOptions,
+  clock: Clock = systemClock
+): Promise<OutboxSubmission> {
+  const { source } = options;
+  let intent = await loadByClientId(supabase, request.client_order_id);
+
+  if (intent && (intent.broker_order_id || intent.status !== 'PENDING')) {
+    return replay(intent);
+  }
+
+  if (intent) {
+    // An earlier attempt wrote the intent but never recorded the broker's answer
+    const lookup = await findAtBroker(adapter, request.client_order_id);
+    if ('error' in lookup) {
+      return unresolved(intent, `Not resubmitting ${request.client_order_id}: ${lookup.error}`);
+    }
+    if (lookup.report) {
+      const { order } = await recordBrokerOrder(supabase, adapter, intent, lookup.report, null, source, clock);
+      return replay(order ?? intent);
+    }
+  } else {
+    const created = await recordOrderSubmission(
+      supabase,
+      {
+        ...options.orderFields,
+        client_order_id: request.client_order_id,
+        broker_order_id: null,
+        underlying: request.underlying,
+        symbol: request.symbol,
+        strike: request.strike,
+        expiration: request.expiration,
+        option_type: request.option_type,
+        side: request.side,
+        quantity: request.quantity,
+        order_type: request.order_type,
+        limit_price: request.limit_price ?? null,
+        stop_price: request.stop_price ?? null,
+        time_in_force: request.time_in_force,
+        mode: adapter.mode,
+        status: 'PENDING',
+        filled_quantity: 0,
+      },
+      null,
+      source,
+      clock
+    );
+
+    if (!created.order) {
+      // The unique client_order_id refuses a concurrent attempt's second intent
+      const existing = await loadByClientId(supabase, request.client_order_id);
+      if (existing) {
+        return replay(existing);
+      }
+      return failure(request, `Failed to record order intent: ${created.error}`);
+    }
+    intent = created.order;
+  }
+
+  const { result, trade } = await adapter.submitOrder(request, options.marketPrice, options.quote);
+
+  if (!result.success || !result.broker_order_id) {
+    // A timeout can hide an order the broker did accept
+    const lookup = await findAtBroker(adapter, request.client_order_id);
+    if ('error' in lookup) {
+      // Left PENDING for resolveStaleIntents
+      return { ...unresolved(intent, result.error ?? lookup.error), replayed: false };
+    }
+    if (lookup.report) {
+      const { order } = await recordBrokerOrder(supabase, adapter, intent, lookup.report, null, source, clock);
+      return { ...replay(order ?? intent), replayed: false };
+    }
+
+    const reason = result.error ?? 'Rejected by broker';
+    await transitionOrder(supabase, intent.id, {
+      status: 'REJECTED',
+      source,
+      reason,
+      fields: { error_message: reason },
+    }, clock);
+    return {
+      order: await loadOrder(supabase, intent.id),
+      result: { ...result, order_id: intent.id },
+      trade: null,
+      trade_booked: false,
+      replayed: false,
+      error: reason,
+    };
+  }
+
+  const { order, fill_booked } = await recordBrokerOrder(
+    supabase,
+    adapter,
+    intent,
+    { ...result, broker_order_id: result.broker_order_id },
+    trade,
+    source,
+    clock
+  );
+
+  return {
+    order,
+    result: { ...result, order_id: intent.id },
+    trade,
+    trade_booked: fill_booked,
+    replayed: false,
+  };
+}
+
+/**
+ * Submits a multi-leg `request` at most once per client_order_id. The
+ * strategy row and one orders row per leg are written as PENDING intents
+ * before the broker sees the order; a leg that cannot be written fails the
+ * strategy without sending it. Retries behave as in submitOrderOnce.
+ */
+export async function submitMultiLegOrderOnce(
+  supabase: DbClient,
+  adapter: BrokerAdapter,
+  request: MultiLegOrderRequest & { client_order_id: string },
+  legPrices: number[] | undefined,
+  options: MultiLegOutboxOptions,
+  clock: Clock = systemClock
+): Promise<MultiLegOutboxSubmission> {
+  const { source } = options;
+  let strategy = await loadStrategyByClientId(supabase, request.client_order_id);
+
+  if (strategy && (strategy.broker_order_id || strategy.status !== 'PENDING')) {
+    return replayStrategy(supabase, strategy);
+  }
+
+  if (strategy) {
+    // An earlier attempt wrote the intent but never recorded the broker's answer
+    const lookup = await findAtBroker(adapter, request.client_order_id);
+    if ('error' in lookup) {
+      return unresolvedStrategy(supabase, strategy, `Not resubmitting ${request.client_order_id}: ${lookup.error}`);
+    }
+    if (lookup.report) {
+      const legs = await loadLegs(supabase, strategy.id);
+      await recordBrokerStrategy(supabase, adapter, strategy, legs, lookup.report, null, source, clock);
+      return replayStrategy(supabase, strategy);
+    }
+  } else {
+    const { data, error } = await supabase
+      .from('strategies')
+      .insert({
+        ...options.strategyFields,
+        client_order_id: request.client_order_id,
+        signal_id: request.signal_id || null,
+        strategy_type: request.strategy_type,
+        underlying: request.underlying,
+        status: 'PENDING',
+        quantity: request.quantity,
+        order_type: request.order_type,
+        net_limit_price: request.net_price ?? null,
+        price_effect: request.price_effect || null,
+        broker_order_id: null,
+        mode: adapter.mode,
+      });
+
+    if (error || !data) {
+      // The unique client_order_id refuses a concurrent attempt's second intent
+      const existing = await loadStrategyByClientId(supabase, request.client_order_id);
+      if (existing) {
+        return replayStrategy(supabase, existing);
+      }
+      return strategyFailure(request, null, [], `Failed to record strategy intent: ${error?.message ?? 'no row returned'}`);
+    }
+    strategy = data as StrategyRow;
+  }
+
+  // A crash while writing the legs leaves some of them to add now
+  const legs = await loadLegs(supabase, strategy.id);
+  for (const [index, leg] of request.legs.entries()) {
+    const legNumber = index + 1;
+    if (legs.some(existing => existing.leg_number === legNumber)) {
+      continue;
+    }
+
+    const created = await recordOrderSubmission(
+      supabase,
+      {
+        signal_id: request.signal_id || null,
+        client_order_id: `${request.client_order_id}-L${legNumber}`,
+        broker_order_id: null,
+        underlying: request.underlying,
+        symbol: leg.symbol,
+        strike: leg.strike,
+        expiration: leg.expiration,
+        option_type: leg.option_type,
+        side: leg.side,
+        quantity: leg.ratio * request.quantity,
+        order_type: request.order_type,
+        // Leg rows carry no individual limit; the net limit lives on the strategy
+        limit_price: null,
+        stop_price: null,
+        time_in_force: request.time_in_force,
+        mode: adapter.mode,
+        status: 'PENDING',
+        filled_quantity: 0,
+        strategy_id: strategy.id,
+        leg_number: legNumber,
+      },
+      null,
+      source,
+      clock
+    );
+
+    if (!created.order) {
+      const reason = `Failed to record leg ${legNumber} intent: ${created.error}`;
+      await failStrategy(supabase, strategy.id, legs, reason, source, clock);
+      return strategyFailure(request, strategy.id, legs.map(existing => existing.id), reason);
+    }
+    legs.push(created.order);
+  }
+  legs.sort((a, b) => (a.leg_number ?? 0) - (b.leg_number ?? 0));
+
+  const submission = await adapter.submitMultiLegOrder(request, legPrices);
+  const { result } = submission;
+
+  if (!result.success || !result.broker_order_id) {
+    // A timeout can hide an order the broker did accept
+    const lookup = await findAtBroker(adapter, request.client_order_id);
+    if ('error' in lookup) {
+      // Left PENDING for resolveStaleIntents
+      return { ...await unresolvedStrategy(supabase, strategy, result.error ?? lookup.error), replayed: false };
+    }
+    if (lookup.report) {
+      await recordBrokerStrategy(supabase, adapter, strategy, legs, lookup.report, null, source, clock);
+      return { ...await replayStrategy(supabase, strategy), replayed: false };
+    }
+
+    const reason = result.error ?? 'Rejected by broker';
+    await failStrategy(supabase, strategy.id, legs, reason, source, clock);
+    return {
+      strategy_id: strategy.id,
+      order_ids: legs.map(leg => leg.id),
+      result: { ...result, order_id: strategy.id },
+      replayed: false,
+      error: reason,
+    };
+  }
+
+  await recordBrokerStrategy(
+    supabase,
+    adapter,
+    strategy,
+    legs,
+    {
+      broker_order_id: result.broker_order_id,
+      status: result.status,
+      filled_quantity: result.filled_quantity,
+      error: result.error,
+    },
+    submission,
+    source,
+    clock
+  );
+
+  return {
+    strategy_id: strategy.id,
+    order_ids: legs.map(leg => leg.id),
+    result: { ...result, order_id: strategy.id },
+    replayed: false,
+    error: result.error,
+  };
+}
+
+/**
+ * Settles intents that stayed PENDING without a broker order for longer
+ * than `staleMs`: adopted if the broker has the client_order_id, rejected
+ * if it does not, and left for the next sweep if the broker cannot be asked.
+ */
+export async function resolveStaleIntents(
+  supabase: DbClient,
+  adapter: BrokerAdapter,
+  source: string,
+  clock: Clock = systemClock,
+  staleMs: number = STALE_INTENT_MS
+): Promise<IntentSweepResult[]> {
+  const cutoff = new Date(clock.now().getTime() - staleMs).toISOString();
+  const { data, error } = await supabase
+    .from('orders')
+    .select('*')
+    .eq('mode', adapter.mode)
+    .eq('status', 'PENDING')
+    .lte('created_at', cutoff);
+
+  if (error) {
+    throw new Error(`Failed to load pending order intents: ${error.message}`);
+  }
+
+  const results: IntentSweepResult[] = [];
+  // Multi-leg legs without a leg id were submitted under their strategy's
+  // broker order; poll-orders matches them by symbol
+  const intents = ((data || []) as Order[])
+    .filter(order => !order.broker_order_id && order.client_order_id && !order.strategy_id);
+  for (const intent of intents) {
+    const lookup = await findAtBroker(adapter, intent.client_order_id);
+    const result: IntentSweepResult = {
+      order_id: intent.id,
+      client_order_id: intent.client_order_id,
+      resolution: 'UNRESOLVED',
+    };
+
+    if ('error' in lookup) {
+      result.error = lookup.error;
+    } else if (lookup.report) {
+      await recordBrokerOrder(supabase, adapter, intent, lookup.report, null, source, clock);
+      result.resolution = 'ADOPTED';
+      result.broker_order_id = lookup.report.broker_order_id;
+    } else {
+      const reason = 'Submission never reached the broker';
+      await transitionOrder(supabase, intent.id, {
+        status: 'REJECTED',
+        source,
+        reason,
+        fields: { error_message: reason },
+      }, clock);
+      result.resolution = 'REJECTED';
+    }
+    results.push(result);
+  }
+
+  results.push(...await resolveStaleStrategyIntents(supabase, adapter, cutoff, source, clock));
+  return results;
+}
+
+// Strategies whose intent never got a broker order, settled with their legs
+// under the strategy's client_order_id
+async function resolveStaleStrategyIntents(
+  supabase: DbClient,
+  adapter: BrokerAdapter,
+  cutoff: string,
+  source: string,
+  clock: Clock
+): Promise<IntentSweepResult[]> {
+  const { data, error } = await supabase
+    .from('strategies')
+    .select('*')
+    .eq('mode', adapter.mode)
+    .eq('status', 'PENDING')
+    .lte('created_at', cutoff);
+
+  if (error) {
+    throw new Error(`Failed to load pending strategy intents: ${error.message}`);
+  }
+
+  const results: IntentSweepResult[] = [];
+  const strategies = ((data || []) as StrategyRow[])
+    .filter((strategy): strategy is StrategyRow & { client_order_id: string } =>
+      !strategy.broker_order_id && !!strategy.client_order_id);
+  for (const strategy of strategies) {
+    const legs = await loadLegs(supabase, strategy.id);
+    const lookup = await findAtBroker(adapter, strategy.client_order_id);
+    let resolution: IntentResolution = 'UNRESOLVED';
+
+    if ('error' in lookup) {
+      // Left for the next sweep
+    } else if (lookup.report) {
+      await recordBrokerStrategy(supabase, adapter, strategy, legs, lookup.report, null, source, clock);
+      resolution = 'ADOPTED';
+    } else {
+      await failStrategy(supabase, strategy.id, legs, 'Submission never reached the broker', source, clock);
+      resolution = 'REJECTED';
+    }
+
+    for (const leg of legs) {
+      results.push({
+        order_id: leg.id,
+        client_order_id: leg.client_order_id,
+        strategy_id: strategy.id,
+        resolution,
+        broker_order_id: lookup && 'report' in lookup ? lookup.report?.broker_order_id : undefined,
+        error: 'error' in lookup ? lookup.error : undefined,
+      });
+    }
+  }
+
+  return results;
+}
+
+// Links the intent to its broker order and applies whatever the broker
+// reported, through the order state machine
+async function recordBrokerOrder(
+  supabase: DbClient,
+  adapter: BrokerAdapter,
+  intent: Order,
+  report: BrokerReport,
+  trade: AdapterTrade | null,
+  source: string,
+  clock: Clock
+): Promise<{ order: Order | null; fill_booked: boolean }> {
+  const now = clock.now().toISOString();
+  const linked = await transitionOrder(supabase, intent.id, {
+    status: 'SUBMITTED',
+    source,
+    fields: { broker_order_id: report.broker_order_id, submitted_at: now },
+  }, clock);
+
+  if (!linked.applied && linked.status && isTerminalStatus(linked.status)) {
+    // Closed underneath us, e.g. by the kill switch, while the submission was
+    // in flight; the broker order must not outlive it
+    await supabase
+      .from('orders')
+      .update({ broker_order_id: report.broker_order_id, updated_at: now })
+      .eq('id', intent.id);
+    if (linked.status === 'CANCELLED') {
+      const cancelled = await adapter.cancelOrder(intent.id, report.broker_order_id);
+      if (!cancelled.success) {
+        console.error(`[OrderOutbox] Could not cancel ${report.broker_order_id} for closed intent ${intent.id}: ${cancelled.error}`);
+      }
+    }
+    return { order: await loadOrder(supabase, intent.id), fill_booked: false };
+  }
+
+  const fill = trade && trade.quantity > 0
+    ? trade
+    : report.filled_quantity > 0 && report.avg_fill_price
+      ? incrementalFill(
+        { filled_quantity: 0, avg_fill_price: null },
+        {
+          broker_order_id: report.broker_order_id,
+          filled_quantity: report.filled_quantity,
+          avg_fill_price: report.avg_fill_price,
+        },
+        now
+      )
+      : null;
+  const booked = fill ? await applyOrderFill(supabase, intent.id, fill, source, clock) : null;
+
+  // Fill statuses follow the booked quantity; anything else is the broker's word
+  if (!['PENDING', 'SUBMITTED', 'PARTIAL_FILL', 'FILLED'].includes(report.status)) {
+    await transitionOrder(supabase, intent.id, {
+      status: report.status,
+      source,
+      reason: report.error,
+      fields: report.error ? { error_message: report.error } : undefined,
+    }, clock);
+  }
+
+  return { order: await loadOrder(supabase, intent.id), fill_booked: booked?.applied ?? false };
+}
+
+// Links the strategy and its legs to the broker order and applies what the
+// broker reported. A fresh submission carries per-leg ids and fills; a lookup
+// only has the parent order, and poll-orders books its legs' fills later.
+async function recordBrokerStrategy(
+  supabase: DbClient,
+  adapter: BrokerAdapter,
+  strategy: StrategyRow,
+  legs: Order[],
+  report: BrokerReport,
+  submission: { result: MultiLegOrderResult; trades: AdapterLegTrade[] } | null,
+  source: string,
+  clock: Clock
+): Promise<void> {
+  const now = clock.now().toISOString();
+  const result = submission?.result;
+  const netFillTotal = result?.net_fill_price !== undefined
+    ? result.net_fill_price * result.filled_quantity * 100
+    : null;
+
+  await supabase
+    .from('strategies')
+    .update({
+      status: strategyStatus(report.status),
+      broker_order_id: report.broker_order_id,
+      net_fill_price: result?.net_fill_price ?? null,
+      price_effect: result?.price_effect ?? strategy.price_effect,
+      total_cost: netFillTotal !== null && result?.price_effect === 'DEBIT' ? netFillTotal : null,
+      total_credit: netFillTotal !== null && result?.price_effect === 'CREDIT' ? netFillTotal : null,
+      opened_at: report.status === 'FILLED' ? now : null,
+      updated_at: now,
+    })
+    .eq('id', strategy.id);
+
+  let closedUnderneath = false;
+  for (const leg of legs) {
+    const legResult = result?.leg_results.find(candidate => candidate.leg_number === leg.leg_number);
+    const linked = await transitionOrder(supabase, leg.id, {
+      status: 'SUBMITTED',
+      source,
+      fields: { broker_order_id: legResult?.broker_order_id ?? null, submitted_at: now },
+    }, clock);
+
+    if (!linked.applied && linked.status && isTerminalStatus(linked.status)) {
+      // Closed underneath us, e.g. by the kill switch, while the submission was in flight
+      closedUnderneath ||= linked.status === 'CANCELLED';
+      continue;
+    }
+
+    const trade = submission?.trades.find(candidate => candidate.leg_number === leg.leg_number);
+    if (trade && trade.quantity > 0) {
+      await applyOrderFill(
+        supabase,
+        leg.id,
+        { ...trade, broker_trade_id: trade.broker_trade_id || `${report.broker_order_id}-L${leg.leg_number}-fill` },
+        source,
+        clock
+      );
+    }
+
+    const legStatus = legResult?.status ?? report.status;
+    if (!['PENDING', 'SUBMITTED', 'PARTIAL_FILL', 'FILLED'].includes(legStatus)) {
+      await transitionOrder(supabase, leg.id, {
+        status: legStatus,
+        source,
+        reason: report.error,
+        fields: report.error ? { error_message: report.error } : undefined,
+      }, clock);
+    }
+  }
+
+  // The broker order must not outlive legs that were cancelled meanwhile
+  if (closedUnderneath) {
+    const cancelled = await adapter.cancelOrder(strategy.id, report.broker_order_id);
+    if (!cancelled.success) {
+      console.error(`[OrderOutbox] Could not cancel ${report.broker_order_id} for closed strategy ${strategy.id}: ${cancelled.error}`);
+    }
+  }
+}
+
+// A strategy that will not reach the broker: its open legs are rejected with it
+async function failStrategy(
+  supabase: DbClient,
+  strategyId: string,
+  legs: Order[],
+  reason: string,
+  source: string,
+  clock: Clock
+): Promise<void> {
+  for (const leg of legs.filter(candidate => !isTerminalStatus(candidate.status))) {
+    await transitionOrder(supabase, leg.id, {
+      status: 'REJECTED',
+      source,
+      reason,
+      fields: { error_message: reason },
+    }, clock);
+  }
+  await supabase
+    .from('strategies')
+    .update({ status: 'FAILED', updated_at: clock.now().toISOString() })
+    .eq('id', strategyId);
+}
+
+function strategyStatus(status: OrderStatus): StrategyRow['status'] {
+  switch (status) {
+    case 'FILLED':
+      return 'FILLED';
+    case 'PARTIAL_FILL':
+      return 'PARTIAL';
+    case 'REJECTED':
+    case 'CANCELLED':
+    case 'EXPIRED':
+      return 'FAILED';
+    default:
+      return 'PENDING';
+  }
+}
+
+async function findAtBroker(
+  adapter: BrokerAdapter,
+  clientOrderId: string
+): Promise<{ report: BrokerReport | null } | { error: string }> {
+  let found: OrderStatusResponse | null;
+  try {
+    found = await adapter.findOrderByClientId(clientOrderId);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    console.warn(`[OrderOutbox] Lookup of ${clientOrderId} failed: ${message}`);
+    return { error: `Broker lookup failed: ${message}` };
+  }
+
+  if (!found) {
+    return { report: null };
+  }
+  return {
+    report: {
+      broker_order_id: found.broker_order_id,
+      status: found.status,
+      filled_quantity: found.filled_quantity,
+      avg_fill_price: found.avg_fill_price,
+      error: found.rejection_reason,
+    },
+  };
+}
+
+function replay(order: Order): OutboxSubmission {
+  return {
+    order,
+    result: {
+      success: order.status !== 'REJECTED',
+      order_id: order.id,
+      broker_order_id: order.broker_order_id ?? undefined,
+      status: order.status,
+      filled_quantity: Number(order.filled_quantity) || 0,
+      avg_fill_price: order.avg_fill_price !== null ? Number(order.avg_fill_price) : undefined,
+      error: order.error_message ?? undefined,
+    },
+    trade: null,
+    trade_booked: false,
+    replayed: true,
+  };
+}
+
+// An intent whose fate at the broker is still unknown
+function unresolved(intent: Order, error: string): OutboxSubmission {
+  const stored = replay(intent);
+  return { ...stored, result: { ...stored.result, success: false, error }, error };
+}
+
+function failure(request: OrderRequest & { client_order_id: string }, error: string): OutboxSubmission {
+  return {
+    order: null,
+    result: {
+      success: false,
+      order_id: request.client_order_id,
+      status: 'REJECTED',
+      filled_quantity: 0,
+      error,
+    },
+    trade: null,
+    trade_booked: false,
+    replayed: false,
+    error,
+  };
+}
+
+async function loadByClientId(supabase: DbClient, clientOrderId: string): Promise<Order | null> {
+  const { data } = await supabase
+    .from('orders')
+    .select('*')
+    .eq('client_order_id', clientOrderId)
+    .single();
+  return (data as Order | null) ?? null;
+}
+
+async function loadOrder(supabase: DbClient, orderId: string): Promise<Order | null> {
+  const { data } = await supabase
+    .from('orders')
+    .select('*')
+    .eq('id', orderId)
+    .single();
+  return (data as Order | null) ?? null;
+}
+
+async function replayStrategy(supabase: DbClient, strategy: StrategyRow): Promise<MultiLegOutboxSubmission> {
+  const stored = await loadStrategy(supabase, strategy.id) ?? strategy;
+  const legs = await loadLegs(supabase, stored.id);
+  const failed = legs.find(leg => leg.error_message);
+  const status: OrderStatus = stored.status === 'FILLED'
+    ? 'FILLED'
+    : stored.status === 'PARTIAL'
+      ? 'PARTIAL_FILL'
+      : stored.status === 'FAILED'
+        ? legs.find(leg => isTerminalStatus(leg.status))?.status ?? 'REJECTED'
+        : legs[0]?.status ?? 'PENDING';
+
+  return {
+    strategy_id: stored.id,
+    order_ids: legs.map(leg => leg.id),
+    result: {
+      success: stored.status !== 'FAILED',
+      order_id: stored.id,
+      broker_order_id: stored.broker_order_id ?? undefined,
+      status,
+      filled_quantity: stored.status === 'FILLED' ? Number(stored.quantity) : 0,
+      net_fill_price: stored.net_fill_price !== null ? Number(stored.net_fill_price) : undefined,
+      price_effect: stored.price_effect ?? undefined,
+      leg_results: legs.map(leg => ({
+        leg_number: leg.leg_number ?? 0,
+        broker_order_id: leg.broker_order_id ?? undefined,
+        symbol: leg.symbol,
+        side: leg.side,
+        status: leg.status,
+        filled_quantity: Number(leg.filled_quantity) || 0,
+        avg_fill_price: leg.avg_fill_price !== null ? Number(leg.avg_fill_price) : undefined,
+      })),
+      error: failed?.error_message ?? undefined,
+    },
+    replayed: true,
+  };
+}
+
+// A strategy intent whose fate at the broker is still unknown
+async function unresolvedStrategy(
+  supabase: DbClient,
+  strategy: StrategyRow,
+  error: string
+): Promise<MultiLegOutboxSubmission> {
+  const stored = await replayStrategy(supabase, strategy);
+  return { ...stored, result: { ...stored.result, success: false, error }, error };
+}
+
+function strategyFailure(
+  request: MultiLegOrderRequest & { client_order_id: string },
+  strategyId: string | null,
+  orderIds: string[],
+  error: string
+): MultiLegOutboxSubmission {
+  return {
+    strategy_id: strategyId,
+    order_ids: orderIds,
+    result: {
+      success: false,
+      order_id: strategyId ?? request.client_order_id,
+      status: 'REJECTED',
+      filled_quantity: 0,
+      leg_results: request.legs.map((leg, index) => ({
+        leg_number: index + 1,
+        symbol: leg.symbol,
+        side: leg.side,
+        status: 'REJECTED',
+        filled_quantity: 0,
+      })),
+      error,
+    },
+    replayed: false,
+    error,
+  };
+}
+
+async function loadStrategyByClientId(supabase: DbClient, clientOrderId: string): Promise<StrategyRow | null> {
+  const { data } = await supabase
+    .from('strategies')
+    .select('*')
+    .eq('client_order_id', clientOrderId)
+    .single();
+  return (data as StrategyRow | null) ?? null;
+}
+
+async function loadStrategy(supabase: DbClient, strategyId: string): Promise<StrategyRow | null> {
+  const { data } = await supabase
+    .from('strategies')
+    .select('*')
+    .eq('id', strategyId)
+    .single();
+  return (data as StrategyRow | null) ?? null;
+}
+
+async function loadLegs(supabase: DbClient, strategyId: string): Promise<Order[]> {
+  const { data } = await supabase
+    .from('orders')
+    .select('*')
+    .eq('strategy_id', strategyId)
+    .order('leg_number', { ascending: true });
+  return (data || []) as Order[];
+}
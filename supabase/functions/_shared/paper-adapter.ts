@@ -2,10 +2,25 @@ import type {
   AdapterConfig, 
   OrderRequest, 
   OrderResult,
-  Trade 
+  OrderStatus,
+  MultiLegOrderRequest,
+  MultiLegOrderResult,
+  LegFillResult
 } from "./types.ts";
+import type { AdapterLegTrade, AdapterTradeFill, OrderStatusResponse } from "./broker-adapter.ts";
+import type { OptionsQuote } from "./market-data/types.ts";
+import { calculateNetPrice, isBuySide, isNetLimitMarketable } from "./multi-leg-orders.ts";
+import { DEFAULT_QUOTE_FILL_CONFIG, simulateQuoteFill, type QuoteFillConfig } from "./paper-fill-model.ts";
+import {
+  PaperOrderBook,
+  dayOrderExpiry,
+  type PaperOrder,
+  type PaperOrderUpdate,
+  type PaperTrade,
+} from "./paper-order-book.ts";
+import { systemClock, type Clock } from "./refactored/core/clock.ts";
 
-export interface PaperAdapterConfig extends AdapterConfig {
+export interface PaperAdapterConfig extends AdapterConfig, QuoteFillConfig {
   slippage_percent: number;
   commission_per_contract: number;
   fee_per_contract: number;
@@ -21,6 +36,7 @@ const DEFAULT_CONFIG: PaperAdapterConfig = {
   fee_per_contract: 0.02,
   base_price: 1.00,
   deterministic: false,
+  ...DEFAULT_QUOTE_FILL_CONFIG,
 };
 
 // Simple seeded random number generator for deterministic testing
@@ -40,8 +56,9 @@ class SeededRandom {
 export class PaperAdapter {
   private config: PaperAdapterConfig;
   private random: SeededRandom | null;
+  private book = new PaperOrderBook();
 
-  constructor(config: Partial<PaperAdapterConfig> = {}) {
+  constructor(config: Partial<PaperAdapterConfig> = {}, private clock: Clock = systemClock) {
     this.config = { ...DEFAULT_CONFIG, ...config };
     this.random = this.config.deterministic && this.config.seed !== undefined
       ? new SeededRandom(this.config.seed)
@@ -59,70 +76,130 @@ export class PaperAdapter {
     return basePrice * (1 + direction * Math.abs(slippageMultiplier));
   }
 
+  /**
+   * Fills against the quote's bid/ask when one is given (see paper-fill-model.ts),
+   * otherwise at marketPrice (or base_price) with random slippage. Whatever
+   * does not fill rests in the order book according to time_in_force.
+   */
   async submitOrder(
     request: OrderRequest, 
-    marketPrice?: number
-  ): Promise<{ result: OrderResult; trade: Omit<Trade, 'id' | 'created_at'> }> {
+    marketPrice?: number,
+    quote?: OptionsQuote
+  ): Promise<{ result: OrderResult; trade: PaperTrade | null }> {
     const orderId = crypto.randomUUID();
     const tradeId = `PAPER-${Date.now()}-${Math.random().toString(36).substring(7)}`;
-    
-    // Use provided market price or config base price
-    const basePrice = marketPrice ?? this.config.base_price;
-    
-    // For limit orders, check if the order would fill
-    if (request.order_type === 'LIMIT' && request.limit_price) {
-      const isBuy = request.side.includes('BUY');
-      if (isBuy && request.limit_price < basePrice) {
-        // Buy limit below market - wouldn't fill immediately
-        return {
-          result: {
-            success: true,
-            order_id: orderId,
-            broker_order_id: tradeId,
-            status: 'SUBMITTED',
-            filled_quantity: 0,
-          },
-          trade: null as any, // No trade yet for unfilled orders
-        };
+    const isBuy = request.side.includes('BUY');
+
+    const quoteFill = quote
+      ? simulateQuoteFill(request, quote, () => this.getRandom(), this.config)
+      : null;
+
+    let fill: { price: number; quantity: number } | null = null;
+
+    if (quoteFill) {
+      if (quoteFill.status !== 'UNFILLED') {
+        fill = { price: quoteFill.price, quantity: quoteFill.filled_quantity };
       }
-      if (!isBuy && request.limit_price > basePrice) {
-        // Sell limit above market - wouldn't fill immediately
-        return {
-          result: {
-            success: true,
-            order_id: orderId,
-            broker_order_id: tradeId,
-            status: 'SUBMITTED',
-            filled_quantity: 0,
-          },
-          trade: null as any,
+    } else {
+      // Use provided market price or config base price
+      const basePrice = marketPrice ?? this.config.base_price;
+
+      // Buy limits below market and sell limits above it don't fill immediately
+      const restsAway = request.order_type === 'LIMIT' && !!request.limit_price && (
+        isBuy ? request.limit_price < basePrice : request.limit_price > basePrice
+      );
+
+      if (!restsAway) {
+        // Calculate execution price with slippage
+        fill = {
+          price: this.calculateSlippage(request.limit_price || basePrice, isBuy),
+          quantity: request.quantity,
         };
       }
     }
 
-    // Calculate execution price with slippage
+    return this.accept(request, orderId, tradeId, fill);
+  }
+
+  /**
+   * Applies time_in_force to the immediate fill and books the order: FOK fills
+   * completely or not at all, IOC cancels whatever did not fill, DAY and GTC
+   * rest the remainder.
+   */
+  private accept(
+    request: OrderRequest,
+    orderId: string,
+    tradeId: string,
+    fill: { price: number; quantity: number } | null
+  ): { result: OrderResult; trade: PaperTrade | null } {
+    if (fill && request.time_in_force === 'FOK' && fill.quantity < request.quantity) {
+      fill = null;
+    }
+
+    const trade = fill ? this.buildTrade(request, orderId, tradeId, fill.price, fill.quantity) : null;
+    const filledQuantity = trade?.quantity ?? 0;
+    const immediateOnly = request.time_in_force === 'IOC' || request.time_in_force === 'FOK';
+
+    let status: OrderStatus;
+    if (filledQuantity >= request.quantity) {
+      status = 'FILLED';
+    } else if (immediateOnly) {
+      status = 'CANCELLED';
+    } else {
+      status = filledQuantity > 0 ? 'PARTIAL_FILL' : 'SUBMITTED';
+    }
+
+    const now = this.clock.now();
+    this.book.add({
+      order_id: orderId,
+      broker_order_id: tradeId,
+      request,
+      status,
+      filled_quantity: filledQuantity,
+      avg_fill_price: trade?.execution_price,
+      submitted_at: now.toISOString(),
+      expires_at: request.time_in_force === 'DAY' ? dayOrderExpiry(now).toISOString() : null,
+      fills: trade ? [trade] : [],
+    });
+
+    return {
+      result: {
+        success: true,
+        order_id: orderId,
+        broker_order_id: tradeId,
+        status,
+        filled_quantity: filledQuantity,
+        avg_fill_price: trade?.execution_price,
+      },
+      trade,
+    };
+  }
+
+  private buildTrade(
+    request: OrderRequest,
+    orderId: string,
+    tradeId: string,
+    executionPrice: number,
+    quantity: number
+  ): PaperTrade {
     const isBuy = request.side.includes('BUY');
-    const executionPrice = this.calculateSlippage(
-      request.limit_price || basePrice, 
-      isBuy
-    );
-    
+
     // Calculate costs
-    const commission = this.config.commission_per_contract * request.quantity;
-    const fees = this.config.fee_per_contract * request.quantity;
+    const commission = this.config.commission_per_contract * quantity;
+    const fees = this.config.fee_per_contract * quantity;
     const contractMultiplier = 100; // Options contract multiplier
-    const premium = executionPrice * request.quantity * contractMultiplier;
+    const premium = executionPrice * quantity * contractMultiplier;
     
     // For buys, total cost is premium + fees; for sells, it's fees minus premium received
     const totalCost = isBuy 
       ? premium + commission + fees
       : commission + fees - premium;
 
-    const trade: Omit<Trade, 'id' | 'created_at'> = {
+    return {
       order_id: orderId,
       broker_trade_id: tradeId,
       execution_price: Math.round(executionPrice * 100) / 100,
-      quantity: request.quantity,
+      quantity,
       commission,
       fees,
       total_cost: Math.round(totalCost * 100) / 100,
@@ -131,24 +208,239 @@ export class PaperAdapter {
       strike: request.strike,
       expiration: request.expiration,
       option_type: request.option_type,
-      executed_at: new Date().toISOString(),
+      executed_at: this.clock.now().toISOString(),
     };
+  }
+
+  /**
+   * Loads a working order persisted by an earlier run back into the book
+   */
+  restoreOrder(order: PaperOrder): void {
+    this.book.add(order);
+  }
+
+  getWorkingOrders(): PaperOrder[] {
+    return this.book.resting();
+  }
+
+  /**
+   * Re-evaluates every resting order against fresh quotes keyed by OCC symbol.
+   * Expired DAY orders come off the book first; orders without a quote keep
+   * resting. Returns only the orders that changed.
+   */
+  processRestingOrders(quotes: Map<string, OptionsQuote>): PaperOrderUpdate[] {
+    const now = this.clock.now();
+    const updates: PaperOrderUpdate[] = [];
+
+    for (const order of this.book.resting()) {
+      const { request } = order;
+
+      if (this.book.isExpired(order, now)) {
+        const expired = this.book.close(order.broker_order_id, 'EXPIRED');
+        if (expired) updates.push(expired);
+        continue;
+      }
+
+      if (request.time_in_force === 'IOC' || request.time_in_force === 'FOK') {
+        const cancelled = this.book.close(order.broker_order_id, 'CANCELLED');
+        if (cancelled) updates.push(cancelled);
+        continue;
+      }
+
+      const quote = quotes.get(request.symbol);
+      if (!quote) {
+        continue;
+      }
+
+      const remaining = request.quantity - order.filled_quantity;
+      const fill = simulateQuoteFill(
+        { ...request, quantity: remaining },
+        quote,
+        () => this.getRandom(),
+        this.config
+      );
+      if (!fill || fill.status === 'UNFILLED') {
+        continue;
+      }
+
+      // Keyed on the cumulative quantity: orders restored from the database
+      // come back without their fill history
+      const trade = this.buildTrade(
+        request,
+        order.order_id,
+        `${order.broker_order_id}-F${order.filled_quantity + fill.filled_quantity}`,
+        fill.price,
+        fill.filled_quantity
+      );
+      updates.push(this.book.recordFill(order.broker_order_id, trade));
+    }
+
+    return updates;
+  }
+
+  getOrderStatus(orderId: string, brokerOrderId: string): OrderStatusResponse {
+    return this.book.status(orderId, brokerOrderId);
+  }
+
+  getOrderFills(brokerOrderId: string): AdapterTradeFill[] {
+    return this.book.fills(brokerOrderId);
+  }
+
+  /**
+   * Only orders in this book are known; the adapter factory falls back to
+   * the orders table for anything from an earlier run
+   */
+  findOrderByClientId(clientOrderId: string): OrderStatusResponse | null {
+    const order = this.book.findByClientOrderId(clientOrderId);
+    return order ? this.book.status(order.order_id, order.broker_order_id) : null;
+  }
+
+  /**
+   * Simulates a multi-leg order leg-by-leg. The net limit is checked against
+   * the net market price first; if marketable, every leg fills with slippage.
+   */
+  async submitMultiLegOrder(
+    request: MultiLegOrderRequest,
+    legPrices: number[] = []
+  ): Promise<{ result: MultiLegOrderResult; trades: AdapterLegTrade[] }> {
+    const brokerOrderId = `PAPER-${Date.now()}-${Math.random().toString(36).substring(7)}`;
+    return this.evaluateMultiLegOrder(request, legPrices, crypto.randomUUID(), brokerOrderId);
+  }
+
+  /**
+   * Re-checks a resting multi-leg order against fresh leg prices. Legs keep
+   * the ids they were given at submission; nothing fills until the net limit
+   * is marketable, and then every leg fills together.
+   */
+  evaluateMultiLegOrder(
+    request: MultiLegOrderRequest,
+    legPrices: number[],
+    orderId: string,
+    brokerOrderId: string
+  ): { result: MultiLegOrderResult; trades: AdapterLegTrade[] } {
+    const marketPrices = request.legs.map((_, index) => legPrices[index] ?? this.config.base_price);
+    const market = calculateNetPrice(request.legs, marketPrices);
+
+    if (!isNetLimitMarketable(request, market)) {
+      // Net limit not reachable at current prices - all legs rest together
+      return {
+        result: {
+          success: true,
+          order_id: orderId,
+          broker_order_id: brokerOrderId,
+          status: 'SUBMITTED',
+          filled_quantity: 0,
+          price_effect: request.price_effect,
+          leg_results: request.legs.map((leg, index) => ({
+            leg_number: index + 1,
+            broker_order_id: `${brokerOrderId}-L${index + 1}`,
+            symbol: leg.symbol,
+            side: leg.side,
+            status: 'SUBMITTED',
+            filled_quantity: 0,
+          })),
+        },
+        trades: [],
+      };
+    }
+
+    const contractMultiplier = 100;
+    const executedAt = this.clock.now().toISOString();
+    const legResults: LegFillResult[] = [];
+    const trades: AdapterLegTrade[] = [];
+    const fillPrices: number[] = [];
+
+    for (const [index, leg] of request.legs.entries()) {
+      const legNumber = index + 1;
+      const isBuy = isBuySide(leg.side);
+      const quantity = leg.ratio * request.quantity;
+      const executionPrice = Math.round(this.calculateSlippage(marketPrices[index], isBuy) * 100) / 100;
+      fillPrices.push(executionPrice);
+
+      const commission = this.config.commission_per_contract * quantity;
+      const fees = this.config.fee_per_contract * quantity;
+      const premium = executionPrice * quantity * contractMultiplier;
+      const totalCost = isBuy
+        ? premium + commission + fees
+        : commission + fees - premium;
+
+      legResults.push({
+        leg_number: legNumber,
+        broker_order_id: `${brokerOrderId}-L${legNumber}`,
+        symbol: leg.symbol,
+        side: leg.side,
+        status: 'FILLED',
+        filled_quantity: quantity,
+        avg_fill_price: executionPrice,
+      });
+
+      trades.push({
+        leg_number: legNumber,
+        order_id: orderId,
+        broker_trade_id: `${brokerOrderId}-L${legNumber}-fill`,
+        execution_price: executionPrice,
+        quantity,
+        commission,
+        fees,
+        total_cost: Math.round(totalCost * 100) / 100,
+        underlying: request.underlying,
+        symbol: leg.symbol,
+        strike: leg.strike,
+        expiration: leg.expiration,
+        option_type: leg.option_type,
+        executed_at: executedAt,
+      });
+    }
+
+    const net = calculateNetPrice(request.legs, fillPrices);
 
     return {
       result: {
         success: true,
         order_id: orderId,
-        broker_order_id: tradeId,
+        broker_order_id: brokerOrderId,
         status: 'FILLED',
         filled_quantity: request.quantity,
-        avg_fill_price: trade.execution_price,
+        net_fill_price: net.net_price,
+        price_effect: net.price_effect,
+        leg_results: legResults,
       },
-      trade,
+      trades,
     };
   }
 
-  async cancelOrder(orderId: string): Promise<{ success: boolean; error?: string }> {
-    // Paper adapter always succeeds at cancelling unfilled orders
+  /**
+   * Reprices a resting order: the original comes off the book as CANCELLED
+   * and the new terms are submitted against the quote like a fresh order
+   */
+  async replaceOrder(
+    brokerOrderId: string,
+    request: OrderRequest,
+    quote?: OptionsQuote
+  ): Promise<{ result: OrderResult; trade: PaperTrade | null }> {
+    const order = this.book.get(brokerOrderId);
+    if (!order || !this.book.close(brokerOrderId, 'CANCELLED')) {
+      return {
+        result: {
+          success: false,
+          order_id: order?.order_id ?? brokerOrderId,
+          broker_order_id: brokerOrderId,
+          status: order?.status ?? 'REJECTED',
+          filled_quantity: 0,
+          error: `Order ${brokerOrderId} is not working`,
+        },
+        trade: null,
+      };
+    }
+    return this.submitOrder(request, undefined, quote);
+  }
+
+  async cancelOrder(orderId: string, brokerOrderId?: string): Promise<{ success: boolean; error?: string }> {
+    const order = brokerOrderId ? this.book.get(brokerOrderId) : undefined;
+    if (order && !this.book.close(order.broker_order_id, 'CANCELLED')) {
+      return { success: false, error: `Order ${orderId} is already ${order.status}` };
+    }
+    // Orders this adapter never saw (e.g. placed by another run) are simply acknowledged
     return { success: true };
   }
 
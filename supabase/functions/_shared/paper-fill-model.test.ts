@@ -0,0 +1,170 @@
+/**
+ * Tests for the quote-driven paper fill model
+ */
+
+import { describe, it, expect } from 'vitest';
+import * as fc from 'fast-check';
+import { DEFAULT_QUOTE_FILL_CONFIG, simulateQuoteFill } from './paper-fill-model.ts';
+import { PaperAdapter } from './paper-adapter.ts';
+import type { OptionsQuote } from './market-data/types.ts';
+import type { OrderRequest } from './types.ts';
+
+function quote(overrides: Partial<OptionsQuote> = {}): OptionsQuote {
+  return {
+    symbol: 'SPY   260320C00500000',
+    underlying: 'SPY',
+    strike: 500,
+    expiration: '2026-03-20',
+    option_type: 'CALL',
+    bid: 2.40,
+    ask: 2.50,
+    mid: 2.45,
+    last: 2.45,
+    mark: 2.45,
+    bid_size: 50,
+    ask_size: 50,
+    volume: 1000,
+    open_interest: 5000,
+    delta: 0.5,
+    gamma: 0.02,
+    theta: -0.1,
+    vega: 0.2,
+    implied_volatility: 0.2,
+    underlying_price: 500,
+    quote_time: '2026-03-04T14:35:00.000Z',
+    provider: 'tradier',
+    ...overrides,
+  };
+}
+
+function order(overrides: Partial<OrderRequest> = {}): OrderRequest {
+  return {
+    underlying: 'SPY',
+    symbol: 'SPY   260320C00500000',
+    strike: 500,
+    expiration: '2026-03-20',
+    option_type: 'CALL',
+    side: 'BUY_TO_OPEN',
+    quantity: 5,
+    order_type: 'MARKET',
+    time_in_force: 'DAY',
+    ...overrides,
+  };
+}
+
+describe('simulateQuoteFill', () => {
+  it('fills buys at the ask and sells at the bid without price improvement', () => {
+    const config = { ...DEFAULT_QUOTE_FILL_CONFIG, price_improvement: 0 };
+
+    expect(simulateQuoteFill(order(), quote(), () => 0.5, config)).toMatchObject({
+      status: 'FILLED',
+      filled_quantity: 5,
+      price: 2.50,
+      reference_price: 2.50,
+    });
+    expect(simulateQuoteFill(order({ side: 'SELL_TO_CLOSE' }), quote(), () => 0.5, config)).toMatchObject({
+      status: 'FILLED',
+      price: 2.40,
+      reference_price: 2.40,
+    });
+  });
+
+  it('never improves past the mid or fills worse than the touch on tight markets', () => {
+    fc.assert(
+      fc.property(
+        fc.double({ min: 0, max: 1, maxExcluded: true, noNaN: true }),
+        fc.double({ min: 0, max: 1, noNaN: true }),
+        fc.boolean(),
+        (draw, improvement, isBuy) => {
+          const config = { ...DEFAULT_QUOTE_FILL_CONFIG, price_improvement: improvement };
+          const fill = simulateQuoteFill(
+            order({ side: isBuy ? 'BUY_TO_OPEN' : 'SELL_TO_CLOSE' }),
+            quote(),
+            () => draw,
+            config
+          );
+
+          expect(fill?.price).toBeGreaterThanOrEqual(isBuy ? 2.45 : 2.40);
+          expect(fill?.price).toBeLessThanOrEqual(isBuy ? 2.50 : 2.45);
+        }
+      ),
+      { numRuns: 100 }
+    );
+  });
+
+  it('charges a penalty on wide spreads', () => {
+    const config = { ...DEFAULT_QUOTE_FILL_CONFIG, price_improvement: 0 };
+    const wide = quote({ bid: 1.00, ask: 1.40, mid: 1.20 });
+
+    expect(simulateQuoteFill(order(), wide, () => 0, config)).toMatchObject({
+      price: 1.50,
+      spread_penalty: 0.10,
+    });
+    expect(simulateQuoteFill(order({ side: 'SELL_TO_CLOSE' }), wide, () => 0, config)).toMatchObject({
+      price: 0.90,
+      spread_penalty: 0.10,
+    });
+  });
+
+  it('partially fills beyond displayed size and open interest', () => {
+    expect(simulateQuoteFill(order({ quantity: 20 }), quote({ ask_size: 8 }), () => 0)).toMatchObject({
+      status: 'PARTIAL_FILL',
+      filled_quantity: 8,
+      liquidity_limit: 8,
+    });
+    expect(simulateQuoteFill(order({ quantity: 20 }), quote({ open_interest: 40 }), () => 0)).toMatchObject({
+      status: 'PARTIAL_FILL',
+      filled_quantity: 4,
+    });
+    expect(simulateQuoteFill(
+      order({ quantity: 20 }),
+      quote({ ask_size: undefined, open_interest: 0 }),
+      () => 0
+    )).toMatchObject({ status: 'FILLED', filled_quantity: 20, liquidity_limit: null });
+  });
+
+  it('leaves non-marketable limits and missing sides unfilled', () => {
+    expect(simulateQuoteFill(order({ order_type: 'LIMIT', limit_price: 2.45 }), quote(), () => 0)?.status)
+      .toBe('UNFILLED');
+    expect(simulateQuoteFill(order({ side: 'SELL_TO_CLOSE' }), quote({ bid: 0 }), () => 0)?.status)
+      .toBe('UNFILLED');
+    expect(simulateQuoteFill(order(), quote({ bid: 0, ask: 0 }), () => 0)).toBeNull();
+    expect(simulateQuoteFill(order(), quote({ bid: 2.60 }), () => 0)).toBeNull();
+  });
+
+  it('caps wide-spread fills at a marketable limit', () => {
+    const wide = quote({ bid: 1.00, ask: 1.40, mid: 1.20 });
+    const fill = simulateQuoteFill(order({ order_type: 'LIMIT', limit_price: 1.45 }), wide, () => 0);
+
+    expect(fill?.price).toBe(1.45);
+  });
+});
+
+describe('PaperAdapter with quotes', () => {
+  it('books partial fills at the quote and stays deterministic under seed', async () => {
+    const submit = () => new PaperAdapter({ deterministic: true, seed: 42 })
+      .submitOrder(order({ quantity: 12 }), 9.99, quote({ ask_size: 10 }));
+
+    const first = await submit();
+    const second = await submit();
+
+    expect(first.result.status).toBe('PARTIAL_FILL');
+    expect(first.result.filled_quantity).toBe(10);
+    expect(first.trade?.quantity).toBe(10);
+    expect(first.trade?.execution_price).toBeGreaterThanOrEqual(2.45);
+    expect(first.trade?.execution_price).toBeLessThanOrEqual(2.50);
+    expect(second.trade?.execution_price).toBe(first.trade?.execution_price);
+  });
+
+  it('rests orders the quote cannot fill and falls back without a usable quote', async () => {
+    const adapter = new PaperAdapter({ slippage_percent: 0 });
+
+    const resting = await adapter.submitOrder(order({ order_type: 'LIMIT', limit_price: 2.00 }), 1.5, quote());
+    expect(resting.result.status).toBe('SUBMITTED');
+    expect(resting.trade).toBeNull();
+
+    const fallback = await adapter.submitOrder(order(), 1.5, quote({ bid: 0, ask: 0 }));
+    expect(fallback.result.status).toBe('FILLED');
+    expect(fallback.trade?.execution_price).toBe(1.5);
+  });
+});
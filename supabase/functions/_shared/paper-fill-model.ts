@@ -0,0 +1,147 @@
+/**
+ * Quote-driven fill model for paper trading.
+ *
+ * Buys fill at the ask and sells at the bid, less a random share of the
+ * half-spread as price improvement. Wide markets add a penalty against the
+ * order, and size is capped by displayed liquidity and open interest.
+ */
+
+import type { OrderRequest } from "./types.ts";
+import type { OptionsQuote } from "./market-data/types.ts";
+
+export interface QuoteFillConfig {
+  price_improvement: number; // Max share of the half-spread given back to the order (0 = always at the touch)
+  displayed_size_multiple: number; // Contracts fillable per displayed contract at the touch
+  max_open_interest_fraction: number; // Max share of open interest a single order can take
+  wide_spread_threshold: number; // Spread as a fraction of mid above which the market counts as wide
+  wide_spread_penalty: number; // Share of the spread charged against the order on wide markets
+}
+
+export const DEFAULT_QUOTE_FILL_CONFIG: QuoteFillConfig = {
+  price_improvement: 0.25,
+  displayed_size_multiple: 1,
+  max_open_interest_fraction: 0.1,
+  wide_spread_threshold: 0.10,
+  wide_spread_penalty: 0.25,
+};
+
+export type QuoteFillStatus = 'FILLED' | 'PARTIAL_FILL' | 'UNFILLED';
+
+export interface QuoteFill {
+  status: QuoteFillStatus;
+  filled_quantity: number;
+  price: number; // Per-contract fill price, 0 when unfilled
+  reference_price: number; // The touch: ask for buys, bid for sells
+  price_improvement: number;
+  spread_penalty: number;
+  liquidity_limit: number | null; // Contracts available to this order, null when the quote carries no size
+  reason?: string;
+}
+
+function roundPrice(price: number): number {
+  return Math.round(price * 100) / 100;
+}
+
+function unfilled(referencePrice: number, reason: string): QuoteFill {
+  return {
+    status: 'UNFILLED',
+    filled_quantity: 0,
+    price: 0,
+    reference_price: referencePrice,
+    price_improvement: 0,
+    spread_penalty: 0,
+    liquidity_limit: null,
+    reason,
+  };
+}
+
+/**
+ * Contracts one order can take from the quote: the displayed size at the
+ * touch and a fraction of open interest, whichever is smaller. Null when the
+ * quote carries neither.
+ */
+export function quoteLiquidityLimit(
+  quote: OptionsQuote,
+  isBuy: boolean,
+  config: QuoteFillConfig = DEFAULT_QUOTE_FILL_CONFIG
+): number | null {
+  const limits: number[] = [];
+  const displayed = isBuy ? quote.ask_size : quote.bid_size;
+
+  if (displayed && displayed > 0) {
+    limits.push(Math.max(1, Math.floor(displayed * config.displayed_size_multiple)));
+  }
+  if (quote.open_interest > 0) {
+    limits.push(Math.max(1, Math.floor(quote.open_interest * config.max_open_interest_fraction)));
+  }
+
+  return limits.length > 0 ? Math.min(...limits) : null;
+}
+
+/**
+ * Simulates filling an order against a quote. Returns null when the quote has
+ * no usable market (no bid and no ask, or crossed) so the caller can fall
+ * back to its own pricing. `random` must return values in [0, 1).
+ */
+export function simulateQuoteFill(
+  request: Pick<OrderRequest, 'side' | 'quantity' | 'order_type' | 'limit_price'>,
+  quote: OptionsQuote,
+  random: () => number,
+  config: QuoteFillConfig = DEFAULT_QUOTE_FILL_CONFIG
+): QuoteFill | null {
+  const bid = quote.bid > 0 ? quote.bid : 0;
+  const ask = quote.ask > 0 ? quote.ask : 0;
+
+  if ((bid === 0 && ask === 0) || (bid > 0 && ask > 0 && bid > ask)) {
+    return null;
+  }
+
+  const isBuy = request.side.includes('BUY');
+  const touch = isBuy ? ask : bid;
+
+  if (touch === 0) {
+    return unfilled(0, isBuy ? 'No ask in quote' : 'No bid in quote');
+  }
+
+  if (request.order_type === 'LIMIT' && request.limit_price) {
+    if (isBuy ? request.limit_price < touch : request.limit_price > touch) {
+      return unfilled(touch, `Limit ${request.limit_price} not marketable against ${isBuy ? 'ask' : 'bid'} ${touch}`);
+    }
+  }
+
+  // One-sided markets have no spread to improve within or to penalise
+  const spread = bid > 0 && ask > 0 ? ask - bid : 0;
+  const mid = spread > 0 ? (bid + ask) / 2 : touch;
+
+  const improvement = (spread / 2) * config.price_improvement * random();
+  const penalty = spread / mid > config.wide_spread_threshold
+    ? spread * config.wide_spread_penalty
+    : 0;
+
+  const direction = isBuy ? 1 : -1;
+  let price = touch + direction * (penalty - improvement);
+
+  // A marketable limit never fills through its limit
+  if (request.order_type === 'LIMIT' && request.limit_price) {
+    price = isBuy ? Math.min(price, request.limit_price) : Math.max(price, request.limit_price);
+  }
+  price = Math.max(0.01, roundPrice(price));
+
+  const liquidityLimit = quoteLiquidityLimit(quote, isBuy, config);
+  const filledQuantity = liquidityLimit === null
+    ? request.quantity
+    : Math.min(request.quantity, liquidityLimit);
+
+  return {
+    status: filledQuantity < request.quantity ? 'PARTIAL_FILL' : 'FILLED',
+    filled_quantity: filledQuantity,
+    price,
+    reference_price: touch,
+    price_improvement: roundPrice(improvement),
+    spread_penalty: roundPrice(penalty),
+    liquidity_limit: liquidityLimit,
+    reason: filledQuantity < request.quantity
+      ? `Only ${liquidityLimit} of ${request.quantity} contracts available at the ${isBuy ? 'ask' : 'bid'}`
+      : undefined,
+  };
+}
@@ -0,0 +1,173 @@
+/**
+ * Tests for the paper working-order book and time-in-force handling
+ */
+
+import { describe, it, expect } from 'vitest';
+import { PaperAdapter } from './paper-adapter.ts';
+import { dayOrderExpiry } from './paper-order-book.ts';
+import { SimulatedClock } from './refactored/core/clock.ts';
+import type { OptionsQuote } from './market-data/types.ts';
+import type { OrderRequest } from './types.ts';
+
+const SYMBOL = 'SPY   260320C00500000';
+
+function quote(overrides: Partial<OptionsQuote> = {}): OptionsQuote {
+  return {
+    symbol: SYMBOL,
+    underlying: 'SPY',
+    strike: 500,
+    expiration: '2026-03-20',
+    option_type: 'CALL',
+    bid: 2.40,
+    ask: 2.50,
+    mid: 2.45,
+    last: 2.45,
+    mark: 2.45,
+    bid_size: 50,
+    ask_size: 50,
+    volume: 1000,
+    open_interest: 5000,
+    delta: 0.5,
+    gamma: 0.02,
+    theta: -0.1,
+    vega: 0.2,
+    implied_volatility: 0.2,
+    underlying_price: 500,
+    quote_time: '2026-03-04T15:00:00.000Z',
+    provider: 'tradier',
+    ...overrides,
+  };
+}
+
+function limitBuy(overrides: Partial<OrderRequest> = {}): OrderRequest {
+  return {
+    underlying: 'SPY',
+    symbol: SYMBOL,
+    strike: 500,
+    expiration: '2026-03-20',
+    option_type: 'CALL',
+    side: 'BUY_TO_OPEN',
+    quantity: 5,
+    order_type: 'LIMIT',
+    limit_price: 2.30,
+    time_in_force: 'DAY',
+    ...overrides,
+  };
+}
+
+function setup() {
+  // 10:00 ET (EST)
+  const clock = new SimulatedClock(new Date('2026-03-04T15:00:00.000Z'));
+  const adapter = new PaperAdapter({ deterministic: true, seed: 7, price_improvement: 0 }, clock);
+  return { clock, adapter };
+}
+
+describe('dayOrderExpiry', () => {
+  it('expires at the 16:00 ET close, or the next close when entered after it', () => {
+    expect(dayOrderExpiry(new Date('2026-03-04T15:00:00.000Z')).toISOString()).toBe('2026-03-04T21:00:00.000Z');
+    expect(dayOrderExpiry(new Date('2026-03-04T22:00:00.000Z')).toISOString()).toBe('2026-03-05T21:00:00.000Z');
+    // EDT
+    expect(dayOrderExpiry(new Date('2026-07-01T14:00:00.000Z')).toISOString()).toBe('2026-07-01T20:00:00.000Z');
+  });
+});
+
+describe('PaperAdapter order book', () => {
+  it('rests a non-crossing limit and fills it once the market comes to it', async () => {
+    const { adapter } = setup();
+
+    const { result, trade } = await adapter.submitOrder(limitBuy(), undefined, quote());
+    expect(result.status).toBe('SUBMITTED');
+    expect(trade).toBeNull();
+
+    expect(adapter.processRestingOrders(new Map([[SYMBOL, quote()]]))).toEqual([]);
+
+    // Ask drops to 2.28 with only 3 contracts displayed
+    const [partial] = adapter.processRestingOrders(new Map([[SYMBOL, quote({ bid: 2.20, ask: 2.28, ask_size: 3 })]]));
+    expect(partial.order.status).toBe('PARTIAL_FILL');
+    expect(partial.trade).toMatchObject({ quantity: 3, execution_price: 2.28 });
+
+    const [filled] = adapter.processRestingOrders(new Map([[SYMBOL, quote({ bid: 2.20, ask: 2.26 })]]));
+    expect(filled.order.status).toBe('FILLED');
+    expect(filled.trade?.quantity).toBe(2);
+
+    const status = adapter.getOrderStatus(result.order_id, result.broker_order_id!);
+    expect(status).toMatchObject({ status: 'FILLED', filled_quantity: 5, remaining_quantity: 0, avg_fill_price: 2.27 });
+    expect(adapter.getOrderFills(result.broker_order_id!)).toHaveLength(2);
+  });
+
+  it('numbers fills by cumulative quantity so a rebuilt book never reuses a trade id', async () => {
+    const { adapter, clock } = setup();
+    const { result } = await adapter.submitOrder(limitBuy(), undefined, quote());
+    const [partial] = adapter.processRestingOrders(new Map([[SYMBOL, quote({ bid: 2.20, ask: 2.28, ask_size: 3 })]]));
+
+    // poll-orders rebuilds the book from the orders row, which carries no fill history
+    const rebuilt = new PaperAdapter({ deterministic: true, seed: 7, price_improvement: 0 }, clock);
+    rebuilt.restoreOrder({ ...partial.order, fills: [] });
+    const [filled] = rebuilt.processRestingOrders(new Map([[SYMBOL, quote({ bid: 2.20, ask: 2.26 })]]));
+
+    expect(partial.trade?.broker_trade_id).toBe(`${result.broker_order_id}-F3`);
+    expect(filled.trade?.broker_trade_id).toBe(`${result.broker_order_id}-F5`);
+  });
+
+  it('expires DAY orders at the close and keeps GTC orders working', async () => {
+    const { clock, adapter } = setup();
+
+    const day = await adapter.submitOrder(limitBuy(), undefined, quote());
+    const gtc = await adapter.submitOrder(limitBuy({ time_in_force: 'GTC' }), undefined, quote());
+
+    clock.setTime(new Date('2026-03-04T21:00:00.000Z'));
+    const updates = adapter.processRestingOrders(new Map());
+
+    expect(updates).toHaveLength(1);
+    expect(updates[0]).toMatchObject({ previous_status: 'SUBMITTED', trade: null });
+    expect(adapter.getOrderStatus(day.result.order_id, day.result.broker_order_id!).status).toBe('EXPIRED');
+    expect(adapter.getOrderStatus(gtc.result.order_id, gtc.result.broker_order_id!)).toMatchObject({
+      status: 'SUBMITTED',
+      remaining_quantity: 5,
+    });
+  });
+
+  it('cancels the unfilled part of IOC orders and all of a short FOK order', async () => {
+    const { adapter } = setup();
+    const thin = quote({ ask_size: 2 });
+
+    const ioc = await adapter.submitOrder(limitBuy({ limit_price: 2.50, time_in_force: 'IOC' }), undefined, thin);
+    expect(ioc.result).toMatchObject({ status: 'CANCELLED', filled_quantity: 2 });
+    expect(ioc.trade?.quantity).toBe(2);
+
+    const fok = await adapter.submitOrder(limitBuy({ limit_price: 2.50, time_in_force: 'FOK' }), undefined, thin);
+    expect(fok.result).toMatchObject({ status: 'CANCELLED', filled_quantity: 0 });
+    expect(fok.trade).toBeNull();
+
+    const missed = await adapter.submitOrder(limitBuy({ time_in_force: 'IOC' }), 2.45);
+    expect(missed.result.status).toBe('CANCELLED');
+
+    expect(adapter.getWorkingOrders()).toEqual([]);
+  });
+
+  it('cancels working orders but not filled ones', async () => {
+    const { adapter } = setup();
+
+    const working = await adapter.submitOrder(limitBuy(), undefined, quote());
+    const filled = await adapter.submitOrder(limitBuy({ order_type: 'MARKET', limit_price: undefined }), undefined, quote());
+
+    expect(await adapter.cancelOrder(working.result.order_id, working.result.broker_order_id)).toEqual({ success: true });
+    expect((await adapter.cancelOrder(filled.result.order_id, filled.result.broker_order_id)).success).toBe(false);
+    expect(adapter.getOrderStatus(working.result.order_id, working.result.broker_order_id!).status).toBe('CANCELLED');
+    expect(adapter.processRestingOrders(new Map([[SYMBOL, quote({ bid: 2.10, ask: 2.20 })]]))).toEqual([]);
+  });
+
+  it('finds orders by client_order_id in any status', async () => {
+    const { adapter } = setup();
+
+    const working = await adapter.submitOrder(limitBuy({ client_order_id: 'CLT-1' }), undefined, quote());
+    await adapter.submitOrder(limitBuy({ client_order_id: 'CLT-2', limit_price: 2.50 }), undefined, quote());
+
+    expect(adapter.findOrderByClientId('CLT-1')).toMatchObject({
+      broker_order_id: working.result.broker_order_id,
+      status: 'SUBMITTED',
+    });
+    expect(adapter.findOrderByClientId('CLT-2')).toMatchObject({ status: 'FILLED', filled_quantity: 5 });
+    expect(adapter.findOrderByClientId('CLT-3')).toBeNull();
+  });
+});
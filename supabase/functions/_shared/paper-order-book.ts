@@ -0,0 +1,168 @@
+/**
+ * Simulated working-order book for paper trading.
+ *
+ * Holds every order a PaperAdapter accepts. Orders that do not fill on
+ * submission rest here until a later quote crosses them: DAY orders expire at
+ * the 16:00 ET close, GTC orders rest until filled or cancelled. IOC and FOK
+ * orders never rest.
+ */
+
+import type { OrderRequest, OrderStatus, Trade } from "./types.ts";
+import type { AdapterTradeFill, OrderStatusResponse } from "./broker-adapter.ts";
+import { startOfSessionDay } from "./refactored/services/circuit-breaker.ts";
+
+const SESSION_CLOSE_MS = 16 * 60 * 60 * 1000;
+
+// Paper order statuses that can still fill
+export const RESTING_PAPER_STATUSES: OrderStatus[] = ['SUBMITTED', 'PARTIAL_FILL'];
+
+export type PaperTrade = Omit<Trade, 'id' | 'created_at'>;
+
+export interface PaperOrder {
+  order_id: string;
+  broker_order_id: string;
+  request: OrderRequest;
+  status: OrderStatus;
+  filled_quantity: number;
+  avg_fill_price?: number;
+  submitted_at: string;
+  expires_at: string | null; // DAY orders only
+  fills: PaperTrade[];
+}
+
+// Change to a resting order from one re-evaluation
+export interface PaperOrderUpdate {
+  order: PaperOrder;
+  previous_status: OrderStatus;
+  trade: PaperTrade | null; // Fill produced by this evaluation
+}
+
+/**
+ * The 16:00 ET close a DAY order expires at. Orders entered after the close
+ * work the next session.
+ */
+export function dayOrderExpiry(submittedAt: Date): Date {
+  const dayStart = startOfSessionDay(submittedAt);
+  const close = new Date(dayStart.getTime() + SESSION_CLOSE_MS);
+  if (submittedAt < close) {
+    return close;
+  }
+
+  // 36h from local midnight always lands inside the next local day
+  const nextDayStart = startOfSessionDay(new Date(dayStart.getTime() + 36 * 60 * 60 * 1000));
+  return new Date(nextDayStart.getTime() + SESSION_CLOSE_MS);
+}
+
+export function isRestingStatus(status: OrderStatus): boolean {
+  return RESTING_PAPER_STATUSES.includes(status);
+}
+
+export class PaperOrderBook {
+  private orders = new Map<string, PaperOrder>();
+
+  add(order: PaperOrder): void {
+    this.orders.set(order.broker_order_id, { ...order, fills: [...order.fills] });
+  }
+
+  get(brokerOrderId: string): PaperOrder | undefined {
+    const order = this.orders.get(brokerOrderId);
+    return order ? { ...order, fills: [...order.fills] } : undefined;
+  }
+
+  // The order submitted with this client_order_id, in any status
+  findByClientOrderId(clientOrderId: string): PaperOrder | undefined {
+    const order = [...this.orders.values()].find(candidate => candidate.request.client_order_id === clientOrderId);
+    return order ? this.get(order.broker_order_id) : undefined;
+  }
+
+  resting(): PaperOrder[] {
+    return [...this.orders.values()]
+      .filter(order => isRestingStatus(order.status))
+      .map(order => ({ ...order, fills: [...order.fills] }));
+  }
+
+  /**
+   * Books a fill against a resting order and returns the update
+   */
+  recordFill(brokerOrderId: string, trade: PaperTrade): PaperOrderUpdate {
+    const order = this.require(brokerOrderId);
+    const previousStatus = order.status;
+    const filledQuantity = order.filled_quantity + trade.quantity;
+    const notional = (order.avg_fill_price ?? 0) * order.filled_quantity + trade.execution_price * trade.quantity;
+
+    order.filled_quantity = filledQuantity;
+    order.avg_fill_price = Math.round((notional / filledQuantity) * 100) / 100;
+    order.status = filledQuantity >= order.request.quantity ? 'FILLED' : 'PARTIAL_FILL';
+    order.fills.push(trade);
+
+    return { order: this.get(brokerOrderId)!, previous_status: previousStatus, trade };
+  }
+
+  /**
+   * Takes a resting order off the book. Returns null when it was no longer resting.
+   */
+  close(brokerOrderId: string, status: 'CANCELLED' | 'EXPIRED'): PaperOrderUpdate | null {
+    const order = this.orders.get(brokerOrderId);
+    if (!order || !isRestingStatus(order.status)) {
+      return null;
+    }
+
+    const previousStatus = order.status;
+    order.status = status;
+    return { order: this.get(brokerOrderId)!, previous_status: previousStatus, trade: null };
+  }
+
+  isExpired(order: PaperOrder, now: Date): boolean {
+    return order.expires_at !== null && now.getTime() >= new Date(order.expires_at).getTime();
+  }
+
+  status(orderId: string, brokerOrderId: string): OrderStatusResponse {
+    const order = this.orders.get(brokerOrderId);
+    if (!order) {
+      return {
+        order_id: orderId,
+        broker_order_id: brokerOrderId,
+        status: 'PENDING',
+        filled_quantity: 0,
+        remaining_quantity: 0,
+        error: `Paper order ${brokerOrderId} is not in the book`,
+      };
+    }
+
+    const lastFill = order.fills[order.fills.length - 1];
+    return {
+      order_id: order.order_id,
+      broker_order_id: brokerOrderId,
+      status: order.status,
+      filled_quantity: order.filled_quantity,
+      remaining_quantity: isRestingStatus(order.status)
+        ? order.request.quantity - order.filled_quantity
+        : 0,
+      avg_fill_price: order.avg_fill_price,
+      last_fill_price: lastFill?.execution_price,
+      last_fill_quantity: lastFill?.quantity,
+      last_fill_time: lastFill?.executed_at,
+    };
+  }
+
+  fills(brokerOrderId: string): AdapterTradeFill[] {
+    return (this.orders.get(brokerOrderId)?.fills ?? []).map(fill => ({
+      broker_trade_id: fill.broker_trade_id ?? brokerOrderId,
+      order_id: fill.order_id,
+      execution_price: fill.execution_price,
+      quantity: fill.quantity,
+      commission: fill.commission,
+      fees: fill.fees,
+      total_cost: fill.total_cost,
+      executed_at: fill.executed_at,
+    }));
+  }
+
+  private require(brokerOrderId: string): PaperOrder {
+    const order = this.orders.get(brokerOrderId);
+    if (!order) {
+      throw new Error(`Paper order ${brokerOrderId} is not in the book`);
+    }
+    return order;
+  }
+}
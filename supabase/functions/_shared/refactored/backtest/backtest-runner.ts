@@ -0,0 +1,536 @@
+/**
+ * Historical signal replay backtester
+ *
+ * Replays stored webhook payloads through the refactored SignalPipeline with a
+ * simulated clock, recorded context snapshots and recorded GEX rows. Entries and
+ * exits are filled through the PaperAdapter, producing a trade ledger and a
+ * summary (P&L, win rate, max drawdown) for each run.
+ */
+
+import { Config, ContextData, ExitReason, Position } from '../core/types.ts';
+import { defaultConfig, validateConfig, ConfigValidationError } from '../core/config.ts';
+import { SimulatedClock } from '../core/clock.ts';
+import { SignalPipeline, resolveSignalPrice, type PipelineStage } from '../pipeline/signal-pipeline.ts';
+import { SignalNormalizer } from '../pipeline/signal-normalizer.ts';
+import { SignalValidator } from '../validation/signal-validator.ts';
+import { DeduplicationCache } from '../cache/deduplication-cache.ts';
+import { ContextCache } from '../cache/context-cache.ts';
+import { DecisionOrchestrator } from '../orchestrator/decision-orchestrator.ts';
+import { GEXService } from '../services/gex-service.ts';
+import { PositionManager } from '../services/position-manager.ts';
+import { RiskManager } from '../services/risk-manager.ts';
+import { PositionSizingService } from '../services/position-sizing-service.ts';
+import { ConfluenceCalculator } from '../services/confluence-calculator.ts';
+import { PaperAdapter, type PaperAdapterConfig } from '../../paper-adapter.ts';
+import { priceOption, yearsToExpiration } from '../../market-data/option-pricing.ts';
+import type { OrderRequest, OrderSide } from '../../types.ts';
+import type { createDbClient } from '../../db-client.ts';
+import { ReplayDataStore } from './replay-data-store.ts';
+
+/** How far before the window start recorded context/GEX rows are loaded */
+const RECORDED_DATA_LOOKBACK_MS = 24 * 60 * 60 * 1000;
+
+export type BacktestExitReason = ExitReason | 'END_OF_REPLAY';
+
+export interface BacktestOptions {
+  startTime: Date;
+  endTime: Date;
+  config?: Config;
+  symbols?: string[];
+  seed?: number;
+  paperConfig?: Partial<PaperAdapterConfig>;
+}
+
+/**
+ * Stored rows a replay runs against
+ */
+export interface ReplayInputs {
+  signals: Array<{ id: string; raw_payload: unknown; created_at: string }>;
+  contextSnapshots: Record<string, unknown>[];
+  gexSignals: Record<string, unknown>[];
+}
+
+export interface BacktestTrade {
+  positionId: string;
+  signalId: string;
+  symbol: string;
+  direction: Position['direction'];
+  quantity: number;
+  entryTime: string;
+  entryPrice: number;
+  exitTime: string;
+  exitPrice: number;
+  exitReason: BacktestExitReason;
+  grossPnL: number;
+  fees: number;
+  netPnL: number;
+}
+
+export interface BacktestSummary {
+  signalsReplayed: number;
+  signalsAccepted: number;
+  rejectionsByStage: Record<PipelineStage, number>;
+  totalTrades: number;
+  wins: number;
+  losses: number;
+  winRate: number;
+  grossPnL: number;
+  totalFees: number;
+  netPnL: number;
+  maxDrawdown: number;
+}
+
+export interface BacktestResult {
+  runId: string;
+  startTime: string;
+  endTime: string;
+  config: Config;
+  ledger: BacktestTrade[];
+  summary: BacktestSummary;
+}
+
+interface ReplayComponents {
+  pipeline: SignalPipeline;
+  orchestrator: DecisionOrchestrator;
+  positionManager: PositionManager;
+  clock: SimulatedClock;
+}
+
+interface OpenLot {
+  entryTime: Date;
+  entryFees: number;
+}
+
+export class BacktestRunner {
+  private config: Config;
+
+  constructor(
+    private supabaseClient: ReturnType<typeof createDbClient>,
+    private options: BacktestOptions
+  ) {
+    this.config = options.config ?? defaultConfig;
+
+    const validation = validateConfig(this.config);
+    if (!validation.valid) {
+      throw new ConfigValidationError(
+        `Invalid backtest configuration: ${validation.errors.join(', ')}`,
+        validation.errors
+      );
+    }
+  }
+
+  /**
+   * Load stored signals and recorded market data, then replay them
+   */
+  async run(): Promise<BacktestResult> {
+    const inputs = await this.loadInputs();
+    return this.replay(inputs);
+  }
+
+  /**
+   * Load replay inputs for the configured window
+   */
+  async loadInputs(): Promise<ReplayInputs> {
+    const start = this.options.startTime.toISOString();
+    const end = this.options.endTime.toISOString();
+    const lookbackStart = new Date(
+      this.options.startTime.getTime() - RECORDED_DATA_LOOKBACK_MS
+    ).toISOString();
+
+    let signalsQuery = this.supabaseClient
+      .from('signals')
+      .select('id, raw_payload, created_at')
+      .gte('created_at', start)
+      .lte('created_at', end);
+
+    if (this.options.symbols && this.options.symbols.length > 0) {
+      signalsQuery = signalsQuery.in('underlying', this.options.symbols.map(symbol => symbol.toUpperCase()));
+    }
+
+    const { data: signals, error: signalsError } = await signalsQuery
+      .order('created_at', { ascending: true });
+
+    if (signalsError) {
+      throw new Error(`Failed to load signals: ${signalsError.message}`);
+    }
+
+    const { data: contextSnapshots, error: contextError } = await this.supabaseClient
+      .from('refactored_context_snapshots')
+      .select('*')
+      .gte('timestamp', lookbackStart)
+      .lte('timestamp', end)
+      .order('timestamp', { ascending: true });
+
+    if (contextError) {
+      throw new Error(`Failed to load context snapshots: ${contextError.message}`);
+    }
+
+    const { data: gexSignals, error: gexError } = await this.supabaseClient
+      .from('refactored_gex_signals')
+      .select('*')
+      .gte('timestamp', lookbackStart)
+      .lte('timestamp', end)
+      .order('timestamp', { ascending: true });
+
+    if (gexError) {
+      throw new Error(`Failed to load GEX signals: ${gexError.message}`);
+    }
+
+    return {
+      signals: signals ?? [],
+      contextSnapshots: contextSnapshots ?? [],
+      gexSignals: gexSignals ?? [],
+    };
+  }
+
+  /**
+   * Replay inputs in chronological order under a simulated clock
+   *
+   * Exits are evaluated after every replayed signal using the latest price
+   * observed for each symbol/direction, and anything still open at the end of
+   * the window is closed at its last mark.
+   */
+  async replay(inputs: ReplayInputs): Promise<BacktestResult> {
+    const clock = new SimulatedClock(this.options.startTime);
+    const store = new ReplayDataStore(clock);
+    store.load('refactored_context_snapshots', inputs.contextSnapshots);
+    store.load('refactored_gex_signals', inputs.gexSignals);
+
+    const components = this.buildComponents(store, clock);
+    const paperAdapter = new PaperAdapter({
+      deterministic: true,
+      seed: this.options.seed ?? 42,
+      ...this.options.paperConfig,
+    }, clock);
+
+    const ledger: BacktestTrade[] = [];
+    const openLots = new Map<string, OpenLot>();
+    const marks = new Map<string, number>();
+    const rejectionsByStage: Record<PipelineStage, number> = {
+      RECEPTION: 0,
+      NORMALIZATION: 0,
+      VALIDATION: 0,
+      DEDUPLICATION: 0,
+      DECISION: 0,
+      EXECUTION: 0,
+    };
+    let signalsReplayed = 0;
+    let signalsAccepted = 0;
+
+    const signals = [...inputs.signals].sort(
+      (a, b) => new Date(a.created_at).getTime() - new Date(b.created_at).getTime()
+    );
+
+    for (const row of signals) {
+      clock.setTime(new Date(row.created_at));
+      signalsReplayed++;
+
+      const result = await components.pipeline.processSignal(withOptionEntryPrice(row.raw_payload, clock.now()));
+
+      if (!result.success) {
+        rejectionsByStage[result.stage]++;
+      } else {
+        signalsAccepted++;
+      }
+
+      if (result.signal) {
+        const price = resolveSignalPrice(result.signal);
+        if (price !== null) {
+          marks.set(this.markKey(result.signal.symbol, result.signal.direction), price);
+        }
+      }
+
+      if (result.success && result.decision?.decision === 'ENTER') {
+        const position = components.positionManager.getPositionBySignalId(result.trackingId);
+        if (position) {
+          await this.fillEntry(position, paperAdapter, openLots);
+        }
+      }
+
+      await this.evaluateExits(components, paperAdapter, marks, openLots, ledger);
+    }
+
+    clock.setTime(this.options.endTime);
+    await this.evaluateExits(components, paperAdapter, marks, openLots, ledger);
+
+    for (const position of components.positionManager.getOpenPositions()) {
+      const mark = marks.get(this.markKey(position.symbol, position.direction)) ?? position.entryPrice;
+      await this.fillExit(position, mark, 'END_OF_REPLAY', components, paperAdapter, openLots, ledger);
+    }
+
+    return {
+      runId: crypto.randomUUID(),
+      startTime: this.options.startTime.toISOString(),
+      endTime: this.options.endTime.toISOString(),
+      config: this.config,
+      ledger,
+      summary: summarizeLedger(ledger, {
+        signalsReplayed,
+        signalsAccepted,
+        rejectionsByStage,
+      }),
+    };
+  }
+
+  /**
+   * Wire the same components as the live webhook handler against the replay store
+   */
+  private buildComponents(store: ReplayDataStore, clock: SimulatedClock): ReplayComponents {
+    const fetchContext = async (): Promise<ContextData> => {
+      const { data, error } = await store
+        .from('refactored_context_snapshots')
+        .select('*')
+        .order('timestamp', { ascending: false })
+        .limit(1)
+        .single();
+
+      if (error || !data) {
+        throw new Error('Context fetch failed');
+      }
+
+      const row = data as Record<string, unknown>;
+      return {
+        vix: Number(row.vix),
+        trend: row.trend as 'BULLISH' | 'BEARISH' | 'NEUTRAL',
+        bias: Number(row.bias),
+        regime: row.regime as 'LOW_VOL' | 'HIGH_VOL' | 'NORMAL',
+        timestamp: new Date(String(row.timestamp)),
+      };
+    };
+
+    const contextCache = new ContextCache(this.config, fetchContext, clock);
+    const gexService = new GEXService(store, this.config, undefined, clock);
+    const positionManager = new PositionManager(store, this.config, clock);
+    const riskManager = new RiskManager(this.config);
+    const positionSizingService = new PositionSizingService(this.config);
+    const confluenceCalculator = new ConfluenceCalculator();
+
+    const orchestrator = new DecisionOrchestrator(
+      contextCache,
+      gexService,
+      positionManager,
+      riskManager,
+      positionSizingService,
+      confluenceCalculator,
+      this.config,
+      undefined,
+      clock
+    );
+
+    const pipeline = new SignalPipeline(
+      new SignalNormalizer(clock),
+      new SignalValidator(this.config, clock),
+      new DeduplicationCache(this.config, clock),
+      orchestrator,
+      positionManager,
+      this.config,
+      undefined,
+      clock
+    );
+
+    return { pipeline, orchestrator, positionManager, clock };
+  }
+
+  /**
+   * Fill an opened position through the paper adapter and adopt the fill price
+   */
+  private async fillEntry(
+    position: Position,
+    paperAdapter: PaperAdapter,
+    openLots: Map<string, OpenLot>
+  ): Promise<void> {
+    const { result, trade } = await paperAdapter.submitOrder(
+      this.buildOrderRequest(position, 'BUY_TO_OPEN'),
+      position.entryPrice
+    );
+
+    if (result.avg_fill_price !== undefined) {
+      position.entryPrice = result.avg_fill_price;
+    }
+
+    openLots.set(position.id, {
+      entryTime: position.entryTime,
+      entryFees: trade ? trade.commission + trade.fees : 0,
+    });
+  }
+
+  /**
+   * Mark open positions and close those the orchestrator wants out of
+   */
+  private async evaluateExits(
+    components: ReplayComponents,
+    paperAdapter: PaperAdapter,
+    marks: Map<string, number>,
+    openLots: Map<string, OpenLot>,
+    ledger: BacktestTrade[]
+  ): Promise<void> {
+    for (const position of components.positionManager.getOpenPositions()) {
+      const mark = marks.get(this.markKey(position.symbol, position.direction));
+      if (mark !== undefined) {
+        await components.positionManager.updatePositionPnL(position.id, mark);
+      }
+
+      const decision = await components.orchestrator.orchestrateExitDecision(position);
+      if (decision.decision === 'EXIT' && decision.exitReason) {
+        const exitPrice = position.currentPrice ?? position.entryPrice;
+        await this.fillExit(position, exitPrice, decision.exitReason, components, paperAdapter, openLots, ledger);
+      }
+    }
+  }
+
+  private async fillExit(
+    position: Position,
+    exitPrice: number,
+    exitReason: BacktestExitReason,
+    components: ReplayComponents,
+    paperAdapter: PaperAdapter,
+    openLots: Map<string, OpenLot>,
+    ledger: BacktestTrade[]
+  ): Promise<void> {
+    const { result, trade } = await paperAdapter.submitOrder(
+      this.buildOrderRequest(position, 'SELL_TO_CLOSE'),
+      exitPrice
+    );
+    const fillPrice = result.avg_fill_price ?? exitPrice;
+
+    const closeResult = await components.positionManager.closePosition(position.id, fillPrice);
+    if (!closeResult.success) {
+      console.warn(`[Backtest] Failed to close position ${position.id}: ${closeResult.error}`);
+      return;
+    }
+
+    const lot = openLots.get(position.id);
+    openLots.delete(position.id);
+
+    const grossPnL = closeResult.realizedPnL ?? 0;
+    const fees = (lot?.entryFees ?? 0) + (trade ? trade.commission + trade.fees : 0);
+
+    ledger.push({
+      positionId: position.id,
+      signalId: position.signalId,
+      symbol: position.symbol,
+      direction: position.direction,
+      quantity: position.quantity,
+      entryTime: (lot?.entryTime ?? position.entryTime).toISOString(),
+      entryPrice: position.entryPrice,
+      exitTime: components.clock.now().toISOString(),
+      exitPrice: fillPrice,
+      exitReason,
+      grossPnL: roundCurrency(grossPnL),
+      fees: roundCurrency(fees),
+      netPnL: roundCurrency(grossPnL - fees),
+    });
+  }
+
+  private buildOrderRequest(position: Position, side: OrderSide): OrderRequest {
+    return {
+      signal_id: position.signalId,
+      underlying: position.underlying ?? position.symbol,
+      symbol: position.symbol,
+      strike: position.strike ?? 0,
+      expiration: position.expiration ?? '',
+      option_type: position.optionType ?? position.direction,
+      side,
+      quantity: position.quantity,
+      order_type: 'MARKET',
+      time_in_force: 'DAY',
+    };
+  }
+
+  private markKey(symbol: string, direction: string): string {
+    return `${symbol}|${direction}`;
+  }
+}
+
+/**
+ * Build the run summary from a closed-trade ledger
+ *
+ * Max drawdown is the largest peak-to-trough drop of cumulative net P&L,
+ * taken in exit order.
+ */
+export function summarizeLedger(
+  ledger: BacktestTrade[],
+  counts: Pick<BacktestSummary, 'signalsReplayed' | 'signalsAccepted' | 'rejectionsByStage'>
+): BacktestSummary {
+  const ordered = [...ledger].sort(
+    (a, b) => new Date(a.exitTime).getTime() - new Date(b.exitTime).getTime()
+  );
+
+  let equity = 0;
+  let peak = 0;
+  let maxDrawdown = 0;
+  let grossPnL = 0;
+  let totalFees = 0;
+  let wins = 0;
+
+  for (const trade of ordered) {
+    grossPnL += trade.grossPnL;
+    totalFees += trade.fees;
+    equity += trade.netPnL;
+    peak = Math.max(peak, equity);
+    maxDrawdown = Math.max(maxDrawdown, peak - equity);
+    if (trade.netPnL > 0) {
+      wins++;
+    }
+  }
+
+  const totalTrades = ordered.length;
+
+  return {
+    ...counts,
+    totalTrades,
+    wins,
+    losses: totalTrades - wins,
+    winRate: totalTrades > 0 ? wins / totalTrades : 0,
+    grossPnL: roundCurrency(grossPnL),
+    totalFees: roundCurrency(totalFees),
+    netPnL: roundCurrency(grossPnL - totalFees),
+    maxDrawdown: roundCurrency(maxDrawdown),
+  };
+}
+
+/**
+ * Replays have no option quotes, so a payload without an option entry_price
+ * gets a Black-Scholes premium from its underlying price, strike, expiration
+ * and implied volatility at the replay time. The premium replaces the payload
+ * price that replays fill and mark at; the spot moves to underlying_price.
+ * Payloads missing any input are left alone and rejected without a price.
+ */
+function withOptionEntryPrice(rawPayload: unknown, now: Date): unknown {
+  if (!rawPayload || typeof rawPayload !== 'object' || Array.isArray(rawPayload)) {
+    return rawPayload;
+  }
+  const payload = rawPayload as Record<string, unknown>;
+  if (payload.entry_price !== undefined) {
+    return rawPayload;
+  }
+
+  const spot = Number(payload.price);
+  const strike = Number(payload.strike);
+  const volatility = Number(payload.iv ?? payload.implied_volatility);
+  const expiration = payload.expiration ?? payload.expiry;
+  const optionType = String(payload.option_type ?? payload.direction ?? '').toUpperCase();
+  if (
+    !(spot > 0) || !(strike > 0) || !(volatility > 0) ||
+    typeof expiration !== 'string' || (optionType !== 'CALL' && optionType !== 'PUT')
+  ) {
+    return rawPayload;
+  }
+
+  const { price } = priceOption({
+    optionType,
+    spot,
+    strike,
+    timeToExpiry: yearsToExpiration(expiration, now),
+    volatility,
+  });
+  const premium = roundCurrency(price);
+  if (premium <= 0) {
+    return rawPayload;
+  }
+  return { ...payload, price: premium, entry_price: premium, underlying_price: spot };
+}
+
+function roundCurrency(value: number): number {
+  return Math.round(value * 100) / 100;
+}
@@ -0,0 +1,196 @@
+/**
+ * In-memory data store used as the database client during replay
+ *
+ * Serves recorded context snapshots and GEX rows as of the simulated time
+ * (no look-ahead) and absorbs position writes so a replay never touches
+ * production tables.
+ */
+
+import type { Clock } from '../core/clock.ts';
+
+type Row = Record<string, unknown>;
+
+interface QueryResult {
+  data: unknown;
+  error: { code?: string; message: string } | null;
+}
+
+/**
+ * Tables whose rows are only visible once the simulated clock has reached
+ * their `timestamp` column
+ */
+const TIME_GATED_TABLES = new Set(['refactored_context_snapshots', 'refactored_gex_signals']);
+
+class ReplayQuery implements PromiseLike<QueryResult> {
+  private filters: Array<(row: Row) => boolean> = [];
+  private orderBy: { column: string; ascending: boolean } | null = null;
+  private limitCount: number | null = null;
+  private mode: 'many' | 'single' | 'maybeSingle' = 'many';
+  private pendingUpdate: Row | null = null;
+
+  constructor(
+    private store: ReplayDataStore,
+    private table: string
+  ) {}
+
+  select(_fields = '*'): this {
+    return this;
+  }
+
+  eq(column: string, value: unknown): this {
+    this.filters.push(row => row[column] === value);
+    return this;
+  }
+
+  neq(column: string, value: unknown): this {
+    this.filters.push(row => row[column] !== value);
+    return this;
+  }
+
+  in(column: string, values: unknown[]): this {
+    this.filters.push(row => values.includes(row[column]));
+    return this;
+  }
+
+  gte(column: string, value: unknown): this {
+    this.filters.push(row => compareValues(row[column], value) >= 0);
+    return this;
+  }
+
+  lte(column: string, value: unknown): this {
+    this.filters.push(row => compareValues(row[column], value) <= 0);
+    return this;
+  }
+
+  order(column: string, options: { ascending?: boolean } = {}): this {
+    this.orderBy = { column, ascending: options.ascending ?? true };
+    return this;
+  }
+
+  limit(count: number): this {
+    this.limitCount = count;
+    return this;
+  }
+
+  single(): Promise<QueryResult> {
+    this.mode = 'single';
+    return this.execute();
+  }
+
+  maybeSingle(): Promise<QueryResult> {
+    this.mode = 'maybeSingle';
+    return this.execute();
+  }
+
+  insert(data: Row | Row[]): Promise<QueryResult> {
+    const rows = Array.isArray(data) ? data : [data];
+    this.store.appendRows(this.table, rows);
+    return Promise.resolve({ data: rows, error: null });
+  }
+
+  update(data: Row): this {
+    this.pendingUpdate = data;
+    return this;
+  }
+
+  then<TResult1 = QueryResult, TResult2 = never>(
+    onfulfilled?: ((value: QueryResult) => TResult1 | PromiseLike<TResult1>) | null,
+    onrejected?: ((reason: unknown) => TResult2 | PromiseLike<TResult2>) | null
+  ): PromiseLike<TResult1 | TResult2> {
+    return this.execute().then(onfulfilled, onrejected);
+  }
+
+  private execute(): Promise<QueryResult> {
+    const matches = this.store.getVisibleRows(this.table).filter(row =>
+      this.filters.every(filter => filter(row))
+    );
+
+    if (this.pendingUpdate) {
+      for (const row of matches) {
+        Object.assign(row, this.pendingUpdate);
+      }
+      return Promise.resolve({ data: matches, error: null });
+    }
+
+    let rows = [...matches];
+    if (this.orderBy) {
+      const { column, ascending } = this.orderBy;
+      rows.sort((a, b) => compareValues(a[column], b[column]) * (ascending ? 1 : -1));
+    }
+    if (this.limitCount !== null) {
+      rows = rows.slice(0, this.limitCount);
+    }
+
+    if (this.mode === 'many') {
+      return Promise.resolve({ data: rows, error: null });
+    }
+
+    if (rows.length === 0) {
+      return Promise.resolve(
+        this.mode === 'single'
+          ? { data: null, error: { code: 'PGRST116', message: 'No rows returned' } }
+          : { data: null, error: null }
+      );
+    }
+
+    return Promise.resolve({ data: rows[0], error: null });
+  }
+}
+
+/**
+ * Supabase-style client over in-memory tables
+ */
+export class ReplayDataStore {
+  private tables: Map<string, Row[]> = new Map();
+
+  constructor(private clock: Clock) {}
+
+  from(table: string): ReplayQuery {
+    return new ReplayQuery(this, table);
+  }
+
+  /**
+   * Load recorded rows for a table (replaces existing rows)
+   */
+  load(table: string, rows: Row[]): void {
+    this.tables.set(table, rows.map(row => ({ ...row })));
+  }
+
+  appendRows(table: string, rows: Row[]): void {
+    const existing = this.tables.get(table) ?? [];
+    existing.push(...rows.map(row => ({ ...row })));
+    this.tables.set(table, existing);
+  }
+
+  /**
+   * All rows of a table, ignoring the simulated clock
+   */
+  getRows(table: string): Row[] {
+    return this.tables.get(table) ?? [];
+  }
+
+  /**
+   * Rows of a table that exist as of the simulated time
+   */
+  getVisibleRows(table: string): Row[] {
+    const rows = this.getRows(table);
+    if (!TIME_GATED_TABLES.has(table)) {
+      return rows;
+    }
+
+    const nowMs = this.clock.nowMs();
+    return rows.filter(row => new Date(String(row.timestamp)).getTime() <= nowMs);
+  }
+}
+
+function compareValues(a: unknown, b: unknown): number {
+  if (typeof a === 'number' && typeof b === 'number') {
+    return a - b;
+  }
+  const aTime = Date.parse(String(a));
+  const bTime = Date.parse(String(b));
+  if (!Number.isNaN(aTime) && !Number.isNaN(bTime)) {
+    return aTime - bTime;
+  }
+  return String(a).localeCompare(String(b));
+}
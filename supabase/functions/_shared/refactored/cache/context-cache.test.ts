@@ -8,16 +8,19 @@ import * as fc from 'fast-check';
 import { ContextCache } from './context-cache.ts';
 import { ContextData, Config } from '../core/types.ts';
 import { defaultConfig } from '../core/config.ts';
+import { SimulatedClock } from '../core/clock.ts';
 
 describe('Context Cache Property Tests', () => {
   let mockFetch: ReturnType<typeof vi.fn>;
   let cache: ContextCache;
   let config: Config;
+  let clock: SimulatedClock;
 
   beforeEach(() => {
     config = { ...defaultConfig };
     mockFetch = vi.fn();
-    cache = new ContextCache(config, mockFetch);
+    clock = new SimulatedClock(new Date('2026-01-05T15:00:00.000Z'));
+    cache = new ContextCache(config, mockFetch, clock);
   });
 
   /**
@@ -107,8 +110,8 @@ describe('Context Cache Property Tests', () => {
           await cache.getContext();
           expect(mockFetch).toHaveBeenCalledTimes(1);
 
-          // Simulate cache expiration by waiting TTL + 1ms
-          await new Promise(resolve => setTimeout(resolve, config.cache.contextTTLSeconds * 1000 + 10));
+          // Simulate cache expiration by advancing past the TTL
+          clock.advanceBy(config.cache.contextTTLSeconds * 1000 + 10);
 
           mockFetch.mockResolvedValueOnce(mockData2);
 
@@ -118,7 +121,7 @@ describe('Context Cache Property Tests', () => {
           expect(data2.vix).toBe(values.vix2);
         }
       ),
-      { numRuns: 50 } // Reduced runs due to timeouts
+      { numRuns: 50 }
     );
   });
 
@@ -203,8 +206,8 @@ describe('Context Cache Property Tests', () => {
           await cache.getContext();
           expect(mockFetch).toHaveBeenCalledTimes(1);
 
-          // Wait for cache to become stale but within 5-minute fallback window
-          await new Promise(resolve => setTimeout(resolve, values.cacheAgeSeconds * 1000));
+          // Age the cache past the TTL but within the 5-minute fallback window
+          clock.advanceBy(values.cacheAgeSeconds * 1000);
 
           // Second request - fetch fails
           mockFetch.mockRejectedValueOnce(new Error('Network error'));
@@ -220,7 +223,7 @@ describe('Context Cache Property Tests', () => {
           expect(fallbackData.bias).toBe(values.bias);
         }
       ),
-      { numRuns: 50 } // Reduced runs due to timeouts
+      { numRuns: 50 }
     );
   });
 });
@@ -4,6 +4,7 @@
  */
 
 import { ContextData, Config } from '../core/types.ts';
+import { Clock, systemClock } from '../core/clock.ts';
 
 interface CachedContext {
   data: ContextData;
@@ -17,7 +18,8 @@ export class ContextCache {
 
   constructor(
     private config: Config,
-    private fetchFreshContext: () => Promise<ContextData>
+    private fetchFreshContext: () => Promise<ContextData>,
+    private clock: Clock = systemClock
   ) {
     this.ttlMs = config.cache.contextTTLSeconds * 1000;
   }
@@ -28,7 +30,7 @@ export class ContextCache {
    */
   async getContext(): Promise<ContextData> {
     const cacheKey = 'context';
-    const now = Date.now();
+    const now = this.clock.nowMs();
 
     // Check cache for fresh data (< TTL seconds old)
     const cached = this.cache.get(cacheKey);
@@ -69,7 +71,7 @@ export class ContextCache {
       // Update cache with fresh data
       this.cache.set(cacheKey, {
         data,
-        timestamp: Date.now(),
+        timestamp: this.clock.nowMs(),
       });
 
       return data;
@@ -78,10 +80,10 @@ export class ContextCache {
       const cached = this.cache.get(cacheKey);
       const fallbackMaxAge = 5 * 60 * 1000; // 5 minutes
       
-      if (cached && (Date.now() - cached.timestamp) < fallbackMaxAge) {
+      if (cached && (this.clock.nowMs() - cached.timestamp) < fallbackMaxAge) {
         // Use stale cache as fallback (Requirement 19.2)
         console.warn('[ContextCache] Fetch failed, using stale cache data', {
-          age: Date.now() - cached.timestamp,
+          age: this.clock.nowMs() - cached.timestamp,
           error: error instanceof Error ? error.message : 'Unknown error',
         });
         return cached.data;
@@ -99,7 +101,7 @@ export class ContextCache {
   getCacheAge(): number | null {
     const cached = this.cache.get('context');
     if (!cached) return null;
-    return Date.now() - cached.timestamp;
+    return this.clock.nowMs() - cached.timestamp;
   }
 
   /**
@@ -4,22 +4,19 @@
  */
 
 import { Signal, Config } from '../core/types.ts';
-
-interface CacheEntry {
-  fingerprint: string;
-  timestamp: number;
-}
+import { Clock, systemClock } from '../core/clock.ts';
+import { InMemoryStateStore, STATE_NAMESPACES, type StateStore } from './state-store.ts';
 
 export class DeduplicationCache {
-  private cache: Map<string, CacheEntry> = new Map();
   private duplicateWindowMs: number;
-  private expirationMs: number;
 
-  constructor(config: Config) {
+  constructor(
+    config: Config,
+    private clock: Clock = systemClock,
+    private stateStore: StateStore = new InMemoryStateStore(clock)
+  ) {
     // 60-second window for duplicate detection
     this.duplicateWindowMs = config.cache.deduplicationTTLSeconds * 1000;
-    // 5-minute expiration for cache entries
-    this.expirationMs = 5 * 60 * 1000;
   }
 
   /**
@@ -39,51 +36,27 @@ export class DeduplicationCache {
   }
 
   /**
-   * Check if signal is a duplicate
-   * Implements Requirement 18.2
+   * Check if signal is a duplicate, claiming its fingerprint when it is not.
+   * The claim is atomic in the state store, so concurrent instances agree.
+   * Implements Requirements 18.2, 18.4
    */
-  isDuplicate(signal: Signal): boolean {
+  async isDuplicate(signal: Signal): Promise<boolean> {
     const fingerprint = this.generateFingerprint(signal);
-    const now = Date.now();
-
-    // Clean up expired entries
-    this.cleanupExpired(now);
-
-    const existing = this.cache.get(fingerprint);
-    
-    if (!existing) {
-      // Not a duplicate - add to cache
-      this.cache.set(fingerprint, {
-        fingerprint,
-        timestamp: now,
-      });
-      return false;
-    }
-
-    // Check if within duplicate detection window
-    const age = now - existing.timestamp;
-    return age < this.duplicateWindowMs;
+    const claimed = await this.stateStore.putIfAbsent(
+      STATE_NAMESPACES.DEDUPLICATION,
+      fingerprint,
+      signal.id,
+      this.duplicateWindowMs
+    );
+    return !claimed;
   }
 
   /**
    * Check if signal would be processed (not duplicate)
    * Used for testing cache expiration
    */
-  wouldProcess(signal: Signal): boolean {
-    return !this.isDuplicate(signal);
-  }
-
-  /**
-   * Clean up expired cache entries
-   * Implements Requirement 18.4
-   */
-  private cleanupExpired(now: number): void {
-    for (const [key, entry] of this.cache.entries()) {
-      const age = now - entry.timestamp;
-      if (age > this.expirationMs) {
-        this.cache.delete(key);
-      }
-    }
+  async wouldProcess(signal: Signal): Promise<boolean> {
+    return !(await this.isDuplicate(signal));
   }
 
   /**
@@ -102,24 +75,24 @@ export class DeduplicationCache {
   /**
    * Get cache size (for monitoring)
    */
-  size(): number {
-    return this.cache.size;
+  async size(): Promise<number> {
+    return this.stateStore.size(STATE_NAMESPACES.DEDUPLICATION);
   }
 
   /**
    * Clear cache (for testing)
    */
-  clear(): void {
-    this.cache.clear();
+  async clear(): Promise<void> {
+    await this.stateStore.clear(STATE_NAMESPACES.DEDUPLICATION);
   }
 
   /**
    * Get cache entry age in milliseconds (for testing)
    */
-  getEntryAge(signal: Signal): number | null {
+  async getEntryAge(signal: Signal): Promise<number | null> {
     const fingerprint = this.generateFingerprint(signal);
-    const entry = this.cache.get(fingerprint);
+    const entry = await this.stateStore.get(STATE_NAMESPACES.DEDUPLICATION, fingerprint);
     if (!entry) return null;
-    return Date.now() - entry.timestamp;
+    return this.clock.nowMs() - entry.storedAt;
   }
 }
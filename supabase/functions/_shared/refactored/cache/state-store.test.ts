@@ -0,0 +1,166 @@
+/**
+ * Tests for the pluggable pipeline state store
+ */
+
+import { describe, it, expect } from 'vitest';
+import { InMemoryStateStore, PostgresStateStore, STATE_NAMESPACES } from './state-store.ts';
+import { DeduplicationCache } from './deduplication-cache.ts';
+import { SignalValidator } from '../validation/signal-validator.ts';
+import { PositionManager } from '../services/position-manager.ts';
+import { SimulatedClock } from '../core/clock.ts';
+import { defaultConfig } from '../core/config.ts';
+import type { Signal } from '../core/types.ts';
+import { fakeClient, NOW, type Row } from '../../test-utils/fake-db.ts';
+
+/**
+ * Shared fake client with the pipeline_state SQL functions emulated
+ */
+function stateStoreClient() {
+  const find = (rows: Row[], namespace: unknown, key: unknown) =>
+    rows.find(row => row.namespace === namespace && row.key === key);
+
+  return fakeClient({ pipeline_state: [] }, {
+    state_store_put_if_absent: (params, tables) => {
+      const rows = tables.pipeline_state;
+      const existing = find(rows, params.p_namespace, params.p_key);
+      const live = existing && (existing.expires_at === null ||
+        (existing.expires_at as string) > (params.p_stored_at as string));
+      if (live) return false;
+
+      const row = {
+        namespace: params.p_namespace,
+        key: params.p_key,
+        value: params.p_value,
+        stored_at: params.p_stored_at,
+        expires_at: params.p_expires_at,
+      };
+      if (existing) Object.assign(existing, row);
+      else rows.push(row);
+      return true;
+    },
+    state_store_delete: (params, tables) => {
+      const rows = tables.pipeline_state;
+      const existing = find(rows, params.p_namespace, params.p_key);
+      if (existing) rows.splice(rows.indexOf(existing), 1);
+      return null;
+    },
+  });
+}
+
+function signal(overrides: Partial<Signal> = {}): Signal {
+  return {
+    id: 'sig-1',
+    source: 'TRADINGVIEW',
+    symbol: 'SPY',
+    direction: 'CALL',
+    timeframe: '5m',
+    timestamp: new Date('2026-03-04T14:59:30.000Z'),
+    metadata: {},
+    ...overrides,
+  };
+}
+
+describe('InMemoryStateStore', () => {
+  it('lets only one caller claim a live key and treats expired keys as absent', async () => {
+    const clock = new SimulatedClock(NOW);
+    const store = new InMemoryStateStore(clock);
+
+    const claims = await Promise.all([
+      store.putIfAbsent(STATE_NAMESPACES.COOLDOWN, 'SPY_CALL', 'a', 1000),
+      store.putIfAbsent(STATE_NAMESPACES.COOLDOWN, 'SPY_CALL', 'b', 1000),
+    ]);
+    expect(claims).toEqual([true, false]);
+    expect((await store.get(STATE_NAMESPACES.COOLDOWN, 'SPY_CALL'))?.value).toBe('a');
+
+    // Namespaces are independent
+    expect(await store.putIfAbsent(STATE_NAMESPACES.DEDUPLICATION, 'SPY_CALL', 'c', 1000)).toBe(true);
+
+    clock.advanceBy(1000);
+    expect(await store.get(STATE_NAMESPACES.COOLDOWN, 'SPY_CALL')).toBeNull();
+    expect(await store.putIfAbsent(STATE_NAMESPACES.COOLDOWN, 'SPY_CALL', 'd', null)).toBe(true);
+
+    clock.advanceBy(365 * 24 * 60 * 60 * 1000);
+    expect(await store.size(STATE_NAMESPACES.COOLDOWN)).toBe(1);
+  });
+});
+
+describe('PostgresStateStore', () => {
+  it('claims through the SQL function and reads entries back with expiry', async () => {
+    const client = stateStoreClient();
+    const clock = new SimulatedClock(NOW);
+    const store = new PostgresStateStore(client as never, clock);
+
+    expect(await store.putIfAbsent(STATE_NAMESPACES.DEDUPLICATION, 'abc', 'sig-1', 60_000)).toBe(true);
+    expect(await store.putIfAbsent(STATE_NAMESPACES.DEDUPLICATION, 'abc', 'sig-2', 60_000)).toBe(false);
+    expect(client.tables.pipeline_state).toEqual([
+      expect.objectContaining({ value: 'sig-1', expires_at: '2026-03-04T15:01:00.000Z' }),
+    ]);
+
+    const entry = await store.get(STATE_NAMESPACES.DEDUPLICATION, 'abc');
+    expect(entry).toEqual({ value: 'sig-1', storedAt: NOW.getTime(), expiresAt: NOW.getTime() + 60_000 });
+
+    clock.advanceBy(60_000);
+    expect(await store.get(STATE_NAMESPACES.DEDUPLICATION, 'abc')).toBeNull();
+    expect(await store.size(STATE_NAMESPACES.DEDUPLICATION)).toBe(0);
+    expect(await store.putIfAbsent(STATE_NAMESPACES.DEDUPLICATION, 'abc', 'sig-3', 60_000)).toBe(true);
+
+    await store.delete(STATE_NAMESPACES.DEDUPLICATION, 'abc');
+    expect(client.tables.pipeline_state).toEqual([]);
+  });
+
+  it('surfaces database errors instead of silently allowing duplicates', async () => {
+    const client = {
+      rpc: async () => ({ data: null, error: { message: 'connection reset' } }),
+    };
+    const store = new PostgresStateStore(client as never, new SimulatedClock(NOW));
+
+    await expect(store.putIfAbsent(STATE_NAMESPACES.COOLDOWN, 'SPY_CALL', '1', 1000))
+      .rejects.toThrow('State store claim failed: connection reset');
+  });
+});
+
+describe('shared state across instances', () => {
+  it('deduplicates, enforces cooldowns and blocks duplicate positions across instances', async () => {
+    const clock = new SimulatedClock(NOW);
+    const store = new InMemoryStateStore(clock);
+
+    // Two "instances" built independently but sharing one store
+    const cacheA = new DeduplicationCache(defaultConfig, clock, store);
+    const cacheB = new DeduplicationCache(defaultConfig, clock, store);
+    expect(await cacheA.isDuplicate(signal())).toBe(false);
+    expect(await cacheB.isDuplicate(signal({ id: 'sig-retry' }))).toBe(true);
+
+    const validatorA = new SignalValidator(defaultConfig, clock, store);
+    const validatorB = new SignalValidator(defaultConfig, clock, store);
+    expect((await validatorA.validate(signal())).checks.cooldown).toBe(true);
+    const second = await validatorB.validate(signal({ id: 'sig-2' }));
+    expect(second.checks.cooldown).toBe(false);
+    expect(second.rejectionReason).toBe('Cooldown active');
+
+    const db = { from: () => ({ insert: async () => ({ error: null }) }) };
+    const managerA = new PositionManager(db, defaultConfig, clock, store);
+    const managerB = new PositionManager(db, defaultConfig, clock, store);
+    expect((await managerA.openPosition(signal(), 1, 2.5)).success).toBe(true);
+    const duplicate = await managerB.openPosition(signal(), 1, 2.5);
+    expect(duplicate.success).toBe(false);
+    expect(duplicate.error).toBe('Position already exists for this signal');
+  });
+
+  it('releases the signal claim when the position cannot be persisted', async () => {
+    const clock = new SimulatedClock(NOW);
+    const store = new InMemoryStateStore(clock);
+    let failInsert = true;
+    const db = {
+      from: () => ({
+        insert: async () => (failInsert ? { error: { message: 'insert failed' } } : { error: null }),
+      }),
+    };
+    const manager = new PositionManager(db, defaultConfig, clock, store);
+
+    expect((await manager.openPosition(signal(), 1, 2.5)).error).toBe('Failed to persist position: insert failed');
+    expect(await store.get(STATE_NAMESPACES.SIGNAL_POSITION, 'sig-1')).toBeNull();
+
+    failInsert = false;
+    expect((await manager.openPosition(signal(), 1, 2.5)).success).toBe(true);
+  });
+});
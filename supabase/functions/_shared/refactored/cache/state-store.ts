@@ -0,0 +1,194 @@
+/**
+ * Pluggable key/value state store for pipeline state that must survive
+ * cold starts and be shared between edge function instances
+ * (deduplication fingerprints, cooldowns, signal-to-position mapping).
+ *
+ * putIfAbsent is the only write used for claims: it succeeds for exactly one
+ * caller per live key, so two instances racing on the same alert cannot both
+ * win. Expired entries count as absent.
+ */
+
+import type { createDbClient } from '../../db-client.ts';
+import { Clock, systemClock } from '../core/clock.ts';
+
+export const STATE_NAMESPACES = {
+  DEDUPLICATION: 'dedup',
+  COOLDOWN: 'cooldown',
+  SIGNAL_POSITION: 'signal_position',
+} as const;
+
+export type StateNamespace = typeof STATE_NAMESPACES[keyof typeof STATE_NAMESPACES];
+
+export interface StateEntry {
+  value: string;
+  storedAt: number;
+  expiresAt: number | null;
+}
+
+export interface StateStore {
+  /**
+   * Store the value only if no live entry exists for the key.
+   * Returns true when this caller claimed the key.
+   * A ttlMs of null never expires.
+   */
+  putIfAbsent(namespace: StateNamespace, key: string, value: string, ttlMs: number | null): Promise<boolean>;
+  get(namespace: StateNamespace, key: string): Promise<StateEntry | null>;
+  delete(namespace: StateNamespace, key: string): Promise<void>;
+  /** Count live entries (for monitoring and tests) */
+  size(namespace: StateNamespace): Promise<number>;
+  /** Remove every entry in a namespace (for testing) */
+  clear(namespace: StateNamespace): Promise<void>;
+}
+
+function isLive(entry: StateEntry, now: number): boolean {
+  return entry.expiresAt === null || entry.expiresAt > now;
+}
+
+/**
+ * Process-local store. Default for tests, backtests and single-instance runs.
+ */
+export class InMemoryStateStore implements StateStore {
+  private entries: Map<string, Map<string, StateEntry>> = new Map();
+
+  constructor(private clock: Clock = systemClock) {}
+
+  async putIfAbsent(namespace: StateNamespace, key: string, value: string, ttlMs: number | null): Promise<boolean> {
+    const now = this.clock.nowMs();
+    const bucket = this.bucket(namespace);
+    this.purgeExpired(bucket, now);
+
+    if (bucket.has(key)) {
+      return false;
+    }
+
+    bucket.set(key, {
+      value,
+      storedAt: now,
+      expiresAt: ttlMs === null ? null : now + ttlMs,
+    });
+    return true;
+  }
+
+  async get(namespace: StateNamespace, key: string): Promise<StateEntry | null> {
+    const entry = this.bucket(namespace).get(key);
+    return entry && isLive(entry, this.clock.nowMs()) ? entry : null;
+  }
+
+  async delete(namespace: StateNamespace, key: string): Promise<void> {
+    this.bucket(namespace).delete(key);
+  }
+
+  async size(namespace: StateNamespace): Promise<number> {
+    const bucket = this.bucket(namespace);
+    this.purgeExpired(bucket, this.clock.nowMs());
+    return bucket.size;
+  }
+
+  async clear(namespace: StateNamespace): Promise<void> {
+    this.entries.delete(namespace);
+  }
+
+  private bucket(namespace: StateNamespace): Map<string, StateEntry> {
+    let bucket = this.entries.get(namespace);
+    if (!bucket) {
+      bucket = new Map();
+      this.entries.set(namespace, bucket);
+    }
+    return bucket;
+  }
+
+  private purgeExpired(bucket: Map<string, StateEntry>, now: number): void {
+    for (const [key, entry] of bucket.entries()) {
+      if (!isLive(entry, now)) {
+        bucket.delete(key);
+      }
+    }
+  }
+}
+
+/**
+ * Shared store backed by the pipeline_state table.
+ * Claims go through state_store_put_if_absent, which relies on
+ * INSERT ... ON CONFLICT so the check and the write are one statement.
+ */
+export class PostgresStateStore implements StateStore {
+  constructor(
+    private supabaseClient: ReturnType<typeof createDbClient>,
+    private clock: Clock = systemClock
+  ) {}
+
+  async putIfAbsent(namespace: StateNamespace, key: string, value: string, ttlMs: number | null): Promise<boolean> {
+    const now = this.clock.nowMs();
+    const { data, error } = await this.supabaseClient.rpc('state_store_put_if_absent', {
+      p_namespace: namespace,
+      p_key: key,
+      p_value: value,
+      p_stored_at: new Date(now).toISOString(),
+      p_expires_at: ttlMs === null ? null : new Date(now + ttlMs).toISOString(),
+    });
+
+    if (error) {
+      throw new Error(`State store claim failed: ${error.message}`);
+    }
+
+    return data === true;
+  }
+
+  async get(namespace: StateNamespace, key: string): Promise<StateEntry | null> {
+    const { data, error } = await this.supabaseClient
+      .from('pipeline_state')
+      .select('value, stored_at, expires_at')
+      .eq('namespace', namespace)
+      .eq('key', key)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`State store read failed: ${error.message}`);
+    }
+    if (!data) {
+      return null;
+    }
+
+    const entry: StateEntry = {
+      value: data.value,
+      storedAt: new Date(data.stored_at).getTime(),
+      expiresAt: data.expires_at ? new Date(data.expires_at).getTime() : null,
+    };
+    return isLive(entry, this.clock.nowMs()) ? entry : null;
+  }
+
+  async delete(namespace: StateNamespace, key: string): Promise<void> {
+    const { error } = await this.supabaseClient.rpc('state_store_delete', {
+      p_namespace: namespace,
+      p_key: key,
+    });
+
+    if (error) {
+      throw new Error(`State store delete failed: ${error.message}`);
+    }
+  }
+
+  async size(namespace: StateNamespace): Promise<number> {
+    const { data, error } = await this.supabaseClient
+      .from('pipeline_state')
+      .select('expires_at')
+      .eq('namespace', namespace);
+
+    if (error) {
+      throw new Error(`State store read failed: ${error.message}`);
+    }
+
+    const now = this.clock.nowMs();
+    return (data || []).filter((row: { expires_at: string | null }) =>
+      row.expires_at === null || new Date(row.expires_at).getTime() > now
+    ).length;
+  }
+
+  async clear(namespace: StateNamespace): Promise<void> {
+    const { error } = await this.supabaseClient.rpc('state_store_clear', { p_namespace: namespace });
+
+    if (error) {
+      throw new Error(`State store clear failed: ${error.message}`);
+    }
+  }
+}
@@ -0,0 +1,65 @@
+/**
+ * Clock abstraction for the refactored decision stack
+ *
+ * Components take a Clock at construction instead of reading wall-clock time,
+ * so market-hours, cooldown and staleness logic can be driven deterministically
+ * in tests and historical replays.
+ */
+
+export interface Clock {
+  /** Current time as a Date */
+  now(): Date;
+  /** Current time in epoch milliseconds */
+  nowMs(): number;
+}
+
+/**
+ * Wall-clock time
+ */
+export class SystemClock implements Clock {
+  now(): Date {
+    return new Date();
+  }
+
+  nowMs(): number {
+    return Date.now();
+  }
+}
+
+/**
+ * Controllable clock for tests and replays
+ */
+export class SimulatedClock implements Clock {
+  private currentMs: number;
+
+  constructor(start: Date = new Date()) {
+    this.currentMs = start.getTime();
+  }
+
+  now(): Date {
+    return new Date(this.currentMs);
+  }
+
+  nowMs(): number {
+    return this.currentMs;
+  }
+
+  /**
+   * Jump to an absolute time (never moves backwards)
+   */
+  setTime(time: Date): void {
+    this.currentMs = Math.max(this.currentMs, time.getTime());
+  }
+
+  /**
+   * Advance the clock by a number of milliseconds
+   */
+  advanceBy(ms: number): void {
+    this.currentMs += Math.max(0, ms);
+  }
+}
+
+/**
+ * Shared system clock used when no clock is injected
+ */
+export const systemClock: Clock = new SystemClock();
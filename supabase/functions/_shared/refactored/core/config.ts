@@ -40,6 +40,59 @@ export const defaultConfig: Config = {
   exit: {
     profitTargetPercent: 50,
     stopLossPercent: -30,
+    tiers: [
+      { profitPercent: 25, closePercent: 25 },
+      { profitPercent: 40, closePercent: 25 },
+    ],
+    trailing: {
+      activationPercent: 20,
+      trailPercent: 15,
+    },
+    atrStop: {
+      multiplier: 1.5,
+      minStopPercent: 15,
+      maxStopPercent: 40,
+    },
+    greeks: {
+      deltaThreshold: 0.82,
+      ivCrushPercent: 20,
+      thetaBurnPercent: 4,
+    },
+    short: {
+      profitTargetPercent: 50,
+      stopLossPercent: -100,
+      maxDelta: 0.5,
+    },
+  },
+  liquidity: {
+    maxSpreadPercent: 10,
+    minVolume: 10,
+    minOpenInterest: 100,
+    maxQuoteAgeSeconds: 60,
+    rerouteStrikeSteps: 2,
+  },
+  blackouts: {
+    windows: {
+      FOMC: { preMinutes: 30, postMinutes: 60, action: 'BLOCK', sizeMultiplier: 0 },
+      CPI: { preMinutes: 30, postMinutes: 30, action: 'DOWNSIZE', sizeMultiplier: 0.5 },
+      NFP: { preMinutes: 30, postMinutes: 30, action: 'DOWNSIZE', sizeMultiplier: 0.5 },
+      EARNINGS: { preMinutes: 24 * 60, postMinutes: 60, action: 'BLOCK', sizeMultiplier: 0 },
+    },
+    flattenMaxDte: 2,
+    flattenLeadMinutes: 30,
+  },
+  expiration: {
+    flattenTime: '15:00',
+    zeroDteFlattenTime: '14:30',
+    pinRiskPercent: 0.5,
+  },
+  execution: {
+    chase: {
+      steps: 4,
+      intervalMs: 5000,
+      maxSlippagePercent: 5,
+      runBudgetMs: 60000,
+    },
   },
 };
 
@@ -206,6 +259,144 @@ export function validateConfig(config: Config): { valid: boolean; errors: string
     } else if (config.exit.stopLossPercent > 0) {
       errors.push('exit.stopLossPercent must be negative or zero');
     }
+    if (config.exit.tiers !== undefined) {
+      if (!Array.isArray(config.exit.tiers)) {
+        errors.push('exit.tiers must be an array');
+      } else {
+        let previous = 0;
+        config.exit.tiers.forEach((tier, index) => {
+          if (typeof tier.profitPercent !== 'number' || tier.profitPercent <= previous) {
+            errors.push(`exit.tiers[${index}].profitPercent must be a number above the previous tier`);
+          } else {
+            previous = tier.profitPercent;
+          }
+          if (typeof tier.closePercent !== 'number' || tier.closePercent <= 0 || tier.closePercent > 100) {
+            errors.push(`exit.tiers[${index}].closePercent must be between 0 and 100`);
+          }
+        });
+        const total = config.exit.tiers.reduce((sum, tier) => sum + (tier.closePercent || 0), 0);
+        if (total > 100) {
+          errors.push('exit.tiers must not close more than 100% in total');
+        }
+      }
+    }
+    if (config.exit.trailing) {
+      if (typeof config.exit.trailing.activationPercent !== 'number' || config.exit.trailing.activationPercent < 0) {
+        errors.push('exit.trailing.activationPercent must be a non-negative number');
+      }
+      if (typeof config.exit.trailing.trailPercent !== 'number' ||
+          config.exit.trailing.trailPercent <= 0 || config.exit.trailing.trailPercent >= 100) {
+        errors.push('exit.trailing.trailPercent must be between 0 and 100');
+      }
+    }
+    if (config.exit.atrStop) {
+      const { multiplier, minStopPercent, maxStopPercent } = config.exit.atrStop;
+      if (typeof multiplier !== 'number' || multiplier <= 0) {
+        errors.push('exit.atrStop.multiplier must be positive');
+      }
+      if (typeof minStopPercent !== 'number' || typeof maxStopPercent !== 'number' ||
+          minStopPercent <= 0 || maxStopPercent < minStopPercent) {
+        errors.push('exit.atrStop.minStopPercent must be positive and not above maxStopPercent');
+      }
+    }
+    if (config.exit.greeks) {
+      const { deltaThreshold, ivCrushPercent, thetaBurnPercent } = config.exit.greeks;
+      if (typeof deltaThreshold !== 'number' || deltaThreshold <= 0 || deltaThreshold > 1) {
+        errors.push('exit.greeks.deltaThreshold must be between 0 and 1');
+      }
+      if (typeof ivCrushPercent !== 'number' || ivCrushPercent <= 0 || ivCrushPercent >= 100) {
+        errors.push('exit.greeks.ivCrushPercent must be between 0 and 100');
+      }
+      if (typeof thetaBurnPercent !== 'number' || thetaBurnPercent <= 0) {
+        errors.push('exit.greeks.thetaBurnPercent must be positive');
+      }
+    }
+    if (config.exit.short) {
+      const { profitTargetPercent, stopLossPercent, maxDelta } = config.exit.short;
+      if (typeof profitTargetPercent !== 'number' || profitTargetPercent <= 0 || profitTargetPercent > 100) {
+        errors.push('exit.short.profitTargetPercent must be between 0 and 100');
+      }
+      if (typeof stopLossPercent !== 'number' || stopLossPercent >= 0) {
+        errors.push('exit.short.stopLossPercent must be negative');
+      }
+      if (typeof maxDelta !== 'number' || maxDelta <= 0 || maxDelta > 1) {
+        errors.push('exit.short.maxDelta must be between 0 and 1');
+      }
+    }
+  }
+
+  // Validate liquidity config (optional)
+  if (config.liquidity) {
+    const liquidityFields = [
+      'maxSpreadPercent',
+      'minVolume',
+      'minOpenInterest',
+      'maxQuoteAgeSeconds',
+      'rerouteStrikeSteps',
+    ] as const;
+    for (const field of liquidityFields) {
+      if (typeof config.liquidity[field] !== 'number') {
+        errors.push(`liquidity.${field} must be a number`);
+      } else if (config.liquidity[field] < 0) {
+        errors.push(`liquidity.${field} must be non-negative`);
+      }
+    }
+  }
+
+  // Validate blackout config (optional)
+  if (config.blackouts) {
+    for (const [type, window] of Object.entries(config.blackouts.windows ?? {})) {
+      if (typeof window.preMinutes !== 'number' || window.preMinutes < 0) {
+        errors.push(`blackouts.windows.${type}.preMinutes must be a non-negative number`);
+      }
+      if (typeof window.postMinutes !== 'number' || window.postMinutes < 0) {
+        errors.push(`blackouts.windows.${type}.postMinutes must be a non-negative number`);
+      }
+      if (window.action !== 'BLOCK' && window.action !== 'DOWNSIZE') {
+        errors.push(`blackouts.windows.${type}.action must be BLOCK or DOWNSIZE`);
+      }
+      if (typeof window.sizeMultiplier !== 'number' || window.sizeMultiplier < 0 || window.sizeMultiplier > 1) {
+        errors.push(`blackouts.windows.${type}.sizeMultiplier must be between 0 and 1`);
+      }
+    }
+    for (const field of ['flattenMaxDte', 'flattenLeadMinutes'] as const) {
+      if (typeof config.blackouts[field] !== 'number' || config.blackouts[field] < 0) {
+        errors.push(`blackouts.${field} must be a non-negative number`);
+      }
+    }
+  }
+
+  // Validate expiration config (optional)
+  if (config.expiration) {
+    for (const field of ['flattenTime', 'zeroDteFlattenTime'] as const) {
+      if (typeof config.expiration[field] !== 'string' || !/^\d{2}:\d{2}$/.test(config.expiration[field])) {
+        errors.push(`expiration.${field} must be in HH:MM format`);
+      }
+    }
+    if (typeof config.expiration.pinRiskPercent !== 'number' || config.expiration.pinRiskPercent <= 0) {
+      errors.push('expiration.pinRiskPercent must be a positive number');
+    }
+  }
+
+  // Validate execution config (optional)
+  if (config.execution) {
+    const { chase } = config.execution;
+    if (!chase) {
+      errors.push('execution.chase is required');
+    } else {
+      if (!Number.isInteger(chase.steps) || chase.steps < 0) {
+        errors.push('execution.chase.steps must be a non-negative integer');
+      }
+      if (typeof chase.intervalMs !== 'number' || chase.intervalMs < 0) {
+        errors.push('execution.chase.intervalMs must be a non-negative number');
+      }
+      if (typeof chase.maxSlippagePercent !== 'number' || chase.maxSlippagePercent < 0) {
+        errors.push('execution.chase.maxSlippagePercent must be a non-negative number');
+      }
+      if (typeof chase.runBudgetMs !== 'number' || chase.runBudgetMs <= 0) {
+        errors.push('execution.chase.runBudgetMs must be a positive number');
+      }
+    }
   }
 
   return {
@@ -4,3 +4,4 @@
 
 export * from './types.ts';
 export * from './config.ts';
+export * from './clock.ts';
@@ -7,8 +7,21 @@ export type Direction = 'CALL' | 'PUT';
 export type Trend = 'BULLISH' | 'BEARISH' | 'NEUTRAL';
 export type Regime = 'LOW_VOL' | 'HIGH_VOL' | 'NORMAL';
 export type DecisionType = 'ENTER' | 'REJECT' | 'EXIT' | 'HOLD';
-export type ExitReason = 'PROFIT_TARGET' | 'STOP_LOSS' | 'GEX_FLIP' | 'TIME_EXIT';
+export type ExitReason =
+  | 'PROFIT_TARGET'
+  | 'PARTIAL_TARGET'
+  | 'STOP_LOSS'
+  | 'TRAILING_STOP'
+  | 'DELTA_THRESHOLD'
+  | 'IV_CRUSH'
+  | 'THETA_DECAY'
+  | 'GEX_FLIP'
+  | 'TIME_EXIT'
+  | 'EVENT_BLACKOUT'
+  | 'EXPIRATION';
+export type ScheduledEventType = 'FOMC' | 'CPI' | 'NFP' | 'EARNINGS';
 export type PositionStatus = 'OPEN' | 'CLOSED';
+export type PositionSide = 'LONG' | 'SHORT';
 
 export interface Signal {
   id: string;
@@ -28,6 +41,7 @@ export interface ValidationResult {
     mtf: boolean;
     confluence: boolean;
     timeFilters: boolean;
+    blackout?: boolean;
   };
   rejectionReason?: string;
   details: Record<string, any>;
@@ -53,30 +67,94 @@ export interface EntryDecision {
     indicatorSizeMultiplier: number;
     finalSize: number;
   };
+  contract?: EntryContract; // Set when the pre-entry checks changed the contract
+  liquidity?: EntryLiquidity;
+}
+
+export interface EntryContract {
+  underlying: string;
+  strike: number;
+  expiration: string;
+  optionType: Direction;
+}
+
+// Measured market quality of the contract the entry will trade
+export interface EntryLiquidity {
+  symbol: string;
+  strike: number;
+  bid: number;
+  ask: number;
+  spreadPercent: number | null;
+  volume: number;
+  openInterest: number;
+  quoteAgeSeconds: number | null;
 }
 
 export interface ExitDecision {
   decision: 'EXIT' | 'HOLD';
   position: Position;
   exitReason?: ExitReason;
+  quantity?: number; // Contracts to close on EXIT; less than position.quantity for partials
+  partial?: boolean;
+  exitTier?: number; // 1-based tier a PARTIAL_TARGET exit takes
+  tracking?: ExitTracking;
   reasoning: string[];
   calculations: {
     profitTarget: boolean;
     stopLoss: boolean;
     gexFlip: boolean;
     timeExit: boolean;
+    eventBlackout?: boolean;
+    expirationExit?: boolean;
+    trailingStop?: boolean;
+    partialTarget?: boolean;
+    greeksExit?: boolean;
+    delta?: number;
+    ivChangePercent?: number; // Negative when IV has dropped since entry
+    thetaBurnPercent?: number; // Daily theta as a percent of position value
+    stopLossPercent?: number; // Effective stop, ATR-scaled when volatility data was available
     currentPnL: number;
     currentPnLPercent: number;
   };
 }
 
+// Exit state to persist on the position after each evaluation
+export interface ExitTracking {
+  highWaterMark: number;
+  trailingStopPrice: number | null;
+}
+
+// Volatility and greeks inputs for stop and greeks-based exits
+export interface ExitMarketData {
+  atr?: number; // Underlying ATR in points
+  atrPercentile?: number; // 0-100
+  delta?: number; // Option delta, converts underlying moves into premium
+  theta?: number; // Per-share daily theta
+  impliedVolatility?: number; // Decimal, e.g. 0.25
+}
+
+// Option greeks and IV recorded when a position is opened
+export interface PositionGreeks {
+  delta: number;
+  gamma: number;
+  theta: number;
+  vega: number;
+  impliedVolatility: number | null;
+}
+
+export interface ExitTier {
+  profitPercent: number; // Unrealized gain that triggers the tier
+  closePercent: number; // Share of the original quantity to close
+}
+
 export interface Position {
   id: string;
   signalId: string;
   symbol: string;
   direction: Direction;
+  side?: PositionSide; // LONG when absent; SHORT for SELL_TO_OPEN entries
   quantity: number;
-  entryPrice: number;
+  entryPrice: number; // Premium paid (long) or credit received (short), per share
   entryTime: Date;
   currentPrice?: number;
   unrealizedPnL?: number;
@@ -86,6 +164,15 @@ export interface Position {
   expiration?: string;
   optionType?: 'CALL' | 'PUT';
   timeframe?: string;
+  originalQuantity?: number; // Quantity at entry; quantity is what remains open
+  realizedPnL?: number; // Booked by partial exits so far
+  highWaterMark?: number;
+  trailingStopPrice?: number;
+  exitTiersTaken?: number;
+  entryGreeks?: PositionGreeks;
+  creditReceived?: number; // Short positions, dollars
+  collateralRequirement?: number; // Dollars held against the position at entry
+  maxLoss?: number | null; // Dollars; null when unbounded (naked short call)
 }
 
 export interface ContextData {
@@ -141,5 +228,57 @@ export interface Config {
   exit?: {
     profitTargetPercent: number;
     stopLossPercent: number;
+    tiers?: ExitTier[]; // Partial profit taking, in ascending profitPercent order
+    trailing?: {
+      activationPercent: number; // Gain the high-water mark must reach before trailing
+      trailPercent: number; // Distance below the high-water mark
+    };
+    atrStop?: {
+      multiplier: number;
+      minStopPercent: number;
+      maxStopPercent: number;
+    };
+    greeks?: {
+      deltaThreshold: number; // Exit once |delta| reaches this (deep ITM)
+      ivCrushPercent: number; // Exit once IV is this far below entry IV
+      thetaBurnPercent: number; // Exit once daily theta is this share of position value
+    };
+    short?: {
+      profitTargetPercent: number; // Percent of the credit captured
+      stopLossPercent: number; // Negative percent of the credit, e.g. -100 when the option doubles
+      maxDelta: number; // Close once |delta| reaches this (strike being tested)
+    };
+  };
+  liquidity?: {
+    maxSpreadPercent: number; // (ask - bid) / mid, percent
+    minVolume: number;
+    minOpenInterest: number;
+    maxQuoteAgeSeconds: number;
+    rerouteStrikeSteps: number; // Listed strikes either side to try; 0 rejects outright
+  };
+  blackouts?: {
+    windows: Record<ScheduledEventType, BlackoutWindow>;
+    flattenMaxDte: number; // Positions this close to expiration are flattened before a BLOCK window
+    flattenLeadMinutes: number; // How long before the window opens to flatten them
   };
+  expiration?: {
+    flattenTime: string; // HH:MM ET on expiration day, shifted earlier on early closes
+    zeroDteFlattenTime: string; // Same, for positions opened on their expiration day
+    pinRiskPercent: number; // Underlying within this % of the strike on expiration day
+  };
+  execution?: {
+    chase: {
+      steps: number; // Limit price steps from mid to the far side
+      intervalMs: number; // Time each price is given to fill
+      maxSlippagePercent: number; // Furthest the limit may move from mid, percent of mid
+      runBudgetMs: number; // Total time one exit-worker run, or one entry, may spend chasing
+    };
+  };
+}
+
+export interface BlackoutWindow {
+  preMinutes: number;
+  postMinutes: number;
+  action: 'BLOCK' | 'DOWNSIZE';
+  sizeMultiplier: number; // Applied to DOWNSIZE windows
 }
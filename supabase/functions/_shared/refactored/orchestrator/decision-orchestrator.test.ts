@@ -453,7 +453,7 @@ describe('Decision Orchestrator Unit Tests', () => {
       direction: 'CALL',
       timeframe: '5m',
       timestamp: new Date(),
-      metadata: {},
+      metadata: { entry_price: 2.5 },
     };
 
     const context: ContextData = {
@@ -505,7 +505,7 @@ describe('Decision Orchestrator Unit Tests', () => {
       direction: 'CALL',
       timeframe: '5m',
       timestamp: new Date(),
-      metadata: {},
+      metadata: { entry_price: 2.5 },
     };
 
     const context: ContextData = {
@@ -597,7 +597,7 @@ describe('Decision Orchestrator Unit Tests', () => {
       direction: 'CALL',
       timeframe: '5m',
       timestamp: new Date(),
-      metadata: { price: 450 },
+      metadata: { price: 450, entry_price: 2.5 },
     };
 
     const context: ContextData = {
@@ -619,7 +619,57 @@ describe('Decision Orchestrator Unit Tests', () => {
     const decision = await orchestrator.orchestrateEntryDecision(signal);
 
     expect(decision.decision).toBe('REJECT');
-    expect(decision.reasoning.some(r => r.includes('exposure'))).toBe(true);
+    expect(decision.reasoning).toContain('Would exceed maximum exposure - rejecting');
+  });
+
+  it('sizes entry exposure from the option price, not the underlying', async () => {
+    const signal: Signal = {
+      id: 'test',
+      source: 'TRADINGVIEW',
+      symbol: 'SPY',
+      direction: 'CALL',
+      timeframe: '5m',
+      timestamp: new Date(),
+      metadata: { price: 450, parsed_signal: { limit_price: 2.5 } },
+    };
+
+    mockContextCache.getContext.mockResolvedValue({
+      vix: 20,
+      trend: 'BULLISH',
+      bias: 0.5,
+      regime: 'NORMAL',
+      timestamp: new Date(),
+    });
+    mockGexService.getSignalWithMetadata.mockResolvedValue({ signal: null, isStale: false, effectiveWeight: 0 });
+
+    const decision = await orchestrator.orchestrateEntryDecision(signal);
+
+    expect(decision.decision).toBe('ENTER');
+    expect(mockPositionManager.wouldExceedMaxExposure).toHaveBeenCalledWith(2.5 * 100 * decision.positionSize);
+  });
+
+  it('rejects an entry whose option price is unknown', async () => {
+    mockContextCache.getContext.mockResolvedValue({
+      vix: 20,
+      trend: 'BULLISH',
+      bias: 0.5,
+      regime: 'NORMAL',
+      timestamp: new Date(),
+    });
+    mockGexService.getSignalWithMetadata.mockResolvedValue({ signal: null, isStale: false, effectiveWeight: 0 });
+
+    const decision = await orchestrator.orchestrateEntryDecision({
+      id: 'test',
+      source: 'TRADINGVIEW',
+      symbol: 'SPY',
+      direction: 'CALL',
+      timeframe: '5m',
+      timestamp: new Date(),
+      metadata: { price: 450 },
+    });
+
+    expect(decision.decision).toBe('REJECT');
+    expect(mockPositionManager.wouldExceedMaxExposure).not.toHaveBeenCalled();
   });
 });
 
@@ -3,7 +3,19 @@
  * Implements Requirements 1.1, 2.1, 2.2, 6.2, 6.3, 6.5, 8.1, 8.2, 11.3, 12.4, 19.1
  */
 
-import { Signal, EntryDecision, ExitDecision, Position, ContextData, Config, GEXSignal } from '../core/types.ts';
+import {
+  Signal,
+  EntryDecision,
+  EntryContract,
+  ExitDecision,
+  ExitMarketData,
+  ExitReason,
+  ExitTracking,
+  Position,
+  ContextData,
+  Config,
+  GEXSignal,
+} from '../core/types.ts';
 import { ContextCache } from '../cache/context-cache.ts';
 import { GEXService } from '../services/gex-service.ts';
 import { PositionManager } from '../services/position-manager.ts';
@@ -11,6 +23,39 @@ import { RiskManager } from '../services/risk-manager.ts';
 import { PositionSizingService } from '../services/position-sizing-service.ts';
 import { ConfluenceCalculator } from '../services/confluence-calculator.ts';
 import { AuditLogger } from '../monitoring/audit-logger.ts';
+import { Clock, systemClock } from '../core/clock.ts';
+import { PortfolioRiskService, withSignalContract } from '../services/portfolio-risk-service.ts';
+import { LiquidityGate, type LiquidityMetrics } from '../services/liquidity-gate.ts';
+import { EventBlackoutService } from '../services/event-blackout.ts';
+import { ExpirationService } from '../services/expiration-service.ts';
+import { calculateStopLevel, calculateTrailingLevel, evaluateGreeksExit, nextTierExit } from '../services/exit-levels.ts';
+import { calculatePositionRisk, positionBias, positionPnLPercent, signalSide } from '../services/position-accounting.ts';
+import { marketCalendar } from '../../market-calendar.ts';
+
+/**
+ * Per-share price of the option the entry will trade: the mid of the quote
+ * the liquidity gate measured, else the option price the signal carries.
+ * Never the underlying's price. Null when neither is known.
+ */
+export function resolveOptionEntryPrice(signal: Signal, liquidity?: LiquidityMetrics): number | null {
+  if (liquidity && liquidity.bid > 0 && liquidity.ask >= liquidity.bid) {
+    return Math.round((liquidity.bid + liquidity.ask) / 2 * 100) / 100;
+  }
+
+  const metadata = signal.metadata ?? {};
+  const candidates = [
+    metadata.parsed_signal?.limit_price,
+    metadata.entry_price,
+    metadata.entry?.price,
+  ];
+  for (const candidate of candidates) {
+    const price = Number(candidate);
+    if (candidate !== null && candidate !== undefined && Number.isFinite(price) && price > 0) {
+      return price;
+    }
+  }
+  return null;
+}
 
 export class DecisionOrchestrator {
   constructor(
@@ -21,7 +66,12 @@ export class DecisionOrchestrator {
     private positionSizingService: PositionSizingService,
     private confluenceCalculator: ConfluenceCalculator,
     private config: Config,
-    private auditLogger?: AuditLogger
+    private auditLogger?: AuditLogger,
+    private clock: Clock = systemClock,
+    private portfolioRiskService?: PortfolioRiskService,
+    private liquidityGate?: LiquidityGate,
+    private blackoutService?: EventBlackoutService,
+    private expirationService: ExpirationService = new ExpirationService(config, clock)
   ) {}
 
   /**
@@ -30,14 +80,17 @@ export class DecisionOrchestrator {
    * 
    * Flow:
    * 1. Fetch context data (with timeout)
-   * 2. Fetch GEX signal (with graceful degradation)
-   * 3. Calculate base confidence
-   * 4. Apply context adjustments
-   * 5. Apply positioning adjustments
-   * 6. Apply GEX adjustments
-   * 7. Clamp confidence to [0, 100]
-   * 8. Calculate position size
-   * 9. Return decision with full reasoning
+   * 2. Check the target contract's liquidity (reroute or reject)
+   * 3. Check scheduled event blackouts (downsize or reject)
+   * 4. Fetch GEX signal (with graceful degradation)
+   * 5. Calculate base confidence
+   * 6. Apply context adjustments
+   * 7. Apply positioning adjustments
+   * 8. Apply GEX adjustments
+   * 9. Clamp confidence to [0, 100]
+   * 10. Calculate position size
+   * 11. Run portfolio risk checks (downsize or reject)
+   * 12. Return decision with full reasoning
    */
   async orchestrateEntryDecision(
     signal: Signal,
@@ -83,6 +136,44 @@ export class DecisionOrchestrator {
       }
       reasoning.push('Market filters passed');
 
+      // Step 2b: Market quality of the contract we would trade
+      let contract: EntryContract | undefined;
+      let liquidity: LiquidityMetrics | undefined;
+      if (this.liquidityGate) {
+        const liquidityCheck = await this.liquidityGate.checkEntry(signal);
+        reasoning.push(...liquidityCheck.reasoning);
+        liquidity = liquidityCheck.metrics ?? undefined;
+
+        if (!liquidityCheck.approved) {
+          const reason = liquidityCheck.failures.length > 0
+            ? `Illiquid contract: ${liquidityCheck.failures.join('; ')}`
+            : 'Illiquid contract';
+          return this.createRejectionDecision(signal, reason, reasoning, context, gexSignal);
+        }
+
+        if (liquidityCheck.rerouted) {
+          contract = {
+            underlying: liquidityCheck.contract.underlying,
+            strike: liquidityCheck.contract.strike!,
+            expiration: liquidityCheck.contract.expiration!,
+            optionType: liquidityCheck.contract.optionType,
+          };
+          signal = withSignalContract(signal, contract);
+        }
+      }
+
+      // Step 2c: Scheduled event blackouts (FOMC, CPI, NFP, earnings)
+      let blackoutMultiplier = 1;
+      if (this.blackoutService) {
+        const blackout = await this.blackoutService.check(signal.symbol, this.clock.now());
+        reasoning.push(...blackout.reasoning);
+
+        if (blackout.blocked) {
+          return this.createRejectionDecision(signal, 'Event blackout', reasoning, context, gexSignal);
+        }
+        blackoutMultiplier = blackout.sizeMultiplier;
+      }
+
       // Step 3: Fetch GEX signal with graceful degradation (Requirement 19.1)
       reasoning.push('Fetching GEX signal...');
       let gexAdjustment = 0;
@@ -170,6 +261,12 @@ export class DecisionOrchestrator {
         finalSize = adjustedSize;
       }
 
+      if (blackoutMultiplier < 1) {
+        const adjustedSize = Math.floor(finalSize * blackoutMultiplier);
+        reasoning.push(`Event blackout size multiplier ${blackoutMultiplier.toFixed(2)}: ${finalSize} → ${adjustedSize}`);
+        finalSize = adjustedSize;
+      }
+
       reasoning.push(`Position size: ${finalSize} contracts`);
 
       // Step 12: Check if size meets minimum threshold
@@ -178,16 +275,50 @@ export class DecisionOrchestrator {
         return this.createRejectionDecision(signal, 'Position size below minimum', reasoning, context, gexSignal);
       }
 
-      // Step 13: Check exposure limits
-      const positionValue = signal.metadata?.price || 100; // Use signal price or default
-      const additionalExposure = positionValue * finalSize * 100;
+      // Step 13: Check exposure limits: premium for longs, collateral for shorts
+      const optionPrice = resolveOptionEntryPrice(signal, liquidity);
+      if (optionPrice === null) {
+        reasoning.push('No option quote or signal option price - cannot size exposure');
+        return this.createRejectionDecision(signal, 'Option entry price unavailable', reasoning, context, gexSignal);
+      }
+      reasoning.push(`Option entry price: ${optionPrice.toFixed(2)}`);
+
+      const parsedStrike = signal.metadata?.parsed_signal?.strike;
+      const additionalExposure = calculatePositionRisk({
+        side: signalSide(signal),
+        optionType: signal.direction,
+        strike: typeof parsedStrike === 'number' ? parsedStrike : undefined,
+        premium: optionPrice,
+        quantity: finalSize,
+      }).collateral;
       
       if (this.positionManager.wouldExceedMaxExposure(additionalExposure)) {
         reasoning.push(`Would exceed maximum exposure - rejecting`);
         return this.createRejectionDecision(signal, 'Maximum exposure exceeded', reasoning, context, gexSignal);
       }
 
-      // Step 14: Return ENTER decision
+      // Step 14: Portfolio-level risk limits (positions, concentration, greeks)
+      if (this.portfolioRiskService) {
+        const riskCheck = await this.portfolioRiskService.checkEntry(signal, finalSize, optionPrice);
+        reasoning.push(...riskCheck.reasoning);
+
+        if (riskCheck.violations.length > 0) {
+          this.portfolioRiskService
+            .recordViolations(signal, riskCheck.violations, riskCheck.approved ? 'DOWNSIZED' : 'REJECTED')
+            .catch((error) => {
+              console.warn('[DecisionOrchestrator] Risk violation log failed:', error);
+            });
+        }
+
+        if (!riskCheck.approved) {
+          const rules = riskCheck.violations.map(v => v.rule_violated).join(', ');
+          return this.createRejectionDecision(signal, `Portfolio risk limit breached: ${rules}`, reasoning, context, gexSignal);
+        }
+
+        finalSize = riskCheck.allowedSize;
+      }
+
+      // Step 15: Return ENTER decision
       reasoning.push('All checks passed - ENTER decision');
 
       const entryDecision: EntryDecision = {
@@ -210,6 +341,8 @@ export class DecisionOrchestrator {
           indicatorSizeMultiplier: indicatorContext.sizeMultiplier,
           finalSize,
         },
+        contract,
+        liquidity,
       };
 
       if (this.auditLogger) {
@@ -274,14 +407,22 @@ export class DecisionOrchestrator {
    * 
    * Flow:
    * 1. Fetch current market price
-   * 2. Calculate current P&L
+   * 2. Calculate current P&L and update the high-water mark
    * 3. Check profit target (highest priority)
-   * 4. Check stop loss (second priority)
-   * 5. Check GEX flip (third priority)
-   * 6. Check time-based exit (lowest priority)
-   * 7. Return decision with highest priority exit reason
+   * 4. Check stop loss (ATR-scaled when volatility data is provided)
+   * 5. Check trailing stop
+   * 6. Flatten short-dated positions ahead of an event blackout, and
+   *    positions on their expiration day once the flatten time passes
+   * 7. Check GEX flip
+   * 8. Check delta, IV crush and theta burn (when greeks are provided)
+   * 9. Check time-based exit
+   * 10. Check tiered partial profit targets (lowest priority)
+   * 11. Return decision with highest priority exit reason
+   *
+   * Full exits outrank partials; every decision carries the exit tracking
+   * (high-water mark, trailing stop) to persist on the position.
    */
-  async orchestrateExitDecision(position: Position): Promise<ExitDecision> {
+  async orchestrateExitDecision(position: Position, market?: ExitMarketData): Promise<ExitDecision> {
     const reasoning: string[] = [];
     
     try {
@@ -304,53 +445,105 @@ export class DecisionOrchestrator {
         position,
         currentPrice
       );
-      const pnlPercent = ((currentPrice - position.entryPrice) / position.entryPrice) * 100;
+      const pnlPercent = positionPnLPercent(position, currentPrice);
       
       reasoning.push(`Unrealized P&L: $${unrealizedPnL.toFixed(2)} (${pnlPercent.toFixed(2)}%)`);
 
-      // Step 3: Check profit target (highest priority)
-      const profitTarget = this.config.exit?.profitTargetPercent || 50;
+      const stop = calculateStopLevel(position, this.config, market);
+      const trailing = calculateTrailingLevel(position, currentPrice, this.config);
+      const tracking: ExitTracking = {
+        highWaterMark: trailing.highWaterMark,
+        trailingStopPrice: trailing.stopPrice,
+      };
+      const greeks = evaluateGreeksExit(position, currentPrice, this.config, market);
+      const greeksValues = {
+        delta: greeks.delta,
+        ivChangePercent: greeks.ivChangePercent,
+        thetaBurnPercent: greeks.thetaBurnPercent,
+      };
+      const exit = (
+        exitReason: ExitReason,
+        flag:
+          | 'profitTarget'
+          | 'stopLoss'
+          | 'trailingStop'
+          | 'eventBlackout'
+          | 'expirationExit'
+          | 'gexFlip'
+          | 'greeksExit'
+          | 'timeExit'
+          | 'partialTarget',
+        message: string,
+        stopLossPercent: number,
+        quantity = position.quantity
+      ): ExitDecision => ({
+        decision: 'EXIT',
+        position,
+        exitReason,
+        quantity,
+        partial: quantity < position.quantity,
+        tracking,
+        reasoning: [...reasoning, `EXIT: ${message}`],
+        calculations: {
+          profitTarget: false,
+          stopLoss: false,
+          gexFlip: false,
+          timeExit: false,
+          [flag]: true,
+          stopLossPercent,
+          ...greeksValues,
+          currentPnL: unrealizedPnL,
+          currentPnLPercent: pnlPercent,
+        },
+      });
+
+      // Step 3: Check profit target (highest priority); shorts target a share of the credit
+      const profitTarget = position.side === 'SHORT'
+        ? this.config.exit?.short?.profitTargetPercent ?? 50
+        : this.config.exit?.profitTargetPercent || 50;
       if (pnlPercent >= profitTarget) {
         reasoning.push(`Profit target reached: ${pnlPercent.toFixed(2)}% >= ${profitTarget}%`);
-        return {
-          decision: 'EXIT',
-          position,
-          exitReason: 'PROFIT_TARGET',
-          reasoning: [...reasoning, 'EXIT: Profit target reached'],
-          calculations: {
-            profitTarget: true,
-            stopLoss: false,
-            gexFlip: false,
-            timeExit: false,
-            currentPnL: unrealizedPnL,
-            currentPnLPercent: pnlPercent,
-          },
-        };
+        return exit('PROFIT_TARGET', 'profitTarget', 'Profit target reached', stop.stopPercent);
       }
       reasoning.push(`Profit target not reached: ${pnlPercent.toFixed(2)}% < ${profitTarget}%`);
 
       // Step 4: Check stop loss (second priority)
-      const stopLoss = this.config.exit?.stopLossPercent || -30;
-      if (pnlPercent <= stopLoss) {
-        reasoning.push(`Stop loss triggered: ${pnlPercent.toFixed(2)}% <= ${stopLoss}%`);
-        return {
-          decision: 'EXIT',
-          position,
-          exitReason: 'STOP_LOSS',
-          reasoning: [...reasoning, 'EXIT: Stop loss triggered'],
-          calculations: {
-            profitTarget: false,
-            stopLoss: true,
-            gexFlip: false,
-            timeExit: false,
-            currentPnL: unrealizedPnL,
-            currentPnLPercent: pnlPercent,
-          },
-        };
+      reasoning.push(stop.reasoning);
+      if (pnlPercent <= stop.stopPercent) {
+        reasoning.push(`Stop loss triggered: ${pnlPercent.toFixed(2)}% <= ${stop.stopPercent.toFixed(2)}%`);
+        return exit('STOP_LOSS', 'stopLoss', 'Stop loss triggered', stop.stopPercent);
+      }
+      reasoning.push(`Stop loss not triggered: ${pnlPercent.toFixed(2)}% > ${stop.stopPercent.toFixed(2)}%`);
+
+      // Step 5: Check trailing stop
+      reasoning.push(trailing.reasoning);
+      if (trailing.stopPrice !== null && currentPrice <= trailing.stopPrice) {
+        reasoning.push(`Trailing stop hit: ${currentPrice.toFixed(2)} <= ${trailing.stopPrice.toFixed(2)}`);
+        return exit('TRAILING_STOP', 'trailingStop', 'Trailing stop hit', stop.stopPercent);
       }
-      reasoning.push(`Stop loss not triggered: ${pnlPercent.toFixed(2)}% > ${stopLoss}%`);
 
-      // Step 5: Check GEX flip (third priority)
+      // Step 6: Flatten short-dated positions before a blocking event
+      if (this.blackoutService) {
+        try {
+          const flatten = await this.blackoutService.checkFlatten(position, this.clock.now());
+          reasoning.push(flatten.reasoning);
+
+          if (flatten.flatten) {
+            return exit('EVENT_BLACKOUT', 'eventBlackout', 'Flattening ahead of event blackout', stop.stopPercent);
+          }
+        } catch (error) {
+          reasoning.push(`Event blackout check failed: ${(error as Error).message} - continuing`);
+        }
+      }
+
+      // Step 6b: Flatten on expiration day
+      const expirationFlatten = this.expirationService.checkFlatten(position, this.clock.now());
+      reasoning.push(expirationFlatten.reasoning);
+      if (expirationFlatten.flatten) {
+        return exit('EXPIRATION', 'expirationExit', 'Flattening on expiration day', stop.stopPercent);
+      }
+
+      // Step 7: Check GEX flip
       reasoning.push('Checking for GEX flip...');
       try {
         const flipResult = await this.gexService.detectFlip(
@@ -358,22 +551,9 @@ export class DecisionOrchestrator {
           '5m' // Use position's timeframe if available
         );
         
-        if (flipResult.hasFlipped && flipResult.currentDirection !== position.direction) {
+        if (flipResult.hasFlipped && flipResult.currentDirection !== positionBias(position)) {
           reasoning.push(`GEX flip detected: ${flipResult.previousDirection} → ${flipResult.currentDirection}`);
-          return {
-            decision: 'EXIT',
-            position,
-            exitReason: 'GEX_FLIP',
-            reasoning: [...reasoning, 'EXIT: GEX flip detected'],
-            calculations: {
-              profitTarget: false,
-              stopLoss: false,
-              gexFlip: true,
-              timeExit: false,
-              currentPnL: unrealizedPnL,
-              currentPnLPercent: pnlPercent,
-            },
-          };
+          return exit('GEX_FLIP', 'gexFlip', 'GEX flip detected', stop.stopPercent);
         }
         reasoning.push('No GEX flip detected');
       } catch (error) {
@@ -381,34 +561,41 @@ export class DecisionOrchestrator {
         reasoning.push(`GEX flip check failed: ${(error as Error).message} - continuing`);
       }
 
-      // Step 6: Check time-based exit (lowest priority)
-      const now = new Date();
-      const timezone = 'America/New_York';
-      const [closeHour, closeMinute] = this.parseTime(this.config.validation.marketHoursEnd);
-      const { hours, minutes } = this.getTimeInTimezone(now, timezone);
+      // Step 8: Greeks and IV exits
+      reasoning.push(...greeks.reasoning);
+      if (greeks.exitReason) {
+        return exit(greeks.exitReason, 'greeksExit', greeks.message ?? greeks.exitReason, stop.stopPercent);
+      }
+
+      // Step 9: Check time-based exit
+      const now = this.clock.now();
+      const cutoff = this.timeExitCutoff(position, now);
 
-      if (hours > closeHour || (hours === closeHour && minutes >= closeMinute)) {
+      if (cutoff && now >= cutoff) {
         reasoning.push('Market close approaching - time-based exit');
+        return exit('TIME_EXIT', 'timeExit', 'Market close approaching', stop.stopPercent);
+      }
+      reasoning.push('No time-based exit conditions met');
+
+      // Step 10: Tiered partial profit taking (lowest priority)
+      const tierExit = nextTierExit(position, pnlPercent, this.config);
+      if (tierExit) {
+        reasoning.push(
+          `Profit tier ${tierExit.tier} reached: ${pnlPercent.toFixed(2)}% >= ${tierExit.profitPercent}% - ` +
+          `closing ${tierExit.quantity} of ${position.quantity}`
+        );
         return {
-          decision: 'EXIT',
-          position,
-          exitReason: 'TIME_EXIT',
-          reasoning: [...reasoning, 'EXIT: Market close approaching'],
-          calculations: {
-            profitTarget: false,
-            stopLoss: false,
-            gexFlip: false,
-            timeExit: true,
-            currentPnL: unrealizedPnL,
-            currentPnLPercent: pnlPercent,
-          },
+          ...exit('PARTIAL_TARGET', 'partialTarget', `Profit tier ${tierExit.tier} reached`, stop.stopPercent, tierExit.quantity),
+          exitTier: tierExit.tier,
         };
       }
-      reasoning.push('No time-based exit conditions met');
 
-      // Step 7: No exit conditions met - HOLD
+      // Step 11: No exit conditions met - HOLD
       reasoning.push('No exit conditions met - HOLD');
-      return this.createHoldDecision(position, 'No exit conditions met', reasoning);
+      return {
+        ...this.createHoldDecision(position, 'No exit conditions met', reasoning),
+        tracking,
+      };
 
     } catch (error) {
       // Comprehensive error handling (Requirement 2.5)
@@ -427,7 +614,7 @@ export class DecisionOrchestrator {
   ): ExitDecision {
     const currentPrice = position.currentPrice || position.entryPrice;
     const unrealizedPnL = this.positionManager.calculateUnrealizedPnL(position, currentPrice);
-    const pnlPercent = ((currentPrice - position.entryPrice) / position.entryPrice) * 100;
+    const pnlPercent = positionPnLPercent(position, currentPrice);
 
     return {
       decision: 'HOLD',
@@ -453,32 +640,20 @@ export class DecisionOrchestrator {
     });
   }
 
-  private parseTime(time: string): [number, number] {
-    const [hourStr, minuteStr] = time.split(':');
-    const hour = Number(hourStr);
-    const minute = Number(minuteStr);
-    return [
-      Number.isNaN(hour) ? 0 : hour,
-      Number.isNaN(minute) ? 0 : minute,
-    ];
-  }
-
-  private getTimeInTimezone(date: Date, timeZone: string): { hours: number; minutes: number } {
-    const formatter = new Intl.DateTimeFormat('en-US', {
-      timeZone,
-      hour: '2-digit',
-      minute: '2-digit',
-      hour12: false,
-    });
-
-    const parts = formatter.formatToParts(date);
-    const hourPart = parts.find(part => part.type === 'hour')?.value ?? '0';
-    const minutePart = parts.find(part => part.type === 'minute')?.value ?? '0';
-
-    return {
-      hours: Number(hourPart),
-      minutes: Number(minutePart),
-    };
+  /**
+   * When the time-based exit fires today: marketHoursEnd on a regular day,
+   * shifted earlier on early closes and later for index options that trade
+   * past the equity close. Null on weekends and holidays.
+   */
+  private timeExitCutoff(position: Position, now: Date): Date | null {
+    const date = marketCalendar.sessionDate(now);
+    const sessionCutoff = marketCalendar.beforeClose(date, this.config.validation.marketHoursEnd);
+    const session = marketCalendar.getSession(date);
+    const optionsClose = marketCalendar.optionsCloseTime(position.underlying ?? position.symbol, date, position.expiration);
+    if (!sessionCutoff || !session || !optionsClose) {
+      return null;
+    }
+    return new Date(sessionCutoff.getTime() + optionsClose.getTime() - session.close.getTime());
   }
 
   private evaluateIndicatorContext(signal: Signal): {
@@ -495,7 +670,7 @@ export class DecisionOrchestrator {
     const direction = signal.direction === 'CALL' ? 'BULLISH' : 'BEARISH';
 
     // Freshness rules
-    const ageSeconds = (Date.now() - signal.timestamp.getTime()) / 1000;
+    const ageSeconds = (this.clock.nowMs() - signal.timestamp.getTime()) / 1000;
     if (indicatorSource && indicatorSource !== 'mtf-trend-dots' && ageSeconds > 60) {
       return {
         confidenceDelta,
@@ -0,0 +1,170 @@
+/**
+ * Tests for the pipeline dead-letter store and signal replay
+ */
+
+import { describe, it, expect } from 'vitest';
+import { PostgresPipelineFailureStore } from './failure-store.ts';
+import { SignalPipeline } from './signal-pipeline.ts';
+import { SignalNormalizer } from './signal-normalizer.ts';
+import { SignalValidator } from '../validation/signal-validator.ts';
+import { DeduplicationCache } from '../cache/deduplication-cache.ts';
+import { InMemoryStateStore } from '../cache/state-store.ts';
+import { SimulatedClock } from '../core/clock.ts';
+import { defaultConfig } from '../core/config.ts';
+import type { Config } from '../core/types.ts';
+import { fakeClient, type Row } from '../../test-utils/fake-db.ts';
+
+// 9:35 ET (EST)
+const SIGNAL_TIME = '2026-03-04T14:35:00.000Z';
+
+function rawSignal(overrides: Row = {}): Row {
+  return {
+    source: 'TRADINGVIEW',
+    symbol: 'SPY',
+    direction: 'CALL',
+    timeframe: '5m',
+    timestamp: SIGNAL_TIME,
+    price: 2.5,
+    ...overrides,
+  };
+}
+
+function setup(config: Config = defaultConfig) {
+  const client = fakeClient({ refactored_pipeline_failures: [] });
+  const clock = new SimulatedClock(new Date('2026-03-04T14:35:10.000Z'));
+  const stateStore = new InMemoryStateStore(clock);
+  const store = new PostgresPipelineFailureStore(client as never, clock);
+
+  let contextAvailable = false;
+  const orchestrator = {
+    orchestrateEntryDecision: async () => {
+      if (!contextAvailable) {
+        throw new Error('Context unavailable');
+      }
+      return { decision: 'ENTER', confidence: 70, positionSize: 1, reasoning: ['ok'] };
+    },
+  };
+  const positionManager = {
+    openPosition: async () => ({ success: true, position: { id: 'pos-1' } }),
+  };
+
+  const pipeline = new SignalPipeline(
+    new SignalNormalizer(clock),
+    new SignalValidator(config, clock, stateStore),
+    new DeduplicationCache(config, clock, stateStore),
+    orchestrator as never,
+    positionManager as never,
+    config,
+    undefined,
+    clock,
+    undefined,
+    store
+  );
+
+  return {
+    client,
+    clock,
+    store,
+    pipeline,
+    restoreContext: () => { contextAvailable = true; },
+  };
+}
+
+describe('PostgresPipelineFailureStore', () => {
+  it('dead-letters failures with the raw payload, including normalization failures', async () => {
+    const { client, store, pipeline } = setup();
+
+    const failed = await pipeline.processSignal(rawSignal(), {
+      correlationId: 'corr-1',
+      originalSignalId: 'signal-row-1',
+    });
+    const malformed = await pipeline.processSignal({ source: 'TRADINGVIEW', symbol: 'SPY' });
+
+    expect(failed.stage).toBe('DECISION');
+    expect(malformed.stage).toBe('NORMALIZATION');
+    expect(client.tables.refactored_pipeline_failures).toHaveLength(2);
+
+    const entries = await store.list();
+    const decision = entries.find(entry => entry.stage === 'DECISION');
+    expect(decision).toMatchObject({
+      trackingId: failed.trackingId,
+      reason: 'Error: Context unavailable',
+      rawPayload: rawSignal(),
+      correlationId: 'corr-1',
+      originalSignalId: 'signal-row-1',
+      status: 'PENDING',
+      replayCount: 0,
+    });
+
+    const normalization = entries.find(entry => entry.stage === 'NORMALIZATION');
+    expect(normalization?.signalData).toBeNull();
+    expect(normalization?.rawPayload).toEqual({ source: 'TRADINGVIEW', symbol: 'SPY' });
+    expect(normalization?.trackingId).toBe(malformed.trackingId);
+    expect(malformed.trackingId).not.toBe('unknown');
+
+    expect(await store.countByStage()).toMatchObject({ DECISION: 1, NORMALIZATION: 1, VALIDATION: 0 });
+    expect(await store.list({ stage: 'NORMALIZATION' })).toHaveLength(1);
+  });
+});
+
+describe('replaying dead-lettered signals', () => {
+  it('updates the original entry, honours the age bypass and ignores the cooldown', async () => {
+    const { client, clock, store, pipeline, restoreContext } = setup();
+
+    await pipeline.processSignal(rawSignal());
+    const [entry] = await store.list();
+    restoreContext();
+
+    // 25 minutes later the signal is too old without the bypass
+    clock.setTime(new Date('2026-03-04T15:00:00.000Z'));
+    const tooOld = await pipeline.processSignal(entry.rawPayload, {
+      replay: { failureId: entry.id, stage: entry.stage },
+    });
+    expect(tooOld.failureReason).toBe('Signal too old');
+    expect(await store.get(entry.id)).toMatchObject({
+      status: 'REPLAY_FAILED',
+      replayCount: 1,
+      lastReplayStage: 'VALIDATION',
+      lastReplayReason: 'Signal too old',
+    });
+
+    // A fresh SPY call holds the cooldown; replays are not held back by it
+    const fresh = await pipeline.processSignal(rawSignal({ timestamp: '2026-03-04T14:59:30.000Z' }));
+    expect(fresh.success).toBe(true);
+
+    const replayed = await pipeline.processSignal(entry.rawPayload, {
+      replay: { failureId: entry.id, stage: entry.stage, bypassAgeCheck: true },
+    });
+    expect(replayed.success).toBe(true);
+    expect(await store.get(entry.id)).toMatchObject({
+      status: 'REPLAYED',
+      replayCount: 2,
+      lastReplayTrackingId: replayed.trackingId,
+      lastReplayReason: null,
+    });
+
+    // Replays never add rows of their own
+    expect(client.tables.refactored_pipeline_failures).toHaveLength(1);
+  });
+
+  it('still rejects replays of genuine duplicates', async () => {
+    // Without a cooldown the identical retry reaches deduplication
+    const { store, pipeline, restoreContext } = setup({
+      ...defaultConfig,
+      validation: { ...defaultConfig.validation, cooldownSeconds: 0 },
+    });
+    restoreContext();
+
+    expect((await pipeline.processSignal(rawSignal())).success).toBe(true);
+    await pipeline.processSignal(rawSignal());
+    const [entry] = await store.list();
+    expect(entry.stage).toBe('DEDUPLICATION');
+
+    const replayed = await pipeline.processSignal(entry.rawPayload, {
+      replay: { failureId: entry.id, stage: entry.stage },
+    });
+
+    expect(replayed.failureReason).toBe('Duplicate signal detected');
+    expect((await store.get(entry.id))?.status).toBe('REPLAY_FAILED');
+  });
+});
@@ -0,0 +1,211 @@
+/**
+ * Dead-letter store for pipeline failures
+ *
+ * Every signal the pipeline rejects or fails on is written to
+ * refactored_pipeline_failures together with the raw payload it received,
+ * so failures survive the request and can be inspected or replayed later.
+ * Replays update the original entry instead of adding a new one.
+ */
+
+import type { createDbClient } from '../../db-client.ts';
+import { Clock, systemClock } from '../core/clock.ts';
+import { PIPELINE_STAGES, type PipelineFailure, type PipelineResult, type PipelineStage } from './signal-pipeline.ts';
+
+export type FailureStatus = 'PENDING' | 'REPLAYED' | 'REPLAY_FAILED';
+
+export interface DeadLetterEntry {
+  id: string;
+  trackingId: string;
+  signalId: string | null;
+  stage: PipelineStage;
+  reason: string;
+  rawPayload: unknown;
+  signalData: unknown;
+  correlationId: string | null;
+  originalSignalId: string | null;
+  status: FailureStatus;
+  replayCount: number;
+  lastReplayedAt: Date | null;
+  lastReplayTrackingId: string | null;
+  lastReplayStage: PipelineStage | null;
+  lastReplayReason: string | null;
+  timestamp: Date;
+}
+
+export interface DeadLetterFilter {
+  status?: FailureStatus;
+  stage?: PipelineStage;
+  since?: Date;
+  limit?: number;
+}
+
+export interface PipelineFailureStore {
+  /** Persist a new failure; returns the dead-letter entry ID */
+  record(failure: PipelineFailure): Promise<string>;
+  get(id: string): Promise<DeadLetterEntry | null>;
+  /** Newest first */
+  list(filter?: DeadLetterFilter): Promise<DeadLetterEntry[]>;
+  countByStage(filter?: Omit<DeadLetterFilter, 'stage' | 'limit'>): Promise<Record<PipelineStage, number>>;
+  /** Record the outcome of replaying an entry */
+  recordReplay(id: string, result: PipelineResult): Promise<void>;
+}
+
+export function emptyStageCounts(): Record<PipelineStage, number> {
+  return Object.fromEntries(PIPELINE_STAGES.map(stage => [stage, 0])) as Record<PipelineStage, number>;
+}
+
+interface FailureRow {
+  id: string;
+  tracking_id: string;
+  signal_id: string | null;
+  stage: PipelineStage;
+  reason: string;
+  raw_payload: unknown;
+  signal_data: unknown;
+  correlation_id: string | null;
+  original_signal_id: string | null;
+  status: FailureStatus | null;
+  replay_count: number | string | null;
+  last_replayed_at: string | null;
+  last_replay_tracking_id: string | null;
+  last_replay_stage: PipelineStage | null;
+  last_replay_reason: string | null;
+  timestamp: string;
+}
+
+function fromRow(row: FailureRow): DeadLetterEntry {
+  return {
+    id: row.id,
+    trackingId: row.tracking_id,
+    signalId: row.signal_id ?? null,
+    stage: row.stage,
+    reason: row.reason,
+    rawPayload: row.raw_payload ?? null,
+    signalData: row.signal_data ?? null,
+    correlationId: row.correlation_id ?? null,
+    originalSignalId: row.original_signal_id ?? null,
+    status: row.status ?? 'PENDING',
+    replayCount: Number(row.replay_count ?? 0),
+    lastReplayedAt: row.last_replayed_at ? new Date(row.last_replayed_at) : null,
+    lastReplayTrackingId: row.last_replay_tracking_id ?? null,
+    lastReplayStage: row.last_replay_stage ?? null,
+    lastReplayReason: row.last_replay_reason ?? null,
+    timestamp: new Date(row.timestamp),
+  };
+}
+
+/**
+ * Store backed by the refactored_pipeline_failures table
+ */
+export class PostgresPipelineFailureStore implements PipelineFailureStore {
+  constructor(
+    private supabaseClient: ReturnType<typeof createDbClient>,
+    private clock: Clock = systemClock
+  ) {}
+
+  async record(failure: PipelineFailure): Promise<string> {
+    const id = crypto.randomUUID();
+    const { error } = await this.supabaseClient
+      .from('refactored_pipeline_failures')
+      .insert({
+        id,
+        tracking_id: failure.trackingId,
+        signal_id: failure.signal?.id ?? null,
+        stage: failure.stage,
+        reason: failure.reason,
+        signal_data: failure.signal ?? null,
+        raw_payload: failure.rawPayload ?? null,
+        correlation_id: failure.correlationId ?? null,
+        original_signal_id: failure.originalSignalId ?? null,
+        status: 'PENDING',
+        replay_count: 0,
+        timestamp: failure.timestamp.toISOString(),
+      });
+
+    if (error) {
+      throw new Error(`Failed to record pipeline failure: ${error.message}`);
+    }
+
+    return id;
+  }
+
+  async get(id: string): Promise<DeadLetterEntry | null> {
+    const { data, error } = await this.supabaseClient
+      .from('refactored_pipeline_failures')
+      .select('*')
+      .eq('id', id)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to load pipeline failure: ${error.message}`);
+    }
+
+    return data ? fromRow(data) : null;
+  }
+
+  async list(filter: DeadLetterFilter = {}): Promise<DeadLetterEntry[]> {
+    let query = this.supabaseClient
+      .from('refactored_pipeline_failures')
+      .select('*');
+
+    if (filter.status) query = query.eq('status', filter.status);
+    if (filter.stage) query = query.eq('stage', filter.stage);
+    if (filter.since) query = query.gte('timestamp', filter.since.toISOString());
+
+    const { data, error } = await query
+      .order('timestamp', { ascending: false })
+      .limit(filter.limit ?? 50);
+
+    if (error) {
+      throw new Error(`Failed to list pipeline failures: ${error.message}`);
+    }
+
+    return (data || []).map(fromRow);
+  }
+
+  async countByStage(filter: Omit<DeadLetterFilter, 'stage' | 'limit'> = {}): Promise<Record<PipelineStage, number>> {
+    let query = this.supabaseClient
+      .from('refactored_pipeline_failures')
+      .select('stage');
+
+    if (filter.status) query = query.eq('status', filter.status);
+    if (filter.since) query = query.gte('timestamp', filter.since.toISOString());
+
+    const { data, error } = await query;
+
+    if (error) {
+      throw new Error(`Failed to count pipeline failures: ${error.message}`);
+    }
+
+    const counts = emptyStageCounts();
+    for (const row of (data || []) as Array<{ stage: PipelineStage }>) {
+      if (row.stage in counts) {
+        counts[row.stage]++;
+      }
+    }
+    return counts;
+  }
+
+  async recordReplay(id: string, result: PipelineResult): Promise<void> {
+    const entry = await this.get(id);
+    if (!entry) {
+      throw new Error(`Pipeline failure ${id} not found`);
+    }
+
+    const { error } = await this.supabaseClient
+      .from('refactored_pipeline_failures')
+      .update({
+        status: result.success ? 'REPLAYED' : 'REPLAY_FAILED',
+        replay_count: entry.replayCount + 1,
+        last_replayed_at: this.clock.now().toISOString(),
+        last_replay_tracking_id: result.trackingId || null,
+        last_replay_stage: result.stage,
+        last_replay_reason: result.success ? null : result.failureReason ?? null,
+      })
+      .eq('id', id);
+
+    if (error) {
+      throw new Error(`Failed to record replay: ${error.message}`);
+    }
+  }
+}
@@ -2,7 +2,9 @@
  * Signal Processing Pipeline exports
  */
 
-export { SignalPipeline } from './signal-pipeline.ts';
+export { SignalPipeline, resolveSignalPrice, PIPELINE_STAGES } from './signal-pipeline.ts';
 export { SignalNormalizer } from './signal-normalizer.ts';
-export type { PipelineResult, PipelineFailure, PipelineStage } from './signal-pipeline.ts';
+export { PostgresPipelineFailureStore, emptyStageCounts } from './failure-store.ts';
+export type { PipelineResult, PipelineFailure, PipelineStage, ProcessSignalOptions } from './signal-pipeline.ts';
+export type { PipelineFailureStore, DeadLetterEntry, DeadLetterFilter, FailureStatus } from './failure-store.ts';
 export type { RawSignal } from './signal-normalizer.ts';
@@ -7,6 +7,7 @@
  */
 
 import { Signal, SignalSource, Direction } from '../core/types.ts';
+import { Clock, systemClock } from '../core/clock.ts';
 import { v4 as uuidv4 } from 'https://deno.land/std@0.208.0/uuid/mod.ts';
 
 export interface RawSignal {
@@ -22,6 +23,8 @@ export interface RawSignal {
  * SignalNormalizer converts different signal formats to unified Signal interface
  */
 export class SignalNormalizer {
+  constructor(private clock: Clock = systemClock) {}
+
   /**
    * Normalize a raw signal to the unified Signal format
    * 
@@ -51,7 +54,7 @@ export class SignalNormalizer {
     const symbol = this.normalizeSymbol(rawSymbol as string);
     const direction = this.normalizeDirection(rawDirection as string);
     const timeframe = this.normalizeTimeframe(rawTimeframe as string);
-    const timestamp = this.normalizeTimestamp(rawTimestamp ?? new Date());
+    const timestamp = this.normalizeTimestamp(rawTimestamp ?? this.clock.now());
     
     // Extract metadata (all other fields)
     const metadata = this.extractMetadata(rawSignal);
@@ -205,7 +208,7 @@ export class SignalNormalizer {
     if (isNaN(parsed.getTime())) {
       // If parsing fails, use current time
       console.warn(`Invalid timestamp: ${timestamp}, using current time`);
-      return new Date();
+      return this.clock.now();
     }
     
     return parsed;
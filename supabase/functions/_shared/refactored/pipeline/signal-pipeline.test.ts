@@ -10,6 +10,7 @@ import { SignalNormalizer } from './signal-normalizer.ts';
 import { SignalValidator } from '../validation/signal-validator.ts';
 import { DeduplicationCache } from '../cache/deduplication-cache.ts';
 import { DecisionOrchestrator } from '../orchestrator/decision-orchestrator.ts';
+import type { LossCircuitBreaker } from '../services/circuit-breaker.ts';
 import { Signal } from '../core/types.ts';
 import { defaultConfig } from '../core/config.ts';
 
@@ -543,6 +544,47 @@ describe('Signal Pipeline Unit Tests', () => {
     expect(result.stage).toBe('DECISION');
   });
 
+  it('should reject entries while the loss circuit breaker is halted', async () => {
+    const mockCircuitBreaker: Pick<LossCircuitBreaker, 'evaluate'> = {
+      evaluate: vi.fn().mockResolvedValue({
+        mode: 'PAPER',
+        status: 'HALTED',
+        trigger: 'DAILY_LOSS',
+        reason: 'Daily loss limit breached: P&L -650.00 <= -500',
+        dailyPnl: -650,
+        weeklyPnl: -650,
+        haltedAt: new Date('2026-03-04T15:00:00.000Z'),
+        resumedAt: null,
+        resumedBy: null,
+      }),
+    };
+    const haltedPipeline = new SignalPipeline(
+      normalizer,
+      mockValidator,
+      mockDeduplicationCache,
+      mockOrchestrator,
+      mockPositionManager,
+      defaultConfig,
+      undefined,
+      undefined,
+      mockCircuitBreaker
+    );
+
+    const result = await haltedPipeline.processSignal({
+      source: 'TRADINGVIEW',
+      symbol: 'SPY',
+      direction: 'CALL',
+      timeframe: '5m',
+      price: 450,
+    });
+
+    expect(result.success).toBe(false);
+    expect(result.stage).toBe('DECISION');
+    expect(result.failureReason).toBe('Trading halted: Daily loss limit breached: P&L -650.00 <= -500');
+    expect(mockOrchestrator.orchestrateEntryDecision).not.toHaveBeenCalled();
+    expect(mockPositionManager.openPosition).not.toHaveBeenCalled();
+  });
+
   it('should record failures with tracking ID', async () => {
     mockValidator.validate.mockResolvedValueOnce({
       valid: false,
@@ -14,6 +14,10 @@ import { DeduplicationCache } from '../cache/deduplication-cache.ts';
 import { DecisionOrchestrator } from '../orchestrator/decision-orchestrator.ts';
 import { PositionManager } from '../services/position-manager.ts';
 import { AuditLogger } from '../monitoring/audit-logger.ts';
+import { Clock, systemClock } from '../core/clock.ts';
+import type { LossCircuitBreaker } from '../services/circuit-breaker.ts';
+import { withSignalContract } from '../services/portfolio-risk-service.ts';
+import type { PipelineFailureStore } from './failure-store.ts';
 
 export type PipelineStage = 'RECEPTION' | 'NORMALIZATION' | 'VALIDATION' | 'DEDUPLICATION' | 'DECISION' | 'EXECUTION';
 
@@ -29,10 +33,75 @@ export interface PipelineResult {
 
 export interface PipelineFailure {
   trackingId: string;
-  signal: Signal;
+  /** Null when the payload could not be normalized */
+  signal: Signal | null;
   stage: PipelineStage;
   reason: string;
   timestamp: Date;
+  rawPayload?: unknown;
+  correlationId?: string;
+  originalSignalId?: string;
+}
+
+export interface ProcessSignalOptions {
+  /** Stored with any failure so it can be traced back to the webhook call */
+  correlationId?: string;
+  originalSignalId?: string;
+  /** Set when re-running a dead-lettered signal */
+  replay?: {
+    failureId: string;
+    /** Stage the original attempt failed at */
+    stage: PipelineStage;
+    /** Skip the signal age check (replays usually arrive late) */
+    bypassAgeCheck?: boolean;
+  };
+}
+
+export const PIPELINE_STAGES: PipelineStage[] = [
+  'RECEPTION',
+  'NORMALIZATION',
+  'VALIDATION',
+  'DEDUPLICATION',
+  'DECISION',
+  'EXECUTION',
+];
+
+/**
+ * True when the original attempt got past the given stage
+ */
+function passedStage(failedAt: PipelineStage, stage: PipelineStage): boolean {
+  return PIPELINE_STAGES.indexOf(failedAt) > PIPELINE_STAGES.indexOf(stage);
+}
+
+/**
+ * Resolve entry price from signal metadata
+ */
+export function resolveSignalPrice(signal: Signal): number | null {
+  const candidates = [
+    signal.metadata?.price,
+    signal.metadata?.entryPrice,
+    signal.metadata?.entry_price,
+    signal.metadata?.limit_price,
+    signal.metadata?.limitPrice,
+    signal.metadata?.last,
+    signal.metadata?.close,
+    signal.metadata?.current_price,
+    signal.metadata?.underlying_price,
+  ];
+
+  for (const candidate of candidates) {
+    if (typeof candidate === 'number' && candidate > 0) {
+      return candidate;
+    }
+    if (typeof candidate === 'string') {
+      const parsed = Number(candidate);
+      if (!Number.isNaN(parsed) && parsed > 0) {
+        return parsed;
+      }
+    }
+  }
+
+  return null;
 }
 
 /**
@@ -48,7 +117,10 @@ export class SignalPipeline {
     private orchestrator: DecisionOrchestrator,
     private positionManager: PositionManager,
     private config: Config,
-    private auditLogger?: AuditLogger
+    private auditLogger?: AuditLogger,
+    private clock: Clock = systemClock,
+    private circuitBreaker?: Pick<LossCircuitBreaker, 'evaluate'>,
+    private failureStore?: PipelineFailureStore
   ) {}
 
   /**
@@ -62,13 +134,19 @@ export class SignalPipeline {
    * 5. Decision - Make entry decision
    * 6. Execution - Execute trade (if ENTER decision)
    * 
+   * A replay skips the cooldown (the original attempt claimed it before
+   * failing) and skips deduplication when the original attempt passed it.
+   * 
    * Requirements: 10.1, 10.2, 10.3, 10.4
    */
-  async processSignal(rawSignal: any): Promise<PipelineResult> {
-    const startTime = new Date();
+  async processSignal(rawSignal: any, options: ProcessSignalOptions = {}): Promise<PipelineResult> {
+    const startTime = this.clock.now();
     let currentStage: PipelineStage = 'RECEPTION';
     let signal: Signal | null = null;
     let trackingId = '';
+    const replay = options.replay;
+    const fail = (stage: PipelineStage, reason: string) =>
+      this.recordFailure(signal, trackingId || 'unknown', stage, reason, rawSignal, options);
 
     try {
       // Stage 1: Reception
@@ -79,7 +157,7 @@ export class SignalPipeline {
       currentStage = 'NORMALIZATION';
       signal = await this.normalizer.normalize(rawSignal);
       trackingId = signal.id;
-      this.logStageTransition(trackingId, currentStage, new Date());
+      this.logStageTransition(trackingId, currentStage, this.clock.now());
 
       // Audit log signal reception (Requirement 20.1)
       if (this.auditLogger) {
@@ -90,61 +168,60 @@ export class SignalPipeline {
       
       // Stage 3: Validation
       currentStage = 'VALIDATION';
-      this.logStageTransition(trackingId, currentStage, new Date());
-      const validationResult = await this.validator.validate(signal);
+      this.logStageTransition(trackingId, currentStage, this.clock.now());
+      const validationResult = await this.validator.validate(signal, {
+        skipCooldown: replay !== undefined,
+        bypassAgeCheck: replay?.bypassAgeCheck ?? false,
+      });
       
       if (!validationResult.valid) {
-        return this.recordFailure(
-          signal,
-          trackingId,
-          currentStage,
-          validationResult.rejectionReason || 'Validation failed'
-        );
+        return fail(currentStage, validationResult.rejectionReason || 'Validation failed');
       }
       
       // Stage 4: Deduplication
       currentStage = 'DEDUPLICATION';
-      this.logStageTransition(trackingId, currentStage, new Date());
-      const isDuplicate = this.deduplicationCache.isDuplicate(signal);
+      this.logStageTransition(trackingId, currentStage, this.clock.now());
+      const isDuplicate = replay && passedStage(replay.stage, 'DEDUPLICATION')
+        ? false
+        : await this.deduplicationCache.isDuplicate(signal);
       
       if (isDuplicate) {
-        return this.recordFailure(
-          signal,
-          trackingId,
-          currentStage,
-          'Duplicate signal detected'
-        );
+        return fail(currentStage, 'Duplicate signal detected');
       }
       
       // Stage 5: Decision
       currentStage = 'DECISION';
-      this.logStageTransition(trackingId, currentStage, new Date());
+      this.logStageTransition(trackingId, currentStage, this.clock.now());
+
+      // Loss circuit breaker halts new entries (exits run outside the pipeline)
+      if (this.circuitBreaker) {
+        const breaker = await this.circuitBreaker.evaluate();
+        if (breaker.status === 'HALTED') {
+          return fail(currentStage, `Trading halted: ${breaker.reason ?? 'loss circuit breaker tripped'}`);
+        }
+      }
+
       const decision = await this.orchestrator.orchestrateEntryDecision(signal);
       
       if (decision.decision === 'REJECT') {
-        return this.recordFailure(
-          signal,
-          trackingId,
-          currentStage,
-          decision.reasoning.join('; ')
-        );
+        return fail(currentStage, decision.reasoning.join('; '));
       }
       
       // Stage 6: Execution
       currentStage = 'EXECUTION';
-      this.logStageTransition(trackingId, currentStage, new Date());
+      this.logStageTransition(trackingId, currentStage, this.clock.now());
+
+      // Pre-entry checks may have moved the entry to another contract
+      if (decision.contract) {
+        signal = withSignalContract(signal, decision.contract);
+      }
 
       // Execute position if decision is ENTER
       if (decision.decision === 'ENTER') {
-        const entryPrice = this.resolveEntryPrice(signal);
+        const entryPrice = resolveSignalPrice(signal);
 
         if (entryPrice === null) {
-          return this.recordFailure(
-            signal,
-            trackingId,
-            currentStage,
-            'Missing entry price in signal metadata'
-          );
+          return fail(currentStage, 'Missing entry price in signal metadata');
         }
 
         const openResult = await this.positionManager.openPosition(
@@ -154,12 +231,7 @@ export class SignalPipeline {
         );
 
         if (!openResult.success || !openResult.position) {
-          return this.recordFailure(
-            signal,
-            trackingId,
-            currentStage,
-            openResult.error || 'Failed to open position'
-          );
+          return fail(currentStage, openResult.error || 'Failed to open position');
         }
 
         if (this.auditLogger) {
@@ -176,38 +248,33 @@ export class SignalPipeline {
         });
       }
       
-      return {
+      const result: PipelineResult = {
         success: true,
         signal,
         trackingId,
         stage: currentStage,
         decision,
-        timestamp: new Date(),
+        timestamp: this.clock.now(),
       };
+
+      if (replay) {
+        await this.persistReplay(replay.failureId, result);
+      }
+
+      return result;
       
     } catch (error) {
       // Pipeline error isolation (Requirement 19.4)
       const errorMessage = error instanceof Error ? error.message : 'Unknown error';
       console.error(`[Pipeline] Error at stage ${currentStage}:`, errorMessage);
-      
-      if (signal) {
-        return this.recordFailure(
-          signal,
-          trackingId || 'unknown',
-          currentStage,
-          `Error: ${errorMessage}`
-        );
+
+      // Without a signal there is no tracking ID yet; mint one so the
+      // dead-letter entry can still be looked up
+      if (!signal && !trackingId) {
+        trackingId = crypto.randomUUID();
       }
-      
-      // If we don't have a signal yet, create a minimal failure record
-      return {
-        success: false,
-        signal: signal as any,
-        trackingId: trackingId || 'unknown',
-        stage: currentStage,
-        failureReason: `Error: ${errorMessage}`,
-        timestamp: new Date(),
-      };
+
+      return fail(currentStage, `Error: ${errorMessage}`);
     }
   }
 
@@ -220,66 +287,68 @@ export class SignalPipeline {
   }
 
   /**
-   * Record failure with tracking ID and reason
+   * Record failure with tracking ID and reason, and dead-letter it when a
+   * failure store is configured. Replays update their original entry.
    * Requirement: 10.4
    */
-  private recordFailure(
-    signal: Signal,
+  private async recordFailure(
+    signal: Signal | null,
     trackingId: string,
     stage: PipelineStage,
-    reason: string
-  ): PipelineResult {
+    reason: string,
+    rawPayload: unknown,
+    options: ProcessSignalOptions
+  ): Promise<PipelineResult> {
     const failure: PipelineFailure = {
       trackingId,
       signal,
       stage,
       reason,
-      timestamp: new Date(),
+      timestamp: this.clock.now(),
+      rawPayload,
+      correlationId: options.correlationId,
+      originalSignalId: options.originalSignalId,
     };
     
     this.failures.set(trackingId, failure);
     
     console.log(`[Pipeline] Signal ${trackingId} failed at ${stage}: ${reason}`);
     
-    return {
+    const result: PipelineResult = {
       success: false,
-      signal,
+      signal: signal as Signal,
       trackingId,
       stage,
       failureReason: reason,
       timestamp: failure.timestamp,
     };
+
+    if (options.replay) {
+      await this.persistReplay(options.replay.failureId, result);
+    } else if (this.failureStore) {
+      try {
+        await this.failureStore.record(failure);
+      } catch (error) {
+        console.error(`[Pipeline] Failed to dead-letter signal ${trackingId}:`, error instanceof Error ? error.message : error);
+      }
+    }
+
+    return result;
   }
 
   /**
-   * Resolve entry price from signal metadata
+   * Store the outcome of a replay on its dead-letter entry
    */
-  private resolveEntryPrice(signal: Signal): number | null {
-    const candidates = [
-      signal.metadata?.price,
-      signal.metadata?.entryPrice,
-      signal.metadata?.entry_price,
-      signal.metadata?.limit_price,
-      signal.metadata?.limitPrice,
-      signal.metadata?.last,
-      signal.metadata?.close,
-      signal.metadata?.current_price,
-      signal.metadata?.underlying_price,
-    ];
-
-    for (const candidate of candidates) {
-      if (typeof candidate === 'number' && candidate > 0) {
-        return candidate;
-      }
-      if (typeof candidate === 'string') {
-        const parsed = Number(candidate);
-        if (!Number.isNaN(parsed) && parsed > 0) {
-          return parsed;
-        }
-      }
+  private async persistReplay(failureId: string, result: PipelineResult): Promise<void> {
+    if (!this.failureStore) {
+      return;
     }
 
-    return null;
+    try {
+      await this.failureStore.recordReplay(failureId, result);
+    } catch (error) {
+      console.error(`[Pipeline] Failed to record replay of ${failureId}:`, error instanceof Error ? error.message : error);
+    }
   }
 
   /**
@@ -300,7 +369,7 @@ export class SignalPipeline {
    * Clear old failures (older than specified minutes)
    */
   clearOldFailures(olderThanMinutes: number): void {
-    const cutoffTime = new Date(Date.now() - olderThanMinutes * 60 * 1000);
+    const cutoffTime = new Date(this.clock.nowMs() - olderThanMinutes * 60 * 1000);
     
     for (const [trackingId, failure] of this.failures.entries()) {
       if (failure.timestamp < cutoffTime) {
@@ -360,7 +429,7 @@ export class SignalPipeline {
           trackingId: 'batch-error',
           stage: 'RECEPTION',
           failureReason: `Batch processing error: ${errorMessage}`,
-          timestamp: new Date(),
+          timestamp: this.clock.now(),
         });
       }
     }
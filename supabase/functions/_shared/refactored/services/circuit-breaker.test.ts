@@ -0,0 +1,269 @@
+/**
+ * Tests for the daily / weekly loss circuit breaker
+ */
+
+import { describe, it, expect } from 'vitest';
+import { LossCircuitBreaker, startOfSessionDay, startOfSessionWeek } from './circuit-breaker.ts';
+import { SimulatedClock } from '../core/clock.ts';
+import { fakeClient, NOW, type FakeClient, type Row } from '../../test-utils/fake-db.ts';
+
+let positionCount = 0;
+
+// A PAPER position with every column the breaker reads
+function position(overrides: Row = {}): Row {
+  return {
+    id: `position-${++positionCount}`,
+    mode: 'PAPER',
+    status: 'OPEN',
+    side: 'LONG',
+    entry_price: 2,
+    current_price: 2,
+    quantity: 1,
+    unrealized_pnl: 0,
+    realized_pnl: 0,
+    entry_time: '2026-02-20T15:00:00.000Z',
+    exit_time: null,
+    ...overrides,
+  };
+}
+
+// A position closed by a single exit at `exitTime`
+function closedPosition(realizedPnl: number, exitTime: string, overrides: Row = {}): Row {
+  return position({
+    id: `closed-${++positionCount}`,
+    status: 'CLOSED',
+    realized_pnl: realizedPnl,
+    exit_time: exitTime,
+    ...overrides,
+  });
+}
+
+// A trade on an order placed in `mode`
+function trade(client: FakeClient, mode: string, fields: Row) {
+  const orderId = `order-${client.tables.orders.length + 1}`;
+  client.tables.orders.push({ id: orderId, mode });
+  client.tables.trades.push({ order_id: orderId, ...fields });
+}
+
+function exitsOf(positions: Row[]): Row[] {
+  return positions
+    .filter(position => position.status === 'CLOSED')
+    .map(position => ({
+      refactored_position_id: position.id,
+      realized_pnl: position.realized_pnl,
+      exited_at: position.exit_time,
+    }));
+}
+
+function setup(positions: Row[], limits: Row = { max_daily_loss: 500, max_weekly_loss: 1500 }) {
+  const client = fakeClient({
+    risk_limits: [{ mode: 'PAPER', is_active: true, ...limits }],
+    refactored_positions: positions,
+    refactored_position_exits: exitsOf(positions),
+    refactored_position_marks: [],
+    trades: [],
+    orders: [],
+    circuit_breaker_state: [{ mode: 'PAPER', status: 'ACTIVE' }],
+    circuit_breaker_events: [],
+  });
+  const clock = new SimulatedClock(NOW);
+  const breaker = new LossCircuitBreaker(client as never, 'PAPER', clock);
+  return { client, clock, breaker };
+}
+
+describe('session windows', () => {
+  it('anchors the session at midnight ET and the week at Monday midnight ET', () => {
+    expect(startOfSessionDay(NOW).toISOString()).toBe('2026-03-04T05:00:00.000Z');
+    expect(startOfSessionWeek(NOW).toISOString()).toBe('2026-03-02T05:00:00.000Z');
+  });
+
+  it('follows daylight saving transitions', () => {
+    const afterDst = new Date('2026-03-10T15:00:00.000Z');
+    expect(startOfSessionDay(afterDst).toISOString()).toBe('2026-03-10T04:00:00.000Z');
+    expect(startOfSessionWeek(afterDst).toISOString()).toBe('2026-03-09T04:00:00.000Z');
+
+    // Sunday of the transition week still belongs to the EST Monday
+    expect(startOfSessionWeek(new Date('2026-03-08T18:00:00.000Z')).toISOString()).toBe('2026-03-02T05:00:00.000Z');
+  });
+});
+
+describe('LossCircuitBreaker', () => {
+  it('combines realized, unrealized and trade costs within each window', async () => {
+    const { client, breaker } = setup([
+      closedPosition(-300, '2026-03-04T14:00:00.000Z'),
+      closedPosition(-200, '2026-03-02T16:00:00.000Z'),
+      closedPosition(-900, '2026-02-27T16:00:00.000Z'),
+      position({ id: 'open-1', entry_price: 2, current_price: 1.5, quantity: 2, unrealized_pnl: null }),
+    ]);
+    trade(client, 'PAPER', { commission: 1.3, fees: 0.04, executed_at: '2026-03-04T14:00:00.000Z' });
+
+    const pnl = await breaker.calculatePnl();
+
+    expect(pnl.dailyPnl).toBe(-401.34);
+    expect(pnl.weeklyPnl).toBe(-601.34);
+  });
+
+  it('dates partial-exit P&L by the exit rather than the row update', async () => {
+    const { client, breaker } = setup([position({
+      id: 'open-1',
+      realized_pnl: -800,
+      entry_time: '2026-02-25T15:00:00.000Z',
+      updated_at: '2026-03-04T14:00:00.000Z',
+    })]);
+    client.tables.refactored_position_exits.push(
+      { refactored_position_id: 'open-1', realized_pnl: -800, exited_at: '2026-02-27T16:00:00.000Z' },
+      { refactored_position_id: 'open-1', realized_pnl: -150, exited_at: '2026-03-03T16:00:00.000Z' }
+    );
+
+    const pnl = await breaker.calculatePnl();
+
+    expect(pnl.dailyPnl).toBe(0);
+    expect(pnl.weeklyPnl).toBe(-150);
+  });
+
+  it('counts only the mark-to-market change since each window began', async () => {
+    const { client, breaker } = setup([position({
+      id: 'open-1',
+      quantity: 2,
+      unrealized_pnl: -350,
+      entry_time: '2026-02-25T15:00:00.000Z',
+    })]);
+    client.tables.refactored_position_marks.push(
+      { id: 'open-1:2026-02-27', refactored_position_id: 'open-1', unrealized_pnl: -100, marked_at: '2026-02-27T20:55:00.000Z' },
+      { id: 'open-1:2026-03-03', refactored_position_id: 'open-1', unrealized_pnl: -300, marked_at: '2026-03-03T20:55:00.000Z' }
+    );
+
+    const pnl = await breaker.calculatePnl();
+
+    expect(pnl.dailyPnl).toBe(-50);
+    expect(pnl.weeklyPnl).toBe(-250);
+    expect(client.tables.refactored_position_marks).toHaveLength(2);
+  });
+
+  it('marks open positions of its mode once per session', async () => {
+    const { client, breaker } = setup([
+      position({ id: 'open-1', quantity: 2, unrealized_pnl: -300 }),
+      position({ id: 'live-1', mode: 'LIVE', unrealized_pnl: -900 }),
+    ]);
+
+    await breaker.recordMarks();
+    client.tables.refactored_positions[0].unrealized_pnl = -350;
+    await breaker.recordMarks();
+
+    expect(client.tables.refactored_position_marks).toEqual([expect.objectContaining({
+      id: 'open-1:2026-03-04',
+      refactored_position_id: 'open-1',
+      unrealized_pnl: -350,
+      marked_at: NOW.toISOString(),
+    })]);
+  });
+
+  it('counts only positions, exits and trades of its own mode', async () => {
+    const { client, breaker } = setup([
+      closedPosition(-300, '2026-03-04T14:00:00.000Z'),
+      closedPosition(-700, '2026-03-04T14:00:00.000Z', { mode: 'LIVE' }),
+      position({ id: 'live-open', mode: 'LIVE', current_price: 1, unrealized_pnl: null }),
+    ]);
+    trade(client, 'PAPER', { commission: 1, fees: 0, executed_at: '2026-03-04T14:00:00.000Z' });
+    trade(client, 'LIVE', { commission: 5, fees: 0, executed_at: '2026-03-04T14:00:00.000Z' });
+
+    expect((await breaker.calculatePnl()).dailyPnl).toBe(-301);
+
+    const live = new LossCircuitBreaker(client as never, 'LIVE', new SimulatedClock(NOW));
+    expect((await live.calculatePnl()).dailyPnl).toBe(-805);
+  });
+
+  it('takes back the earlier mark of a position closed in the session', async () => {
+    const closed = closedPosition(-400, '2026-03-04T14:00:00.000Z', { entry_time: '2026-03-02T15:00:00.000Z' });
+    const { client, breaker } = setup([closed]);
+    client.tables.refactored_position_marks.push(
+      { id: `${closed.id}:2026-03-03`, refactored_position_id: closed.id, unrealized_pnl: -300, marked_at: '2026-03-03T20:55:00.000Z' }
+    );
+
+    const pnl = await breaker.calculatePnl();
+
+    expect(pnl.dailyPnl).toBe(-100);
+    expect(pnl.weeklyPnl).toBe(-400);
+  });
+
+  it('halts on a daily loss breach and audits the halt', async () => {
+    const { client, breaker } = setup([closedPosition(-650, '2026-03-04T14:00:00.000Z')]);
+
+    const state = await breaker.evaluate();
+
+    expect(state.status).toBe('HALTED');
+    expect(state.trigger).toBe('DAILY_LOSS');
+    expect(state.reason).toContain('Daily loss limit breached');
+    expect(client.tables.circuit_breaker_events).toEqual([
+      expect.objectContaining({ event_type: 'HALTED', trigger_type: 'DAILY_LOSS', actor: 'system', limit_value: 500 }),
+    ]);
+  });
+
+  it('prefers the weekly trigger when losses span several sessions', async () => {
+    const { breaker } = setup([
+      closedPosition(-400, '2026-03-04T14:00:00.000Z'),
+      closedPosition(-1200, '2026-03-03T16:00:00.000Z'),
+    ]);
+
+    const state = await breaker.evaluate();
+
+    expect(state.status).toBe('HALTED');
+    expect(state.trigger).toBe('WEEKLY_LOSS');
+  });
+
+  it('stays halted until an explicit resume, then re-arms the daily limit next session', async () => {
+    const { client, clock, breaker } = setup([closedPosition(-650, '2026-03-04T14:00:00.000Z')]);
+    await breaker.evaluate();
+
+    expect((await breaker.resume('')).success).toBe(false);
+
+    const resumed = await breaker.resume('ops@example.com', 'Reviewed fills');
+    expect(resumed.success).toBe(true);
+    expect(resumed.state?.status).toBe('ACTIVE');
+    expect(resumed.state?.resumedBy).toBe('ops@example.com');
+    expect(client.tables.circuit_breaker_events.map(e => [e.event_type, e.actor, e.reason])).toEqual([
+      ['HALTED', 'system', expect.any(String)],
+      ['RESUMED', 'ops@example.com', 'Reviewed fills'],
+    ]);
+
+    // Same session: the acknowledged breach does not re-trip
+    expect((await breaker.evaluate()).status).toBe('ACTIVE');
+    expect((await breaker.resume('ops@example.com')).error).toBe('Trading is not halted');
+
+    // Next session: a fresh daily breach halts again
+    clock.setTime(new Date('2026-03-05T15:00:00.000Z'));
+    const nextLoss = closedPosition(-520, '2026-03-05T14:30:00.000Z');
+    client.tables.refactored_positions.push(nextLoss);
+    client.tables.refactored_position_exits.push(...exitsOf([nextLoss]));
+    expect((await breaker.evaluate()).status).toBe('HALTED');
+  });
+
+  it('halts manually for the kill switch without acknowledging loss breaches on resume', async () => {
+    const { client, breaker } = setup([closedPosition(-650, '2026-03-04T14:00:00.000Z')], {
+      max_daily_loss: null,
+      max_weekly_loss: null,
+    });
+
+    const state = await breaker.haltManually('ops@example.com', 'Broker outage');
+    expect(state.status).toBe('HALTED');
+    expect(state.trigger).toBe('KILL_SWITCH');
+    expect(client.tables.circuit_breaker_events).toEqual([
+      expect.objectContaining({ event_type: 'HALTED', trigger_type: 'KILL_SWITCH', actor: 'ops@example.com', limit_value: null }),
+    ]);
+
+    await breaker.resume('ops@example.com', 'Broker back');
+
+    // A daily limit configured after the kill switch still trips in the same session
+    client.tables.risk_limits[0].max_daily_loss = 500;
+    expect((await breaker.evaluate()).trigger).toBe('DAILY_LOSS');
+  });
+
+  it('does nothing when no loss limits are configured', async () => {
+    const { breaker } = setup(
+      [closedPosition(-5000, '2026-03-04T14:00:00.000Z')],
+      { max_daily_loss: null, max_weekly_loss: null }
+    );
+
+    expect((await breaker.evaluate()).status).toBe('ACTIVE');
+  });
+});
@@ -0,0 +1,531 @@
+/**
+ * Loss Circuit Breaker
+ *
+ * Sums realized P&L and the mark-to-market change on open positions for the
+ * current session and week and halts new entries once max_daily_loss /
+ * max_weekly_loss is crossed. Each trading mode has its own breaker and only
+ * counts positions, exits and trades of that mode.
+ * The halt persists in circuit_breaker_state until an explicit, audited resume.
+ */
+
+import { Clock, systemClock } from '../core/clock.ts';
+import type { TradingMode } from '../../types.ts';
+import type { createDbClient } from '../../db-client.ts';
+import { marketCalendar, type MarketCalendar } from '../../market-calendar.ts';
+
+const CONTRACT_MULTIPLIER = 100;
+
+export type CircuitBreakerStatus = 'ACTIVE' | 'HALTED';
+export type CircuitBreakerTrigger = 'DAILY_LOSS' | 'WEEKLY_LOSS' | 'KILL_SWITCH';
+
+export interface CircuitBreakerState {
+  mode: TradingMode;
+  status: CircuitBreakerStatus;
+  trigger: CircuitBreakerTrigger | null;
+  reason: string | null;
+  dailyPnl: number | null;
+  weeklyPnl: number | null;
+  haltedAt: Date | null;
+  resumedAt: Date | null;
+  resumedBy: string | null;
+}
+
+export interface LossWindowPnl {
+  dailyPnl: number;
+  weeklyPnl: number;
+  sessionStart: Date;
+  weekStart: Date;
+}
+
+interface PositionRow {
+  id: string;
+  mode?: TradingMode;
+  status: 'OPEN' | 'CLOSED';
+  side?: string | null;
+  entry_price: number | string;
+  current_price?: number | string | null;
+  unrealized_pnl?: number | string | null;
+  quantity: number | string;
+  entry_time?: string | Date | null;
+  exit_time?: string | Date | null;
+}
+
+interface ExitRow {
+  refactored_position_id: string;
+  realized_pnl: number | string | null;
+  exited_at: string | Date | null;
+}
+
+interface TradeRow {
+  order_id: string;
+  commission: number | string | null;
+  fees: number | string | null;
+  executed_at: string | Date | null;
+}
+
+interface MarkRow {
+  refactored_position_id: string;
+  unrealized_pnl: number | string;
+  marked_at: string | Date;
+}
+
+export interface LossLimits {
+  maxDailyLoss: number | null;
+  maxWeeklyLoss: number | null;
+}
+
+export interface CircuitBreakerResumeResult {
+  success: boolean;
+  state?: CircuitBreakerState;
+  error?: string;
+}
+
+/**
+ * Exchange midnight for the calendar day containing `date`
+ */
+export function startOfSessionDay(date: Date, calendar: MarketCalendar = marketCalendar): Date {
+  return calendar.atExchangeTime(calendar.sessionDate(date), '00:00');
+}
+
+/**
+ * Exchange midnight on the Monday of the week containing `date`
+ */
+export function startOfSessionWeek(date: Date, calendar: MarketCalendar = marketCalendar): Date {
+  return calendar.atExchangeTime(calendar.weekStartDate(calendar.sessionDate(date)), '00:00');
+}
+
+export class LossCircuitBreaker {
+  constructor(
+    private supabaseClient: ReturnType<typeof createDbClient>,
+    private mode: TradingMode = 'PAPER',
+    private clock: Clock = systemClock
+  ) {}
+
+  /**
+   * Current persisted breaker state (ACTIVE when no row exists)
+   */
+  async getState(): Promise<CircuitBreakerState> {
+    const { data, error } = await this.supabaseClient
+      .from('circuit_breaker_state')
+      .select('*')
+      .eq('mode', this.mode)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to load circuit breaker state: ${error.message}`);
+    }
+
+    if (!data) {
+      return {
+        mode: this.mode,
+        status: 'ACTIVE',
+        trigger: null,
+        reason: null,
+        dailyPnl: null,
+        weeklyPnl: null,
+        haltedAt: null,
+        resumedAt: null,
+        resumedBy: null,
+      };
+    }
+
+    const toNumber = (value: unknown): number | null =>
+      value === null || value === undefined ? null : Number(value);
+    const toDate = (value: unknown): Date | null =>
+      value ? new Date(value as string) : null;
+
+    return {
+      mode: this.mode,
+      status: data.status as CircuitBreakerStatus,
+      trigger: (data.trigger_type as CircuitBreakerTrigger | null) ?? null,
+      reason: data.reason ?? null,
+      dailyPnl: toNumber(data.daily_pnl),
+      weeklyPnl: toNumber(data.weekly_pnl),
+      haltedAt: toDate(data.halted_at),
+      resumedAt: toDate(data.resumed_at),
+      resumedBy: data.resumed_by ?? null,
+    };
+  }
+
+  /**
+   * Active max_daily_loss / max_weekly_loss for the trading mode
+   */
+  async loadLimits(): Promise<LossLimits> {
+    const { data, error } = await this.supabaseClient
+      .from('risk_limits')
+      .select('max_daily_loss, max_weekly_loss')
+      .eq('mode', this.mode)
+      .eq('is_active', true)
+      .limit(1)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to load risk limits: ${error.message}`);
+    }
+
+    const toLimit = (value: unknown): number | null =>
+      value === null || value === undefined || Number(value) <= 0 ? null : Number(value);
+
+    return {
+      maxDailyLoss: toLimit(data?.max_daily_loss),
+      maxWeeklyLoss: toLimit(data?.max_weekly_loss),
+    };
+  }
+
+  /**
+   * Session and week P&L: realized on each exit booked in the window, the
+   * mark-to-market change on positions held over it, less trade commissions
+   * and fees. A position open when a window began counts from its last mark
+   * before then; one never marked before then counts from entry. Exits and
+   * trades carry no mode and count through their position and order.
+   */
+  async calculatePnl(): Promise<LossWindowPnl> {
+    const now = this.clock.now();
+    const sessionStart = startOfSessionDay(now);
+    const weekStart = startOfSessionWeek(now);
+
+    const [{ data: exitData, error: exitsError }, { data: openData, error: openError }, { data: tradeData, error: tradesError }] =
+      await Promise.all([
+        this.supabaseClient
+          .from('refactored_position_exits')
+          .select('refactored_position_id, realized_pnl, exited_at')
+          .gte('exited_at', weekStart.toISOString()),
+        this.supabaseClient
+          .from('refactored_positions')
+          .select('*')
+          .eq('mode', this.mode)
+          .eq('status', 'OPEN'),
+        this.supabaseClient
+          .from('trades')
+          .select('order_id, commission, fees, executed_at')
+          .gte('executed_at', weekStart.toISOString()),
+      ]);
+
+    const queryError = exitsError || openError || tradesError;
+    if (queryError) {
+      throw new Error(`Failed to load P&L: ${queryError.message}`);
+    }
+
+    const exits = (exitData || []) as ExitRow[];
+    const trades = (tradeData || []) as TradeRow[];
+    const openRows = (openData || []) as PositionRow[];
+    const openIds = new Set(openRows.map(row => row.id));
+    const closedIds = [...new Set(exits.map(row => String(row.refactored_position_id)))]
+      .filter(id => !openIds.has(id));
+    const held = [...openRows, ...await this.loadPositions(closedIds)];
+    const heldIds = new Set(held.map(row => row.id));
+    const orderIds = await this.loadOrderIds([...new Set(trades.map(row => String(row.order_id)))]);
+
+    let dailyPnl = 0;
+    let weeklyPnl = 0;
+    const addInWindow = (amount: number, at: Date | null) => {
+      if (!at || at < weekStart) return;
+      weeklyPnl += amount;
+      if (at >= sessionStart) dailyPnl += amount;
+    };
+
+    for (const row of exits) {
+      if (heldIds.has(String(row.refactored_position_id))) {
+        addInWindow(Number(row.realized_pnl ?? 0), row.exited_at ? new Date(row.exited_at) : null);
+      }
+    }
+
+    for (const row of trades) {
+      if (orderIds.has(String(row.order_id))) {
+        const costs = Number(row.commission ?? 0) + Number(row.fees ?? 0);
+        addInWindow(-costs, row.executed_at ? new Date(row.executed_at) : null);
+      }
+    }
+
+    // Exits above are measured from entry: take back what positions held
+    // over a window had already gained or lost before it began
+    const marks = await this.loadMarksBefore(held.map(row => row.id), sessionStart);
+
+    for (const row of held) {
+      const current = row.status === 'OPEN' ? unrealizedPnl(row) : 0;
+      dailyPnl += current - this.markAt(row, marks, sessionStart);
+      weeklyPnl += current - this.markAt(row, marks, weekStart);
+    }
+
+    return {
+      dailyPnl: round2(dailyPnl),
+      weeklyPnl: round2(weeklyPnl),
+      sessionStart,
+      weekStart,
+    };
+  }
+
+  /**
+   * Marks each open position of the mode at its current unrealized P&L, one
+   * row per position and session. A session's last mark is the baseline the
+   * following windows count from. Run by the exit worker after it reprices
+   * positions, so evaluating the breaker never writes marks.
+   */
+  async recordMarks(): Promise<void> {
+    const now = this.clock.now();
+    const sessionDate = marketCalendar.sessionDate(now);
+    const { data, error } = await this.supabaseClient
+      .from('refactored_positions')
+      .select('*')
+      .eq('mode', this.mode)
+      .eq('status', 'OPEN');
+
+    if (error) {
+      throw new Error(`Failed to load open positions: ${error.message}`);
+    }
+
+    for (const row of (data || []) as PositionRow[]) {
+      const fields = {
+        refactored_position_id: row.id,
+        current_price: row.current_price ?? null,
+        unrealized_pnl: round2(unrealizedPnl(row)),
+        marked_at: now.toISOString(),
+      };
+      const id = `${row.id}:${sessionDate}`;
+      const { data: updated, error: updateError } = await this.supabaseClient
+        .from('refactored_position_marks')
+        .update(fields)
+        .eq('id', id);
+
+      const stored = !updateError && updated && updated.length > 0;
+      const { error: insertError } = stored
+        ? { error: null }
+        : await this.supabaseClient.from('refactored_position_marks').insert({ id, ...fields });
+
+      const markError = updateError ?? insertError;
+      if (markError) {
+        console.warn(`[LossCircuitBreaker] Failed to mark position ${row.id}: ${markError.message}`);
+      }
+    }
+  }
+
+  /**
+   * Re-check loss limits and halt if one is crossed
+   * A manual resume acknowledges the breach for the rest of its window:
+   * the daily limit re-arms next session, the weekly limit next week.
+   */
+  async evaluate(): Promise<CircuitBreakerState> {
+    const state = await this.getState();
+    if (state.status === 'HALTED') {
+      return state;
+    }
+
+    const limits = await this.loadLimits();
+    if (limits.maxDailyLoss === null && limits.maxWeeklyLoss === null) {
+      return state;
+    }
+
+    const pnl = await this.calculatePnl();
+    const resumedThisSession = state.resumedAt !== null &&
+      state.resumedAt >= pnl.sessionStart &&
+      state.trigger !== 'KILL_SWITCH';
+    const resumedWeeklyThisWeek = state.resumedAt !== null &&
+      state.resumedAt >= pnl.weekStart &&
+      state.trigger === 'WEEKLY_LOSS';
+
+    if (limits.maxWeeklyLoss !== null && pnl.weeklyPnl <= -limits.maxWeeklyLoss && !resumedWeeklyThisWeek) {
+      const reason = `Weekly loss limit breached: P&L ${pnl.weeklyPnl.toFixed(2)} <= -${limits.maxWeeklyLoss}`;
+      return this.halt('WEEKLY_LOSS', reason, pnl, limits.maxWeeklyLoss, 'system');
+    }
+
+    if (limits.maxDailyLoss !== null && pnl.dailyPnl <= -limits.maxDailyLoss && !resumedThisSession) {
+      const reason = `Daily loss limit breached: P&L ${pnl.dailyPnl.toFixed(2)} <= -${limits.maxDailyLoss}`;
+      return this.halt('DAILY_LOSS', reason, pnl, limits.maxDailyLoss, 'system');
+    }
+
+    return state;
+  }
+
+  /**
+   * Halt immediately on operator request (kill switch), regardless of P&L
+   */
+  async haltManually(actor: string, reason: string): Promise<CircuitBreakerState> {
+    const pnl = await this.calculatePnl();
+    return this.halt('KILL_SWITCH', reason, pnl, null, actor);
+  }
+
+  /**
+   * Clear a halt. Requires an actor for the audit trail.
+   */
+  async resume(actor: string, note?: string): Promise<CircuitBreakerResumeResult> {
+    if (!actor) {
+      return { success: false, error: 'Resume requires an actor' };
+    }
+
+    const state = await this.getState();
+    if (state.status !== 'HALTED') {
+      return { success: false, state, error: 'Trading is not halted' };
+    }
+
+    const now = this.clock.now();
+    const pnl = await this.calculatePnl();
+
+    await this.saveState({
+      status: 'ACTIVE',
+      daily_pnl: pnl.dailyPnl,
+      weekly_pnl: pnl.weeklyPnl,
+      resumed_at: now.toISOString(),
+      resumed_by: actor,
+      updated_at: now.toISOString(),
+    });
+
+    await this.recordEvent({
+      event_type: 'RESUMED',
+      trigger_type: state.trigger,
+      reason: note || `Resumed after ${state.trigger ?? 'halt'}`,
+      actor,
+      daily_pnl: pnl.dailyPnl,
+      weekly_pnl: pnl.weeklyPnl,
+      limit_value: null,
+      created_at: now.toISOString(),
+    });
+
+    return { success: true, state: await this.getState() };
+  }
+
+  private async halt(
+    trigger: CircuitBreakerTrigger,
+    reason: string,
+    pnl: LossWindowPnl,
+    limit: number | null,
+    actor: string
+  ): Promise<CircuitBreakerState> {
+    const now = this.clock.now();
+
+    console.warn(`[LossCircuitBreaker] ${this.mode} trading halted - ${reason}`);
+
+    await this.saveState({
+      status: 'HALTED',
+      trigger_type: trigger,
+      reason,
+      daily_pnl: pnl.dailyPnl,
+      weekly_pnl: pnl.weeklyPnl,
+      halted_at: now.toISOString(),
+      updated_at: now.toISOString(),
+    });
+
+    await this.recordEvent({
+      event_type: 'HALTED',
+      trigger_type: trigger,
+      reason,
+      actor,
+      daily_pnl: pnl.dailyPnl,
+      weekly_pnl: pnl.weeklyPnl,
+      limit_value: limit,
+      created_at: now.toISOString(),
+    });
+
+    return this.getState();
+  }
+
+  private async loadPositions(ids: string[]): Promise<PositionRow[]> {
+    if (ids.length === 0) {
+      return [];
+    }
+    const { data, error } = await this.supabaseClient
+      .from('refactored_positions')
+      .select('*')
+      .in('id', ids)
+      .eq('mode', this.mode);
+
+    if (error) {
+      throw new Error(`Failed to load P&L: ${error.message}`);
+    }
+    return (data || []) as PositionRow[];
+  }
+
+  // Which of `ids` are orders of this mode
+  private async loadOrderIds(ids: string[]): Promise<Set<string>> {
+    if (ids.length === 0) {
+      return new Set();
+    }
+    const { data, error } = await this.supabaseClient
+      .from('orders')
+      .select('id')
+      .in('id', ids)
+      .eq('mode', this.mode);
+
+    if (error) {
+      throw new Error(`Failed to load P&L: ${error.message}`);
+    }
+    return new Set(((data || []) as Array<{ id: string }>).map(row => String(row.id)));
+  }
+
+  // Marks taken before `before`, newest first
+  private async loadMarksBefore(positionIds: string[], before: Date): Promise<MarkRow[]> {
+    if (positionIds.length === 0) {
+      return [];
+    }
+    const { data, error } = await this.supabaseClient
+      .from('refactored_position_marks')
+      .select('refactored_position_id, unrealized_pnl, marked_at')
+      .in('refactored_position_id', positionIds)
+      .lt('marked_at', before.toISOString())
+      .order('marked_at', { ascending: false });
+
+    if (error) {
+      throw new Error(`Failed to load position marks: ${error.message}`);
+    }
+    return (data || []) as MarkRow[];
+  }
+
+  // Unrealized P&L of `row` when the window starting at `windowStart` began
+  private markAt(row: PositionRow, marks: MarkRow[], windowStart: Date): number {
+    const enteredAt = row.entry_time ? new Date(row.entry_time) : null;
+    const exitedAt = row.status === 'CLOSED' && row.exit_time ? new Date(row.exit_time) : null;
+    if ((enteredAt && enteredAt >= windowStart) || (exitedAt && exitedAt < windowStart)) {
+      return 0;
+    }
+    const mark = marks.find(candidate =>
+      candidate.refactored_position_id === row.id && new Date(candidate.marked_at) < windowStart
+    );
+    return mark ? Number(mark.unrealized_pnl) : 0;
+  }
+
+  private async saveState(fields: Record<string, unknown>): Promise<void> {
+    const { data, error } = await this.supabaseClient
+      .from('circuit_breaker_state')
+      .update(fields)
+      .eq('mode', this.mode);
+
+    if (error) {
+      throw new Error(`Failed to update circuit breaker state: ${error.message}`);
+    }
+
+    if (!data || data.length === 0) {
+      const { error: insertError } = await this.supabaseClient
+        .from('circuit_breaker_state')
+        .insert({ mode: this.mode, ...fields });
+
+      if (insertError) {
+        throw new Error(`Failed to create circuit breaker state: ${insertError.message}`);
+      }
+    }
+  }
+
+  private async recordEvent(event: Record<string, unknown>): Promise<void> {
+    const { error } = await this.supabaseClient
+      .from('circuit_breaker_events')
+      .insert({ mode: this.mode, ...event });
+
+    if (error) {
+      throw new Error(`Failed to record circuit breaker event: ${error.message}`);
+    }
+  }
+}
+
+// Mark-to-market P&L of an open refactored_positions row
+function unrealizedPnl(row: PositionRow): number {
+  if (row.unrealized_pnl !== null && row.unrealized_pnl !== undefined) {
+    return Number(row.unrealized_pnl);
+  }
+  if (row.current_price === null || row.current_price === undefined) {
+    return 0;
+  }
+  return (Number(row.current_price) - Number(row.entry_price)) * (row.side === 'SHORT' ? -1 : 1) *
+    Number(row.quantity) * CONTRACT_MULTIPLIER;
+}
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
@@ -0,0 +1,225 @@
+/**
+ * Tests for scheduled event blackouts
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import {
+  EventBlackoutService,
+  InMemoryEventStore,
+  parseEventsCsv,
+  parseEventsIcs,
+  type ScheduledEvent,
+} from './event-blackout.ts';
+import { DecisionOrchestrator } from '../orchestrator/decision-orchestrator.ts';
+import { SignalValidator } from '../validation/signal-validator.ts';
+import { RiskManager } from './risk-manager.ts';
+import { PositionSizingService } from './position-sizing-service.ts';
+import { ConfluenceCalculator } from './confluence-calculator.ts';
+import type { ContextCache } from '../cache/context-cache.ts';
+import type { GEXService } from './gex-service.ts';
+import type { PositionManager } from './position-manager.ts';
+import { SimulatedClock } from '../core/clock.ts';
+import { defaultConfig } from '../core/config.ts';
+import type { Position, Signal } from '../core/types.ts';
+
+// FOMC statement 2026-03-18 14:00 ET, CPI 2026-03-11 08:30 ET
+const FOMC: ScheduledEvent = { type: 'FOMC', symbol: null, time: new Date('2026-03-18T18:00:00.000Z'), title: 'FOMC' };
+const CPI: ScheduledEvent = { type: 'CPI', symbol: null, time: new Date('2026-03-11T12:30:00.000Z'), title: 'CPI' };
+const AAPL_EARNINGS: ScheduledEvent = {
+  type: 'EARNINGS',
+  symbol: 'AAPL',
+  time: new Date('2026-03-12T20:05:00.000Z'),
+  title: 'AAPL earnings',
+};
+
+function service(now: Date) {
+  return new EventBlackoutService(
+    defaultConfig,
+    new InMemoryEventStore([FOMC, CPI, AAPL_EARNINGS]),
+    new SimulatedClock(now)
+  );
+}
+
+function signal(now: Date, symbol = 'SPY'): Signal {
+  return {
+    id: 'sig-1',
+    source: 'TRADINGVIEW',
+    symbol,
+    direction: 'CALL',
+    timeframe: '5m',
+    timestamp: now,
+    metadata: { entry_price: 2.45 },
+  };
+}
+
+describe('event file parsing', () => {
+  it('reads CSV rows with exchange times and earnings sessions', () => {
+    const { events, errors } = parseEventsCsv([
+      'type,date,time,symbol,title',
+      'FOMC,2026-03-18,14:00,,"FOMC statement, March"',
+      'Earnings,2026-03-12,AMC,aapl,',
+      'CPI,2026-03-11T08:30:00-04:00,,,',
+      'GDP,2026-03-26,08:30,,',
+      'EARNINGS,2026-03-12,BMO,,',
+    ].join('\n'));
+
+    expect(events).toEqual([
+      { type: 'FOMC', symbol: null, time: FOMC.time, title: 'FOMC statement, March' },
+      { type: 'EARNINGS', symbol: 'AAPL', time: AAPL_EARNINGS.time, title: 'AAPL earnings' },
+      { type: 'CPI', symbol: null, time: CPI.time, title: 'CPI' },
+    ]);
+    expect(errors).toEqual([
+      'Line 5: unknown event type "GDP"',
+      'Line 6: earnings events need a symbol',
+    ]);
+  });
+
+  it('reads VEVENTs from an ICS calendar', () => {
+    const { events, errors } = parseEventsIcs([
+      'BEGIN:VCALENDAR',
+      'BEGIN:VEVENT',
+      'DTSTART;TZID=America/New_York:20260318T140000',
+      'SUMMARY:Federal Open Market Committee',
+      '  Rate Decision',
+      'END:VEVENT',
+      'BEGIN:VEVENT',
+      'DTSTART:20260311T123000Z',
+      'SUMMARY:Consumer Price Index (CPI)',
+      'END:VEVENT',
+      'BEGIN:VEVENT',
+      'DTSTART;VALUE=DATE:20260306',
+      'SUMMARY:Employment Situation',
+      'END:VEVENT',
+      'BEGIN:VEVENT',
+      'DTSTART:20260312T200500Z',
+      'SUMMARY:AAPL Q1 Earnings',
+      'END:VEVENT',
+      'BEGIN:VEVENT',
+      'DTSTART:20260326T123000Z',
+      'SUMMARY:GDP Advance',
+      'END:VEVENT',
+      'END:VCALENDAR',
+    ].join('\r\n'));
+
+    expect(events.map(event => [event.type, event.symbol, event.time.toISOString()])).toEqual([
+      ['FOMC', null, '2026-03-18T18:00:00.000Z'],
+      ['CPI', null, '2026-03-11T12:30:00.000Z'],
+      ['NFP', null, '2026-03-06T05:00:00.000Z'],
+      ['EARNINGS', 'AAPL', '2026-03-12T20:05:00.000Z'],
+    ]);
+    expect(errors).toEqual(['Skipped "GDP Advance": unknown event type']);
+  });
+});
+
+describe('EventBlackoutService', () => {
+  it('blocks inside BLOCK windows and downsizes inside DOWNSIZE windows', async () => {
+    const beforeFomc = new Date('2026-03-18T17:45:00.000Z');
+    const fomc = await service(beforeFomc).check('SPY', beforeFomc);
+    expect(fomc).toMatchObject({ blocked: true, sizeMultiplier: 0 });
+    expect(fomc.reasoning[0]).toContain('Event blackout FOMC (BLOCK');
+
+    const afterCpi = new Date('2026-03-11T12:50:00.000Z');
+    expect(await service(afterCpi).check('SPY', afterCpi)).toMatchObject({ blocked: false, sizeMultiplier: 0.5 });
+
+    const clear = new Date('2026-03-11T13:05:00.000Z');
+    expect(await service(clear).check('SPY', clear)).toMatchObject({ blocked: false, sizeMultiplier: 1, active: [] });
+  });
+
+  it('applies earnings windows only to their ticker', async () => {
+    const dayBefore = new Date('2026-03-11T20:30:00.000Z');
+    expect((await service(dayBefore).check('AAPL', dayBefore)).blocked).toBe(true);
+    expect((await service(dayBefore).check('MSFT', dayBefore)).blocked).toBe(false);
+  });
+
+  it('flattens short-dated positions ahead of a blocking window', async () => {
+    // 13:00 ET, 30 minutes before the FOMC window opens at 13:30 ET
+    const now = new Date('2026-03-18T17:00:00.000Z');
+    const position = (expiration: string): Position => ({
+      id: 'pos-1',
+      signalId: 'sig-1',
+      symbol: 'SPY',
+      direction: 'CALL',
+      quantity: 2,
+      entryPrice: 2,
+      entryTime: new Date('2026-03-18T14:00:00.000Z'),
+      status: 'OPEN',
+      underlying: 'SPY',
+      expiration,
+    });
+
+    expect((await service(now).checkFlatten(position('2026-03-20'), now)).flatten).toBe(true);
+    expect((await service(now).checkFlatten(position('2026-04-17'), now)).flatten).toBe(false);
+
+    const earlier = new Date('2026-03-18T16:00:00.000Z');
+    expect((await service(earlier).checkFlatten(position('2026-03-20'), earlier)).flatten).toBe(false);
+  });
+});
+
+describe('blackout integration', () => {
+  function orchestrator(now: Date, positionManager: Partial<Record<keyof PositionManager, unknown>> = {}) {
+    return new DecisionOrchestrator(
+      { getContext: vi.fn().mockResolvedValue({ vix: 20, trend: 'BULLISH', bias: 0.5, regime: 'NORMAL', timestamp: now }) } as unknown as ContextCache,
+      {
+        getSignalWithMetadata: vi.fn().mockResolvedValue({ signal: null, isStale: false, effectiveWeight: 0 }),
+        detectFlip: vi.fn().mockResolvedValue({ hasFlipped: false }),
+      } as unknown as GEXService,
+      {
+        wouldExceedMaxExposure: vi.fn().mockReturnValue(false),
+        getTotalExposure: vi.fn().mockReturnValue(0),
+        ...positionManager,
+      } as unknown as PositionManager,
+      new RiskManager(defaultConfig),
+      new PositionSizingService({ ...defaultConfig, sizing: { ...defaultConfig.sizing, baseSize: 4 } }),
+      new ConfluenceCalculator(),
+      defaultConfig,
+      undefined,
+      new SimulatedClock(now),
+      undefined,
+      undefined,
+      service(now)
+    );
+  }
+
+  it('rejects signals in the validator during a BLOCK window', async () => {
+    const now = new Date('2026-03-18T18:20:00.000Z');
+    const validator = new SignalValidator(defaultConfig, new SimulatedClock(now), undefined, service(now));
+    const result = await validator.validate(signal(now));
+
+    expect(result).toMatchObject({ valid: false, rejectionReason: 'Event blackout' });
+    expect(result.checks.blackout).toBe(false);
+    expect(result.details.blackout.events[0]).toMatchObject({ type: 'FOMC', action: 'BLOCK' });
+  });
+
+  it('halves the entry size around CPI', async () => {
+    const now = new Date('2026-03-11T12:50:00.000Z');
+    const [downsized, normal] = await Promise.all([
+      orchestrator(now).orchestrateEntryDecision(signal(now)),
+      orchestrator(new Date('2026-03-11T15:00:00.000Z')).orchestrateEntryDecision(signal(new Date('2026-03-11T15:00:00.000Z'))),
+    ]);
+
+    expect(downsized.decision).toBe('ENTER');
+    expect(normal.positionSize).toBeGreaterThan(1);
+    expect(downsized.positionSize).toBe(Math.floor(normal.positionSize * 0.5));
+    expect(downsized.reasoning.some(line => line.startsWith('Event blackout size multiplier 0.50'))).toBe(true);
+  });
+
+  it('exits short-dated positions with EVENT_BLACKOUT before FOMC', async () => {
+    const now = new Date('2026-03-18T17:10:00.000Z');
+    const decision = await orchestrator(now, { calculateUnrealizedPnL: vi.fn().mockReturnValue(0) }).orchestrateExitDecision({
+      id: 'pos-1',
+      signalId: 'sig-1',
+      symbol: 'SPY',
+      direction: 'CALL',
+      quantity: 1,
+      entryPrice: 2,
+      currentPrice: 2,
+      entryTime: new Date('2026-03-18T14:00:00.000Z'),
+      status: 'OPEN',
+      underlying: 'SPY',
+      expiration: '2026-03-18',
+    });
+
+    expect(decision).toMatchObject({ decision: 'EXIT', exitReason: 'EVENT_BLACKOUT' });
+    expect(decision.calculations.eventBlackout).toBe(true);
+  });
+});
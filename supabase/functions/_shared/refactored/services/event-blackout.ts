@@ -0,0 +1,441 @@
+/**
+ * Scheduled event blackouts
+ *
+ * Blocks or downsizes entries around scheduled macro releases (FOMC, CPI,
+ * NFP) and per-ticker earnings, and flags short-dated positions that should
+ * be flattened before a blocking window opens. Windows per event type come
+ * from config.blackouts. Events live in the economic_events table and can be
+ * loaded from CSV or ICS files.
+ */
+
+import type { createDbClient } from '../../db-client.ts';
+import { Config, Position, ScheduledEventType, BlackoutWindow } from '../core/types.ts';
+import { Clock, systemClock } from '../core/clock.ts';
+import { defaultConfig } from '../core/config.ts';
+import { marketCalendar } from '../../market-calendar.ts';
+
+export const SCHEDULED_EVENT_TYPES: ScheduledEventType[] = ['FOMC', 'CPI', 'NFP', 'EARNINGS'];
+
+const MS_PER_MINUTE = 60 * 1000;
+
+// Exchange times used for earnings reported as before-open / after-close
+const EARNINGS_SESSION_TIMES: Record<string, string> = {
+  BMO: '08:00',
+  AMC: '16:05',
+};
+
+export interface ScheduledEvent {
+  id?: string;
+  type: ScheduledEventType;
+  symbol: string | null; // Earnings ticker; null for macro events
+  time: Date;
+  title: string;
+}
+
+export interface EventParseResult {
+  events: ScheduledEvent[];
+  errors: string[];
+}
+
+export interface ActiveBlackout {
+  event: ScheduledEvent;
+  window: BlackoutWindow;
+  start: Date;
+  end: Date;
+}
+
+export interface BlackoutCheck {
+  blocked: boolean;
+  sizeMultiplier: number;
+  active: ActiveBlackout[];
+  reasoning: string[];
+}
+
+export interface FlattenCheck {
+  flatten: boolean;
+  blackout: ActiveBlackout | null;
+  reasoning: string;
+}
+
+export interface EventStore {
+  /** Events whose time falls within [from, to] */
+  listEvents(from: Date, to: Date): Promise<ScheduledEvent[]>;
+}
+
+export class InMemoryEventStore implements EventStore {
+  private events: ScheduledEvent[] = [];
+
+  constructor(events: ScheduledEvent[] = []) {
+    this.add(events);
+  }
+
+  add(events: ScheduledEvent[]): void {
+    this.events.push(...events);
+  }
+
+  listEvents(from: Date, to: Date): Promise<ScheduledEvent[]> {
+    return Promise.resolve(this.events.filter(event => event.time >= from && event.time <= to));
+  }
+}
+
+interface EventRow {
+  id: string;
+  event_type: ScheduledEventType;
+  symbol: string | null;
+  event_time: string;
+  title: string | null;
+}
+
+export class PostgresEventStore implements EventStore {
+  constructor(private supabaseClient: ReturnType<typeof createDbClient>) {}
+
+  async listEvents(from: Date, to: Date): Promise<ScheduledEvent[]> {
+    const { data, error } = await this.supabaseClient
+      .from('economic_events')
+      .select('*')
+      .gte('event_time', from.toISOString())
+      .lte('event_time', to.toISOString())
+      .order('event_time', { ascending: true });
+
+    if (error) {
+      throw new Error(`Failed to load economic events: ${error.message}`);
+    }
+
+    return ((data || []) as EventRow[]).map(row => ({
+      id: row.id,
+      type: row.event_type,
+      symbol: row.symbol,
+      time: new Date(row.event_time),
+      title: row.title ?? row.event_type,
+    }));
+  }
+
+  /**
+   * Store events, skipping ones already recorded; returns how many were added
+   */
+  async addEvents(events: ScheduledEvent[], source: string): Promise<number> {
+    if (events.length === 0) {
+      return 0;
+    }
+
+    const times = events.map(event => event.time.getTime());
+    const existing = await this.listEvents(new Date(Math.min(...times)), new Date(Math.max(...times)));
+    const seen = new Set(existing.map(eventKey));
+    const fresh = events.filter(event => {
+      const key = eventKey(event);
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+
+    if (fresh.length === 0) {
+      return 0;
+    }
+
+    const { error } = await this.supabaseClient
+      .from('economic_events')
+      .insert(fresh.map(event => ({
+        id: crypto.randomUUID(),
+        event_type: event.type,
+        symbol: event.symbol,
+        event_time: event.time.toISOString(),
+        title: event.title,
+        source,
+      })));
+
+    if (error) {
+      throw new Error(`Failed to store economic events: ${error.message}`);
+    }
+
+    return fresh.length;
+  }
+}
+
+function eventKey(event: ScheduledEvent): string {
+  return `${event.type}|${event.symbol ?? ''}|${event.time.toISOString()}`;
+}
+
+export class EventBlackoutService {
+  private readonly windows: Record<ScheduledEventType, BlackoutWindow>;
+  private readonly flattenMaxDte: number;
+  private readonly flattenLeadMinutes: number;
+
+  constructor(
+    config: Config,
+    private store: EventStore,
+    private clock: Clock = systemClock
+  ) {
+    const blackouts = config.blackouts ?? defaultConfig.blackouts!;
+    this.windows = blackouts.windows;
+    this.flattenMaxDte = blackouts.flattenMaxDte;
+    this.flattenLeadMinutes = blackouts.flattenLeadMinutes;
+  }
+
+  /**
+   * Blackout windows covering `at` for a symbol. BLOCK windows block the
+   * entry; overlapping DOWNSIZE windows apply the smallest multiplier.
+   */
+  async check(symbol: string, at: Date = this.clock.now()): Promise<BlackoutCheck> {
+    const active = (await this.windowsNear(symbol, at, 0))
+      .filter(blackout => blackout.start <= at && at <= blackout.end);
+
+    const blocking = active.filter(blackout => blackout.window.action === 'BLOCK');
+    const downsizing = active.filter(blackout => blackout.window.action === 'DOWNSIZE');
+    const sizeMultiplier = blocking.length > 0
+      ? 0
+      : Math.min(1, ...downsizing.map(blackout => blackout.window.sizeMultiplier));
+
+    const reasoning = active.length === 0
+      ? ['No scheduled event blackout']
+      : active.map(blackout =>
+          `Event blackout ${describeEvent(blackout.event)} (${blackout.window.action}` +
+          `${blackout.window.action === 'DOWNSIZE' ? ` x${blackout.window.sizeMultiplier}` : ''}, ` +
+          `${blackout.start.toISOString()} - ${blackout.end.toISOString()})`
+        );
+
+    return { blocked: blocking.length > 0, sizeMultiplier, active, reasoning };
+  }
+
+  /**
+   * Whether a position expiring within flattenMaxDte should be closed because
+   * a BLOCK window for its underlying opens within flattenLeadMinutes
+   */
+  async checkFlatten(position: Position, now: Date = this.clock.now()): Promise<FlattenCheck> {
+    if (!position.expiration) {
+      return { flatten: false, blackout: null, reasoning: 'No expiration on position - blackout flatten skipped' };
+    }
+
+    const dte = marketCalendar.daysToExpiration(position.expiration, now);
+    if (dte > this.flattenMaxDte) {
+      return { flatten: false, blackout: null, reasoning: `${dte} DTE > ${this.flattenMaxDte} - not flattened for events` };
+    }
+
+    const symbol = position.underlying ?? position.symbol;
+    const horizon = new Date(now.getTime() + this.flattenLeadMinutes * MS_PER_MINUTE);
+    const upcoming = (await this.windowsNear(symbol, now, this.flattenLeadMinutes))
+      .filter(blackout => blackout.window.action === 'BLOCK' && blackout.end >= now && blackout.start <= horizon)
+      .sort((a, b) => a.start.getTime() - b.start.getTime());
+
+    if (upcoming.length === 0) {
+      return { flatten: false, blackout: null, reasoning: 'No blocking event within flatten window' };
+    }
+
+    const blackout = upcoming[0];
+    return {
+      flatten: true,
+      blackout,
+      reasoning: `${dte} DTE position ahead of ${describeEvent(blackout.event)} blackout starting ${blackout.start.toISOString()}`,
+    };
+  }
+
+  private async windowsNear(symbol: string, at: Date, leadMinutes: number): Promise<ActiveBlackout[]> {
+    const windows = Object.values(this.windows);
+    const maxPre = Math.max(0, ...windows.map(window => window.preMinutes));
+    const maxPost = Math.max(0, ...windows.map(window => window.postMinutes));
+
+    const events = await this.store.listEvents(
+      new Date(at.getTime() - maxPost * MS_PER_MINUTE),
+      new Date(at.getTime() + (maxPre + leadMinutes) * MS_PER_MINUTE)
+    );
+
+    const underlying = symbol.trim().toUpperCase();
+    return events
+      .filter(event => event.symbol === null || event.symbol.toUpperCase() === underlying)
+      .filter(event => this.windows[event.type])
+      .map(event => {
+        const window = this.windows[event.type];
+        return {
+          event,
+          window,
+          start: new Date(event.time.getTime() - window.preMinutes * MS_PER_MINUTE),
+          end: new Date(event.time.getTime() + window.postMinutes * MS_PER_MINUTE),
+        };
+      });
+  }
+}
+
+function describeEvent(event: ScheduledEvent): string {
+  return event.symbol ? `${event.type} ${event.symbol}` : event.type;
+}
+
+/**
+ * Normalize an event type label; recognizes common release names
+ */
+export function parseEventType(value: string): ScheduledEventType | null {
+  const text = value.trim().toUpperCase();
+  if ((SCHEDULED_EVENT_TYPES as string[]).includes(text)) return text as ScheduledEventType;
+  if (/FOMC|FEDERAL OPEN MARKET|FED(ERAL)? (FUNDS )?(INTEREST )?RATE DECISION/.test(text)) return 'FOMC';
+  if (/\bCPI\b|CONSUMER PRICE INDEX/.test(text)) return 'CPI';
+  if (/\bNFP\b|NON-?FARM PAYROLL|EMPLOYMENT SITUATION/.test(text)) return 'NFP';
+  if (/EARNINGS/.test(text)) return 'EARNINGS';
+  return null;
+}
+
+/**
+ * Parse "2026-03-18T14:00:00-04:00"-style timestamps, or a date plus an
+ * exchange-time "HH:MM" / BMO / AMC
+ */
+function parseEventTime(date: string, time: string | undefined): Date | null {
+  if (/T\d{2}:\d{2}/.test(date)) {
+    const parsed = new Date(date);
+    return Number.isNaN(parsed.getTime()) ? null : parsed;
+  }
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(date)) {
+    return null;
+  }
+
+  const clock = (time ?? '').trim().toUpperCase();
+  const exchangeTime = EARNINGS_SESSION_TIMES[clock] ?? (clock || '00:00');
+  if (!/^\d{1,2}:\d{2}$/.test(exchangeTime)) {
+    return null;
+  }
+  return marketCalendar.atExchangeTime(date, exchangeTime);
+}
+
+function splitCsvLine(line: string): string[] {
+  const cells: string[] = [];
+  let current = '';
+  let quoted = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (char === '"') {
+      if (quoted && line[i + 1] === '"') {
+        current += '"';
+        i++;
+      } else {
+        quoted = !quoted;
+      }
+    } else if (char === ',' && !quoted) {
+      cells.push(current.trim());
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  cells.push(current.trim());
+  return cells;
+}
+
+/**
+ * Parse a CSV with a header row. Columns: type, date (or an ISO datetime),
+ * optional time (HH:MM exchange time, BMO or AMC), symbol and title.
+ */
+export function parseEventsCsv(text: string): EventParseResult {
+  const events: ScheduledEvent[] = [];
+  const errors: string[] = [];
+  const lines = text.split(/\r?\n/).filter(line => line.trim() !== '');
+
+  if (lines.length === 0) {
+    return { events, errors: ['CSV is empty'] };
+  }
+
+  const header = splitCsvLine(lines[0]).map(cell => cell.toLowerCase());
+  const column = (row: string[], name: string) => {
+    const index = header.indexOf(name);
+    return index >= 0 && row[index] !== '' ? row[index] : undefined;
+  };
+
+  if (!header.includes('type') || !(header.includes('date') || header.includes('datetime'))) {
+    return { events, errors: ['CSV header must include type and date (or datetime) columns'] };
+  }
+
+  lines.slice(1).forEach((line, index) => {
+    const row = splitCsvLine(line);
+    const lineNumber = index + 2;
+    const type = parseEventType(column(row, 'type') ?? '');
+    const time = parseEventTime(column(row, 'datetime') ?? column(row, 'date') ?? '', column(row, 'time'));
+    const symbol = column(row, 'symbol')?.toUpperCase() ?? null;
+
+    if (!type) {
+      errors.push(`Line ${lineNumber}: unknown event type "${column(row, 'type') ?? ''}"`);
+      return;
+    }
+    if (!time) {
+      errors.push(`Line ${lineNumber}: invalid date/time`);
+      return;
+    }
+    if (type === 'EARNINGS' && !symbol) {
+      errors.push(`Line ${lineNumber}: earnings events need a symbol`);
+      return;
+    }
+
+    events.push({
+      type,
+      symbol: type === 'EARNINGS' ? symbol : null,
+      time,
+      title: column(row, 'title') ?? (symbol && type === 'EARNINGS' ? `${symbol} earnings` : type),
+    });
+  });
+
+  return { events, errors };
+}
+
+function parseIcsDate(value: string, params: string): Date | null {
+  const match = value.match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/);
+  if (!match) {
+    return null;
+  }
+  const [, year, month, day, hour, minute, second, utc] = match;
+  if (utc) {
+    return new Date(Date.UTC(+year, +month - 1, +day, +hour, +minute, +second));
+  }
+
+  const tzid = params.match(/TZID=([^;:]+)/)?.[1];
+  if (tzid && tzid !== marketCalendar.timeZone) {
+    return null;
+  }
+  // Floating and exchange-zone times are exchange wall-clock times
+  return marketCalendar.atExchangeTime(`${year}-${month}-${day}`, hour ? `${hour}:${minute}` : '00:00');
+}
+
+/**
+ * Parse VEVENTs from an iCalendar file. The type comes from CATEGORIES or
+ * the SUMMARY; earnings need an X-SYMBOL property or a leading ticker in the
+ * summary ("AAPL Earnings").
+ */
+export function parseEventsIcs(text: string): EventParseResult {
+  const events: ScheduledEvent[] = [];
+  const errors: string[] = [];
+
+  // Unfold continuation lines
+  const lines = text.replace(/\r?\n[ \t]/g, '').split(/\r?\n/);
+  let current: Record<string, { params: string; value: string }> | null = null;
+
+  for (const line of lines) {
+    if (line === 'BEGIN:VEVENT') {
+      current = {};
+      continue;
+    }
+    if (line === 'END:VEVENT' && current) {
+      const summary = current.SUMMARY?.value.replace(/\\,/g, ',') ?? '';
+      const type = parseEventType(current.CATEGORIES?.value ?? '') ?? parseEventType(summary);
+      const time = current.DTSTART ? parseIcsDate(current.DTSTART.value, current.DTSTART.params) : null;
+      const symbol = current['X-SYMBOL']?.value.toUpperCase()
+        ?? summary.match(/^([A-Z.]{1,6})\b.*earnings/i)?.[1].toUpperCase()
+        ?? null;
+
+      if (!type) {
+        errors.push(`Skipped "${summary}": unknown event type`);
+      } else if (!time) {
+        errors.push(`Skipped "${summary}": unsupported DTSTART`);
+      } else if (type === 'EARNINGS' && !symbol) {
+        errors.push(`Skipped "${summary}": earnings events need a symbol`);
+      } else {
+        events.push({ type, symbol: type === 'EARNINGS' ? symbol : null, time, title: summary || type });
+      }
+      current = null;
+      continue;
+    }
+    if (!current) {
+      continue;
+    }
+
+    const separator = line.indexOf(':');
+    if (separator < 0) continue;
+    const [name, ...params] = line.slice(0, separator).split(';');
+    current[name.toUpperCase()] = { params: params.join(';'), value: line.slice(separator + 1).trim() };
+  }
+
+  return { events, errors };
+}
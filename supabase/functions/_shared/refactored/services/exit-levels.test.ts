@@ -0,0 +1,218 @@
+/**
+ * Tests for ATR stops, trailing stops, tiered partial exits and greeks exits
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { calculateStopLevel, calculateTrailingLevel, evaluateGreeksExit, nextTierExit } from './exit-levels.ts';
+import { DecisionOrchestrator } from '../orchestrator/decision-orchestrator.ts';
+import { PositionManager } from './position-manager.ts';
+import { RiskManager } from './risk-manager.ts';
+import { PositionSizingService } from './position-sizing-service.ts';
+import { ConfluenceCalculator } from './confluence-calculator.ts';
+import type { ContextCache } from '../cache/context-cache.ts';
+import type { GEXService } from './gex-service.ts';
+import { SimulatedClock } from '../core/clock.ts';
+import { defaultConfig } from '../core/config.ts';
+import type { Position, Signal } from '../core/types.ts';
+
+// Wednesday 11:00 ET, well before the time exit
+const NOW = new Date('2026-03-04T16:00:00.000Z');
+
+function position(overrides: Partial<Position> = {}): Position {
+  return {
+    id: 'pos-1',
+    signalId: 'sig-1',
+    symbol: 'SPY',
+    direction: 'CALL',
+    quantity: 8,
+    originalQuantity: 8,
+    entryPrice: 2,
+    entryTime: new Date('2026-03-04T15:00:00.000Z'),
+    status: 'OPEN',
+    underlying: 'SPY',
+    expiration: '2026-03-20',
+    ...overrides,
+  };
+}
+
+describe('exit levels', () => {
+  it('scales the stop by ATR and delta and clamps it', () => {
+    // 1.5 ATR x 0.5 delta x 0.8 ATR = 0.60 of a 2.00 premium
+    const stop = calculateStopLevel(position(), defaultConfig, { atr: 0.8, delta: 0.5, atrPercentile: 50 });
+    expect(stop.atrScaled).toBe(true);
+    expect(stop.stopPercent).toBeCloseTo(-30, 5);
+    expect(calculateStopLevel(position(), defaultConfig, { atr: 0.8, delta: -0.5, atrPercentile: 90 }).stopPercent)
+      .toBeCloseTo(-39, 5);
+    expect(calculateStopLevel(position(), defaultConfig, { atr: 0.1, delta: 0.5 }).stopPercent).toBe(-15);
+    expect(calculateStopLevel(position(), defaultConfig, { atr: 0.8 }))
+      .toMatchObject({ stopPercent: -30, atrScaled: false });
+  });
+
+  it('starts trailing after activation and ratchets up', () => {
+    expect(calculateTrailingLevel(position(), 2.3, defaultConfig)).toMatchObject({ highWaterMark: 2.3, stopPrice: null });
+
+    const active = calculateTrailingLevel(position({ highWaterMark: 3 }), 2.8, defaultConfig);
+    expect(active.highWaterMark).toBe(3);
+    expect(active.stopPrice).toBeCloseTo(2.55, 5);
+
+    expect(calculateTrailingLevel(position({ highWaterMark: 3, trailingStopPrice: 2.7 }), 2.8, defaultConfig).stopPrice).toBe(2.7);
+    // After a partial exit the stop sits at breakeven or better
+    expect(calculateTrailingLevel(position({ exitTiersTaken: 1, highWaterMark: 2.1 }), 2.1, defaultConfig).stopPrice).toBe(2);
+  });
+
+  it('takes each tier once against the original quantity', () => {
+    expect(nextTierExit(position(), 20, defaultConfig)).toBeNull();
+    expect(nextTierExit(position(), 26, defaultConfig)).toEqual({ tier: 1, quantity: 2, profitPercent: 25 });
+    expect(nextTierExit(position({ quantity: 6, exitTiersTaken: 1 }), 26, defaultConfig)).toBeNull();
+    expect(nextTierExit(position({ quantity: 6, exitTiersTaken: 1 }), 45, defaultConfig)).toEqual({ tier: 2, quantity: 2, profitPercent: 40 });
+    expect(nextTierExit(position({ quantity: 4, exitTiersTaken: 2 }), 45, defaultConfig)).toBeNull();
+    // A single contract is left to the trailing stop
+    expect(nextTierExit(position({ quantity: 1, originalQuantity: 1 }), 45, defaultConfig)).toBeNull();
+  });
+
+  it('exits on delta, IV crush and theta burn thresholds', () => {
+    const entryGreeks = { delta: 0.5, gamma: 0.05, theta: -0.05, vega: 0.1, impliedVolatility: 0.3 };
+
+    expect(evaluateGreeksExit(position(), 2, defaultConfig, { delta: -0.85 }).exitReason).toBe('DELTA_THRESHOLD');
+
+    const crush = evaluateGreeksExit(position({ entryGreeks }), 2, defaultConfig, { delta: 0.5, impliedVolatility: 0.21 });
+    expect(crush.exitReason).toBe('IV_CRUSH');
+    expect(crush.ivChangePercent).toBeCloseTo(-30, 5);
+    expect(crush.message).toContain('IV crush');
+
+    // 0.10 of a 2.00 option is 5% a day
+    const theta = evaluateGreeksExit(position(), 2, defaultConfig, { delta: 0.5, theta: -0.1 });
+    expect(theta).toMatchObject({ exitReason: 'THETA_DECAY', thetaBurnPercent: 5 });
+
+    const hold = evaluateGreeksExit(position({ entryGreeks }), 2, defaultConfig, {
+      delta: 0.6,
+      theta: -0.05,
+      impliedVolatility: 0.27,
+    });
+    expect(hold.exitReason).toBeNull();
+    // No entry IV: the IV check is skipped
+    expect(evaluateGreeksExit(position(), 2, defaultConfig, { impliedVolatility: 0.1 }).exitReason).toBeNull();
+  });
+});
+
+describe('DecisionOrchestrator partial and trailing exits', () => {
+  const orchestrator = new DecisionOrchestrator(
+    { getContext: vi.fn() } as unknown as ContextCache,
+    { detectFlip: vi.fn().mockResolvedValue({ hasFlipped: false }) } as unknown as GEXService,
+    new PositionManager({}, defaultConfig),
+    new RiskManager(defaultConfig),
+    new PositionSizingService(defaultConfig),
+    new ConfluenceCalculator(),
+    defaultConfig,
+    undefined,
+    new SimulatedClock(NOW)
+  );
+
+  it('closes a tier as a partial exit and tracks the high-water mark', async () => {
+    const decision = await orchestrator.orchestrateExitDecision(position({ currentPrice: 2.6 }));
+
+    expect(decision).toMatchObject({
+      decision: 'EXIT',
+      exitReason: 'PARTIAL_TARGET',
+      quantity: 2,
+      partial: true,
+      exitTier: 1,
+      tracking: { highWaterMark: 2.6 },
+    });
+    expect(decision.calculations.partialTarget).toBe(true);
+    expect(decision.tracking?.trailingStopPrice).toBeCloseTo(2.21, 5);
+  });
+
+  it('closes the remainder on the trailing stop', async () => {
+    const decision = await orchestrator.orchestrateExitDecision(
+      position({ quantity: 4, exitTiersTaken: 2, highWaterMark: 3, currentPrice: 2.5 })
+    );
+
+    expect(decision).toMatchObject({ decision: 'EXIT', exitReason: 'TRAILING_STOP', quantity: 4, partial: false });
+    expect(decision.calculations.trailingStop).toBe(true);
+  });
+
+  it('uses the ATR stop when volatility data is provided', async () => {
+    const decision = await orchestrator.orchestrateExitDecision(
+      position({ currentPrice: 1.65 }),
+      { atr: 0.4, delta: 0.5, atrPercentile: 50 }
+    );
+
+    // 1.5 x 0.5 x 0.4 = 0.30 of premium -> 15% stop
+    expect(decision).toMatchObject({ decision: 'EXIT', exitReason: 'STOP_LOSS' });
+    expect(decision.calculations.stopLossPercent).toBeCloseTo(-15, 5);
+
+    const hold = await orchestrator.orchestrateExitDecision(position({ currentPrice: 1.65 }));
+    expect(hold.decision).toBe('HOLD');
+    expect(hold.tracking).toEqual({ highWaterMark: 2, trailingStopPrice: null });
+  });
+
+  it('exits on IV crush against the entry IV', async () => {
+    const decision = await orchestrator.orchestrateExitDecision(
+      position({
+        currentPrice: 2.1,
+        entryGreeks: { delta: 0.5, gamma: 0.05, theta: -0.04, vega: 0.1, impliedVolatility: 0.4 },
+      }),
+      { delta: 0.55, theta: -0.04, impliedVolatility: 0.3 }
+    );
+
+    expect(decision).toMatchObject({ decision: 'EXIT', exitReason: 'IV_CRUSH', partial: false });
+    expect(decision.calculations).toMatchObject({ greeksExit: true, delta: 0.55 });
+    expect(decision.calculations.ivChangePercent).toBeCloseTo(-25, 5);
+  });
+});
+
+describe('PositionManager.reducePosition', () => {
+  function manager() {
+    const eq = vi.fn().mockResolvedValue({ error: null });
+    const client = {
+      from: vi.fn().mockReturnThis(),
+      insert: vi.fn().mockResolvedValue({ error: null }),
+      update: vi.fn().mockReturnValue({ eq }),
+    };
+    return { client, manager: new PositionManager(client, defaultConfig, new SimulatedClock(NOW)) };
+  }
+
+  const signal: Signal = {
+    id: 'sig-1',
+    source: 'TRADINGVIEW',
+    symbol: 'SPY',
+    direction: 'CALL',
+    timeframe: '5m',
+    timestamp: NOW,
+    metadata: {},
+  };
+
+  it('books partial exits and closes on the last contracts', async () => {
+    const { client, manager: positions } = manager();
+    const { position: opened } = await positions.openPosition(signal, 4, 2);
+
+    const partial = await positions.reducePosition(opened!.id, 1, 2.5, 1);
+    expect(partial).toMatchObject({ success: true, realizedPnL: 50 });
+    expect(partial.position).toMatchObject({ quantity: 3, originalQuantity: 4, exitTiersTaken: 1, status: 'OPEN' });
+    expect(client.update).toHaveBeenLastCalledWith(expect.objectContaining({ quantity: 3, realized_pnl: 50, exit_tiers_taken: 1 }));
+
+    const rest = await positions.reducePosition(opened!.id, 3, 1.5);
+    expect(rest.position).toMatchObject({ quantity: 0, status: 'CLOSED', realizedPnL: -100 });
+    expect(client.update).toHaveBeenLastCalledWith(expect.objectContaining({ status: 'CLOSED', realized_pnl: -100 }));
+
+    expect((await positions.reducePosition(opened!.id, 1, 2)).success).toBe(false);
+  });
+
+  it('records entry greeks when the contract is known', async () => {
+    const { client } = manager();
+    const greeks = { delta: 0.45, gamma: 0.04, theta: -0.06, vega: 0.12, impliedVolatility: 0.28 };
+    const provider = vi.fn().mockResolvedValue(greeks);
+    const positions = new PositionManager(client, defaultConfig, new SimulatedClock(NOW), undefined, provider);
+
+    const { position: opened } = await positions.openPosition({
+      ...signal,
+      id: 'sig-2',
+      metadata: { parsed_signal: { underlying: 'SPY', strike: 580, expiration: '2026-03-20', option_type: 'CALL' } },
+    }, 2, 2);
+
+    expect(provider).toHaveBeenCalledWith({ underlying: 'SPY', strike: 580, expiration: '2026-03-20', optionType: 'CALL' });
+    expect(opened?.entryGreeks).toEqual(greeks);
+    expect(client.insert).toHaveBeenCalledWith(expect.objectContaining({ entry_delta: 0.45, entry_iv: 0.28 }));
+  });
+});
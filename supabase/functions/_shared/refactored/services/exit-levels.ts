@@ -0,0 +1,224 @@
+/**
+ * Exit level calculations for the refactored exit path
+ *
+ * ATR-scaled stop losses, high-water-mark trailing stops, tiered partial
+ * profit taking and greeks/IV exits. Percentages are of the option premium;
+ * tier quantities are of the original position size so the remainder is left
+ * to trail. Short positions use config.exit.short instead: a fixed stop in
+ * percent of the credit and a delta cap, with no trailing or tiers.
+ */
+
+import { Config, ExitMarketData, ExitReason, ExitTier, Position } from '../core/types.ts';
+
+export interface StopLevel {
+  stopPercent: number; // Negative, e.g. -25
+  atrScaled: boolean;
+  reasoning: string;
+}
+
+export interface TrailingLevel {
+  highWaterMark: number;
+  stopPrice: number | null; // Null until the trail is active
+  reasoning: string;
+}
+
+export interface TierExit {
+  tier: number; // 1-based
+  quantity: number;
+  profitPercent: number;
+}
+
+export interface GreeksExitCheck {
+  exitReason: ExitReason | null;
+  message?: string; // Why the first triggered check fired
+  delta?: number;
+  ivChangePercent?: number;
+  thetaBurnPercent?: number;
+  reasoning: string[];
+}
+
+/**
+ * Stop loss as a percent of premium. With an underlying ATR and option delta
+ * the stop sits `multiplier` ATRs of premium away, widened in high-volatility
+ * regimes and tightened in quiet ones, then clamped to [min, max]. Falls back
+ * to config.exit.stopLossPercent without that data.
+ */
+export function calculateStopLevel(position: Position, config: Config, market?: ExitMarketData): StopLevel {
+  if (position.side === 'SHORT') {
+    const shortStop = config.exit?.short?.stopLossPercent ?? -100;
+    return { stopPercent: shortStop, atrScaled: false, reasoning: `Short stop: ${shortStop}% of credit` };
+  }
+
+  const fixedStop = config.exit?.stopLossPercent || -30;
+  const atrStop = config.exit?.atrStop;
+
+  if (!atrStop || !market?.atr || market.atr <= 0 || market.delta === undefined || position.entryPrice <= 0) {
+    return { stopPercent: fixedStop, atrScaled: false, reasoning: `Fixed stop: ${fixedStop}%` };
+  }
+
+  const premiumMove = market.atr * Math.abs(market.delta) * atrStop.multiplier;
+  let stopPercent = (premiumMove / position.entryPrice) * 100;
+
+  const percentile = market.atrPercentile ?? 50;
+  if (percentile > 80) {
+    stopPercent *= 1.3;
+  } else if (percentile > 60) {
+    stopPercent *= 1.15;
+  } else if (percentile < 20) {
+    stopPercent *= 0.85;
+  }
+
+  stopPercent = Math.max(atrStop.minStopPercent, Math.min(atrStop.maxStopPercent, stopPercent));
+
+  return {
+    stopPercent: -stopPercent,
+    atrScaled: true,
+    reasoning: `ATR stop: -${stopPercent.toFixed(1)}% (ATR ${market.atr.toFixed(2)} x delta ${Math.abs(market.delta).toFixed(2)} x ${atrStop.multiplier}, percentile ${percentile})`,
+  };
+}
+
+/**
+ * Update the high-water mark and derive the trailing stop. The trail starts
+ * once the mark is activationPercent above entry; after a partial exit the
+ * stop never sits below breakeven.
+ */
+export function calculateTrailingLevel(position: Position, currentPrice: number, config: Config): TrailingLevel {
+  const highWaterMark = Math.max(position.highWaterMark ?? position.entryPrice, currentPrice);
+  const trailing = config.exit?.trailing;
+
+  if (position.side === 'SHORT') {
+    return { highWaterMark, stopPrice: null, reasoning: 'Trailing stop not used for short positions' };
+  }
+  if (!trailing) {
+    return { highWaterMark, stopPrice: null, reasoning: 'Trailing stop disabled' };
+  }
+
+  const activationPrice = position.entryPrice * (1 + trailing.activationPercent / 100);
+  const tiersTaken = position.exitTiersTaken ?? 0;
+
+  if (highWaterMark < activationPrice && tiersTaken === 0) {
+    return {
+      highWaterMark,
+      stopPrice: null,
+      reasoning: `Trailing stop inactive: high ${highWaterMark.toFixed(2)} < activation ${activationPrice.toFixed(2)}`,
+    };
+  }
+
+  let stopPrice = highWaterMark * (1 - trailing.trailPercent / 100);
+  if (tiersTaken > 0) {
+    stopPrice = Math.max(stopPrice, position.entryPrice);
+  }
+  // A persisted stop only ratchets up
+  stopPrice = Math.max(stopPrice, position.trailingStopPrice ?? 0);
+
+  return {
+    highWaterMark,
+    stopPrice,
+    reasoning: `Trailing stop ${stopPrice.toFixed(2)} (${trailing.trailPercent}% below high ${highWaterMark.toFixed(2)})`,
+  };
+}
+
+/**
+ * The next untaken tier the P&L has reached, sized against the original
+ * quantity. Tiers that would close the whole remainder are skipped so the
+ * last contracts are left to the trailing stop.
+ */
+export function nextTierExit(position: Position, pnlPercent: number, config: Config): TierExit | null {
+  if (position.side === 'SHORT') {
+    return null;
+  }
+
+  const tiers: ExitTier[] = config.exit?.tiers ?? [];
+  const taken = position.exitTiersTaken ?? 0;
+  const tier = tiers[taken];
+
+  if (!tier || pnlPercent < tier.profitPercent) {
+    return null;
+  }
+
+  const originalQuantity = position.originalQuantity ?? position.quantity;
+  const quantity = Math.max(1, Math.floor(originalQuantity * tier.closePercent / 100));
+  if (quantity >= position.quantity) {
+    return null;
+  }
+
+  return { tier: taken + 1, quantity, profitPercent: tier.profitPercent };
+}
+
+/**
+ * Greeks and IV exits, checked in order: |delta| at or past the threshold
+ * (deep ITM, little convexity left), IV down ivCrushPercent from the entry IV,
+ * and daily theta burning thetaBurnPercent of the position value. Checks
+ * without data are skipped. Shorts only check delta, against
+ * exit.short.maxDelta; IV falling and theta decay are what they are paid for.
+ */
+export function evaluateGreeksExit(
+  position: Position,
+  currentPrice: number,
+  config: Config,
+  market?: ExitMarketData
+): GreeksExitCheck {
+  const thresholds = config.exit?.greeks;
+  if (!thresholds || !market) {
+    return { exitReason: null, reasoning: ['Greeks exits skipped: no greeks data'] };
+  }
+
+  const short = position.side === 'SHORT';
+  const deltaThreshold = short ? config.exit?.short?.maxDelta ?? thresholds.deltaThreshold : thresholds.deltaThreshold;
+  const check: GreeksExitCheck = { exitReason: null, reasoning: [] };
+  const trigger = (reason: ExitReason, message: string) => {
+    check.reasoning.push(message);
+    if (!check.exitReason) {
+      check.exitReason = reason;
+      check.message = message;
+    }
+  };
+
+  if (market.delta !== undefined) {
+    check.delta = market.delta;
+    const absDelta = Math.abs(market.delta);
+    if (absDelta >= deltaThreshold) {
+      trigger('DELTA_THRESHOLD', `Delta threshold breached: |${market.delta.toFixed(3)}| >= ${deltaThreshold}`);
+    } else {
+      check.reasoning.push(`Delta ${market.delta.toFixed(3)} within ${deltaThreshold}`);
+    }
+  }
+
+  if (short) {
+    if (check.reasoning.length === 0) {
+      check.reasoning.push('Greeks exits skipped: no delta for short position');
+    }
+    return check;
+  }
+
+  const entryIv = position.entryGreeks?.impliedVolatility;
+  if (entryIv && entryIv > 0 && market.impliedVolatility !== undefined && market.impliedVolatility > 0) {
+    check.ivChangePercent = ((market.impliedVolatility - entryIv) / entryIv) * 100;
+    if (-check.ivChangePercent >= thresholds.ivCrushPercent) {
+      trigger(
+        'IV_CRUSH',
+        `IV crush: ${(entryIv * 100).toFixed(1)}% → ${(market.impliedVolatility * 100).toFixed(1)}% ` +
+        `(${check.ivChangePercent.toFixed(1)}% <= -${thresholds.ivCrushPercent}%)`
+      );
+    } else {
+      check.reasoning.push(`IV change ${check.ivChangePercent.toFixed(1)}% since entry`);
+    }
+  }
+
+  if (market.theta !== undefined && currentPrice > 0) {
+    check.thetaBurnPercent = (Math.abs(market.theta) / currentPrice) * 100;
+    if (check.thetaBurnPercent >= thresholds.thetaBurnPercent) {
+      trigger(
+        'THETA_DECAY',
+        `Theta decay excessive: ${check.thetaBurnPercent.toFixed(1)}% of value daily >= ${thresholds.thetaBurnPercent}%`
+      );
+    } else {
+      check.reasoning.push(`Theta burn ${check.thetaBurnPercent.toFixed(1)}% of value daily`);
+    }
+  }
+
+  if (check.reasoning.length === 0) {
+    check.reasoning.push('Greeks exits skipped: no greeks data');
+  }
+  return check;
+}
@@ -0,0 +1,127 @@
+/**
+ * Tests for expiration-day flattening, settlement and pin risk
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { ExpirationService, intrinsicValue } from './expiration-service.ts';
+import { DecisionOrchestrator } from '../orchestrator/decision-orchestrator.ts';
+import { PositionManager } from './position-manager.ts';
+import { RiskManager } from './risk-manager.ts';
+import { PositionSizingService } from './position-sizing-service.ts';
+import { ConfluenceCalculator } from './confluence-calculator.ts';
+import type { ContextCache } from '../cache/context-cache.ts';
+import type { GEXService } from './gex-service.ts';
+import { SimulatedClock } from '../core/clock.ts';
+import { defaultConfig } from '../core/config.ts';
+import type { Position } from '../core/types.ts';
+
+// Friday 2026-03-20 is a monthly expiration; ET is UTC-4
+const EXPIRATION = '2026-03-20';
+const service = new ExpirationService(defaultConfig);
+
+function position(overrides: Partial<Position> = {}): Position {
+  return {
+    id: 'pos-1',
+    signalId: 'sig-1',
+    symbol: 'SPY',
+    direction: 'CALL',
+    quantity: 2,
+    entryPrice: 2,
+    entryTime: new Date('2026-03-18T15:00:00.000Z'),
+    status: 'OPEN',
+    underlying: 'SPY',
+    strike: 580,
+    expiration: EXPIRATION,
+    optionType: 'CALL',
+    ...overrides,
+  };
+}
+
+describe('ExpirationService', () => {
+  it('flattens at the expiration-day cutoff, earlier for 0DTE', () => {
+    const at1445 = new Date('2026-03-20T18:45:00.000Z');
+    expect(service.checkFlatten(position(), at1445)).toMatchObject({ flatten: false, zeroDte: false });
+    expect(service.checkFlatten(position(), new Date('2026-03-20T19:00:00.000Z')).flatten).toBe(true);
+
+    const zeroDte = position({ entryTime: new Date('2026-03-20T14:00:00.000Z') });
+    expect(service.checkFlatten(zeroDte, at1445)).toMatchObject({ flatten: true, zeroDte: true });
+    expect(service.checkFlatten(zeroDte, new Date('2026-03-20T18:15:00.000Z')).flatten).toBe(false);
+
+    // Not expiration day
+    expect(service.checkFlatten(position(), new Date('2026-03-19T19:30:00.000Z')).flatten).toBe(false);
+  });
+
+  it('shifts the cutoff with early closes', () => {
+    // 2026-11-27 closes at 13:00 ET (UTC-5); 15:00 becomes 12:00
+    const early = position({ expiration: '2026-11-27', entryTime: new Date('2026-11-25T15:00:00.000Z') });
+    expect(service.checkFlatten(early, new Date('2026-11-27T16:55:00.000Z')).flatten).toBe(false);
+    expect(service.checkFlatten(early, new Date('2026-11-27T17:00:00.000Z')).flatten).toBe(true);
+  });
+
+  it('treats the series as expired once options stop trading', () => {
+    const spy = { underlying: 'SPY', expiration: EXPIRATION };
+    expect(service.isExpired(spy, new Date('2026-03-20T19:59:00.000Z'))).toBe(false);
+    expect(service.isExpired(spy, new Date('2026-03-20T20:00:00.000Z'))).toBe(true);
+    expect(service.isExpired(spy, new Date('2026-03-23T14:00:00.000Z'))).toBe(true);
+    expect(service.isExpired(spy, new Date('2026-03-19T20:30:00.000Z'))).toBe(false);
+  });
+
+  it('reads the expiration-day close from the quote only until the next session ends', () => {
+    // Monday 2026-03-23 is the next session; it opens 13:30 UTC
+    expect(service.settlementCloseSource(EXPIRATION, new Date('2026-03-20T20:30:00.000Z'))).toBe('LAST_PRICE');
+    expect(service.settlementCloseSource(EXPIRATION, new Date('2026-03-21T15:00:00.000Z'))).toBe('LAST_PRICE');
+    expect(service.settlementCloseSource(EXPIRATION, new Date('2026-03-23T13:00:00.000Z'))).toBe('LAST_PRICE');
+    expect(service.settlementCloseSource(EXPIRATION, new Date('2026-03-23T13:30:00.000Z'))).toBe('PREVIOUS_CLOSE');
+    expect(service.settlementCloseSource(EXPIRATION, new Date('2026-03-23T21:00:00.000Z'))).toBe('PREVIOUS_CLOSE');
+    expect(service.settlementCloseSource(EXPIRATION, new Date('2026-03-24T14:00:00.000Z'))).toBeNull();
+  });
+
+  it('treats settlement as overdue once the next session has passed', () => {
+    expect(service.isSettlementOverdue(EXPIRATION, new Date('2026-03-23T21:00:00.000Z'))).toBe(false);
+    expect(service.isSettlementOverdue(EXPIRATION, new Date('2026-03-24T05:00:00.000Z'))).toBe(true);
+  });
+
+  it('settles at intrinsic value with cash settlement for indexes', () => {
+    expect(intrinsicValue('CALL', 580, 583.456)).toBe(3.46);
+    expect(intrinsicValue('PUT', 580, 583)).toBe(0);
+
+    expect(service.settle({ underlying: 'SPY', strike: 580, expiration: EXPIRATION, optionType: 'CALL' }, 583))
+      .toMatchObject({ outcome: 'EXERCISED', settlementPrice: 3, cashSettled: false });
+    expect(service.settle({ underlying: 'SPY', strike: 580, expiration: EXPIRATION, optionType: 'CALL' }, 583, true).outcome)
+      .toBe('ASSIGNED');
+    expect(service.settle({ underlying: 'SPX', strike: 5800, expiration: EXPIRATION, optionType: 'PUT' }, 5790))
+      .toMatchObject({ outcome: 'CASH_SETTLED', settlementPrice: 10, cashSettled: true });
+    expect(service.settle({ underlying: 'SPX', strike: 5800, expiration: EXPIRATION, optionType: 'CALL' }, 5790))
+      .toMatchObject({ outcome: 'EXPIRED_WORTHLESS', settlementPrice: 0 });
+  });
+
+  it('flags pin risk near the strike on expiration day only', () => {
+    const expirationDay = new Date('2026-03-20T17:00:00.000Z');
+    expect(service.checkPinRisk({ strike: 580, expiration: EXPIRATION }, 581.5, expirationDay).atRisk).toBe(true);
+    expect(service.checkPinRisk({ strike: 580, expiration: EXPIRATION }, 585, expirationDay).atRisk).toBe(false);
+    expect(service.checkPinRisk({ strike: 580, expiration: EXPIRATION }, 580, new Date('2026-03-19T17:00:00.000Z')).atRisk)
+      .toBe(false);
+  });
+});
+
+describe('DecisionOrchestrator expiration flatten', () => {
+  it('exits with EXPIRATION after the flatten time', async () => {
+    const now = new Date('2026-03-20T19:05:00.000Z');
+    const orchestrator = new DecisionOrchestrator(
+      { getContext: vi.fn() } as unknown as ContextCache,
+      { detectFlip: vi.fn().mockResolvedValue({ hasFlipped: false }) } as unknown as GEXService,
+      new PositionManager({}, defaultConfig),
+      new RiskManager(defaultConfig),
+      new PositionSizingService(defaultConfig),
+      new ConfluenceCalculator(),
+      defaultConfig,
+      undefined,
+      new SimulatedClock(now)
+    );
+
+    const decision = await orchestrator.orchestrateExitDecision(position({ currentPrice: 2.05 }));
+
+    expect(decision).toMatchObject({ decision: 'EXIT', exitReason: 'EXPIRATION', quantity: 2 });
+    expect(decision.calculations.expirationExit).toBe(true);
+  });
+});
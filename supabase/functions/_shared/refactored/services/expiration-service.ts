@@ -0,0 +1,209 @@
+/**
+ * Expiration-day handling
+ *
+ * Flattens positions ahead of the close on their expiration day (earlier for
+ * positions opened that day), settles paper positions still open once the
+ * series has stopped trading against the expiration-day close, and flags pin
+ * risk when the underlying trades near the strike on expiration day. Times
+ * come from config.expiration and are shifted with the session on early-close
+ * days.
+ */
+
+import { Config, Position } from '../core/types.ts';
+import { Clock, systemClock } from '../core/clock.ts';
+import { defaultConfig } from '../core/config.ts';
+import { CASH_SETTLED_INDEXES, marketCalendar } from '../../market-calendar.ts';
+
+/**
+ * How an expired contract settled. In-the-money equity options are exercised
+ * (long) or assigned (short) into shares, which paper trading books as the
+ * intrinsic value; index options settle to cash.
+ */
+export type SettlementOutcome = 'EXPIRED_WORTHLESS' | 'CASH_SETTLED' | 'EXERCISED' | 'ASSIGNED';
+
+// Quote field that carries the expiration-day close of the underlying
+export type SettlementCloseSource = 'LAST_PRICE' | 'PREVIOUS_CLOSE';
+
+export interface ExpirationFlattenCheck {
+  flatten: boolean;
+  zeroDte: boolean;
+  cutoff: Date | null;
+  reasoning: string;
+}
+
+export interface ExpirationSettlement {
+  outcome: SettlementOutcome;
+  settlementPrice: number; // Per-share intrinsic value at the underlying close
+  underlyingPrice: number;
+  cashSettled: boolean;
+  reasoning: string;
+}
+
+export interface ExpiringContract {
+  underlying: string;
+  strike: number;
+  expiration: string;
+  optionType: 'CALL' | 'PUT';
+}
+
+export interface PinRiskCheck {
+  atRisk: boolean;
+  distancePercent: number; // |underlying - strike| / strike, percent
+  reasoning: string;
+}
+
+/**
+ * Value of an option at expiration with the underlying at `underlyingPrice`
+ */
+export function intrinsicValue(optionType: 'CALL' | 'PUT', strike: number, underlyingPrice: number): number {
+  const value = optionType === 'CALL' ? underlyingPrice - strike : strike - underlyingPrice;
+  return Math.max(0, Math.round(value * 100) / 100);
+}
+
+export function isCashSettled(underlying: string): boolean {
+  return CASH_SETTLED_INDEXES.includes(underlying.trim().toUpperCase());
+}
+
+export class ExpirationService {
+  private readonly flattenTime: string;
+  private readonly zeroDteFlattenTime: string;
+  private readonly pinRiskPercent: number;
+
+  constructor(config: Config, private clock: Clock = systemClock) {
+    const expiration = config.expiration ?? defaultConfig.expiration!;
+    this.flattenTime = expiration.flattenTime;
+    this.zeroDteFlattenTime = expiration.zeroDteFlattenTime;
+    this.pinRiskPercent = expiration.pinRiskPercent;
+  }
+
+  /**
+   * Whether a position should be closed because it expires today and the
+   * flatten time has passed. Positions opened on their expiration day (0DTE)
+   * use zeroDteFlattenTime.
+   */
+  checkFlatten(position: Position, now: Date = this.clock.now()): ExpirationFlattenCheck {
+    if (!position.expiration) {
+      return { flatten: false, zeroDte: false, cutoff: null, reasoning: 'No expiration on position - expiration flatten skipped' };
+    }
+
+    const date = marketCalendar.sessionDate(now);
+    const expiration = position.expiration.slice(0, 10);
+    if (date !== expiration) {
+      return {
+        flatten: false,
+        zeroDte: false,
+        cutoff: null,
+        reasoning: `${marketCalendar.daysToExpiration(expiration, now)} DTE - no expiration-day flatten`,
+      };
+    }
+
+    const zeroDte = marketCalendar.sessionDate(position.entryTime) === expiration;
+    const cutoff = marketCalendar.beforeClose(date, zeroDte ? this.zeroDteFlattenTime : this.flattenTime);
+    if (!cutoff || now < cutoff) {
+      return {
+        flatten: false,
+        zeroDte,
+        cutoff,
+        reasoning: `Expiration day${zeroDte ? ' (0DTE)' : ''}: flatten at ${cutoff?.toISOString() ?? 'n/a'}`,
+      };
+    }
+
+    return {
+      flatten: true,
+      zeroDte,
+      cutoff,
+      reasoning: `Expiration day${zeroDte ? ' (0DTE)' : ''} flatten time ${cutoff.toISOString()} reached`,
+    };
+  }
+
+  /**
+   * Whether the series has stopped trading: after the options close on the
+   * expiration date, or any time after that date
+   */
+  isExpired(contract: Pick<ExpiringContract, 'underlying' | 'expiration'>, now: Date = this.clock.now()): boolean {
+    const expiration = contract.expiration.slice(0, 10);
+    const dte = marketCalendar.daysToExpiration(expiration, now);
+    if (dte !== 0) {
+      return dte < 0;
+    }
+    const close = marketCalendar.optionsCloseTime(contract.underlying, expiration, expiration);
+    return close !== null && now >= close;
+  }
+
+  /**
+   * Which quote field still holds the expiration-day close: the last price
+   * until the next session opens, then the previous close until that session
+   * is over. Later runs get null; a quote no longer shows that close.
+   */
+  settlementCloseSource(expiration: string, now: Date = this.clock.now()): SettlementCloseSource | null {
+    const nextSession = marketCalendar.nextTradingDay(expiration.slice(0, 10));
+    const today = marketCalendar.sessionDate(now);
+    if (today > nextSession) {
+      return null;
+    }
+    const session = marketCalendar.getSession(nextSession)!;
+    return today === nextSession && now >= session.open ? 'PREVIOUS_CLOSE' : 'LAST_PRICE';
+  }
+
+  /**
+   * Whether an expired position still open has outlived the settlement
+   * window. Brokers book exercise, assignment and worthless expiries before
+   * the next session; one still open after that session needs a person.
+   */
+  isSettlementOverdue(expiration: string, now: Date = this.clock.now()): boolean {
+    return marketCalendar.sessionDate(now) > marketCalendar.nextTradingDay(expiration.slice(0, 10));
+  }
+
+  /**
+   * Settle an expired contract at intrinsic value against the underlying close
+   */
+  settle(contract: ExpiringContract, underlyingClose: number, short = false): ExpirationSettlement {
+    const { underlying, strike, optionType } = contract;
+    const cashSettled = isCashSettled(underlying);
+    const settlementPrice = intrinsicValue(optionType, strike, underlyingClose);
+    const outcome: SettlementOutcome = settlementPrice === 0
+      ? 'EXPIRED_WORTHLESS'
+      : cashSettled ? 'CASH_SETTLED' : short ? 'ASSIGNED' : 'EXERCISED';
+
+    const detail = settlementPrice === 0
+      ? 'out of the money, expired worthless'
+      : cashSettled
+        ? `cash-settled at ${settlementPrice.toFixed(2)}`
+        : `${short ? 'assigned' : 'exercised'} at intrinsic ${settlementPrice.toFixed(2)}`;
+
+    return {
+      outcome,
+      settlementPrice,
+      underlyingPrice: underlyingClose,
+      cashSettled,
+      reasoning: `${underlying} ${strike} ${optionType} ${detail} (underlying close ${underlyingClose.toFixed(2)})`,
+    };
+  }
+
+  /**
+   * Pin risk: on expiration day, the underlying within pinRiskPercent of the
+   * strike, where whether the contract finishes in the money is a coin flip
+   */
+  checkPinRisk(
+    contract: Pick<ExpiringContract, 'strike' | 'expiration'>,
+    underlyingPrice: number,
+    now: Date = this.clock.now()
+  ): PinRiskCheck {
+    const distancePercent = contract.strike > 0
+      ? (Math.abs(underlyingPrice - contract.strike) / contract.strike) * 100
+      : Infinity;
+
+    if (marketCalendar.sessionDate(now) !== contract.expiration.slice(0, 10)) {
+      return { atRisk: false, distancePercent, reasoning: 'Not expiration day' };
+    }
+
+    const atRisk = distancePercent <= this.pinRiskPercent;
+    return {
+      atRisk,
+      distancePercent,
+      reasoning: atRisk
+        ? `Pin risk: underlying ${underlyingPrice.toFixed(2)} is ${distancePercent.toFixed(2)}% from the ${contract.strike} strike at expiration`
+        : `Underlying ${distancePercent.toFixed(2)}% from strike`,
+    };
+  }
+}
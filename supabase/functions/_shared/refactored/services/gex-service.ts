@@ -5,6 +5,7 @@
 
 import { GEXSignal, Config } from '../core/types.ts';
 import { DegradedModeTracker } from '../monitoring/degraded-mode-tracker.ts';
+import { Clock, systemClock } from '../core/clock.ts';
 
 export class GEXService {
   private maxStaleMs: number;
@@ -13,7 +14,8 @@ export class GEXService {
   constructor(
     private supabaseClient: any,
     private config: Config,
-    private degradedModeTracker?: DegradedModeTracker
+    private degradedModeTracker?: DegradedModeTracker,
+    private clock: Clock = systemClock
   ) {
     this.maxStaleMs = config.gex.maxStaleMinutes * 60 * 1000;
     this.staleWeightReduction = config.gex.staleWeightReduction;
@@ -78,7 +80,7 @@ export class GEXService {
       }
 
       const timestamp = new Date(data.timestamp);
-      const age = Date.now() - timestamp.getTime();
+      const age = this.clock.nowMs() - timestamp.getTime();
 
       if (this.degradedModeTracker) {
         this.degradedModeTracker.recordSuccess('GEX');
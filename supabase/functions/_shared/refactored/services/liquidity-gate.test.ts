@@ -0,0 +1,163 @@
+/**
+ * Tests for the pre-entry liquidity gate
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { LiquidityGate, type ContractChainProvider } from './liquidity-gate.ts';
+import { DecisionOrchestrator } from '../orchestrator/decision-orchestrator.ts';
+import { RiskManager } from './risk-manager.ts';
+import { PositionSizingService } from './position-sizing-service.ts';
+import { ConfluenceCalculator } from './confluence-calculator.ts';
+import type { ContextCache } from '../cache/context-cache.ts';
+import type { GEXService } from './gex-service.ts';
+import type { PositionManager } from './position-manager.ts';
+import { SimulatedClock } from '../core/clock.ts';
+import { defaultConfig } from '../core/config.ts';
+import type { Signal } from '../core/types.ts';
+import type { OptionsQuote } from '../../market-data/types.ts';
+
+const NOW = new Date('2026-03-04T15:00:00.000Z');
+
+function quote(strike: number, overrides: Partial<OptionsQuote> = {}): OptionsQuote {
+  return {
+    symbol: `SPY   260320C00${strike}000`,
+    underlying: 'SPY',
+    strike,
+    expiration: '2026-03-20',
+    option_type: 'CALL',
+    bid: 2.40,
+    ask: 2.50,
+    mid: 2.45,
+    last: 2.45,
+    mark: 2.45,
+    volume: 800,
+    open_interest: 4000,
+    delta: 0.5,
+    gamma: 0.02,
+    theta: -0.1,
+    vega: 0.2,
+    implied_volatility: 0.2,
+    underlying_price: 500,
+    quote_time: new Date(NOW.getTime() - 5000).toISOString(),
+    provider: 'tradier',
+    ...overrides,
+  };
+}
+
+function signal(strike = 500): Signal {
+  return {
+    id: 'sig-1',
+    source: 'TRADINGVIEW',
+    symbol: 'SPY',
+    direction: 'CALL',
+    timeframe: '5m',
+    timestamp: NOW,
+    metadata: {
+      price: 2.45,
+      parsed_signal: { underlying: 'SPY', strike, expiration: '2026-03-20', option_type: 'CALL' },
+    },
+  };
+}
+
+function gate(quotes: OptionsQuote[], chainProvider?: ContractChainProvider) {
+  const byStrike = new Map(quotes.map(q => [q.strike, q]));
+  return new LiquidityGate(
+    defaultConfig,
+    ({ strike }) => Promise.resolve(byStrike.get(strike!) ?? null),
+    chainProvider ?? (() => Promise.resolve(quotes)),
+    new SimulatedClock(NOW)
+  );
+}
+
+describe('LiquidityGate', () => {
+  it('approves a liquid contract and records the measured values', async () => {
+    const check = await gate([quote(500)]).checkEntry(signal());
+
+    expect(check).toMatchObject({ approved: true, rerouted: false, failures: [] });
+    expect(check.metrics).toMatchObject({ volume: 800, openInterest: 4000, quoteAgeSeconds: 5 });
+    expect(check.metrics?.spreadPercent).toBeCloseTo(4.08, 2);
+    expect(check.reasoning[0]).toContain('spread=4.1% (max 10%)');
+    expect(check.reasoning[0]).toContain('OI=4000 (min 100)');
+  });
+
+  it('flags each threshold it fails', async () => {
+    const thin = quote(500, {
+      bid: 1.00,
+      ask: 1.40,
+      volume: 2,
+      open_interest: 50,
+      quote_time: new Date(NOW.getTime() - 120_000).toISOString(),
+    });
+    const check = await gate([thin], () => Promise.resolve([])).checkEntry(signal());
+
+    expect(check.approved).toBe(false);
+    expect(check.failures).toEqual([
+      'spread 33.3% > 10%',
+      'volume 2 < 10',
+      'open interest 50 < 100',
+      'quote age 120s > 60s',
+    ]);
+  });
+
+  it('reroutes to the nearest liquid strike within range', async () => {
+    const chain = [
+      quote(490),
+      quote(495, { open_interest: 20 }),
+      quote(500, { bid: 0, ask: 2.50 }),
+      quote(505),
+      quote(515),
+    ];
+    const check = await gate(chain).checkEntry(signal());
+
+    expect(check.failures).toEqual(['no two-sided market']);
+    expect(check).toMatchObject({ approved: true, rerouted: true });
+    expect(check.contract.strike).toBe(505);
+    expect(check.reasoning.some(line => line.startsWith('Rerouted to strike 505'))).toBe(true);
+  });
+
+  it('rejects when no nearby strike qualifies or no quote exists', async () => {
+    const chain = [quote(500, { volume: 0 }), quote(505, { volume: 0 }), quote(510, { volume: 0 }), quote(515)];
+    const far = await gate(chain).checkEntry(signal());
+    expect(far.approved).toBe(false);
+    expect(far.reasoning).toContain('No liquid strike within 2 strikes of 500');
+
+    const missing = await gate([]).checkEntry(signal());
+    expect(missing).toMatchObject({ approved: false, failures: ['No quote for SPY 2026-03-20 500 CALL'] });
+  });
+});
+
+describe('DecisionOrchestrator with a liquidity gate', () => {
+  function orchestrator(liquidityGate: LiquidityGate) {
+    return new DecisionOrchestrator(
+      { getContext: vi.fn().mockResolvedValue({ vix: 20, trend: 'BULLISH', bias: 0.5, regime: 'NORMAL', timestamp: NOW }) } as unknown as ContextCache,
+      { getSignalWithMetadata: vi.fn().mockResolvedValue({ signal: null, isStale: false, effectiveWeight: 0 }) } as unknown as GEXService,
+      { wouldExceedMaxExposure: vi.fn().mockReturnValue(false), getTotalExposure: vi.fn().mockReturnValue(0) } as unknown as PositionManager,
+      new RiskManager(defaultConfig),
+      new PositionSizingService(defaultConfig),
+      new ConfluenceCalculator(),
+      defaultConfig,
+      undefined,
+      new SimulatedClock(NOW),
+      undefined,
+      liquidityGate
+    );
+  }
+
+  it('enters on the rerouted contract with the liquidity it measured', async () => {
+    const decision = await orchestrator(gate([quote(500, { open_interest: 0 }), quote(505)])).orchestrateEntryDecision(signal());
+
+    expect(decision.decision).toBe('ENTER');
+    expect(decision.contract).toEqual({ underlying: 'SPY', strike: 505, expiration: '2026-03-20', optionType: 'CALL' });
+    expect(decision.liquidity?.strike).toBe(505);
+    expect(decision.signal.metadata.parsed_signal.strike).toBe(505);
+  });
+
+  it('rejects illiquid contracts with the measured values in the reasoning', async () => {
+    const decision = await orchestrator(gate([quote(500, { volume: 1 })], () => Promise.resolve([])))
+      .orchestrateEntryDecision(signal());
+
+    expect(decision.decision).toBe('REJECT');
+    expect(decision.reasoning.some(line => line.includes('volume=1 (min 10)'))).toBe(true);
+    expect(decision.reasoning[decision.reasoning.length - 1]).toBe('REJECTED: Illiquid contract: volume 1 < 10');
+  });
+});
@@ -0,0 +1,191 @@
+/**
+ * Pre-entry liquidity gate
+ *
+ * Fetches the live quote for the contract a signal targets and checks its
+ * market quality (bid-ask spread %, volume, open interest, quote age) against
+ * config.liquidity. A failing contract is rerouted to the nearest listed
+ * strike within config.liquidity.rerouteStrikeSteps that passes, or the entry
+ * is rejected. Without a quote the gate fails closed.
+ */
+
+import { Signal, Config, EntryLiquidity } from '../core/types.ts';
+import { Clock, systemClock } from '../core/clock.ts';
+import { defaultConfig } from '../core/config.ts';
+import { getSignalContract, type OptionContractRef } from './portfolio-risk-service.ts';
+import { spreadPercent } from '../../market-data/contract-resolver.ts';
+import type { OptionsQuote } from '../../market-data/types.ts';
+
+/**
+ * Fetches the live quote for a contract; returns null when unavailable
+ */
+export type ContractQuoteProvider = (contract: OptionContractRef) => Promise<OptionsQuote | null>;
+
+/**
+ * Fetches every quote for the contract's expiration and option type
+ */
+export type ContractChainProvider = (contract: OptionContractRef) => Promise<OptionsQuote[]>;
+
+export type LiquidityConfig = NonNullable<Config['liquidity']>;
+
+// Measured market quality of one contract; spreadPercent is null for one-sided markets
+export type LiquidityMetrics = EntryLiquidity;
+
+export interface LiquidityCheck {
+  approved: boolean;
+  contract: OptionContractRef;
+  rerouted: boolean;
+  metrics: LiquidityMetrics | null;
+  failures: string[];
+  reasoning: string[];
+}
+
+export class LiquidityGate {
+  private readonly limits: LiquidityConfig;
+
+  constructor(
+    config: Config,
+    private quoteProvider: ContractQuoteProvider,
+    private chainProvider?: ContractChainProvider,
+    private clock: Clock = systemClock
+  ) {
+    this.limits = config.liquidity ?? defaultConfig.liquidity!;
+  }
+
+  /**
+   * Check the signal's contract, rerouting to a nearby strike when it fails
+   */
+  async checkEntry(signal: Signal): Promise<LiquidityCheck> {
+    const contract = getSignalContract(signal);
+    const reasoning: string[] = [];
+
+    if (contract.strike === undefined || !contract.expiration) {
+      reasoning.push('Liquidity check skipped: signal has no concrete contract');
+      return { approved: true, contract, rerouted: false, metrics: null, failures: [], reasoning };
+    }
+
+    const quote = await this.safeQuote(contract);
+    if (!quote) {
+      const failure = `No quote for ${describeContract(contract)}`;
+      reasoning.push(`Liquidity check failed: ${failure}`);
+      return { approved: false, contract, rerouted: false, metrics: null, failures: [failure], reasoning };
+    }
+
+    const metrics = this.measure(quote);
+    const failures = this.evaluate(metrics);
+    reasoning.push(`Liquidity ${describeContract(contract)}: ${this.describeMetrics(metrics)}`);
+
+    if (failures.length === 0) {
+      reasoning.push('Liquidity check passed');
+      return { approved: true, contract, rerouted: false, metrics, failures, reasoning };
+    }
+
+    reasoning.push(`Liquidity check failed: ${failures.join('; ')}`);
+
+    const alternative = await this.findAlternative(contract);
+    if (alternative) {
+      const rerouted = { ...contract, strike: alternative.strike };
+      reasoning.push(`Rerouted to strike ${alternative.strike}: ${this.describeMetrics(alternative)}`);
+      return { approved: true, contract: rerouted, rerouted: true, metrics: alternative, failures, reasoning };
+    }
+
+    if (this.limits.rerouteStrikeSteps > 0) {
+      reasoning.push(`No liquid strike within ${this.limits.rerouteStrikeSteps} strikes of ${contract.strike}`);
+    }
+    return { approved: false, contract, rerouted: false, metrics, failures, reasoning };
+  }
+
+  measure(quote: OptionsQuote): LiquidityMetrics {
+    const quoteTime = new Date(quote.quote_time).getTime();
+    const spread = spreadPercent(quote);
+
+    return {
+      symbol: quote.symbol,
+      strike: quote.strike,
+      bid: quote.bid,
+      ask: quote.ask,
+      spreadPercent: spread === null ? null : spread * 100,
+      volume: quote.volume,
+      openInterest: quote.open_interest,
+      quoteAgeSeconds: Number.isFinite(quoteTime)
+        ? Math.max(0, (this.clock.nowMs() - quoteTime) / 1000)
+        : null,
+    };
+  }
+
+  /**
+   * Threshold failures for a measured contract; empty when it passes
+   */
+  evaluate(metrics: LiquidityMetrics): string[] {
+    const failures: string[] = [];
+    const limits = this.limits;
+
+    if (metrics.spreadPercent === null) {
+      failures.push('no two-sided market');
+    } else if (metrics.spreadPercent > limits.maxSpreadPercent) {
+      failures.push(`spread ${metrics.spreadPercent.toFixed(1)}% > ${limits.maxSpreadPercent}%`);
+    }
+    if (metrics.volume < limits.minVolume) {
+      failures.push(`volume ${metrics.volume} < ${limits.minVolume}`);
+    }
+    if (metrics.openInterest < limits.minOpenInterest) {
+      failures.push(`open interest ${metrics.openInterest} < ${limits.minOpenInterest}`);
+    }
+    if (metrics.quoteAgeSeconds === null) {
+      failures.push('quote time unknown');
+    } else if (metrics.quoteAgeSeconds > limits.maxQuoteAgeSeconds) {
+      failures.push(`quote age ${Math.round(metrics.quoteAgeSeconds)}s > ${limits.maxQuoteAgeSeconds}s`);
+    }
+
+    return failures;
+  }
+
+  private async findAlternative(contract: OptionContractRef): Promise<LiquidityMetrics | null> {
+    if (!this.chainProvider || this.limits.rerouteStrikeSteps <= 0) {
+      return null;
+    }
+
+    let chain: OptionsQuote[];
+    try {
+      chain = await this.chainProvider(contract);
+    } catch (error) {
+      console.warn('[LiquidityGate] Chain fetch failed:', error);
+      return null;
+    }
+
+    const target = contract.strike!;
+    const strikes = [...new Set(chain.map(quote => quote.strike))].sort((a, b) => a - b);
+    const below = strikes.filter(strike => strike < target).slice(-this.limits.rerouteStrikeSteps);
+    const above = strikes.filter(strike => strike > target).slice(0, this.limits.rerouteStrikeSteps);
+    const nearby = new Set([...below, ...above]);
+
+    const candidates = chain
+      .filter(quote => nearby.has(quote.strike))
+      .map(quote => this.measure(quote))
+      .filter(metrics => this.evaluate(metrics).length === 0)
+      .sort((a, b) => Math.abs(a.strike - target) - Math.abs(b.strike - target));
+
+    return candidates[0] ?? null;
+  }
+
+  private async safeQuote(contract: OptionContractRef): Promise<OptionsQuote | null> {
+    try {
+      return await this.quoteProvider(contract);
+    } catch (error) {
+      console.warn('[LiquidityGate] Quote fetch failed:', error);
+      return null;
+    }
+  }
+
+  private describeMetrics(metrics: LiquidityMetrics): string {
+    const limits = this.limits;
+    const spread = metrics.spreadPercent === null ? 'n/a' : `${metrics.spreadPercent.toFixed(1)}%`;
+    const age = metrics.quoteAgeSeconds === null ? 'n/a' : `${Math.round(metrics.quoteAgeSeconds)}s`;
+    return `bid=${metrics.bid}, ask=${metrics.ask}, spread=${spread} (max ${limits.maxSpreadPercent}%), ` +
+      `volume=${metrics.volume} (min ${limits.minVolume}), OI=${metrics.openInterest} (min ${limits.minOpenInterest}), ` +
+      `quote age=${age} (max ${limits.maxQuoteAgeSeconds}s)`;
+  }
+}
+
+function describeContract(contract: OptionContractRef): string {
+  return `${contract.underlying} ${contract.expiration} ${contract.strike} ${contract.optionType}`;
+}
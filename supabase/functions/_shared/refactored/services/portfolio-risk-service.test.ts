@@ -0,0 +1,161 @@
+/**
+ * Tests for portfolio-level pre-trade risk checks
+ */
+
+import { describe, it, expect } from 'vitest';
+import * as fc from 'fast-check';
+import { PortfolioRiskService, GreeksProvider } from './portfolio-risk-service.ts';
+import { Signal } from '../core/types.ts';
+import { defaultConfig } from '../core/config.ts';
+import { SimulatedClock } from '../core/clock.ts';
+import { fakeClient } from '../../test-utils/fake-db.ts';
+
+const EXP = '2026-03-20';
+
+const LIMITS = {
+  mode: 'PAPER',
+  is_active: true,
+  max_total_positions: 20,
+  max_underlying_exposure: 25,
+  max_expiration_concentration: 50,
+  max_portfolio_delta: 500,
+  max_portfolio_gamma: 100,
+  max_portfolio_vega: 1000,
+};
+
+function openPosition(overrides: Record<string, unknown> = {}) {
+  return {
+    symbol: 'SPY',
+    underlying: 'SPY',
+    direction: 'CALL',
+    option_type: 'CALL',
+    strike: 500,
+    expiration: EXP,
+    quantity: 1,
+    entry_price: 2,
+    status: 'OPEN',
+    ...overrides,
+  };
+}
+
+function signal(overrides: Partial<Signal> = {}): Signal {
+  return {
+    id: 'sig-1',
+    source: 'TRADINGVIEW',
+    symbol: 'SPY',
+    direction: 'CALL',
+    timeframe: '5m',
+    timestamp: new Date('2026-03-02T15:00:00Z'),
+    metadata: {
+      parsed_signal: { underlying: 'SPY', strike: 505, expiration: EXP, option_type: 'CALL' },
+    },
+    ...overrides,
+  };
+}
+
+const atmGreeks: GreeksProvider = async () => ({ delta: 0.5, gamma: 0.01, vega: 0.1 });
+
+describe('PortfolioRiskService', () => {
+  it('downsizes an entry to the largest size that keeps portfolio delta within limit', async () => {
+    const client = fakeClient({ risk_limits: [LIMITS], refactored_positions: [openPosition()] });
+    const service = new PortfolioRiskService(client as never, defaultConfig, atmGreeks);
+
+    // Book delta 50; each new contract adds 50 against a 500 limit
+    const check = await service.checkEntry(signal(), 20, 2);
+
+    expect(check.approved).toBe(true);
+    expect(check.allowedSize).toBe(9);
+    expect(check.violations).toHaveLength(1);
+    expect(check.violations[0]).toMatchObject({
+      violation_type: 'PORTFOLIO_DELTA',
+      rule_violated: 'max_portfolio_delta',
+      limit_value: 500,
+      severity: 'WARNING',
+    });
+  });
+
+  it('rejects when the open position count is already at the limit', async () => {
+    const client = fakeClient({
+      risk_limits: [{ ...LIMITS, max_total_positions: 1 }],
+      refactored_positions: [openPosition()],
+    });
+    const service = new PortfolioRiskService(client as never, defaultConfig, atmGreeks);
+
+    const check = await service.checkEntry(signal(), 2, 2);
+
+    expect(check.approved).toBe(false);
+    expect(check.allowedSize).toBe(0);
+    expect(check.violations.map(v => [v.violation_type, v.severity])).toEqual([['TOTAL_POSITIONS', 'CRITICAL']]);
+  });
+
+  it('caps underlying exposure as a percentage of max total exposure', async () => {
+    // 25% of 50,000 = 12,500 budget; 10,000 already on SPY leaves room for 5 contracts at $5
+    const client = fakeClient({
+      risk_limits: [LIMITS],
+      refactored_positions: [openPosition({ quantity: 20, entry_price: 5, expiration: '2026-04-17' })],
+    });
+    const service = new PortfolioRiskService(client as never, defaultConfig);
+
+    const check = await service.checkEntry(signal(), 10, 5);
+
+    expect(check.allowedSize).toBe(5);
+    expect(check.violations.map(v => v.violation_type)).toEqual(['UNDERLYING_EXPOSURE']);
+    expect(check.reasoning).toContain('Live greeks unavailable for entry - greek limits not evaluated');
+  });
+
+  it('approves unchanged when no risk limits are configured', async () => {
+    const service = new PortfolioRiskService(fakeClient({ refactored_positions: [] }) as never, defaultConfig, atmGreeks);
+
+    const check = await service.checkEntry(signal(), 7, 2);
+
+    expect(check).toMatchObject({ approved: true, allowedSize: 7, violations: [] });
+  });
+
+  it('records one risk_violations row per breach keyed by the refactored signal id', async () => {
+    const client = fakeClient({ risk_limits: [LIMITS], refactored_positions: [openPosition()] });
+    const clock = new SimulatedClock(new Date('2026-03-02T15:00:00Z'));
+    const service = new PortfolioRiskService(client as never, defaultConfig, atmGreeks, 'PAPER', clock);
+
+    const check = await service.checkEntry(signal(), 20, 2);
+    await service.recordViolations(signal(), check.violations, 'DOWNSIZED');
+
+    expect(client.tables.risk_violations).toEqual([
+      expect.objectContaining({
+        refactored_signal_id: 'sig-1',
+        violation_type: 'PORTFOLIO_DELTA',
+        action_taken: 'DOWNSIZED',
+        created_at: '2026-03-02T15:00:00.000Z',
+      }),
+    ]);
+  });
+
+  it('Property: allowed size never exceeds the request and approvals meet the minimum size', async () => {
+    await fc.assert(
+      fc.asyncProperty(
+        fc.integer({ min: 1, max: 50 }),
+        fc.integer({ min: 0, max: 10 }),
+        fc.double({ min: -0.95, max: 0.95, noNaN: true }),
+        fc.double({ min: 0.1, max: 20, noNaN: true }),
+        async (requested, openCount, delta, price) => {
+          const client = fakeClient({
+            risk_limits: [LIMITS],
+            refactored_positions: Array.from({ length: openCount }, () => openPosition()),
+          });
+          const provider: GreeksProvider = async () => ({ delta, gamma: 0.01, vega: 0.1 });
+          const service = new PortfolioRiskService(client as never, defaultConfig, provider);
+
+          const check = await service.checkEntry(signal(), requested, price);
+
+          expect(check.allowedSize).toBeLessThanOrEqual(requested);
+          expect(Number.isInteger(check.allowedSize)).toBe(true);
+          if (check.approved) {
+            expect(check.allowedSize).toBeGreaterThanOrEqual(defaultConfig.sizing.minSize);
+          } else {
+            expect(check.violations.every(v => v.severity === 'CRITICAL')).toBe(true);
+          }
+        }
+      ),
+      { numRuns: 50 }
+    );
+  });
+});
@@ -0,0 +1,421 @@
+/**
+ * Portfolio-level pre-trade risk checks
+ *
+ * Projects a proposed entry onto the open refactored_positions book and the
+ * active risk_limits row (position count, underlying / expiration
+ * concentration, portfolio delta / gamma / vega). Entries that would breach a
+ * limit are downsized to the largest size that fits, or rejected when that
+ * falls below the minimum size. Short positions count their collateral as
+ * exposure and carry negated greeks.
+ */
+
+import { Signal, Config, Direction, EntryContract, PositionSide } from '../core/types.ts';
+import { Clock, systemClock } from '../core/clock.ts';
+import { calculatePositionRisk, signalSide } from './position-accounting.ts';
+import type { RiskViolation, TradingMode } from '../../types.ts';
+import type { createDbClient } from '../../db-client.ts';
+
+const CONTRACT_MULTIPLIER = 100;
+
+/**
+ * Per-contract (per-share) greeks for a single option
+ */
+export interface OptionGreeks {
+  delta: number;
+  gamma: number;
+  vega: number;
+}
+
+export interface OptionContractRef {
+  underlying: string;
+  strike?: number;
+  expiration?: string;
+  optionType: Direction;
+}
+
+/**
+ * Fetches live greeks for a contract; returns null when unavailable
+ */
+export type GreeksProvider = (contract: OptionContractRef) => Promise<OptionGreeks | null>;
+
+/**
+ * Subset of the risk_limits row enforced before entry
+ * Concentration limits are percentages of config.risk.maxTotalExposure
+ */
+export interface PortfolioRiskLimits {
+  maxTotalPositions: number | null;
+  maxUnderlyingExposure: number | null;
+  maxExpirationConcentration: number | null;
+  maxPortfolioDelta: number | null;
+  maxPortfolioGamma: number | null;
+  maxPortfolioVega: number | null;
+}
+
+export interface PortfolioRiskCheck {
+  approved: boolean;
+  requestedSize: number;
+  allowedSize: number;
+  violations: RiskViolation[];
+  reasoning: string[];
+}
+
+interface OpenPositionRow {
+  underlying: string | null;
+  symbol: string;
+  direction: Direction;
+  option_type: Direction | null;
+  strike: number | null;
+  expiration: string | null;
+  side: PositionSide;
+  quantity: number;
+  entry_price: number;
+  collateral_requirement: number | null;
+}
+
+interface PortfolioGreeks {
+  delta: number;
+  gamma: number;
+  vega: number;
+  missing: number;
+}
+
+export class PortfolioRiskService {
+  constructor(
+    private supabaseClient: ReturnType<typeof createDbClient>,
+    private config: Config,
+    private greeksProvider?: GreeksProvider,
+    private mode: TradingMode = 'PAPER',
+    private clock: Clock = systemClock
+  ) {}
+
+  /**
+   * Load the active risk limits for the configured trading mode
+   */
+  async loadLimits(): Promise<PortfolioRiskLimits | null> {
+    const { data, error } = await this.supabaseClient
+      .from('risk_limits')
+      .select('*')
+      .eq('mode', this.mode)
+      .eq('is_active', true)
+      .limit(1)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to load risk limits: ${error.message}`);
+    }
+    if (!data) {
+      return null;
+    }
+
+    const toNumber = (value: unknown): number | null =>
+      value === null || value === undefined ? null : Number(value);
+
+    return {
+      maxTotalPositions: toNumber(data.max_total_positions),
+      maxUnderlyingExposure: toNumber(data.max_underlying_exposure),
+      maxExpirationConcentration: toNumber(data.max_expiration_concentration),
+      maxPortfolioDelta: toNumber(data.max_portfolio_delta),
+      maxPortfolioGamma: toNumber(data.max_portfolio_gamma),
+      maxPortfolioVega: toNumber(data.max_portfolio_vega),
+    };
+  }
+
+  /**
+   * Check a proposed entry against portfolio limits
+   * Returns the largest size (<= requested) that keeps every limit intact
+   */
+  async checkEntry(signal: Signal, requestedSize: number, entryPrice: number): Promise<PortfolioRiskCheck> {
+    const reasoning: string[] = [];
+    const violations: RiskViolation[] = [];
+
+    const limits = await this.loadLimits();
+    if (!limits) {
+      reasoning.push(`No active ${this.mode} risk limits - portfolio check skipped`);
+      return { approved: true, requestedSize, allowedSize: requestedSize, violations, reasoning };
+    }
+
+    const openPositions = await this.loadOpenPositions();
+    const candidate = getSignalContract(signal);
+    const candidateSide = signalSide(signal);
+    const perContractExposure = calculatePositionRisk({
+      side: candidateSide,
+      optionType: candidate.optionType,
+      strike: candidate.strike,
+      premium: entryPrice,
+      quantity: 1,
+    }).collateral;
+    const exposureBase = this.config.risk.maxTotalExposure;
+
+    let allowedSize = requestedSize;
+    const cap = (
+      violationType: string,
+      rule: string,
+      maxContracts: number,
+      currentValue: number,
+      limitValue: number
+    ) => {
+      const capped = Math.max(0, Math.floor(maxContracts));
+      if (capped < requestedSize) {
+        violations.push({
+          violation_type: violationType,
+          rule_violated: rule,
+          current_value: currentValue,
+          limit_value: limitValue,
+          severity: 'WARNING',
+        });
+        allowedSize = Math.min(allowedSize, capped);
+        reasoning.push(`${rule}: projected ${currentValue.toFixed(2)} > ${limitValue} - cap ${capped} contracts`);
+      }
+    };
+
+    // Open position count
+    if (limits.maxTotalPositions !== null) {
+      const openCount = openPositions.length;
+      cap(
+        'TOTAL_POSITIONS',
+        'max_total_positions',
+        openCount >= limits.maxTotalPositions ? 0 : requestedSize,
+        openCount + 1,
+        limits.maxTotalPositions
+      );
+    }
+
+    // Underlying concentration
+    if (limits.maxUnderlyingExposure !== null && perContractExposure > 0) {
+      const budget = exposureBase * limits.maxUnderlyingExposure / 100;
+      const current = sumExposure(openPositions.filter(p => (p.underlying ?? p.symbol) === candidate.underlying));
+      const projected = current + perContractExposure * requestedSize;
+      cap(
+        'UNDERLYING_EXPOSURE',
+        'max_underlying_exposure',
+        (budget - current) / perContractExposure,
+        (projected / exposureBase) * 100,
+        limits.maxUnderlyingExposure
+      );
+    }
+
+    // Expiration concentration
+    if (limits.maxExpirationConcentration !== null && candidate.expiration && perContractExposure > 0) {
+      const budget = exposureBase * limits.maxExpirationConcentration / 100;
+      const current = sumExposure(openPositions.filter(p => p.expiration === candidate.expiration));
+      const projected = current + perContractExposure * requestedSize;
+      cap(
+        'EXPIRATION_CONCENTRATION',
+        'max_expiration_concentration',
+        (budget - current) / perContractExposure,
+        (projected / exposureBase) * 100,
+        limits.maxExpirationConcentration
+      );
+    }
+
+    // Portfolio greeks
+    const greekLimitsSet = limits.maxPortfolioDelta !== null ||
+      limits.maxPortfolioGamma !== null ||
+      limits.maxPortfolioVega !== null;
+
+    if (greekLimitsSet) {
+      const candidateGreeks = this.greeksProvider ? await this.safeGreeks(candidate) : null;
+      const candidateSign = candidateSide === 'SHORT' ? -1 : 1;
+
+      if (!candidateGreeks) {
+        reasoning.push('Live greeks unavailable for entry - greek limits not evaluated');
+      } else {
+        const portfolio = await this.getPortfolioGreeks(openPositions);
+        if (portfolio.missing > 0) {
+          reasoning.push(`Greeks unavailable for ${portfolio.missing} open position(s)`);
+        }
+
+        const checks: Array<[string, string, number | null, number, number]> = [
+          ['PORTFOLIO_DELTA', 'max_portfolio_delta', limits.maxPortfolioDelta, portfolio.delta, candidateGreeks.delta],
+          ['PORTFOLIO_GAMMA', 'max_portfolio_gamma', limits.maxPortfolioGamma, portfolio.gamma, candidateGreeks.gamma],
+          ['PORTFOLIO_VEGA', 'max_portfolio_vega', limits.maxPortfolioVega, portfolio.vega, candidateGreeks.vega],
+        ];
+
+        for (const [type, rule, limit, current, perShare] of checks) {
+          if (limit === null) continue;
+          const perContract = perShare * candidateSign * CONTRACT_MULTIPLIER;
+          const projected = current + perContract * requestedSize;
+          reasoning.push(`${rule}: current ${current.toFixed(1)}, projected ${projected.toFixed(1)}, limit ${limit}`);
+          cap(type, rule, maxContractsWithin(current, perContract, limit, requestedSize), Math.abs(projected), limit);
+        }
+      }
+    }
+
+    const approved = allowedSize >= this.config.sizing.minSize;
+
+    if (violations.length > 0) {
+      for (const violation of violations) {
+        violation.severity = approved ? 'WARNING' : 'CRITICAL';
+      }
+      reasoning.push(approved
+        ? `Portfolio risk downsized entry: ${requestedSize} → ${allowedSize}`
+        : `Portfolio risk rejected entry: allowed ${allowedSize} < minimum ${this.config.sizing.minSize}`);
+    } else {
+      reasoning.push('Portfolio risk checks passed');
+    }
+
+    return {
+      approved,
+      requestedSize,
+      allowedSize: approved ? allowedSize : 0,
+      violations,
+      reasoning,
+    };
+  }
+
+  /**
+   * Persist one risk_violations row per breach
+   */
+  async recordViolations(
+    signal: Signal,
+    violations: RiskViolation[],
+    actionTaken: 'DOWNSIZED' | 'REJECTED'
+  ): Promise<void> {
+    if (violations.length === 0) return;
+
+    const createdAt = this.clock.now().toISOString();
+    const { error } = await this.supabaseClient
+      .from('risk_violations')
+      .insert(violations.map(violation => ({
+        refactored_signal_id: signal.id,
+        violation_type: violation.violation_type,
+        rule_violated: violation.rule_violated,
+        current_value: violation.current_value,
+        limit_value: violation.limit_value,
+        severity: violation.severity,
+        action_taken: actionTaken,
+        created_at: createdAt,
+      })));
+
+    if (error) {
+      throw new Error(`Failed to record risk violations: ${error.message}`);
+    }
+  }
+
+  private async loadOpenPositions(): Promise<OpenPositionRow[]> {
+    const { data, error } = await this.supabaseClient
+      .from('refactored_positions')
+      .select('*')
+      .eq('status', 'OPEN');
+
+    if (error) {
+      throw new Error(`Failed to load open positions: ${error.message}`);
+    }
+
+    return (data || []).map((row: Record<string, unknown>) => ({
+      underlying: (row.underlying as string | null) ?? null,
+      symbol: row.symbol as string,
+      direction: row.direction as Direction,
+      option_type: (row.option_type as Direction | null) ?? null,
+      strike: row.strike === null || row.strike === undefined ? null : Number(row.strike),
+      expiration: row.expiration ? String(row.expiration).slice(0, 10) : null,
+      side: row.side === 'SHORT' ? 'SHORT' : 'LONG',
+      quantity: Number(row.quantity),
+      entry_price: Number(row.entry_price),
+      collateral_requirement: row.collateral_requirement === null || row.collateral_requirement === undefined
+        ? null
+        : Number(row.collateral_requirement),
+    }));
+  }
+
+  private async getPortfolioGreeks(positions: OpenPositionRow[]): Promise<PortfolioGreeks> {
+    const totals: PortfolioGreeks = { delta: 0, gamma: 0, vega: 0, missing: 0 };
+
+    for (const position of positions) {
+      const greeks = await this.safeGreeks({
+        underlying: position.underlying ?? position.symbol,
+        strike: position.strike ?? undefined,
+        expiration: position.expiration ?? undefined,
+        optionType: position.option_type ?? position.direction,
+      });
+
+      if (!greeks) {
+        totals.missing++;
+        continue;
+      }
+
+      const contracts = (position.side === 'SHORT' ? -1 : 1) * position.quantity * CONTRACT_MULTIPLIER;
+      totals.delta += greeks.delta * contracts;
+      totals.gamma += greeks.gamma * contracts;
+      totals.vega += greeks.vega * contracts;
+    }
+
+    return totals;
+  }
+
+  private async safeGreeks(contract: OptionContractRef): Promise<OptionGreeks | null> {
+    if (!this.greeksProvider || contract.strike === undefined || !contract.expiration) {
+      return null;
+    }
+    try {
+      return await this.greeksProvider(contract);
+    } catch (error) {
+      console.warn('[PortfolioRiskService] Greeks fetch failed:', error);
+      return null;
+    }
+  }
+}
+
+/**
+ * The contract a signal targets, from the parsed webhook signal in its metadata
+ */
+export function getSignalContract(signal: Signal): OptionContractRef {
+  const parsedSignal = signal.metadata?.parsed_signal as Record<string, unknown> | undefined;
+  return {
+    underlying: typeof parsedSignal?.underlying === 'string' ? parsedSignal.underlying : signal.symbol,
+    strike: typeof parsedSignal?.strike === 'number' ? parsedSignal.strike : undefined,
+    expiration: typeof parsedSignal?.expiration === 'string' ? parsedSignal.expiration.slice(0, 10) : undefined,
+    optionType: typeof parsedSignal?.option_type === 'string'
+      ? (parsedSignal.option_type as Direction)
+      : signal.direction,
+  };
+}
+
+/**
+ * The signal retargeted at another contract, e.g. after a liquidity reroute
+ */
+export function withSignalContract(signal: Signal, contract: EntryContract): Signal {
+  const parsedSignal = (signal.metadata?.parsed_signal ?? {}) as Record<string, unknown>;
+  return {
+    ...signal,
+    metadata: {
+      ...signal.metadata,
+      parsed_signal: {
+        ...parsedSignal,
+        underlying: contract.underlying,
+        strike: contract.strike,
+        expiration: contract.expiration,
+        option_type: contract.optionType,
+      },
+    },
+  };
+}
+
+function sumExposure(positions: OpenPositionRow[]): number {
+  return positions.reduce((sum, p) => {
+    if (p.side === 'SHORT') {
+      return sum + (p.collateral_requirement ?? calculatePositionRisk({
+        side: 'SHORT',
+        optionType: p.option_type ?? p.direction,
+        strike: p.strike ?? undefined,
+        premium: p.entry_price,
+        quantity: p.quantity,
+      }).collateral);
+    }
+    return sum + p.entry_price * p.quantity * CONTRACT_MULTIPLIER;
+  }, 0);
+}
+
+/**
+ * Largest k in [0, requested] with |current + k * perContract| <= limit,
+ * never blocking contracts that move the book back toward zero
+ */
+function maxContractsWithin(current: number, perContract: number, limit: number, requested: number): number {
+  if (perContract === 0) return requested;
+  if (Math.sign(perContract) !== Math.sign(current) && Math.abs(current) > limit) {
+    // Reducing an existing breach: allow up to the far side of the band
+    return Math.min(requested, (limit + Math.abs(current)) / Math.abs(perContract));
+  }
+  const room = limit - Math.sign(perContract) * current;
+  return Math.min(requested, room / Math.abs(perContract));
+}
@@ -0,0 +1,187 @@
+/**
+ * Tests for short option accounting: P&L sign, collateral, max loss and short exits
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import {
+  calculatePositionRisk,
+  positionBias,
+  positionExposure,
+  positionPnL,
+  positionPnLPercent,
+  signalSide,
+} from './position-accounting.ts';
+import { DecisionOrchestrator } from '../orchestrator/decision-orchestrator.ts';
+import { PositionManager } from './position-manager.ts';
+import { RiskManager } from './risk-manager.ts';
+import { PositionSizingService } from './position-sizing-service.ts';
+import { ConfluenceCalculator } from './confluence-calculator.ts';
+import type { ContextCache } from '../cache/context-cache.ts';
+import type { GEXService } from './gex-service.ts';
+import { SimulatedClock } from '../core/clock.ts';
+import { defaultConfig } from '../core/config.ts';
+import type { Position, Signal } from '../core/types.ts';
+
+// Wednesday 11:00 ET, well before the time exit
+const NOW = new Date('2026-03-04T16:00:00.000Z');
+
+function shortPut(overrides: Partial<Position> = {}): Position {
+  return {
+    id: 'pos-1',
+    signalId: 'sig-1',
+    symbol: 'SPY',
+    direction: 'PUT',
+    side: 'SHORT',
+    quantity: 2,
+    originalQuantity: 2,
+    entryPrice: 2,
+    entryTime: new Date('2026-03-04T15:00:00.000Z'),
+    status: 'OPEN',
+    underlying: 'SPY',
+    strike: 570,
+    expiration: '2026-03-20',
+    optionType: 'PUT',
+    ...overrides,
+  };
+}
+
+const sellSignal: Signal = {
+  id: 'sig-1',
+  source: 'TRADINGVIEW',
+  symbol: 'SPY',
+  direction: 'PUT',
+  timeframe: '5m',
+  timestamp: NOW,
+  metadata: {
+    parsed_signal: { action: 'SELL', underlying: 'SPY', strike: 570, expiration: '2026-03-20', option_type: 'PUT' },
+  },
+};
+
+describe('position accounting', () => {
+  it('treats SELL entries as short', () => {
+    expect(signalSide(sellSignal)).toBe('SHORT');
+    expect(signalSide({ ...sellSignal, metadata: { parsed_signal: { action: 'BUY' } } })).toBe('LONG');
+    expect(signalSide({ ...sellSignal, metadata: { side: 'SHORT' } })).toBe('SHORT');
+  });
+
+  it('profits shorts as the option loses value', () => {
+    expect(positionPnL(shortPut(), 1)).toBe(200);
+    expect(positionPnL(shortPut(), 3)).toBe(-200);
+    expect(positionPnL(shortPut({ side: 'LONG' }), 3)).toBe(200);
+    expect(positionPnLPercent(shortPut(), 1)).toBe(50);
+    expect(positionPnLPercent(shortPut(), 4)).toBe(-100);
+  });
+
+  it('flips the bias of short positions', () => {
+    expect(positionBias(shortPut())).toBe('CALL');
+    expect(positionBias({ direction: 'CALL', side: 'SHORT' })).toBe('PUT');
+    expect(positionBias({ direction: 'CALL' })).toBe('CALL');
+  });
+
+  it('computes collateral and max loss by side and option type', () => {
+    expect(calculatePositionRisk({ side: 'LONG', optionType: 'CALL', strike: 580, premium: 2, quantity: 3 }))
+      .toEqual({ premium: 600, collateral: 600, maxLoss: 600 });
+
+    // Cash-secured put: strike held, loss capped at strike less credit
+    expect(calculatePositionRisk({ side: 'SHORT', optionType: 'PUT', strike: 570, premium: 2, quantity: 2 }))
+      .toEqual({ premium: 400, collateral: 114000, maxLoss: 113600 });
+
+    // Naked call 10 OTM on 580: 2 + max(116 - 10, 58) = 108 per share
+    const call = calculatePositionRisk({
+      side: 'SHORT',
+      optionType: 'CALL',
+      strike: 590,
+      premium: 2,
+      quantity: 1,
+      underlyingPrice: 580,
+    });
+    expect(call.collateral).toBeCloseTo(10800, 5);
+    expect(call.maxLoss).toBeNull();
+  });
+
+  it('counts collateral toward exposure for shorts', () => {
+    expect(positionExposure(shortPut())).toBe(114000);
+    expect(positionExposure(shortPut({ side: 'LONG' }))).toBe(400);
+    expect(positionExposure(shortPut({ quantity: 1 }))).toBe(57000);
+  });
+});
+
+describe('PositionManager short positions', () => {
+  it('records side, credit, collateral and max loss on open', async () => {
+    const client = {
+      from: vi.fn().mockReturnThis(),
+      insert: vi.fn().mockResolvedValue({ error: null }),
+    };
+    const positions = new PositionManager(client, defaultConfig, new SimulatedClock(NOW));
+
+    const { position } = await positions.openPosition(sellSignal, 2, 2);
+
+    expect(position).toMatchObject({ side: 'SHORT', creditReceived: 400, collateralRequirement: 114000, maxLoss: 113600 });
+    expect(client.insert).toHaveBeenCalledWith(expect.objectContaining({
+      side: 'SHORT',
+      credit_received: 400,
+      collateral_requirement: 114000,
+      max_loss: 113600,
+    }));
+    expect(positions.calculateUnrealizedPnL(position!, 1.5)).toBe(100);
+    expect(positions.getTotalExposure()).toBe(114000);
+  });
+});
+
+describe('DecisionOrchestrator short exits', () => {
+  const gexService = { detectFlip: vi.fn().mockResolvedValue({ hasFlipped: false }) };
+  const orchestrator = new DecisionOrchestrator(
+    { getContext: vi.fn() } as unknown as ContextCache,
+    gexService as unknown as GEXService,
+    new PositionManager({}, defaultConfig),
+    new RiskManager(defaultConfig),
+    new PositionSizingService(defaultConfig),
+    new ConfluenceCalculator(),
+    defaultConfig,
+    undefined,
+    new SimulatedClock(NOW)
+  );
+
+  it('takes profit at half the credit', async () => {
+    const decision = await orchestrator.orchestrateExitDecision(shortPut({ currentPrice: 1 }));
+
+    expect(decision).toMatchObject({ decision: 'EXIT', exitReason: 'PROFIT_TARGET', quantity: 2 });
+    expect(decision.calculations.currentPnL).toBe(200);
+    expect(decision.calculations.currentPnLPercent).toBe(50);
+  });
+
+  it('stops out when the option doubles and never trails or takes tiers', async () => {
+    const stopped = await orchestrator.orchestrateExitDecision(shortPut({ currentPrice: 4 }));
+    expect(stopped).toMatchObject({ decision: 'EXIT', exitReason: 'STOP_LOSS' });
+    expect(stopped.calculations.stopLossPercent).toBe(-100);
+
+    // +40% on a long would take a tier; shorts hold for the credit target
+    const hold = await orchestrator.orchestrateExitDecision(shortPut({ currentPrice: 1.2 }));
+    expect(hold.decision).toBe('HOLD');
+    expect(hold.tracking?.trailingStopPrice).toBeNull();
+  });
+
+  it('closes once the short strike is tested on delta', async () => {
+    const decision = await orchestrator.orchestrateExitDecision(shortPut({ currentPrice: 2.5 }), { delta: -0.55 });
+    expect(decision).toMatchObject({ decision: 'EXIT', exitReason: 'DELTA_THRESHOLD' });
+
+    // IV falling is the short's edge, not an exit
+    const hold = await orchestrator.orchestrateExitDecision(
+      shortPut({
+        currentPrice: 1.8,
+        entryGreeks: { delta: -0.3, gamma: 0.05, theta: -0.05, vega: 0.1, impliedVolatility: 0.4 },
+      }),
+      { delta: -0.25, theta: -0.1, impliedVolatility: 0.2 }
+    );
+    expect(hold.decision).toBe('HOLD');
+  });
+
+  it('exits on a GEX flip against the short bias', async () => {
+    gexService.detectFlip.mockResolvedValueOnce({ hasFlipped: true, previousDirection: 'CALL', currentDirection: 'PUT' });
+    const decision = await orchestrator.orchestrateExitDecision(shortPut({ currentPrice: 1.9 }));
+    expect(decision).toMatchObject({ decision: 'EXIT', exitReason: 'GEX_FLIP' });
+
+    gexService.detectFlip.mockResolvedValueOnce({ hasFlipped: true, previousDirection: 'PUT', currentDirection: 'CALL' });
+    expect((await orchestrator.orchestrateExitDecision(shortPut({ currentPrice: 1.9 }))).decision).toBe('HOLD');
+  });
+});
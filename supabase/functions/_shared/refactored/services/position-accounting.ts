@@ -0,0 +1,125 @@
+/**
+ * Long/short option position accounting
+ *
+ * Long positions pay a debit and can lose at most that premium. Short
+ * positions (SELL_TO_OPEN) collect a credit, profit as the option loses value
+ * and tie up collateral: the full strike for cash-secured puts, Reg T naked
+ * margin for calls, whose loss is unbounded. P&L percentages are of the
+ * premium paid (long) or the credit received (short).
+ */
+
+import type { Direction, Position, PositionSide, Signal } from '../core/types.ts';
+
+const CONTRACT_MULTIPLIER = 100;
+
+export interface PositionRisk {
+  premium: number; // Debit paid (long) or credit received (short), dollars
+  collateral: number; // Capital held against the position, dollars
+  maxLoss: number | null; // Null when unbounded (naked short call)
+}
+
+/**
+ * Side of the position a signal opens: SELL entries (SELL_TO_OPEN) are short
+ */
+export function signalSide(signal: Signal): PositionSide {
+  const metadata = signal.metadata ?? {};
+  const parsed = metadata.parsed_signal as Record<string, unknown> | undefined;
+  if (metadata.side === 'SHORT' || parsed?.action === 'SELL') {
+    return 'SHORT';
+  }
+  return 'LONG';
+}
+
+/**
+ * Direction the position profits from: a short call is bearish like a long put
+ */
+export function positionBias(position: Pick<Position, 'direction' | 'side'>): Direction {
+  if (position.side !== 'SHORT') {
+    return position.direction;
+  }
+  return position.direction === 'CALL' ? 'PUT' : 'CALL';
+}
+
+/**
+ * Dollar P&L of `quantity` contracts marked at `price`
+ */
+export function positionPnL(
+  position: Pick<Position, 'side' | 'entryPrice' | 'quantity'>,
+  price: number
+): number {
+  const sign = position.side === 'SHORT' ? -1 : 1;
+  return (price - position.entryPrice) * sign * position.quantity * CONTRACT_MULTIPLIER;
+}
+
+/**
+ * P&L as a percent of the premium paid or credit received. A short marked at
+ * half its entry price is +50%; one marked at double is -100%.
+ */
+export function positionPnLPercent(position: Pick<Position, 'side' | 'entryPrice'>, price: number): number {
+  if (position.entryPrice <= 0) {
+    return 0;
+  }
+  const sign = position.side === 'SHORT' ? -1 : 1;
+  return ((price - position.entryPrice) / position.entryPrice) * 100 * sign;
+}
+
+/**
+ * Premium, collateral and maximum loss at entry. Without an underlying price
+ * the strike stands in for it in the naked call margin.
+ */
+export function calculatePositionRisk(params: {
+  side: PositionSide;
+  optionType: Direction;
+  strike?: number;
+  premium: number; // Per-share option price
+  quantity: number;
+  underlyingPrice?: number;
+}): PositionRisk {
+  const { side, optionType, strike, premium: price, quantity } = params;
+  const premium = price * quantity * CONTRACT_MULTIPLIER;
+
+  if (side === 'LONG') {
+    return { premium, collateral: premium, maxLoss: premium };
+  }
+
+  if (strike === undefined) {
+    // Unknown strike: nothing better than treating the credit as the requirement
+    return { premium, collateral: premium, maxLoss: null };
+  }
+
+  if (optionType === 'PUT') {
+    // Cash-secured: the strike is held; the worst case is the stock going to zero
+    return {
+      premium,
+      collateral: strike * quantity * CONTRACT_MULTIPLIER,
+      maxLoss: Math.max(0, strike - price) * quantity * CONTRACT_MULTIPLIER,
+    };
+  }
+
+  // Reg T naked call: premium + max(20% of underlying - OTM amount, 10% of underlying)
+  const underlying = params.underlyingPrice ?? strike;
+  const outOfTheMoney = Math.max(0, strike - underlying);
+  const perShare = price + Math.max(0.2 * underlying - outOfTheMoney, 0.1 * underlying);
+  return {
+    premium,
+    collateral: perShare * quantity * CONTRACT_MULTIPLIER,
+    maxLoss: null,
+  };
+}
+
+/**
+ * Capital a position ties up, for exposure limits: the premium paid for longs,
+ * the collateral for shorts
+ */
+export function positionExposure(position: Position): number {
+  if (position.side !== 'SHORT') {
+    return position.entryPrice * position.quantity * CONTRACT_MULTIPLIER;
+  }
+  return calculatePositionRisk({
+    side: 'SHORT',
+    optionType: position.optionType ?? position.direction,
+    strike: position.strike,
+    premium: position.entryPrice,
+    quantity: position.quantity,
+  }).collateral;
+}
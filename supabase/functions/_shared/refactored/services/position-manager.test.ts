@@ -46,7 +46,7 @@ describe('Position Manager Property Tests', () => {
           entryPrice: fc.double({ min: 1, max: 1000 }),
         }),
         async (data) => {
-          positionManager.clear();
+          await positionManager.clear();
 
           const signal: Signal = {
             id: `signal_${Date.now()}_${Math.random()}`,
@@ -148,7 +148,7 @@ describe('Position Manager Property Tests', () => {
           entryPrice: fc.double({ min: 100, max: 500 }),
         }),
         async (data) => {
-          positionManager.clear();
+          await positionManager.clear();
 
           const signal: Signal = {
             id: `signal_${Date.now()}_${Math.random()}`,
@@ -464,4 +464,51 @@ describe('Position Manager Unit Tests', () => {
     // Max: 50,000 (from config)
     expect(wouldExceed).toBe(true);
   });
+
+  it('should parse DECIMAL columns loaded as strings', async () => {
+    const updateEq = vi.fn().mockResolvedValue({ error: null });
+    const insert = vi.fn().mockResolvedValue({ error: null });
+    const client = {
+      from: vi.fn().mockReturnValue({
+        select: vi.fn().mockReturnValue({
+          eq: vi.fn().mockResolvedValue({
+            data: [{
+              id: 'pos-1',
+              signal_id: 'signal-1',
+              symbol: 'SPY',
+              direction: 'CALL',
+              side: 'LONG',
+              quantity: 2,
+              entry_price: 2,
+              entry_time: '2026-03-04T15:00:00.000Z',
+              current_price: 2.5,
+              unrealized_pnl: 100,
+              status: 'OPEN',
+              realized_pnl: '125.00',
+              high_water_mark: '2.8000',
+              trailing_stop_price: '2.3000',
+            }],
+            error: null,
+          }),
+        }),
+        update: vi.fn().mockReturnValue({ eq: updateEq }),
+        insert,
+      }),
+    };
+    const manager = new PositionManager(client as never, defaultConfig);
+    await manager.loadPositions();
+
+    const tracking = await manager.updateExitTracking('pos-1', { highWaterMark: 2.8, trailingStopPrice: 2.3 });
+    expect(tracking.success).toBe(true);
+    expect(updateEq).not.toHaveBeenCalled();
+
+    const result = await manager.reducePosition('pos-1', 1, 1.8);
+    expect(result.success).toBe(true);
+    expect(result.position!.realizedPnL).toBeCloseTo(105);
+    expect(insert).toHaveBeenCalledWith(expect.objectContaining({
+      refactored_position_id: 'pos-1',
+      quantity: 1,
+      realized_pnl: -20,
+    }));
+  });
 });
@@ -3,7 +3,56 @@
  * Implements Requirements 14.1, 14.2, 14.3, 14.4, 14.5
  */
 
-import { Position, Signal, Config } from '../core/types.ts';
+import { Position, Signal, Config, ExitTracking, PositionGreeks } from '../core/types.ts';
+import { Clock, systemClock } from '../core/clock.ts';
+import type { createDbClient } from '../../db-client.ts';
+import type { TradingMode } from '../../types.ts';
+import { InMemoryStateStore, STATE_NAMESPACES, type StateStore } from '../cache/state-store.ts';
+import { calculatePositionRisk, positionExposure, positionPnL, signalSide } from './position-accounting.ts';
+
+/**
+ * Looks up the contract's greeks and IV at entry. Optional: without it, or
+ * when it fails, positions open without entry greeks and IV exits are skipped.
+ */
+export type EntryGreeksProvider = (contract: {
+  underlying: string;
+  strike: number;
+  expiration: string;
+  optionType: 'CALL' | 'PUT';
+}) => Promise<PositionGreeks | null>;
+
+export interface PositionExitRecord {
+  positionId: string;
+  quantity: number; // Contracts closed by this exit
+  exitPrice: number | null;
+  realizedPnL: number; // On these contracts only
+  exitedAt: string;
+}
+
+/**
+ * Books one exit's realized P&L under its own timestamp. The loss circuit
+ * breaker sums these per session; the position row only keeps the running total.
+ */
+export async function recordPositionExit(
+  supabaseClient: ReturnType<typeof createDbClient>,
+  exit: PositionExitRecord
+): Promise<{ success: boolean; error?: string }> {
+  const { error } = await supabaseClient
+    .from('refactored_position_exits')
+    .insert({
+      refactored_position_id: exit.positionId,
+      quantity: exit.quantity,
+      exit_price: exit.exitPrice,
+      realized_pnl: Math.round(exit.realizedPnL * 100) / 100,
+      exited_at: exit.exitedAt,
+    });
+
+  if (error) {
+    console.error(`[PositionManager] Failed to record exit for ${exit.positionId}: ${error.message}`);
+    return { success: false, error: error.message };
+  }
+  return { success: true };
+}
 
 export class PositionManager {
   private positions: Map<string, Position> = new Map();
@@ -11,7 +60,11 @@ export class PositionManager {
 
   constructor(
     private supabaseClient: any,
-    private config: Config
+    private config: Config,
+    private clock: Clock = systemClock,
+    private stateStore: StateStore = new InMemoryStateStore(clock),
+    private entryGreeksProvider?: EntryGreeksProvider,
+    private mode: TradingMode = 'PAPER' // Recorded on each position it opens
   ) {}
 
   /**
@@ -23,11 +76,23 @@ export class PositionManager {
     quantity: number,
     entryPrice: number
   ): Promise<{ success: boolean; position?: Position; error?: string }> {
+    let claimed = false;
+
     try {
       // Check for duplicate position (Requirement 14.5)
-      if (this.positionsBySignalId.has(signal.id)) {
-        const existingPositionId = this.positionsBySignalId.get(signal.id)!;
-        const existingPosition = this.positions.get(existingPositionId);
+      // The state store claim also covers positions opened by other instances
+      const positionId = this.generatePositionId();
+      claimed = !this.positionsBySignalId.has(signal.id) && await this.stateStore.putIfAbsent(
+        STATE_NAMESPACES.SIGNAL_POSITION,
+        signal.id,
+        positionId,
+        null
+      );
+
+      if (!claimed) {
+        const existingPositionId = this.positionsBySignalId.get(signal.id) ??
+          (await this.stateStore.get(STATE_NAMESPACES.SIGNAL_POSITION, signal.id))?.value;
+        const existingPosition = existingPositionId ? this.positions.get(existingPositionId) : undefined;
         
         return {
           success: false,
@@ -44,24 +109,45 @@ export class PositionManager {
         : undefined;
       const underlying = typeof parsedSignal?.underlying === 'string' ? parsedSignal.underlying : signal.symbol;
       const timeframe = typeof signal.timeframe === 'string' ? signal.timeframe : undefined;
+      const side = signalSide(signal);
+      const risk = calculatePositionRisk({
+        side,
+        optionType: optionType ?? signal.direction,
+        strike,
+        premium: entryPrice,
+        quantity,
+      });
 
       // Create position with all required fields (Requirement 14.1)
       const position: Position = {
-        id: this.generatePositionId(),
+        id: positionId,
         signalId: signal.id,
         symbol: signal.symbol,
         direction: signal.direction,
+        side,
         quantity,
         entryPrice,
-        entryTime: new Date(),
+        entryTime: this.clock.now(),
         status: 'OPEN',
         underlying,
         strike,
         expiration,
         optionType,
         timeframe,
+        originalQuantity: quantity,
+        realizedPnL: 0,
+        highWaterMark: entryPrice,
+        exitTiersTaken: 0,
+        creditReceived: side === 'SHORT' ? risk.premium : undefined,
+        collateralRequirement: risk.collateral,
+        maxLoss: risk.maxLoss,
       };
 
+      if (this.entryGreeksProvider && strike !== undefined && expiration && optionType) {
+        position.entryGreeks = await this.entryGreeksProvider({ underlying, strike, expiration, optionType })
+          .catch(() => null) ?? undefined;
+      }
+
       // Persist to database immediately (Requirement 14.2)
       const { error: dbError } = await this.supabaseClient
         .from('refactored_positions')
@@ -70,8 +156,11 @@ export class PositionManager {
           signal_id: position.signalId,
           symbol: position.symbol,
           direction: position.direction,
+          side,
           quantity: position.quantity,
+          original_quantity: position.quantity,
           entry_price: position.entryPrice,
+          high_water_mark: position.entryPrice,
           entry_time: position.entryTime.toISOString(),
           status: position.status,
           underlying: position.underlying ?? null,
@@ -79,6 +168,15 @@ export class PositionManager {
           expiration: position.expiration ?? null,
           option_type: position.optionType ?? null,
           timeframe: position.timeframe ?? null,
+          entry_delta: position.entryGreeks?.delta ?? null,
+          entry_gamma: position.entryGreeks?.gamma ?? null,
+          entry_theta: position.entryGreeks?.theta ?? null,
+          entry_vega: position.entryGreeks?.vega ?? null,
+          entry_iv: position.entryGreeks?.impliedVolatility ?? null,
+          credit_received: position.creditReceived ?? null,
+          collateral_requirement: risk.collateral,
+          max_loss: risk.maxLoss,
+          mode: this.mode,
         });
 
       if (dbError) {
@@ -94,6 +192,11 @@ export class PositionManager {
         position,
       };
     } catch (error) {
+      // Release the claim so a retry of the same signal is not blocked
+      if (claimed) {
+        await this.stateStore.delete(STATE_NAMESPACES.SIGNAL_POSITION, signal.id).catch(() => {});
+      }
+
       return {
         success: false,
         error: (error as Error).message,
@@ -104,17 +207,14 @@ export class PositionManager {
   /**
    * Calculate unrealized P&L for an open position
    * Implements Requirement 14.3
-   * Formula: (current - entry) × quantity × 100
+   * Formula: (current - entry) × quantity × 100, negated for short positions
    */
   calculateUnrealizedPnL(position: Position, currentPrice: number): number {
     if (position.status !== 'OPEN') {
       return 0;
     }
 
-    const priceDiff = currentPrice - position.entryPrice;
-    const multiplier = 100; // Options multiplier
-    
-    return priceDiff * position.quantity * multiplier;
+    return positionPnL(position, currentPrice);
   }
 
   /**
@@ -122,10 +222,7 @@ export class PositionManager {
    * Implements Requirement 14.4
    */
   calculateRealizedPnL(position: Position, exitPrice: number): number {
-    const priceDiff = exitPrice - position.entryPrice;
-    const multiplier = 100; // Options multiplier
-    
-    return priceDiff * position.quantity * multiplier;
+    return positionPnL(position, exitPrice);
   }
 
   /**
@@ -200,13 +297,17 @@ export class PositionManager {
         };
       }
 
-      // Calculate realized P&L
-      const realizedPnL = this.calculateRealizedPnL(position, exitPrice);
+      // Calculate realized P&L, including any earlier partial exits
+      const legPnL = this.calculateRealizedPnL(position, exitPrice);
+      const realizedPnL = (position.realizedPnL ?? 0) + legPnL;
+      const closedQuantity = position.quantity;
+      const now = this.clock.now().toISOString();
 
       // Update position
       position.status = 'CLOSED';
       position.currentPrice = exitPrice;
       position.unrealizedPnL = 0;
+      position.realizedPnL = realizedPnL;
 
       // Update database
       const { error: dbError } = await this.supabaseClient
@@ -214,9 +315,9 @@ export class PositionManager {
         .update({
           status: 'CLOSED',
           exit_price: exitPrice,
-          exit_time: new Date().toISOString(),
+          exit_time: now,
           realized_pnl: realizedPnL,
-          updated_at: new Date().toISOString(),
+          updated_at: now,
         })
         .eq('id', positionId);
 
@@ -224,6 +325,14 @@ export class PositionManager {
         throw new Error(`Failed to update position: ${dbError.message}`);
       }
 
+      await recordPositionExit(this.supabaseClient, {
+        positionId,
+        quantity: closedQuantity,
+        exitPrice,
+        realizedPnL: legPnL,
+        exitedAt: now,
+      });
+
       // Update in memory
       this.positions.set(positionId, position);
 
@@ -240,6 +349,134 @@ export class PositionManager {
     }
   }
 
+  /**
+   * Close part of a position, booking P&L on the contracts sold. Closing the
+   * remaining quantity closes the position. exitTier records a tiered
+   * partial exit as taken.
+   */
+  async reducePosition(
+    positionId: string,
+    quantity: number,
+    exitPrice: number,
+    exitTier?: number
+  ): Promise<{ success: boolean; position?: Position; realizedPnL?: number; error?: string }> {
+    try {
+      const position = this.positions.get(positionId);
+
+      if (!position) {
+        return {
+          success: false,
+          error: 'Position not found',
+        };
+      }
+
+      if (position.status !== 'OPEN') {
+        return {
+          success: false,
+          error: 'Position is already closed',
+        };
+      }
+
+      if (quantity <= 0 || quantity > position.quantity) {
+        return {
+          success: false,
+          error: `Cannot close ${quantity} of ${position.quantity} contracts`,
+        };
+      }
+
+      const legPnL = this.calculateRealizedPnL({ ...position, quantity }, exitPrice);
+      const realizedPnL = (position.realizedPnL ?? 0) + legPnL;
+      const remaining = position.quantity - quantity;
+      const now = this.clock.now().toISOString();
+
+      position.originalQuantity = position.originalQuantity ?? position.quantity;
+      position.quantity = remaining;
+      position.realizedPnL = realizedPnL;
+      position.currentPrice = exitPrice;
+      if (exitTier !== undefined) {
+        position.exitTiersTaken = Math.max(position.exitTiersTaken ?? 0, exitTier);
+      }
+      if (remaining === 0) {
+        position.status = 'CLOSED';
+        position.unrealizedPnL = 0;
+      }
+
+      const { error: dbError } = await this.supabaseClient
+        .from('refactored_positions')
+        .update({
+          quantity: remaining,
+          realized_pnl: realizedPnL,
+          current_price: exitPrice,
+          exit_tiers_taken: position.exitTiersTaken ?? 0,
+          status: position.status,
+          exit_price: remaining === 0 ? exitPrice : null,
+          exit_time: remaining === 0 ? now : null,
+          updated_at: now,
+        })
+        .eq('id', positionId);
+
+      if (dbError) {
+        throw new Error(`Failed to update position: ${dbError.message}`);
+      }
+
+      await recordPositionExit(this.supabaseClient, {
+        positionId,
+        quantity,
+        exitPrice,
+        realizedPnL: legPnL,
+        exitedAt: now,
+      });
+
+      this.positions.set(positionId, position);
+
+      return {
+        success: true,
+        position,
+        realizedPnL: legPnL,
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: (error as Error).message,
+      };
+    }
+  }
+
+  /**
+   * Persist the high-water mark and trailing stop from an exit evaluation
+   */
+  async updateExitTracking(
+    positionId: string,
+    tracking: ExitTracking
+  ): Promise<{ success: boolean; error?: string }> {
+    const position = this.positions.get(positionId);
+    if (!position) {
+      return { success: false, error: 'Position not found' };
+    }
+
+    if (position.highWaterMark === tracking.highWaterMark &&
+        (position.trailingStopPrice ?? null) === tracking.trailingStopPrice) {
+      return { success: true };
+    }
+
+    const { error } = await this.supabaseClient
+      .from('refactored_positions')
+      .update({
+        high_water_mark: tracking.highWaterMark,
+        trailing_stop_price: tracking.trailingStopPrice,
+        updated_at: this.clock.now().toISOString(),
+      })
+      .eq('id', positionId);
+
+    if (error) {
+      return { success: false, error: `Failed to update exit tracking: ${error.message}` };
+    }
+
+    position.highWaterMark = tracking.highWaterMark;
+    position.trailingStopPrice = tracking.trailingStopPrice ?? undefined;
+    return { success: true };
+  }
+
   /**
    * Get all open positions
    * Implements Requirement 14.4
@@ -279,12 +516,11 @@ export class PositionManager {
   }
 
   /**
-   * Get total exposure (sum of all open position values)
+   * Get total exposure (premium paid on longs plus collateral held on shorts)
    */
   getTotalExposure(): number {
     return this.getOpenPositions().reduce((total, position) => {
-      const positionValue = position.entryPrice * position.quantity * 100;
-      return total + positionValue;
+      return total + positionExposure(position);
     }, 0);
   }
 
@@ -310,7 +546,7 @@ export class PositionManager {
    * Generate unique position ID
    */
   private generatePositionId(): string {
-    return `pos_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+    return `pos_${this.clock.nowMs()}_${Math.random().toString(36).substr(2, 9)}`;
   }
 
   /**
@@ -334,6 +570,7 @@ export class PositionManager {
             signalId: row.signal_id,
             symbol: row.symbol,
             direction: row.direction,
+            side: row.side ?? 'LONG',
             quantity: row.quantity,
             entryPrice: row.entry_price,
             entryTime: new Date(row.entry_time),
@@ -345,6 +582,23 @@ export class PositionManager {
             expiration: row.expiration ?? undefined,
             optionType: row.option_type ?? undefined,
             timeframe: row.timeframe ?? undefined,
+            originalQuantity: row.original_quantity ?? row.quantity,
+            realizedPnL: Number(row.realized_pnl ?? 0),
+            highWaterMark: row.high_water_mark != null ? Number(row.high_water_mark) : undefined,
+            trailingStopPrice: row.trailing_stop_price != null ? Number(row.trailing_stop_price) : undefined,
+            exitTiersTaken: row.exit_tiers_taken ?? 0,
+            entryGreeks: row.entry_delta != null
+              ? {
+                delta: Number(row.entry_delta),
+                gamma: Number(row.entry_gamma ?? 0),
+                theta: Number(row.entry_theta ?? 0),
+                vega: Number(row.entry_vega ?? 0),
+                impliedVolatility: row.entry_iv != null ? Number(row.entry_iv) : null,
+              }
+              : undefined,
+            creditReceived: row.credit_received != null ? Number(row.credit_received) : undefined,
+            collateralRequirement: row.collateral_requirement != null ? Number(row.collateral_requirement) : undefined,
+            maxLoss: row.max_loss != null ? Number(row.max_loss) : row.side === 'SHORT' ? null : undefined,
           };
 
           this.positions.set(position.id, position);
@@ -367,8 +621,9 @@ export class PositionManager {
   /**
    * Clear all positions (for testing)
    */
-  clear(): void {
+  async clear(): Promise<void> {
     this.positions.clear();
     this.positionsBySignalId.clear();
+    await this.stateStore.clear(STATE_NAMESPACES.SIGNAL_POSITION);
   }
 }
@@ -8,6 +8,7 @@ import * as fc from 'fast-check';
 import { SignalValidator } from './signal-validator.ts';
 import { Signal, SignalSource, Direction } from '../core/types.ts';
 import { defaultConfig } from '../core/config.ts';
+import { SimulatedClock } from '../core/clock.ts';
 
 describe('Signal Validator Property Tests', () => {
   let validator: SignalValidator;
@@ -34,7 +35,7 @@ describe('Signal Validator Property Tests', () => {
           timestamp: fc.date({ min: new Date('2024-01-01'), max: new Date('2024-12-31') }),
         }),
         async (signalData) => {
-          validator.clearCooldowns();
+          await validator.clearCooldowns();
 
           const signal: Signal = {
             id: 'test-1',
@@ -97,10 +98,10 @@ describe('Signal Validator Property Tests', () => {
           timeframe: fc.constantFrom('5m', '15m'),
         }),
         async (signalData) => {
-          validator.clearCooldowns();
+          await validator.clearCooldowns();
 
           // Create signal that will fail market hours (outside 9:30-15:30 ET)
-          const outsideMarketHours = new Date('2024-06-15T08:00:00Z'); // 3 AM ET
+          const outsideMarketHours = new Date('2024-06-14T08:00:00Z'); // 3 AM ET
 
           const signal: Signal = {
             id: 'test-1',
@@ -151,10 +152,10 @@ describe('Signal Validator Property Tests', () => {
           hour: fc.integer({ min: 0, max: 23 }),
         }),
         async (data) => {
-          validator.clearCooldowns();
+          await validator.clearCooldowns();
 
           // Create timestamp with specific hour (UTC)
-          const timestamp = new Date('2024-06-15T00:00:00Z');
+          const timestamp = new Date('2024-06-14T00:00:00Z');
           timestamp.setUTCHours(data.hour);
 
           const signal: Signal = {
@@ -200,9 +201,9 @@ describe('Signal Validator Property Tests', () => {
           timeframe: fc.constantFrom('5m', '15m'),
         }),
         async (data) => {
-          validator.clearCooldowns();
+          await validator.clearCooldowns();
 
-          const timestamp = new Date('2024-06-15T15:00:00Z'); // Within market hours
+          const timestamp = new Date('2024-06-14T15:00:00Z'); // Within market hours
 
           const signal1: Signal = {
             id: 'test-1',
@@ -242,9 +243,11 @@ describe('Signal Validator Property Tests', () => {
 
 describe('Signal Validator Unit Tests', () => {
   let validator: SignalValidator;
+  let clock: SimulatedClock;
 
   beforeEach(() => {
-    validator = new SignalValidator(defaultConfig);
+    clock = new SimulatedClock(new Date('2024-06-14T15:01:00Z'));
+    validator = new SignalValidator(defaultConfig, clock);
   });
 
   it('should pass validation for valid signal', async () => {
@@ -254,7 +257,7 @@ describe('Signal Validator Unit Tests', () => {
       symbol: 'SPY',
       direction: 'CALL',
       timeframe: '5m',
-      timestamp: new Date('2024-06-15T15:00:00Z'), // Within market hours
+      timestamp: new Date('2024-06-14T15:00:00Z'), // Within market hours
       metadata: {
         mtf_aligned: true,
         confluence: 0.8,
@@ -272,7 +275,7 @@ describe('Signal Validator Unit Tests', () => {
       symbol: 'SPY',
       direction: 'CALL',
       timeframe: '5m',
-      timestamp: new Date('2024-06-15T08:00:00Z'), // Before market hours
+      timestamp: new Date('2024-06-14T08:00:00Z'), // Before market hours
       metadata: {},
     };
 
@@ -281,6 +284,31 @@ describe('Signal Validator Unit Tests', () => {
     expect(result.rejectionReason).toBe('Outside market hours');
   });
 
+  it('should reject signals on holidays and after an early close', async () => {
+    const signalAt = (timestamp: string): Signal => ({
+      id: 'test-1',
+      source: 'TRADINGVIEW',
+      symbol: 'SPY',
+      direction: 'CALL',
+      timeframe: '5m',
+      timestamp: new Date(timestamp),
+      metadata: { mtf_aligned: true, confluence: 0.8 },
+    });
+
+    const holiday = await validator.validate(signalAt('2024-07-04T15:00:00Z'), { bypassAgeCheck: true });
+    expect(holiday.rejectionReason).toBe('Outside market hours');
+    expect(holiday.details.marketHours.holiday).toBe('Independence Day');
+
+    // 2024-07-03 closes at 13:00 ET, so the window ends at 12:30 ET
+    await validator.clearCooldowns();
+    const lateEarlyClose = await validator.validate(signalAt('2024-07-03T16:45:00Z'), { bypassAgeCheck: true });
+    expect(lateEarlyClose.rejectionReason).toBe('Outside market hours');
+
+    await validator.clearCooldowns();
+    const beforeEarlyClose = await validator.validate(signalAt('2024-07-03T16:15:00Z'), { bypassAgeCheck: true });
+    expect(beforeEarlyClose.valid).toBe(true);
+  });
+
   it('should reject signal with low confluence', async () => {
     const signal: Signal = {
       id: 'test-1',
@@ -288,7 +316,7 @@ describe('Signal Validator Unit Tests', () => {
       symbol: 'SPY',
       direction: 'CALL',
       timeframe: '5m',
-      timestamp: new Date('2024-06-15T15:00:00Z'),
+      timestamp: new Date('2024-06-14T15:00:00Z'),
       metadata: {
         mtf_aligned: true,
         confluence: 0.3, // Below threshold
@@ -301,8 +329,7 @@ describe('Signal Validator Unit Tests', () => {
   });
 
   it('should reject old signal', async () => {
-    const oldTimestamp = new Date();
-    oldTimestamp.setMinutes(oldTimestamp.getMinutes() - 10); // 10 minutes old
+    const oldTimestamp = new Date(clock.nowMs() - 10 * 60 * 1000); // 10 minutes old
 
     const signal: Signal = {
       id: 'test-1',
@@ -4,21 +4,36 @@
  */
 
 import { Signal, ValidationResult, Config } from '../core/types.ts';
+import { Clock, systemClock } from '../core/clock.ts';
+import { InMemoryStateStore, STATE_NAMESPACES, type StateStore } from '../cache/state-store.ts';
+import { marketCalendar } from '../../market-calendar.ts';
+import type { EventBlackoutService } from '../services/event-blackout.ts';
+
+export interface ValidateOptions {
+  /** Treat the cooldown as passed (dead-letter replays) */
+  skipCooldown?: boolean;
+  /** Treat the signal age check as passed (dead-letter replays) */
+  bypassAgeCheck?: boolean;
+}
 
 export class SignalValidator {
-  private cooldownTracker: Map<string, number> = new Map();
-
-  constructor(private config: Config) {}
+  constructor(
+    private config: Config,
+    private clock: Clock = systemClock,
+    private stateStore: StateStore = new InMemoryStateStore(clock),
+    private blackoutService?: EventBlackoutService
+  ) {}
 
   /**
    * Validate signal through ordered pipeline
    * Implements Requirements 4.1, 4.3, 4.4
    * 
-   * Validation order: cooldown → marketHours → mtf → confluence → timeFilters
-   * Short-circuits on first failure
+   * Validation order: cooldown → marketHours → blackout → mtf → confluence → timeFilters
+   * Short-circuits on first failure. The blackout check only runs when a
+   * blackout service is configured.
    */
-  async validate(signal: Signal): Promise<ValidationResult> {
-    const checks = {
+  async validate(signal: Signal, options: ValidateOptions = {}): Promise<ValidationResult> {
+    const checks: ValidationResult['checks'] = {
       cooldown: false,
       marketHours: false,
       mtf: false,
@@ -29,7 +44,9 @@ export class SignalValidator {
     const details: Record<string, any> = {};
 
     // 1. Check cooldown
-    const cooldownResult = this.checkCooldown(signal);
+    const cooldownResult = options.skipCooldown
+      ? { passed: true, details: { skipped: true } }
+      : await this.checkCooldown(signal);
     checks.cooldown = cooldownResult.passed;
     details.cooldown = cooldownResult.details;
     
@@ -56,6 +73,22 @@ export class SignalValidator {
       };
     }
 
+    // 2b. Check scheduled event blackouts
+    if (this.blackoutService) {
+      const blackoutResult = await this.checkBlackout(signal);
+      checks.blackout = blackoutResult.passed;
+      details.blackout = blackoutResult.details;
+
+      if (!checks.blackout) {
+        return {
+          valid: false,
+          checks,
+          rejectionReason: 'Event blackout',
+          details,
+        };
+      }
+    }
+
     // 3. Check MTF alignment
     const mtfResult = this.checkMTF(signal);
     checks.mtf = mtfResult.passed;
@@ -85,7 +118,9 @@ export class SignalValidator {
     }
 
     // 5. Check time filters
-    const timeFiltersResult = this.checkTimeFilters(signal);
+    const timeFiltersResult = options.bypassAgeCheck
+      ? { passed: true, details: { ...this.checkTimeFilters(signal).details, bypassed: true } }
+      : this.checkTimeFilters(signal);
     checks.timeFilters = timeFiltersResult.passed;
     details.timeFilters = timeFiltersResult.details;
     
@@ -108,43 +143,41 @@ export class SignalValidator {
 
   /**
    * Check if signal is within cooldown period
+   * The first signal per symbol/direction claims the cooldown key in the
+   * state store; later signals fail until the claim expires.
    * Implements Requirement 4.3
    */
-  private checkCooldown(signal: Signal): { passed: boolean; details: any } {
+  private async checkCooldown(signal: Signal): Promise<{ passed: boolean; details: any }> {
     const key = `${signal.symbol}_${signal.direction}`;
-    const lastSignalTime = this.cooldownTracker.get(key);
-    const now = Date.now();
-
-    if (!lastSignalTime) {
-      // No previous signal - update tracker
-      this.cooldownTracker.set(key, now);
-      return {
-        passed: true,
-        details: { message: 'No previous signal' },
-      };
-    }
-
-    const timeSinceLastSignal = now - lastSignalTime;
+    const now = this.clock.nowMs();
     const cooldownMs = this.config.validation.cooldownSeconds * 1000;
 
-    if (timeSinceLastSignal < cooldownMs) {
+    const claimed = await this.stateStore.putIfAbsent(
+      STATE_NAMESPACES.COOLDOWN,
+      key,
+      String(now),
+      cooldownMs
+    );
+
+    if (claimed) {
       return {
-        passed: false,
+        passed: true,
         details: {
-          timeSinceLastSignal: timeSinceLastSignal / 1000,
+          message: 'No active cooldown',
           cooldownSeconds: this.config.validation.cooldownSeconds,
-          remainingSeconds: (cooldownMs - timeSinceLastSignal) / 1000,
         },
       };
     }
 
-    // Cooldown expired - update tracker
-    this.cooldownTracker.set(key, now);
+    const lastSignal = await this.stateStore.get(STATE_NAMESPACES.COOLDOWN, key);
+    const timeSinceLastSignal = lastSignal ? now - lastSignal.storedAt : 0;
+
     return {
-      passed: true,
+      passed: false,
       details: {
         timeSinceLastSignal: timeSinceLastSignal / 1000,
         cooldownSeconds: this.config.validation.cooldownSeconds,
+        remainingSeconds: (cooldownMs - timeSinceLastSignal) / 1000,
       },
     };
   }
@@ -152,58 +185,63 @@ export class SignalValidator {
   /**
    * Check if signal is within market hours (9:30 AM - 3:30 PM ET)
    * Implements Requirement 13.2
+   *
+   * Weekends and exchange holidays fail; on early-close days the window ends
+   * as far before the 13:00 close as marketHoursEnd is before 16:00.
    */
   private checkMarketHours(signal: Signal): { passed: boolean; details: any } {
     const signalTime = signal.timestamp;
-    const timezone = 'America/New_York';
+    if (Number.isNaN(signalTime.getTime())) {
+      return { passed: false, details: { signalTime: 'Invalid Date' } };
+    }
 
-    const { hours, minutes } = this.getTimeInTimezone(signalTime, timezone);
-    const signalMinutes = hours * 60 + minutes;
+    const exchangeTime = marketCalendar.exchangeTime(signalTime);
+    const session = marketCalendar.getSession(exchangeTime.date);
 
-    const [startHour, startMinute] = this.parseTime(this.config.validation.marketHoursStart);
-    const [endHour, endMinute] = this.parseTime(this.config.validation.marketHoursEnd);
-    const startMinutes = startHour * 60 + startMinute;
-    const endMinutes = endHour * 60 + endMinute;
+    const details: Record<string, unknown> = {
+      signalTime: signalTime.toISOString(),
+      signalHour: exchangeTime.hours,
+      signalMinute: exchangeTime.minutes,
+      marketStart: `${this.config.validation.marketHoursStart} ${marketCalendar.timeZone}`,
+      marketEnd: `${this.config.validation.marketHoursEnd} ${marketCalendar.timeZone}`,
+    };
 
-    const withinHours = signalMinutes >= startMinutes && signalMinutes <= endMinutes;
+    if (!session) {
+      details.holiday = marketCalendar.holidayName(exchangeTime.date);
+      return { passed: false, details };
+    }
 
-    return {
-      passed: withinHours,
-      details: {
-        signalTime: signalTime.toISOString(),
-        signalHour: hours,
-        signalMinute: minutes,
-        marketStart: `${this.config.validation.marketHoursStart} ${timezone}`,
-        marketEnd: `${this.config.validation.marketHoursEnd} ${timezone}`,
-      },
-    };
-  }
+    const start = marketCalendar.atExchangeTime(exchangeTime.date, this.config.validation.marketHoursStart);
+    const end = marketCalendar.beforeClose(exchangeTime.date, this.config.validation.marketHoursEnd)!;
+    details.earlyClose = session.earlyClose;
+    details.windowEnd = end.toISOString();
 
-  private parseTime(time: string): [number, number] {
-    const [hourStr, minuteStr] = time.split(':');
-    const hour = Number(hourStr);
-    const minute = Number(minuteStr);
-    return [
-      Number.isNaN(hour) ? 0 : hour,
-      Number.isNaN(minute) ? 0 : minute,
-    ];
-  }
+    // The end minute itself is still inside the window
+    const withinHours = signalTime >= start && signalTime.getTime() < end.getTime() + 60_000;
 
-  private getTimeInTimezone(date: Date, timeZone: string): { hours: number; minutes: number } {
-    const formatter = new Intl.DateTimeFormat('en-US', {
-      timeZone,
-      hour: '2-digit',
-      minute: '2-digit',
-      hour12: false,
-    });
+    return { passed: withinHours, details };
+  }
 
-    const parts = formatter.formatToParts(date);
-    const hourPart = parts.find(part => part.type === 'hour')?.value ?? '0';
-    const minutePart = parts.find(part => part.type === 'minute')?.value ?? '0';
+  /**
+   * Check whether entries on the symbol are blocked by a scheduled event.
+   * DOWNSIZE windows pass here; the orchestrator applies their multiplier.
+   */
+  private async checkBlackout(signal: Signal): Promise<{ passed: boolean; details: Record<string, unknown> }> {
+    const result = await this.blackoutService!.check(signal.symbol, this.clock.now());
 
     return {
-      hours: Number(hourPart),
-      minutes: Number(minutePart),
+      passed: !result.blocked,
+      details: {
+        sizeMultiplier: result.sizeMultiplier,
+        events: result.active.map(blackout => ({
+          type: blackout.event.type,
+          symbol: blackout.event.symbol,
+          time: blackout.event.time.toISOString(),
+          action: blackout.window.action,
+          windowStart: blackout.start.toISOString(),
+          windowEnd: blackout.end.toISOString(),
+        })),
+      },
     };
   }
 
@@ -249,7 +287,7 @@ export class SignalValidator {
    * Implements Requirement 4.3
    */
   private checkTimeFilters(signal: Signal): { passed: boolean; details: any } {
-    const now = Date.now();
+    const now = this.clock.nowMs();
     const signalTime = signal.timestamp.getTime();
     const ageMs = now - signalTime;
     const maxAgeMs = this.config.validation.maxSignalAgeMinutes * 60 * 1000;
@@ -266,7 +304,7 @@ export class SignalValidator {
   /**
    * Clear cooldown tracker (for testing)
    */
-  clearCooldowns(): void {
-    this.cooldownTracker.clear();
+  async clearCooldowns(): Promise<void> {
+    await this.stateStore.clear(STATE_NAMESPACES.COOLDOWN);
   }
 }
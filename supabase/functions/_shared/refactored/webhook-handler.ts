@@ -11,6 +11,8 @@ import { SignalPipeline } from "./pipeline/signal-pipeline.ts";
 import { SignalNormalizer } from "./pipeline/signal-normalizer.ts";
 import { SignalValidator } from "./validation/signal-validator.ts";
 import { DeduplicationCache } from "./cache/deduplication-cache.ts";
+import { PostgresStateStore } from "./cache/state-store.ts";
+import { PostgresPipelineFailureStore } from "./pipeline/failure-store.ts";
 import { DecisionOrchestrator } from "./orchestrator/decision-orchestrator.ts";
 import { ContextCache } from "./cache/context-cache.ts";
 import { GEXService } from "./services/gex-service.ts";
@@ -52,10 +54,13 @@ function initializePipeline(): SignalPipeline {
     };
   };
 
+  // Dedup, cooldown and signal-to-position claims shared across instances
+  const stateStore = new PostgresStateStore(supabase);
+
   // Create service instances
   const contextCache = new ContextCache(defaultConfig, fetchContext);
   const gexService = new GEXService(supabase, defaultConfig, degradedModeTracker);
-  const positionManager = new PositionManager(supabase, defaultConfig);
+  const positionManager = new PositionManager(supabase, defaultConfig, undefined, stateStore);
   const riskManager = new RiskManager(defaultConfig);
   const positionSizingService = new PositionSizingService(defaultConfig);
   const confluenceCalculator = new ConfluenceCalculator();
@@ -74,8 +79,8 @@ function initializePipeline(): SignalPipeline {
   
   // Create pipeline components
   const normalizer = new SignalNormalizer();
-  const validator = new SignalValidator(defaultConfig);
-  const deduplicationCache = new DeduplicationCache(defaultConfig);
+  const validator = new SignalValidator(defaultConfig, undefined, stateStore);
+  const deduplicationCache = new DeduplicationCache(defaultConfig, undefined, stateStore);
   
   // Create and return pipeline
   return new SignalPipeline(
@@ -85,7 +90,10 @@ function initializePipeline(): SignalPipeline {
     orchestrator,
     positionManager,
     defaultConfig,
-    auditLogger
+    auditLogger,
+    undefined,
+    undefined,
+    new PostgresPipelineFailureStore(supabase)
   );
 }
 
@@ -204,7 +212,7 @@ async function processSignalAsync(rawPayload: any, correlationId: string): Promi
     console.log(`[${correlationId}] Processing signal through unified pipeline...`);
     
     // Process through unified pipeline
-    const result = await pipeline.processSignal(rawPayload);
+    const result = await pipeline.processSignal(rawPayload, { correlationId });
     
     // Log result
     if (result.success) {
@@ -12,6 +12,7 @@ import { createDbClient } from "./db-client.ts";
 import type { IncomingSignal } from "./types.ts";
 import type { MarketSession } from "./market-filters.ts";
 import { getCurrentMarketSession } from "./market-filters.ts";
+import { marketCalendar } from "./market-calendar.ts";
 
 export interface QueuedSignal {
   id: string;
@@ -28,7 +29,7 @@ export interface QueuedSignal {
 export interface QueueConfig {
   // Minimum confidence score to queue (higher than normal since delayed)
   minQueueConfidence: number;
-  // Maximum age of queued signals (minutes after market open)
+  // Minutes after the next market open a queued signal stays executable
   maxQueueAge: number;
   // Sessions during which to queue signals
   queueSessions: MarketSession[];
@@ -134,29 +135,30 @@ export function queueSignal(
  * Get all queued signals ready for execution
  */
 export function getQueuedSignals(
-  config: Partial<QueueConfig> = {}
+  config: Partial<QueueConfig> = {},
+  now: Date = new Date()
 ): QueuedSignal[] {
   const cfg = { ...DEFAULT_QUEUE_CONFIG, ...config };
-  const session = getCurrentMarketSession();
+  const session = getCurrentMarketSession(now);
   
   // Only return signals during market hours
   if (['PRE_MARKET', 'AFTER_HOURS'].includes(session)) {
     return [];
   }
   
-  const now = new Date();
   const validSignals: QueuedSignal[] = [];
   
   for (const [key, signal] of signalQueue) {
     if (signal.status !== 'QUEUED') continue;
     
-    const queuedAt = new Date(signal.queued_at);
-    const ageMinutes = (now.getTime() - queuedAt.getTime()) / (1000 * 60);
+    // Expire signals not picked up within maxQueueAge of the first open after
+    // they were queued (skips weekends, holidays and early closes)
+    const dueOpen = marketCalendar.nextOpen(new Date(signal.queued_at));
+    const minutesPastOpen = (now.getTime() - dueOpen.getTime()) / (1000 * 60);
     
-    // Check if signal has expired
-    if (ageMinutes > cfg.maxQueueAge + 240) { // 240 = max pre-market duration
+    if (minutesPastOpen > cfg.maxQueueAge) {
       signal.status = 'EXPIRED';
-      console.log(`[SignalQueue] Signal expired: ${key} (age: ${ageMinutes.toFixed(0)} min)`);
+      console.log(`[SignalQueue] Signal expired: ${key} (${minutesPastOpen.toFixed(0)} min past ${dueOpen.toISOString()} open)`);
       continue;
     }
     
@@ -223,18 +225,18 @@ export function getQueueStats(): {
  * Process queued signals at market open
  * Called by webhook or a scheduled function
  */
-export async function processQueuedSignals(): Promise<{
+export async function processQueuedSignals(now: Date = new Date()): Promise<{
   processed: number;
   errors: string[];
 }> {
-  const session = getCurrentMarketSession();
+  const session = getCurrentMarketSession(now);
   
   // Only process during opening or morning session
   if (!['OPENING', 'MORNING'].includes(session)) {
     return { processed: 0, errors: ['Not in opening/morning session'] };
   }
   
-  const queuedSignals = getQueuedSignals();
+  const queuedSignals = getQueuedSignals({}, now);
   const errors: string[] = [];
   let processed = 0;
   
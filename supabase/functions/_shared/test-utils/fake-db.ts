@@ -0,0 +1,152 @@
+/**
+ * Test doubles shared by the _shared test suites: an in-memory stand-in for
+ * the db-client query builder and a broker adapter whose methods are faked
+ * per test.
+ */
+
+import type { AdapterCapabilities, BrokerAdapter } from "../broker-adapter.ts";
+
+// Instant most suites run at: a Wednesday, 10:00 ET, inside the regular session
+export const NOW = new Date('2026-03-04T15:00:00.000Z');
+
+export type Row = Record<string, unknown>;
+
+// SQL-style comparison: NULL never matches, numbers compare as numbers
+function compare(a: unknown, b: unknown): number | null {
+  if (a === null || a === undefined || b === null || b === undefined) {
+    return null;
+  }
+  if (typeof a === 'number' && typeof b === 'number') {
+    return a - b;
+  }
+  const left = String(a);
+  const right = String(b);
+  return left < right ? -1 : left > right ? 1 : 0;
+}
+
+type RpcHandler = (params: Record<string, unknown>, tables: Record<string, Row[]>) => unknown;
+
+/**
+ * In-memory fake of createDbClient() over `tables`. Covers what db-client
+ * offers: select with eq/neq/in/gt/gte/lt/lte/order/limit/single/maybeSingle,
+ * insert of one row or many (RETURNING the stored rows, with an id assigned
+ * when the row has none), update().eq() and rpc() through `rpc` handlers.
+ * Inserted rows round-trip through JSON like JSONB columns do.
+ */
+export function fakeClient(tables: Record<string, Row[]> = {}, rpc: Record<string, RpcHandler> = {}) {
+  let nextId = 0;
+
+  return {
+    tables,
+    rpc: (name: string, params: Record<string, unknown> = {}) => {
+      const handler = rpc[name];
+      return Promise.resolve(handler
+        ? { data: handler(params, tables), error: null }
+        : { data: null, error: { message: `unknown function ${name}` } });
+    },
+    from(table: string) {
+      const filters: Array<(row: Row) => boolean> = [];
+      let single = false;
+      let limit = Infinity;
+      let sort: ((a: Row, b: Row) => number) | null = null;
+
+      const rows = () => {
+        const matched = (tables[table] ??= []).filter(row => filters.every(filter => filter(row)));
+        if (sort) {
+          matched.sort(sort);
+        }
+        return matched.slice(0, limit);
+      };
+      const where = (predicate: (row: Row) => boolean) => {
+        filters.push(predicate);
+        return builder;
+      };
+      const first = () => {
+        single = true;
+        return builder;
+      };
+
+      const builder = {
+        select: (_fields?: string) => builder,
+        eq: (column: string, value: unknown) => where(row => row[column] === value),
+        neq: (column: string, value: unknown) => where(row => row[column] !== value),
+        in: (column: string, values: unknown[]) => where(row => values.includes(row[column])),
+        gt: (column: string, value: unknown) => where(row => (compare(row[column], value) ?? 0) > 0),
+        gte: (column: string, value: unknown) => where(row => (compare(row[column], value) ?? -1) >= 0),
+        lt: (column: string, value: unknown) => where(row => (compare(row[column], value) ?? 0) < 0),
+        lte: (column: string, value: unknown) => where(row => (compare(row[column], value) ?? 1) <= 0),
+        order: (column: string, options?: { ascending?: boolean }) => {
+          const direction = options?.ascending === false ? -1 : 1;
+          sort = (a, b) => (compare(a[column], b[column]) ?? 0) * direction;
+          return builder;
+        },
+        limit: (count: number) => {
+          limit = count;
+          return builder;
+        },
+        single: first,
+        maybeSingle: first,
+        insert: (data: Row | Row[]) => {
+          const stored = (Array.isArray(data) ? data : [data]).map(row => ({
+            ...JSON.parse(JSON.stringify(row)),
+            id: row.id ?? `${table}-${++nextId}`,
+          }));
+          (tables[table] ??= []).push(...stored);
+          return Promise.resolve({ data: Array.isArray(data) ? stored : stored[0], error: null });
+        },
+        update: (fields: Row) => ({
+          eq: (column: string, value: unknown) => {
+            const matched = (tables[table] ??= []).filter(row => row[column] === value);
+            matched.forEach(row => Object.assign(row, fields));
+            return Promise.resolve({ data: matched, error: null });
+          },
+        }),
+        then: (resolve: (value: unknown) => unknown, reject?: (reason: unknown) => unknown) =>
+          Promise.resolve({ data: single ? rows()[0] ?? null : rows(), error: null }).then(resolve, reject),
+      };
+      return builder;
+    },
+  };
+}
+
+export type FakeClient = ReturnType<typeof fakeClient>;
+
+/**
+ * Broker adapter with `methods` faked and every other required method
+ * rejecting, so a test fails loudly when code reaches a call it did not
+ * expect. Optional methods (replaceOrder, submitOcoOrder) exist only when faked.
+ */
+export function fakeAdapter(
+  methods: Partial<Record<keyof BrokerAdapter, unknown>> = {},
+  options: { mode?: string; capabilities?: Partial<AdapterCapabilities> } = {}
+): BrokerAdapter {
+  const unexpected = (method: string) => () => Promise.reject(new Error(`fake adapter: unexpected ${method}()`));
+
+  return {
+    name: 'fake',
+    mode: options.mode ?? 'LIVE',
+    isConfigured: () => true,
+    getCapabilities: () => ({
+      supports_market_orders: true,
+      supports_limit_orders: true,
+      supports_stop_orders: false,
+      supports_options: true,
+      supports_multi_leg: false,
+      supports_order_modification: false,
+      supports_oco_orders: false,
+      supports_extended_hours: false,
+      max_order_size: 1000,
+      min_order_size: 1,
+      ...options.capabilities,
+    }),
+    submitOrder: unexpected('submitOrder'),
+    submitMultiLegOrder: unexpected('submitMultiLegOrder'),
+    cancelOrder: unexpected('cancelOrder'),
+    getOrderStatus: unexpected('getOrderStatus'),
+    getOrderFills: unexpected('getOrderFills'),
+    findOrderByClientId: unexpected('findOrderByClientId'),
+    getPositions: unexpected('getPositions'),
+    getOpenOrders: unexpected('getOpenOrders'),
+    ...methods,
+  } as unknown as BrokerAdapter;
+}
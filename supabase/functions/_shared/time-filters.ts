@@ -4,10 +4,11 @@
  * Applies different confidence weights and position sizing
  * based on market session (opening, power hour, etc.)
  * 
- * Uses TechnicalAnalysisService for real-time market schedules
+ * Sessions, holidays and early closes come from the exchange calendar
  */
 
-import { getCurrentMarketSession, type MarketSession, getCachedMarketSchedule } from "./market-filters.ts";
+import { getCurrentMarketSession, type MarketSession } from "./market-filters.ts";
+import { marketCalendar } from "./market-calendar.ts";
 
 export interface TimeFilterConfig {
   // Session-specific position multipliers
@@ -83,10 +84,10 @@ export interface TimeFilterResult {
 }
 
 /**
- * Get the current day of week
+ * Get the current day of week at the exchange
  */
-function getDayOfWeek(): number {
-  return new Date().getDay();
+function getDayOfWeek(now: Date): number {
+  return marketCalendar.exchangeTime(now).weekday;
 }
 
 /**
@@ -98,44 +99,50 @@ function getDayName(day: number): string {
 }
 
 /**
- * Check if we're in the lunch hour (12-1pm EST)
- * Uses cached market schedule when available
+ * Check if we're in the lunch hour (12-1pm ET)
  */
-function isLunchHour(): boolean {
-  const cachedSchedule = getCachedMarketSchedule();
-  if (cachedSchedule) {
-    // Lunch hour is roughly 150-210 minutes into trading day
-    const minutesSinceOpen = cachedSchedule.minutesToClose ? 390 - cachedSchedule.minutesToClose : 0;
-    return minutesSinceOpen >= 150 && minutesSinceOpen < 210;
-  }
-  
-  // Fallback to EST calculation
-  const now = new Date();
-  const estOffset = -5;
-  const utcHour = now.getUTCHours();
-  const estHour = (utcHour + estOffset + 24) % 24;
-  return estHour === 12;
+function isLunchHour(now: Date): boolean {
+  return marketCalendar.exchangeTime(now).hours === 12;
 }
 
 /**
  * Apply time-based filters to a potential trade
  */
 export function applyTimeFilters(
-  config: Partial<TimeFilterConfig> = {}
+  config: Partial<TimeFilterConfig> = {},
+  now: Date = new Date()
 ): TimeFilterResult {
   const cfg = { ...DEFAULT_TIME_FILTER_CONFIG, ...config };
   const warnings: string[] = [];
   const recommendations: string[] = [];
   
-  const session = getCurrentMarketSession();
-  const dayOfWeek = getDayOfWeek();
+  const session = getCurrentMarketSession(now);
+  const dayOfWeek = getDayOfWeek(now);
   const dayName = getDayName(dayOfWeek);
-  const lunchHour = isLunchHour();
+  const lunchHour = isLunchHour(now);
+  const holiday = marketCalendar.holidayName(marketCalendar.sessionDate(now));
   
   // Start with session multiplier
   let positionMultiplier = cfg.sessionMultipliers[session] || 1.0;
   let scoreAdjustment = cfg.sessionScoreAdjustments[session] || 0;
   
+  // Exchange holidays
+  if (holiday) {
+    return {
+      approved: false,
+      reason: `Market closed for ${holiday}`,
+      session,
+      dayOfWeek,
+      dayName,
+      positionMultiplier: 0,
+      scoreAdjustment: -100,
+      isPreferredSession: false,
+      isLunchHour: lunchHour,
+      warnings: [`${holiday} is an exchange holiday`],
+      recommendations: ['Wait for next trading day'],
+    };
+  }
+  
   // Check if session is blocked
   if (cfg.blockedSessions.includes(session)) {
     return {
@@ -273,33 +280,36 @@ export function getOptimalTradingWindows(): Array<{
  * Calculate time until next preferred session
  */
 export function getTimeUntilNextPreferredSession(
-  preferredSessions: MarketSession[] = ['MORNING', 'POWER_HOUR']
+  preferredSessions: MarketSession[] = ['MORNING', 'POWER_HOUR'],
+  now: Date = new Date()
 ): { session: MarketSession; minutesUntil: number } | null {
-  const now = new Date();
-  const estOffset = -5;
-  const utcHour = now.getUTCHours();
-  const estHour = (utcHour + estOffset + 24) % 24;
-  const estMinutes = now.getUTCMinutes();
-  const currentMinutes = estHour * 60 + estMinutes;
+  const tradingSession = marketCalendar.getSession(marketCalendar.sessionDate(now));
+  if (!tradingSession) {
+    return null;
+  }
+  
+  const minutesUntil = (time: Date) => Math.ceil((time.getTime() - now.getTime()) / 60000);
+  const fromOpen = minutesUntil(tradingSession.open);
+  const fromClose = minutesUntil(tradingSession.close);
   
-  // Session start times in minutes since midnight
+  // Minutes until each session starts; afternoon sessions key off the (possibly early) close
   const sessionStarts: Record<MarketSession, number> = {
-    'PRE_MARKET': 4 * 60,
-    'OPENING': 9 * 60 + 30,
-    'MORNING': 9 * 60 + 45,
-    'MIDDAY': 11 * 60 + 30,
-    'AFTERNOON': 13 * 60,
-    'POWER_HOUR': 15 * 60,
-    'CLOSING': 15 * 60 + 50,
-    'AFTER_HOURS': 16 * 60,
+    'PRE_MARKET': minutesUntil(tradingSession.preMarketOpen),
+    'OPENING': fromOpen,
+    'MORNING': fromOpen + 15,
+    'MIDDAY': fromOpen + 90,
+    'AFTERNOON': fromOpen + 210,
+    'POWER_HOUR': fromClose - 60,
+    'CLOSING': fromClose - 10,
+    'AFTER_HOURS': fromClose,
   };
   
   for (const session of preferredSessions) {
-    const sessionStart = sessionStarts[session];
-    if (sessionStart > currentMinutes) {
+    const minutes = sessionStarts[session];
+    if (minutes > 0) {
       return {
         session,
-        minutesUntil: sessionStart - currentMinutes,
+        minutesUntil: minutes,
       };
     }
   }
@@ -8,6 +8,8 @@
 
 import type { 
   OrderRequest, 
+  MultiLegOrderRequest,
+  MultiLegOrderResult,
   Trade,
   TradingMode,
   OrderStatus,
@@ -19,7 +21,10 @@ import type {
   AdapterOrderResult,
   AdapterCapabilities,
   OrderStatusResponse,
-  AdapterTradeFill
+  AdapterTradeFill,
+  AdapterLegTrade,
+  BrokerPosition,
+  BrokerOpenOrder
 } from "./broker-adapter.ts";
 
 const TRADIER_BASE_URL = "https://api.tradier.com/v1";
@@ -66,6 +71,24 @@ interface TradierOrderDetail {
   strategy?: string;
   leg?: TradierLeg[];
   reject_reason?: string;
+  tag?: string; // Only returned when listed with includeTags=true
+}
+
+// Tradier returns "null" for empty collections and an object for a single item
+interface TradierPositionsResponse {
+  positions: { position: TradierPosition | TradierPosition[] } | 'null' | null;
+}
+
+interface TradierPosition {
+  id: number;
+  symbol: string;
+  quantity: number;
+  cost_basis: number;
+  date_acquired: string;
+}
+
+interface TradierOrdersResponse {
+  orders: { order: TradierOrderDetail | TradierOrderDetail[] } | 'null' | null;
 }
 
 interface TradierLeg {
@@ -127,6 +150,25 @@ function mapOrderSide(side: OrderSide): string {
   }
 }
 
+// Map Tradier side back to our OrderSide
+function fromTradierSide(side: string): OrderSide {
+  switch (side.toLowerCase()) {
+    case 'buy_to_close':
+      return 'BUY_TO_CLOSE';
+    case 'sell_to_open':
+      return 'SELL_TO_OPEN';
+    case 'sell_to_close':
+      return 'SELL_TO_CLOSE';
+    default:
+      return 'BUY_TO_OPEN';
+  }
+}
+
+function toArray<T>(value: T | T[] | undefined): T[] {
+  if (value === undefined) return [];
+  return Array.isArray(value) ? value : [value];
+}
+
 export class TradierAdapter implements BrokerAdapter {
   readonly name = 'tradier';
   readonly mode: TradingMode = 'LIVE';
@@ -155,6 +197,7 @@ export class TradierAdapter implements BrokerAdapter {
       supports_options: true,
       supports_multi_leg: true,
       supports_order_modification: false, // Tradier requires cancel/replace
+      supports_oco_orders: false,
       supports_extended_hours: false,
       max_order_size: 10000,
       min_order_size: 1,
@@ -231,6 +274,10 @@ export class TradierAdapter implements BrokerAdapter {
       if ((request.order_type === 'STOP' || request.order_type === 'STOP_LIMIT') && request.stop_price) {
         orderParams.stop = request.stop_price;
       }
+      // Tradier has no client order id; the tag carries it
+      if (request.client_order_id) {
+        orderParams.tag = request.client_order_id;
+      }
       
       console.log(`[TradierAdapter] Submitting order:`, orderParams);
       
@@ -271,6 +318,108 @@ export class TradierAdapter implements BrokerAdapter {
     }
   }
   
+  async submitMultiLegOrder(
+    request: MultiLegOrderRequest,
+    _legPrices?: number[]
+  ): Promise<{ result: MultiLegOrderResult; trades: AdapterLegTrade[] }> {
+    const orderId = request.signal_id || crypto.randomUUID();
+    
+    try {
+      // Tradier multileg orders are priced by net effect: market, debit, credit or even
+      const orderParams: Record<string, string | number> = {
+        class: 'multileg',
+        symbol: request.underlying,
+        type: request.order_type === 'MARKET'
+          ? 'market'
+          : (request.price_effect || 'DEBIT').toLowerCase(),
+        duration: request.time_in_force.toLowerCase() === 'gtc' ? 'gtc' : 'day',
+      };
+      
+      if (request.order_type === 'LIMIT' && request.price_effect !== 'EVEN' && request.net_price !== undefined) {
+        orderParams.price = request.net_price;
+      }
+      
+      // Tradier has no client order id; the tag carries it
+      if (request.client_order_id) {
+        orderParams.tag = request.client_order_id;
+      }
+      
+      request.legs.forEach((leg, index) => {
+        orderParams[`option_symbol[${index}]`] = leg.symbol.replace(/\s/g, '');
+        orderParams[`side[${index}]`] = mapOrderSide(leg.side);
+        orderParams[`quantity[${index}]`] = leg.ratio * request.quantity;
+      });
+      
+      console.log(`[TradierAdapter] Submitting multileg order:`, orderParams);
+      
+      const response = await this.fetch<TradierOrderResponse>(
+        `/accounts/${this.accountId}/orders`,
+        'POST',
+        orderParams
+      );
+      
+      const status = mapTradierStatus(response.order.status);
+      const legIds = await this.fetchLegOrderIds(response.order.id);
+      
+      // Legs execute together; fills arrive via polling
+      return {
+        result: {
+          success: true,
+          order_id: orderId,
+          broker_order_id: String(response.order.id),
+          status,
+          filled_quantity: 0,
+          price_effect: request.price_effect,
+          leg_results: request.legs.map((leg, index) => ({
+            leg_number: index + 1,
+            broker_order_id: legIds.get(leg.symbol.replace(/\s/g, '')),
+            symbol: leg.symbol,
+            side: leg.side,
+            status,
+            filled_quantity: 0,
+          })),
+        },
+        trades: [],
+      };
+    } catch (error) {
+      console.error(`[TradierAdapter] Multileg order submission failed:`, error);
+      return {
+        result: {
+          success: false,
+          order_id: orderId,
+          status: 'REJECTED',
+          filled_quantity: 0,
+          leg_results: request.legs.map((leg, index) => ({
+            leg_number: index + 1,
+            symbol: leg.symbol,
+            side: leg.side,
+            status: 'REJECTED',
+            filled_quantity: 0,
+          })),
+          error: error instanceof Error ? error.message : 'Unknown error',
+        },
+        trades: [],
+      };
+    }
+  }
+  
+  /**
+   * Leg order ids of a multileg order by option symbol. The submit response
+   * carries only the parent id; an empty map leaves the legs to be matched
+   * by symbol when the order is polled.
+   */
+  private async fetchLegOrderIds(brokerOrderId: number): Promise<Map<string, string>> {
+    try {
+      const response = await this.fetch<TradierOrderStatusResponse>(
+        `/accounts/${this.accountId}/orders/${brokerOrderId}`
+      );
+      return new Map(toArray(response.order.leg).map(leg => [leg.option_symbol, String(leg.id)]));
+    } catch (error) {
+      console.warn(`[TradierAdapter] Could not read leg ids of multileg order ${brokerOrderId}:`, error);
+      return new Map();
+    }
+  }
+  
   async cancelOrder(
     _orderId: string, 
     brokerOrderId?: string
@@ -329,6 +478,32 @@ export class TradierAdapter implements BrokerAdapter {
     }
   }
   
+  async findOrderByClientId(clientOrderId: string): Promise<OrderStatusResponse | null> {
+    const response = await this.fetch<TradierOrdersResponse>(
+      `/accounts/${this.accountId}/orders?includeTags=true`
+    );
+    
+    if (!response.orders || response.orders === 'null') {
+      return null;
+    }
+    
+    const order = toArray(response.orders.order).find(candidate => candidate.tag === clientOrderId);
+    if (!order) {
+      return null;
+    }
+    
+    return {
+      order_id: clientOrderId,
+      broker_order_id: String(order.id),
+      status: mapTradierStatus(order.status),
+      filled_quantity: order.exec_quantity || 0,
+      remaining_quantity: order.remaining_quantity || order.quantity,
+      avg_fill_price: order.avg_fill_price || undefined,
+      last_fill_time: order.transaction_date,
+      rejection_reason: order.reject_reason,
+    };
+  }
+  
   async getOrderFills(
     orderId: string, 
     brokerOrderId: string
@@ -360,6 +535,52 @@ export class TradierAdapter implements BrokerAdapter {
       return [];
     }
   }
+  
+  async getPositions(): Promise<BrokerPosition[]> {
+    const response = await this.fetch<TradierPositionsResponse>(
+      `/accounts/${this.accountId}/positions`
+    );
+    
+    if (!response.positions || response.positions === 'null') {
+      return [];
+    }
+    
+    return toArray(response.positions.position)
+      // Option symbols only; equity from assignment is not ours to reconcile
+      .filter(position => position.symbol.length > 6)
+      .map(position => ({
+        symbol: position.symbol,
+        quantity: position.quantity,
+        avg_price: position.quantity !== 0
+          ? Math.abs(position.cost_basis / (position.quantity * 100))
+          : undefined,
+      }));
+  }
+  
+  async getOpenOrders(): Promise<BrokerOpenOrder[]> {
+    const response = await this.fetch<TradierOrdersResponse>(
+      `/accounts/${this.accountId}/orders`
+    );
+    
+    if (!response.orders || response.orders === 'null') {
+      return [];
+    }
+    
+    // Multileg orders are listed by leg, matching the leg rows stored locally
+    return toArray(response.orders.order)
+      .filter(order => ['open', 'partially_filled', 'pending'].includes(order.status.toLowerCase()))
+      .flatMap(order => order.class === 'multileg' ? toArray(order.leg) : [order])
+      .filter(order => !!order.option_symbol)
+      .map(order => ({
+        broker_order_id: String(order.id),
+        symbol: order.option_symbol,
+        side: fromTradierSide(order.side),
+        quantity: order.quantity,
+        filled_quantity: order.exec_quantity || 0,
+        status: mapTradierStatus(order.status),
+        created_at: order.create_date,
+      }));
+  }
 }
 
 /**
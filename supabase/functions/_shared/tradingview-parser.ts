@@ -1,4 +1,5 @@
-import type { IncomingSignal, SignalAction, OptionType, OrderType, TimeInForce } from "./types.ts";
+import type { IncomingSignal, SignalAction, OptionType, OrderType, TimeInForce, ContractSpec } from "./types.ts";
+import { parseExpirationSelector, parseStrikeSelector } from "./market-data/contract-resolver.ts";
 
 /**
  * TradingView Alert Payload Examples:
@@ -26,6 +27,15 @@ import type { IncomingSignal, SignalAction, OptionType, OrderType, TimeInForce }
  *   "time_in_force": "DAY",
  *   "strategy": "SINGLE"
  * }
+ *
+ * Symbolic contract (resolved against the live chain before storage):
+ * {
+ *   "action": "BUY",
+ *   "ticker": "SPY",
+ *   "strike": "ATM+1",           // or "ATM", "25 delta"
+ *   "expiration": "next weekly", // or "0DTE", "nearest monthly >= 14 DTE"
+ *   "type": "CALL"
+ * }
  */
 
 interface TradingViewPayload {
@@ -99,18 +109,29 @@ export function parseTradingViewPayload(raw: unknown): {
     errors.push("Missing underlying symbol (ticker/symbol/underlying)");
   }
   
-  // Parse strike
+  // Parse strike; symbolic specs leave a 0 placeholder until resolved
+  const contractSpec: ContractSpec = {};
   const strikeRaw = payload.strike;
-  const strike = typeof strikeRaw === "number" ? strikeRaw : parseFloat(strikeRaw?.toString() || "");
-  if (isNaN(strike) || strike <= 0) {
-    errors.push(`Invalid strike: "${strikeRaw}". Must be a positive number`);
+  let strike = 0;
+  if (typeof strikeRaw === "string" && parseStrikeSelector(strikeRaw)) {
+    contractSpec.strike = strikeRaw;
+  } else {
+    strike = typeof strikeRaw === "number" ? strikeRaw : parseFloat(strikeRaw?.toString() || "");
+    if (isNaN(strike) || strike <= 0) {
+      errors.push(`Invalid strike: "${strikeRaw}". Must be a positive number, ATM, ATM+N or N delta`);
+    }
   }
   
-  // Parse expiration
+  // Parse expiration; symbolic specs leave an empty placeholder until resolved
   const expirationRaw = payload.expiration || payload.expiry || payload.exp || "";
-  const expiration = normalizeExpiration(expirationRaw.toString());
-  if (!expiration) {
-    errors.push(`Invalid expiration: "${expirationRaw}". Use YYYY-MM-DD format`);
+  let expiration: string | null = "";
+  if (parseExpirationSelector(expirationRaw.toString())) {
+    contractSpec.expiration = expirationRaw.toString();
+  } else {
+    expiration = normalizeExpiration(expirationRaw.toString());
+    if (!expiration) {
+      errors.push(`Invalid expiration: "${expirationRaw}". Use YYYY-MM-DD, 0DTE, next weekly or nearest monthly >= N DTE`);
+    }
   }
   
   // Parse option type
@@ -163,6 +184,7 @@ export function parseTradingViewPayload(raw: unknown): {
     order_type: orderType,
     time_in_force: timeInForce,
     strategy_type: strategyType.toString(),
+    contract_spec: contractSpec.strike || contractSpec.expiration ? contractSpec : undefined,
     metadata: payload,
   };
   
@@ -22,9 +22,17 @@ export interface IncomingSignal {
   stop_price?: number;
   order_type?: OrderType;
   time_in_force?: TimeInForce;
+  contract_spec?: ContractSpec;
   metadata?: Record<string, unknown>;
 }
 
+// Symbolic contract selection, resolved against the live chain before the
+// signal is stored (see market-data/contract-resolver.ts)
+export interface ContractSpec {
+  strike?: string; // "ATM", "ATM+2", "25 delta"
+  expiration?: string; // "0DTE", "next weekly", "nearest monthly >= 14 DTE"
+}
+
 export interface Signal {
   id: string;
   source: string;
@@ -51,6 +59,8 @@ export interface Order {
   refactored_position_id?: string | null;
   exit_action?: 'PARTIAL' | 'FULL' | null;
   exit_quantity?: number | null;
+  chase_id?: string | null; // Shared by every order of one limit chase
+  bracket_id?: string | null; // Set on the legs of a broker-held protective bracket
   broker_order_id: string | null;
   client_order_id: string;
   underlying: string;
@@ -98,6 +108,61 @@ export interface Trade {
   created_at: string;
 }
 
+// REJECTED_TRANSITION records a change the order state machine refused
+export type OrderEventType = 'CREATED' | 'STATUS_CHANGE' | 'FILL' | 'REJECTED_TRANSITION' | 'CHASE_STEP';
+
+export interface OrderEvent {
+  id: string;
+  order_id: string;
+  event_type: OrderEventType;
+  from_status: OrderStatus | null;
+  to_status: OrderStatus | null;
+  filled_quantity: number | null; // Cumulative, after the event
+  fill_quantity: number | null;
+  fill_price: number | null;
+  broker_trade_id: string | null;
+  source: string;
+  reason: string | null;
+  details?: Record<string, unknown> | null; // CHASE_STEP pricing: step, limit, mid and far side
+  created_at: string;
+}
+
+export type BracketStatus = 'PENDING' | 'ACTIVE' | 'TRIGGERED' | 'CANCELLED';
+export type BracketManagement = 'BROKER' | 'LOCAL';
+export type BracketLeg = 'STOP' | 'TARGET';
+
+// Stop and profit target attached to a position when its entry fills.
+// BROKER brackets rest at the broker as an OCO pair (stop_order_id and
+// target_order_id are their orders rows); LOCAL ones are watched by the exit worker.
+export interface OrderBracket {
+  id: string;
+  refactored_position_id: string;
+  entry_order_id: string | null;
+  underlying: string;
+  symbol: string;
+  strike: number;
+  expiration: string;
+  option_type: OptionType;
+  side: 'LONG' | 'SHORT';
+  quantity: number | null; // Set when the entry fills
+  entry_price: number | null;
+  stop_price: number | null;
+  target_price: number | null;
+  level_source: 'VOLATILITY' | 'CONFIG' | null;
+  management: BracketManagement | null;
+  status: BracketStatus;
+  stop_order_id: string | null;
+  target_order_id: string | null;
+  triggered_leg: BracketLeg | null;
+  triggered_price: number | null;
+  mode: TradingMode;
+  reason: string | null;
+  activated_at: string | null;
+  triggered_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
 export interface Position {
   id: string;
   symbol: string;
@@ -277,6 +342,14 @@ export interface OrderRequest {
   limit_price?: number;
   stop_price?: number;
   time_in_force: TimeInForce;
+  client_order_id?: string; // Sent to the broker as its idempotency key
+}
+
+// Protective exit pair for an open position: a take-profit limit and a stop,
+// where a fill on either cancels the other
+export interface OcoOrderRequest extends Omit<OrderRequest, 'order_type' | 'limit_price' | 'stop_price'> {
+  take_profit_price: number;
+  stop_price: number;
 }
 
 export interface OrderResult {
@@ -289,6 +362,54 @@ export interface OrderResult {
   error?: string;
 }
 
+export type MultiLegStrategyType = 'VERTICAL' | 'STRADDLE' | 'STRANGLE' | 'IRON_CONDOR' | 'CALENDAR';
+export type NetPriceEffect = 'DEBIT' | 'CREDIT' | 'EVEN';
+
+// One leg of a multi-leg order. Leg quantity = ratio * order quantity.
+export interface OrderLegRequest {
+  symbol: string;
+  strike: number;
+  expiration: string;
+  option_type: OptionType;
+  side: OrderSide;
+  ratio: number;
+}
+
+export interface MultiLegOrderRequest {
+  signal_id?: string;
+  strategy_type: MultiLegStrategyType;
+  underlying: string;
+  legs: OrderLegRequest[];
+  quantity: number;
+  order_type: 'MARKET' | 'LIMIT';
+  net_price?: number; // Net limit per spread (always positive), required for LIMIT
+  price_effect?: NetPriceEffect; // Whether net_price is paid (DEBIT) or received (CREDIT)
+  time_in_force: TimeInForce;
+  client_order_id?: string; // Sent to the broker as its idempotency key; legs add -L<n>
+}
+
+export interface LegFillResult {
+  leg_number: number;
+  broker_order_id?: string; // The leg's own order at the broker, under the strategy's broker_order_id
+  symbol: string;
+  side: OrderSide;
+  status: OrderStatus;
+  filled_quantity: number;
+  avg_fill_price?: number;
+}
+
+export interface MultiLegOrderResult {
+  success: boolean;
+  order_id: string;
+  broker_order_id?: string;
+  status: OrderStatus;
+  filled_quantity: number;
+  net_fill_price?: number;
+  price_effect?: NetPriceEffect;
+  leg_results: LegFillResult[];
+  error?: string;
+}
+
 // OCC Option Symbol Format: AAPL  251219C00150000
 // Underlying (padded to 6), Expiration (YYMMDD), C/P, Strike (8 digits, price * 1000)
 export function generateOccSymbol(
@@ -305,3 +426,9 @@ export function generateOccSymbol(
   
   return `${paddedUnderlying}${yymmdd}${cp}${strikeFormatted}`;
 }
+
+// Long positions (positive quantity) are closed by selling,
+// short positions (negative quantity) by buying
+export function getCloseSide(position: Pick<Position, 'quantity'>): OrderSide {
+  return position.quantity > 0 ? 'SELL_TO_CLOSE' : 'BUY_TO_CLOSE';
+}
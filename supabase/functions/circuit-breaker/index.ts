@@ -0,0 +1,96 @@
+import { corsHeaders } from "../_shared/cors.ts";
+import { createDbClient } from "../_shared/db-client.ts";
+import { requireAuth } from "../_shared/auth-middleware.ts";
+import { LossCircuitBreaker } from "../_shared/refactored/services/circuit-breaker.ts";
+import type { TradingMode } from "../_shared/types.ts";
+
+function jsonResponse(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+}
+
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  const { user, response } = await requireAuth(req);
+  if (response) return response;
+
+  const supabase = createDbClient();
+  const url = new URL(req.url);
+  const mode = (url.searchParams.get("mode") || "PAPER").toUpperCase();
+
+  if (mode !== "PAPER" && mode !== "LIVE") {
+    return jsonResponse({ error: "mode must be PAPER or LIVE" }, 400);
+  }
+
+  const breaker = new LossCircuitBreaker(supabase, mode as TradingMode);
+
+  try {
+    if (req.method === "GET") {
+      const [state, pnl, limits] = await Promise.all([
+        breaker.evaluate(),
+        breaker.calculatePnl(),
+        breaker.loadLimits(),
+      ]);
+
+      const { data: events } = await supabase
+        .from("circuit_breaker_events")
+        .select("*")
+        .eq("mode", mode)
+        .order("created_at", { ascending: false })
+        .limit(20);
+
+      return jsonResponse({
+        circuit_breaker: {
+          mode,
+          status: state.status,
+          trigger: state.trigger,
+          reason: state.reason,
+          halted_at: state.haltedAt,
+          resumed_at: state.resumedAt,
+          resumed_by: state.resumedBy,
+          daily_pnl: pnl.dailyPnl,
+          weekly_pnl: pnl.weeklyPnl,
+          max_daily_loss: limits.maxDailyLoss,
+          max_weekly_loss: limits.maxWeeklyLoss,
+        },
+        events: events || [],
+      });
+    }
+
+    if (req.method === "POST") {
+      const body = (await req.json().catch(() => ({}))) as Record<string, unknown>;
+
+      if (body.action !== "resume") {
+        return jsonResponse({ error: "Unsupported action. Use action: 'resume'" }, 400);
+      }
+
+      const actor = user?.email || user?.id || "unknown";
+      const note = typeof body.note === "string" ? body.note : undefined;
+      const result = await breaker.resume(actor, note);
+
+      if (!result.success) {
+        return jsonResponse({ error: result.error, status: result.state?.status }, 409);
+      }
+
+      return jsonResponse({
+        success: true,
+        circuit_breaker: {
+          mode,
+          status: result.state?.status,
+          resumed_at: result.state?.resumedAt,
+          resumed_by: result.state?.resumedBy,
+        },
+      });
+    }
+
+    return jsonResponse({ error: "Method not allowed" }, 405);
+  } catch (error) {
+    console.error("[CircuitBreaker] Error:", error);
+    return jsonResponse({ error: error instanceof Error ? error.message : "Unknown error" }, 500);
+  }
+});
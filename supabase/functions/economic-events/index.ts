@@ -0,0 +1,142 @@
+import { corsHeaders } from "../_shared/cors.ts";
+import { createDbClient } from "../_shared/db-client.ts";
+import { requireAuth } from "../_shared/auth-middleware.ts";
+import {
+  PostgresEventStore,
+  parseEventType,
+  parseEventsCsv,
+  parseEventsIcs,
+  type EventParseResult,
+  type ScheduledEvent,
+} from "../_shared/refactored/services/event-blackout.ts";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MAX_IMPORT = 1000;
+
+function jsonResponse(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+}
+
+function toResponse(event: ScheduledEvent) {
+  return {
+    id: event.id ?? null,
+    event_type: event.type,
+    symbol: event.symbol,
+    event_time: event.time.toISOString(),
+    title: event.title,
+  };
+}
+
+function parseJsonEvents(body: unknown): EventParseResult {
+  const rows = Array.isArray(body)
+    ? body
+    : Array.isArray((body as Record<string, unknown>)?.events) ? (body as { events: unknown[] }).events : [];
+  const events: ScheduledEvent[] = [];
+  const errors: string[] = [];
+
+  rows.forEach((row, index) => {
+    const item = (row ?? {}) as Record<string, unknown>;
+    const type = parseEventType(String(item.event_type ?? item.type ?? ""));
+    const time = new Date(String(item.event_time ?? item.time ?? ""));
+    const symbol = typeof item.symbol === "string" && item.symbol ? item.symbol.toUpperCase() : null;
+
+    if (!type) {
+      errors.push(`Event ${index}: unknown event type`);
+    } else if (Number.isNaN(time.getTime())) {
+      errors.push(`Event ${index}: invalid event_time`);
+    } else if (type === "EARNINGS" && !symbol) {
+      errors.push(`Event ${index}: earnings events need a symbol`);
+    } else {
+      events.push({
+        type,
+        symbol: type === "EARNINGS" ? symbol : null,
+        time,
+        title: typeof item.title === "string" ? item.title : type,
+      });
+    }
+  });
+
+  return { events, errors };
+}
+
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  const { user, response } = await requireAuth(req);
+  if (response) return response;
+
+  const store = new PostgresEventStore(createDbClient());
+  const url = new URL(req.url);
+
+  try {
+    if (req.method === "GET") {
+      const from = url.searchParams.get("from") ? new Date(url.searchParams.get("from")!) : new Date();
+      const to = url.searchParams.get("to")
+        ? new Date(url.searchParams.get("to")!)
+        : new Date(from.getTime() + 14 * DAY_MS);
+      const symbol = url.searchParams.get("symbol")?.toUpperCase();
+
+      if (Number.isNaN(from.getTime()) || Number.isNaN(to.getTime())) {
+        return jsonResponse({ error: "from and to must be ISO timestamps" }, 400);
+      }
+
+      const events = (await store.listEvents(from, to))
+        .filter((event) => !symbol || event.symbol === null || event.symbol === symbol);
+
+      return jsonResponse({
+        from: from.toISOString(),
+        to: to.toISOString(),
+        events: events.map(toResponse),
+      });
+    }
+
+    if (req.method === "POST") {
+      const contentType = req.headers.get("content-type") ?? "";
+      const format = (url.searchParams.get("format") ??
+        (contentType.includes("text/calendar") ? "ics" : contentType.includes("text/csv") ? "csv" : "json"))
+        .toLowerCase();
+
+      let parsed: EventParseResult;
+      if (format === "csv") {
+        parsed = parseEventsCsv(await req.text());
+      } else if (format === "ics") {
+        parsed = parseEventsIcs(await req.text());
+      } else if (format === "json") {
+        parsed = parseJsonEvents(await req.json().catch(() => null));
+      } else {
+        return jsonResponse({ error: "format must be one of json, csv, ics" }, 400);
+      }
+
+      if (parsed.events.length === 0) {
+        return jsonResponse({ error: "No valid events in upload", errors: parsed.errors }, 400);
+      }
+      if (parsed.events.length > MAX_IMPORT) {
+        return jsonResponse({ error: `At most ${MAX_IMPORT} events can be imported at once` }, 400);
+      }
+
+      const source = format === "json" ? "MANUAL" : format.toUpperCase();
+      const inserted = await store.addEvents(parsed.events, source);
+      console.log(
+        `[EconomicEvents] ${inserted}/${parsed.events.length} ${source} event(s) imported by ${user?.email || user?.id || "unknown"}`
+      );
+
+      return jsonResponse({
+        success: true,
+        parsed: parsed.events.length,
+        inserted,
+        skipped: parsed.events.length - inserted,
+        errors: parsed.errors,
+      });
+    }
+
+    return jsonResponse({ error: "Method not allowed" }, 405);
+  } catch (error) {
+    console.error("[EconomicEvents] Error:", error);
+    return jsonResponse({ error: error instanceof Error ? error.message : "Unknown error" }, 500);
+  }
+});
@@ -10,6 +10,9 @@ import { createDbClient } from "../_shared/db-client.ts";
 import { evaluateExitRules, type ExitRuleConfig, type ExitEvaluation } from "../_shared/exit-rules.ts";
 import { getMarketDataService } from "../_shared/market-data/index.ts";
 import { requireAuth } from "../_shared/auth-middleware.ts";
+import { marketCalendar } from "../_shared/market-calendar.ts";
+import { ExpirationService } from "../_shared/refactored/services/expiration-service.ts";
+import { defaultConfig } from "../_shared/refactored/core/config.ts";
 
 interface PositionWithMetrics {
   id: string;
@@ -50,6 +53,68 @@ interface ExitAlertResponse {
   recommended_action: string;
 }
 
+interface PinRiskWarning {
+  position_id: string;
+  symbol: string;
+  underlying: string;
+  strike: number;
+  option_type: string;
+  expiration: string;
+  quantity: number;
+  underlying_price: number;
+  distance_percent: number;
+  message: string;
+}
+
+/**
+ * Open refactored positions expiring today with the underlying near the strike
+ */
+async function getPinRiskWarnings(
+  supabase: ReturnType<typeof createDbClient>,
+  marketDataService: ReturnType<typeof getMarketDataService>
+): Promise<PinRiskWarning[]> {
+  const now = new Date();
+  const today = marketCalendar.sessionDate(now);
+  const expirationService = new ExpirationService(defaultConfig);
+
+  const { data: expiring, error } = await supabase
+    .from("refactored_positions")
+    .select("*")
+    .eq("status", "OPEN")
+    .eq("expiration", today);
+
+  if (error) {
+    throw new Error(`Failed to fetch expiring positions: ${error.message}`);
+  }
+
+  const warnings: PinRiskWarning[] = [];
+  for (const position of expiring || []) {
+    const underlying = position.underlying ?? position.symbol;
+    const strike = Number(position.strike);
+    if (!strike) continue;
+
+    const price = await marketDataService.getUnderlyingPrice(underlying);
+    if (price === null) continue;
+
+    const pinRisk = expirationService.checkPinRisk({ strike, expiration: today }, price, now);
+    if (pinRisk.atRisk) {
+      warnings.push({
+        position_id: position.id,
+        symbol: position.symbol,
+        underlying,
+        strike,
+        option_type: position.option_type ?? position.direction,
+        expiration: today,
+        quantity: position.quantity,
+        underlying_price: price,
+        distance_percent: pinRisk.distancePercent,
+        message: pinRisk.reasoning,
+      });
+    }
+  }
+  return warnings;
+}
+
 function calculateDTE(expiration: string): number {
   const expDate = new Date(expiration);
   const today = new Date();
@@ -131,16 +196,23 @@ Deno.serve(async (req) => {
       throw new Error(`Failed to fetch positions: ${fetchError.message}`);
     }
 
+    const pinRisk = await getPinRiskWarnings(supabase, marketDataService).catch((error) => {
+      console.warn("Pin risk check failed:", error);
+      return [] as PinRiskWarning[];
+    });
+
     if (!positions || positions.length === 0) {
       return new Response(
         JSON.stringify({
           alerts: [],
+          pin_risk: pinRisk,
           summary: {
             total_positions: 0,
             positions_with_alerts: 0,
             critical_alerts: 0,
             high_alerts: 0,
             medium_alerts: 0,
+            pin_risk_alerts: pinRisk.length,
           },
           timestamp: new Date().toISOString(),
         }),
@@ -154,7 +226,9 @@ Deno.serve(async (req) => {
     for (const position of positions as PositionWithMetrics[]) {
       let currentPrice = position.current_price;
       let delta = position.delta;
+      let gamma = position.gamma;
       let theta = position.theta;
+      let vega = position.vega;
       let iv = position.implied_volatility;
       
       // Optionally refresh market data
@@ -169,8 +243,11 @@ Deno.serve(async (req) => {
           
           if (quoteResult.success && quoteResult.data) {
             currentPrice = quoteResult.data.mid;
+            // Greeks are model-computed when the provider sends none
             delta = quoteResult.data.delta;
+            gamma = quoteResult.data.gamma;
             theta = quoteResult.data.theta;
+            vega = quoteResult.data.vega;
             iv = quoteResult.data.implied_volatility;
           }
         } catch (e) {
@@ -202,9 +279,9 @@ Deno.serve(async (req) => {
         unrealized_pnl_percent: pnlPercent,
         realized_pnl: 0,
         delta: delta || 0,
-        gamma: position.gamma || 0,
+        gamma: gamma || 0,
         theta: theta || 0,
-        vega: position.vega || 0,
+        vega: vega || 0,
         implied_volatility: iv || 0,
         is_closed: false,
         closed_at: null,
@@ -247,6 +324,7 @@ Deno.serve(async (req) => {
       critical_alerts: alerts.filter(a => a.priority === 'CRITICAL').length,
       high_alerts: alerts.filter(a => a.priority === 'HIGH').length,
       medium_alerts: alerts.filter(a => a.priority === 'MEDIUM').length,
+      pin_risk_alerts: pinRisk.length,
     };
 
     const duration = Date.now() - startTime;
@@ -254,6 +332,7 @@ Deno.serve(async (req) => {
     return new Response(
       JSON.stringify({
         alerts,
+        pin_risk: pinRisk,
         summary,
         duration_ms: duration,
         timestamp: new Date().toISOString(),
@@ -0,0 +1,56 @@
+import { corsHeaders } from "../_shared/cors.ts";
+import { createDbClient } from "../_shared/db-client.ts";
+import { requireAuth } from "../_shared/auth-middleware.ts";
+import { createAdapter } from "../_shared/adapter-factory.ts";
+import { executeKillSwitch } from "../_shared/kill-switch.ts";
+import { LossCircuitBreaker } from "../_shared/refactored/services/circuit-breaker.ts";
+
+function jsonResponse(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+}
+
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  const { user, response } = await requireAuth(req);
+  if (response) return response;
+
+  if (req.method !== "POST") {
+    return jsonResponse({ error: "Method not allowed" }, 405);
+  }
+
+  const body = (await req.json().catch(() => ({}))) as Record<string, unknown>;
+
+  // Explicit confirmation guards against accidental or replayed calls
+  if (body.confirm !== true) {
+    return jsonResponse({ error: "Kill switch requires confirm: true" }, 400);
+  }
+
+  try {
+    const supabase = createDbClient();
+    const { adapter, warnings } = createAdapter();
+
+    if (warnings.length > 0) {
+      console.warn("[KillSwitch] Adapter warnings:", warnings);
+    }
+
+    const report = await executeKillSwitch({
+      supabase,
+      adapter,
+      circuitBreaker: new LossCircuitBreaker(supabase, adapter.mode),
+      actor: user?.email || user?.id || "unknown",
+      reason: typeof body.reason === "string" ? body.reason : undefined,
+    });
+
+    const failures = report.summary.orders_failed + report.summary.positions_failed;
+    return jsonResponse({ success: failures === 0 && report.halted, report });
+  } catch (error) {
+    console.error("[KillSwitch] Error:", error);
+    return jsonResponse({ error: error instanceof Error ? error.message : "Unknown error" }, 500);
+  }
+});
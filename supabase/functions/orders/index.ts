@@ -1,6 +1,7 @@
 import { corsHeaders } from "../_shared/cors.ts";
 import { createDbClient } from "../_shared/db-client.ts";
 import { requireAuth } from "../_shared/auth-middleware.ts";
+import { loadOrderEvents } from "../_shared/order-lifecycle.ts";
 
 Deno.serve(async (req) => {
   if (req.method === "OPTIONS") {
@@ -15,6 +16,8 @@ Deno.serve(async (req) => {
     const url = new URL(req.url);
     const limit = parseInt(url.searchParams.get("limit") || "50");
     const status = url.searchParams.get("status");
+    const orderId = url.searchParams.get("order_id");
+    const includeEvents = url.searchParams.get("include_events") === "true";
 
     const supabase = createDbClient();
 
@@ -29,6 +32,9 @@ Deno.serve(async (req) => {
     if (status) {
       query = query.eq("status", status);
     }
+    if (orderId) {
+      query = query.eq("id", orderId);
+    }
 
     const { data, error } = await query;
 
@@ -40,8 +46,18 @@ Deno.serve(async (req) => {
       );
     }
 
+    const orders = data || [];
+
+    // Attach each order's lifecycle events, oldest first
+    if (includeEvents) {
+      const events = await loadOrderEvents(supabase, orders.map((order: { id: string }) => order.id));
+      for (const order of orders) {
+        order.events = events.filter(event => event.order_id === order.id);
+      }
+    }
+
     return new Response(
-      JSON.stringify({ orders: data || [] }),
+      JSON.stringify({ orders }),
       { headers: { ...corsHeaders, "Content-Type": "application/json" } }
     );
   } catch (error) {
@@ -4,7 +4,14 @@ import {
   generateGEXSignals, 
   getPaperTradingStats,
   getOpenPaperPositions,
+  buildStrategy,
+  executePaperStrategyEntry,
+  openFilledPaperStrategy,
+  toMultiLegOrderRequest,
+  type PaperStrategyEntryInput,
 } from "../_shared/gex-signals/index.ts";
+import { executeMultiLegOrder, type MultiLegExecution } from "../_shared/multi-leg-orders.ts";
+import { createPaperAdapter } from "../_shared/adapter-factory.ts";
 import { getMarketDataService } from "../_shared/market-data/index.ts";
 import { createMarketdataClient } from "../_shared/market-data/marketdata-client.ts";
 
@@ -157,6 +164,130 @@ Deno.serve(async (req) => {
       });
     }
 
+    // GET /paper-trading?action=build-strategy&ticker=SPY&expiration=2025-01-31 (preview)
+    // POST /paper-trading?action=build-strategy {ticker, expiration, signalId, vix?, quantity?} (build and enter)
+    if (action === 'build-strategy') {
+      if (url.searchParams.has('execute')) {
+        return new Response(JSON.stringify({ error: 'POST the build-strategy request to execute it' }), {
+          status: 405,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        });
+      }
+
+      const execute = req.method === 'POST';
+      const body = execute ? await req.json().catch(() => null) : null;
+      if (execute && (typeof body?.signalId !== 'string' || !body.signalId)) {
+        return new Response(JSON.stringify({ error: 'signalId required to execute a strategy' }), {
+          status: 400,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        });
+      }
+      if (execute && body.vix !== undefined && (typeof body.vix !== 'number' || !Number.isFinite(body.vix))) {
+        return new Response(JSON.stringify({ error: 'vix must be a number' }), {
+          status: 400,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        });
+      }
+
+      const strategyTicker: string = execute && typeof body.ticker === 'string' ? body.ticker : ticker;
+      const strategyExpiration: string | null = execute && typeof body.expiration === 'string'
+        ? body.expiration
+        : expiration;
+      const vix: number | undefined = execute ? body.vix : undefined;
+
+      if (!strategyExpiration) {
+        return new Response(JSON.stringify({ error: 'Expiration required' }), {
+          status: 400,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        });
+      }
+
+      const marketdataClient = createMarketdataClient();
+      if (!marketdataClient) {
+        return new Response(JSON.stringify({ error: 'Market data client not configured' }), {
+          status: 500,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        });
+      }
+      const chainResult = await marketdataClient.getOptionsChain(strategyTicker, strategyExpiration);
+      
+      if (!chainResult.success || !chainResult.data) {
+        return new Response(JSON.stringify({ 
+          error: 'Failed to fetch options chain',
+          details: chainResult.error,
+        }), {
+          status: 500,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        });
+      }
+
+      const chain = chainResult.data;
+      const signals = generateGEXSignals(
+        strategyTicker,
+        strategyExpiration,
+        chain.underlying_price,
+        chain,
+        undefined,
+        undefined,
+        vix
+      );
+      const build = buildStrategy(signals.marketRegime.strategy, chain, { expiration: strategyExpiration });
+
+      if (!build.success || !build.strategy) {
+        return new Response(JSON.stringify({
+          regime: signals.marketRegime,
+          error: build.error,
+        }), {
+          status: 422,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        });
+      }
+
+      let execution = null;
+      let order: MultiLegExecution | null = null;
+      if (execute) {
+        const quantity = Math.max(1, Math.floor(Number(body.quantity) || 1));
+        const entry: PaperStrategyEntryInput = {
+          strategy: build.strategy,
+          quantity,
+          gexSignals: signals,
+          signalId: body.signalId,
+          vix,
+        };
+
+        // Multi-leg strategies go out as one net-limit order; the paper
+        // position is opened at the fill prices once every leg has filled,
+        // here or by poll-orders from the stored paper_entry
+        const orderRequest = toMultiLegOrderRequest(build.strategy, quantity, { signalId: body.signalId });
+        if (orderRequest) {
+          order = await executeMultiLegOrder(
+            createDbClient(),
+            createPaperAdapter(),
+            orderRequest,
+            build.strategy.legs.map(leg => leg.price),
+            { paper_entry: entry }
+          );
+          // A replayed order was entered by the call that first sent it
+          if (order.result?.status === 'FILLED' && !order.replayed) {
+            execution = await openFilledPaperStrategy(entry, order.result);
+          }
+        } else {
+          execution = await executePaperStrategyEntry(entry);
+        }
+      }
+
+      console.log(`[PaperTrading] Built ${build.strategy.strategyType} for ${strategyTicker} (${signals.marketRegime.strategy})`);
+
+      return new Response(JSON.stringify({
+        regime: signals.marketRegime,
+        strategy: build.strategy,
+        order,
+        execution,
+      }), {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
     // GET /paper-trading?action=latest-gex&ticker=SPY
     if (action === 'latest-gex') {
       const supabase = createDbClient();
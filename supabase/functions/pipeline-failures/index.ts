@@ -0,0 +1,144 @@
+import { corsHeaders } from "../_shared/cors.ts";
+import { createDbClient } from "../_shared/db-client.ts";
+import { requireAuth } from "../_shared/auth-middleware.ts";
+import {
+  PostgresPipelineFailureStore,
+  type DeadLetterEntry,
+  type FailureStatus,
+} from "../_shared/refactored/pipeline/failure-store.ts";
+import { PIPELINE_STAGES, type PipelineStage } from "../_shared/refactored/pipeline/signal-pipeline.ts";
+import { replayFailedSignal } from "../webhook/index.ts";
+
+const FAILURE_STATUSES: FailureStatus[] = ["PENDING", "REPLAYED", "REPLAY_FAILED"];
+const MAX_REPLAY_BATCH = 50;
+
+function jsonResponse(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+}
+
+function toResponse(entry: DeadLetterEntry, includePayload: boolean) {
+  return {
+    id: entry.id,
+    tracking_id: entry.trackingId,
+    signal_id: entry.signalId,
+    original_signal_id: entry.originalSignalId,
+    correlation_id: entry.correlationId,
+    stage: entry.stage,
+    reason: entry.reason,
+    status: entry.status,
+    replay_count: entry.replayCount,
+    last_replayed_at: entry.lastReplayedAt?.toISOString() ?? null,
+    last_replay_tracking_id: entry.lastReplayTrackingId,
+    last_replay_stage: entry.lastReplayStage,
+    last_replay_reason: entry.lastReplayReason,
+    timestamp: entry.timestamp.toISOString(),
+    ...(includePayload ? { raw_payload: entry.rawPayload, signal_data: entry.signalData } : {}),
+  };
+}
+
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  const { user, response } = await requireAuth(req);
+  if (response) return response;
+
+  const store = new PostgresPipelineFailureStore(createDbClient());
+  const url = new URL(req.url);
+
+  try {
+    if (req.method === "GET") {
+      const id = url.searchParams.get("id");
+      if (id) {
+        const entry = await store.get(id);
+        if (!entry) {
+          return jsonResponse({ error: "Failure not found" }, 404);
+        }
+        return jsonResponse({ failure: toResponse(entry, true) });
+      }
+
+      const status = url.searchParams.get("status")?.toUpperCase() as FailureStatus | undefined;
+      const stage = url.searchParams.get("stage")?.toUpperCase() as PipelineStage | undefined;
+      const sinceHours = Number(url.searchParams.get("since_hours") || "24");
+      const limit = Math.min(Number(url.searchParams.get("limit") || "50"), 200);
+
+      if (status && !FAILURE_STATUSES.includes(status)) {
+        return jsonResponse({ error: `status must be one of ${FAILURE_STATUSES.join(", ")}` }, 400);
+      }
+      if (stage && !PIPELINE_STAGES.includes(stage)) {
+        return jsonResponse({ error: `stage must be one of ${PIPELINE_STAGES.join(", ")}` }, 400);
+      }
+
+      const since = Number.isFinite(sinceHours) && sinceHours > 0
+        ? new Date(Date.now() - sinceHours * 60 * 60 * 1000)
+        : undefined;
+
+      const [failures, byStage, pendingByStage] = await Promise.all([
+        store.list({ status, stage, since, limit: Number.isFinite(limit) && limit > 0 ? limit : 50 }),
+        store.countByStage({ since }),
+        store.countByStage({ since, status: "PENDING" }),
+      ]);
+
+      return jsonResponse({
+        failures: failures.map((entry) => toResponse(entry, false)),
+        summary: {
+          since: since?.toISOString() ?? null,
+          total: Object.values(byStage).reduce((sum, count) => sum + count, 0),
+          pending: Object.values(pendingByStage).reduce((sum, count) => sum + count, 0),
+          by_stage: byStage,
+          pending_by_stage: pendingByStage,
+        },
+      });
+    }
+
+    if (req.method === "POST") {
+      const body = (await req.json().catch(() => ({}))) as Record<string, unknown>;
+      const ids = Array.isArray(body.ids)
+        ? body.ids.filter((id): id is string => typeof id === "string")
+        : typeof body.id === "string" ? [body.id] : [];
+
+      if (ids.length === 0) {
+        return jsonResponse({ error: "Provide id or ids to replay" }, 400);
+      }
+      if (ids.length > MAX_REPLAY_BATCH) {
+        return jsonResponse({ error: `At most ${MAX_REPLAY_BATCH} failures can be replayed at once` }, 400);
+      }
+
+      const bypassAgeCheck = body.bypass_age_check === true;
+      console.log(
+        `[PipelineFailures] Replay of ${ids.length} failure(s) requested by ${user?.email || user?.id || "unknown"}` +
+          (bypassAgeCheck ? " (age check bypassed)" : "")
+      );
+
+      // Sequential so replays of the same symbol respect cooldown ordering
+      const results = [];
+      for (const id of ids) {
+        try {
+          results.push(await replayFailedSignal(id, { bypassAgeCheck }));
+        } catch (error) {
+          results.push({
+            failure_id: id,
+            success: false,
+            error: error instanceof Error ? error.message : "Unknown error",
+          });
+        }
+      }
+
+      return jsonResponse({
+        success: results.every((result) => result.success),
+        replayed: results.filter((result) => result.success).length,
+        failed: results.filter((result) => !result.success).length,
+        results,
+      });
+    }
+
+    return jsonResponse({ error: "Method not allowed" }, 405);
+  } catch (error) {
+    console.error("[PipelineFailures] Error:", error);
+    return jsonResponse({ error: error instanceof Error ? error.message : "Unknown error" }, 500);
+  }
+});
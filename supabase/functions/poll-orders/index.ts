@@ -1,46 +1,79 @@
 /**
  * Poll Orders Edge Function
- * Polls pending live orders and updates their status from the broker
+ * Polls pending live orders and updates their status from the broker;
+ * multi-leg legs are read from their strategy's broker order.
+ * In PAPER mode, re-evaluates resting paper orders (and multi-leg strategies
+ * at their net limit) against fresh quotes.
+ * Order intents left unanswered by a crashed submitter are settled first.
  * Designed to run on a 30-second cron schedule
  */
 
 import { corsHeaders } from "../_shared/cors.ts";
 import { createDbClient } from "../_shared/db-client.ts";
 import { getCurrentTradingMode, isBrokerConfigured, validateSafetyGates } from "../_shared/broker-adapter.ts";
+import { WORKING_ORDER_STATUSES } from "../_shared/kill-switch.ts";
+import { applyOrderFill, incrementalFill, transitionOrder } from "../_shared/order-lifecycle.ts";
+import { resolveStaleIntents, type IntentSweepResult } from "../_shared/order-outbox.ts";
+import { createAdapter } from "../_shared/adapter-factory.ts";
+import { recordPositionExit } from "../_shared/refactored/services/position-manager.ts";
+import { normalizeOptionSymbol } from "../_shared/broker-reconciliation.ts";
+import type { MultiLegOrderRequest, OrderStatus } from "../_shared/types.ts";
+import { PaperAdapter } from "../_shared/paper-adapter.ts";
+import { openFilledPaperStrategy, type PaperStrategyEntryInput } from "../_shared/gex-signals/paper-trading-service.ts";
+import { RESTING_PAPER_STATUSES, dayOrderExpiry, type PaperOrder } from "../_shared/paper-order-book.ts";
+import { getMarketDataService } from "../_shared/market-data/index.ts";
+import type { OptionsQuote } from "../_shared/market-data/types.ts";
 
 interface OrderStatusUpdate {
   order_id: string;
   broker_order_id: string;
-  status: string;
+  symbol?: string;
+  status: OrderStatus;
   filled_quantity?: number;
   avg_fill_price?: number;
   error_message?: string;
+  legs?: OrderStatusUpdate[]; // Multi-leg orders: one update per leg
 }
 
 interface TradierOrderStatus {
   id: number;
   status: 'pending' | 'open' | 'partially_filled' | 'filled' | 'canceled' | 'expired' | 'rejected';
+  option_symbol?: string;
   exec_quantity?: number;
   avg_fill_price?: number;
   reason_description?: string;
+  leg?: TradierOrderStatus | TradierOrderStatus[];
 }
 
 interface AlpacaOrderStatus {
   id: string;
+  symbol?: string;
   status: 'new' | 'partially_filled' | 'filled' | 'done_for_day' | 'canceled' | 'expired' | 'replaced' | 'pending_cancel' | 'pending_replace' | 'accepted' | 'pending_new' | 'accepted_for_bidding' | 'stopped' | 'rejected' | 'suspended' | 'calculated';
   filled_qty?: string;
   filled_avg_price?: string;
   failed_at?: string;
+  legs?: AlpacaOrderStatus[];
 }
 
-// Map broker status to our internal status
-function mapTradierStatus(status: TradierOrderStatus['status']): string {
+interface WorkingOrderRow {
+  id: string;
+  broker_order_id: string | null;
+  symbol: string;
+  strategy_id: string | null;
+  refactored_position_id: string | null;
+  filled_quantity: number | null;
+  avg_fill_price: number | string | null;
+}
+
+// Map broker status to our internal status; null when it has no equivalent
+function mapTradierStatus(status: TradierOrderStatus['status']): OrderStatus | null {
   switch (status) {
     case 'pending':
+      return 'SUBMITTED';
     case 'open':
-      return 'PENDING';
+      return 'ACCEPTED';
     case 'partially_filled':
-      return 'PARTIAL';
+      return 'PARTIAL_FILL';
     case 'filled':
       return 'FILLED';
     case 'canceled':
@@ -50,19 +83,20 @@ function mapTradierStatus(status: TradierOrderStatus['status']): string {
     case 'rejected':
       return 'REJECTED';
     default:
-      return 'UNKNOWN';
+      return null;
   }
 }
 
-function mapAlpacaStatus(status: AlpacaOrderStatus['status']): string {
+function mapAlpacaStatus(status: AlpacaOrderStatus['status']): OrderStatus | null {
   switch (status) {
+    case 'pending_new':
+      return 'SUBMITTED';
     case 'new':
     case 'accepted':
-    case 'pending_new':
     case 'accepted_for_bidding':
-      return 'PENDING';
+      return 'ACCEPTED';
     case 'partially_filled':
-      return 'PARTIAL';
+      return 'PARTIAL_FILL';
     case 'filled':
       return 'FILLED';
     case 'canceled':
@@ -74,7 +108,7 @@ function mapAlpacaStatus(status: AlpacaOrderStatus['status']): string {
     case 'suspended':
       return 'REJECTED';
     default:
-      return 'UNKNOWN';
+      return null;
   }
 }
 
@@ -105,22 +139,34 @@ async function pollTradierOrder(brokerOrderId: string): Promise<OrderStatusUpdat
     }
 
     const data = await response.json();
-    const order = data.order as TradierOrderStatus;
-
-    return {
-      order_id: '', // Will be filled by caller
-      broker_order_id: brokerOrderId,
-      status: mapTradierStatus(order.status),
-      filled_quantity: order.exec_quantity,
-      avg_fill_price: order.avg_fill_price,
-      error_message: order.reason_description,
-    };
+    return tradierUpdate(data.order as TradierOrderStatus);
   } catch (error) {
     console.error('Tradier poll error:', error);
     return null;
   }
 }
 
+function tradierUpdate(order: TradierOrderStatus): OrderStatusUpdate | null {
+  const status = mapTradierStatus(order.status);
+  if (!status) {
+    return null;
+  }
+
+  const legs = order.leg === undefined ? [] : Array.isArray(order.leg) ? order.leg : [order.leg];
+  return {
+    order_id: '', // Will be filled by caller
+    broker_order_id: String(order.id),
+    symbol: order.option_symbol,
+    status,
+    filled_quantity: order.exec_quantity,
+    avg_fill_price: order.avg_fill_price,
+    error_message: order.reason_description,
+    legs: legs.length > 0
+      ? legs.map(tradierUpdate).filter((leg): leg is OrderStatusUpdate => leg !== null)
+      : undefined,
+  };
+}
+
 async function pollAlpacaOrder(brokerOrderId: string): Promise<OrderStatusUpdate | null> {
   const apiKey = Deno.env.get('ALPACA_API_KEY');
   const secretKey = Deno.env.get('ALPACA_SECRET_KEY');
@@ -133,7 +179,7 @@ async function pollAlpacaOrder(brokerOrderId: string): Promise<OrderStatusUpdate
   
   try {
     const response = await fetch(
-      `${baseUrl}/orders/${brokerOrderId}`,
+      `${baseUrl}/orders/${brokerOrderId}?nested=true`,
       {
         headers: {
           'APCA-API-KEY-ID': apiKey,
@@ -147,21 +193,407 @@ async function pollAlpacaOrder(brokerOrderId: string): Promise<OrderStatusUpdate
       return null;
     }
 
-    const order = await response.json() as AlpacaOrderStatus;
-
-    return {
-      order_id: '', // Will be filled by caller
-      broker_order_id: brokerOrderId,
-      status: mapAlpacaStatus(order.status),
-      filled_quantity: order.filled_qty ? parseFloat(order.filled_qty) : undefined,
-      avg_fill_price: order.filled_avg_price ? parseFloat(order.filled_avg_price) : undefined,
-    };
+    return alpacaUpdate(await response.json() as AlpacaOrderStatus);
   } catch (error) {
     console.error('Alpaca poll error:', error);
     return null;
   }
 }
 
+function alpacaUpdate(order: AlpacaOrderStatus): OrderStatusUpdate | null {
+  const status = mapAlpacaStatus(order.status);
+  if (!status) {
+    return null;
+  }
+
+  return {
+    order_id: '', // Will be filled by caller
+    broker_order_id: order.id,
+    symbol: order.symbol,
+    status,
+    filled_quantity: order.filled_qty ? parseFloat(order.filled_qty) : undefined,
+    avg_fill_price: order.filled_avg_price ? parseFloat(order.filled_avg_price) : undefined,
+    legs: order.legs?.length
+      ? order.legs.map(alpacaUpdate).filter((leg): leg is OrderStatusUpdate => leg !== null)
+      : undefined,
+  };
+}
+
+/**
+ * A leg's own update within its strategy's multi-leg order, by leg id or,
+ * for legs stored before the broker reported leg ids, by contract
+ */
+function legUpdate(parent: OrderStatusUpdate | null, order: WorkingOrderRow): OrderStatusUpdate | null {
+  const legs = parent?.legs ?? [];
+  return legs.find(leg => order.broker_order_id !== null && leg.broker_order_id === order.broker_order_id)
+    ?? legs.find(leg => !!leg.symbol && normalizeOptionSymbol(leg.symbol) === normalizeOptionSymbol(order.symbol))
+    ?? null;
+}
+
+/**
+ * Books an exit fill against its refactored position: reduces it by the
+ * filled quantity, closing it once nothing remains.
+ */
+async function applyExitFill(
+  supabase: ReturnType<typeof createDbClient>,
+  positionId: string,
+  fillPrice: number,
+  exitQuantity: number
+): Promise<void> {
+  const { data: refactoredPosition } = await supabase
+    .from('refactored_positions')
+    .select('*')
+    .eq('id', positionId)
+    .single();
+
+  if (!refactoredPosition) {
+    return;
+  }
+
+  const sign = refactoredPosition.side === 'SHORT' ? -1 : 1;
+  const realized = (fillPrice - refactoredPosition.entry_price) * sign * exitQuantity * 100;
+  const remainingQty = Math.max(0, refactoredPosition.quantity - exitQuantity);
+  const now = new Date().toISOString();
+
+  if (remainingQty > 0) {
+    await supabase
+      .from('refactored_positions')
+      .update({
+        quantity: remainingQty,
+        realized_pnl: Number(refactoredPosition.realized_pnl ?? 0) + realized,
+        current_price: fillPrice,
+        updated_at: now,
+        status: 'OPEN',
+      })
+      .eq('id', positionId);
+  } else {
+    await supabase
+      .from('refactored_positions')
+      .update({
+        status: 'CLOSED',
+        exit_price: fillPrice,
+        exit_time: now,
+        realized_pnl: Number(refactoredPosition.realized_pnl ?? 0) + realized,
+        current_price: fillPrice,
+        updated_at: now,
+      })
+      .eq('id', positionId);
+  }
+
+  await recordPositionExit(supabase, {
+    positionId,
+    quantity: Math.min(exitQuantity, refactoredPosition.quantity),
+    exitPrice: fillPrice,
+    realizedPnL: realized,
+    exitedAt: now,
+  });
+}
+
+interface PaperOrderRow {
+  id: string;
+  broker_order_id: string | null;
+  signal_id: string | null;
+  refactored_position_id: string | null;
+  underlying: string;
+  symbol: string;
+  strike: number | string;
+  expiration: string;
+  option_type: PaperOrder['request']['option_type'];
+  side: PaperOrder['request']['side'];
+  quantity: number;
+  order_type: PaperOrder['request']['order_type'];
+  limit_price: number | string | null;
+  stop_price: number | string | null;
+  time_in_force: PaperOrder['request']['time_in_force'];
+  status: PaperOrder['status'];
+  filled_quantity: number | null;
+  avg_fill_price: number | string | null;
+  strategy_id: string | null;
+  leg_number: number | null;
+  submitted_at: string | null;
+  created_at: string;
+}
+
+interface PaperStrategyRow {
+  id: string;
+  strategy_type: MultiLegOrderRequest['strategy_type'];
+  underlying: string;
+  quantity: number;
+  order_type: MultiLegOrderRequest['order_type'];
+  net_limit_price: number | string | null;
+  price_effect: MultiLegOrderRequest['price_effect'] | null;
+  broker_order_id: string | null;
+  paper_entry: PaperStrategyEntryInput | null; // Set by paper-trading for strategy-builder entries
+}
+
+function paperOrderFromRow(row: PaperOrderRow & { broker_order_id: string }): PaperOrder {
+  const submittedAt = row.submitted_at || row.created_at;
+  return {
+    order_id: row.id,
+    broker_order_id: row.broker_order_id,
+    request: {
+      signal_id: row.signal_id ?? undefined,
+      underlying: row.underlying,
+      symbol: row.symbol,
+      strike: Number(row.strike),
+      expiration: row.expiration,
+      option_type: row.option_type,
+      side: row.side,
+      quantity: row.quantity,
+      order_type: row.order_type,
+      limit_price: row.limit_price !== null ? Number(row.limit_price) : undefined,
+      stop_price: row.stop_price !== null ? Number(row.stop_price) : undefined,
+      time_in_force: row.time_in_force,
+    },
+    status: row.status,
+    filled_quantity: row.filled_quantity || 0,
+    avg_fill_price: row.avg_fill_price !== null ? Number(row.avg_fill_price) : undefined,
+    submitted_at: submittedAt,
+    expires_at: row.time_in_force === 'DAY' ? dayOrderExpiry(new Date(submittedAt)).toISOString() : null,
+    fills: [],
+  };
+}
+
+/**
+ * Rebuilds the simulated book from resting paper orders, re-evaluates it
+ * against one fresh quote per contract and persists every change.
+ */
+async function pollPaperOrders(supabase: ReturnType<typeof createDbClient>) {
+  const { data: restingOrders, error: fetchError } = await supabase
+    .from('orders')
+    .select('*')
+    .eq('mode', 'PAPER')
+    .in('status', RESTING_PAPER_STATUSES);
+
+  if (fetchError) {
+    throw new Error(`Failed to fetch resting paper orders: ${fetchError.message}`);
+  }
+
+  const adapter = new PaperAdapter({
+    slippage_percent: 0.1,
+    commission_per_contract: 0.65,
+    fee_per_contract: 0.02,
+  });
+  const rowsById = new Map<string, PaperOrderRow>();
+  // Multi-leg legs rest together at a net limit and never fill on their own
+  const legsByStrategy = new Map<string, PaperOrderRow[]>();
+  for (const row of (restingOrders || []) as PaperOrderRow[]) {
+    if (row.strategy_id) {
+      legsByStrategy.set(row.strategy_id, [...(legsByStrategy.get(row.strategy_id) ?? []), row]);
+      continue;
+    }
+    if (!row.broker_order_id) continue;
+    adapter.restoreOrder(paperOrderFromRow({ ...row, broker_order_id: row.broker_order_id }));
+    rowsById.set(row.id, row);
+  }
+
+  const marketData = getMarketDataService();
+  const quotes = new Map<string, OptionsQuote>();
+  const contracts = [
+    ...adapter.getWorkingOrders().map(order => order.request),
+    ...[...legsByStrategy.values()].flat().map(row => ({ ...row, strike: Number(row.strike) })),
+  ];
+  for (const request of contracts) {
+    if (quotes.has(request.symbol)) continue;
+
+    const quoteResult = await marketData.getOptionQuote(
+      request.underlying,
+      request.expiration,
+      request.strike,
+      request.option_type
+    );
+    if (quoteResult.success && quoteResult.data) {
+      quotes.set(request.symbol, quoteResult.data);
+    } else {
+      console.warn(`[poll-orders] No quote for ${request.symbol}: ${quoteResult.error}`);
+    }
+  }
+
+  const results = [];
+  for (const { order, trade } of adapter.processRestingOrders(quotes)) {
+    let outcome;
+    if (trade) {
+      outcome = await applyOrderFill(supabase, order.order_id, trade, 'poll-orders');
+
+      const row = rowsById.get(order.order_id);
+      if (outcome.applied && row?.refactored_position_id) {
+        await applyExitFill(supabase, row.refactored_position_id, trade.execution_price, trade.quantity);
+      }
+    } else {
+      outcome = await transitionOrder(supabase, order.order_id, {
+        status: order.status,
+        source: 'poll-orders',
+        reason: order.status === 'EXPIRED' ? 'DAY order expired at the close' : undefined,
+        fields: order.status === 'EXPIRED' ? { error_message: 'DAY order expired at the close' } : undefined,
+      });
+    }
+
+    results.push({
+      order_id: order.order_id,
+      new_status: outcome.status ?? order.status,
+      filled_quantity: outcome.applied ? trade?.quantity ?? 0 : 0,
+      fill_price: trade?.execution_price,
+      success: !outcome.error,
+      error: outcome.error,
+    });
+  }
+
+  const strategyResults = await pollPaperStrategies(supabase, adapter, legsByStrategy, quotes);
+  results.push(...strategyResults);
+
+  const ordersChecked = rowsById.size + [...legsByStrategy.values()].flat().length;
+  await supabase.from('adapter_logs').insert({
+    adapter_name: 'paper',
+    operation: 'poll_orders',
+    status: 'success',
+    request_payload: { orders_checked: ordersChecked, strategies_checked: legsByStrategy.size, quotes: quotes.size },
+    response_payload: { updates: results },
+  });
+
+  return {
+    message: `Evaluated ${ordersChecked} resting paper orders`,
+    mode: 'PAPER',
+    orders_polled: ordersChecked,
+    updates: results,
+  };
+}
+
+/**
+ * Re-checks resting paper multi-leg orders at their net limit against the
+ * legs' mid prices. A marketable strategy fills every leg at once and opens
+ * its paper position when it carries a paper_entry; DAY strategies still
+ * resting at the close expire together.
+ */
+async function pollPaperStrategies(
+  supabase: ReturnType<typeof createDbClient>,
+  adapter: PaperAdapter,
+  legsByStrategy: Map<string, PaperOrderRow[]>,
+  quotes: Map<string, OptionsQuote>
+): Promise<Array<Record<string, unknown>>> {
+  const results: Array<Record<string, unknown>> = [];
+  if (legsByStrategy.size === 0) {
+    return results;
+  }
+
+  const { data: strategyRows } = await supabase
+    .from('strategies')
+    .select('id, strategy_type, underlying, quantity, order_type, net_limit_price, price_effect, broker_order_id, paper_entry')
+    .in('id', [...legsByStrategy.keys()]);
+  const strategies = new Map(((strategyRows || []) as PaperStrategyRow[]).map(row => [row.id, row]));
+
+  for (const [strategyId, unordered] of legsByStrategy) {
+    const strategy = strategies.get(strategyId);
+    if (!strategy?.broker_order_id || !strategy.quantity) continue;
+
+    const legs = [...unordered].sort((a, b) => (a.leg_number ?? 0) - (b.leg_number ?? 0));
+    const submittedAt = new Date(legs[0].submitted_at || legs[0].created_at);
+    const now = new Date();
+
+    if (legs[0].time_in_force === 'DAY' && now >= dayOrderExpiry(submittedAt)) {
+      for (const leg of legs) {
+        const outcome = await transitionOrder(supabase, leg.id, {
+          status: 'EXPIRED',
+          source: 'poll-orders',
+          reason: 'DAY order expired at the close',
+          fields: { error_message: 'DAY order expired at the close' },
+        });
+        results.push({ order_id: leg.id, new_status: outcome.status ?? 'EXPIRED', filled_quantity: 0, success: !outcome.error, error: outcome.error });
+      }
+      await supabase.from('strategies').update({ status: 'FAILED', updated_at: now.toISOString() }).eq('id', strategyId);
+      continue;
+    }
+
+    const legQuotes = legs.map(leg => quotes.get(leg.symbol));
+    if (legQuotes.some(quote => !quote)) continue;
+
+    const request: MultiLegOrderRequest = {
+      strategy_type: strategy.strategy_type,
+      underlying: strategy.underlying,
+      legs: legs.map(leg => ({
+        symbol: leg.symbol,
+        strike: Number(leg.strike),
+        expiration: leg.expiration,
+        option_type: leg.option_type,
+        side: leg.side,
+        ratio: leg.quantity / strategy.quantity,
+      })),
+      quantity: strategy.quantity,
+      order_type: strategy.order_type,
+      net_price: strategy.net_limit_price !== null ? Number(strategy.net_limit_price) : undefined,
+      price_effect: strategy.price_effect ?? undefined,
+      time_in_force: legs[0].time_in_force,
+    };
+    const { result, trades } = adapter.evaluateMultiLegOrder(
+      request,
+      legQuotes.map(quote => quote!.mid),
+      strategyId,
+      strategy.broker_order_id
+    );
+    if (result.status !== 'FILLED') continue;
+
+    for (const trade of trades) {
+      const leg = legs[trade.leg_number - 1];
+      const outcome = await applyOrderFill(
+        supabase,
+        leg.id,
+        { ...trade, broker_trade_id: trade.broker_trade_id ?? `${strategy.broker_order_id}-L${trade.leg_number}-fill` },
+        'poll-orders'
+      );
+      results.push({
+        order_id: leg.id,
+        new_status: outcome.status ?? 'FILLED',
+        filled_quantity: outcome.applied ? trade.quantity : 0,
+        fill_price: trade.execution_price,
+        success: !outcome.error,
+        error: outcome.error,
+      });
+    }
+
+    const netFillTotal = (result.net_fill_price ?? 0) * result.filled_quantity * 100;
+    await supabase
+      .from('strategies')
+      .update({
+        status: 'FILLED',
+        net_fill_price: result.net_fill_price ?? null,
+        total_cost: result.price_effect === 'DEBIT' ? netFillTotal : null,
+        total_credit: result.price_effect === 'CREDIT' ? netFillTotal : null,
+        opened_at: now.toISOString(),
+        updated_at: now.toISOString(),
+      })
+      .eq('id', strategyId);
+
+    if (strategy.paper_entry) {
+      const entry = await openFilledPaperStrategy(strategy.paper_entry, result);
+      results.push({
+        strategy_id: strategyId,
+        paper_entry: entry.strategyGroupId ?? null,
+        success: entry.success,
+        error: entry.error,
+      });
+    }
+  }
+
+  return results;
+}
+
+/**
+ * Adopts or rejects order intents that never got a broker order id, so a
+ * crash between submit and persist leaves nothing untracked at the broker
+ */
+async function sweepStaleIntents(supabase: ReturnType<typeof createDbClient>): Promise<IntentSweepResult[]> {
+  try {
+    const { adapter } = createAdapter();
+    const resolved = await resolveStaleIntents(supabase, adapter, 'poll-orders');
+    if (resolved.length > 0) {
+      console.log(`[poll-orders] Settled ${resolved.length} stale order intents:`, resolved);
+    }
+    return resolved;
+  } catch (error) {
+    console.error('[poll-orders] Stale intent sweep failed:', error);
+    return [];
+  }
+}
+
 Deno.serve(async (req) => {
   if (req.method === "OPTIONS") {
     return new Response(null, { headers: corsHeaders });
@@ -170,8 +602,16 @@ Deno.serve(async (req) => {
   try {
     const supabase = createDbClient();
     const safetyGates = validateSafetyGates();
+    const intents = await sweepStaleIntents(supabase);
     
-    // Only poll in LIVE mode
+    if (safetyGates.mode === 'PAPER') {
+      return new Response(
+        JSON.stringify({ ...(await pollPaperOrders(supabase)), intents }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    // Only poll brokers in LIVE mode
     if (safetyGates.mode !== 'LIVE') {
       return new Response(
         JSON.stringify({
@@ -183,152 +623,125 @@ Deno.serve(async (req) => {
       );
     }
 
-    // Fetch pending orders with broker_order_id
-    const { data: pendingOrders, error: fetchError } = await supabase
+    // Fetch working orders with broker_order_id
+    const { data: workingOrders, error: fetchError } = await supabase
       .from('orders')
-      .select('id, broker_order_id, mode, refactored_position_id, exit_action, exit_quantity')
+      .select('id, broker_order_id, symbol, strategy_id, mode, refactored_position_id, exit_action, exit_quantity, filled_quantity, avg_fill_price')
       .eq('mode', 'LIVE')
-      .in('status', ['PENDING', 'PARTIAL', 'SUBMITTED'])
-      .not('broker_order_id', 'is', null);
+      .in('status', WORKING_ORDER_STATUSES);
 
     if (fetchError) {
       throw new Error(`Failed to fetch pending orders: ${fetchError.message}`);
     }
 
-    if (!pendingOrders || pendingOrders.length === 0) {
+    // Multi-leg legs are polled through their strategy's broker order
+    const pendingOrders = ((workingOrders || []) as WorkingOrderRow[])
+      .filter(order => order.broker_order_id || order.strategy_id);
+
+    if (pendingOrders.length === 0) {
       return new Response(
         JSON.stringify({
           message: 'No pending orders to poll',
           orders_polled: 0,
+          intents,
         }),
         { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
       );
     }
 
-    const updates: OrderStatusUpdate[] = [];
     const preferredBroker = Deno.env.get('PREFERRED_BROKER') || 'tradier';
-
-    // Poll each pending order
-    for (const order of pendingOrders) {
-      let statusUpdate: OrderStatusUpdate | null = null;
-
+    const pollBrokerOrder = async (brokerOrderId: string): Promise<OrderStatusUpdate | null> => {
       if (preferredBroker === 'tradier' && isBrokerConfigured('tradier')) {
-        statusUpdate = await pollTradierOrder(order.broker_order_id);
+        return await pollTradierOrder(brokerOrderId);
       } else if (preferredBroker === 'alpaca' && isBrokerConfigured('alpaca')) {
-        statusUpdate = await pollAlpacaOrder(order.broker_order_id);
+        return await pollAlpacaOrder(brokerOrderId);
       }
+      return null;
+    };
 
-      if (statusUpdate) {
-        statusUpdate.order_id = order.id;
-        updates.push(statusUpdate);
+    const strategyIds = [...new Set(pendingOrders.map(order => order.strategy_id).filter((id): id is string => !!id))];
+    const strategyOrderIds = new Map<string, string>();
+    if (strategyIds.length > 0) {
+      const { data: strategies } = await supabase
+        .from('strategies')
+        .select('id, broker_order_id')
+        .in('id', strategyIds);
+      for (const strategy of (strategies || []) as Array<{ id: string; broker_order_id: string | null }>) {
+        if (strategy.broker_order_id) {
+          strategyOrderIds.set(strategy.id, strategy.broker_order_id);
+        }
       }
     }
+    const strategyUpdates = new Map<string, OrderStatusUpdate | null>();
 
-    // Apply updates to database
+    // Poll each pending order and apply what changed through the order state machine
     const results = [];
-    for (const update of updates) {
-      const updateData: Record<string, unknown> = {
-        status: update.status,
-        updated_at: new Date().toISOString(),
-      };
-
-      if (update.filled_quantity !== undefined) {
-        updateData.filled_quantity = update.filled_quantity;
-      }
-      if (update.avg_fill_price !== undefined) {
-        updateData.avg_fill_price = update.avg_fill_price;
-      }
-      if (update.error_message) {
-        updateData.error_message = update.error_message;
-      }
-      if (update.status === 'FILLED') {
-        updateData.filled_at = new Date().toISOString();
+    for (const order of pendingOrders) {
+      let update: OrderStatusUpdate | null = null;
+
+      if (order.strategy_id) {
+        const parentId = strategyOrderIds.get(order.strategy_id);
+        if (!parentId) {
+          continue;
+        }
+        if (!strategyUpdates.has(parentId)) {
+          strategyUpdates.set(parentId, await pollBrokerOrder(parentId));
+        }
+        update = legUpdate(strategyUpdates.get(parentId) ?? null, order);
+
+        if (update && update.broker_order_id !== order.broker_order_id) {
+          await supabase
+            .from('orders')
+            .update({ broker_order_id: update.broker_order_id, updated_at: new Date().toISOString() })
+            .eq('id', order.id);
+        }
+      } else if (order.broker_order_id) {
+        update = await pollBrokerOrder(order.broker_order_id);
       }
-      if (update.status === 'CANCELLED') {
-        updateData.cancelled_at = new Date().toISOString();
+
+      if (!update) {
+        continue;
       }
-      if (update.status === 'REJECTED') {
-        updateData.rejection_reason = update.error_message || 'Rejected by broker';
+
+      // The broker reports cumulative fills; only the part not yet booked becomes a trade
+      const fill = update.filled_quantity && update.avg_fill_price
+        ? incrementalFill(
+          order,
+          {
+            broker_order_id: update.broker_order_id,
+            filled_quantity: update.filled_quantity,
+            avg_fill_price: update.avg_fill_price,
+          },
+          new Date().toISOString()
+        )
+        : null;
+
+      let outcome = null;
+      if (fill) {
+        outcome = await applyOrderFill(supabase, order.id, fill, 'poll-orders');
+
+        if (outcome.applied && order.refactored_position_id) {
+          await applyExitFill(supabase, order.refactored_position_id, fill.execution_price, fill.quantity);
+        }
       }
 
-      const { error: updateError } = await supabase
-        .from('orders')
-        .update(updateData)
-        .eq('id', update.order_id);
+      // Fill statuses follow the booked quantity; everything else is copied from the broker
+      if (update.status !== 'PARTIAL_FILL' && update.status !== 'FILLED') {
+        outcome = await transitionOrder(supabase, order.id, {
+          status: update.status,
+          source: 'poll-orders',
+          reason: update.error_message,
+          fields: update.error_message ? { error_message: update.error_message } : undefined,
+        });
+      }
 
       results.push({
-        order_id: update.order_id,
-        new_status: update.status,
-        success: !updateError,
-        error: updateError?.message,
+        order_id: order.id,
+        new_status: outcome?.status ?? update.status,
+        filled_quantity: fill && outcome?.applied ? fill.quantity : 0,
+        success: !outcome?.error,
+        error: outcome?.error,
       });
-
-      // If order was filled, create trade record
-      if (update.status === 'FILLED' && update.avg_fill_price && update.filled_quantity) {
-        // Fetch order details for trade creation
-        const { data: orderDetails } = await supabase
-          .from('orders')
-          .select('*')
-          .eq('id', update.order_id)
-          .single();
-
-        if (orderDetails) {
-          await supabase.from('trades').insert({
-            order_id: update.order_id,
-            broker_trade_id: update.broker_order_id,
-            execution_price: update.avg_fill_price,
-            quantity: update.filled_quantity,
-            commission: 0.65 * update.filled_quantity, // Estimate
-            fees: 0.02 * update.filled_quantity,
-            total_cost: update.avg_fill_price * update.filled_quantity * 100,
-            underlying: orderDetails.underlying,
-            symbol: orderDetails.symbol,
-            strike: orderDetails.strike,
-            expiration: orderDetails.expiration,
-            option_type: orderDetails.option_type,
-            executed_at: new Date().toISOString(),
-          });
-
-          if (orderDetails.refactored_position_id) {
-            const { data: refactoredPosition } = await supabase
-              .from('refactored_positions')
-              .select('*')
-              .eq('id', orderDetails.refactored_position_id)
-              .single();
-
-            if (refactoredPosition) {
-              const exitQuantity = orderDetails.exit_quantity || update.filled_quantity;
-              const realized = (update.avg_fill_price - refactoredPosition.entry_price) * exitQuantity * 100;
-              const remainingQty = Math.max(0, refactoredPosition.quantity - exitQuantity);
-
-              if (orderDetails.exit_action === 'PARTIAL' && remainingQty > 0) {
-                await supabase
-                  .from('refactored_positions')
-                  .update({
-                    quantity: remainingQty,
-                    realized_pnl: (refactoredPosition.realized_pnl ?? 0) + realized,
-                    current_price: update.avg_fill_price,
-                    updated_at: new Date().toISOString(),
-                    status: 'OPEN',
-                  })
-                  .eq('id', orderDetails.refactored_position_id);
-              } else {
-                await supabase
-                  .from('refactored_positions')
-                  .update({
-                    status: 'CLOSED',
-                    exit_price: update.avg_fill_price,
-                    exit_time: new Date().toISOString(),
-                    realized_pnl: (refactoredPosition.realized_pnl ?? 0) + realized,
-                    current_price: update.avg_fill_price,
-                    updated_at: new Date().toISOString(),
-                  })
-                  .eq('id', orderDetails.refactored_position_id);
-              }
-            }
-          }
-        }
-      }
     }
 
     // Log the polling activity
@@ -345,6 +758,7 @@ Deno.serve(async (req) => {
         message: `Polled ${pendingOrders.length} orders`,
         orders_polled: pendingOrders.length,
         updates: results,
+        intents,
       }),
       { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
     );
@@ -0,0 +1,56 @@
+import { corsHeaders } from "../_shared/cors.ts";
+import { createDbClient } from "../_shared/db-client.ts";
+import { requireAuth } from "../_shared/auth-middleware.ts";
+import { createAdapter } from "../_shared/adapter-factory.ts";
+import { reconcileBroker } from "../_shared/broker-reconciliation.ts";
+
+function jsonResponse(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+}
+
+/**
+ * GET reports broker/database differences without changing anything.
+ * POST (scheduled) also repairs safe differences and records risk violations.
+ */
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  const { response } = await requireAuth(req);
+  if (response) return response;
+
+  if (req.method !== "GET" && req.method !== "POST") {
+    return jsonResponse({ error: "Method not allowed" }, 405);
+  }
+
+  try {
+    const supabase = createDbClient();
+    const { adapter, warnings } = createAdapter();
+
+    if (warnings.length > 0) {
+      console.warn("[ReconcileBroker] Adapter warnings:", warnings);
+    }
+
+    const report = await reconcileBroker({
+      supabase,
+      adapter,
+      repair: req.method === "POST",
+    });
+
+    if (report.summary.total > 0) {
+      console.warn(
+        `[ReconcileBroker] ${report.summary.total} difference(s): ` +
+        `${report.summary.repaired} repaired, ${report.summary.flagged} flagged, ${report.summary.failed} failed`
+      );
+    }
+
+    return jsonResponse({ success: report.summary.failed === 0, report });
+  } catch (error) {
+    console.error("[ReconcileBroker] Error:", error);
+    return jsonResponse({ error: error instanceof Error ? error.message : "Unknown error" }, 500);
+  }
+});
@@ -0,0 +1,100 @@
+import { corsHeaders } from "../_shared/cors.ts";
+import { createDbClient } from "../_shared/db-client.ts";
+import { requireAuth } from "../_shared/auth-middleware.ts";
+import { BacktestRunner } from "../_shared/refactored/backtest/backtest-runner.ts";
+import { defaultConfig, ConfigValidationError } from "../_shared/refactored/core/config.ts";
+import type { Config } from "../_shared/refactored/core/types.ts";
+
+type ConfigOverrides = {
+  [K in keyof Config]?: Partial<NonNullable<Config[K]>>;
+};
+
+function applyConfigOverrides(base: Config, overrides: ConfigOverrides = {}): Config {
+  return {
+    validation: { ...base.validation, ...overrides.validation },
+    risk: { ...base.risk, ...overrides.risk },
+    sizing: { ...base.sizing, ...overrides.sizing },
+    confidence: { ...base.confidence, ...overrides.confidence },
+    cache: { ...base.cache, ...overrides.cache },
+    gex: { ...base.gex, ...overrides.gex },
+    exit: base.exit ? { ...base.exit, ...overrides.exit } : undefined,
+  };
+}
+
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  const { response } = await requireAuth(req);
+  if (response) return response;
+
+  if (req.method !== "POST") {
+    return new Response(JSON.stringify({ error: "Method not allowed" }), {
+      status: 405,
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+    });
+  }
+
+  try {
+    const body = await req.json();
+    const { start, end, symbols, seed, config } = body ?? {};
+
+    const startTime = new Date(start);
+    const endTime = new Date(end);
+
+    if (!start || !end || Number.isNaN(startTime.getTime()) || Number.isNaN(endTime.getTime())) {
+      return new Response(JSON.stringify({
+        error: 'Missing or invalid required fields: start and end',
+        usage: {
+          start: 'ISO timestamp of the first stored signal to replay',
+          end: 'ISO timestamp of the last stored signal to replay',
+          symbols: 'string[] (optional)',
+          seed: 'number (optional, paper fill seed)',
+          config: 'Partial Config overrides per section (optional)',
+        },
+      }), {
+        status: 400,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    if (startTime >= endTime) {
+      return new Response(JSON.stringify({ error: 'start must be before end' }), {
+        status: 400,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    const runner = new BacktestRunner(createDbClient(), {
+      startTime,
+      endTime,
+      symbols: Array.isArray(symbols) ? symbols : undefined,
+      seed: typeof seed === 'number' ? seed : undefined,
+      config: applyConfigOverrides(defaultConfig, config),
+    });
+
+    const result = await runner.run();
+
+    console.log(`[RefactoredBacktest] Run ${result.runId} complete:`, result.summary);
+
+    return new Response(JSON.stringify(result), {
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+    });
+  } catch (error) {
+    if (error instanceof ConfigValidationError) {
+      return new Response(JSON.stringify({ error: error.message, errors: error.errors }), {
+        status: 400,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    console.error('[RefactoredBacktest] Error:', error);
+    return new Response(
+      JSON.stringify({
+        error: error instanceof Error ? error.message : 'Unknown error',
+      }),
+      { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  }
+});
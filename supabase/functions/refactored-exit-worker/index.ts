@@ -2,7 +2,20 @@ import { corsHeaders } from "../_shared/cors.ts";
 import { createDbClient } from "../_shared/db-client.ts";
 import { getMarketDataService } from "../_shared/market-data/index.ts";
 import { createAdapter } from "../_shared/adapter-factory.ts";
-import { generateOccSymbol, type OrderRequest } from "../_shared/types.ts";
+import { recordOrderSubmission } from "../_shared/order-lifecycle.ts";
+import { chaseLimitOrder } from "../_shared/limit-chaser.ts";
+import { WORKING_ORDER_STATUSES } from "../_shared/kill-switch.ts";
+import {
+  activateBracket,
+  bracketTrigger,
+  cancelBracket,
+  createBracket,
+  fetchUnderlyingVolatility,
+  loadOpenBrackets,
+  markBracketTriggered,
+  refreshBracket,
+} from "../_shared/bracket-orders.ts";
+import { generateOccSymbol, type OrderBracket, type OrderRequest } from "../_shared/types.ts";
 
 import { DecisionOrchestrator } from "../_shared/refactored/orchestrator/decision-orchestrator.ts";
 import { ContextCache } from "../_shared/refactored/cache/context-cache.ts";
@@ -11,11 +24,15 @@ import { PositionManager } from "../_shared/refactored/services/position-manager
 import { RiskManager } from "../_shared/refactored/services/risk-manager.ts";
 import { PositionSizingService } from "../_shared/refactored/services/position-sizing-service.ts";
 import { ConfluenceCalculator } from "../_shared/refactored/services/confluence-calculator.ts";
+import { LossCircuitBreaker } from "../_shared/refactored/services/circuit-breaker.ts";
+import { EventBlackoutService, PostgresEventStore } from "../_shared/refactored/services/event-blackout.ts";
+import { ExpirationService, type ExpiringContract } from "../_shared/refactored/services/expiration-service.ts";
 import { defaultConfig } from "../_shared/refactored/core/config.ts";
 import { AuditLogger, type AuditLogEntry } from "../_shared/refactored/monitoring/audit-logger.ts";
 import { MetricsService } from "../_shared/refactored/monitoring/metrics-service.ts";
 import { DegradedModeTracker } from "../_shared/refactored/monitoring/degraded-mode-tracker.ts";
-import type { Position } from "../_shared/refactored/core/types.ts";
+import type { OptionsQuote } from "../_shared/market-data/types.ts";
+import type { ExitMarketData, ExitReason, Position } from "../_shared/refactored/core/types.ts";
 
 type ContractDetails = {
   underlying?: string;
@@ -26,6 +43,15 @@ type ContractDetails = {
   originalSignalId?: string | null;
 };
 
+// Protective exits cross the spread once the limit chase reaches its cap
+const IMMEDIATE_EXIT_REASONS: ExitReason[] = [
+  'STOP_LOSS',
+  'TRAILING_STOP',
+  'DELTA_THRESHOLD',
+  'EVENT_BLACKOUT',
+  'EXPIRATION',
+];
+
 function initializeExitEngine() {
   const supabase = createDbClient();
 
@@ -90,6 +116,7 @@ function initializeExitEngine() {
   const riskManager = new RiskManager(defaultConfig);
   const positionSizingService = new PositionSizingService(defaultConfig);
   const confluenceCalculator = new ConfluenceCalculator();
+  const expirationService = new ExpirationService(defaultConfig);
 
   const orchestrator = new DecisionOrchestrator(
     contextCache,
@@ -99,10 +126,147 @@ function initializeExitEngine() {
     positionSizingService,
     confluenceCalculator,
     defaultConfig,
-    auditLogger
+    auditLogger,
+    undefined,
+    undefined,
+    undefined,
+    new EventBlackoutService(defaultConfig, new PostgresEventStore(supabase)),
+    expirationService
   );
 
-  return { supabase, orchestrator, positionManager, metricsService };
+  return { supabase, orchestrator, positionManager, metricsService, expirationService };
+}
+
+async function fetchExitMarketData(
+  supabase: ReturnType<typeof createDbClient>,
+  underlying: string,
+  quote: OptionsQuote
+): Promise<ExitMarketData> {
+  return {
+    ...(await fetchUnderlyingVolatility(supabase, underlying)),
+    delta: typeof quote.delta === 'number' ? quote.delta : undefined,
+    theta: typeof quote.theta === 'number' ? quote.theta : undefined,
+    impliedVolatility: quote.implied_volatility > 0 ? quote.implied_volatility : undefined,
+  };
+}
+
+/**
+ * Client order id for an exit, derived from what is being exited so that
+ * overlapping runs share it and the outbox sends the exit once. Attempts at
+ * the same exit that already ended unfilled move it to the next attempt.
+ */
+async function exitClientOrderId(
+  supabase: ReturnType<typeof createDbClient>,
+  positionId: string,
+  exitReason: ExitReason | undefined,
+  exitTier: number | undefined,
+  remainingQuantity: number
+): Promise<string> {
+  const base = `CLT-EXIT-${positionId}-${exitReason ?? 'EXIT'}-T${exitTier ?? 0}-Q${remainingQuantity}`;
+  const { data } = await supabase
+    .from('orders')
+    .select('client_order_id')
+    .eq('refactored_position_id', positionId);
+
+  // Chase steps are keyed `<base>-A<attempt>-<step>`
+  const attempts = new Set(
+    ((data || []) as Array<{ client_order_id: string | null }>)
+      .map(order => order.client_order_id)
+      .filter((key): key is string => !!key && key.startsWith(`${base}-A`))
+      .map(key => key.slice(base.length + 2).split('-')[0])
+  );
+  return `${base}-A${attempts.size}`;
+}
+
+/**
+ * Underlying close to settle an expired series against. The first run that
+ * sees it in a quote stores it, so positions settled after the quote has
+ * moved on still use the expiration-day close; null when none is known.
+ */
+async function fetchSettlementUnderlyingPrice(
+  supabase: ReturnType<typeof createDbClient>,
+  marketDataService: ReturnType<typeof getMarketDataService>,
+  expirationService: ExpirationService,
+  underlying: string,
+  expiration: string,
+  record: boolean
+): Promise<number | null> {
+  const { data: stored } = await supabase
+    .from('expiration_settlement_closes')
+    .select('underlying_close')
+    .eq('underlying', underlying)
+    .eq('expiration', expiration)
+    .maybeSingle();
+  const storedClose = Number(stored?.underlying_close);
+  if (Number.isFinite(storedClose) && storedClose > 0) {
+    return storedClose;
+  }
+
+  const source = expirationService.settlementCloseSource(expiration);
+  if (!source) {
+    return null;
+  }
+
+  const quote = await marketDataService.getStockQuote(underlying);
+  if (!quote.success || !quote.data) {
+    return null;
+  }
+
+  const close = source === 'PREVIOUS_CLOSE' ? quote.data.prev_close || quote.data.price : quote.data.price;
+  if (!(close > 0)) {
+    return null;
+  }
+
+  if (record) {
+    // A concurrent run may have stored it first; either holds the same close
+    const { error } = await supabase
+      .from('expiration_settlement_closes')
+      .insert({ underlying, expiration, underlying_close: close, source: 'QUOTE', recorded_at: new Date().toISOString() });
+    if (error) {
+      console.warn(`[RefactoredExitWorker] Failed to store ${underlying} ${expiration} settlement close: ${error.message}`);
+    }
+  }
+  return close;
+}
+
+/**
+ * Raise a critical risk violation, once, for an expired position that is
+ * still open after its settlement window
+ */
+async function flagUnsettledExpiration(
+  supabase: ReturnType<typeof createDbClient>,
+  positionId: string,
+  occSymbol: string,
+  expiration: string,
+  quantity: number
+): Promise<boolean> {
+  const ruleViolated = `expiration_settlement: position ${positionId} (${occSymbol}) expired ${expiration} and is still open`;
+  const { data: existing } = await supabase
+    .from('risk_violations')
+    .select('id')
+    .eq('violation_type', 'EXPIRED_POSITION_UNSETTLED')
+    .eq('rule_violated', ruleViolated)
+    .limit(1);
+  if (existing && existing.length > 0) {
+    return true;
+  }
+
+  const { error } = await supabase
+    .from('risk_violations')
+    .insert({
+      violation_type: 'EXPIRED_POSITION_UNSETTLED',
+      rule_violated: ruleViolated,
+      current_value: quantity,
+      limit_value: 0,
+      severity: 'CRITICAL',
+      action_taken: 'FLAGGED',
+      created_at: new Date().toISOString(),
+    });
+  if (error) {
+    console.error(`[RefactoredExitWorker] Failed to flag unsettled expired position ${positionId}: ${error.message}`);
+    return false;
+  }
+  return true;
 }
 
 async function resolveContractDetails(
@@ -139,9 +303,19 @@ Deno.serve(async (req) => {
   }
 
   try {
-    const { supabase, orchestrator, positionManager, metricsService } = initializeExitEngine();
+    const {
+      supabase,
+      orchestrator,
+      positionManager,
+      metricsService,
+      expirationService,
+    } = initializeExitEngine();
     const url = new URL(req.url);
     const dryRun = url.searchParams.get('dry_run') === 'true';
+    const chaseConfig = defaultConfig.execution!.chase;
+    // Chases wait on the broker inline, one position after another; together
+    // they must finish well inside the function's wall-clock limit
+    const chaseDeadline = Date.now() + chaseConfig.runBudgetMs;
 
     const { data: openPositions, error } = await supabase
       .from('refactored_positions')
@@ -157,6 +331,44 @@ Deno.serve(async (req) => {
     const marketDataService = getMarketDataService();
     const results: Array<Record<string, unknown>> = [];
 
+    const { adapter, warnings } = createAdapter({
+      paper_config: {
+        slippage_percent: 0.1,
+        commission_per_contract: 0.65,
+        fee_per_contract: 0.02,
+      },
+    });
+
+    if (warnings.length > 0) {
+      console.warn(`[ExitWorker] Adapter warnings:`, warnings);
+    }
+
+    // Trades in the mode the factory actually selected, not the one requested
+    const circuitBreaker = new LossCircuitBreaker(supabase, adapter.mode);
+
+    // Protective brackets by position; those whose position has closed come down
+    const brackets = new Map<string, OrderBracket>();
+    const openPositionIds = new Set(((openPositions || []) as Array<{ id: string }>).map(position => position.id));
+    for (const bracket of await loadOpenBrackets(supabase)) {
+      if (openPositionIds.has(bracket.refactored_position_id)) {
+        brackets.set(bracket.refactored_position_id, bracket);
+      } else if (!dryRun) {
+        await cancelBracket(supabase, adapter, bracket, 'Position closed');
+      }
+    }
+
+    // An exit still working from an earlier tick (or an intent a crashed tick
+    // never answered) must settle before another goes out for the position
+    const { data: workingExits } = await supabase
+      .from('orders')
+      .select('refactored_position_id, bracket_id')
+      .in('status', WORKING_ORDER_STATUSES);
+    const exitingPositionIds = new Set(
+      ((workingExits || []) as Array<{ refactored_position_id: string | null; bracket_id: string | null }>)
+        .filter(order => order.refactored_position_id && !order.bracket_id)
+        .map(order => order.refactored_position_id)
+    );
+
     for (const row of openPositions || []) {
       const contractDetails = await resolveContractDetails(supabase, row.signal_id, {
         underlying: row.underlying ?? undefined,
@@ -175,6 +387,133 @@ Deno.serve(async (req) => {
         continue;
       }
 
+      // Expired series no longer quote; paper positions settle at intrinsic value
+      const contract: ExpiringContract = {
+        underlying: contractDetails.underlying,
+        strike: contractDetails.strike,
+        expiration: contractDetails.expiration,
+        optionType: contractDetails.optionType,
+      };
+      if (expirationService.isExpired(contract)) {
+        const occSymbol = generateOccSymbol(contract.underlying, contract.expiration, contract.optionType, contract.strike);
+        const overdue = expirationService.isSettlementOverdue(contract.expiration);
+
+        if (adapter.mode === "LIVE") {
+          // The broker books exercise, assignment or expiry; past the window
+          // the position is out of step with the account and needs a person
+          const flagged = overdue && !dryRun
+            && await flagUnsettledExpiration(supabase, row.id, occSymbol, contract.expiration, row.quantity);
+          results.push({
+            position_id: row.id,
+            status: flagged ? 'FLAGGED' : 'SKIPPED',
+            reason: overdue
+              ? 'Expired - not settled by the broker after the next session'
+              : 'Expired - exercise or assignment is settled by the broker',
+          });
+          continue;
+        }
+
+        const underlyingClose = await fetchSettlementUnderlyingPrice(
+          supabase,
+          marketDataService,
+          expirationService,
+          contract.underlying,
+          contract.expiration,
+          !dryRun
+        );
+        if (underlyingClose === null) {
+          const flagged = overdue && !dryRun
+            && await flagUnsettledExpiration(supabase, row.id, occSymbol, contract.expiration, row.quantity);
+          results.push({
+            position_id: row.id,
+            status: flagged ? 'FLAGGED' : 'SKIPPED',
+            reason: overdue
+              ? 'Expired - expiration-day close not recorded; enter it in expiration_settlement_closes to settle'
+              : 'Expired - underlying close unavailable for settlement',
+          });
+          continue;
+        }
+
+        const isShort = row.side === 'SHORT';
+        const settlement = expirationService.settle(contract, underlyingClose, isShort);
+        if (dryRun) {
+          results.push({
+            position_id: row.id,
+            status: 'DRY_RUN',
+            exit_reason: 'EXPIRATION',
+            settlement: settlement.outcome,
+            settlement_price: settlement.settlementPrice,
+            underlying_close: underlyingClose,
+          });
+          continue;
+        }
+
+        const expiringBracket = brackets.get(row.id);
+        if (expiringBracket) {
+          await cancelBracket(supabase, adapter, expiringBracket, 'Position settled at expiration');
+        }
+
+        const settledAt = new Date().toISOString();
+        await recordOrderSubmission(
+          supabase,
+          {
+            signal_id: contractDetails.originalSignalId ?? null,
+            refactored_position_id: row.id,
+            exit_action: 'FULL',
+            exit_quantity: row.quantity,
+            // A position settles once; a rerun after a failed booking reuses the key
+            client_order_id: `CLT-EXP-${row.id}`,
+            underlying: contract.underlying,
+            symbol: occSymbol,
+            strike: contract.strike,
+            expiration: contract.expiration,
+            option_type: contract.optionType,
+            side: isShort ? 'BUY_TO_CLOSE' : 'SELL_TO_CLOSE',
+            quantity: row.quantity,
+            order_type: 'MARKET',
+            time_in_force: 'DAY',
+            mode: 'PAPER',
+            status: 'EXPIRED',
+            filled_quantity: row.quantity,
+            avg_fill_price: settlement.settlementPrice,
+            submitted_at: settledAt,
+            filled_at: settledAt,
+          },
+          {
+            broker_trade_id: null,
+            execution_price: settlement.settlementPrice,
+            quantity: row.quantity,
+            commission: 0,
+            fees: 0,
+            // Longs receive the settlement value; shorts pay it
+            total_cost: (isShort ? 1 : -1) * Math.round(settlement.settlementPrice * row.quantity * 100 * 100) / 100,
+            executed_at: settledAt,
+            trade_fields: {
+              outcome: 'EXPIRED',
+              settlement_type: settlement.outcome,
+              underlying_settlement_price: underlyingClose,
+            },
+          },
+          'exit-worker'
+        );
+
+        const settled = await positionManager.reducePosition(row.id, row.quantity, settlement.settlementPrice);
+        if (!settled.success) {
+          console.error(`[RefactoredExitWorker] Failed to settle expired position ${row.id}: ${settled.error}`);
+        }
+
+        results.push({
+          position_id: row.id,
+          status: 'EXPIRED',
+          exit_reason: 'EXPIRATION',
+          settlement: settlement.outcome,
+          settlement_price: settlement.settlementPrice,
+          underlying_close: underlyingClose,
+          reason: settlement.reasoning,
+        });
+        continue;
+      }
+
       const quoteResult = await marketDataService.getOptionQuote(
         contractDetails.underlying,
         contractDetails.expiration,
@@ -202,11 +541,36 @@ Deno.serve(async (req) => {
         continue;
       }
 
+      let bracket = brackets.get(row.id);
+      if (bracket && !dryRun) {
+        bracket = await refreshBracket(supabase, adapter, bracket, Math.abs(row.quantity), defaultConfig.exit!);
+        if (bracket.status === 'TRIGGERED') {
+          // The broker filled a leg; poll-orders books the exit against the position
+          results.push({
+            position_id: row.id,
+            status: 'BRACKET_TRIGGERED',
+            exit_reason: bracket.triggered_leg === 'STOP' ? 'STOP_LOSS' : 'PROFIT_TARGET',
+            fill_price: bracket.triggered_price,
+          });
+          continue;
+        }
+      }
+
+      if (exitingPositionIds.has(row.id)) {
+        results.push({
+          position_id: row.id,
+          status: 'SKIPPED',
+          reason: 'Exit order already working',
+        });
+        continue;
+      }
+
       const position: Position = {
         id: row.id,
         signalId: row.signal_id,
         symbol: row.symbol,
         direction: row.direction,
+        side: row.side ?? 'LONG',
         quantity: row.quantity,
         entryPrice: row.entry_price,
         entryTime: new Date(row.entry_time),
@@ -218,13 +582,45 @@ Deno.serve(async (req) => {
         expiration: contractDetails.expiration,
         optionType: contractDetails.optionType,
         timeframe: contractDetails.timeframe,
+        originalQuantity: row.original_quantity ?? row.quantity,
+        realizedPnL: Number(row.realized_pnl ?? 0),
+        highWaterMark: row.high_water_mark != null ? Number(row.high_water_mark) : undefined,
+        trailingStopPrice: row.trailing_stop_price != null ? Number(row.trailing_stop_price) : undefined,
+        exitTiersTaken: row.exit_tiers_taken ?? 0,
+        entryGreeks: row.entry_delta != null
+          ? {
+            delta: Number(row.entry_delta),
+            gamma: Number(row.entry_gamma ?? 0),
+            theta: Number(row.entry_theta ?? 0),
+            vega: Number(row.entry_vega ?? 0),
+            impliedVolatility: row.entry_iv != null ? Number(row.entry_iv) : null,
+          }
+          : undefined,
+        creditReceived: row.credit_received != null ? Number(row.credit_received) : undefined,
+        collateralRequirement: row.collateral_requirement != null ? Number(row.collateral_requirement) : undefined,
+        maxLoss: row.max_loss != null ? Number(row.max_loss) : row.side === 'SHORT' ? null : undefined,
       };
 
+      const exitMarketData = await fetchExitMarketData(supabase, contractDetails.underlying, quoteResult.data);
+
       const decisionStart = Date.now();
-      const decision = await orchestrator.orchestrateExitDecision(position);
+      const decision = await orchestrator.orchestrateExitDecision(position, exitMarketData);
       metricsService.recordDecisionLatency(Date.now() - decisionStart);
 
-      if (decision.decision !== 'EXIT') {
+      // Keep the high-water mark and trailing stop across runs
+      if (!dryRun && decision.tracking) {
+        const tracked = await positionManager.updateExitTracking(position.id, decision.tracking);
+        if (!tracked.success) {
+          console.warn(`[RefactoredExitWorker] ${tracked.error}`);
+        }
+      }
+
+      // LOCAL brackets stand in for the broker's OCO: a leg reached closes the whole position
+      const bracketLeg = bracket?.status === 'ACTIVE' && bracket.management === 'LOCAL'
+        ? bracketTrigger(bracket, quoteResult.data)
+        : null;
+
+      if (decision.decision !== 'EXIT' && !bracketLeg) {
         results.push({
           position_id: row.id,
           status: 'HOLD',
@@ -233,18 +629,24 @@ Deno.serve(async (req) => {
         continue;
       }
 
-      const isPartialExit = decision.exitReason === 'PROFIT_TARGET' && position.quantity > 1;
-      const exitQuantity = isPartialExit
-        ? Math.max(1, Math.floor(position.quantity / 2))
-        : Math.abs(position.quantity);
+      const exitReason: ExitReason | undefined = bracketLeg
+        ? bracketLeg === 'STOP' ? 'STOP_LOSS' : 'PROFIT_TARGET'
+        : decision.exitReason;
+      const isPartialExit = !bracketLeg && decision.partial === true;
+      const exitQuantity = bracketLeg
+        ? Math.abs(position.quantity)
+        : decision.quantity ?? Math.abs(position.quantity);
+      const exitTier = bracketLeg ? undefined : decision.exitTier;
 
       if (dryRun) {
         results.push({
           position_id: row.id,
           status: 'DRY_RUN',
-          exit_reason: decision.exitReason,
+          exit_reason: exitReason,
+          bracket_leg: bracketLeg,
           exit_action: isPartialExit ? 'PARTIAL' : 'FULL',
           exit_quantity: exitQuantity,
+          remaining_quantity: position.quantity - exitQuantity,
           current_price: currentPrice,
         });
         continue;
@@ -258,125 +660,165 @@ Deno.serve(async (req) => {
       );
 
       const orderRequest: OrderRequest = {
-        signal_id: contractDetails.originalSignalId ?? null,
+        signal_id: contractDetails.originalSignalId ?? undefined,
         underlying: contractDetails.underlying,
         symbol: occSymbol,
         strike: contractDetails.strike,
         expiration: contractDetails.expiration,
         option_type: contractDetails.optionType,
-        side: 'SELL_TO_CLOSE',
+        side: position.side === 'SHORT' ? 'BUY_TO_CLOSE' : 'SELL_TO_CLOSE',
         quantity: exitQuantity,
-        order_type: 'MARKET',
+        order_type: 'LIMIT',
         time_in_force: 'DAY',
       };
 
-      const { adapter, warnings } = createAdapter({
-        paper_config: {
-          slippage_percent: 0.1,
-          commission_per_contract: 0.65,
-          fee_per_contract: 0.02,
-        },
-      });
+      const urgency = exitReason && IMMEDIATE_EXIT_REASONS.includes(exitReason)
+        ? 'IMMEDIATE'
+        : 'END_OF_DAY';
 
-      if (warnings.length > 0) {
-        console.warn(`[ExitWorker] Adapter warnings:`, warnings);
+      // Urgent exits still go out, cut down to a price and the market fallback
+      if (urgency !== 'IMMEDIATE' && chaseDeadline - Date.now() < chaseConfig.intervalMs) {
+        results.push({
+          position_id: row.id,
+          status: 'SKIPPED',
+          exit_reason: exitReason,
+          reason: 'Chase time for this run is spent; exiting next run',
+        });
+        continue;
+      }
+
+      // A broker-held OCO reserves the contracts; take it down before exiting
+      // here and re-arm it for whatever is left afterwards
+      const heldBracket = bracket?.status === 'ACTIVE' && bracket.management === 'BROKER' ? bracket : null;
+      if (heldBracket) {
+        await cancelBracket(supabase, adapter, heldBracket, `Replaced by ${exitReason ?? 'exit worker'} exit`);
       }
 
-      const { result: orderResult, trade } = await adapter.submitOrder(orderRequest, currentPrice);
+      const clientOrderId = await exitClientOrderId(
+        supabase,
+        position.id,
+        exitReason,
+        exitTier,
+        Math.abs(position.quantity)
+      );
+
+      const chase = await chaseLimitOrder({
+        supabase,
+        adapter,
+        request: orderRequest,
+        quote: quoteResult.data,
+        config: chaseConfig,
+        source: 'exit-worker',
+        urgency,
+        deadlineMs: chaseDeadline,
+        orderFields: {
+          signal_id: contractDetails.originalSignalId ?? null,
+          refactored_position_id: position.id,
+          exit_action: isPartialExit ? 'PARTIAL' : 'FULL',
+          exit_quantity: exitQuantity,
+          client_order_id: clientOrderId,
+        },
+        refreshQuote: async () => {
+          const refreshed = await marketDataService.getOptionQuote(
+            orderRequest.underlying,
+            orderRequest.expiration,
+            orderRequest.strike,
+            orderRequest.option_type
+          );
+          return refreshed.success && refreshed.data ? refreshed.data : null;
+        },
+      });
 
       await supabase.from('adapter_logs').insert({
-        correlation_id: crypto.randomUUID(),
+        correlation_id: chase.chase_id,
         adapter_name: adapter.name,
-        operation: 'SUBMIT_ORDER',
+        operation: 'CHASE_ORDER',
         request_payload: orderRequest,
-        response_payload: orderResult,
-        status: orderResult.success ? 'SUCCESS' : 'FAILURE',
+        response_payload: chase,
+        status: chase.error ? 'FAILURE' : 'SUCCESS',
         duration_ms: Date.now() - decisionStart,
       });
 
-      const { data: orderRow } = await supabase
-        .from('orders')
-        .insert({
-          signal_id: contractDetails.originalSignalId ?? null,
-          refactored_position_id: position.id,
-          exit_action: isPartialExit ? 'PARTIAL' : 'FULL',
-          exit_quantity: exitQuantity,
-          broker_order_id: orderResult.broker_order_id,
-          client_order_id: `CLT-EXIT-${row.id.substring(0, 8)}-${Date.now()}`,
-          underlying: orderRequest.underlying,
-          symbol: orderRequest.symbol,
-          strike: orderRequest.strike,
-          expiration: orderRequest.expiration,
-          option_type: orderRequest.option_type,
-          side: orderRequest.side,
-          quantity: orderRequest.quantity,
-          order_type: orderRequest.order_type,
-          limit_price: orderRequest.limit_price || null,
-          stop_price: orderRequest.stop_price || null,
-          time_in_force: orderRequest.time_in_force,
-          mode: adapter.mode,
-          status: orderResult.status,
-          filled_quantity: orderResult.filled_quantity,
-          avg_fill_price: orderResult.avg_fill_price || null,
-          submitted_at: new Date().toISOString(),
-          filled_at: orderResult.status === 'FILLED' ? new Date().toISOString() : null,
-        })
-        .select('*')
-        .single();
-
-      if (orderRow && orderResult.status === 'FILLED' && trade) {
-        await supabase.from('trades').insert({
-          order_id: orderRow.id,
-          broker_trade_id: trade.broker_trade_id || null,
-          execution_price: trade.execution_price,
-          quantity: trade.quantity,
-          commission: trade.commission,
-          fees: trade.fees,
-          total_cost: trade.total_cost,
-          underlying: orderRequest.underlying,
-          symbol: orderRequest.symbol,
-          strike: orderRequest.strike,
-          expiration: orderRequest.expiration,
-          option_type: orderRequest.option_type,
-          executed_at: trade.executed_at,
-        });
+      if (chase.error) {
+        console.warn(`[RefactoredExitWorker] Limit chase for ${position.id}: ${chase.error}`);
+      }
 
-        if (isPartialExit) {
-          const realized = (trade.execution_price - position.entryPrice) * exitQuantity * 100;
-          const remainingQty = Math.max(0, position.quantity - exitQuantity);
-
-          await supabase
-            .from('refactored_positions')
-            .update({
-              quantity: remainingQty,
-              realized_pnl: (row.realized_pnl ?? 0) + realized,
-              current_price: trade.execution_price,
-              updated_at: new Date().toISOString(),
-              status: remainingQty === 0 ? 'CLOSED' : 'OPEN',
-              exit_price: remainingQty === 0 ? trade.execution_price : null,
-              exit_time: remainingQty === 0 ? new Date().toISOString() : null,
-            })
-            .eq('id', position.id);
-        } else {
-          await positionManager.closePosition(position.id, trade.execution_price);
+      if (chase.filled_quantity > 0 && chase.avg_fill_price !== null) {
+        // Only the contracts that traded are closed; the rest stays open
+        const reduced = await positionManager.reducePosition(
+          position.id,
+          Math.min(chase.filled_quantity, position.quantity),
+          chase.avg_fill_price,
+          exitTier
+        );
+        if (!reduced.success) {
+          console.error(`[RefactoredExitWorker] Failed to book exit for ${position.id}: ${reduced.error}`);
+        }
+      }
+
+      const remainingQuantity = positionManager.getPositionById(position.id)?.quantity ?? position.quantity;
+      if (bracketLeg && bracket && chase.status === 'FILLED' && chase.avg_fill_price !== null) {
+        await markBracketTriggered(supabase, bracket, bracketLeg, chase.avg_fill_price);
+      } else if (heldBracket && remainingQuantity > 0) {
+        const rearmed = await createBracket(supabase, {
+          id: position.id,
+          underlying: heldBracket.underlying,
+          symbol: heldBracket.symbol,
+          strike: Number(heldBracket.strike),
+          expiration: heldBracket.expiration,
+          option_type: heldBracket.option_type,
+          side: heldBracket.side,
+        }, heldBracket.entry_order_id, adapter.mode);
+        if (rearmed && heldBracket.stop_price !== null && heldBracket.target_price !== null) {
+          await activateBracket(supabase, adapter, rearmed, {
+            price: Number(heldBracket.entry_price),
+            quantity: Math.abs(remainingQuantity),
+          }, {
+            stop_price: Number(heldBracket.stop_price),
+            target_price: Number(heldBracket.target_price),
+            level_source: heldBracket.level_source ?? 'CONFIG',
+          });
         }
       }
 
       results.push({
         position_id: row.id,
-        status: orderResult.status,
-        exit_reason: decision.exitReason,
+        status: chase.status,
+        exit_reason: exitReason,
+        bracket_leg: bracketLeg,
         exit_action: isPartialExit ? 'PARTIAL' : 'FULL',
         exit_quantity: exitQuantity,
+        filled_quantity: chase.filled_quantity,
+        avg_fill_price: chase.avg_fill_price,
+        price_improvement: chase.price_improvement,
+        market_fallback: chase.market_fallback,
+        deadline_reached: chase.deadline_reached,
+        remaining_quantity: remainingQuantity,
+      });
+    }
+
+    // Marks taken here are the baselines later sessions count P&L from
+    if (!dryRun) {
+      await circuitBreaker.recordMarks().catch((markError) => {
+        console.warn('[RefactoredExitWorker] Failed to record position marks:', markError);
       });
     }
 
+    // Exits keep running while halted; re-check loss limits after booking them
+    const breakerState = await circuitBreaker.evaluate().catch((breakerError) => {
+      console.warn('[RefactoredExitWorker] Circuit breaker evaluation failed:', breakerError);
+      return null;
+    });
+
     return new Response(
       JSON.stringify({
         success: true,
         dry_run: dryRun,
         processed: results.length,
         results,
+        circuit_breaker: breakerState
+          ? { status: breakerState.status, reason: breakerState.reason }
+          : null,
       }),
       { headers: { ...corsHeaders, "Content-Type": "application/json" } }
     );
@@ -23,6 +23,8 @@ interface TradeWithOrder {
   option_type: string;
   executed_at: string;
   created_at: string;
+  outcome?: 'EXPIRED' | null;
+  settlement_type?: string | null;
   // Joined from orders
   side?: string;
   mode?: string;
@@ -17,21 +17,36 @@ import type { ContextWebhookPayload } from "../_shared/market-context-types.ts";
 import { parseTradingViewPayload } from "../_shared/tradingview-parser.ts";
 import { parseIndicatorPayload, detectIndicatorSource } from "../_shared/indicator-parsers/index.ts";
 import type { IncomingSignal } from "../_shared/types.ts";
-import { generateOccSymbol, type OrderRequest, type OrderSide, type OrderType } from "../_shared/types.ts";
+import { generateOccSymbol, type Order, type OrderRequest, type OrderSide, type OrderType } from "../_shared/types.ts";
 import { createAdapter } from "../_shared/adapter-factory.ts";
+import { submitOrderOnce } from "../_shared/order-outbox.ts";
+import { chaseLimitOrder, chasePrices, type ChaseResult } from "../_shared/limit-chaser.ts";
+import { WORKING_ORDER_STATUSES } from "../_shared/kill-switch.ts";
+import { activateBracket, createBracket, resolveBracketLevels } from "../_shared/bracket-orders.ts";
+import type { AdapterOrderResult, BrokerAdapter } from "../_shared/broker-adapter.ts";
 
 // Import refactored components
-import { SignalPipeline } from "../_shared/refactored/pipeline/signal-pipeline.ts";
+import { SignalPipeline, type PipelineResult, type ProcessSignalOptions } from "../_shared/refactored/pipeline/signal-pipeline.ts";
+import { PostgresPipelineFailureStore } from "../_shared/refactored/pipeline/failure-store.ts";
 import { SignalNormalizer } from "../_shared/refactored/pipeline/signal-normalizer.ts";
 import { SignalValidator } from "../_shared/refactored/validation/signal-validator.ts";
 import { DeduplicationCache } from "../_shared/refactored/cache/deduplication-cache.ts";
+import { PostgresStateStore } from "../_shared/refactored/cache/state-store.ts";
 import { DecisionOrchestrator } from "../_shared/refactored/orchestrator/decision-orchestrator.ts";
 import { ContextCache } from "../_shared/refactored/cache/context-cache.ts";
 import { GEXService } from "../_shared/refactored/services/gex-service.ts";
-import { PositionManager } from "../_shared/refactored/services/position-manager.ts";
+import { PositionManager, type EntryGreeksProvider } from "../_shared/refactored/services/position-manager.ts";
+import { calculatePositionRisk } from "../_shared/refactored/services/position-accounting.ts";
 import { RiskManager } from "../_shared/refactored/services/risk-manager.ts";
 import { PositionSizingService } from "../_shared/refactored/services/position-sizing-service.ts";
 import { ConfluenceCalculator } from "../_shared/refactored/services/confluence-calculator.ts";
+import { PortfolioRiskService, type GreeksProvider } from "../_shared/refactored/services/portfolio-risk-service.ts";
+import { LossCircuitBreaker } from "../_shared/refactored/services/circuit-breaker.ts";
+import { LiquidityGate, type ContractChainProvider, type ContractQuoteProvider } from "../_shared/refactored/services/liquidity-gate.ts";
+import { EventBlackoutService, PostgresEventStore } from "../_shared/refactored/services/event-blackout.ts";
+import { getMarketDataService } from "../_shared/market-data/index.ts";
+import { applyContractResolution, resolveSignalContract } from "../_shared/market-data/contract-resolver.ts";
+import type { OptionsQuote } from "../_shared/market-data/types.ts";
 import { defaultConfig } from "../_shared/refactored/core/config.ts";
 import { AuditLogger, AuditLogEntry } from "../_shared/refactored/monitoring/audit-logger.ts";
 import { MetricsService } from "../_shared/refactored/monitoring/metrics-service.ts";
@@ -42,6 +57,7 @@ import { DegradedModeTracker } from "../_shared/refactored/monitoring/degraded-m
  */
 function initializePipeline(): {
   pipeline: SignalPipeline;
+  failureStore: PostgresPipelineFailureStore;
   auditLogger: AuditLogger;
   metricsService: MetricsService;
   degradedModeTracker: DegradedModeTracker;
@@ -110,13 +126,65 @@ function initializePipeline(): {
     }
   };
   
+  // Dedup, cooldown and signal-to-position claims shared across instances
+  const stateStore = new PostgresStateStore(supabase);
+
   // Create service instances
   const contextCache = new ContextCache(defaultConfig, fetchContext);
   const gexService = new GEXService(supabase, defaultConfig, degradedModeTracker);
-  const positionManager = new PositionManager(supabase, defaultConfig);
+  const marketData = getMarketDataService();
+
+  // Entry greeks and IV recorded on the position for greeks/IV exits
+  const fetchEntryGreeks: EntryGreeksProvider = async ({ underlying, expiration, strike, optionType }) => {
+    const quote = await marketData.getOptionQuote(underlying, expiration, strike, optionType);
+    if (!quote.success || !quote.data) return null;
+    return {
+      delta: quote.data.delta,
+      gamma: quote.data.gamma,
+      theta: quote.data.theta,
+      vega: quote.data.vega,
+      impliedVolatility: quote.data.implied_volatility || null,
+    };
+  };
+  // The mode the adapter factory selects, which falls back to PAPER when live trading is not allowed
+  const tradingMode = createAdapter().adapter.mode;
+  const positionManager = new PositionManager(
+    supabase,
+    defaultConfig,
+    undefined,
+    stateStore,
+    fetchEntryGreeks,
+    tradingMode
+  );
   const riskManager = new RiskManager(defaultConfig);
   const positionSizingService = new PositionSizingService(defaultConfig);
   const confluenceCalculator = new ConfluenceCalculator();
+
+  // Live greeks for portfolio delta/gamma/vega limits
+  const fetchGreeks: GreeksProvider = async ({ underlying, expiration, strike, optionType }) => {
+    if (!expiration || strike === undefined) return null;
+    const quote = await marketData.getOptionQuote(underlying, expiration, strike, optionType);
+    if (!quote.success || !quote.data) return null;
+    return { delta: quote.data.delta, gamma: quote.data.gamma, vega: quote.data.vega };
+  };
+  const portfolioRiskService = new PortfolioRiskService(supabase, defaultConfig, fetchGreeks, tradingMode);
+
+  // Spread / volume / open interest / quote age checks on the target contract
+  const fetchQuote: ContractQuoteProvider = async ({ underlying, expiration, strike, optionType }) => {
+    if (!expiration || strike === undefined) return null;
+    const quote = await marketData.getOptionQuote(underlying, expiration, strike, optionType);
+    return quote.success && quote.data ? quote.data : null;
+  };
+  const fetchChain: ContractChainProvider = async ({ underlying, expiration, optionType }) => {
+    if (!expiration) return [];
+    const chain = await marketData.getOptionsChain(underlying, expiration);
+    if (!chain.success || !chain.data) return [];
+    return optionType === 'CALL' ? chain.data.calls : chain.data.puts;
+  };
+  const liquidityGate = new LiquidityGate(defaultConfig, fetchQuote, fetchChain);
+
+  // FOMC / CPI / NFP / earnings windows from economic_events
+  const blackoutService = new EventBlackoutService(defaultConfig, new PostgresEventStore(supabase));
   
   // Create orchestrator
   const orchestrator = new DecisionOrchestrator(
@@ -127,14 +195,21 @@ function initializePipeline(): {
     positionSizingService,
     confluenceCalculator,
     defaultConfig,
-    auditLogger
+    auditLogger,
+    undefined,
+    portfolioRiskService,
+    liquidityGate,
+    blackoutService
   );
   
   // Create pipeline components
   const normalizer = new SignalNormalizer();
-  const validator = new SignalValidator(defaultConfig);
-  const deduplicationCache = new DeduplicationCache(defaultConfig);
+  const validator = new SignalValidator(defaultConfig, undefined, stateStore, blackoutService);
+  const deduplicationCache = new DeduplicationCache(defaultConfig, undefined, stateStore);
   
+  // Failed signals are dead-lettered so they can be replayed
+  const failureStore = new PostgresPipelineFailureStore(supabase);
+
   // Create pipeline
   const pipeline = new SignalPipeline(
     normalizer,
@@ -143,10 +218,13 @@ function initializePipeline(): {
     orchestrator,
     positionManager,
     defaultConfig,
-    auditLogger
+    auditLogger,
+    undefined,
+    new LossCircuitBreaker(supabase, tradingMode),
+    failureStore
   );
   
-  return { pipeline, auditLogger, metricsService, degradedModeTracker };
+  return { pipeline, failureStore, auditLogger, metricsService, degradedModeTracker };
 }
 
 // Allow running standalone (Supabase edge / local dev)
@@ -155,7 +233,7 @@ if (import.meta.main) {
 }
 
 // Initialize pipeline once at module load
-const { pipeline, auditLogger, metricsService, degradedModeTracker } = initializePipeline();
+const { pipeline, failureStore, auditLogger, metricsService, degradedModeTracker } = initializePipeline();
 
 console.log('[WEBHOOK] Initialized with refactored SignalPipeline and DecisionOrchestrator');
 
@@ -241,6 +319,148 @@ function resolveEntryPrice(parsedSignal: IncomingSignal, metadata: Record<string
   return candidates.find((value) => typeof value === 'number' && value > 0);
 }
 
+interface EntrySubmission {
+  order: Order | null; // The entry's order row; a chase's last step
+  result: AdapterOrderResult;
+  fill: { execution_price: number; quantity: number } | null;
+  trade_booked: boolean;
+  replayed: boolean; // The signal's entry was already sent by an earlier attempt
+  error?: string;
+  chase?: ChaseResult;
+}
+
+/**
+ * Sends the entry through the order outbox, keyed on the signal. With a
+ * two-sided quote it is chased from the mid toward the far side, never past
+ * the signal's limit; unfilled at the cap it is cancelled rather than sent
+ * to market. Without one it goes out as the single order the signal asked for.
+ */
+async function submitEntry(
+  supabase: ReturnType<typeof createDbClient>,
+  adapter: BrokerAdapter,
+  orderRequest: OrderRequest & { client_order_id: string },
+  quote: OptionsQuote | undefined,
+  basePrice: number
+): Promise<EntrySubmission> {
+  const chaseConfig = defaultConfig.execution!.chase;
+  const worstPrice = orderRequest.order_type === 'LIMIT' ? orderRequest.limit_price : undefined;
+  const chaseable = quote &&
+    (orderRequest.order_type === 'MARKET' || orderRequest.order_type === 'LIMIT') &&
+    chasePrices(orderRequest.side, quote, chaseConfig, worstPrice) !== null;
+
+  if (!quote || !chaseable) {
+    const submission = await submitOrderOnce(
+      supabase,
+      adapter,
+      orderRequest,
+      { source: 'webhook', orderFields: { signal_id: orderRequest.signal_id }, marketPrice: basePrice, quote }
+    );
+    return {
+      order: submission.order,
+      result: submission.result,
+      fill: submission.trade,
+      trade_booked: submission.trade_booked,
+      replayed: submission.replayed,
+      error: submission.error,
+    };
+  }
+
+  const chase = await chaseLimitOrder({
+    supabase,
+    adapter,
+    request: orderRequest,
+    quote,
+    config: chaseConfig,
+    source: 'webhook',
+    urgency: 'ENTRY',
+    orderFields: { signal_id: orderRequest.signal_id, client_order_id: orderRequest.client_order_id },
+    worstPrice,
+    deadlineMs: Date.now() + chaseConfig.runBudgetMs,
+    refreshQuote: async () => {
+      const refreshed = await getMarketDataService().getOptionQuote(
+        orderRequest.underlying,
+        orderRequest.expiration,
+        orderRequest.strike,
+        orderRequest.option_type
+      );
+      return refreshed.success && refreshed.data ? refreshed.data : null;
+    },
+  });
+
+  const lastStep = chase.steps[chase.steps.length - 1];
+  const { data: order } = lastStep
+    ? await supabase.from('orders').select('*').eq('id', lastStep.order_id).single()
+    : { data: null };
+  const filled = chase.filled_quantity > 0 && chase.avg_fill_price !== null;
+  const error = chase.error ?? (filled ? undefined : 'Entry chase ended unfilled');
+
+  return {
+    order: (order as Order | null) ?? null,
+    result: {
+      success: filled,
+      order_id: lastStep?.order_id ?? orderRequest.client_order_id,
+      broker_order_id: lastStep?.broker_order_id ?? undefined,
+      status: chase.status === 'UNFILLED' ? 'CANCELLED' : chase.status,
+      filled_quantity: chase.filled_quantity,
+      avg_fill_price: chase.avg_fill_price ?? undefined,
+      error,
+    },
+    fill: filled ? { execution_price: chase.avg_fill_price!, quantity: chase.filled_quantity } : null,
+    // The chaser books each step's fills itself
+    trade_booked: filled,
+    replayed: chase.replayed,
+    error,
+    chase,
+  };
+}
+
+/**
+ * Attaches the protective stop/target bracket to the position an entry
+ * opened. It is armed straight away when the entry filled on submission;
+ * otherwise it stays PENDING until the exit worker sees the fill.
+ */
+async function attachEntryBracket(
+  supabase: ReturnType<typeof createDbClient>,
+  adapter: BrokerAdapter,
+  trackingId: string,
+  entryOrderId: string,
+  orderRequest: OrderRequest,
+  fill: { execution_price: number; quantity: number } | null
+): Promise<string> {
+  const { data: position } = await supabase
+    .from('refactored_positions')
+    .select('id')
+    .eq('signal_id', trackingId)
+    .maybeSingle();
+  if (!position) {
+    return 'NO_POSITION';
+  }
+
+  const side = orderRequest.side === 'SELL_TO_OPEN' ? 'SHORT' : 'LONG';
+  const bracket = await createBracket(supabase, {
+    id: position.id,
+    underlying: orderRequest.underlying,
+    symbol: orderRequest.symbol,
+    strike: orderRequest.strike,
+    expiration: orderRequest.expiration,
+    option_type: orderRequest.option_type,
+    side,
+  }, entryOrderId, adapter.mode);
+  if (!bracket) {
+    return 'FAILED';
+  }
+  if (!fill || fill.quantity <= 0) {
+    return 'PENDING';
+  }
+
+  const levels = await resolveBracketLevels(supabase, orderRequest.underlying, fill.execution_price, side);
+  const armed = await activateBracket(supabase, adapter, bracket, {
+    price: fill.execution_price,
+    quantity: fill.quantity,
+  }, levels);
+  return `${armed.management}, Stop: ${armed.stop_price}, Target: ${armed.target_price}`;
+}
+
 function buildPipelinePayload(
   incoming: IncomingSignal,
   source: string,
@@ -501,6 +721,25 @@ export default async function handleWebhook(req: Request): Promise<Response> {
       );
     }
 
+    if (parsedSignal.contract_spec) {
+      console.log(`[${correlationId}] Stage: CONTRACT_RESOLUTION, Status: RESOLVING, Spec: ${JSON.stringify(parsedSignal.contract_spec)}`);
+      const resolution = await resolveSignalContract(parsedSignal, getMarketDataService());
+
+      if (!resolution.success || !resolution.quote) {
+        console.error(`[${correlationId}] Stage: CONTRACT_RESOLUTION, Status: REJECTED, Error: ${resolution.error}`);
+        return new Response(
+          JSON.stringify({
+            status: "REJECTED",
+            validation_errors: [`Contract resolution failed: ${resolution.error}`],
+          }),
+          { status: 422, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+
+      parsedSignal = applyContractResolution(parsedSignal, resolution);
+      console.log(`[${correlationId}] Stage: CONTRACT_RESOLUTION, Status: RESOLVED, Contract: ${resolution.quote.symbol}, DTE: ${resolution.dte}`);
+    }
+
     console.log(`[${correlationId}] Stage: SIGNAL_STORAGE, Status: INSERTING, Underlying: ${parsedSignal.underlying}, Strike: ${parsedSignal.strike}, Type: ${parsedSignal.option_type}`);
     const { data: insertedSignal, error: insertError } = await supabase
       .from("signals")
@@ -603,8 +842,9 @@ async function processSignalAsync(
   correlationId: string,
   signatureValid: boolean,
   signalId: string,
-  signalHash: string
-): Promise<void> {
+  signalHash: string,
+  replay?: ProcessSignalOptions['replay']
+): Promise<PipelineResult | null> {
   const supabase = createDbClient();
   const decisionStartTime = Date.now();
   
@@ -612,7 +852,11 @@ async function processSignalAsync(
     console.log(`[${correlationId}] Stage: PIPELINE_PROCESSING, Status: STARTED`);
     
     // Process through unified pipeline
-    const result = await pipeline.processSignal(rawPayload);
+    const result = await pipeline.processSignal(rawPayload, {
+      correlationId,
+      originalSignalId: signalId,
+      replay,
+    });
     
     const decisionTime = Date.now() - decisionStartTime;
     metricsService.recordDecisionLatency(decisionTime);
@@ -680,8 +924,11 @@ async function processSignalAsync(
             parsedSignal.strike
           );
 
-          const orderRequest: OrderRequest = {
+          // One entry per signal: a retried or replayed signal reuses the id and
+          // gets the order already placed instead of a second one
+          const orderRequest: OrderRequest & { client_order_id: string } = {
             signal_id: signalId,
+            client_order_id: `CLT-${signalId}`,
             underlying: parsedSignal.underlying,
             symbol: occSymbol,
             strike: parsedSignal.strike,
@@ -710,83 +957,118 @@ async function processSignalAsync(
           }
 
           const basePrice = resolveEntryPrice(parsedSignal, result.signal.metadata || {}) ?? 1.5;
-          const { result: orderResult, trade } = await adapter.submitOrder(orderRequest, basePrice);
 
-          console.log(`[${correlationId}] Stage: ORDER_SUBMISSION, Status: ${orderResult.success ? 'SUCCESS' : 'FAILED'}, OrderStatus: ${orderResult.status}, BrokerOrderId: ${orderResult.broker_order_id}`);
+          // Entries are chased off the live bid/ask, and paper fills come off it too
+          let quote: OptionsQuote | undefined;
+          const quoteResult = await getMarketDataService().getOptionQuote(
+            orderRequest.underlying,
+            orderRequest.expiration,
+            orderRequest.strike,
+            orderRequest.option_type
+          );
+          if (quoteResult.success && quoteResult.data) {
+            quote = quoteResult.data;
+          } else {
+            console.warn(`[${correlationId}] Stage: ORDER_SUBMISSION, Status: NO_QUOTE, Error: ${quoteResult.error}, falling back to base price ${basePrice}`);
+          }
+
+          const {
+            order: orderRow,
+            result: orderResult,
+            fill,
+            trade_booked: tradeBooked,
+            replayed,
+            error: orderError,
+            chase,
+          } = await submitEntry(supabase, adapter, orderRequest, quote, basePrice);
+
+          if (replayed) {
+            console.log(`[${correlationId}] Stage: ORDER_SUBMISSION, Status: DUPLICATE, ClientOrderId: ${orderRequest.client_order_id}, OrderStatus: ${orderResult.status}, BrokerOrderId: ${orderResult.broker_order_id}`);
+          } else {
+            console.log(`[${correlationId}] Stage: ORDER_SUBMISSION, Status: ${orderResult.success ? 'SUCCESS' : 'FAILED'}, OrderStatus: ${orderResult.status}, BrokerOrderId: ${orderResult.broker_order_id}`);
+          }
+
+          if (chase) {
+            console.log(`[${correlationId}] Stage: ENTRY_CHASE, Status: ${chase.status}, Steps: ${chase.steps.length}, Mid: ${chase.mid_price}, PriceImprovement: ${chase.price_improvement}`);
+          }
 
           await supabase.from('adapter_logs').insert({
             correlation_id: correlationId,
             adapter_name: adapter.name,
-            operation: 'SUBMIT_ORDER',
+            operation: chase ? 'CHASE_ORDER' : 'SUBMIT_ORDER',
             request_payload: orderRequest,
-            response_payload: orderResult,
+            response_payload: chase ?? orderResult,
             status: orderResult.success ? 'SUCCESS' : 'FAILURE',
             duration_ms: Date.now() - decisionStartTime,
           });
 
-          const { data: orderRow, error: orderError } = await supabase
-            .from('orders')
-            .insert({
-              signal_id: signalId,
-              broker_order_id: orderResult.broker_order_id,
-              client_order_id: `CLT-${signalId.substring(0, 8)}-${Date.now()}`,
-              underlying: orderRequest.underlying,
-              symbol: orderRequest.symbol,
-              strike: orderRequest.strike,
-              expiration: orderRequest.expiration,
-              option_type: orderRequest.option_type,
-              side: orderRequest.side,
-              quantity: orderRequest.quantity,
-              order_type: orderRequest.order_type,
-              limit_price: orderRequest.limit_price || null,
-              stop_price: orderRequest.stop_price || null,
-              time_in_force: orderRequest.time_in_force,
-              mode: adapter.mode,
-              status: orderResult.status,
-              filled_quantity: orderResult.filled_quantity,
-              avg_fill_price: orderResult.avg_fill_price || null,
-              submitted_at: new Date().toISOString(),
-              filled_at: orderResult.status === 'FILLED' ? new Date().toISOString() : null,
-            })
-            .select('*')
-            .single();
-
-          if (orderError) {
-            console.error(`[${correlationId}] Stage: ORDER_STORAGE, Status: FAILED, Error: ${orderError.message}`);
+          if (!orderRow) {
+            console.error(`[${correlationId}] Stage: ORDER_STORAGE, Status: FAILED, Error: ${orderError}`);
           } else {
-            console.log(`[${correlationId}] Stage: ORDER_STORAGE, Status: SUCCESS, OrderId: ${orderRow?.id}`);
+            console.log(`[${correlationId}] Stage: ORDER_STORAGE, Status: SUCCESS, OrderId: ${orderRow.id}`);
           }
 
-          if (orderRow && orderResult.status === 'FILLED' && trade) {
-            console.log(`[${correlationId}] Stage: TRADE_EXECUTION, Status: FILLED, ExecutionPrice: ${trade.execution_price}, Quantity: ${trade.quantity}`);
-            
-            await supabase.from('trades').insert({
-              order_id: orderRow.id,
-              broker_trade_id: trade.broker_trade_id || null,
-              execution_price: trade.execution_price,
-              quantity: trade.quantity,
-              commission: trade.commission,
-              fees: trade.fees,
-              total_cost: trade.total_cost,
-              underlying: orderRequest.underlying,
-              symbol: orderRequest.symbol,
-              strike: orderRequest.strike,
-              expiration: orderRequest.expiration,
-              option_type: orderRequest.option_type,
-              executed_at: trade.executed_at,
-            });
+          if (orderRow && fill) {
+            console.log(`[${correlationId}] Stage: TRADE_EXECUTION, Status: ${orderResult.status}, ExecutionPrice: ${fill.execution_price}, Quantity: ${fill.quantity}`);
 
-            console.log(`[${correlationId}] Stage: TRADE_STORAGE, Status: SUCCESS`);
+            if (tradeBooked) {
+              console.log(`[${correlationId}] Stage: TRADE_STORAGE, Status: SUCCESS`);
+            } else {
+              console.error(`[${correlationId}] Stage: TRADE_STORAGE, Status: FAILED, Error: ${orderError ?? 'Trade already booked'}`);
+            }
 
+            // Credit, collateral and max loss follow the actual fill
+            const risk = calculatePositionRisk({
+              side: orderSide === 'SELL_TO_OPEN' ? 'SHORT' : 'LONG',
+              optionType: orderRequest.option_type,
+              strike: orderRequest.strike,
+              premium: fill.execution_price,
+              quantity: fill.quantity,
+            });
             await supabase
               .from('refactored_positions')
               .update({
-                entry_price: trade.execution_price,
+                entry_price: fill.execution_price,
+                // Partial fills hold only the contracts that traded
+                quantity: fill.quantity,
+                credit_received: orderSide === 'SELL_TO_OPEN' ? risk.premium : null,
+                collateral_requirement: risk.collateral,
+                max_loss: risk.maxLoss,
                 updated_at: new Date().toISOString(),
               })
               .eq('signal_id', result.trackingId);
               
-            console.log(`[${correlationId}] Stage: POSITION_UPDATE, Status: SUCCESS, EntryPrice: ${trade.execution_price}`);
+            console.log(`[${correlationId}] Stage: POSITION_UPDATE, Status: SUCCESS, EntryPrice: ${fill.execution_price}`);
+          }
+
+          // A chase that traded nothing leaves no contracts behind its position
+          if (chase && !replayed && !fill && result.trackingId) {
+            const { data: stillWorking } = await supabase
+              .from('orders')
+              .select('id')
+              .eq('chase_id', chase.chase_id)
+              .in('status', WORKING_ORDER_STATUSES);
+            if (!stillWorking?.length) {
+              const closedAt = new Date().toISOString();
+              await supabase
+                .from('refactored_positions')
+                .update({ status: 'CLOSED', quantity: 0, realized_pnl: 0, exit_time: closedAt, updated_at: closedAt })
+                .eq('signal_id', result.trackingId);
+              console.log(`[${correlationId}] Stage: POSITION_UPDATE, Status: CLOSED, Reason: ${orderError}`);
+            }
+          }
+
+          // A replayed order already had its bracket attached by the first attempt
+          if (orderRow && orderResult.success && !replayed && result.trackingId) {
+            const bracketStatus = await attachEntryBracket(
+              supabase,
+              adapter,
+              result.trackingId,
+              orderRow.id,
+              orderRequest,
+              fill
+            );
+            console.log(`[${correlationId}] Stage: BRACKET_ATTACH, Status: ${bracketStatus}`);
           }
         }
       } else {
@@ -808,7 +1090,7 @@ async function processSignalAsync(
       
       console.log(`[${correlationId}] Stage: SIGNAL_UPDATE, Status: SUCCESS, NewStatus: REJECTED`);
       
-      // Store failure in database (signal + pipeline failure)
+      // Store rejected signal in database (the pipeline dead-letters the failure itself)
       if (result.signal) {
         const metadata = {
           ...(result.signal.metadata || {}),
@@ -837,19 +1119,9 @@ async function processSignalAsync(
         
         console.log(`[${correlationId}] Stage: REFACTORED_SIGNAL_STORAGE, Status: SUCCESS, TrackingId: ${result.trackingId}, Valid: false`);
       }
-
-      await supabase.from('refactored_pipeline_failures').insert({
-        id: crypto.randomUUID(),
-        tracking_id: result.trackingId || correlationId,
-        signal_id: result.signal?.id || null,
-        stage: result.stage,
-        reason: result.failureReason || 'Unknown failure',
-        signal_data: result.signal || rawPayload,
-        timestamp: new Date().toISOString(),
-      });
-      
-      console.log(`[${correlationId}] Stage: FAILURE_STORAGE, Status: SUCCESS`);
     }
+
+    return result;
     
   } catch (error) {
     const errorMessage = error instanceof Error ? error.message : 'Unknown error';
@@ -885,6 +1157,64 @@ async function processSignalAsync(
     } catch (dbError) {
       console.error(`[${correlationId}] Stage: ERROR_STORAGE, Status: FAILED, Error: ${dbError instanceof Error ? dbError.message : 'Unknown error'}`);
     }
+
+    return null;
+  }
+}
+
+export interface ReplayOutcome {
+  failure_id: string;
+  success: boolean;
+  tracking_id?: string;
+  stage?: string;
+  reason?: string;
+  error?: string;
+}
+
+/**
+ * Replay a dead-lettered signal through the pipeline, including order
+ * submission. The original signals row is updated with the new outcome.
+ */
+export async function replayFailedSignal(
+  failureId: string,
+  options: { bypassAgeCheck?: boolean } = {}
+): Promise<ReplayOutcome> {
+  const entry = await failureStore.get(failureId);
+
+  if (!entry) {
+    return { failure_id: failureId, success: false, error: 'Failure not found' };
+  }
+  if (entry.status === 'REPLAYED') {
+    return { failure_id: failureId, success: false, error: 'Failure was already replayed successfully' };
   }
+  if (!entry.rawPayload || !entry.originalSignalId) {
+    return { failure_id: failureId, success: false, error: 'Failure has no stored payload to replay' };
+  }
+
+  const payload = entry.rawPayload as { metadata?: { signature_verified?: boolean; signal_hash?: string } };
+  const correlationId = crypto.randomUUID();
+
+  console.log(`[${correlationId}] Stage: REPLAY, Status: STARTED, FailureId: ${failureId}, OriginalStage: ${entry.stage}`);
+
+  const result = await processSignalAsync(
+    payload,
+    correlationId,
+    payload.metadata?.signature_verified === true,
+    entry.originalSignalId,
+    payload.metadata?.signal_hash ?? '',
+    { failureId, stage: entry.stage, bypassAgeCheck: options.bypassAgeCheck }
+  );
+
+  if (!result) {
+    return { failure_id: failureId, success: false, error: 'Replay raised an error; see refactored_processing_errors' };
+  }
+
+  return {
+    failure_id: failureId,
+    success: result.success,
+    tracking_id: result.trackingId,
+    stage: result.stage,
+    reason: result.failureReason,
+  };
 }
 
@@ -0,0 +1,10 @@
+-- Add multi-leg order metadata to strategies (legs link via orders.strategy_id)
+
+ALTER TABLE strategies
+  ADD COLUMN IF NOT EXISTS quantity INTEGER,
+  ADD COLUMN IF NOT EXISTS order_type TEXT CHECK (order_type IN ('MARKET', 'LIMIT')),
+  ADD COLUMN IF NOT EXISTS net_limit_price DECIMAL,
+  ADD COLUMN IF NOT EXISTS net_fill_price DECIMAL,
+  ADD COLUMN IF NOT EXISTS price_effect TEXT CHECK (price_effect IN ('DEBIT', 'CREDIT', 'EVEN')),
+  ADD COLUMN IF NOT EXISTS broker_order_id TEXT,
+  ADD COLUMN IF NOT EXISTS mode TEXT CHECK (mode IN ('PAPER', 'LIVE'));
@@ -0,0 +1,8 @@
+-- Link paper trade legs produced by the GEX strategy builder
+
+ALTER TABLE public.paper_trades
+  ADD COLUMN IF NOT EXISTS strategy_group_id UUID,
+  ADD COLUMN IF NOT EXISTS strategy_type VARCHAR(20),
+  ADD COLUMN IF NOT EXISTS leg_number INTEGER;
+
+CREATE INDEX IF NOT EXISTS idx_paper_trades_strategy_group ON public.paper_trades(strategy_group_id);
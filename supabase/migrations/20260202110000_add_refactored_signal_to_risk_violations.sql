@@ -0,0 +1,7 @@
+-- Portfolio risk violations raised by the refactored orchestrator
+-- (refactored signal ids are tracking ids, not signals.id)
+
+ALTER TABLE public.risk_violations
+  ADD COLUMN IF NOT EXISTS refactored_signal_id VARCHAR(255);
+
+CREATE INDEX IF NOT EXISTS idx_risk_violations_refactored_signal ON public.risk_violations(refactored_signal_id);
@@ -0,0 +1,34 @@
+-- Daily / weekly loss circuit breaker: current halt state per trading mode
+-- plus an audit trail of every halt and manual resume
+
+CREATE TABLE IF NOT EXISTS circuit_breaker_state (
+  mode VARCHAR(10) PRIMARY KEY CHECK (mode IN ('PAPER', 'LIVE')),
+  status VARCHAR(10) NOT NULL DEFAULT 'ACTIVE' CHECK (status IN ('ACTIVE', 'HALTED')),
+  trigger_type VARCHAR(20) CHECK (trigger_type IN ('DAILY_LOSS', 'WEEKLY_LOSS')),
+  reason TEXT,
+  daily_pnl DECIMAL(12, 2),
+  weekly_pnl DECIMAL(12, 2),
+  halted_at TIMESTAMPTZ,
+  resumed_at TIMESTAMPTZ,
+  resumed_by VARCHAR(255),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+INSERT INTO circuit_breaker_state (mode, status)
+VALUES ('PAPER', 'ACTIVE'), ('LIVE', 'ACTIVE')
+ON CONFLICT (mode) DO NOTHING;
+
+CREATE TABLE IF NOT EXISTS circuit_breaker_events (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  mode VARCHAR(10) NOT NULL,
+  event_type VARCHAR(10) NOT NULL CHECK (event_type IN ('HALTED', 'RESUMED')),
+  trigger_type VARCHAR(20),
+  reason TEXT,
+  actor VARCHAR(255),
+  daily_pnl DECIMAL(12, 2),
+  weekly_pnl DECIMAL(12, 2),
+  limit_value DECIMAL(12, 2),
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_circuit_breaker_events_mode_created ON circuit_breaker_events(mode, created_at DESC);
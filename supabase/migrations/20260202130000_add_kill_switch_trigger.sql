@@ -0,0 +1,8 @@
+-- Allow the global kill switch to halt trading through circuit_breaker_state
+
+ALTER TABLE circuit_breaker_state
+  DROP CONSTRAINT IF EXISTS circuit_breaker_state_trigger_type_check;
+
+ALTER TABLE circuit_breaker_state
+  ADD CONSTRAINT circuit_breaker_state_trigger_type_check
+  CHECK (trigger_type IN ('DAILY_LOSS', 'WEEKLY_LOSS', 'KILL_SWITCH'));
@@ -0,0 +1,58 @@
+-- Shared pipeline state (deduplication fingerprints, cooldowns,
+-- signal-to-position mapping) so every edge function instance sees the same claims
+
+CREATE TABLE IF NOT EXISTS pipeline_state (
+  namespace VARCHAR(50) NOT NULL,
+  key VARCHAR(255) NOT NULL,
+  value TEXT NOT NULL,
+  stored_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  expires_at TIMESTAMPTZ,
+  PRIMARY KEY (namespace, key)
+);
+
+CREATE INDEX IF NOT EXISTS idx_pipeline_state_expires_at
+  ON pipeline_state(expires_at)
+  WHERE expires_at IS NOT NULL;
+
+-- Atomic insert-if-absent: claims the key when it is missing or expired.
+-- Returns true only for the caller whose row was written.
+CREATE OR REPLACE FUNCTION state_store_put_if_absent(
+  p_namespace VARCHAR,
+  p_key VARCHAR,
+  p_value TEXT,
+  p_stored_at TIMESTAMPTZ,
+  p_expires_at TIMESTAMPTZ
+)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  claimed BOOLEAN;
+BEGIN
+  INSERT INTO pipeline_state (namespace, key, value, stored_at, expires_at)
+  VALUES (p_namespace, p_key, p_value, p_stored_at, p_expires_at)
+  ON CONFLICT (namespace, key) DO UPDATE
+    SET value = EXCLUDED.value,
+        stored_at = EXCLUDED.stored_at,
+        expires_at = EXCLUDED.expires_at
+    WHERE pipeline_state.expires_at IS NOT NULL
+      AND pipeline_state.expires_at <= EXCLUDED.stored_at
+  RETURNING true INTO claimed;
+
+  RETURN COALESCE(claimed, false);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION state_store_delete(p_namespace VARCHAR, p_key VARCHAR)
+RETURNS VOID
+LANGUAGE sql
+AS $$
+  DELETE FROM pipeline_state WHERE namespace = p_namespace AND key = p_key;
+$$;
+
+CREATE OR REPLACE FUNCTION state_store_clear(p_namespace VARCHAR)
+RETURNS VOID
+LANGUAGE sql
+AS $$
+  DELETE FROM pipeline_state WHERE namespace = p_namespace;
+$$;
@@ -0,0 +1,28 @@
+-- Turn refactored_pipeline_failures into a dead-letter queue that can be
+-- inspected and replayed. Failures are now written by the pipeline itself,
+-- before any refactored_signals row exists, so signal_id is no longer a
+-- foreign key.
+
+ALTER TABLE refactored_pipeline_failures
+  DROP CONSTRAINT IF EXISTS refactored_pipeline_failures_signal_id_fkey;
+
+ALTER TABLE refactored_pipeline_failures
+  ADD COLUMN IF NOT EXISTS raw_payload JSONB,
+  ADD COLUMN IF NOT EXISTS correlation_id VARCHAR(255),
+  ADD COLUMN IF NOT EXISTS original_signal_id VARCHAR(255),
+  ADD COLUMN IF NOT EXISTS status VARCHAR(20) NOT NULL DEFAULT 'PENDING',
+  ADD COLUMN IF NOT EXISTS replay_count INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS last_replayed_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS last_replay_tracking_id VARCHAR(255),
+  ADD COLUMN IF NOT EXISTS last_replay_stage VARCHAR(20),
+  ADD COLUMN IF NOT EXISTS last_replay_reason TEXT;
+
+ALTER TABLE refactored_pipeline_failures
+  DROP CONSTRAINT IF EXISTS refactored_pipeline_failures_status_check;
+
+ALTER TABLE refactored_pipeline_failures
+  ADD CONSTRAINT refactored_pipeline_failures_status_check
+  CHECK (status IN ('PENDING', 'REPLAYED', 'REPLAY_FAILED'));
+
+CREATE INDEX IF NOT EXISTS idx_refactored_pipeline_failures_status
+  ON refactored_pipeline_failures(status, timestamp DESC);
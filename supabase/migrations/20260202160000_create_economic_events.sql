@@ -0,0 +1,20 @@
+-- Scheduled macro releases and earnings used for entry blackouts.
+-- Macro events (FOMC, CPI, NFP) have no symbol and apply to every
+-- underlying; earnings rows carry their ticker.
+
+CREATE TABLE IF NOT EXISTS economic_events (
+  id VARCHAR(255) PRIMARY KEY DEFAULT gen_random_uuid()::text,
+  event_type VARCHAR(20) NOT NULL CHECK (event_type IN ('FOMC', 'CPI', 'NFP', 'EARNINGS')),
+  symbol VARCHAR(20),
+  event_time TIMESTAMPTZ NOT NULL,
+  title TEXT,
+  source VARCHAR(20) NOT NULL DEFAULT 'MANUAL' CHECK (source IN ('MANUAL', 'CSV', 'ICS')),
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+
+  CONSTRAINT economic_events_earnings_symbol CHECK (event_type <> 'EARNINGS' OR symbol IS NOT NULL)
+);
+
+CREATE INDEX IF NOT EXISTS idx_economic_events_event_time ON economic_events(event_time);
+CREATE INDEX IF NOT EXISTS idx_economic_events_symbol ON economic_events(symbol, event_time);
+
+COMMENT ON TABLE economic_events IS 'Scheduled economic releases and earnings for entry blackouts';
@@ -0,0 +1,20 @@
+-- Exit tracking for tiered partial exits and trailing stops in the
+-- refactored exit path. quantity is what remains open; original_quantity
+-- keeps the entry size that tier percentages are measured against.
+
+ALTER TABLE refactored_positions
+  ADD COLUMN IF NOT EXISTS original_quantity INTEGER,
+  ADD COLUMN IF NOT EXISTS high_water_mark DECIMAL(10, 2),
+  ADD COLUMN IF NOT EXISTS trailing_stop_price DECIMAL(10, 2),
+  ADD COLUMN IF NOT EXISTS exit_tiers_taken INTEGER NOT NULL DEFAULT 0;
+
+UPDATE refactored_positions
+SET original_quantity = quantity
+WHERE original_quantity IS NULL;
+
+-- Fully closed positions keep quantity 0
+ALTER TABLE refactored_positions
+  DROP CONSTRAINT IF EXISTS refactored_positions_quantity_check;
+
+ALTER TABLE refactored_positions
+  ADD CONSTRAINT refactored_positions_quantity_check CHECK (quantity >= 0);
@@ -0,0 +1,9 @@
+-- Greeks and implied volatility captured when a refactored position opens.
+-- The exit worker compares fresh quotes against these for IV crush exits.
+
+ALTER TABLE refactored_positions
+  ADD COLUMN IF NOT EXISTS entry_delta DECIMAL(8, 4),
+  ADD COLUMN IF NOT EXISTS entry_gamma DECIMAL(8, 4),
+  ADD COLUMN IF NOT EXISTS entry_theta DECIMAL(10, 4),
+  ADD COLUMN IF NOT EXISTS entry_vega DECIMAL(10, 4),
+  ADD COLUMN IF NOT EXISTS entry_iv DECIMAL(8, 4);
@@ -0,0 +1,11 @@
+-- Expiration outcomes in trade history. Paper positions still open when their
+-- series expires are settled at intrinsic value and booked as a trade with
+-- outcome EXPIRED; ordinary fills leave these columns null.
+
+ALTER TABLE trades
+  ADD COLUMN IF NOT EXISTS outcome TEXT CHECK (outcome IN ('EXPIRED')),
+  ADD COLUMN IF NOT EXISTS settlement_type TEXT
+    CHECK (settlement_type IN ('EXPIRED_WORTHLESS', 'CASH_SETTLED', 'EXERCISED', 'ASSIGNED')),
+  ADD COLUMN IF NOT EXISTS underlying_settlement_price DECIMAL;
+
+CREATE INDEX IF NOT EXISTS idx_trades_outcome ON trades(outcome) WHERE outcome IS NOT NULL;
@@ -0,0 +1,9 @@
+-- Short option positions on the refactored path. SELL_TO_OPEN entries record
+-- the credit collected, the collateral held against them and the maximum loss
+-- (NULL when unbounded, as for naked calls). Existing rows are long.
+
+ALTER TABLE refactored_positions
+  ADD COLUMN IF NOT EXISTS side VARCHAR(5) NOT NULL DEFAULT 'LONG' CHECK (side IN ('LONG', 'SHORT')),
+  ADD COLUMN IF NOT EXISTS credit_received DECIMAL(12, 2),
+  ADD COLUMN IF NOT EXISTS collateral_requirement DECIMAL(12, 2),
+  ADD COLUMN IF NOT EXISTS max_loss DECIMAL(12, 2);
@@ -0,0 +1,34 @@
+-- Order lifecycle: every status change and fill applied to an order is
+-- appended to order_events by the shared order state machine. Fills are
+-- booked once per broker_trade_id.
+
+CREATE TABLE IF NOT EXISTS order_events (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_id UUID NOT NULL REFERENCES orders(id) ON DELETE CASCADE,
+  event_type VARCHAR(20) NOT NULL CHECK (event_type IN ('CREATED', 'STATUS_CHANGE', 'FILL', 'REJECTED_TRANSITION')),
+  from_status VARCHAR(20),
+  to_status VARCHAR(20),
+  filled_quantity INTEGER, -- Cumulative, after the event
+  fill_quantity INTEGER,
+  fill_price DECIMAL(10, 4),
+  broker_trade_id TEXT,
+  source VARCHAR(50) NOT NULL,
+  reason TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_order_events_order_created ON order_events(order_id, created_at);
+
+-- Resting paper fills restored from the database restarted their -F<n>
+-- trade ids on every poll; keep the first row of each and tag the rest so
+-- the ids can be made unique.
+UPDATE trades
+SET broker_trade_id = trades.broker_trade_id || '-' || trades.id
+FROM (
+  SELECT id, ROW_NUMBER() OVER (PARTITION BY broker_trade_id ORDER BY created_at, id) AS occurrence
+  FROM trades
+  WHERE broker_trade_id IS NOT NULL
+) duplicates
+WHERE trades.id = duplicates.id AND duplicates.occurrence > 1;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_trades_broker_trade_id ON trades(broker_trade_id) WHERE broker_trade_id IS NOT NULL;
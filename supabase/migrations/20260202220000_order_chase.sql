@@ -0,0 +1,12 @@
+-- Limit chasing: an order walked from mid toward the far side is a series of
+-- orders sharing a chase_id, each logging its price as a CHASE_STEP event.
+
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS chase_id UUID;
+
+CREATE INDEX IF NOT EXISTS idx_orders_chase_id ON orders(chase_id) WHERE chase_id IS NOT NULL;
+
+ALTER TABLE order_events ADD COLUMN IF NOT EXISTS details JSONB;
+
+ALTER TABLE order_events DROP CONSTRAINT IF EXISTS order_events_event_type_check;
+ALTER TABLE order_events ADD CONSTRAINT order_events_event_type_check
+  CHECK (event_type IN ('CREATED', 'STATUS_CHANGE', 'FILL', 'REJECTED_TRANSITION', 'CHASE_STEP'));
@@ -0,0 +1,42 @@
+-- Protective brackets: a stop and a profit target attached to a position
+-- once its entry fills. BROKER brackets rest at the broker as an OCO pair
+-- whose legs are ordinary orders rows; LOCAL brackets are watched against
+-- quotes by the exit worker.
+
+CREATE TABLE IF NOT EXISTS order_brackets (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  refactored_position_id VARCHAR(255) NOT NULL REFERENCES refactored_positions(id) ON DELETE CASCADE,
+  entry_order_id UUID REFERENCES orders(id) ON DELETE SET NULL,
+  underlying TEXT NOT NULL,
+  symbol TEXT NOT NULL,
+  strike DECIMAL NOT NULL,
+  expiration DATE NOT NULL,
+  option_type TEXT NOT NULL CHECK (option_type IN ('CALL', 'PUT')),
+  side VARCHAR(5) NOT NULL CHECK (side IN ('LONG', 'SHORT')),
+  quantity INTEGER,
+  entry_price DECIMAL(10, 4),
+  stop_price DECIMAL(10, 4),
+  target_price DECIMAL(10, 4),
+  level_source VARCHAR(10) CHECK (level_source IN ('VOLATILITY', 'CONFIG')),
+  management VARCHAR(10) CHECK (management IN ('BROKER', 'LOCAL')),
+  status VARCHAR(10) NOT NULL DEFAULT 'PENDING' CHECK (status IN ('PENDING', 'ACTIVE', 'TRIGGERED', 'CANCELLED')),
+  stop_order_id UUID REFERENCES orders(id) ON DELETE SET NULL,
+  target_order_id UUID REFERENCES orders(id) ON DELETE SET NULL,
+  triggered_leg VARCHAR(6) CHECK (triggered_leg IN ('STOP', 'TARGET')),
+  triggered_price DECIMAL(10, 4),
+  mode TEXT NOT NULL CHECK (mode IN ('PAPER', 'LIVE')),
+  reason TEXT,
+  activated_at TIMESTAMPTZ,
+  triggered_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- One live bracket per position
+CREATE UNIQUE INDEX IF NOT EXISTS idx_order_brackets_open_position
+  ON order_brackets(refactored_position_id)
+  WHERE status IN ('PENDING', 'ACTIVE');
+
+CREATE INDEX IF NOT EXISTS idx_order_brackets_status ON order_brackets(status);
+
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS bracket_id UUID REFERENCES order_brackets(id) ON DELETE SET NULL;
@@ -0,0 +1,7 @@
+-- Order outbox: an order is written as a PENDING intent under its unique
+-- client_order_id before it is sent, and the id goes to the broker as the
+-- idempotency key. Intents that never got a broker_order_id are swept by
+-- poll-orders: adopted if the broker has the order, rejected otherwise.
+
+CREATE INDEX IF NOT EXISTS idx_orders_unsent_intents ON orders(mode, created_at)
+  WHERE status = 'PENDING' AND broker_order_id IS NULL;
@@ -0,0 +1,35 @@
+-- Loss windows for the circuit breaker. Each exit books its realized P&L
+-- with its own timestamp, so a partial exit is counted in the session it
+-- happened rather than whenever the position row last changed. Open
+-- positions keep their last mark per session, so a window counts only the
+-- mark-to-market change since it began.
+
+CREATE TABLE IF NOT EXISTS refactored_position_exits (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  refactored_position_id VARCHAR(255) NOT NULL REFERENCES refactored_positions(id) ON DELETE CASCADE,
+  quantity INTEGER NOT NULL CHECK (quantity > 0),
+  exit_price DECIMAL(10, 2),
+  realized_pnl DECIMAL(12, 2) NOT NULL,
+  exited_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_refactored_position_exits_exited_at ON refactored_position_exits(exited_at DESC);
+CREATE INDEX IF NOT EXISTS idx_refactored_position_exits_position ON refactored_position_exits(refactored_position_id);
+
+-- Closed positions carry their total realized P&L at the close; earlier
+-- partial exits on still-open rows have no reliable date and are not backfilled
+INSERT INTO refactored_position_exits (refactored_position_id, quantity, exit_price, realized_pnl, exited_at)
+SELECT id, GREATEST(COALESCE(original_quantity, quantity), 1), exit_price, realized_pnl, exit_time
+FROM refactored_positions
+WHERE status = 'CLOSED' AND exit_time IS NOT NULL AND realized_pnl IS NOT NULL;
+
+-- One row per position and exchange session date, overwritten by each exit-worker run
+CREATE TABLE IF NOT EXISTS refactored_position_marks (
+  id VARCHAR(255) PRIMARY KEY, -- <position id>:<session date>
+  refactored_position_id VARCHAR(255) NOT NULL REFERENCES refactored_positions(id) ON DELETE CASCADE,
+  current_price DECIMAL(10, 2),
+  unrealized_pnl DECIMAL(12, 2) NOT NULL,
+  marked_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_refactored_position_marks_position ON refactored_position_marks(refactored_position_id, marked_at DESC);
@@ -0,0 +1,13 @@
+-- Underlying close each expired series settles against. The exit worker
+-- records it while a quote still shows the expiration-day close, so positions
+-- settled later use that close rather than the price at the time of the run.
+-- A close missed by the worker can be entered by hand with source MANUAL.
+
+CREATE TABLE IF NOT EXISTS expiration_settlement_closes (
+  underlying VARCHAR(20) NOT NULL,
+  expiration DATE NOT NULL,
+  underlying_close DECIMAL(10, 2) NOT NULL CHECK (underlying_close > 0),
+  source VARCHAR(20) NOT NULL DEFAULT 'QUOTE' CHECK (source IN ('QUOTE', 'MANUAL')),
+  recorded_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (underlying, expiration)
+);
@@ -0,0 +1,14 @@
+-- Trading mode of each refactored position, so per-mode checks such as the
+-- loss circuit breaker only see their own book. Positions opened before the
+-- column existed take the mode of the orders placed against them.
+
+ALTER TABLE refactored_positions
+  ADD COLUMN IF NOT EXISTS mode TEXT NOT NULL DEFAULT 'PAPER' CHECK (mode IN ('PAPER', 'LIVE'));
+
+UPDATE refactored_positions
+SET mode = orders.mode
+FROM orders
+WHERE orders.refactored_position_id = refactored_positions.id
+  AND orders.mode = 'LIVE';
+
+CREATE INDEX IF NOT EXISTS idx_refactored_positions_mode_status ON refactored_positions(mode, status);
@@ -0,0 +1,13 @@
+-- Multi-leg orders go through the order outbox too: the strategy and its
+-- legs are written as PENDING intents under the strategy's client_order_id
+-- before anything is sent, and that id goes to the broker as the
+-- idempotency key. Strategies that never got a broker_order_id are swept by
+-- poll-orders with their legs.
+
+ALTER TABLE strategies
+  ADD COLUMN IF NOT EXISTS client_order_id TEXT;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_strategies_client_order_id ON strategies(client_order_id);
+
+CREATE INDEX IF NOT EXISTS idx_strategies_unsent_intents ON strategies(mode, created_at)
+  WHERE status = 'PENDING' AND broker_order_id IS NULL;
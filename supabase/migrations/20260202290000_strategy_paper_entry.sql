@@ -0,0 +1,7 @@
+-- Entry context of a paper strategy from the strategy builder (built
+-- strategy, GEX signals, signal id, VIX, quantity). A net-limit order that
+-- rests is filled later by poll-orders, which opens the paper position from
+-- this context at the fill prices.
+
+ALTER TABLE strategies
+  ADD COLUMN IF NOT EXISTS paper_entry JSONB;